@@ -1,4 +1,4 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Tabs, router } from 'expo-router';
 import {
   House as Home,
@@ -10,6 +10,7 @@ import {
 } from 'lucide-react-native';
 import { useTheme } from '@/context/ThemeContext';
 import { useAuth } from '@/context/AuthContext';
+import { syncService } from '@/lib/services/syncService';
 import { View, StyleSheet, Platform } from 'react-native';
 
 function TabIcon({
@@ -51,6 +52,7 @@ function TabIcon({
 export default function TabLayout() {
   const { theme } = useTheme();
   const { user, loading } = useAuth();
+  const [conflictCount, setConflictCount] = useState(0);
 
   useEffect(() => {
     if (!loading && !user) {
@@ -58,6 +60,11 @@ export default function TabLayout() {
     }
   }, [user, loading]);
 
+  // Unresolved sync conflicts show as a badge on Home
+  useEffect(() => {
+    return syncService.subscribe(status => setConflictCount(status.unresolvedConflicts));
+  }, []);
+
   if (loading || !user) return null;
 
   return (
@@ -95,6 +102,7 @@ export default function TabLayout() {
         name="index"
         options={{
           title: 'Home',
+          tabBarBadge: conflictCount > 0 ? conflictCount : undefined,
           tabBarIcon: ({ focused, color }) => (
             <TabIcon icon={Home} focused={focused} color={color} routeName="index" />
           ),
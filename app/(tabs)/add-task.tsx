@@ -17,7 +17,7 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
-import { X, Plus, Tag, Clock, AlignLeft, Calendar, Zap, Target, CircleCheck as CheckCircle2, Hash } from 'lucide-react-native';
+import { X, Plus, Tag, Clock, AlignLeft, Calendar, Zap, Target, CircleCheck as CheckCircle2, Hash, Repeat, ListChecks, MapPin, Hourglass } from 'lucide-react-native';
 import Animated, {
   useSharedValue,
   useAnimatedStyle,
@@ -27,13 +27,14 @@ import Animated, {
 import { useTheme } from '../../context/ThemeContext';
 import { router } from 'expo-router';
 import { useAuth } from '../../context/AuthContext';
-import { SupabaseTaskService } from '../../lib/services/supabaseService';
-import { TaskCreateInput, TaskAttachment } from '../../lib/types';
+import { syncService } from '../../lib/services/syncService';
+import { TaskCreateInput, TaskAttachment, RecurrenceRule, LocationReminder } from '../../lib/types';
 import { useTaskStore } from '../../lib/taskStore';
-import { TypedStorage } from '../../lib/storage';
-import { isAuthError } from '../../lib/supabase';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import PageHeader from '../../components/PageHeader';
+import RecurrencePicker from '../../components/RecurrencePicker';
+import PlacePicker from '../../components/PlacePicker';
+import SubtaskChecklist, { ChecklistItem } from '../../components/SubtaskChecklist';
 import Button from '@/components/ui/Button';
 import Input from '@/components/ui/Input';
 import Card from '@/components/ui/Card';
@@ -61,13 +62,22 @@ const priorities = [
   { key: 'high', label: 'High', color: '#EF4444' },
 ];
 
+const estimates = [
+  { minutes: 15, label: '15m' },
+  { minutes: 30, label: '30m' },
+  { minutes: 60, label: '1h' },
+  { minutes: 120, label: '2h' },
+  { minutes: 240, label: '4h' },
+];
+
 export default function AddTaskScreen() {
   const { theme } = useTheme();
-  const { user, signOut } = useAuth();
+  const { user } = useAuth();
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [selectedPriority, setSelectedPriority] = useState('medium');
+  const [estimatedMinutes, setEstimatedMinutes] = useState<number | null>(null);
   const [isCompleted, setIsCompleted] = useState(false);
   const [showPreview, setShowPreview] = useState(false);
   const [loading, setLoading] = useState(false);
@@ -81,6 +91,17 @@ export default function AddTaskScreen() {
   const [locationEnabled, setLocationEnabled] = useState(true);
   const [previewImage, setPreviewImage] = useState<string | null>(null);
   const [ocrLoading, setOcrLoading] = useState(false);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  const [seriesStart, setSeriesStart] = useState(() => {
+    const start = new Date();
+    start.setMinutes(0, 0, 0);
+    start.setHours(start.getHours() + 1);
+    return start;
+  });
+  const [showStartPicker, setShowStartPicker] = useState(false);
+  const [checklist, setChecklist] = useState<ChecklistItem[]>([]);
+  const [requireSubtasks, setRequireSubtasks] = useState(false);
+  const [locationReminder, setLocationReminder] = useState<LocationReminder | null>(null);
 
   const scaleValue = useSharedValue(1);
 
@@ -140,6 +161,8 @@ export default function AddTaskScreen() {
     const text = await MediaService.runOCR(att.localPath || att.cloudUrl || '');
     setOcrLoading(false);
     if (text) {
+      // Kept on the attachment too, where the search index picks it up
+      setAttachments(prev => prev.map(a => (a.id === att.id ? { ...a, metadata: { ...a.metadata, ocrText: text } } : a)));
       setDescription(d => d ? d + '\n' + text : text);
       RNAlert.alert('OCR Result', 'Extracted text has been added to the description.');
     } else {
@@ -164,48 +187,52 @@ export default function AddTaskScreen() {
       category: getSelectedTags()[0]?.name || 'Personal',
       locationContext: locationContext || undefined,
       attachments: attachments.length > 0 ? attachments : undefined,
+      estimated_minutes: estimatedMinutes ?? undefined,
     };
     if (isCompleted && completedAt) {
       taskData.completed_at = completedAt;
     }
+    if (recurrence) {
+      // The first occurrence is due at the series start
+      taskData.recurrence = recurrence;
+      taskData.due_date = seriesStart.toISOString();
+    }
+    if (checklist.length > 0) {
+      taskData.require_subtasks = requireSubtasks;
+    }
+    if (locationReminder) {
+      taskData.location_reminder = locationReminder;
+    }
     try {
-      // Try to create task in Supabase
-      await SupabaseTaskService.createTask(user.id, taskData);
+      // Saved locally first; the sync engine uploads it when online
+      const task = await syncService.createTask(user.id, taskData);
+      for (const item of checklist) {
+        const subtask = await syncService.createSubtask(user.id, task.id, item.title);
+        if (item.completed) await syncService.toggleSubtaskCompletion(subtask.id);
+      }
+      syncService.sync(user.id).catch(err => console.error('Sync after create failed:', err));
       setShowPreview(true);
       setTimeout(() => {
         router.replace('/(tabs)');
       }, 1500);
     } catch (err: any) {
       console.error('Error creating task:', err);
-      
-      // Handle authentication errors
-      if (isAuthError(err)) {
-        setError('Session expired. Please sign in again.');
-        // Clear session and redirect to sign-in
-        setTimeout(() => {
-          signOut();
-          router.replace('/(auth)/sign-in');
-        }, 2000);
-        return;
-      }
-      
-      // If offline, queue the task creation
-      TypedStorage.offlineQueue.add({
-        id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        action: 'create',
-        entity: 'task',
-        data: { userId: user.id, ...taskData },
-        timestamp: Date.now(),
-      });
-      setShowPreview(true);
-      setTimeout(() => {
-        router.replace('/(tabs)');
-      }, 1500);
+      setError('Failed to save task');
     } finally {
       setLoading(false);
     }
   };
 
+  // Checklist drafts are kept in memory until the task is saved
+  const handleMoveChecklistItem = (id: string, offset: -1 | 1) => {
+    setChecklist(items => {
+      const index = items.findIndex(item => item.id === id);
+      const next = [...items];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
   const handleCancel = () => {
     Alert.alert('Cancel Task', 'Are you sure you want to cancel adding this task?', [
       { text: 'No', style: 'cancel' },
@@ -342,6 +369,84 @@ export default function AddTaskScreen() {
             </View>
           </Card>
 
+          <Card style={styles.card}>
+            <View style={styles.inputHeader}>
+              <Hourglass size={20} color={theme.colors.primary} />
+              <Text style={[styles.inputLabel, { color: theme.colors.text }]}>Time Estimate</Text>
+            </View>
+            <View style={styles.priorityContainer}>
+              {estimates.map(estimate => {
+                const selected = estimatedMinutes === estimate.minutes;
+                return (
+                  <TouchableOpacity
+                    key={estimate.minutes}
+                    onPress={() => setEstimatedMinutes(selected ? null : estimate.minutes)}
+                    style={[
+                      styles.estimateChip,
+                      { backgroundColor: selected ? theme.colors.primary : theme.colors.surfaceVariant, borderColor: theme.colors.primary }
+                    ]}
+                  >
+                    <Text style={[styles.priorityText, { color: selected ? 'white' : theme.colors.text }]}>
+                      {estimate.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </Card>
+
+          <Card style={styles.card}>
+            <View style={styles.inputHeader}>
+              <Repeat size={20} color={theme.colors.primary} />
+              <Text style={[styles.inputLabel, { color: theme.colors.text }]}>Repeat</Text>
+            </View>
+            <RecurrencePicker value={recurrence} onChange={setRecurrence} startDate={seriesStart} />
+            {recurrence && (
+              <TouchableOpacity onPress={() => setShowStartPicker(true)} style={styles.seriesStart}>
+                <Calendar size={16} color={theme.colors.primary} />
+                <Text style={[styles.seriesStartText, { color: theme.colors.primary }]}>
+                  Starts {seriesStart.toLocaleString()}
+                </Text>
+              </TouchableOpacity>
+            )}
+            {showStartPicker && (
+              <DateTimePicker
+                value={seriesStart}
+                mode="datetime"
+                display="default"
+                minimumDate={new Date()}
+                onChange={(_event: any, date?: Date) => {
+                  setShowStartPicker(false);
+                  if (date) setSeriesStart(date);
+                }}
+              />
+            )}
+          </Card>
+
+          <Card style={styles.card}>
+            <View style={styles.inputHeader}>
+              <ListChecks size={20} color={theme.colors.primary} />
+              <Text style={[styles.inputLabel, { color: theme.colors.text }]}>Checklist</Text>
+            </View>
+            <SubtaskChecklist
+              items={checklist}
+              requireAll={requireSubtasks}
+              onAdd={itemTitle => setChecklist(items => [...items, { id: `draft-${Date.now()}`, title: itemTitle, completed: false }])}
+              onToggle={id => setChecklist(items => items.map(item => (item.id === id ? { ...item, completed: !item.completed } : item)))}
+              onDelete={id => setChecklist(items => items.filter(item => item.id !== id))}
+              onMove={handleMoveChecklistItem}
+              onRequireAllChange={setRequireSubtasks}
+            />
+          </Card>
+
+          <Card style={styles.card}>
+            <View style={styles.inputHeader}>
+              <MapPin size={20} color={theme.colors.primary} />
+              <Text style={[styles.inputLabel, { color: theme.colors.text }]}>Remind me at a place</Text>
+            </View>
+            <PlacePicker value={locationReminder} onChange={setLocationReminder} />
+          </Card>
+
           <TouchableOpacity onPress={() => setIsCompleted(!isCompleted)} style={styles.quickAction}>
             {isCompleted ? (
               <CheckCircle2 size={24} color={theme.colors.success} />
@@ -522,6 +627,13 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     gap: 8,
   },
+  estimateChip: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
   priorityDot: {
     width: 8,
     height: 8,
@@ -683,4 +795,14 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-Medium',
   },
   card: { marginTop: 16 },
+  seriesStart: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 16,
+  },
+  seriesStartText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+  },
 });
\ No newline at end of file
@@ -30,7 +30,9 @@ import { useTheme } from '../../context/ThemeContext';
 import { useTaskStore } from '../../lib/taskStore';
 import { useDatabaseOperations } from '../../context/DatabaseContext';
 import { useAuth } from '../../context/AuthContext';
-import { AnalyticsService, AnalyticsData, ProductivityInsights, AdvancedProductivityMetrics, PredictiveInsights, PersonalizedInsights } from '../../lib/services/analyticsService';
+import { router } from 'expo-router';
+import { AnalyticsService, AnalyticsData, ProductivityInsights, AdvancedProductivityMetrics, PredictiveInsights, PersonalizedInsights, FocusReport } from '../../lib/services/analyticsService';
+import { DatabaseService } from '../../lib/services/databaseService';
 import PageHeader from '../../components/PageHeader';
 import Card from '@/components/ui/Card'; // <-- Import new Card component
 
@@ -48,6 +50,7 @@ export default function AnalyticsScreen() {
   const [advancedMetrics, setAdvancedMetrics] = useState<AdvancedProductivityMetrics | null>(null);
   const [predictiveInsights, setPredictiveInsights] = useState<PredictiveInsights | null>(null);
   const [personalizedInsights, setPersonalizedInsights] = useState<PersonalizedInsights | null>(null);
+  const [focusReport, setFocusReport] = useState<FocusReport | null>(null);
 
   // Load analytics on mount and when period changes
   useEffect(() => {
@@ -72,14 +75,20 @@ export default function AnalyticsScreen() {
       const score = AnalyticsService.calculateProductivityScore(tasksForAnalytics);
       setProductivityScore(score);
 
+      // Focus sessions from the last week, logged on this device
+      const weekAgo = new Date();
+      weekAgo.setDate(weekAgo.getDate() - 7);
+      const focusEntries = await DatabaseService.getFocusEntries(user.id, weekAgo);
+      setFocusReport(AnalyticsService.getFocusReport(focusEntries));
+
       // Load advanced analytics
-      const advanced = AnalyticsService.getAdvancedProductivityMetrics(tasksForAnalytics);
+      const advanced = AnalyticsService.getAdvancedProductivityMetrics(tasksForAnalytics, focusEntries);
       setAdvancedMetrics(advanced);
 
       const predictive = AnalyticsService.getPredictiveInsights(tasksForAnalytics);
       setPredictiveInsights(predictive);
 
-      const personalized = AnalyticsService.getPersonalizedInsights(tasksForAnalytics);
+      const personalized = AnalyticsService.getPersonalizedInsights(tasksForAnalytics, focusEntries);
       setPersonalizedInsights(personalized);
     } catch (error) {
       console.error('Error loading analytics:', error);
@@ -341,6 +350,51 @@ export default function AnalyticsScreen() {
           </View>
         )}
 
+        {/* Focus Time */}
+        {focusReport && (
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+              Focus Time
+            </Text>
+            <Card style={styles.metricsCard}>
+              <Text style={[styles.focusTotal, { color: theme.colors.text }]}>
+                {Math.floor(focusReport.totalMinutes / 60)}h {focusReport.totalMinutes % 60}m this week
+              </Text>
+              <View style={styles.focusDays}>
+                {focusReport.byDay.map(day => {
+                  const most = Math.max(...focusReport.byDay.map(d => d.minutes), 1);
+                  const label = new Date(`${day.date}T12:00:00`).toLocaleDateString([], { weekday: 'narrow' });
+                  return (
+                    <View key={day.date} style={styles.focusDay}>
+                      <View style={[styles.focusBarTrack, { backgroundColor: theme.colors.border }]}>
+                        <View
+                          style={[
+                            styles.focusBarFill,
+                            { backgroundColor: theme.colors.primary, height: `${(day.minutes / most) * 100}%` },
+                          ]}
+                        />
+                      </View>
+                      <Text style={[styles.focusDayLabel, { color: theme.colors.textSecondary }]}>{label}</Text>
+                    </View>
+                  );
+                })}
+              </View>
+              {focusReport.byCategory.length === 0 ? (
+                <Text style={[styles.emptyText, { color: theme.colors.textTertiary }]}>
+                  No focus sessions yet. Start one from the task list.
+                </Text>
+              ) : (
+                focusReport.byCategory.map(category => (
+                  <View key={category.category} style={styles.focusCategory}>
+                    <Text style={[styles.categoryName, { color: theme.colors.text }]}>{category.category}</Text>
+                    <Text style={[styles.categoryStats, { color: theme.colors.textSecondary }]}>{category.minutes} min</Text>
+                  </View>
+                ))
+              )}
+            </Card>
+          </View>
+        )}
+
         {/* Predictive Insights */}
         {predictiveInsights && (
           <View style={styles.section}>
@@ -381,6 +435,12 @@ export default function AnalyticsScreen() {
                   </Text>
                 </View>
               </View>
+              <TouchableOpacity
+                style={[styles.planButton, { backgroundColor: theme.colors.primary }]}
+                onPress={() => router.push('/planner')}
+              >
+                <Text style={styles.planButtonText}>Plan My Time</Text>
+              </TouchableOpacity>
             </Card>
           </View>
         )}
@@ -866,6 +926,40 @@ const styles = StyleSheet.create({
     borderTopWidth: 1,
     borderTopColor: 'rgba(0,0,0,0.1)',
   },
+  focusTotal: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    marginBottom: 12,
+  },
+  focusDays: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  focusDay: {
+    alignItems: 'center',
+    gap: 4,
+  },
+  focusBarTrack: {
+    width: 16,
+    height: 60,
+    borderRadius: 4,
+    justifyContent: 'flex-end',
+    overflow: 'hidden',
+  },
+  focusBarFill: {
+    width: '100%',
+    borderRadius: 4,
+  },
+  focusDayLabel: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+  },
+  focusCategory: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
   peakHoursLabel: {
     fontSize: 14,
     fontFamily: 'Inter-Medium',
@@ -884,6 +978,16 @@ const styles = StyleSheet.create({
     marginLeft: 12,
     flex: 1,
   },
+  planButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+  },
+  planButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+  },
   insightTitle: {
     fontSize: 14,
     fontFamily: 'Inter-Medium',
@@ -16,7 +16,7 @@ import {
   Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { Search, CircleCheck as CheckCircle2, Circle, Clock, Star, Target, LogOut, Plus, Bell, CheckCircle, XCircle, Snooze } from 'lucide-react-native';
+import { Search, CircleCheck as CheckCircle2, Circle, Clock, Star, Target, LogOut, Plus, Bell, CheckCircle, XCircle, Snooze, Repeat, ListChecks, Lock, Link2, ListFilter } from 'lucide-react-native';
 import Animated, { 
   useSharedValue, 
   useAnimatedStyle, 
@@ -28,27 +28,36 @@ import Animated, {
 
 import { useTheme } from '@/context/ThemeContext';
 import { useAuth } from '@/context/AuthContext';
-import { SupabaseTaskService } from '@/lib/services/supabaseService';
+import { syncService, SyncStatus, SubtasksIncompleteError } from '@/lib/services/syncService';
 import { useFocusEffect } from '@react-navigation/native';
-import { router } from 'expo-router';
+import { router, useLocalSearchParams } from 'expo-router';
 import { supabase } from '@/lib/supabase';
 import { useTaskStore } from '@/lib/taskStore';
 import { isAuthError } from '@/lib/supabase';
-import { TypedStorage, OfflineQueueItem } from '@/lib/storage';
-import NetInfo from '@react-native-community/netinfo';
-import { Task as SupabaseTask, TaskListItem } from '@/lib/types';
+import { OfflineQueueItem } from '@/lib/storage';
+import { Task, TaskListItem, Subtask, TaskSearchResult, SavedView, SavedViewInput } from '@/lib/types';
 import SvgLogo from '../../assets/images/logo.svg';
 import { useOfflineAI } from '@/context/ThemeContext';
-import { scheduleAdaptiveReminder } from '@/lib/services/reminderService';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { DatabaseService } from '@/lib/services/databaseService';
 import { Menu, MenuOptions, MenuOption, MenuTrigger } from 'react-native-popup-menu';
 import { AnalyticsService, PriorityContext } from '@/lib/services/analyticsService';
-import DeviceManagementService from '@/lib/services/deviceManagementService';
+import { RecurrenceService } from '@/lib/services/recurrenceService';
+import SubtaskChecklist from '@/components/SubtaskChecklist';
+import TaskTimer from '@/components/TaskTimer';
+import FocusSessionBar from '@/components/FocusSessionBar';
+import DependencyPicker from '@/components/DependencyPicker';
+import SavedViewEditor from '@/components/SavedViewEditor';
+import { SearchService } from '@/lib/services/searchService';
+import { SmartFilterService } from '@/lib/services/smartFilterService';
+import { ReminderActions } from '@/lib/services/reminderActions';
+import { reminderEngine } from '@/lib/services/reminderService';
+import { reminderWindow, slotOf, SlotChoice } from '@/lib/services/reminderEffectivenessModel';
+import { DependencyService, DependencyCycleError, DependencySuggestion } from '@/lib/services/dependencyService';
 
 const { width, height } = Dimensions.get('window');
 
-function mapSupabaseTaskToUITask(task: SupabaseTask): TaskListItem {
+function mapTaskToUITask(task: Task): TaskListItem {
   const createdAt = new Date(task.created_at);
   const now = new Date();
   const diffMs = now.getTime() - createdAt.getTime();
@@ -71,15 +80,6 @@ function mapSupabaseTaskToUITask(task: SupabaseTask): TaskListItem {
   };
 }
 
-// Add a stub for ReminderFeedbackService
-const ReminderFeedbackService = {
-  async processReminderFeedback(taskId, userId, feedbackType) {
-    // This would update reminder patterns based on feedback
-    // For now, just log
-    console.log('Reminder feedback:', { taskId, userId, feedbackType });
-  }
-};
-
 export default function HomeScreen() {
   const { theme } = useTheme();
   const { user, profile, signOut } = useAuth();
@@ -97,17 +97,24 @@ export default function HomeScreen() {
   const [galleryVisible, setGalleryVisible] = useState(false);
   const [galleryIndex, setGalleryIndex] = useState(0);
   const [galleryAnim] = useState(new Animated.Value(0));
-  const [syncStatus, setSyncStatus] = useState({ pending: 0, failed: 0, syncing: 0, lastError: '' });
+  const [syncStatus, setSyncStatus] = useState<Omit<SyncStatus, 'conflicts'>>({
+    pending: 0, failed: 0, syncing: 0, unresolvedConflicts: 0, isSyncing: false, lastError: '', lastSyncedAt: null,
+  });
   const [conflicts, setConflicts] = useState<OfflineQueueItem[]>([]);
-  const [conflictModal, setConflictModal] = useState<{ item: OfflineQueueItem | null, visible: boolean }>({ item: null, visible: false });
-  const [fieldSelections, setFieldSelections] = useState<{ [key: string]: 'local' | 'remote' }>({});
   const [reminderCenterVisible, setReminderCenterVisible] = useState(false);
   const [rescheduleTask, setRescheduleTask] = useState<TaskListItem | null>(null);
   const [rescheduleDate, setRescheduleDate] = useState<Date | null>(null);
+  const [reminderOdds, setReminderOdds] = useState<Record<string, { probability: number; reason: string; better: SlotChoice | null }>>({});
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [showReorderBanner, setShowReorderBanner] = useState(true);
   const [focusMode, setFocusMode] = useState(false);
-  const [deviceService] = useState(() => DeviceManagementService.getInstance());
+  const [expandedTaskId, setExpandedTaskId] = useState<string | null>(null);
+  const [subtasks, setSubtasks] = useState<Subtask[]>([]);
+  const [dependencyTaskId, setDependencyTaskId] = useState<string | null>(null);
+  const [dependencySuggestions, setDependencySuggestions] = useState<DependencySuggestion[]>([]);
+  const [searchResults, setSearchResults] = useState<TaskSearchResult[] | null>(null);
+  const [savedViews, setSavedViews] = useState<SavedView[]>([]);
+  const [viewEditor, setViewEditor] = useState<{ view: SavedView | null } | null>(null);
 
   const completedToday = tasks.filter(t => t.completed).length;
   const totalTasks = tasks.length;
@@ -161,10 +168,40 @@ export default function HomeScreen() {
     { key: 'pending', label: 'Pending', count: tasks.filter(t => !t.completed).length },
     { key: 'completed', label: 'Done', count: tasks.filter(t => t.completed).length },
     { key: 'ai-suggested', label: 'AI', count: tasks.filter(t => t.ai_suggested).length },
+    // Pinned views are tabs; an unpinned view shows while it is selected
+    ...savedViews
+      .filter(view => view.pinned || selectedFilter === `view:${view.id}`)
+      .map(view => ({ key: `view:${view.id}`, label: view.name, count: SmartFilterService.count(tasks, view), view })),
   ];
+  const selectedView = savedViews.find(view => selectedFilter === `view:${view.id}`);
+
+  // Full-text search runs against the local index; results keep their ranking
+  useEffect(() => {
+    if (!user?.id || !searchQuery.trim()) {
+      setSearchResults(null);
+      return;
+    }
+    const userId = user.id;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      DatabaseService.searchTasks(userId, { query: searchQuery, filters: {}, limit: 200 })
+        .then(results => { if (!cancelled) setSearchResults(results); })
+        .catch(err => console.error('Search failed:', err));
+    }, 150);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, tasks, user?.id]);
+
+  const searchSnippets = new Map((searchResults || []).map(result => [result.task.id, result.snippet]));
+  const tasksById = new Map(tasks.map(t => [t.id, t]));
+  const searched = searchResults
+    ? searchResults.map(result => tasksById.get(result.task.id)).filter((t): t is TaskListItem => !!t)
+    : tasks;
 
-  const filtered = tasks.filter(t => {
-    if (searchQuery && !t.title.toLowerCase().includes(searchQuery.toLowerCase())) return false;
+  const filtered = searched.filter(t => {
+    if (selectedView) return SmartFilterService.matches(t, selectedView);
     switch (selectedFilter) {
       case 'completed': return t.completed;
       case 'pending': return !t.completed;
@@ -185,26 +222,34 @@ export default function HomeScreen() {
     setShowReorderBanner(false);
   };
 
-  // Handler: Toggle focus mode
-  const handleToggleFocusMode = () => setFocusMode(f => !f);
+
+  // Tasks are read from the local database; the sync engine keeps it current
+  const loadTasks = async () => {
+    if (!user?.id) return;
+    const local = await DatabaseService.getTasks(user.id);
+    setTasks(local.map(mapTaskToUITask));
+    setSavedViews(await DatabaseService.getSavedViews(user.id));
+    DependencyService.getSuggestedDependencies(user.id, local)
+      .then(setDependencySuggestions)
+      .catch(err => console.error('Failed to infer dependencies:', err));
+  };
 
   const fetchTasks = async () => {
     if (!user?.id) return;
     setLoading(true); setError(null);
     try {
-      const supa = await SupabaseTaskService.getTasks(user.id);
-      setTasks(supa.map(mapSupabaseTaskToUITask));
-      TypedStorage.cachedTasks.set(supa);
+      await loadTasks();
+    } catch (err: any) {
+      setError(err.message);
+    } finally { setLoading(false); }
+    try {
+      await syncService.sync(user.id);
     } catch (err: any) {
       if (isAuthError(err)) {
         setError('Session expired — please signin');
         setTimeout(async () => { await signOut(); router.replace('/(auth)/sign-in'); }, 1500);
-      } else {
-        setError(err.message);
-        const cached = TypedStorage.cachedTasks.get();
-        if (cached?.length) setTasks(cached);
       }
-    } finally { setLoading(false); }
+    }
   };
 
   const toggle = async (id: string) => {
@@ -214,10 +259,16 @@ export default function HomeScreen() {
     updateTask(updated);
     setToggleLoadingId(id);
     try {
-      await SupabaseTaskService.updateTask(id, { completed: updated.completed });
-    } catch {
+      await syncService.toggleTaskCompletion(id);
+      // Completing a recurring task adds its next instance
+      if (task.recurrence && !task.completed) await loadTasks();
+    } catch (err) {
       updateTask(task);
-      setError('Update failed');
+      if (err instanceof SubtasksIncompleteError) {
+        Alert.alert('Checklist not finished', err.message);
+      } else {
+        setError('Update failed');
+      }
     } finally {
       setToggleLoadingId(null);
     }
@@ -249,7 +300,6 @@ export default function HomeScreen() {
               feedback_type: 'negative',
               reason: `reminder-${action}`,
             });
-            await ReminderFeedbackService.processReminderFeedback(task.id, user.id, 'negative');
           },
         },
         {
@@ -260,7 +310,6 @@ export default function HomeScreen() {
               feedback_type: 'positive',
               reason: `reminder-${action}`,
             });
-            await ReminderFeedbackService.processReminderFeedback(task.id, user.id, 'positive');
           },
         },
       ],
@@ -271,6 +320,7 @@ export default function HomeScreen() {
   // Handler: Mark reminder as done
   const handleMarkReminderDone = async (task: TaskListItem) => {
     await toggle(task.id);
+    await ReminderActions.recordFeedback(user.id, task.id, 'done');
     setReminderCenterVisible(false);
     promptReminderFeedback(task, 'done');
   };
@@ -284,18 +334,15 @@ export default function HomeScreen() {
         cancelButtonIndex: snoozeOptions.length,
       }, async (buttonIndex) => {
         if (buttonIndex < snoozeOptions.length) {
-          const mins = snoozeOptions[buttonIndex];
-          const newTime = new Date(Date.now() + mins * 60 * 1000).toISOString();
-          await SupabaseTaskService.updateTask(task.id, { reminder_time: newTime });
-          await scheduleAdaptiveReminder(user.id, { ...task, reminder_time: newTime });
+          await ReminderActions.snooze(user.id, task.id, snoozeOptions[buttonIndex]);
+          await loadTasks();
           setReminderCenterVisible(false);
         }
       });
     } else {
       // Android: just use 30 min for now, or implement a picker
-      const newTime = new Date(Date.now() + 30 * 60 * 1000).toISOString();
-      await SupabaseTaskService.updateTask(task.id, { reminder_time: newTime });
-      await scheduleAdaptiveReminder(user.id, { ...task, reminder_time: newTime });
+      await ReminderActions.snooze(user.id, task.id, 30);
+      await loadTasks();
       setReminderCenterVisible(false);
     }
     promptReminderFeedback(task, 'snooze');
@@ -311,8 +358,7 @@ export default function HomeScreen() {
   const onDateChange = async (event, selectedDate) => {
     if (event.type === 'set' && rescheduleTask && selectedDate) {
       const newTime = selectedDate.toISOString();
-      await SupabaseTaskService.updateTask(rescheduleTask.id, { reminder_time: newTime });
-      await scheduleAdaptiveReminder(user.id, { ...rescheduleTask, reminder_time: newTime });
+      await syncService.updateTask(rescheduleTask.id, { reminder_time: newTime });
       setShowDatePicker(false);
       setRescheduleTask(null);
       setReminderCenterVisible(false);
@@ -322,19 +368,141 @@ export default function HomeScreen() {
     }
   };
 
+  // Handler: Move a reminder to the slot the model rates higher
+  const handleUseSuggestedSlot = async (task: TaskListItem, slot: SlotChoice) => {
+    await syncService.updateTask(task.id, { reminder_time: slot.time.toISOString() });
+    await loadTasks();
+  };
+
   // Handler: Skip reminder (disable for this task)
   const handleSkipReminder = async (task: TaskListItem) => {
-    await SupabaseTaskService.updateTask(task.id, { reminder_enabled: false });
+    await ReminderActions.skip(user.id, task.id);
+    await loadTasks();
     setReminderCenterVisible(false);
     promptReminderFeedback(task, 'skip');
   };
 
+  // Opened from a reminder's Reschedule action
+  const { reschedule } = useLocalSearchParams<{ reschedule?: string }>();
+  useEffect(() => {
+    const task = reschedule ? tasks.find(t => t.id === reschedule) : undefined;
+    if (!task) return;
+    handleRescheduleReminder(task);
+    router.setParams({ reschedule: undefined });
+  }, [reschedule, tasks]);
+
   // Handler: Change task priority
+  // Handler: Skip one occurrence of a recurring task
+  const handleSkipOccurrence = async (task: TaskListItem) => {
+    try {
+      await syncService.skipOccurrence(task.id);
+      await loadTasks();
+    } catch {
+      setError('Skip failed');
+    }
+  };
+
+  // Handlers: Subtask checklist of the expanded task
+  const loadSubtasks = async (taskId: string) => {
+    setSubtasks(await DatabaseService.getSubtasks(taskId));
+  };
+
+  const handleExpandSubtasks = async (task: TaskListItem) => {
+    if (expandedTaskId === task.id) {
+      setExpandedTaskId(null);
+      return;
+    }
+    setSubtasks([]);
+    setExpandedTaskId(task.id);
+    await loadSubtasks(task.id);
+  };
+
+  // Refresh the checklist and the progress rolled up into the task list
+  const runSubtaskChange = async (taskId: string, change: () => Promise<unknown>) => {
+    try {
+      await change();
+      await loadSubtasks(taskId);
+      await loadTasks();
+    } catch {
+      setError('Checklist update failed');
+    }
+  };
+
+  const handleAddSubtask = (taskId: string, title: string) => {
+    if (!user?.id) return;
+    const userId = user.id;
+    runSubtaskChange(taskId, () => syncService.createSubtask(userId, taskId, title));
+  };
+
+  const handleMoveSubtask = (taskId: string, id: string, offset: -1 | 1) => {
+    const ids = subtasks.map(subtask => subtask.id);
+    const index = ids.indexOf(id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    runSubtaskChange(taskId, () => syncService.reorderSubtasks(taskId, ids));
+  };
+
+  // Handlers: "Blocked by" links
+  const handleToggleBlocker = async (taskId: string, blockerId: string) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task) return;
+    try {
+      const blocked_by = task.blocked_by?.includes(blockerId)
+        ? DependencyService.removeBlocker(tasks, taskId, blockerId)
+        : DependencyService.addBlocker(tasks, taskId, blockerId);
+      await syncService.updateTask(taskId, { blocked_by });
+      await loadTasks();
+    } catch (err) {
+      if (err instanceof DependencyCycleError) {
+        Alert.alert('Circular dependency', err.message);
+      } else {
+        setError('Dependency update failed');
+      }
+    }
+  };
+
+  const handleAcceptDependency = async (suggestion: DependencySuggestion) => {
+    setDependencySuggestions(current => current.filter(s => s !== suggestion));
+    await handleToggleBlocker(suggestion.taskId, suggestion.blockerId);
+  };
+
+  const handleDismissDependency = (suggestion: DependencySuggestion) => {
+    setDependencySuggestions(current => current.filter(s => s !== suggestion));
+  };
+
+  const handleSaveView = async (input: SavedViewInput) => {
+    if (!user?.id || !viewEditor) return;
+    try {
+      const existing = viewEditor.view;
+      const saved = existing
+        ? await syncService.updateSavedView(existing.id, input)
+        : await syncService.createSavedView(user.id, input);
+      setSavedViews(await DatabaseService.getSavedViews(user.id));
+      if (saved) setSelectedFilter(`view:${saved.id}`);
+      setViewEditor(null);
+    } catch (err) {
+      console.error('Failed to save view:', err);
+      setError('Could not save view');
+    }
+  };
+
+  const handleDeleteView = async (view: SavedView) => {
+    if (!user?.id) return;
+    try {
+      await syncService.deleteSavedView(view.id);
+      setSavedViews(await DatabaseService.getSavedViews(user.id));
+      if (selectedFilter === `view:${view.id}`) setSelectedFilter('all');
+      setViewEditor(null);
+    } catch (err) {
+      console.error('Failed to delete view:', err);
+      setError('Could not delete view');
+    }
+  };
+
   const handleChangePriority = async (task: TaskListItem, newPriority: 'high' | 'medium' | 'low') => {
     const updated = { ...task, priority: newPriority, priorityOverridden: true };
     updateTask(updated);
     try {
-      await SupabaseTaskService.updateTask(task.id, { priority: newPriority, priorityOverridden: true });
+      await syncService.updateTask(task.id, { priority: newPriority });
     } catch {
       updateTask(task); // revert
       setError('Priority update failed');
@@ -345,6 +513,27 @@ export default function HomeScreen() {
   const upcomingReminders = tasks.filter(t => t.reminder_enabled && t.reminder_time && !t.completed)
     .sort((a, b) => new Date(a.reminder_time).getTime() - new Date(b.reminder_time).getTime());
 
+  // Completion odds for each upcoming reminder, and a better slot when there is one
+  useEffect(() => {
+    if (!reminderCenterVisible || !user) return;
+    let cancelled = false;
+    (async () => {
+      const model = await reminderEngine.getModel(user.id);
+      const now = new Date();
+      const odds: typeof reminderOdds = {};
+      for (const task of upcomingReminders) {
+        const current = model.predict(slotOf(new Date(task.reminder_time!), task));
+        const { from, until } = reminderWindow(task, now);
+        const best = model.bestSlot(task, from, until);
+        odds[task.id] = { ...current, better: best && best.probability - current.probability >= 0.1 ? best : null };
+      }
+      if (!cancelled) setReminderOdds(odds);
+    })().catch(error => console.error('Failed to predict reminder effectiveness:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [reminderCenterVisible, tasks]);
+
   useEffect(() => {
     fetchTasks();
     const chan = supabase
@@ -360,106 +549,6 @@ export default function HomeScreen() {
     }, [user?.id])
   );
 
-  useEffect(() => {
-    if (!user?.id) return;
-    
-    // Initialize device management
-    deviceService.initialize();
-    
-    // On startup/reconnect, recover any partial syncs
-    TypedStorage.offlineQueue.recoverPartialSync();
-    
-    const proc = async () => {
-      // Check if sync should be optimized based on device conditions
-      if (deviceService.shouldOptimizeSync()) {
-        console.log('Device-aware sync optimization enabled');
-        return; // Skip sync if conditions are not optimal
-      }
-      
-      let queue = await TypedStorage.offlineQueue.get();
-      while (queue.length > 0) {
-        // Get optimized batch size based on device conditions
-        const syncSettings = deviceService.getSyncSettings();
-        const batchSize = deviceService.shouldOptimizeSync() ? 2 : 5; // Smaller batches when optimizing
-        
-        // Batch items, prioritize by priority field
-        const batch = queue
-          .filter(q => q.status === 'pending')
-          .sort((a, b) => (b.priority || 0) - (a.priority || 0))
-          .slice(0, batchSize);
-          
-        if (batch.length === 0) break;
-        
-        for (const item of batch) {
-          try {
-            // Check for device conflicts before syncing
-            if (item.action === 'update') {
-              const existingTask = await SupabaseTaskService.getTask(item.data.id);
-              if (existingTask) {
-                const conflict = await deviceService.detectDeviceConflicts(
-                  'task',
-                  item.data.id,
-                  item.data,
-                  existingTask
-                );
-                
-                if (conflict) {
-                  await TypedStorage.offlineQueue.updateStatus(item.id, 'conflict');
-                  continue;
-                }
-              }
-            }
-            
-            if (item.action === 'create') {
-              await SupabaseTaskService.createTask(item.data.userId, item.data);
-            } else if (item.action === 'update') {
-              // Only send changed fields for updates
-              const { id, ...updates } = item.data;
-              await SupabaseTaskService.updateTask(id, updates);
-            } else if (item.action === 'delete') {
-              await SupabaseTaskService.deleteTask(item.data.id);
-            }
-            
-            // Integrity verification: check if item exists/updated on server
-            const verified = await TypedStorage.offlineQueue.verifySyncIntegrity(item, async (qItem) => {
-              if (qItem.action === 'create' || qItem.action === 'update') {
-                const tasks = await SupabaseTaskService.getTasks(qItem.data.userId);
-                return tasks.some(t => t.id === qItem.data.id);
-              } else if (qItem.action === 'delete') {
-                const tasks = await SupabaseTaskService.getTasks(qItem.data.userId);
-                return !tasks.some(t => t.id === qItem.data.id);
-              }
-              return true;
-            });
-            
-            if (!verified) {
-              await TypedStorage.offlineQueue.updateStatus(item.id, 'failed', 'Integrity check failed after sync');
-              continue;
-            }
-            
-            await TypedStorage.offlineQueue.remove(item.id);
-          } catch (err) {
-            // Mark as failed for retry
-            await TypedStorage.offlineQueue.updateStatus(item.id, 'failed', err?.message || 'Sync error');
-            break;
-          }
-        }
-        
-        // Refresh queue for next batch
-        queue = await TypedStorage.offlineQueue.get();
-        
-        // Add delay between batches if optimizing
-        if (deviceService.shouldOptimizeSync()) {
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        }
-      }
-    };
-    
-    const sub = NetInfo.addEventListener(s => s.isConnected && proc());
-    proc();
-    return () => sub();
-  }, [user?.id]);
-
   // Animate modal open/close
   useEffect(() => {
     if (galleryVisible) {
@@ -469,67 +558,24 @@ export default function HomeScreen() {
     }
   }, [galleryVisible]);
 
-  // Monitor offline queue status
+  // Follow the sync engine's queue status and conflicts
   useEffect(() => {
-    const checkQueue = async () => {
-      const queue = await TypedStorage.offlineQueue.get();
-      setSyncStatus({
-        pending: queue.filter(q => q.status === 'pending').length,
-        failed: queue.filter(q => q.status === 'failed').length,
-        syncing: queue.filter(q => q.status === 'syncing').length,
-        lastError: queue.find(q => q.status === 'failed')?.last_error || '',
-      });
-    };
-    checkQueue();
-    const interval = setInterval(checkQueue, 3000);
-    return () => clearInterval(interval);
+    return syncService.subscribe(({ conflicts, ...status }) => {
+      setSyncStatus(status);
+      setConflicts(conflicts);
+    });
   }, []);
 
-  // Monitor conflicts in offline queue
+  // Reload from the local database after each completed sync
   useEffect(() => {
-    const checkConflicts = async () => {
-      const queue = await TypedStorage.offlineQueue.get();
-      setConflicts(queue.filter(q => q.status === 'conflict'));
-    };
-    checkConflicts();
-    const interval = setInterval(checkConflicts, 3000);
-    return () => clearInterval(interval);
-  }, []);
+    if (syncStatus.lastSyncedAt) loadTasks();
+  }, [syncStatus.lastSyncedAt]);
 
   // Retry failed syncs
   const handleRetryFailed = async () => {
-    const queue = await TypedStorage.offlineQueue.get();
-    for (const item of queue.filter(q => q.status === 'failed')) {
-      await TypedStorage.offlineQueue.updateStatus(item.id, 'pending');
-    }
-    setSyncStatus(s => ({ ...s, failed: 0, lastError: '' }));
-  };
-
-  // Enhanced conflict resolution handler
-  const handleResolveConflict = async (item: OfflineQueueItem, keep: 'local' | 'remote' | 'merge') => {
-    let resolved;
-    if (keep === 'merge' && item.conflict) {
-      // Per-field merge
-      resolved = { ...item.conflict.remote };
-      for (const key of Object.keys(fieldSelections)) {
-        if (fieldSelections[key] === 'local') {
-          resolved[key] = item.conflict.local[key];
-        }
-      }
-    } else {
-      resolved = keep === 'local' ? item.conflict?.local : item.conflict?.remote;
-    }
-    // Remove conflict and set to pending for retry
-    await TypedStorage.offlineQueue.updateStatus(item.id, 'pending');
-    const queue = await TypedStorage.offlineQueue.get();
-    const idx = queue.findIndex(q => q.id === item.id);
-    if (idx !== -1) {
-      queue[idx].data = resolved;
-      queue[idx].conflict = undefined;
-      await TypedStorage.offlineQueue.set(queue);
-    }
-    setConflictModal({ item: null, visible: false });
-    setFieldSelections({});
+    if (!user?.id) return;
+    await syncService.retryFailed();
+    syncService.sync(user.id).catch(err => console.error('Retry sync failed:', err));
   };
 
   return (
@@ -562,11 +608,9 @@ export default function HomeScreen() {
       {conflicts.length > 0 && (
         <View style={{ backgroundColor: theme.colors.error, padding: 10, alignItems: 'center' }}>
           <Text style={{ color: 'white', fontWeight: 'bold' }}>Sync conflict for {conflicts.length} item(s).</Text>
-          {conflicts.map(item => (
-            <TouchableOpacity key={item.id} onPress={() => setConflictModal({ item, visible: true })} style={{ marginTop: 6, padding: 6, backgroundColor: theme.colors.surface, borderRadius: 8 }}>
-              <Text style={{ color: theme.colors.error, fontWeight: 'bold' }}>Resolve Conflict</Text>
-            </TouchableOpacity>
-          ))}
+          <TouchableOpacity onPress={() => router.push('/conflicts')} style={{ marginTop: 6, padding: 6, backgroundColor: theme.colors.surface, borderRadius: 8 }}>
+            <Text style={{ color: theme.colors.error, fontWeight: 'bold' }}>Resolve Conflicts</Text>
+          </TouchableOpacity>
         </View>
       )}
       {/* Automated Reorder Banner */}
@@ -583,60 +627,14 @@ export default function HomeScreen() {
           </TouchableOpacity>
         </View>
       )}
-      {/* Focus Mode Banner */}
-      <View style={{ backgroundColor: focusMode ? theme.colors.success : theme.colors.surface, padding: 10, alignItems: 'center', flexDirection: 'row', justifyContent: 'center' }}>
-        <TouchableOpacity onPress={handleToggleFocusMode} style={{ flexDirection: 'row', alignItems: 'center' }}>
-          <Star size={18} color={focusMode ? 'white' : theme.colors.primary} style={{ marginRight: 6 }} />
-          <Text style={{ color: focusMode ? 'white' : theme.colors.primary, fontWeight: 'bold' }}>
-            {focusMode ? 'Focus Mode: Showing Top Tasks' : 'Enable Focus Mode'}
-          </Text>
-        </TouchableOpacity>
-      </View>
-      {/* Conflict Resolution Modal */}
-      <RNModal visible={conflictModal.visible} transparent animationType="slide" onRequestClose={() => setConflictModal({ item: null, visible: false })}>
-        <View style={{ flex: 1, backgroundColor: 'rgba(0,0,0,0.85)', justifyContent: 'center', alignItems: 'center', padding: 24 }}>
-          <View style={{ backgroundColor: theme.colors.surface, borderRadius: 16, padding: 24, width: '100%', maxWidth: 400 }}>
-            <Text style={{ fontWeight: 'bold', fontSize: 18, color: theme.colors.error, marginBottom: 12 }}>Resolve Conflict</Text>
-            {conflictModal.item && conflictModal.item.conflict && (
-              <>
-                <Text style={{ color: theme.colors.text, marginBottom: 8 }}>Choose which version to keep for each field:</Text>
-                <ScrollView style={{ maxHeight: 220 }}>
-                  {TypedStorage.offlineQueue.diffFields(conflictModal.item.conflict.local, conflictModal.item.conflict.remote).map(field => (
-                    <View key={field} style={{ marginBottom: 10 }}>
-                      <Text style={{ color: theme.colors.textSecondary, fontWeight: 'bold' }}>{field}</Text>
-                      <View style={{ flexDirection: 'row', gap: 8, marginTop: 4 }}>
-                        <TouchableOpacity
-                          onPress={() => setFieldSelections(s => ({ ...s, [field]: 'local' }))}
-                          style={{ flex: 1, backgroundColor: fieldSelections[field] === 'local' ? theme.colors.primary : theme.colors.surfaceVariant, borderRadius: 6, padding: 6 }}
-                        >
-                          <Text style={{ color: fieldSelections[field] === 'local' ? 'white' : theme.colors.text }}>{JSON.stringify(conflictModal.item.conflict.local[field])}</Text>
-                        </TouchableOpacity>
-                        <TouchableOpacity
-                          onPress={() => setFieldSelections(s => ({ ...s, [field]: 'remote' }))}
-                          style={{ flex: 1, backgroundColor: fieldSelections[field] === 'remote' ? theme.colors.warning : theme.colors.surfaceVariant, borderRadius: 6, padding: 6 }}
-                        >
-                          <Text style={{ color: fieldSelections[field] === 'remote' ? 'white' : theme.colors.text }}>{JSON.stringify(conflictModal.item.conflict.remote[field])}</Text>
-                        </TouchableOpacity>
-                      </View>
-                    </View>
-                  ))}
-                </ScrollView>
-                <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginTop: 16 }}>
-                  <TouchableOpacity onPress={() => handleResolveConflict(conflictModal.item!, 'local')} style={{ backgroundColor: theme.colors.primary, padding: 10, borderRadius: 8, flex: 1, marginRight: 8 }}>
-                    <Text style={{ color: 'white', textAlign: 'center' }}>Keep All Local</Text>
-                  </TouchableOpacity>
-                  <TouchableOpacity onPress={() => handleResolveConflict(conflictModal.item!, 'remote')} style={{ backgroundColor: theme.colors.warning, padding: 10, borderRadius: 8, flex: 1, marginRight: 8 }}>
-                    <Text style={{ color: 'white', textAlign: 'center' }}>Keep All Remote</Text>
-                  </TouchableOpacity>
-                  <TouchableOpacity onPress={() => handleResolveConflict(conflictModal.item!, 'merge')} style={{ backgroundColor: theme.colors.success, padding: 10, borderRadius: 8, flex: 1 }}>
-                    <Text style={{ color: 'white', textAlign: 'center' }}>Merge Selection</Text>
-                  </TouchableOpacity>
-                </View>
-              </>
-            )}
-          </View>
-        </View>
-      </RNModal>
+      {/* Focus session: pomodoro cycles on one task, showing only the top tasks meanwhile */}
+      {user && (
+        <FocusSessionBar
+          userId={user.id}
+          tasks={rankedTasks.filter(t => !t.completed)}
+          onChange={session => setFocusMode(!!session)}
+        />
+      )}
       {/* Reminder Center Modal */}
       <RNModal visible={reminderCenterVisible} animationType="slide" onRequestClose={() => setReminderCenterVisible(false)}>
         <View style={{ flex: 1, backgroundColor: theme.colors.background }}>
@@ -652,6 +650,20 @@ export default function HomeScreen() {
               <View key={task.id} style={{ margin: 12, padding: 16, backgroundColor: theme.colors.surface, borderRadius: 12 }}>
                 <Text style={{ fontWeight: 'bold', fontSize: 16 }}>{task.title}</Text>
                 <Text style={{ color: theme.colors.textSecondary, marginBottom: 8 }}>{new Date(task.reminder_time).toLocaleString()}</Text>
+                {reminderOdds[task.id] && (
+                  <View style={{ marginBottom: 8 }}>
+                    <Text style={{ color: theme.colors.text }}>
+                      {Math.round(reminderOdds[task.id].probability * 100)}% likely to get done · {reminderOdds[task.id].reason}
+                    </Text>
+                    {reminderOdds[task.id].better && (
+                      <TouchableOpacity onPress={() => handleUseSuggestedSlot(task, reminderOdds[task.id].better!)}>
+                        <Text style={{ color: theme.colors.primary, marginTop: 4 }}>
+                          Move to {reminderOdds[task.id].better!.time.toLocaleString([], { weekday: 'short', hour: 'numeric', minute: '2-digit' })} ({Math.round(reminderOdds[task.id].better!.probability * 100)}%)
+                        </Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                )}
                 <View style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
                   <TouchableOpacity onPress={() => handleMarkReminderDone(task)} style={{ flex: 1, marginRight: 8 }}>
                     <CheckCircle size={20} color={theme.colors.success} />
@@ -800,67 +812,201 @@ export default function HomeScreen() {
                       borderColor: theme.colors.border,
                     }]}
                     onPress={() => setSelectedFilter(f.key)}
+                    onLongPress={'view' in f ? () => setViewEditor({ view: f.view }) : undefined}
                   >
-                    <Text style={[styles.filterText, { color: selectedFilter === f.key ? 'white' : theme.colors.text }]}>{f.label}</Text>
+                    <Text style={[styles.filterText, { color: selectedFilter === f.key ? 'white' : theme.colors.text }]}>
+                      {f.label} <Text style={styles.filterCount}>{f.count}</Text>
+                    </Text>
                   </TouchableOpacity>
                 ))}
+                <Menu>
+                  <MenuTrigger>
+                    <View style={[styles.filterBtn, { backgroundColor: theme.colors.surface, borderColor: theme.colors.border }]}>
+                      <ListFilter size={16} color={theme.colors.text} />
+                    </View>
+                  </MenuTrigger>
+                  <MenuOptions>
+                    {savedViews.filter(view => !view.pinned).map(view => (
+                      <MenuOption key={view.id} onSelect={() => setSelectedFilter(`view:${view.id}`)} text={view.name} />
+                    ))}
+                    {selectedView && (
+                      <MenuOption onSelect={() => setViewEditor({ view: selectedView })} text={`Edit "${selectedView.name}"`} />
+                    )}
+                    <MenuOption onSelect={() => setViewEditor({ view: null })} text="New view..." />
+                  </MenuOptions>
+                </Menu>
               </ScrollView>
             </View>
 
+            {/* Inferred Dependencies */}
+            {dependencySuggestions.length > 0 && (
+              <View style={styles.section}>
+                <View style={styles.sectionHeader}>
+                  <Link2 size={20} color={theme.colors.primary} />
+                  <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Usually Done First</Text>
+                </View>
+                {dependencySuggestions.slice(0, 3).map(suggestion => (
+                  <View
+                    key={`${suggestion.taskId}-${suggestion.blockerId}`}
+                    style={[styles.dependencyCard, { backgroundColor: theme.colors.surface }]}
+                  >
+                    <Text style={[styles.dependencyText, { color: theme.colors.text }]} numberOfLines={2}>
+                      {suggestion.blockerTitle} before {suggestion.taskTitle}
+                    </Text>
+                    <TouchableOpacity
+                      onPress={() => handleAcceptDependency(suggestion)}
+                      style={[styles.dependencyLink, { backgroundColor: theme.colors.primary }]}
+                    >
+                      <Text style={styles.dependencyLinkText}>Link</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => handleDismissDependency(suggestion)} style={{ marginLeft: 8 }}>
+                      <XCircle size={20} color={theme.colors.textTertiary} />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </View>
+            )}
+
             {/* Task List */}
             <View style={styles.section}>
               <View style={styles.sectionHeader}>
                 <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Recent</Text>
                 <Text style={[styles.cta, { color: theme.colors.textSecondary }]}>{filtered.length} items</Text>
               </View>
-              {(focusMode ? topTasks : filtered).map(task => (
-                <View key={task.id} style={[styles.taskCard, { backgroundColor: theme.colors.surface }]}>
-                  <TouchableOpacity onPress={() => handleOpenGallery(task)} style={styles.taskRow}>
-                    <View style={styles.taskLeft}>
-                      {toggleLoadingId === task.id ? (
-                        <ActivityIndicator size="small" color={theme.colors.primary} />
-                      ) : (
-                        <TouchableOpacity onPress={() => toggle(task.id)} style={styles.checkbox}>
-                          {task.completed ? (
-                            <CheckCircle2 size={24} color={theme.colors.success} />
-                          ) : (
-                            <Circle size={24} color={theme.colors.textTertiary} />
+              {(focusMode ? topTasks : filtered).map(task => {
+                const blockers = task.completed ? [] : DependencyService.getBlockers(task, tasks);
+                return (
+                  <View
+                    key={task.id}
+                    style={[styles.taskCard, { backgroundColor: theme.colors.surface }, blockers.length > 0 && styles.taskBlocked]}
+                  >
+                    <TouchableOpacity onPress={() => handleOpenGallery(task)} style={styles.taskRow}>
+                      <View style={styles.taskLeft}>
+                        {toggleLoadingId === task.id ? (
+                          <ActivityIndicator size="small" color={theme.colors.primary} />
+                        ) : (
+                          <TouchableOpacity onPress={() => toggle(task.id)} style={styles.checkbox}>
+                            {task.completed ? (
+                              <CheckCircle2 size={24} color={theme.colors.success} />
+                            ) : (
+                              <Circle size={24} color={theme.colors.textTertiary} />
+                            )}
+                          </TouchableOpacity>
+                        )}
+                        <View style={styles.taskInfo}>
+                          <Text style={[styles.taskTitle, {
+                            color: task.completed ? theme.colors.textTertiary : theme.colors.text,
+                            textDecorationLine: task.completed ? 'line-through' : 'none',
+                          }]}>
+                            {task.title}
+                          </Text>
+                          {searchSnippets.get(task.id) && (
+                            <Text style={[styles.searchSnippet, { color: theme.colors.textSecondary }]} numberOfLines={2}>
+                              {SearchService.splitHighlights(searchSnippets.get(task.id)!).map((segment, index) => (
+                                <Text
+                                  key={index}
+                                  style={segment.highlighted ? { color: theme.colors.text, fontFamily: 'Inter-SemiBold' } : undefined}
+                                >
+                                  {segment.text}
+                                </Text>
+                              ))}
+                            </Text>
+                          )}
+                          <Text style={[styles.taskMeta, { color: theme.colors.textSecondary }]}>
+                            {task.category} • {task.timeAgo}
+                          </Text>
+                          {blockers.length > 0 && (
+                            <View style={styles.blockedRow}>
+                              <Lock size={12} color={theme.colors.textSecondary} />
+                              <Text style={[styles.blockedText, { color: theme.colors.textSecondary }]} numberOfLines={1}>
+                                Blocked by {blockers.map(blocker => blocker.title).join(', ')}
+                              </Text>
+                            </View>
                           )}
+                          {task.recurrence && (
+                            <View style={styles.seriesRow}>
+                              <View style={[styles.seriesBadge, { backgroundColor: theme.colors.primary + '15' }]}>
+                                <Repeat size={12} color={theme.colors.primary} />
+                                <Text style={[styles.seriesBadgeText, { color: theme.colors.primary }]}>
+                                  {RecurrenceService.describe(task.recurrence)}
+                                  {task.recurrence.count ? ` • ${task.series_index || 1}/${task.recurrence.count}` : ''}
+                                </Text>
+                              </View>
+                              {!task.completed && (
+                                <TouchableOpacity onPress={() => handleSkipOccurrence(task)}>
+                                  <Text style={[styles.seriesSkip, { color: theme.colors.textSecondary }]}>Skip</Text>
+                                </TouchableOpacity>
+                              )}
+                            </View>
+                          )}
+                          <TouchableOpacity onPress={() => handleExpandSubtasks(task)} style={styles.subtaskRow}>
+                            <ListChecks size={14} color={theme.colors.textSecondary} />
+                            {task.subtask_count ? (
+                              <>
+                                <View style={[styles.subtaskTrack, { backgroundColor: theme.colors.surfaceVariant }]}>
+                                  <View
+                                    style={[
+                                      styles.subtaskFill,
+                                      {
+                                        backgroundColor: theme.colors.success,
+                                        width: `${((task.subtask_completed_count || 0) / task.subtask_count) * 100}%`,
+                                      },
+                                    ]}
+                                  />
+                                </View>
+                                <Text style={[styles.subtaskCount, { color: theme.colors.textSecondary }]}>
+                                  {task.subtask_completed_count || 0}/{task.subtask_count}
+                                </Text>
+                              </>
+                            ) : (
+                              <Text style={[styles.subtaskCount, { color: theme.colors.textSecondary }]}>Add steps</Text>
+                            )}
+                          </TouchableOpacity>
+                        </View>
+                      </View>
+                      <View style={{ flexDirection: 'row', alignItems: 'center', marginTop: 8 }}>
+                        <Text style={{ color: theme.colors.textSecondary, marginRight: 8 }}>Priority:</Text>
+                        <Menu>
+                          <MenuTrigger>
+                            <Text style={{ color: task.priority === 'high' ? theme.colors.error : task.priority === 'medium' ? theme.colors.warning : theme.colors.success, fontWeight: 'bold' }}>
+                              {task.priority.toUpperCase()}
+                            </Text>
+                          </MenuTrigger>
+                          <MenuOptions>
+                            <MenuOption onSelect={() => handleChangePriority(task, 'high')} text="High" />
+                            <MenuOption onSelect={() => handleChangePriority(task, 'medium')} text="Medium" />
+                            <MenuOption onSelect={() => handleChangePriority(task, 'low')} text="Low" />
+                          </MenuOptions>
+                        </Menu>
+                        {task.priorityOverridden && (
+                          <Text style={{ color: theme.colors.info, marginLeft: 8, fontSize: 12 }}>(Overridden)</Text>
+                        )}
+                        <TouchableOpacity onPress={() => setDependencyTaskId(task.id)} style={{ marginLeft: 12 }}>
+                          <Link2 size={16} color={task.blocked_by?.length ? theme.colors.primary : theme.colors.textTertiary} />
                         </TouchableOpacity>
-                      )}
-                      <View style={styles.taskInfo}>
-                        <Text style={[styles.taskTitle, {
-                          color: task.completed ? theme.colors.textTertiary : theme.colors.text,
-                          textDecorationLine: task.completed ? 'line-through' : 'none',
-                        }]}>
-                          {task.title}
-                        </Text>
-                        <Text style={[styles.taskMeta, { color: theme.colors.textSecondary }]}>
-                          {task.category} • {task.timeAgo}
-                        </Text>
                       </View>
-                    </View>
-                    <View style={{ flexDirection: 'row', alignItems: 'center', marginTop: 8 }}>
-                      <Text style={{ color: theme.colors.textSecondary, marginRight: 8 }}>Priority:</Text>
-                      <Menu>
-                        <MenuTrigger>
-                          <Text style={{ color: task.priority === 'high' ? theme.colors.error : task.priority === 'medium' ? theme.colors.warning : theme.colors.success, fontWeight: 'bold' }}>
-                            {task.priority.toUpperCase()}
-                          </Text>
-                        </MenuTrigger>
-                        <MenuOptions>
-                          <MenuOption onSelect={() => handleChangePriority(task, 'high')} text="High" />
-                          <MenuOption onSelect={() => handleChangePriority(task, 'medium')} text="Medium" />
-                          <MenuOption onSelect={() => handleChangePriority(task, 'low')} text="Low" />
-                        </MenuOptions>
-                      </Menu>
-                      {task.priorityOverridden && (
-                        <Text style={{ color: theme.colors.info, marginLeft: 8, fontSize: 12 }}>(Overridden)</Text>
-                      )}
-                    </View>
-                  </TouchableOpacity>
-                </View>
-              ))}
+                    </TouchableOpacity>
+                    {expandedTaskId === task.id && (
+                      <View style={styles.subtaskPanel}>
+                        {!task.completed && user?.id && (
+                          <TaskTimer userId={user.id} taskId={task.id} onChange={() => loadTasks()} />
+                        )}
+                        <SubtaskChecklist
+                          items={subtasks}
+                          requireAll={!!task.require_subtasks}
+                          onAdd={title => handleAddSubtask(task.id, title)}
+                          onToggle={id => runSubtaskChange(task.id, () => syncService.toggleSubtaskCompletion(id))}
+                          onDelete={id => runSubtaskChange(task.id, () => syncService.deleteSubtask(id))}
+                          onMove={(id, offset) => handleMoveSubtask(task.id, id, offset)}
+                          onRequireAllChange={requireAll =>
+                            runSubtaskChange(task.id, () => syncService.updateTask(task.id, { require_subtasks: requireAll }))
+                          }
+                        />
+                      </View>
+                    )}
+                  </View>
+                );
+              })}
             </View>
           </>
         )}
@@ -930,6 +1076,20 @@ export default function HomeScreen() {
           )}
         </Animated.View>
       </Modal>
+      <DependencyPicker
+        task={tasks.find(t => t.id === dependencyTaskId) || null}
+        tasks={tasks}
+        onToggle={blockerId => dependencyTaskId && handleToggleBlocker(dependencyTaskId, blockerId)}
+        onClose={() => setDependencyTaskId(null)}
+      />
+      <SavedViewEditor
+        visible={!!viewEditor}
+        view={viewEditor?.view || null}
+        tasks={tasks}
+        onSave={handleSaveView}
+        onDelete={handleDeleteView}
+        onClose={() => setViewEditor(null)}
+      />
       {/* FAB */}
       <TouchableOpacity
         style={[styles.fab, { backgroundColor: theme.colors.primary }]}
@@ -1021,6 +1181,7 @@ const styles = StyleSheet.create({
     borderRadius: 20, marginRight: 8, borderWidth: 1,
   },
   filterText: { fontSize: 14, fontFamily: 'Inter-Medium' },
+  filterCount: { opacity: 0.7 },
 
   taskCard: {
     marginHorizontal: 20,
@@ -1038,6 +1199,30 @@ const styles = StyleSheet.create({
   taskInfo: { flex: 1 },
   taskTitle: { fontSize: 16, fontFamily: 'Inter-Medium' },
   taskMeta: { fontSize: 12, fontFamily: 'Inter-Regular', marginTop: 4 },
+  seriesRow: { flexDirection: 'row', alignItems: 'center', marginTop: 6, gap: 10 },
+  seriesBadge: { flexDirection: 'row', alignItems: 'center', gap: 4, paddingHorizontal: 8, paddingVertical: 2, borderRadius: 10 },
+  seriesBadgeText: { fontSize: 11, fontFamily: 'Inter-Medium' },
+  seriesSkip: { fontSize: 12, fontFamily: 'Inter-Medium' },
+  searchSnippet: { fontSize: 12, fontFamily: 'Inter-Regular', marginTop: 4 },
+  taskBlocked: { opacity: 0.55 },
+  blockedRow: { flexDirection: 'row', alignItems: 'center', marginTop: 4, gap: 4 },
+  blockedText: { flex: 1, fontSize: 12, fontFamily: 'Inter-Regular' },
+  dependencyCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 20,
+    marginBottom: 8,
+    padding: 12,
+    borderRadius: 12,
+  },
+  dependencyText: { flex: 1, fontSize: 14, fontFamily: 'Inter-Medium' },
+  dependencyLink: { marginLeft: 12, borderRadius: 8, paddingHorizontal: 12, paddingVertical: 6 },
+  dependencyLinkText: { color: 'white', fontSize: 13, fontFamily: 'Inter-SemiBold' },
+  subtaskRow: { flexDirection: 'row', alignItems: 'center', marginTop: 6, gap: 6 },
+  subtaskTrack: { flex: 1, maxWidth: 120, height: 4, borderRadius: 2, overflow: 'hidden' },
+  subtaskFill: { height: 4, borderRadius: 2 },
+  subtaskCount: { fontSize: 11, fontFamily: 'Inter-Medium' },
+  subtaskPanel: { paddingHorizontal: 16, paddingBottom: 12 },
   priorityLine: { width: 4, height: 32, borderRadius: 2, marginLeft: 12 },
 
   fab: {
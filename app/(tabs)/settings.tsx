@@ -28,7 +28,8 @@ import {
   Trash2,
   Shield,
   HelpCircle,
-  Smartphone
+  Smartphone,
+  CalendarDays
 } from 'lucide-react-native';
 import { useTheme } from '../../context/ThemeContext';
 import { useAuth } from '../../context/AuthContext';
@@ -40,12 +41,21 @@ import DeviceSettingsModal from '../../components/DeviceSettingsModal';
 import { router } from 'expo-router';
 import Card from '@/components/ui/Card'; // <-- Import new Card component
 import { useOfflineAI } from '@/context/ThemeContext';
-import { DatabaseService } from '@/lib/services/databaseService';
+import { DatabaseService, TRASH_RETENTION_DAYS } from '@/lib/services/databaseService';
+import { syncService } from '@/lib/services/syncService';
 import * as FileSystem from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
+import * as DocumentPicker from 'expo-document-picker';
+import { DataTransferService, ExportPayload, ImportMode } from '@/lib/services/dataTransferService';
 import { usePermissionsStore, AppPermission, PermissionStatus } from '@/lib/permissionsStore';
 import PermissionPrompt from '@/components/PermissionPrompt';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { digestScheduler, DIGEST_DEFAULT_TIME, DIGEST_DEFAULT_WEEKDAY } from '@/lib/services/digestService';
+import { calendarService } from '@/lib/services/calendarService';
+import { UserPreferences } from '@/lib/types';
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 
 export default function SettingsScreen() {
   const { theme, toggleTheme } = useTheme();
@@ -73,7 +83,10 @@ export default function SettingsScreen() {
     anonymize: false,
   });
   const [exporting, setExporting] = useState(false);
+  const [importing, setImporting] = useState(false);
   const [showExportPermissionPrompt, setShowExportPermissionPrompt] = useState(false);
+  const [showDigestModal, setShowDigestModal] = useState(false);
+  const [showDigestTimePicker, setShowDigestTimePicker] = useState(false);
 
   // Load preferences on mount
   useEffect(() => {
@@ -135,6 +148,12 @@ export default function SettingsScreen() {
     }
   };
 
+  // Scheduled digests follow the frequency, time and notification settings
+  const refreshDigests = () => {
+    if (!user?.id) return;
+    digestScheduler.refresh(user.id).catch(error => console.error('Error scheduling digests:', error));
+  };
+
   const handlePreferenceChange = async (key: string, value: boolean) => {
     try {
       setSaving(true);
@@ -145,6 +164,7 @@ export default function SettingsScreen() {
       // Save to database
       if (user?.id) {
         await updateUserPreferences({ [key]: value });
+        if (key === 'notifications_enabled') refreshDigests();
       }
     } catch (error) {
       console.error('Error updating preference:', error);
@@ -165,6 +185,7 @@ export default function SettingsScreen() {
       // Save to database
       if (user?.id) {
         await updateUserPreferences({ reminder_frequency: frequency });
+        refreshDigests();
       }
     } catch (error) {
       console.error('Error updating reminder frequency:', error);
@@ -174,6 +195,71 @@ export default function SettingsScreen() {
     }
   };
 
+  const handleDigestScheduleChange = async (updates: Pick<Partial<UserPreferences>, 'digest_time' | 'digest_weekday'>) => {
+    try {
+      setSaving(true);
+      updatePreferences(updates);
+      if (user?.id) {
+        await updateUserPreferences(updates);
+        refreshDigests();
+      }
+    } catch (error) {
+      console.error('Error updating digest schedule:', error);
+      Alert.alert('Error', 'Failed to update digest schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const digestTime = preferences?.digest_time || DIGEST_DEFAULT_TIME;
+  const digestWeekday = preferences?.digest_weekday ?? DIGEST_DEFAULT_WEEKDAY;
+  const digestTimeAsDate = () => {
+    const [hours, minutes] = digestTime.split(':').map(Number);
+    const date = new Date();
+    date.setHours(hours, minutes, 0, 0);
+    return date;
+  };
+
+  const handleConnectCalendar = async () => {
+    if (!user?.id) return;
+    try {
+      setSaving(true);
+      const connected = await calendarService.connect(user.id);
+      Alert.alert(
+        connected ? 'Calendar Connected' : 'Calendar Access Denied',
+        connected
+          ? 'Reminders and suggestions will now steer clear of your meetings.'
+          : 'Allow calendar access in your device settings to avoid scheduling over meetings.'
+      );
+    } catch (error) {
+      console.error('Error connecting calendar:', error);
+      Alert.alert('Error', 'Failed to read your calendar');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleImportCalendar = async () => {
+    if (!user?.id) return;
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['text/calendar', 'application/ics', '*/*'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets?.length) return;
+
+      const text = await FileSystem.readAsStringAsync(result.assets[0].uri, { encoding: FileSystem.EncodingType.UTF8 });
+      const count = await calendarService.importIcs(user.id, text);
+      Alert.alert(
+        count > 0 ? 'Calendar Imported' : 'No Events Found',
+        count > 0 ? `${count} busy ${count === 1 ? 'block was' : 'blocks were'} added.` : 'The file has no busy events to import.'
+      );
+    } catch (error) {
+      console.error('Error importing calendar:', error);
+      Alert.alert('Import Failed', 'Could not read that calendar file.');
+    }
+  };
+
   const handleSignOut = () => {
     Alert.alert(
       'Sign Out',
@@ -211,46 +297,7 @@ export default function SettingsScreen() {
     if (!allowed) return;
     setExporting(true);
     try {
-      const data: any = {};
-      if (exportOptions.tasks) {
-        data.tasks = await DatabaseService.getTasks(user.id);
-      }
-      if (exportOptions.preferences) {
-        data.preferences = await DatabaseService.getUserPreferences(user.id);
-      }
-      if (exportOptions.suggestions) {
-        data.suggestions = await DatabaseService.getSuggestions(user.id);
-      }
-      if (exportOptions.feedback) {
-        // Gather all feedback for user's suggestions
-        const suggestions = data.suggestions || await DatabaseService.getSuggestions(user.id);
-        data.feedback = [];
-        for (const s of suggestions) {
-          const fb = await DatabaseService.getFeedbackForSuggestion(s.id);
-          data.feedback.push(...fb);
-        }
-      }
-      if (exportOptions.analytics) {
-        data.analytics = await DatabaseService.getTaskAnalytics(user.id);
-      }
-      // Anonymize if needed
-      if (exportOptions.anonymize) {
-        if (data.preferences) {
-          data.preferences.user_id = 'ANONYMIZED';
-        }
-        if (data.tasks) {
-          data.tasks = data.tasks.map((t: any) => ({ ...t, user_id: 'ANONYMIZED' }));
-        }
-        if (data.suggestions) {
-          data.suggestions = data.suggestions.map((s: any) => ({ ...s, user_id: 'ANONYMIZED' }));
-        }
-        if (data.feedback) {
-          data.feedback = data.feedback.map((f: any) => ({ ...f, user_id: 'ANONYMIZED' }));
-        }
-        // Remove any emails/usernames if present
-        if (data.preferences && data.preferences.email) data.preferences.email = undefined;
-        if (data.preferences && data.preferences.username) data.preferences.username = undefined;
-      }
+      const data = await DataTransferService.buildExport(user.id, exportOptions);
       // Save to file and share
       const json = JSON.stringify(data, null, 2);
       const fileUri = FileSystem.cacheDirectory + `juey-export-${Date.now()}.json`;
@@ -265,12 +312,60 @@ export default function SettingsScreen() {
     }
   };
 
-  const handleImportData = () => {
-    Alert.alert(
-      'Import Data',
-      'This feature will be available soon. You will be able to import data from a JSON file.',
-      [{ text: 'OK' }]
-    );
+  const runImport = async (payload: ExportPayload, mode: ImportMode) => {
+    if (!user?.id) return;
+    setImporting(true);
+    try {
+      const summary = await DataTransferService.importData(user.id, payload, mode);
+      if (summary.preferences === 'imported') {
+        await loadPreferences();
+      }
+      const details = summary.errors.length
+        ? `\n\nSkipped records:\n${summary.errors.slice(0, 5).join('\n')}${summary.errors.length > 5 ? `\n…and ${summary.errors.length - 5} more` : ''}`
+        : '';
+      Alert.alert('Import Complete', DataTransferService.formatSummary(summary) + details);
+    } catch (error) {
+      console.error('Error importing data:', error);
+      Alert.alert('Import Failed', 'Could not import your data. Nothing was changed.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleImportData = async () => {
+    if (!user?.id || importing) return;
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: 'application/json',
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets?.length) return;
+
+      const json = await FileSystem.readAsStringAsync(result.assets[0].uri, { encoding: FileSystem.EncodingType.UTF8 });
+      const { valid, errors, payload } = DataTransferService.parse(json);
+      if (!valid || !payload) {
+        Alert.alert('Invalid Export File', errors.join('\n'));
+        return;
+      }
+
+      const counts = [
+        `${payload.tasks?.length || 0} tasks`,
+        `${payload.suggestions?.length || 0} suggestions`,
+        `${payload.feedback?.length || 0} feedback entries`,
+      ].join(', ');
+      Alert.alert(
+        'Import Data',
+        `This file contains ${counts}${payload.preferences ? ' and preferences' : ''}.\n\nMerge adds new items and skips duplicates. Replace moves your current data to the Trash first.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Replace', style: 'destructive', onPress: () => runImport(payload, 'replace') },
+          { text: 'Merge', onPress: () => runImport(payload, 'merge') },
+        ]
+      );
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      Alert.alert('Import Failed', 'Could not read the selected file.');
+    }
   };
 
   const handleClearData = () => {
@@ -293,8 +388,14 @@ export default function SettingsScreen() {
           style: 'destructive',
           onPress: async () => {
             // Soft delete all cloud data
-            if (user?.id) await DatabaseService.softDeleteUserData(user.id);
-            Alert.alert('Success', 'All cloud data has been marked as deleted and can be recovered.');
+            if (!user?.id) return;
+            try {
+              await syncService.trashUserData(user.id);
+              Alert.alert('Success', `All cloud data has been moved to the Trash and can be restored for ${TRASH_RETENTION_DAYS} days.`);
+            } catch (error) {
+              console.error('Error moving data to trash:', error);
+              Alert.alert('Error', 'Failed to clear cloud data');
+            }
           },
         },
         {
@@ -302,9 +403,16 @@ export default function SettingsScreen() {
           style: 'destructive',
           onPress: async () => {
             // Clear both local and cloud data
-            await AsyncStorage.clear();
-            if (user?.id) await DatabaseService.softDeleteUserData(user.id);
-            Alert.alert('Success', 'All data (local and cloud) has been cleared. Cloud data can be recovered.');
+            try {
+              await AsyncStorage.clear();
+              if (user?.id) {
+                await syncService.trashUserData(user.id);
+              }
+              Alert.alert('Success', `All data (local and cloud) has been cleared. Cloud data can be restored from the Trash for ${TRASH_RETENTION_DAYS} days.`);
+            } catch (error) {
+              console.error('Error clearing data:', error);
+              Alert.alert('Error', 'Failed to clear data');
+            }
           },
         },
       ]
@@ -367,7 +475,7 @@ export default function SettingsScreen() {
           onPress: () => {
             Alert.alert(
               'Reminder Frequency',
-              'Choose how often you want to receive reminders',
+              'Choose how often you get a digest of due tasks and suggestions',
               [
                 { text: 'Cancel', style: 'cancel' },
                 { 
@@ -386,6 +494,33 @@ export default function SettingsScreen() {
             );
           },
         },
+        {
+          title: 'Digest Schedule',
+          subtitle: reminderFrequency === 'hourly' ? 'Every hour, on the hour' :
+                   reminderFrequency === 'daily' ? `Every day at ${digestTime}` :
+                   `${WEEKDAY_NAMES[digestWeekday]}s at ${digestTime}`,
+          type: 'frequency' as const,
+          value: reminderFrequency,
+          onPress: () => setShowDigestModal(true),
+        },
+      ],
+    },
+    {
+      title: 'Calendar',
+      icon: CalendarDays,
+      items: [
+        {
+          title: 'Connect Device Calendar',
+          subtitle: 'Keep reminders and suggestions out of your meetings',
+          type: 'action' as const,
+          onPress: handleConnectCalendar,
+        },
+        {
+          title: 'Import Calendar File',
+          subtitle: 'Add busy times from an .ics file',
+          type: 'action' as const,
+          onPress: handleImportCalendar,
+        },
       ],
     },
     {
@@ -399,6 +534,12 @@ export default function SettingsScreen() {
           value: preferences?.ai_suggestions_enabled ?? false,
           onToggle: (value: boolean) => handlePreferenceChange('ai_suggestions_enabled', value),
         },
+        {
+          title: 'Learned Patterns',
+          subtitle: 'Review, pin, correct or forget what has been learned',
+          type: 'link' as const,
+          onPress: () => router.push('/patterns'),
+        },
       ],
     },
     {
@@ -426,10 +567,16 @@ export default function SettingsScreen() {
         },
         {
           title: 'Import Data',
-          subtitle: 'Import data from JSON file',
+          subtitle: importing ? 'Importing...' : 'Import data from JSON file',
           type: 'link' as const,
           onPress: handleImportData,
         },
+        {
+          title: 'Trash',
+          subtitle: `Restore deleted items (kept for ${TRASH_RETENTION_DAYS} days)`,
+          type: 'link' as const,
+          onPress: () => router.push('/trash'),
+        },
         {
           title: 'Clear All Data',
           subtitle: 'Permanently delete all data',
@@ -673,6 +820,65 @@ export default function SettingsScreen() {
           visible={showDeviceSettings}
           onClose={() => setShowDeviceSettings(false)}
         />
+        <Modal visible={showDigestModal} animationType="slide" transparent onRequestClose={() => setShowDigestModal(false)}>
+    <View style={{ flex: 1, backgroundColor: 'rgba(0,0,0,0.5)', justifyContent: 'center', alignItems: 'center' }}>
+      <View style={{ backgroundColor: theme.colors.surface, borderRadius: 16, padding: 24, width: '90%', maxWidth: 400 }}>
+        <Text style={{ fontWeight: 'bold', fontSize: 18, marginBottom: 12, color: theme.colors.text }}>Digest Schedule</Text>
+        {reminderFrequency === 'hourly' ? (
+          <Text style={{ color: theme.colors.textSecondary, marginBottom: 16 }}>
+            Hourly digests go out on the hour. Switch to a daily or weekly digest to pick a time.
+          </Text>
+        ) : (
+          <>
+            {reminderFrequency === 'weekly' && (
+              <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 16 }}>
+                {WEEKDAY_NAMES.map((name, day) => (
+                  <TouchableOpacity
+                    key={name}
+                    onPress={() => handleDigestScheduleChange({ digest_weekday: day })}
+                    style={{
+                      paddingHorizontal: 12,
+                      paddingVertical: 6,
+                      borderRadius: 16,
+                      backgroundColor: day === digestWeekday ? theme.colors.primary : theme.colors.surfaceVariant,
+                    }}
+                  >
+                    <Text style={{ color: day === digestWeekday ? 'white' : theme.colors.text }}>{name.slice(0, 3)}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+            <TouchableOpacity
+              onPress={() => setShowDigestTimePicker(true)}
+              style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 16 }}
+            >
+              <Clock size={18} color={theme.colors.primary} />
+              <Text style={{ marginLeft: 8, color: theme.colors.text }}>Send at {digestTime}</Text>
+            </TouchableOpacity>
+            {showDigestTimePicker && (
+              <DateTimePicker
+                value={digestTimeAsDate()}
+                mode="time"
+                display="default"
+                onChange={(event, selected) => {
+                  setShowDigestTimePicker(false);
+                  if (event.type === 'set' && selected) {
+                    const time = `${String(selected.getHours()).padStart(2, '0')}:${String(selected.getMinutes()).padStart(2, '0')}`;
+                    handleDigestScheduleChange({ digest_time: time });
+                  }
+                }}
+              />
+            )}
+          </>
+        )}
+        <View style={{ flexDirection: 'row', justifyContent: 'flex-end' }}>
+          <TouchableOpacity onPress={() => setShowDigestModal(false)} style={{ padding: 10 }}>
+            <Text style={{ color: theme.colors.primary, fontWeight: 'bold' }}>Done</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </View>
+  </Modal>
         <Modal visible={showExportModal} animationType="slide" transparent onRequestClose={() => setShowExportModal(false)}>
     <View style={{ flex: 1, backgroundColor: 'rgba(0,0,0,0.5)', justifyContent: 'center', alignItems: 'center' }}>
       <View style={{ backgroundColor: theme.colors.surface, borderRadius: 16, padding: 24, width: '90%', maxWidth: 400 }}>
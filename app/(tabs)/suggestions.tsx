@@ -30,7 +30,9 @@ import { useSuggestionStore } from '../../lib/suggestionStore';
 import { useDatabaseOperations } from '../../context/DatabaseContext';
 import { useAuth } from '../../context/AuthContext';
 import { AISuggestionService } from '../../lib/services/aiSuggestionService';
+import { ExplanationSource, Suggestion } from '../../lib/types';
 import PageHeader from '../../components/PageHeader';
+import SuggestionExplanationSheet from '../../components/SuggestionExplanationSheet';
 import { router } from 'expo-router';
 
 export default function SuggestionsScreen() {
@@ -42,7 +44,7 @@ export default function SuggestionsScreen() {
   const setSuggestions = useSuggestionStore((state) => state.setSuggestions);
   const removeSuggestion = useSuggestionStore((state) => state.removeSuggestion);
   
-  const [selectedSuggestion, setSelectedSuggestion] = useState<string | null>(null);
+  const [explained, setExplained] = useState<Suggestion | null>(null);
   const [loading, setLoading] = useState(true);
   const [generating, setGenerating] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
@@ -161,6 +163,11 @@ export default function SuggestionsScreen() {
     }
   };
 
+  const openPattern = (source: ExplanationSource) => {
+    setExplained(null);
+    router.push({ pathname: '/pattern', params: { id: source.patternId, table: source.patternTable } });
+  };
+
   const onRefresh = async () => {
     setRefreshing(true);
     await loadSuggestions();
@@ -351,40 +358,13 @@ export default function SuggestionsScreen() {
                   </View>
 
                   {/* Reasoning Section */}
-                  <TouchableOpacity
-                    onPress={() => setSelectedSuggestion(
-                      selectedSuggestion === suggestion.id ? null : suggestion.id
-                    )}
-                    style={styles.reasoningToggle}
-                  >
+                  <TouchableOpacity onPress={() => setExplained(suggestion)} style={styles.reasoningToggle}>
                     <Info size={16} color={theme.colors.primary} strokeWidth={2} />
                     <Text style={[styles.reasoningToggleText, { color: theme.colors.primary }]}>
-                      Why this suggestion?
+                      Why am I seeing this?
                     </Text>
                   </TouchableOpacity>
 
-                  {selectedSuggestion === suggestion.id && (
-                    <View
-                      style={[styles.reasoningContainer, { backgroundColor: theme.colors.surfaceVariant }]}
-                    >
-                      <Text style={[styles.reasoningText, { color: theme.colors.textSecondary }]}>
-                        {suggestion.reasoning}
-                      </Text>
-                      <Text style={[styles.basedOnLabel, { color: theme.colors.textTertiary }]}>
-                        Based on:
-                      </Text>
-                      <View style={styles.basedOnContainer}>
-                        {suggestion.based_on.map((factor: string, idx: number) => (
-                          <View key={idx} style={[styles.factorChip, { backgroundColor: theme.colors.primary + '20' }]}>
-                            <Text style={[styles.factorText, { color: theme.colors.primary }]}>
-                              {factor}
-                            </Text>
-                          </View>
-                        ))}
-                      </View>
-                    </View>
-                  )}
-
                   {/* Action Buttons */}
                   <View style={styles.actionButtons}>
                     <TouchableOpacity
@@ -420,6 +400,8 @@ export default function SuggestionsScreen() {
           )}
         </View>
       </ScrollView>
+
+      <SuggestionExplanationSheet suggestion={explained} onOpenPattern={openPattern} onClose={() => setExplained(null)} />
     </SafeAreaView>
   );
 }
@@ -605,36 +587,6 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontFamily: 'Inter-Medium',
   },
-  reasoningContainer: {
-    padding: 16,
-    borderRadius: 12,
-    marginBottom: 16,
-  },
-  reasoningText: {
-    fontSize: 14,
-    fontFamily: 'Inter-Regular',
-    lineHeight: 20,
-    marginBottom: 12,
-  },
-  basedOnLabel: {
-    fontSize: 12,
-    fontFamily: 'Inter-Medium',
-    marginBottom: 8,
-  },
-  basedOnContainer: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    gap: 6,
-  },
-  factorChip: {
-    paddingHorizontal: 8,
-    paddingVertical: 4,
-    borderRadius: 6,
-  },
-  factorText: {
-    fontSize: 11,
-    fontFamily: 'Inter-Medium',
-  },
   actionButtons: {
     flexDirection: 'row',
     gap: 12,
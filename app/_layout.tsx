@@ -17,6 +17,8 @@ import { DatabaseProvider } from '@/context/DatabaseContext';
 import { usePreferencesStore } from '@/lib/preferencesStore';
 import { Image, ActivityIndicator, View, Text } from 'react-native';
 import { OfflineAIProvider } from '@/context/ThemeContext';
+import '@/lib/services/geofenceTask';
+import '@/lib/services/reminderActionTask';
 
 SplashScreen.preventAutoHideAsync();
 
@@ -69,6 +71,12 @@ export default function RootLayout() {
             <Stack screenOptions={{ headerShown: false }}>
               <Stack.Screen name="(auth)" />
               <Stack.Screen name="(tabs)" />
+              <Stack.Screen name="trash" />
+              <Stack.Screen name="conflicts" />
+              <Stack.Screen name="digest" />
+              <Stack.Screen name="planner" />
+              <Stack.Screen name="patterns" />
+              <Stack.Screen name="pattern" />
               <Stack.Screen name="+not-found" />
             </Stack>
             <StatusBar style="auto" />
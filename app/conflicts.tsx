@@ -0,0 +1,359 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { GitMerge, ChevronLeft, CircleCheck as CheckCircle2 } from 'lucide-react-native';
+import { router } from 'expo-router';
+import { useTheme } from '@/context/ThemeContext';
+import { useAuth } from '@/context/AuthContext';
+import PageHeader from '@/components/PageHeader';
+import Card from '@/components/ui/Card';
+import { syncService } from '@/lib/services/syncService';
+import { FieldResolution } from '@/lib/services/syncMerge';
+import { OfflineQueueItem } from '@/lib/storage';
+
+type Picks = Record<string, FieldResolution>;
+
+interface ConflictField {
+  field: string;
+  needsPick: boolean; // changed on both devices with no merge rule
+  local: any;
+  remote: any;
+  merged: any;
+  base: any;
+}
+
+const ENTITY_LABELS: Record<OfflineQueueItem['entity'], string> = {
+  task: 'Task',
+  subtask: 'Subtask',
+  saved_view: 'Saved view',
+  suggestion: 'Suggestion',
+  feedback: 'Feedback',
+  reminder: 'Reminder',
+};
+
+function sameValue(a: any, b: any): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function formatValue(value: any): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.length > 0 ? value.map(v => (typeof v === 'object' ? v.id || JSON.stringify(v) : v)).join(', ') : '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function formatField(field: string): string {
+  const label = field.replace(/_/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+/**
+ * Every field that differs between the two copies; automatically merged
+ * fields are shown too so the user can override them
+ */
+function getConflictFields(item: OfflineQueueItem): ConflictField[] {
+  const { local, remote, fields = [], base } = item.conflict!;
+  const merged = item.conflict!.merged || remote;
+  return Object.keys({ ...local, ...remote })
+    .filter(field => field !== 'updated_at' && !sameValue(local[field], remote[field]))
+    .map(field => ({
+      field,
+      needsPick: fields.includes(field),
+      local: local[field],
+      remote: remote[field],
+      merged: merged[field],
+      base: base?.[field],
+    }))
+    .sort((a, b) => Number(b.needsPick) - Number(a.needsPick));
+}
+
+function getDefaultPicks(fields: ConflictField[]): Picks {
+  const picks: Picks = {};
+  for (const field of fields) {
+    if (field.needsPick) continue;
+    picks[field.field] = sameValue(field.merged, field.local) ? 'local' : sameValue(field.merged, field.remote) ? 'remote' : 'merged';
+  }
+  return picks;
+}
+
+export default function ConflictsScreen() {
+  const { theme } = useTheme();
+  const { user } = useAuth();
+  const [conflicts, setConflicts] = useState<OfflineQueueItem[]>([]);
+  const [picks, setPicks] = useState<Record<string, Picks>>({});
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    return syncService.subscribe(status => {
+      setConflicts(status.conflicts);
+      setPicks(current => {
+        const next: Record<string, Picks> = {};
+        for (const item of status.conflicts) {
+          next[item.id] = current[item.id] || getDefaultPicks(getConflictFields(item));
+        }
+        return next;
+      });
+      setLoading(false);
+    });
+  }, []);
+
+  const setPick = (itemId: string, field: string, pick: FieldResolution) => {
+    setPicks(current => ({ ...current, [itemId]: { ...current[itemId], [field]: pick } }));
+  };
+
+  const pickAll = (item: OfflineQueueItem, pick: 'local' | 'remote') => {
+    const all: Picks = {};
+    for (const field of getConflictFields(item)) all[field.field] = pick;
+    setPicks(current => ({ ...current, [item.id]: all }));
+  };
+
+  const handleApply = async (item: OfflineQueueItem) => {
+    const itemPicks = picks[item.id] || {};
+    const resolved = { ...(item.conflict!.merged || item.conflict!.remote) };
+    for (const field of getConflictFields(item)) {
+      const pick = itemPicks[field.field];
+      if (pick) resolved[field.field] = field[pick];
+    }
+
+    try {
+      setBusyId(item.id);
+      await syncService.resolveConflict(item.id, resolved);
+      if (user?.id) syncService.sync(user.id).catch(error => console.error('Sync after conflict failed:', error));
+    } catch (error) {
+      console.error('Error resolving conflict:', error);
+      Alert.alert('Error', 'Failed to resolve conflict');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const renderOption = (item: OfflineQueueItem, field: ConflictField, pick: FieldResolution, label: string) => {
+    const selected = picks[item.id]?.[field.field] === pick;
+    return (
+      <TouchableOpacity
+        key={pick}
+        onPress={() => setPick(item.id, field.field, pick)}
+        style={[
+          styles.option,
+          { backgroundColor: selected ? theme.colors.primary : theme.colors.surfaceVariant },
+        ]}
+      >
+        <Text style={[styles.optionLabel, { color: selected ? 'white' : theme.colors.textSecondary }]}>{label}</Text>
+        <Text style={[styles.optionValue, { color: selected ? 'white' : theme.colors.text }]} numberOfLines={4}>
+          {formatValue(field[pick])}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+        <ChevronLeft size={20} color={theme.colors.primary} />
+        <Text style={[styles.backText, { color: theme.colors.primary }]}>Back</Text>
+      </TouchableOpacity>
+      <ScrollView showsVerticalScrollIndicator={false}>
+        <PageHeader
+          icon={GitMerge}
+          title="Sync Conflicts"
+          subtitle="Pick which version to keep for each field"
+        />
+
+        {loading ? (
+          <ActivityIndicator size="large" color={theme.colors.primary} style={styles.loader} />
+        ) : conflicts.length === 0 ? (
+          <View style={styles.emptyState}>
+            <CheckCircle2 size={48} color={theme.colors.success} />
+            <Text style={[styles.emptyText, { color: theme.colors.textSecondary }]}>No conflicts to resolve</Text>
+          </View>
+        ) : (
+          conflicts.map(item => {
+            const fields = getConflictFields(item);
+            const itemPicks = picks[item.id] || {};
+            const ready = fields.every(field => itemPicks[field.field]);
+            const title = item.conflict!.local.title || item.conflict!.remote.title || item.data?.id;
+
+            return (
+              <View key={item.id} style={styles.section}>
+                <Text style={[styles.sectionTitle, { color: theme.colors.text }]} numberOfLines={1}>
+                  {ENTITY_LABELS[item.entity]}: {title}
+                </Text>
+                <Card style={styles.sectionContent}>
+                  {fields.map((field, index) => (
+                    <View key={field.field} style={[styles.field, index === fields.length - 1 && styles.lastField]}>
+                      <View style={styles.fieldHeader}>
+                        <Text style={[styles.fieldName, { color: theme.colors.text }]}>{formatField(field.field)}</Text>
+                        <Text
+                          style={[
+                            styles.fieldStatus,
+                            { color: field.needsPick ? theme.colors.error : theme.colors.success },
+                          ]}
+                        >
+                          {field.needsPick ? 'Changed on both devices' : 'Merged automatically'}
+                        </Text>
+                      </View>
+                      {field.base !== undefined && (
+                        <Text style={[styles.baseValue, { color: theme.colors.textTertiary }]} numberOfLines={2}>
+                          Last synced: {formatValue(field.base)}
+                        </Text>
+                      )}
+                      <View style={styles.options}>
+                        {renderOption(item, field, 'local', 'This device')}
+                        {renderOption(item, field, 'remote', 'Other device')}
+                        {!field.needsPick &&
+                          !sameValue(field.merged, field.local) &&
+                          !sameValue(field.merged, field.remote) &&
+                          renderOption(item, field, 'merged', 'Merged')}
+                      </View>
+                    </View>
+                  ))}
+                  <View style={styles.actions}>
+                    <TouchableOpacity onPress={() => pickAll(item, 'local')} style={styles.linkButton}>
+                      <Text style={[styles.linkText, { color: theme.colors.primary }]}>Keep all mine</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => pickAll(item, 'remote')} style={styles.linkButton}>
+                      <Text style={[styles.linkText, { color: theme.colors.primary }]}>Keep all theirs</Text>
+                    </TouchableOpacity>
+                    {busyId === item.id ? (
+                      <ActivityIndicator size="small" color={theme.colors.primary} />
+                    ) : (
+                      <TouchableOpacity
+                        disabled={!ready}
+                        onPress={() => handleApply(item)}
+                        style={[
+                          styles.applyButton,
+                          { backgroundColor: ready ? theme.colors.success : theme.colors.surfaceVariant },
+                        ]}
+                      >
+                        <Text style={[styles.applyText, { color: ready ? 'white' : theme.colors.textTertiary }]}>Apply</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                </Card>
+              </View>
+            );
+          })
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingTop: 8,
+  },
+  backText: {
+    fontSize: 16,
+    fontFamily: 'Inter-Medium',
+  },
+  loader: {
+    marginTop: 40,
+  },
+  emptyState: {
+    alignItems: 'center',
+    marginTop: 60,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 16,
+    fontFamily: 'Inter-Medium',
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    paddingHorizontal: 20,
+    marginBottom: 12,
+  },
+  sectionContent: {
+    marginHorizontal: 20,
+    paddingVertical: 4,
+  },
+  field: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0, 0, 0, 0.05)',
+  },
+  lastField: {
+    borderBottomWidth: 0,
+  },
+  fieldHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  fieldName: {
+    fontSize: 15,
+    fontFamily: 'Inter-Medium',
+  },
+  fieldStatus: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+  },
+  baseValue: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    marginTop: 2,
+  },
+  options: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  option: {
+    flex: 1,
+    borderRadius: 8,
+    padding: 8,
+  },
+  optionLabel: {
+    fontSize: 11,
+    fontFamily: 'Inter-Medium',
+    marginBottom: 2,
+  },
+  optionValue: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: 12,
+    paddingVertical: 12,
+  },
+  linkButton: {
+    paddingVertical: 6,
+  },
+  linkText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+  },
+  applyButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  applyText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+  },
+});
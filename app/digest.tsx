@@ -0,0 +1,272 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Newspaper, Check, CalendarClock, X, Plus, ChevronLeft } from 'lucide-react-native';
+import { router } from 'expo-router';
+import { useTheme } from '@/context/ThemeContext';
+import { useAuth } from '@/context/AuthContext';
+import PageHeader from '@/components/PageHeader';
+import Card from '@/components/ui/Card';
+import { syncService, SubtasksIncompleteError } from '@/lib/services/syncService';
+import { AISuggestionService } from '@/lib/services/aiSuggestionService';
+import { Digest, digestScheduler } from '@/lib/services/digestService';
+import { Suggestion, Task } from '@/lib/types';
+
+type TaskSection = { title: string; tasks: Task[] };
+
+function formatDue(task: Task): string {
+  if (!task.due_date) return task.category;
+  const due = new Date(task.due_date);
+  return `${task.category} • due ${due.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })}`;
+}
+
+// Same time of day tomorrow, or 9:00 for tasks without a due date
+function tomorrow(task: Task): Date {
+  const next = new Date();
+  next.setDate(next.getDate() + 1);
+  if (task.due_date) {
+    const due = new Date(task.due_date);
+    next.setHours(due.getHours(), due.getMinutes(), 0, 0);
+  } else {
+    next.setHours(9, 0, 0, 0);
+  }
+  return next;
+}
+
+export default function DigestScreen() {
+  const { theme } = useTheme();
+  const { user } = useAuth();
+  const [digest, setDigest] = useState<Digest | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadDigest = async () => {
+    if (!user?.id) return;
+    try {
+      setDigest(await digestScheduler.load(user.id));
+    } catch (error) {
+      console.error('Error loading digest:', error);
+      Alert.alert('Error', 'Failed to load digest');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadDigest();
+    // Scheduled digests were written before this triage; rewrite them on the way out
+    return () => {
+      if (user?.id) digestScheduler.refresh(user.id).catch(error => console.error('Error scheduling digests:', error));
+    };
+  }, [user?.id]);
+
+  const triage = async (id: string, action: () => Promise<unknown>, failure: string) => {
+    try {
+      setBusyId(id);
+      await action();
+      await loadDigest();
+    } catch (error) {
+      if (error instanceof SubtasksIncompleteError) {
+        Alert.alert('Subtasks remaining', error.message);
+      } else {
+        console.error(`${failure}:`, error);
+        Alert.alert('Error', failure);
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleComplete = (task: Task) =>
+    triage(task.id, () => syncService.toggleTaskCompletion(task.id), 'Failed to complete task');
+
+  const handlePostpone = (task: Task) =>
+    triage(task.id, () => syncService.updateTask(task.id, { due_date: tomorrow(task).toISOString() }), 'Failed to move task');
+
+  const handleAccept = (suggestion: Suggestion) =>
+    triage(suggestion.id, () => AISuggestionService.convertSuggestionToTask(suggestion, user!.id), 'Failed to accept suggestion');
+
+  const handleDismiss = (suggestion: Suggestion) =>
+    triage(suggestion.id, () => syncService.updateSuggestionStatus(suggestion.id, 'dismissed'), 'Failed to dismiss suggestion');
+
+  const sections: TaskSection[] = digest
+    ? [
+        { title: 'Overdue', tasks: digest.overdue },
+        { title: 'Coming up', tasks: digest.due },
+        { title: 'Top priorities', tasks: digest.top },
+      ].filter(section => section.tasks.length > 0)
+    : [];
+  const isEmpty = sections.length === 0 && !digest?.suggestions.length;
+
+  const renderActions = (id: string, actions: { icon: typeof Check; color: string; onPress: () => void }[]) =>
+    busyId === id ? (
+      <ActivityIndicator size="small" color={theme.colors.primary} />
+    ) : (
+      <View style={styles.itemActions}>
+        {actions.map(({ icon: Icon, color, onPress }, index) => (
+          <TouchableOpacity key={index} onPress={onPress} style={styles.iconButton}>
+            <Icon size={18} color={color} />
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <TouchableOpacity style={styles.backButton} onPress={() => (router.canGoBack() ? router.back() : router.replace('/(tabs)'))}>
+        <ChevronLeft size={20} color={theme.colors.primary} />
+        <Text style={[styles.backText, { color: theme.colors.primary }]}>Tasks</Text>
+      </TouchableOpacity>
+      <ScrollView showsVerticalScrollIndicator={false}>
+        <PageHeader
+          icon={Newspaper}
+          title="Digest"
+          subtitle={digest ? `Until ${digest.until.toLocaleString([], { weekday: 'short', hour: 'numeric', minute: '2-digit' })}` : undefined}
+        />
+
+        {loading ? (
+          <ActivityIndicator size="large" color={theme.colors.primary} style={styles.loader} />
+        ) : isEmpty ? (
+          <View style={styles.emptyState}>
+            <Check size={48} color={theme.colors.textTertiary} />
+            <Text style={[styles.emptyText, { color: theme.colors.textSecondary }]}>All caught up</Text>
+          </View>
+        ) : (
+          <>
+            {sections.map(section => (
+              <View key={section.title} style={styles.section}>
+                <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+                  {section.title} ({section.tasks.length})
+                </Text>
+                <Card style={styles.sectionContent}>
+                  {section.tasks.map((task, index) => (
+                    <View key={task.id} style={[styles.item, index === section.tasks.length - 1 && styles.lastItem]}>
+                      <View style={styles.itemText}>
+                        <Text style={[styles.itemTitle, { color: theme.colors.text }]} numberOfLines={1}>
+                          {task.title}
+                        </Text>
+                        <Text style={[styles.itemSubtitle, { color: theme.colors.textSecondary }]} numberOfLines={1}>
+                          {formatDue(task)}
+                        </Text>
+                      </View>
+                      {renderActions(task.id, [
+                        { icon: Check, color: theme.colors.success, onPress: () => handleComplete(task) },
+                        { icon: CalendarClock, color: theme.colors.warning, onPress: () => handlePostpone(task) },
+                      ])}
+                    </View>
+                  ))}
+                </Card>
+              </View>
+            ))}
+            {digest && digest.suggestions.length > 0 && (
+              <View style={styles.section}>
+                <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+                  Suggestions ({digest.suggestions.length})
+                </Text>
+                <Card style={styles.sectionContent}>
+                  {digest.suggestions.map((suggestion, index) => (
+                    <View
+                      key={suggestion.id}
+                      style={[styles.item, index === digest.suggestions.length - 1 && styles.lastItem]}
+                    >
+                      <View style={styles.itemText}>
+                        <Text style={[styles.itemTitle, { color: theme.colors.text }]} numberOfLines={1}>
+                          {suggestion.title}
+                        </Text>
+                        <Text style={[styles.itemSubtitle, { color: theme.colors.textSecondary }]} numberOfLines={1}>
+                          {suggestion.category} • {suggestion.confidence}% match
+                        </Text>
+                      </View>
+                      {renderActions(suggestion.id, [
+                        { icon: Plus, color: theme.colors.success, onPress: () => handleAccept(suggestion) },
+                        { icon: X, color: theme.colors.error, onPress: () => handleDismiss(suggestion) },
+                      ])}
+                    </View>
+                  ))}
+                </Card>
+              </View>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingTop: 8,
+  },
+  backText: {
+    fontSize: 16,
+    fontFamily: 'Inter-Medium',
+  },
+  loader: {
+    marginTop: 40,
+  },
+  emptyState: {
+    alignItems: 'center',
+    marginTop: 60,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 16,
+    fontFamily: 'Inter-Medium',
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    paddingHorizontal: 20,
+    marginBottom: 12,
+  },
+  sectionContent: {
+    marginHorizontal: 20,
+    paddingVertical: 4,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0, 0, 0, 0.05)',
+  },
+  lastItem: {
+    borderBottomWidth: 0,
+  },
+  itemText: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontSize: 16,
+    fontFamily: 'Inter-Medium',
+  },
+  itemSubtitle: {
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+    marginTop: 2,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  iconButton: {
+    padding: 8,
+  },
+});
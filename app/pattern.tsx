@@ -0,0 +1,373 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator, Alert, Switch } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Brain, ChevronLeft, Minus, Plus, SearchX } from 'lucide-react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { useTheme } from '@/context/ThemeContext';
+import { useAuth } from '@/context/AuthContext';
+import PageHeader from '@/components/PageHeader';
+import Card from '@/components/ui/Card';
+import { PatternDatabaseUtils, UserPattern, TemporalPattern } from '@/lib/patternDatabase';
+import { SOURCE_LABELS } from '@/lib/services/suggestionGenerators';
+import { patternManagementService, userPatternTitle } from '@/lib/services/patternManagementService';
+import { ExplanationSource } from '@/lib/types';
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+type PatternDetails = { title: string; type: string; rows: [string, string][] };
+
+function formatDate(value?: string): string {
+  return value ? new Date(value).toLocaleString([], { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' }) : '—';
+}
+
+function formatHour(hour: number): string {
+  return new Date(2000, 0, 1, hour).toLocaleTimeString([], { hour: 'numeric' });
+}
+
+function temporalDetails(pattern: TemporalPattern): PatternDetails {
+  return {
+    title: pattern.task_title,
+    type: 'temporal',
+    rows: [
+      ['Usually', `${DAY_NAMES[pattern.day_of_week]} around ${formatHour(pattern.time_of_day)}`],
+      ['Repeats', pattern.period_type],
+      ['Category', pattern.task_category],
+      ['Confidence', `${Math.round(pattern.confidence * 100)}%`],
+      ['Times seen', String(pattern.frequency)],
+      ['Last done', formatDate(pattern.last_occurrence)],
+      ['Next expected', formatDate(pattern.next_predicted)],
+    ],
+  };
+}
+
+function userPatternDetails(pattern: UserPattern): PatternDetails {
+  const data = pattern.pattern_data || {};
+  const rows: [string, string][] = [];
+
+  if (data.sequence) rows.push(['Order', data.sequence.join(' → ')]);
+  if (data.timeContext) rows.push(['Usually', `${formatHour(data.timeContext.start)} – ${formatHour(data.timeContext.end)}`]);
+  if (data.intervalDays) rows.push(['Every', `${Math.round(data.intervalDays * 10) / 10} days`]);
+  if (data.category) rows.push(['Category', data.category]);
+  rows.push(
+    ['Confidence', `${Math.round(pattern.confidence * 100)}%`],
+    ['Times seen', String(pattern.frequency)],
+    ['Last seen', formatDate(pattern.last_occurrence)]
+  );
+  if (pattern.next_predicted) rows.push(['Next expected', formatDate(pattern.next_predicted)]);
+
+  return {
+    title: userPatternTitle(pattern),
+    type: pattern.pattern_type,
+    rows,
+  };
+}
+
+export default function PatternScreen() {
+  const { theme } = useTheme();
+  const { user } = useAuth();
+  const { id, table } = useLocalSearchParams<{ id: string; table: ExplanationSource['patternTable'] }>();
+  const [details, setDetails] = useState<PatternDetails | null>(null);
+  const [temporal, setTemporal] = useState<TemporalPattern | null>(null);
+  const [pinned, setPinned] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const load = async () => {
+    try {
+      if (table === 'temporal_patterns') {
+        const pattern = await PatternDatabaseUtils.getTemporalPattern(id);
+        setTemporal(pattern);
+        setDetails(pattern ? temporalDetails(pattern) : null);
+      } else {
+        const pattern = await PatternDatabaseUtils.getUserPattern(id);
+        setDetails(pattern ? userPatternDetails(pattern) : null);
+      }
+      setPinned(!!(await PatternDatabaseUtils.getPatternOverride(id))?.pinned);
+    } catch (error) {
+      console.error('Error loading pattern:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [id, table]);
+
+  const handlePin = async (value: boolean) => {
+    if (!user?.id) return;
+    setPinned(value);
+    try {
+      await patternManagementService.setPinned(user.id, id, value);
+    } catch (error) {
+      console.error('Error pinning pattern:', error);
+      setPinned(!value);
+      Alert.alert('Error', 'Failed to update pattern');
+    }
+  };
+
+  const handleCorrect = async (correction: { day_of_week?: number; time_of_day?: number }) => {
+    if (!user?.id) return;
+    try {
+      setSaving(true);
+      await patternManagementService.correctPattern(user.id, id, correction);
+      await load();
+    } catch (error) {
+      console.error('Error correcting pattern:', error);
+      Alert.alert('Error', 'Failed to correct pattern');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleForget = () => {
+    if (!user?.id || !details) return;
+    Alert.alert(
+      'Forget Pattern',
+      `"${details.title}" will no longer be learned or used for suggestions.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Forget',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await patternManagementService.forgetPattern(user.id, id, table);
+              router.back();
+            } catch (error) {
+              console.error('Error forgetting pattern:', error);
+              Alert.alert('Error', 'Failed to forget pattern');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <TouchableOpacity style={styles.backButton} onPress={() => (router.canGoBack() ? router.back() : router.replace('/(tabs)/suggestions'))}>
+        <ChevronLeft size={20} color={theme.colors.primary} />
+        <Text style={[styles.backText, { color: theme.colors.primary }]}>Back</Text>
+      </TouchableOpacity>
+      <ScrollView showsVerticalScrollIndicator={false}>
+        <PageHeader
+          icon={Brain}
+          title={details?.title || 'Pattern'}
+          subtitle={details ? SOURCE_LABELS[details.type] || details.type : undefined}
+        />
+
+        {loading ? (
+          <ActivityIndicator size="large" color={theme.colors.primary} style={styles.loader} />
+        ) : !details ? (
+          <View style={styles.emptyState}>
+            <SearchX size={48} color={theme.colors.textTertiary} />
+            <Text style={[styles.emptyText, { color: theme.colors.textSecondary }]}>
+              This pattern is no longer part of what's been learned
+            </Text>
+          </View>
+        ) : (
+          <>
+            <Card style={styles.card}>
+              {details.rows.map(([label, value], index) => (
+                <View key={label} style={[styles.row, index === details.rows.length - 1 && styles.lastRow]}>
+                  <Text style={[styles.rowLabel, { color: theme.colors.textSecondary }]}>{label}</Text>
+                  <Text style={[styles.rowValue, { color: theme.colors.text }]}>{value}</Text>
+                </View>
+              ))}
+            </Card>
+
+            {temporal && temporal.period_type !== 'monthly' && (
+              <>
+                <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Not quite right?</Text>
+                <Card style={styles.card}>
+                  {temporal.period_type === 'weekly' && (
+                    <View style={styles.days}>
+                      {DAY_NAMES.map((day, index) => {
+                        const selected = index === temporal.day_of_week;
+                        return (
+                          <TouchableOpacity
+                            key={day}
+                            disabled={saving || selected}
+                            onPress={() => handleCorrect({ day_of_week: index })}
+                            style={[
+                              styles.day,
+                              { backgroundColor: selected ? theme.colors.primary : theme.colors.surfaceVariant },
+                            ]}
+                          >
+                            <Text style={[styles.dayText, { color: selected ? '#FFFFFF' : theme.colors.text }]}>
+                              {day.slice(0, 3)}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                  )}
+                  <View style={[styles.row, styles.lastRow]}>
+                    <Text style={[styles.rowLabel, { color: theme.colors.textSecondary }]}>Around</Text>
+                    <View style={styles.stepper}>
+                      <TouchableOpacity
+                        disabled={saving || temporal.time_of_day === 0}
+                        onPress={() => handleCorrect({ time_of_day: temporal.time_of_day - 1 })}
+                        style={styles.stepperButton}
+                      >
+                        <Minus size={18} color={theme.colors.primary} />
+                      </TouchableOpacity>
+                      <Text style={[styles.rowValue, styles.stepperValue, { color: theme.colors.text }]}>
+                        {formatHour(temporal.time_of_day)}
+                      </Text>
+                      <TouchableOpacity
+                        disabled={saving || temporal.time_of_day === 23}
+                        onPress={() => handleCorrect({ time_of_day: temporal.time_of_day + 1 })}
+                        style={styles.stepperButton}
+                      >
+                        <Plus size={18} color={theme.colors.primary} />
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                </Card>
+                <Text style={[styles.hint, { color: theme.colors.textTertiary }]}>
+                  Corrections stick when patterns are relearned and tune when suggestions appear
+                </Text>
+              </>
+            )}
+
+            <Card style={styles.actions}>
+              <View style={styles.row}>
+                <View style={styles.actionText}>
+                  <Text style={[styles.actionTitle, { color: theme.colors.text }]}>Pin</Text>
+                  <Text style={[styles.hint, styles.inlineHint, { color: theme.colors.textSecondary }]}>
+                    Keep this pattern even when you skip it for a while
+                  </Text>
+                </View>
+                <Switch
+                  value={pinned}
+                  onValueChange={handlePin}
+                  trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+                />
+              </View>
+              <TouchableOpacity onPress={handleForget} style={[styles.row, styles.lastRow]}>
+                <Text style={[styles.actionTitle, { color: theme.colors.error }]}>Forget this pattern</Text>
+              </TouchableOpacity>
+            </Card>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingTop: 8,
+  },
+  backText: {
+    fontSize: 16,
+    fontFamily: 'Inter-Medium',
+  },
+  loader: {
+    marginTop: 40,
+  },
+  emptyState: {
+    alignItems: 'center',
+    marginTop: 60,
+    paddingHorizontal: 40,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 16,
+    fontFamily: 'Inter-Medium',
+    textAlign: 'center',
+  },
+  card: {
+    marginHorizontal: 20,
+    paddingVertical: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0, 0, 0, 0.05)',
+  },
+  lastRow: {
+    borderBottomWidth: 0,
+  },
+  rowLabel: {
+    fontSize: 15,
+    fontFamily: 'Inter-Regular',
+  },
+  rowValue: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: 'Inter-Medium',
+    textAlign: 'right',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    paddingHorizontal: 20,
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  days: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0, 0, 0, 0.05)',
+  },
+  day: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  dayText: {
+    fontSize: 13,
+    fontFamily: 'Inter-Medium',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperButton: {
+    padding: 6,
+  },
+  stepperValue: {
+    flex: 0,
+    minWidth: 80,
+    textAlign: 'center',
+  },
+  hint: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    paddingHorizontal: 20,
+    marginTop: 8,
+  },
+  inlineHint: {
+    paddingHorizontal: 0,
+    marginTop: 2,
+  },
+  actions: {
+    marginHorizontal: 20,
+    paddingVertical: 4,
+    marginTop: 24,
+    marginBottom: 24,
+  },
+  actionText: {
+    flex: 1,
+  },
+  actionTitle: {
+    fontSize: 15,
+    fontFamily: 'Inter-Medium',
+  },
+});
@@ -0,0 +1,381 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Brain, ChevronLeft, Pin, X } from 'lucide-react-native';
+import { router } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
+import { useTheme } from '@/context/ThemeContext';
+import { useAuth } from '@/context/AuthContext';
+import PageHeader from '@/components/PageHeader';
+import Card from '@/components/ui/Card';
+import { patternManagementService, ManagedPattern } from '@/lib/services/patternManagementService';
+import { temporalPatternService } from '@/lib/services/temporalPatternService';
+import { sequentialPatternService } from '@/lib/services/sequentialPatternService';
+
+const SECTIONS: { title: string; types: string[] }[] = [
+  { title: 'Routines', types: ['temporal'] },
+  { title: 'Rhythms', types: ['frequency'] },
+  { title: 'Workflows', types: ['sequential'] },
+  { title: 'Contexts', types: ['contextual'] },
+  { title: 'Other', types: ['time', 'category', 'sequence'] },
+];
+
+const DAY_LETTERS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+interface Overview {
+  hourly: number[];
+  daily: number[];
+  workflows: { task: string; after: string[] }[];
+}
+
+function formatDay(value?: string): string {
+  return value ? new Date(value).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' }) : '—';
+}
+
+export default function PatternsScreen() {
+  const { theme } = useTheme();
+  const { user } = useAuth();
+  const [patterns, setPatterns] = useState<ManagedPattern[]>([]);
+  const [overview, setOverview] = useState<Overview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadPatterns = async () => {
+    if (!user?.id) return;
+    try {
+      const [list, temporal, sequential] = await Promise.all([
+        patternManagementService.listPatterns(user.id),
+        temporalPatternService.getTemporalPatternsForVisualization(user.id),
+        sequentialPatternService.getSequentialPatternsForVisualization(user.id),
+      ]);
+      setPatterns(list);
+      setOverview({
+        hourly: Array.from({ length: 24 }, (_, hour) => temporal.hourlyDistribution[hour] || 0),
+        daily: Array.from({ length: 7 }, (_, day) => temporal.dailyDistribution[day] || 0),
+        workflows: Object.entries(sequential.dependencyGraph)
+          .map(([task, after]) => ({ task, after }))
+          .sort((a, b) => b.after.length - a.after.length)
+          .slice(0, 5),
+      });
+    } catch (error) {
+      console.error('Error loading patterns:', error);
+      Alert.alert('Error', 'Failed to load learned patterns');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Reload on return from a pattern, which may have been corrected or forgotten there
+  useFocusEffect(
+    useCallback(() => {
+      loadPatterns();
+    }, [user?.id])
+  );
+
+  const handleTogglePin = async (pattern: ManagedPattern) => {
+    if (!user?.id) return;
+    try {
+      setBusyId(pattern.id);
+      await patternManagementService.setPinned(user.id, pattern.id, !pattern.pinned);
+      await loadPatterns();
+    } catch (error) {
+      console.error('Error pinning pattern:', error);
+      Alert.alert('Error', 'Failed to update pattern');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleForget = (pattern: ManagedPattern) => {
+    if (!user?.id) return;
+    Alert.alert(
+      'Forget Pattern',
+      `"${pattern.title}" will no longer be learned or used for suggestions.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Forget',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setBusyId(pattern.id);
+              await patternManagementService.forgetPattern(user.id, pattern.id, pattern.table);
+              await loadPatterns();
+            } catch (error) {
+              console.error('Error forgetting pattern:', error);
+              Alert.alert('Error', 'Failed to forget pattern');
+            } finally {
+              setBusyId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const openPattern = (pattern: ManagedPattern) => {
+    if (pattern.table === 'task_patterns') return;
+    router.push({ pathname: '/pattern', params: { id: pattern.id, table: pattern.table } });
+  };
+
+  const renderBars = (values: number[], labels?: string[]) => {
+    const max = Math.max(...values, 1e-6);
+    return (
+      <View style={styles.chart}>
+        {values.map((value, index) => (
+          <View key={index} style={styles.barColumn}>
+            <View style={[styles.barTrack, { backgroundColor: theme.colors.surfaceVariant }]}>
+              <View
+                style={[
+                  styles.barFill,
+                  { height: `${Math.round((value / max) * 100)}%`, backgroundColor: theme.colors.primary },
+                ]}
+              />
+            </View>
+            {labels && <Text style={[styles.barLabel, { color: theme.colors.textTertiary }]}>{labels[index]}</Text>}
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  const sections = SECTIONS.map(section => ({
+    title: section.title,
+    patterns: patterns.filter(pattern => section.types.includes(pattern.type)),
+  })).filter(section => section.patterns.length > 0);
+  const hasRhythm = !!overview && overview.hourly.some(value => value > 0);
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+        <ChevronLeft size={20} color={theme.colors.primary} />
+        <Text style={[styles.backText, { color: theme.colors.primary }]}>Settings</Text>
+      </TouchableOpacity>
+      <ScrollView showsVerticalScrollIndicator={false}>
+        <PageHeader
+          icon={Brain}
+          title="Learned Patterns"
+          subtitle={loading ? undefined : `${patterns.length} learned from your tasks`}
+        />
+
+        {loading ? (
+          <ActivityIndicator size="large" color={theme.colors.primary} style={styles.loader} />
+        ) : patterns.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Brain size={48} color={theme.colors.textTertiary} />
+            <Text style={[styles.emptyText, { color: theme.colors.textSecondary }]}>
+              Nothing learned yet. Patterns appear as you complete tasks.
+            </Text>
+          </View>
+        ) : (
+          <>
+            {hasRhythm && (
+              <View style={styles.section}>
+                <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Your rhythm</Text>
+                <Card style={styles.overview}>
+                  <Text style={[styles.chartTitle, { color: theme.colors.textSecondary }]}>By hour</Text>
+                  {renderBars(overview!.hourly)}
+                  <View style={styles.axis}>
+                    {['12 AM', '6 AM', '12 PM', '6 PM'].map(label => (
+                      <Text key={label} style={[styles.barLabel, { color: theme.colors.textTertiary }]}>{label}</Text>
+                    ))}
+                  </View>
+                  <Text style={[styles.chartTitle, { color: theme.colors.textSecondary }]}>By day</Text>
+                  {renderBars(overview!.daily, DAY_LETTERS)}
+                  {overview!.workflows.length > 0 && (
+                    <>
+                      <Text style={[styles.chartTitle, { color: theme.colors.textSecondary }]}>Usually comes after</Text>
+                      {overview!.workflows.map(workflow => (
+                        <Text key={workflow.task} style={[styles.workflow, { color: theme.colors.text }]} numberOfLines={1}>
+                          {workflow.task}
+                          <Text style={{ color: theme.colors.textSecondary }}> ← {workflow.after.join(', ')}</Text>
+                        </Text>
+                      ))}
+                    </>
+                  )}
+                </Card>
+              </View>
+            )}
+
+            {sections.map(section => (
+              <View key={section.title} style={styles.section}>
+                <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+                  {section.title} ({section.patterns.length})
+                </Text>
+                <Card style={styles.sectionContent}>
+                  {section.patterns.map((pattern, index) => (
+                    <TouchableOpacity
+                      key={pattern.id}
+                      onPress={() => openPattern(pattern)}
+                      disabled={pattern.table === 'task_patterns'}
+                      style={[styles.item, index === section.patterns.length - 1 && styles.lastItem]}
+                    >
+                      <View style={styles.itemText}>
+                        <Text style={[styles.itemTitle, { color: theme.colors.text }]} numberOfLines={1}>
+                          {pattern.title}
+                        </Text>
+                        <Text style={[styles.itemSubtitle, { color: theme.colors.textSecondary }]} numberOfLines={1}>
+                          {pattern.detail}
+                          {pattern.corrected ? ' • corrected' : ''}
+                        </Text>
+                        <Text style={[styles.itemMeta, { color: theme.colors.textTertiary }]} numberOfLines={1}>
+                          {Math.round(pattern.confidence * 100)}% • {pattern.frequency}× • last {formatDay(pattern.lastOccurrence)}
+                          {pattern.nextPredicted ? ` • next ${formatDay(pattern.nextPredicted)}` : ''}
+                        </Text>
+                      </View>
+                      {busyId === pattern.id ? (
+                        <ActivityIndicator size="small" color={theme.colors.primary} />
+                      ) : (
+                        <View style={styles.itemActions}>
+                          {pattern.table !== 'task_patterns' && (
+                            <TouchableOpacity onPress={() => handleTogglePin(pattern)} style={styles.iconButton}>
+                              <Pin
+                                size={18}
+                                color={pattern.pinned ? theme.colors.primary : theme.colors.textTertiary}
+                                fill={pattern.pinned ? theme.colors.primary : 'transparent'}
+                              />
+                            </TouchableOpacity>
+                          )}
+                          <TouchableOpacity onPress={() => handleForget(pattern)} style={styles.iconButton}>
+                            <X size={18} color={theme.colors.error} />
+                          </TouchableOpacity>
+                        </View>
+                      )}
+                    </TouchableOpacity>
+                  ))}
+                </Card>
+              </View>
+            ))}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingTop: 8,
+  },
+  backText: {
+    fontSize: 16,
+    fontFamily: 'Inter-Medium',
+  },
+  loader: {
+    marginTop: 40,
+  },
+  emptyState: {
+    alignItems: 'center',
+    marginTop: 60,
+    paddingHorizontal: 40,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 16,
+    fontFamily: 'Inter-Medium',
+    textAlign: 'center',
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    paddingHorizontal: 20,
+    marginBottom: 12,
+  },
+  overview: {
+    marginHorizontal: 20,
+    gap: 8,
+  },
+  chartTitle: {
+    fontSize: 13,
+    fontFamily: 'Inter-Medium',
+    marginTop: 4,
+  },
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 2,
+  },
+  barColumn: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  barTrack: {
+    width: '100%',
+    height: 48,
+    borderRadius: 2,
+    justifyContent: 'flex-end',
+    overflow: 'hidden',
+  },
+  barFill: {
+    width: '100%',
+    borderRadius: 2,
+  },
+  barLabel: {
+    fontSize: 10,
+    fontFamily: 'Inter-Regular',
+    marginTop: 2,
+  },
+  axis: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  workflow: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+  },
+  sectionContent: {
+    marginHorizontal: 20,
+    paddingVertical: 4,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0, 0, 0, 0.05)',
+  },
+  lastItem: {
+    borderBottomWidth: 0,
+  },
+  itemText: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontSize: 16,
+    fontFamily: 'Inter-Medium',
+  },
+  itemSubtitle: {
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+    marginTop: 2,
+  },
+  itemMeta: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    marginTop: 2,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  iconButton: {
+    padding: 8,
+  },
+});
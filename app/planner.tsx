@@ -0,0 +1,484 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  Animated,
+  PanResponder,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { CalendarRange, ChevronLeft, Zap, TriangleAlert as AlertTriangle } from 'lucide-react-native';
+import { router } from 'expo-router';
+import { useTheme } from '@/context/ThemeContext';
+import { useAuth } from '@/context/AuthContext';
+import PageHeader from '@/components/PageHeader';
+import Card from '@/components/ui/Card';
+import { DatabaseService } from '@/lib/services/databaseService';
+import { AnalyticsService } from '@/lib/services/analyticsService';
+import { calendarService } from '@/lib/services/calendarService';
+import { syncService } from '@/lib/services/syncService';
+import { Plan, TimeBlock, moveBlock, planTimeBlocks } from '@/lib/services/timeBlockPlanner';
+import { BusyBlock } from '@/lib/types';
+
+// Visible part of each day; blocks can be dragged anywhere inside it
+const TIMELINE_START = 7;
+const TIMELINE_END = 22;
+const PX_PER_MINUTE = 1;
+const MINUTE = 60 * 1000;
+
+const PRIORITY_COLORS = { low: '#10B981', medium: '#F59E0B', high: '#EF4444' };
+
+const formatTime = (date: Date) => date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+const sameDay = (a: Date, b: Date) => a.toDateString() === b.toDateString();
+
+function dayStart(offset: number): Date {
+  const day = new Date();
+  day.setDate(day.getDate() + offset);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+// Distance from the top of the timeline
+function offsetOf(date: Date): number {
+  return ((date.getHours() - TIMELINE_START) * 60 + date.getMinutes()) * PX_PER_MINUTE;
+}
+
+function DraggableBlock({
+  block,
+  onDrop,
+  onDragging,
+}: {
+  block: TimeBlock;
+  onDrop: (block: TimeBlock, minutes: number) => void;
+  onDragging: (dragging: boolean) => void;
+}) {
+  const { theme } = useTheme();
+  const offset = useRef(new Animated.Value(0)).current;
+  const height = ((block.end.getTime() - block.start.getTime()) / MINUTE) * PX_PER_MINUTE;
+
+  const responder = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        onMoveShouldSetPanResponder: (_, gesture) => Math.abs(gesture.dy) > 4,
+        onPanResponderGrant: () => onDragging(true),
+        onPanResponderMove: Animated.event([null, { dy: offset }], { useNativeDriver: false }),
+        onPanResponderRelease: (_, gesture) => {
+          onDragging(false);
+          offset.setValue(0);
+          onDrop(block, gesture.dy / PX_PER_MINUTE);
+        },
+        onPanResponderTerminate: () => {
+          onDragging(false);
+          offset.setValue(0);
+        },
+      }),
+    [block, onDrop, onDragging]
+  );
+
+  return (
+    <Animated.View
+      {...responder.panHandlers}
+      style={[
+        styles.block,
+        {
+          top: offsetOf(block.start),
+          height: Math.max(height, 24),
+          backgroundColor: theme.colors.surface,
+          borderLeftColor: PRIORITY_COLORS[block.priority],
+          transform: [{ translateY: offset }],
+        },
+      ]}
+    >
+      <View style={styles.blockHeader}>
+        <Text style={[styles.blockTitle, { color: theme.colors.text }]} numberOfLines={1}>
+          {block.title}
+        </Text>
+        {block.peak && <Zap size={14} color={theme.colors.warning} />}
+        {block.late && <AlertTriangle size={14} color={theme.colors.error} />}
+      </View>
+      {height >= 40 && (
+        <Text style={[styles.blockTime, { color: theme.colors.textSecondary }]} numberOfLines={1}>
+          {formatTime(block.start)} – {formatTime(block.end)}
+          {block.estimated ? '' : ' · estimate'}
+        </Text>
+      )}
+    </Animated.View>
+  );
+}
+
+export default function PlannerScreen() {
+  const { theme } = useTheme();
+  const { user } = useAuth();
+  const [days, setDays] = useState<1 | 7>(1);
+  const [dayIndex, setDayIndex] = useState(0);
+  const [plan, setPlan] = useState<Plan | null>(null);
+  const [busy, setBusy] = useState<BusyBlock[]>([]);
+  const [peakHours, setPeakHours] = useState<number[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [accepting, setAccepting] = useState(false);
+  const [dragging, setDragging] = useState(false);
+
+  const loadPlan = async () => {
+    if (!user?.id) return;
+    try {
+      setLoading(true);
+      const from = new Date();
+      const until = dayStart(days);
+      const [tasks, calendar] = await Promise.all([
+        DatabaseService.getTasks(user.id),
+        calendarService.getBusyBlocks(user.id, from, until),
+      ]);
+      const peak = AnalyticsService.getPeakHours(tasks);
+      setBusy(calendar);
+      setPeakHours(peak);
+      setPlan(planTimeBlocks(tasks, { from, days, peakHours: peak, busy: calendar }));
+    } catch (error) {
+      console.error('Error planning tasks:', error);
+      Alert.alert('Error', 'Failed to plan your tasks');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setDayIndex(0);
+    loadPlan();
+  }, [user?.id, days]);
+
+  const handleDrop = (block: TimeBlock, minutes: number) => {
+    if (!plan || Math.abs(minutes) < 1) return;
+    const start = new Date(block.start.getTime() + minutes * MINUTE);
+    const end = new Date(block.end.getTime() + minutes * MINUTE);
+    const day = dayStart(dayIndex);
+    const first = new Date(day);
+    first.setHours(TIMELINE_START);
+    const last = new Date(day);
+    last.setHours(TIMELINE_END);
+    if (start < first || end > last || start < new Date()) return;
+
+    const moved = moveBlock(plan, block.taskId, start, { busy, peakHours });
+    if (!moved) {
+      Alert.alert('Time Taken', 'That time overlaps another block or a calendar event.');
+      return;
+    }
+    setPlan(moved);
+  };
+
+  const handleAccept = () => {
+    if (!plan || plan.blocks.length === 0) return;
+    Alert.alert('Accept Plan', `Set reminders for ${plan.blocks.length} task${plan.blocks.length === 1 ? '' : 's'} at their planned times?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Accept',
+        onPress: async () => {
+          try {
+            setAccepting(true);
+            for (const block of plan.blocks) {
+              await syncService.updateTask(block.taskId, {
+                reminder_enabled: true,
+                reminder_time: block.start.toISOString(),
+              });
+            }
+            if (router.canGoBack()) router.back();
+            else router.replace('/(tabs)');
+          } catch (error) {
+            console.error('Error accepting plan:', error);
+            Alert.alert('Error', 'Failed to set reminders');
+          } finally {
+            setAccepting(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  const day = dayStart(dayIndex);
+  const blocks = plan?.blocks.filter(block => sameDay(block.start, day)) || [];
+  const events = busy.filter(event => !event.allDay && sameDay(new Date(event.start), day));
+  const plannedMinutes = plan?.blocks.reduce((sum, b) => sum + (b.end.getTime() - b.start.getTime()) / MINUTE, 0) || 0;
+  const hours = Array.from({ length: TIMELINE_END - TIMELINE_START }, (_, i) => TIMELINE_START + i);
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <TouchableOpacity style={styles.backButton} onPress={() => (router.canGoBack() ? router.back() : router.replace('/(tabs)'))}>
+        <ChevronLeft size={20} color={theme.colors.primary} />
+        <Text style={[styles.backText, { color: theme.colors.primary }]}>Back</Text>
+      </TouchableOpacity>
+      <ScrollView showsVerticalScrollIndicator={false} scrollEnabled={!dragging}>
+        <PageHeader
+          icon={CalendarRange}
+          title="Planner"
+          subtitle={plan ? `${plan.blocks.length} tasks · ${Math.round(plannedMinutes / 6) / 10}h planned` : undefined}
+          actionButton={plan && plan.blocks.length > 0 && !accepting ? { text: 'Accept', onPress: handleAccept } : undefined}
+        />
+
+        <View style={styles.toggle}>
+          {([1, 7] as const).map(option => (
+            <TouchableOpacity
+              key={option}
+              onPress={() => setDays(option)}
+              style={[styles.toggleOption, { backgroundColor: days === option ? theme.colors.primary : theme.colors.surfaceVariant }]}
+            >
+              <Text style={[styles.toggleText, { color: days === option ? 'white' : theme.colors.text }]}>
+                {option === 1 ? 'Today' : 'Week'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {days === 7 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.dayChips}>
+            {Array.from({ length: 7 }, (_, i) => dayStart(i)).map((date, i) => (
+              <TouchableOpacity
+                key={i}
+                onPress={() => setDayIndex(i)}
+                style={[styles.dayChip, { backgroundColor: dayIndex === i ? theme.colors.primary : theme.colors.surfaceVariant }]}
+              >
+                <Text style={[styles.dayChipText, { color: dayIndex === i ? 'white' : theme.colors.text }]}>
+                  {date.toLocaleDateString([], { weekday: 'short', day: 'numeric' })}
+                </Text>
+                <Text style={[styles.dayChipCount, { color: dayIndex === i ? 'white' : theme.colors.textSecondary }]}>
+                  {plan?.blocks.filter(block => sameDay(block.start, date)).length || 0}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
+
+        {loading || accepting ? (
+          <ActivityIndicator size="large" color={theme.colors.primary} style={styles.loader} />
+        ) : (
+          <>
+            <Card style={styles.timelineCard}>
+              <View style={{ height: hours.length * 60 * PX_PER_MINUTE }}>
+                {hours.map(hour => (
+                  <View key={hour} style={[styles.hourRow, { top: (hour - TIMELINE_START) * 60 * PX_PER_MINUTE }]}>
+                    <Text
+                      style={[
+                        styles.hourLabel,
+                        { color: peakHours.includes(hour) ? theme.colors.warning : theme.colors.textTertiary },
+                      ]}
+                    >
+                      {formatTime(new Date(2000, 0, 1, hour))}
+                    </Text>
+                    <View style={[styles.hourLine, { backgroundColor: theme.colors.border }]} />
+                  </View>
+                ))}
+                <View style={styles.lane}>
+                  {events.map(event => {
+                    const start = new Date(event.start);
+                    const end = new Date(event.end);
+                    return (
+                      <View
+                        key={event.id}
+                        style={[
+                          styles.event,
+                          {
+                            top: Math.max(0, offsetOf(start)),
+                            height: Math.max(((end.getTime() - start.getTime()) / MINUTE) * PX_PER_MINUTE, 20),
+                            backgroundColor: theme.colors.surfaceVariant,
+                          },
+                        ]}
+                      >
+                        <Text style={[styles.eventTitle, { color: theme.colors.textSecondary }]} numberOfLines={1}>
+                          {event.title}
+                        </Text>
+                      </View>
+                    );
+                  })}
+                  {blocks.map(block => (
+                    <DraggableBlock key={block.taskId} block={block} onDrop={handleDrop} onDragging={setDragging} />
+                  ))}
+                </View>
+              </View>
+            </Card>
+
+            {plan && plan.unscheduled.length > 0 && (
+              <View style={styles.section}>
+                <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+                  Not planned ({plan.unscheduled.length})
+                </Text>
+                <Card style={styles.sectionContent}>
+                  {plan.unscheduled.map((task, index) => (
+                    <View key={task.id} style={[styles.item, index === plan.unscheduled.length - 1 && styles.lastItem]}>
+                      <View style={[styles.priorityDot, { backgroundColor: PRIORITY_COLORS[task.priority] }]} />
+                      <Text style={[styles.itemTitle, { color: theme.colors.text }]} numberOfLines={1}>
+                        {task.title}
+                      </Text>
+                    </View>
+                  ))}
+                </Card>
+              </View>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingTop: 8,
+  },
+  backText: {
+    fontSize: 16,
+    fontFamily: 'Inter-Medium',
+  },
+  loader: {
+    marginTop: 40,
+  },
+  toggle: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 20,
+    marginBottom: 12,
+  },
+  toggleOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 12,
+  },
+  toggleText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+  },
+  dayChips: {
+    gap: 8,
+    paddingHorizontal: 20,
+    marginBottom: 12,
+  },
+  dayChip: {
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 12,
+  },
+  dayChipText: {
+    fontSize: 13,
+    fontFamily: 'Inter-Medium',
+  },
+  dayChipCount: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    marginTop: 2,
+  },
+  timelineCard: {
+    marginHorizontal: 20,
+    marginBottom: 24,
+    paddingVertical: 12,
+  },
+  hourRow: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  hourLabel: {
+    width: 52,
+    fontSize: 11,
+    fontFamily: 'Inter-Regular',
+    marginTop: -6,
+  },
+  hourLine: {
+    flex: 1,
+    height: StyleSheet.hairlineWidth,
+  },
+  lane: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    left: 56,
+    right: 0,
+  },
+  event: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    opacity: 0.8,
+  },
+  eventTitle: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+  },
+  block: {
+    position: 'absolute',
+    left: 8,
+    right: 0,
+    borderRadius: 8,
+    borderLeftWidth: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    shadowColor: '#000',
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    shadowOffset: { width: 0, height: 2 },
+    elevation: 2,
+  },
+  blockHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  blockTitle: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+  },
+  blockTime: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    marginTop: 2,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    paddingHorizontal: 20,
+    marginBottom: 12,
+  },
+  sectionContent: {
+    marginHorizontal: 20,
+    paddingVertical: 4,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0, 0, 0, 0.05)',
+  },
+  lastItem: {
+    borderBottomWidth: 0,
+  },
+  priorityDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  itemTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontFamily: 'Inter-Medium',
+  },
+});
@@ -0,0 +1,316 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Trash2, RotateCcw, X, ChevronLeft } from 'lucide-react-native';
+import { router } from 'expo-router';
+import { useTheme } from '@/context/ThemeContext';
+import { useAuth } from '@/context/AuthContext';
+import PageHeader from '@/components/PageHeader';
+import Card from '@/components/ui/Card';
+import { DatabaseService, TRASH_RETENTION_DAYS } from '@/lib/services/databaseService';
+import { syncService } from '@/lib/services/syncService';
+import { TrashContents, TrashEntity } from '@/lib/types';
+
+interface TrashRow {
+  entity: TrashEntity;
+  id: string;
+  title: string;
+  subtitle: string;
+  deletedAt: string;
+}
+
+function daysLeft(deletedAt: string): number {
+  const elapsedDays = (Date.now() - new Date(deletedAt).getTime()) / (1000 * 60 * 60 * 24);
+  return Math.max(0, Math.ceil(TRASH_RETENTION_DAYS - elapsedDays));
+}
+
+function toRows(trash: TrashContents): { title: string; rows: TrashRow[] }[] {
+  return [
+    {
+      title: 'Tasks',
+      rows: trash.tasks.map(task => ({
+        entity: 'task' as const,
+        id: task.id,
+        title: task.title,
+        subtitle: task.category,
+        deletedAt: task.deleted_at!,
+      })),
+    },
+    {
+      title: 'Suggestions',
+      rows: trash.suggestions.map(suggestion => ({
+        entity: 'suggestion' as const,
+        id: suggestion.id,
+        title: suggestion.title,
+        subtitle: suggestion.category,
+        deletedAt: suggestion.deleted_at!,
+      })),
+    },
+    {
+      title: 'Feedback',
+      rows: trash.feedback.map(feedback => ({
+        entity: 'feedback' as const,
+        id: feedback.id,
+        title: feedback.feedback_type === 'positive' ? 'Positive feedback' : 'Negative feedback',
+        subtitle: feedback.reason || 'No reason given',
+        deletedAt: feedback.deleted_at!,
+      })),
+    },
+  ];
+}
+
+export default function TrashScreen() {
+  const { theme } = useTheme();
+  const { user } = useAuth();
+  const [trash, setTrash] = useState<TrashContents>({ tasks: [], suggestions: [], feedback: [] });
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadTrash = async () => {
+    if (!user?.id) return;
+    try {
+      setLoading(true);
+      await DatabaseService.purgeExpiredTrash(user.id);
+      setTrash(await DatabaseService.getTrash(user.id));
+    } catch (error) {
+      console.error('Error loading trash:', error);
+      Alert.alert('Error', 'Failed to load trash');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTrash();
+  }, [user?.id]);
+
+  const handleRestore = async (row: TrashRow) => {
+    try {
+      setBusyId(row.id);
+      await DatabaseService.restoreFromTrash(row.entity, row.id);
+      await syncService.trackChange(row.entity, 'update', row.id);
+      await loadTrash();
+    } catch (error) {
+      console.error('Error restoring item:', error);
+      Alert.alert('Error', 'Failed to restore item');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = (row: TrashRow) => {
+    Alert.alert(
+      'Delete Forever',
+      `"${row.title}" will be permanently deleted. This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setBusyId(row.id);
+              await DatabaseService.purgeFromTrash(row.entity, row.id);
+              await syncService.trackChange(row.entity, 'delete', row.id);
+              await loadTrash();
+            } catch (error) {
+              console.error('Error purging item:', error);
+              Alert.alert('Error', 'Failed to delete item');
+            } finally {
+              setBusyId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleRestoreAll = async () => {
+    if (!user?.id) return;
+    const startedAt = new Date().toISOString();
+    await DatabaseService.restoreAllFromTrash(user.id);
+    await syncService.trackChangesSince(user.id, startedAt);
+    await loadTrash();
+  };
+
+  const handleEmptyTrash = () => {
+    if (!user?.id) return;
+    Alert.alert(
+      'Empty Trash',
+      'All items in the trash will be permanently deleted. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Empty Trash',
+          style: 'destructive',
+          onPress: async () => {
+            await DatabaseService.emptyTrash(user.id);
+            await loadTrash();
+          },
+        },
+      ]
+    );
+  };
+
+  const sections = toRows(trash).filter(section => section.rows.length > 0);
+  const isEmpty = sections.length === 0;
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+        <ChevronLeft size={20} color={theme.colors.primary} />
+        <Text style={[styles.backText, { color: theme.colors.primary }]}>Settings</Text>
+      </TouchableOpacity>
+      <ScrollView showsVerticalScrollIndicator={false}>
+        <PageHeader
+          icon={Trash2}
+          title="Trash"
+          subtitle={`Items are deleted after ${TRASH_RETENTION_DAYS} days`}
+          actionButton={isEmpty ? undefined : { text: 'Empty', onPress: handleEmptyTrash, variant: 'secondary' }}
+        />
+
+        {loading ? (
+          <ActivityIndicator size="large" color={theme.colors.primary} style={styles.loader} />
+        ) : isEmpty ? (
+          <View style={styles.emptyState}>
+            <Trash2 size={48} color={theme.colors.textTertiary} />
+            <Text style={[styles.emptyText, { color: theme.colors.textSecondary }]}>Trash is empty</Text>
+          </View>
+        ) : (
+          <>
+            <TouchableOpacity onPress={handleRestoreAll} style={styles.restoreAll}>
+              <RotateCcw size={16} color={theme.colors.primary} />
+              <Text style={[styles.restoreAllText, { color: theme.colors.primary }]}>Restore all</Text>
+            </TouchableOpacity>
+            {sections.map(section => (
+              <View key={section.title} style={styles.section}>
+                <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+                  {section.title} ({section.rows.length})
+                </Text>
+                <Card style={styles.sectionContent}>
+                  {section.rows.map((row, index) => (
+                    <View
+                      key={`${row.entity}-${row.id}`}
+                      style={[styles.item, index === section.rows.length - 1 && styles.lastItem]}
+                    >
+                      <View style={styles.itemText}>
+                        <Text style={[styles.itemTitle, { color: theme.colors.text }]} numberOfLines={1}>
+                          {row.title}
+                        </Text>
+                        <Text style={[styles.itemSubtitle, { color: theme.colors.textSecondary }]} numberOfLines={1}>
+                          {row.subtitle} • {daysLeft(row.deletedAt)} days left
+                        </Text>
+                      </View>
+                      {busyId === row.id ? (
+                        <ActivityIndicator size="small" color={theme.colors.primary} />
+                      ) : (
+                        <View style={styles.itemActions}>
+                          <TouchableOpacity onPress={() => handleRestore(row)} style={styles.iconButton}>
+                            <RotateCcw size={18} color={theme.colors.success} />
+                          </TouchableOpacity>
+                          <TouchableOpacity onPress={() => handlePurge(row)} style={styles.iconButton}>
+                            <X size={18} color={theme.colors.error} />
+                          </TouchableOpacity>
+                        </View>
+                      )}
+                    </View>
+                  ))}
+                </Card>
+              </View>
+            ))}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingTop: 8,
+  },
+  backText: {
+    fontSize: 16,
+    fontFamily: 'Inter-Medium',
+  },
+  loader: {
+    marginTop: 40,
+  },
+  emptyState: {
+    alignItems: 'center',
+    marginTop: 60,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 16,
+    fontFamily: 'Inter-Medium',
+  },
+  restoreAll: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-end',
+    gap: 6,
+    paddingHorizontal: 20,
+    marginBottom: 12,
+  },
+  restoreAllText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    paddingHorizontal: 20,
+    marginBottom: 12,
+  },
+  sectionContent: {
+    marginHorizontal: 20,
+    paddingVertical: 4,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0, 0, 0, 0.05)',
+  },
+  lastItem: {
+    borderBottomWidth: 0,
+  },
+  itemText: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontSize: 16,
+    fontFamily: 'Inter-Medium',
+  },
+  itemSubtitle: {
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+    marginTop: 2,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  iconButton: {
+    padding: 8,
+  },
+});
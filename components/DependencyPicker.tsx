@@ -0,0 +1,136 @@
+import React from 'react';
+import { View, Text, Modal, ScrollView, TouchableOpacity, StyleSheet } from 'react-native';
+import { Circle, CircleCheck as CheckCircle2, X } from 'lucide-react-native';
+import { useTheme } from '../context/ThemeContext';
+import { DependencyService } from '../lib/services/dependencyService';
+import { TaskListItem } from '../lib/types';
+
+interface DependencyPickerProps {
+  task: TaskListItem | null; // the task whose blockers are edited; hidden when null
+  tasks: TaskListItem[];
+  onToggle: (blockerId: string) => void;
+  onClose: () => void;
+}
+
+export default function DependencyPicker({ task, tasks, onToggle, onClose }: DependencyPickerProps) {
+  const { theme } = useTheme();
+  if (!task) return null;
+
+  const candidates = tasks.filter(other => other.id !== task.id && (!other.completed || task.blocked_by?.includes(other.id)));
+
+  return (
+    <Modal visible transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={[styles.sheet, { backgroundColor: theme.colors.surface }]}>
+          <View style={styles.header}>
+            <View style={styles.headerText}>
+              <Text style={[styles.title, { color: theme.colors.text }]}>Blocked by</Text>
+              <Text style={[styles.subtitle, { color: theme.colors.textSecondary }]} numberOfLines={1}>
+                {task.title}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.close}>
+              <X size={20} color={theme.colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView>
+            {candidates.length === 0 && (
+              <Text style={[styles.empty, { color: theme.colors.textSecondary }]}>No other open tasks</Text>
+            )}
+            {candidates.map(other => {
+              const selected = !!task.blocked_by?.includes(other.id);
+              const loops = !selected && DependencyService.wouldCreateCycle(tasks, task.id, other.id);
+              return (
+                <TouchableOpacity
+                  key={other.id}
+                  disabled={loops}
+                  onPress={() => onToggle(other.id)}
+                  style={[styles.row, { borderBottomColor: theme.colors.border }]}
+                >
+                  {selected ? (
+                    <CheckCircle2 size={20} color={theme.colors.primary} />
+                  ) : (
+                    <Circle size={20} color={loops ? theme.colors.border : theme.colors.textTertiary} />
+                  )}
+                  <View style={styles.rowText}>
+                    <Text
+                      style={[styles.rowTitle, { color: loops ? theme.colors.textTertiary : theme.colors.text }]}
+                      numberOfLines={1}
+                    >
+                      {other.title}
+                    </Text>
+                    {loops && (
+                      <Text style={[styles.rowHint, { color: theme.colors.textTertiary }]}>Already waits on this task</Text>
+                    )}
+                    {other.completed && (
+                      <Text style={[styles.rowHint, { color: theme.colors.success }]}>Done</Text>
+                    )}
+                  </View>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    maxHeight: '70%',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontFamily: 'Inter-SemiBold',
+  },
+  subtitle: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    marginTop: 2,
+  },
+  close: {
+    padding: 6,
+  },
+  empty: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    paddingVertical: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontFamily: 'Inter-Regular',
+  },
+  rowHint: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    marginTop: 2,
+  },
+});
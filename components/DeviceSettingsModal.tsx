@@ -14,7 +14,13 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { X, Smartphone, Wifi, Battery, Settings, AlertTriangle, CheckCircle, Clock, Volume2, Eye, Zap } from 'lucide-react-native';
 import { useTheme } from '@/context/ThemeContext';
-import DeviceManagementService, { DeviceInfo, DevicePreferences, DeviceConflict } from '@/lib/services/deviceManagementService';
+import DeviceManagementService, { DeviceInfo, DevicePreferences, DeviceConflict, QuietWindow } from '@/lib/services/deviceManagementService';
+import { digestScheduler } from '@/lib/services/digestService';
+import { reminderRegistry } from '@/lib/services/reminderRegistry';
+import { useAuth } from '@/context/AuthContext';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const FOCUS_MINUTES = [30, 60, 120];
 
 interface DeviceSettingsModalProps {
   visible: boolean;
@@ -23,11 +29,13 @@ interface DeviceSettingsModalProps {
 
 export default function DeviceSettingsModal({ visible, onClose }: DeviceSettingsModalProps) {
   const { theme } = useTheme();
+  const { user } = useAuth();
   const [deviceInfo, setDeviceInfo] = useState<DeviceInfo | null>(null);
   const [preferences, setPreferences] = useState<DevicePreferences | null>(null);
   const [conflicts, setConflicts] = useState<DeviceConflict[]>([]);
   const [loading, setLoading] = useState(false);
   const [activeTab, setActiveTab] = useState<'general' | 'sync' | 'notifications' | 'voice' | 'accessibility' | 'conflicts'>('general');
+  const [quietDay, setQuietDay] = useState<number | null>(null); // weekday being edited, null for every day
 
   const deviceService = DeviceManagementService.getInstance();
 
@@ -58,20 +66,45 @@ export default function DeviceSettingsModal({ visible, onClose }: DeviceSettings
   const updatePreference = async (key: string, value: any) => {
     if (!preferences) return;
 
-    const updates: Partial<DevicePreferences> = {};
+    // Copy the path down to the changed field so its sibling settings are kept
     const keys = key.split('.');
-    let current: any = updates;
+    const updated: any = { ...preferences };
+    let current: any = updated;
     
     for (let i = 0; i < keys.length - 1; i++) {
-      current[keys[i]] = {};
+      current[keys[i]] = { ...current[keys[i]] };
       current = current[keys[i]];
     }
     current[keys[keys.length - 1]] = value;
 
-    await deviceService.updateDevicePreferences(updates);
+    await deviceService.updateDevicePreferences({ [keys[0]]: updated[keys[0]] });
     setPreferences(deviceService.getDevicePreferences());
   };
 
+  // Notifications already scheduled move to fit the new quiet hours
+  const rescheduleReminders = () => {
+    if (!user) return;
+    reminderRegistry.reschedule(user.id).catch(error => console.error('Failed to reschedule reminders:', error));
+    digestScheduler.refresh(user.id).catch(error => console.error('Failed to reschedule digests:', error));
+  };
+
+  const updateNotificationPreference = async (key: string, value: any) => {
+    await updatePreference(key, value);
+    rescheduleReminders();
+  };
+
+  const setQuietWindow = (day: number, window: QuietWindow | null | undefined) => {
+    const weekdays = { ...preferences?.notifications.quietHours.weekdays };
+    if (window === undefined) delete weekdays[day];
+    else weekdays[day] = window;
+    return updateNotificationPreference('notifications.quietHours.weekdays', weekdays);
+  };
+
+  const startFocus = (minutes: number | null) => {
+    const until = minutes ? new Date(Date.now() + minutes * 60 * 1000).toISOString() : undefined;
+    return updateNotificationPreference('notifications.focusUntil', until);
+  };
+
   const resolveConflict = async (conflict: DeviceConflict, resolution: 'local' | 'remote' | 'merge') => {
     try {
       await deviceService.resolveConflict(conflict.id, resolution);
@@ -287,6 +320,11 @@ export default function DeviceSettingsModal({ visible, onClose }: DeviceSettings
     </View>
   );
 
+  const focusUntil =
+    preferences?.notifications.focusUntil && new Date(preferences.notifications.focusUntil) > new Date()
+      ? new Date(preferences.notifications.focusUntil)
+      : null;
+
   const renderNotificationsTab = () => (
     <View style={styles.tabContent}>
       <View style={[styles.section, { backgroundColor: theme.colors.card }]}>
@@ -296,7 +334,7 @@ export default function DeviceSettingsModal({ visible, onClose }: DeviceSettings
           <Text style={[styles.settingLabel, { color: theme.colors.text }]}>Enable Notifications</Text>
           <Switch
             value={preferences?.notifications.enabled || false}
-            onValueChange={(value) => updatePreference('notifications.enabled', value)}
+            onValueChange={(value) => updateNotificationPreference('notifications.enabled', value)}
             trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
           />
         </View>
@@ -319,37 +357,151 @@ export default function DeviceSettingsModal({ visible, onClose }: DeviceSettings
           />
         </View>
 
+        <View style={styles.settingRow}>
+          <Text style={[styles.settingLabel, { color: theme.colors.text }]}>Focus</Text>
+          <View style={styles.optionGroup}>
+            {FOCUS_MINUTES.map((minutes) => (
+              <TouchableOpacity key={minutes} style={styles.optionButton} onPress={() => startFocus(minutes)}>
+                <Text style={[styles.optionText, { color: theme.colors.text }]}>
+                  {minutes < 60 ? `${minutes}m` : `${minutes / 60}h`}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {focusUntil && (
+          <View style={styles.settingRow}>
+            <Text style={[styles.settingDescription, { color: theme.colors.textSecondary }]}>
+              Holding notifications until {focusUntil.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </Text>
+            <TouchableOpacity onPress={() => startFocus(null)}>
+              <Text style={[styles.optionText, { color: theme.colors.primary }]}>End focus</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         <View style={styles.settingRow}>
           <Text style={[styles.settingLabel, { color: theme.colors.text }]}>Quiet Hours</Text>
           <Switch
             value={preferences?.notifications.quietHours.enabled || false}
-            onValueChange={(value) => updatePreference('notifications.quietHours.enabled', value)}
+            onValueChange={(value) => updateNotificationPreference('notifications.quietHours.enabled', value)}
             trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
           />
         </View>
 
         {preferences?.notifications.quietHours.enabled && (
+          <>
+            <View style={styles.weekdayRow}>
+              {WEEKDAYS.map((label, day) => {
+                const override = preferences.notifications.quietHours.weekdays?.[day];
+                const selected = quietDay === day;
+                return (
+                  <TouchableOpacity
+                    key={label}
+                    onPress={() => setQuietDay(selected ? null : day)}
+                    style={[
+                      styles.weekdayButton,
+                      { borderColor: override !== undefined ? theme.colors.primary : '#e0e0e0' },
+                      selected && { backgroundColor: theme.colors.primary },
+                    ]}
+                  >
+                    <Text
+                      style={[
+                        styles.optionText,
+                        { color: selected ? 'white' : theme.colors.text },
+                        override === null && styles.weekdayOff,
+                      ]}
+                    >
+                      {label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            {quietDay === null ? (
+              <View style={styles.timeRow}>
+                <TextInput
+                  style={[styles.timeInput, { color: theme.colors.text, borderColor: theme.colors.border }]}
+                  value={preferences.notifications.quietHours.start}
+                  onChangeText={(value) => updatePreference('notifications.quietHours.start', value)}
+                  onEndEditing={rescheduleReminders}
+                  placeholder="22:00"
+                  placeholderTextColor={theme.colors.muted}
+                />
+                <Text style={[styles.timeLabel, { color: theme.colors.text }]}>to</Text>
+                <TextInput
+                  style={[styles.timeInput, { color: theme.colors.text, borderColor: theme.colors.border }]}
+                  value={preferences.notifications.quietHours.end}
+                  onChangeText={(value) => updatePreference('notifications.quietHours.end', value)}
+                  onEndEditing={rescheduleReminders}
+                  placeholder="08:00"
+                  placeholderTextColor={theme.colors.muted}
+                />
+                <Text style={[styles.settingDescription, { color: theme.colors.textSecondary }]}>Every day</Text>
+              </View>
+            ) : (
+              renderQuietDay(quietDay)
+            )}
+
+            <View style={styles.settingRow}>
+              <Text style={[styles.settingLabel, { color: theme.colors.text }]}>High-priority tasks break through</Text>
+              <Switch
+                value={preferences.notifications.quietHours.allowHighPriority || false}
+                onValueChange={(value) => updateNotificationPreference('notifications.quietHours.allowHighPriority', value)}
+                trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+              />
+            </View>
+          </>
+        )}
+      </View>
+    </View>
+  );
+
+  const renderQuietDay = (day: number) => {
+    const quietHours = preferences!.notifications.quietHours;
+    const override = quietHours.weekdays?.[day];
+    const window = override || { start: quietHours.start, end: quietHours.end };
+    return (
+      <>
+        <View style={styles.settingRow}>
+          <Text style={[styles.settingLabel, { color: theme.colors.text }]}>Quiet on {WEEKDAYS[day]} night</Text>
+          <Switch
+            value={override !== null}
+            onValueChange={(value) => setQuietWindow(day, value ? undefined : null)}
+            trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+          />
+        </View>
+        {override !== null && (
           <View style={styles.timeRow}>
             <TextInput
               style={[styles.timeInput, { color: theme.colors.text, borderColor: theme.colors.border }]}
-              value={preferences.notifications.quietHours.start}
-              onChangeText={(value) => updatePreference('notifications.quietHours.start', value)}
-              placeholder="22:00"
-              placeholderTextColor={theme.colors.muted}
+              value={window.start}
+              onChangeText={(value) => updatePreference('notifications.quietHours.weekdays', { ...quietHours.weekdays, [day]: { ...window, start: value } })}
+              onEndEditing={rescheduleReminders}
+              placeholder={quietHours.start}
+              placeholderTextColor={theme.colors.textTertiary}
             />
             <Text style={[styles.timeLabel, { color: theme.colors.text }]}>to</Text>
             <TextInput
               style={[styles.timeInput, { color: theme.colors.text, borderColor: theme.colors.border }]}
-              value={preferences.notifications.quietHours.end}
-              onChangeText={(value) => updatePreference('notifications.quietHours.end', value)}
-              placeholder="08:00"
-              placeholderTextColor={theme.colors.muted}
+              value={window.end}
+              onChangeText={(value) => updatePreference('notifications.quietHours.weekdays', { ...quietHours.weekdays, [day]: { ...window, end: value } })}
+              onEndEditing={rescheduleReminders}
+              placeholder={quietHours.end}
+              placeholderTextColor={theme.colors.textTertiary}
             />
+            {override && (
+              <TouchableOpacity onPress={() => setQuietWindow(day, undefined)}>
+                <Text style={[styles.optionText, { color: theme.colors.primary }]}>Use default</Text>
+              </TouchableOpacity>
+            )}
           </View>
         )}
-      </View>
-    </View>
-  );
+      </>
+    );
+  };
 
   const renderVoiceTab = () => (
     <View style={styles.tabContent}>
@@ -726,6 +878,24 @@ const styles = StyleSheet.create({
   timeLabel: {
     fontSize: 16,
   },
+  settingDescription: {
+    fontSize: 14,
+    flexShrink: 1,
+  },
+  weekdayRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  weekdayButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    borderRadius: 6,
+    borderWidth: 1,
+  },
+  weekdayOff: {
+    textDecorationLine: 'line-through',
+  },
   sliderContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,283 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, Modal, ScrollView, TouchableOpacity, StyleSheet } from 'react-native';
+import { Coffee, Square, Star, Timer, X } from 'lucide-react-native';
+import { useTheme } from '../context/ThemeContext';
+import { focusSessionService, FocusSessionState, DEFAULT_FOCUS_SETTINGS } from '../lib/services/focusSessionService';
+import { FocusSettings } from '../lib/storage';
+import { TaskListItem } from '../lib/types';
+
+interface FocusSessionBarProps {
+  userId: string;
+  tasks: TaskListItem[]; // open tasks to pick from, best first
+  onChange?: (session: FocusSessionState | null) => void; // a session started, moved on to a new phase or ended
+}
+
+const OPTIONS: Array<{ key: keyof FocusSettings; label: string; values: number[]; unit: string }> = [
+  { key: 'workMinutes', label: 'Focus', values: [15, 25, 45, 50], unit: 'm' },
+  { key: 'shortBreakMinutes', label: 'Break', values: [0, 5, 10], unit: 'm' },
+  { key: 'longBreakMinutes', label: 'Long break', values: [15, 20, 30], unit: 'm' },
+  { key: 'cycles', label: 'Cycles', values: [2, 4, 6, 8], unit: '' },
+];
+
+const PHASE_LABELS = { work: 'Focus', shortBreak: 'Break', longBreak: 'Long break' };
+
+function formatCountdown(ms: number): string {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+export default function FocusSessionBar({ userId, tasks, onChange }: FocusSessionBarProps) {
+  const { theme } = useTheme();
+  const [session, setSession] = useState<FocusSessionState | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [picking, setPicking] = useState(false);
+  const [settings, setSettings] = useState<FocusSettings>(DEFAULT_FOCUS_SETTINGS);
+
+  const show = (next: FocusSessionState | null) => {
+    setSession(next);
+    setNow(Date.now());
+    onChange?.(next);
+  };
+
+  const refresh = () => focusSessionService.current().then(show).catch(error => console.error('Error loading focus session:', error));
+
+  useEffect(() => {
+    refresh();
+    focusSessionService.getSettings().then(setSettings).catch(error => console.error('Error loading focus settings:', error));
+  }, [userId]);
+
+  // Tick once a second, moving on when the phase is over
+  useEffect(() => {
+    if (!session) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [session]);
+
+  useEffect(() => {
+    if (session && now >= session.phase.end.getTime()) refresh();
+  }, [now]);
+
+  const start = async (task: TaskListItem) => {
+    setPicking(false);
+    try {
+      await focusSessionService.saveSettings(settings);
+      show(await focusSessionService.start(userId, task, settings));
+    } catch (error) {
+      console.error('Error starting focus session:', error);
+    }
+  };
+
+  const end = async () => {
+    try {
+      await focusSessionService.end();
+      show(null);
+    } catch (error) {
+      console.error('Error ending focus session:', error);
+    }
+  };
+
+  if (!session) {
+    return (
+      <View style={[styles.bar, { backgroundColor: theme.colors.surface }]}>
+        <TouchableOpacity onPress={() => setPicking(true)} style={styles.startButton}>
+          <Star size={18} color={theme.colors.primary} />
+          <Text style={[styles.startText, { color: theme.colors.primary }]}>Start Focus Session</Text>
+        </TouchableOpacity>
+
+        <Modal visible={picking} transparent animationType="slide" onRequestClose={() => setPicking(false)}>
+          <View style={styles.backdrop}>
+            <View style={[styles.sheet, { backgroundColor: theme.colors.surface }]}>
+              <View style={styles.header}>
+                <Text style={[styles.title, { color: theme.colors.text }]}>Focus session</Text>
+                <TouchableOpacity onPress={() => setPicking(false)} style={styles.close}>
+                  <X size={20} color={theme.colors.textSecondary} />
+                </TouchableOpacity>
+              </View>
+
+              {OPTIONS.map(option => (
+                <View key={option.key} style={styles.optionRow}>
+                  <Text style={[styles.optionLabel, { color: theme.colors.textSecondary }]}>{option.label}</Text>
+                  <View style={styles.chips}>
+                    {option.values.map(value => {
+                      const selected = settings[option.key] === value;
+                      return (
+                        <TouchableOpacity
+                          key={value}
+                          onPress={() => setSettings({ ...settings, [option.key]: value })}
+                          style={[styles.chip, { backgroundColor: selected ? theme.colors.primary : theme.colors.surfaceVariant }]}
+                        >
+                          <Text style={[styles.chipText, { color: selected ? 'white' : theme.colors.text }]}>
+                            {value}
+                            {option.unit}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+              ))}
+              <Text style={[styles.hint, { color: theme.colors.textTertiary }]}>
+                Notifications wait until the session ends, apart from its own break reminders.
+              </Text>
+
+              <Text style={[styles.pickTitle, { color: theme.colors.text }]}>Pick a task</Text>
+              <ScrollView>
+                {tasks.length === 0 && (
+                  <Text style={[styles.hint, { color: theme.colors.textSecondary }]}>No open tasks</Text>
+                )}
+                {tasks.map(task => (
+                  <TouchableOpacity
+                    key={task.id}
+                    onPress={() => start(task)}
+                    style={[styles.taskRow, { borderBottomColor: theme.colors.border }]}
+                  >
+                    <Timer size={18} color={theme.colors.primary} />
+                    <Text style={[styles.taskTitle, { color: theme.colors.text }]} numberOfLines={1}>
+                      {task.title}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            </View>
+          </View>
+        </Modal>
+      </View>
+    );
+  }
+
+  const working = session.phase.kind === 'work';
+  return (
+    <View style={[styles.bar, { backgroundColor: working ? theme.colors.success : theme.colors.warning }]}>
+      {working ? <Timer size={18} color="white" /> : <Coffee size={18} color="white" />}
+      <View style={styles.readout}>
+        <Text style={styles.phase}>
+          {PHASE_LABELS[session.phase.kind]} · {session.phase.cycle}/{session.settings.cycles} ·{' '}
+          {formatCountdown(session.phase.end.getTime() - now)}
+        </Text>
+        <Text style={styles.task} numberOfLines={1}>
+          {session.taskTitle}
+        </Text>
+      </View>
+      <TouchableOpacity onPress={end} style={styles.endButton}>
+        <Square size={14} color="white" />
+        <Text style={styles.endText}>End</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 10,
+  },
+  startButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  startText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+  },
+  readout: {
+    flex: 1,
+  },
+  phase: {
+    color: 'white',
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    fontVariant: ['tabular-nums'],
+  },
+  task: {
+    color: 'white',
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+  },
+  endButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: 'rgba(0, 0, 0, 0.2)',
+  },
+  endText: {
+    color: 'white',
+    fontSize: 13,
+    fontFamily: 'Inter-Medium',
+  },
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    maxHeight: '80%',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontFamily: 'Inter-SemiBold',
+  },
+  close: {
+    padding: 6,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  optionLabel: {
+    width: 84,
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+  },
+  chips: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: 'Inter-Medium',
+  },
+  hint: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    marginBottom: 12,
+  },
+  pickTitle: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    marginBottom: 4,
+  },
+  taskRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  taskTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: 'Inter-Regular',
+  },
+});
@@ -0,0 +1,247 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, TextInput, ActivityIndicator, Alert, StyleSheet } from 'react-native';
+import { Crosshair, Bookmark } from 'lucide-react-native';
+import { useTheme } from '../context/ThemeContext';
+import { LocationReminder, SavedPlace } from '../lib/types';
+import { TypedStorage } from '../lib/storage';
+import { DatabaseUtils } from '../lib/database';
+import { LocationService } from '../lib/services/locationService';
+import { usePermissionsStore } from '../lib/permissionsStore';
+import PermissionPrompt from './PermissionPrompt';
+
+interface PlacePickerProps {
+  value: LocationReminder | null;
+  onChange: (reminder: LocationReminder | null) => void;
+}
+
+const RADII = [100, 200, 500, 1000];
+const DEFAULT_RADIUS = 200;
+
+const formatRadius = (meters: number) => (meters >= 1000 ? `${meters / 1000} km` : `${meters} m`);
+
+const samePlace = (place: SavedPlace, reminder: LocationReminder) =>
+  place.latitude === reminder.latitude && place.longitude === reminder.longitude;
+
+/**
+ * Picks the place for a location reminder without a map: the current position
+ * or a place saved earlier, with a radius and whether to fire on arrival or departure.
+ */
+export default function PlacePicker({ value, onChange }: PlacePickerProps) {
+  const { theme } = useTheme();
+  const [places, setPlaces] = useState<SavedPlace[]>([]);
+  const [locating, setLocating] = useState(false);
+  const [showLocationPrompt, setShowLocationPrompt] = useState(false);
+  const [placeName, setPlaceName] = useState('');
+
+  useEffect(() => {
+    TypedStorage.savedPlaces.get().then(setPlaces);
+  }, []);
+
+  const select = async (reminder: LocationReminder) => {
+    onChange(reminder);
+    if (!(await LocationService.requestBackgroundPermission())) {
+      Alert.alert(
+        'Location Access',
+        'Allow location access "Always" in Settings so this reminder can fire while the app is closed.'
+      );
+    }
+  };
+
+  const useCurrentLocation = async () => {
+    setLocating(true);
+    const location = await LocationService.getCurrentLocationWithPrompt(setShowLocationPrompt);
+    setLocating(false);
+    if (!location) return;
+    await select({
+      latitude: location.latitude,
+      longitude: location.longitude,
+      radius: value?.radius || DEFAULT_RADIUS,
+      placeName: location.placeName || location.address,
+      trigger: value?.trigger || 'enter',
+    });
+    setPlaceName(location.placeName || '');
+  };
+
+  const useSavedPlace = async (place: SavedPlace) => {
+    await select({
+      latitude: place.latitude,
+      longitude: place.longitude,
+      radius: place.radius,
+      placeName: place.name,
+      trigger: value?.trigger || 'enter',
+    });
+  };
+
+  const savePlace = async () => {
+    if (!value || !placeName.trim()) return;
+    const place: SavedPlace = {
+      id: DatabaseUtils.generateId(),
+      name: placeName.trim(),
+      latitude: value.latitude,
+      longitude: value.longitude,
+      radius: value.radius,
+    };
+    await TypedStorage.savedPlaces.add(place);
+    setPlaces(current => [...current, place]);
+    onChange({ ...value, placeName: place.name });
+  };
+
+  const removePlace = (place: SavedPlace) => {
+    Alert.alert('Remove Place', `Remove "${place.name}" from your saved places?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          await TypedStorage.savedPlaces.remove(place.id);
+          setPlaces(current => current.filter(p => p.id !== place.id));
+        },
+      },
+    ]);
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void, onLongPress?: () => void) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      onLongPress={onLongPress}
+      style={[
+        styles.chip,
+        {
+          backgroundColor: selected ? theme.colors.primary : theme.colors.surfaceVariant,
+          borderColor: theme.colors.primary,
+        },
+      ]}
+    >
+      <Text style={[styles.chipText, { color: selected ? 'white' : theme.colors.text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const isSaved = !!value && places.some(place => samePlace(place, value));
+
+  return (
+    <View>
+      <View style={styles.chipRow}>
+        {renderChip('none', 'None', !value, () => onChange(null))}
+        <TouchableOpacity
+          onPress={useCurrentLocation}
+          disabled={locating}
+          style={[styles.chip, styles.iconChip, { backgroundColor: theme.colors.surfaceVariant, borderColor: theme.colors.primary }]}
+        >
+          {locating ? <ActivityIndicator size="small" color={theme.colors.primary} /> : <Crosshair size={14} color={theme.colors.primary} />}
+          <Text style={[styles.chipText, { color: theme.colors.text }]}>Current location</Text>
+        </TouchableOpacity>
+        {places.map(place =>
+          renderChip(place.id, place.name, !!value && samePlace(place, value), () => useSavedPlace(place), () => removePlace(place))
+        )}
+      </View>
+
+      {value && (
+        <>
+          <Text style={[styles.placeText, { color: theme.colors.textSecondary }]}>
+            {value.placeName || `${value.latitude.toFixed(4)}, ${value.longitude.toFixed(4)}`}
+          </Text>
+
+          <Text style={[styles.rowLabel, { color: theme.colors.textSecondary }]}>Remind me when I</Text>
+          <View style={styles.chipRow}>
+            {renderChip('enter', 'Arrive', value.trigger === 'enter', () => onChange({ ...value, trigger: 'enter' }))}
+            {renderChip('exit', 'Leave', value.trigger === 'exit', () => onChange({ ...value, trigger: 'exit' }))}
+          </View>
+
+          <Text style={[styles.rowLabel, { color: theme.colors.textSecondary }]}>Within</Text>
+          <View style={styles.chipRow}>
+            {RADII.map(radius =>
+              renderChip(String(radius), formatRadius(radius), value.radius === radius, () => onChange({ ...value, radius }))
+            )}
+          </View>
+
+          {!isSaved && (
+            <View style={styles.saveRow}>
+              <TextInput
+                value={placeName}
+                onChangeText={setPlaceName}
+                placeholder="Name this place"
+                placeholderTextColor={theme.colors.textTertiary}
+                style={[styles.nameInput, { color: theme.colors.text, borderColor: theme.colors.border }]}
+              />
+              <TouchableOpacity onPress={savePlace} disabled={!placeName.trim()} style={styles.saveButton}>
+                <Bookmark size={16} color={placeName.trim() ? theme.colors.primary : theme.colors.textTertiary} />
+                <Text style={[styles.chipText, { color: placeName.trim() ? theme.colors.primary : theme.colors.textTertiary }]}>
+                  Save
+                </Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </>
+      )}
+
+      <PermissionPrompt
+        visible={showLocationPrompt}
+        onClose={() => setShowLocationPrompt(false)}
+        permission="location"
+        title="Location Permission Required"
+        description="Allow access to your location to get reminded about tasks when you arrive at or leave a place."
+        onGrant={() => {
+          usePermissionsStore.getState().setPermission('location', 'granted');
+          useCurrentLocation();
+        }}
+        onDeny={() => usePermissionsStore.getState().setPermission('location', 'denied')}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+  },
+  iconChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  chipText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+  },
+  placeText: {
+    marginTop: 12,
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+  },
+  rowLabel: {
+    marginTop: 16,
+    marginBottom: 8,
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+  },
+  saveRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 16,
+  },
+  nameInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+  },
+  saveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    padding: 6,
+  },
+});
@@ -0,0 +1,258 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { Minus, Plus } from 'lucide-react-native';
+import { useTheme } from '../context/ThemeContext';
+import { RecurrenceRule } from '../lib/types';
+import { RecurrenceService } from '../lib/services/recurrenceService';
+
+interface RecurrencePickerProps {
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+  startDate: Date; // first occurrence, used for rule defaults
+}
+
+type Frequency = RecurrenceRule['frequency'];
+type EndMode = 'never' | 'until' | 'count';
+
+const FREQUENCIES: { key: Frequency | 'none'; label: string }[] = [
+  { key: 'none', label: 'Never' },
+  { key: 'daily', label: 'Daily' },
+  { key: 'weekly', label: 'Weekly' },
+  { key: 'monthly', label: 'Monthly' },
+];
+
+const UNITS: Record<Frequency, [string, string]> = {
+  daily: ['day', 'days'],
+  weekly: ['week', 'weeks'],
+  monthly: ['month', 'months'],
+};
+
+const WEEKDAY_LETTERS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+export default function RecurrencePicker({ value, onChange, startDate }: RecurrencePickerProps) {
+  const { theme } = useTheme();
+  const [showUntilPicker, setShowUntilPicker] = useState(false);
+
+  const endMode: EndMode = value?.until ? 'until' : value?.count ? 'count' : 'never';
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (value) onChange({ ...value, ...changes });
+  };
+
+  const selectFrequency = (frequency: Frequency | 'none') => {
+    if (frequency === 'none') {
+      onChange(null);
+      return;
+    }
+    onChange({
+      frequency,
+      interval: 1,
+      weekdays: frequency === 'weekly' ? [startDate.getDay()] : undefined,
+      monthDay: frequency === 'monthly' ? startDate.getDate() : undefined,
+      until: value?.until,
+      count: value?.count,
+    });
+  };
+
+  const toggleWeekday = (day: number) => {
+    const weekdays = value?.weekdays || [];
+    const next = weekdays.includes(day) ? weekdays.filter(d => d !== day) : [...weekdays, day].sort();
+    // A weekly rule needs at least one day
+    if (next.length > 0) update({ weekdays: next });
+  };
+
+  const selectEndMode = (mode: EndMode) => {
+    if (mode === 'never') update({ until: undefined, count: undefined });
+    if (mode === 'count') update({ until: undefined, count: value?.count || 10 });
+    if (mode === 'until') {
+      const until = new Date(startDate);
+      until.setMonth(until.getMonth() + 1);
+      update({ count: undefined, until: until.toISOString() });
+    }
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      style={[
+        styles.chip,
+        {
+          backgroundColor: selected ? theme.colors.primary : theme.colors.surfaceVariant,
+          borderColor: theme.colors.primary,
+        },
+      ]}
+    >
+      <Text style={[styles.chipText, { color: selected ? 'white' : theme.colors.text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderStepper = (label: string, amount: number, min: number, max: number, onStep: (next: number) => void) => (
+    <View style={styles.stepperRow}>
+      <Text style={[styles.rowLabel, { color: theme.colors.textSecondary }]}>{label}</Text>
+      <View style={styles.stepper}>
+        <TouchableOpacity onPress={() => onStep(Math.max(min, amount - 1))} style={styles.stepButton}>
+          <Minus size={16} color={theme.colors.primary} />
+        </TouchableOpacity>
+        <Text style={[styles.stepValue, { color: theme.colors.text }]}>{amount}</Text>
+        <TouchableOpacity onPress={() => onStep(Math.min(max, amount + 1))} style={styles.stepButton}>
+          <Plus size={16} color={theme.colors.primary} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <View>
+      <View style={styles.chipRow}>
+        {FREQUENCIES.map(option =>
+          renderChip(option.key, option.label, (value?.frequency || 'none') === option.key, () => selectFrequency(option.key))
+        )}
+      </View>
+
+      {value && (
+        <>
+          {renderStepper(
+            `Every ${value.interval} ${UNITS[value.frequency][value.interval === 1 ? 0 : 1]}`,
+            value.interval,
+            1,
+            99,
+            interval => update({ interval })
+          )}
+
+          {value.frequency === 'weekly' && (
+            <View style={styles.weekdayRow}>
+              {WEEKDAY_LETTERS.map((letter, day) => {
+                const selected = value.weekdays?.includes(day);
+                return (
+                  <TouchableOpacity
+                    key={day}
+                    onPress={() => toggleWeekday(day)}
+                    style={[
+                      styles.weekday,
+                      { backgroundColor: selected ? theme.colors.primary : theme.colors.surfaceVariant },
+                    ]}
+                  >
+                    <Text style={[styles.weekdayText, { color: selected ? 'white' : theme.colors.text }]}>{letter}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+
+          {value.frequency === 'monthly' &&
+            renderStepper(`On day ${value.monthDay || startDate.getDate()}`, value.monthDay || startDate.getDate(), 1, 31, monthDay =>
+              update({ monthDay })
+            )}
+
+          <Text style={[styles.rowLabel, styles.endsLabel, { color: theme.colors.textSecondary }]}>Ends</Text>
+          <View style={styles.chipRow}>
+            {renderChip('never', 'Never', endMode === 'never', () => selectEndMode('never'))}
+            {renderChip('until', 'On date', endMode === 'until', () => selectEndMode('until'))}
+            {renderChip('count', 'After', endMode === 'count', () => selectEndMode('count'))}
+          </View>
+
+          {endMode === 'until' && value.until && (
+            <TouchableOpacity onPress={() => setShowUntilPicker(true)}>
+              <Text style={[styles.untilText, { color: theme.colors.primary }]}>
+                Until {new Date(value.until).toLocaleDateString()}
+              </Text>
+            </TouchableOpacity>
+          )}
+          {showUntilPicker && value.until && (
+            <DateTimePicker
+              value={new Date(value.until)}
+              mode="date"
+              display="default"
+              minimumDate={startDate}
+              onChange={(_event: any, date?: Date) => {
+                setShowUntilPicker(false);
+                if (date) update({ until: date.toISOString() });
+              }}
+            />
+          )}
+
+          {endMode === 'count' &&
+            renderStepper(`${value.count} occurrences`, value.count || 1, 1, 999, count => update({ count }))}
+
+          <Text style={[styles.summary, { color: theme.colors.textSecondary }]}>
+            {RecurrenceService.describe(value)}
+          </Text>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 16,
+  },
+  rowLabel: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  stepButton: {
+    padding: 6,
+  },
+  stepValue: {
+    minWidth: 28,
+    textAlign: 'center',
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+  },
+  weekdayRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 16,
+  },
+  weekday: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  weekdayText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+  },
+  endsLabel: {
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  untilText: {
+    marginTop: 12,
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+  },
+  summary: {
+    marginTop: 16,
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+  },
+});
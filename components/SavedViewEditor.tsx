@@ -0,0 +1,299 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, Modal, ScrollView, TouchableOpacity, Switch, StyleSheet } from 'react-native';
+import { X } from 'lucide-react-native';
+import { useTheme } from '../context/ThemeContext';
+import { SmartFilterService } from '../lib/services/smartFilterService';
+import { SavedView, SavedViewInput, SmartFilterCondition, TaskListItem } from '../lib/types';
+
+interface SavedViewEditorProps {
+  visible: boolean;
+  view: SavedView | null; // null creates a new view
+  tasks: TaskListItem[]; // for the live match count and category/tag choices
+  onSave: (input: SavedViewInput) => void;
+  onDelete: (view: SavedView) => void;
+  onClose: () => void;
+}
+
+const FIXED_GROUPS: { title: string; conditions: SmartFilterCondition[] }[] = [
+  {
+    title: 'Status',
+    conditions: [
+      { field: 'status', value: 'pending' },
+      { field: 'status', value: 'completed' },
+    ],
+  },
+  {
+    title: 'Priority',
+    conditions: [
+      { field: 'priority', value: 'high' },
+      { field: 'priority', value: 'medium' },
+      { field: 'priority', value: 'low' },
+    ],
+  },
+  {
+    title: 'Dates',
+    conditions: [
+      { field: 'overdue', value: true },
+      { field: 'due_date', fromDays: 0, toDays: 0 },
+      { field: 'due_date', fromDays: 0, toDays: 7 },
+      { field: 'created_at', fromDays: -7, toDays: 0 },
+      { field: 'created_at', fromDays: -30, toDays: 0 },
+    ],
+  },
+  {
+    title: 'More',
+    conditions: [
+      { field: 'ai_suggested', value: true },
+      { field: 'has_reminder', value: true },
+    ],
+  },
+];
+
+export default function SavedViewEditor({ visible, view, tasks, onSave, onDelete, onClose }: SavedViewEditorProps) {
+  const { theme } = useTheme();
+  const [name, setName] = useState('');
+  const [combinator, setCombinator] = useState<'and' | 'or'>('and');
+  const [conditions, setConditions] = useState<SmartFilterCondition[]>([]);
+  const [pinned, setPinned] = useState(true);
+
+  useEffect(() => {
+    if (!visible) return;
+    setName(view?.name || '');
+    setCombinator(view?.combinator || 'and');
+    setConditions(view?.conditions || []);
+    setPinned(view?.pinned ?? true);
+  }, [visible, view]);
+
+  const categories = Array.from(new Set(tasks.map(t => t.category).filter(Boolean))).sort();
+  const tags = Array.from(new Set(tasks.flatMap(t => t.tags))).sort();
+  const presets = [
+    ...FIXED_GROUPS,
+    { title: 'Category', conditions: categories.map(value => ({ field: 'category', value }) as SmartFilterCondition) },
+    { title: 'Tags', conditions: tags.map(value => ({ field: 'tag', value }) as SmartFilterCondition) },
+  ];
+  // Conditions saved elsewhere (e.g. a tag no task uses any more) stay visible so they can be removed
+  const others = conditions.filter(
+    condition => !presets.some(group => group.conditions.some(preset => SmartFilterService.sameCondition(preset, condition)))
+  );
+  const groups = [...presets, { title: 'Saved conditions', conditions: others }].filter(group => group.conditions.length > 0);
+
+  const isSelected = (condition: SmartFilterCondition) =>
+    conditions.some(selected => SmartFilterService.sameCondition(selected, condition));
+
+  const toggleCondition = (condition: SmartFilterCondition) => {
+    setConditions(current =>
+      isSelected(condition)
+        ? current.filter(selected => !SmartFilterService.sameCondition(selected, condition))
+        : [...current, condition]
+    );
+  };
+
+  const matchCount = SmartFilterService.count(tasks, { combinator, conditions });
+  const canSave = name.trim().length > 0 && conditions.length > 0;
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={[styles.sheet, { backgroundColor: theme.colors.surface }]}>
+          <View style={styles.header}>
+            <Text style={[styles.title, { color: theme.colors.text }]}>{view ? 'Edit view' : 'New view'}</Text>
+            <TouchableOpacity onPress={onClose} style={styles.close}>
+              <X size={20} color={theme.colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <TextInput
+            style={[styles.nameInput, { color: theme.colors.text, borderColor: theme.colors.border }]}
+            placeholder="View name"
+            placeholderTextColor={theme.colors.textTertiary}
+            value={name}
+            onChangeText={setName}
+          />
+
+          <View style={styles.combinatorRow}>
+            {(['and', 'or'] as const).map(option => (
+              <TouchableOpacity
+                key={option}
+                onPress={() => setCombinator(option)}
+                style={[
+                  styles.combinatorBtn,
+                  {
+                    borderColor: theme.colors.border,
+                    backgroundColor: combinator === option ? theme.colors.primary : 'transparent',
+                  },
+                ]}
+              >
+                <Text style={[styles.chipText, { color: combinator === option ? 'white' : theme.colors.text }]}>
+                  {option === 'and' ? 'Match all' : 'Match any'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+            <Text style={[styles.matchCount, { color: theme.colors.textSecondary }]}>
+              {matchCount} {matchCount === 1 ? 'task' : 'tasks'}
+            </Text>
+          </View>
+
+          <ScrollView style={styles.groups}>
+            {groups.map(group => (
+              <View key={group.title} style={styles.group}>
+                <Text style={[styles.groupTitle, { color: theme.colors.textSecondary }]}>{group.title}</Text>
+                <View style={styles.chips}>
+                  {group.conditions.map(condition => {
+                    const selected = isSelected(condition);
+                    return (
+                      <TouchableOpacity
+                        key={JSON.stringify(condition)}
+                        onPress={() => toggleCondition(condition)}
+                        style={[
+                          styles.chip,
+                          {
+                            borderColor: theme.colors.border,
+                            backgroundColor: selected ? theme.colors.primary : 'transparent',
+                          },
+                        ]}
+                      >
+                        <Text style={[styles.chipText, { color: selected ? 'white' : theme.colors.text }]}>
+                          {SmartFilterService.describe(condition)}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            ))}
+          </ScrollView>
+
+          <View style={styles.pinRow}>
+            <Text style={[styles.pinText, { color: theme.colors.textSecondary }]}>Pin to home screen</Text>
+            <Switch value={pinned} onValueChange={setPinned} />
+          </View>
+
+          <View style={styles.actions}>
+            {view && (
+              <TouchableOpacity onPress={() => onDelete(view)} style={styles.deleteBtn}>
+                <Text style={[styles.actionText, { color: theme.colors.error }]}>Delete</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              disabled={!canSave}
+              onPress={() => onSave({ name: name.trim(), combinator, conditions, pinned })}
+              style={[styles.saveBtn, { backgroundColor: canSave ? theme.colors.primary : theme.colors.border }]}
+            >
+              <Text style={[styles.actionText, { color: 'white' }]}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    maxHeight: '85%',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    flex: 1,
+    fontSize: 18,
+    fontFamily: 'Inter-SemiBold',
+  },
+  close: {
+    padding: 6,
+  },
+  nameInput: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 15,
+    fontFamily: 'Inter-Regular',
+  },
+  combinatorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  combinatorBtn: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  matchCount: {
+    flex: 1,
+    textAlign: 'right',
+    fontSize: 13,
+    fontFamily: 'Inter-Medium',
+  },
+  groups: {
+    marginTop: 8,
+  },
+  group: {
+    marginTop: 12,
+  },
+  groupTitle: {
+    fontSize: 12,
+    fontFamily: 'Inter-SemiBold',
+    textTransform: 'uppercase',
+    marginBottom: 6,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: 'Inter-Medium',
+  },
+  pinRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 16,
+  },
+  pinText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 16,
+  },
+  deleteBtn: {
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  saveBtn: {
+    borderRadius: 12,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+  },
+  actionText: {
+    fontSize: 15,
+    fontFamily: 'Inter-SemiBold',
+  },
+});
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Switch, StyleSheet } from 'react-native';
+import { Circle, CircleCheck as CheckCircle2, ChevronUp, ChevronDown, X, Plus } from 'lucide-react-native';
+import { useTheme } from '../context/ThemeContext';
+
+export interface ChecklistItem {
+  id: string;
+  title: string;
+  completed: boolean;
+}
+
+interface SubtaskChecklistProps {
+  items: ChecklistItem[]; // in checklist order
+  requireAll: boolean;
+  onAdd: (title: string) => void;
+  onToggle: (id: string) => void;
+  onDelete: (id: string) => void;
+  onMove: (id: string, offset: -1 | 1) => void;
+  onRequireAllChange: (requireAll: boolean) => void;
+}
+
+export default function SubtaskChecklist({
+  items,
+  requireAll,
+  onAdd,
+  onToggle,
+  onDelete,
+  onMove,
+  onRequireAllChange,
+}: SubtaskChecklistProps) {
+  const { theme } = useTheme();
+  const [draft, setDraft] = useState('');
+
+  const handleAdd = () => {
+    const title = draft.trim();
+    if (!title) return;
+    onAdd(title);
+    setDraft('');
+  };
+
+  return (
+    <View>
+      {items.map((item, index) => (
+        <View key={item.id} style={styles.item}>
+          <TouchableOpacity onPress={() => onToggle(item.id)} style={styles.itemToggle}>
+            {item.completed ? (
+              <CheckCircle2 size={20} color={theme.colors.success} />
+            ) : (
+              <Circle size={20} color={theme.colors.textTertiary} />
+            )}
+            <Text
+              style={[
+                styles.itemTitle,
+                {
+                  color: item.completed ? theme.colors.textTertiary : theme.colors.text,
+                  textDecorationLine: item.completed ? 'line-through' : 'none',
+                },
+              ]}
+            >
+              {item.title}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity disabled={index === 0} onPress={() => onMove(item.id, -1)} style={styles.itemAction}>
+            <ChevronUp size={16} color={index === 0 ? theme.colors.border : theme.colors.textSecondary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            disabled={index === items.length - 1}
+            onPress={() => onMove(item.id, 1)}
+            style={styles.itemAction}
+          >
+            <ChevronDown size={16} color={index === items.length - 1 ? theme.colors.border : theme.colors.textSecondary} />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => onDelete(item.id)} style={styles.itemAction}>
+            <X size={16} color={theme.colors.error} />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <View style={[styles.addRow, { borderColor: theme.colors.border }]}>
+        <TextInput
+          style={[styles.addInput, { color: theme.colors.text }]}
+          placeholder="Add a step..."
+          placeholderTextColor={theme.colors.textTertiary}
+          value={draft}
+          onChangeText={setDraft}
+          onSubmitEditing={handleAdd}
+          returnKeyType="done"
+        />
+        <TouchableOpacity onPress={handleAdd} style={styles.itemAction}>
+          <Plus size={18} color={theme.colors.primary} />
+        </TouchableOpacity>
+      </View>
+
+      {items.length > 0 && (
+        <View style={styles.requireRow}>
+          <Text style={[styles.requireText, { color: theme.colors.textSecondary }]}>
+            Finish every step before completing the task
+          </Text>
+          <Switch value={requireAll} onValueChange={onRequireAllChange} />
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  itemToggle: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  itemTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: 'Inter-Regular',
+  },
+  itemAction: {
+    padding: 6,
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+    borderTopWidth: 1,
+    paddingTop: 8,
+  },
+  addInput: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: 'Inter-Regular',
+    paddingVertical: 4,
+  },
+  requireRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  requireText: {
+    flex: 1,
+    fontSize: 13,
+    fontFamily: 'Inter-Medium',
+    marginRight: 12,
+  },
+});
@@ -0,0 +1,300 @@
+import React from 'react';
+import { View, Text, Modal, ScrollView, TouchableOpacity, StyleSheet } from 'react-native';
+import { ChevronRight, X } from 'lucide-react-native';
+import { useTheme } from '../context/ThemeContext';
+import { SOURCE_LABELS } from '../lib/services/suggestionGenerators';
+import { ExplanationFactor, ExplanationSource, Suggestion } from '../lib/types';
+
+// Ranking factors first, then the confidence factors of a source pattern
+const FACTOR_LABELS: Record<string, string> = {
+  relevance: 'Confidence',
+  timing: 'Timing',
+  userPreference: 'Your feedback',
+  context: 'Fits the moment',
+  patternStrength: 'Pattern strength',
+  diversity: 'Variety',
+  frequency: 'How often',
+  recency: 'How recently',
+  consistency: 'Consistency',
+  userFeedback: 'Feedback',
+  dataQuality: 'Data quality',
+  contextRelevance: 'Relevance now',
+};
+
+interface SuggestionExplanationSheetProps {
+  suggestion: Suggestion | null; // hidden when null
+  onOpenPattern: (source: ExplanationSource) => void;
+  onClose: () => void;
+}
+
+export default function SuggestionExplanationSheet({ suggestion, onOpenPattern, onClose }: SuggestionExplanationSheetProps) {
+  const { theme } = useTheme();
+  if (!suggestion) return null;
+
+  const explanation = suggestion.explanation;
+
+  const renderFactors = (factors: ExplanationFactor[]) =>
+    factors.map(factor => (
+      <View key={factor.name} style={styles.factorRow}>
+        <Text style={[styles.factorName, { color: theme.colors.textSecondary }]}>
+          {FACTOR_LABELS[factor.name] || factor.name}
+        </Text>
+        <View style={[styles.bar, { backgroundColor: theme.colors.surfaceVariant }]}>
+          <View
+            style={[
+              styles.barFill,
+              { width: `${Math.round(Math.min(1, factor.value) * 100)}%`, backgroundColor: theme.colors.primary },
+            ]}
+          />
+        </View>
+        <Text style={[styles.factorWeight, { color: theme.colors.textTertiary }]}>
+          ×{Math.round(factor.weight * 100)}%
+        </Text>
+      </View>
+    ));
+
+  const sectionTitle = (title: string) => (
+    <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>{title}</Text>
+  );
+
+  return (
+    <Modal visible transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={[styles.sheet, { backgroundColor: theme.colors.surface }]}>
+          <View style={styles.header}>
+            <View style={styles.headerText}>
+              <Text style={[styles.title, { color: theme.colors.text }]}>Why am I seeing this?</Text>
+              <Text style={[styles.subtitle, { color: theme.colors.textSecondary }]} numberOfLines={1}>
+                {suggestion.title}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.close}>
+              <X size={20} color={theme.colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView>
+            {!!suggestion.reasoning && (
+              <Text style={[styles.reasoning, { color: theme.colors.textSecondary }]}>{suggestion.reasoning}</Text>
+            )}
+
+            {explanation && explanation.sources.length > 0 ? (
+              <>
+                {sectionTitle('Learned from')}
+                {explanation.sources.map(source => (
+                  <TouchableOpacity
+                    key={source.patternId}
+                    onPress={() => onOpenPattern(source)}
+                    style={[styles.source, { borderColor: theme.colors.border }]}
+                  >
+                    <View style={styles.sourceHeader}>
+                      <View style={styles.headerText}>
+                        <Text style={[styles.sourceType, { color: theme.colors.primary }]}>
+                          {SOURCE_LABELS[source.patternType] || source.patternType}
+                        </Text>
+                        <Text style={[styles.sourceLabel, { color: theme.colors.text }]} numberOfLines={2}>
+                          {source.label}
+                        </Text>
+                        <Text style={[styles.hint, { color: theme.colors.textTertiary }]}>
+                          {Math.round(source.confidence * 100)}% confident
+                          {source.reliability ? ` • ${source.reliability} reliability` : ''}
+                        </Text>
+                      </View>
+                      <ChevronRight size={18} color={theme.colors.textTertiary} />
+                    </View>
+                    {source.factors && renderFactors(source.factors)}
+                    {source.notes?.map(note => (
+                      <Text key={note} style={[styles.hint, { color: theme.colors.textSecondary }]}>• {note}</Text>
+                    ))}
+                  </TouchableOpacity>
+                ))}
+              </>
+            ) : (
+              <>
+                {sectionTitle('Based on')}
+                <View style={styles.chips}>
+                  {suggestion.based_on.map((factor, index) => (
+                    <View key={index} style={[styles.chip, { backgroundColor: theme.colors.primary + '20' }]}>
+                      <Text style={[styles.chipText, { color: theme.colors.primary }]}>
+                        {SOURCE_LABELS[factor] || factor}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              </>
+            )}
+
+            {explanation && explanation.contextMatches.length > 0 && (
+              <>
+                {sectionTitle('Right now')}
+                {explanation.contextMatches.map(match => (
+                  <Text key={match} style={[styles.line, { color: theme.colors.textSecondary }]}>• {match}</Text>
+                ))}
+              </>
+            )}
+
+            {explanation && (
+              <>
+                {sectionTitle('How it was ranked')}
+                {renderFactors(explanation.factors)}
+              </>
+            )}
+
+            {explanation && explanation.adjustments.length > 0 && (
+              <>
+                {sectionTitle('Adjustments')}
+                {explanation.adjustments.map((adjustment, index) => (
+                  <View key={index} style={styles.adjustment}>
+                    <Text style={[styles.adjustmentLabel, { color: theme.colors.textSecondary }]}>{adjustment.label}</Text>
+                    <Text
+                      style={[
+                        styles.adjustmentFactor,
+                        { color: adjustment.factor >= 1 ? theme.colors.success : theme.colors.error },
+                      ]}
+                    >
+                      ×{adjustment.factor.toFixed(2)}
+                    </Text>
+                  </View>
+                ))}
+              </>
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    maxHeight: '80%',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontFamily: 'Inter-SemiBold',
+  },
+  subtitle: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    marginTop: 2,
+  },
+  close: {
+    padding: 6,
+  },
+  reasoning: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    lineHeight: 20,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  source: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    gap: 6,
+  },
+  sourceHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  sourceType: {
+    fontSize: 11,
+    fontFamily: 'Inter-Medium',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  sourceLabel: {
+    fontSize: 15,
+    fontFamily: 'Inter-Medium',
+    marginTop: 2,
+  },
+  hint: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    marginTop: 2,
+  },
+  factorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 3,
+  },
+  factorName: {
+    width: 110,
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+  },
+  bar: {
+    flex: 1,
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: 6,
+    borderRadius: 3,
+  },
+  factorWeight: {
+    width: 40,
+    fontSize: 11,
+    fontFamily: 'Inter-Medium',
+    textAlign: 'right',
+  },
+  line: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    lineHeight: 20,
+  },
+  adjustment: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 4,
+    gap: 12,
+  },
+  adjustmentLabel: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+  },
+  adjustmentFactor: {
+    fontSize: 13,
+    fontFamily: 'Inter-SemiBold',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+  },
+  chipText: {
+    fontSize: 11,
+    fontFamily: 'Inter-Medium',
+  },
+});
@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Play, Pause, Square } from 'lucide-react-native';
+import { useTheme } from '../context/ThemeContext';
+import { timeTracker, TimerState } from '../lib/services/timeTrackingService';
+
+interface TaskTimerProps {
+  userId: string;
+  taskId: string;
+  onChange?: (state: TimerState) => void; // after start, pause, resume or stop
+}
+
+function formatElapsed(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${pad(m)}:${pad(s)}`;
+}
+
+export default function TaskTimer({ userId, taskId, onChange }: TaskTimerProps) {
+  const { theme } = useTheme();
+  const [state, setState] = useState<TimerState | null>(null);
+  const [loadedAt, setLoadedAt] = useState(() => Date.now());
+  const [now, setNow] = useState(() => Date.now());
+
+  const show = (next: TimerState) => {
+    setState(next);
+    setLoadedAt(Date.now());
+    setNow(Date.now());
+  };
+
+  useEffect(() => {
+    timeTracker.state(taskId).then(show).catch(error => console.error('Error loading timer:', error));
+  }, [taskId]);
+
+  // Tick once a second while running
+  useEffect(() => {
+    if (state?.status !== 'running') return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [state?.status]);
+
+  const run = async (action: () => Promise<TimerState>) => {
+    try {
+      const next = await action();
+      show(next);
+      onChange?.(next);
+    } catch (error) {
+      console.error('Error updating timer:', error);
+    }
+  };
+
+  if (!state) return null;
+
+  // Elapsed was worked out when the state loaded; a running timer keeps adding to it
+  const elapsed = state.elapsedMs + (state.status === 'running' ? Math.max(0, now - loadedAt) : 0);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.readout}>
+        <Text style={[styles.elapsed, { color: state.status === 'running' ? theme.colors.primary : theme.colors.text }]}>
+          {formatElapsed(elapsed)}
+        </Text>
+        <Text style={[styles.sessions, { color: theme.colors.textSecondary }]}>
+          {state.status === 'paused' ? 'Paused · ' : ''}
+          {state.sessions} {state.sessions === 1 ? 'session' : 'sessions'}
+        </Text>
+      </View>
+      {state.status === 'running' ? (
+        <TouchableOpacity
+          onPress={() => run(() => timeTracker.pause(taskId))}
+          style={[styles.button, { backgroundColor: theme.colors.surfaceVariant }]}
+        >
+          <Pause size={16} color={theme.colors.text} />
+          <Text style={[styles.buttonText, { color: theme.colors.text }]}>Pause</Text>
+        </TouchableOpacity>
+      ) : (
+        <TouchableOpacity
+          onPress={() => run(() => timeTracker.start(userId, taskId))}
+          style={[styles.button, { backgroundColor: theme.colors.primary }]}
+        >
+          <Play size={16} color="white" />
+          <Text style={[styles.buttonText, { color: 'white' }]}>{state.status === 'paused' ? 'Resume' : 'Start'}</Text>
+        </TouchableOpacity>
+      )}
+      {state.status !== 'idle' && (
+        <TouchableOpacity
+          onPress={() => run(() => timeTracker.stop(taskId))}
+          style={[styles.button, { backgroundColor: theme.colors.surfaceVariant }]}
+        >
+          <Square size={16} color={theme.colors.error} />
+          <Text style={[styles.buttonText, { color: theme.colors.error }]}>Stop</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+  },
+  readout: {
+    flex: 1,
+  },
+  elapsed: {
+    fontSize: 18,
+    fontFamily: 'Inter-SemiBold',
+    fontVariant: ['tabular-nums'],
+  },
+  sessions: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+  },
+});
@@ -1,6 +1,12 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { initDatabase, getDatabase } from '@/lib/database';
 import { DatabaseService } from '@/lib/services/databaseService';
+import { syncService } from '@/lib/services/syncService';
+import { ReminderActions } from '@/lib/services/reminderActions';
+import { digestScheduler } from '@/lib/services/digestService';
+import { calendarService } from '@/lib/services/calendarService';
+import * as Notifications from 'expo-notifications';
+import { router } from 'expo-router';
 import { useAuth } from './AuthContext';
 
 interface DatabaseContextType {
@@ -11,6 +17,9 @@ interface DatabaseContextType {
   clearDatabase: () => Promise<void>;
 }
 
+// The launch response is also delivered to the listener; open each digest once
+const openedDigests = new Set<string>();
+
 const DatabaseContext = createContext<DatabaseContextType | undefined>(undefined);
 
 interface DatabaseProviderProps {
@@ -66,6 +75,53 @@ export function DatabaseProvider({ children }: DatabaseProviderProps) {
   useEffect(() => {
     if (isInitialized && user) {
       setIsReady(true);
+      // Drop items that have outlived the trash retention window
+      DatabaseService.purgeExpiredTrash(user.id).catch(err => {
+        console.error('Error purging expired trash:', err);
+      });
+      // Keep the local database and Supabase in step while signed in
+      syncService.start(user.id);
+      // Reschedule missed reminders and cancel notifications nothing tracks any more
+      syncService.reconcileReminders(user.id);
+      // Refresh busy blocks if calendar access was granted earlier; never prompts here
+      calendarService.sync(user.id).catch(err => {
+        console.error('Error syncing calendar:', err);
+      });
+      // Digests scheduled ahead carry the task list as it was; bring them up to date
+      digestScheduler.refresh(user.id).catch(err => {
+        console.error('Error scheduling digests:', err);
+      });
+
+      // Done / Snooze / Reschedule straight from reminder notifications; presses while
+      // the app is in the background or closed go through the reminder action task
+      const handleResponse = (response: Notifications.NotificationResponse) => {
+        const { request } = response.notification;
+        if (request.content.data?.kind === 'digest') {
+          if (!openedDigests.has(request.identifier)) router.push('/digest');
+          openedDigests.add(request.identifier);
+          return;
+        }
+        ReminderActions.handleResponse(response)
+          .then(result => {
+            if (result?.openReschedule) {
+              router.push({ pathname: '/(tabs)', params: { reschedule: result.taskId } });
+            }
+          })
+          .catch(err => console.error('Error handling reminder action:', err));
+      };
+      ReminderActions.registerCategories().catch(err => {
+        console.error('Error registering reminder actions:', err);
+      });
+      const subscription = Notifications.addNotificationResponseReceivedListener(handleResponse);
+      // An action taken while the app was not running
+      Notifications.getLastNotificationResponseAsync().then(response => {
+        if (response) handleResponse(response);
+      });
+
+      return () => {
+        subscription.remove();
+        syncService.stop();
+      };
     } else if (isInitialized && !user) {
       setIsReady(false);
     }
@@ -116,37 +172,37 @@ export function useDatabaseOperations() {
     // Task operations
     createTask: async (taskData: any) => {
       const userId = requireAuth();
-      return await DatabaseService.createTask(userId, taskData);
+      return await syncService.createTask(userId, taskData);
     },
     getTasks: async (filters?: any) => {
       const userId = requireAuth();
       return await DatabaseService.getTasks(userId, filters);
     },
     updateTask: async (taskId: string, updates: any) => {
-      return await DatabaseService.updateTask(taskId, updates);
+      return await syncService.updateTask(taskId, updates);
     },
     deleteTask: async (taskId: string) => {
-      return await DatabaseService.deleteTask(taskId);
+      return await syncService.deleteTask(taskId);
     },
     toggleTaskCompletion: async (taskId: string) => {
-      return await DatabaseService.toggleTaskCompletion(taskId);
+      return await syncService.toggleTaskCompletion(taskId);
     },
     // Suggestion operations
     createSuggestion: async (suggestionData: any) => {
       const userId = requireAuth();
-      return await DatabaseService.createSuggestion(userId, suggestionData);
+      return await syncService.createSuggestion(userId, suggestionData);
     },
     getSuggestions: async (status?: string) => {
       const userId = requireAuth();
       return await DatabaseService.getSuggestions(userId, status);
     },
     updateSuggestionStatus: async (suggestionId: string, status: string) => {
-      return await DatabaseService.updateSuggestionStatus(suggestionId, status);
+      return await syncService.updateSuggestionStatus(suggestionId, status);
     },
     // Feedback operations
     createFeedback: async (feedbackData: any) => {
       const userId = requireAuth();
-      return await DatabaseService.createFeedback(userId, feedbackData);
+      return await syncService.createFeedback(userId, feedbackData);
     },
     // User preferences operations
     getUserPreferences: async () => {
@@ -1,7 +1,8 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Suggestion, Task } from '../lib/types';
 import { useSuggestionStore } from '../lib/suggestionStore';
-import { suggestionEngine } from '../lib/services/suggestionEngine';
+import { suggestionPipeline } from '../lib/services/suggestionPipeline';
+import { SuggestionContext } from '../lib/services/candidatePipeline';
 import { suggestionRefreshService } from '../lib/services/suggestionRefreshService';
 import { LocationContext, EnvironmentalContext } from '../lib/services/contextualPatternService';
 
@@ -31,6 +32,7 @@ export function useSuggestionEngine(
 ): UseSuggestionEngineResult {
   const { userId, autoRefresh = true } = options;
   const suggestions = useSuggestionStore(state => state.suggestions);
+  const setSuggestions = useSuggestionStore(state => state.setSuggestions);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<Error | null>(null);
 
@@ -40,28 +42,30 @@ export function useSuggestionEngine(
       setLoading(true);
       setError(null);
 
-      const context = {
+      const context: SuggestionContext = {
         userId,
-        recentTasks,
-        completedTasks,
         currentTime: new Date(),
-        location,
-        environment,
-        userPreferences: {
+        recentTasks: [...recentTasks, ...completedTasks.filter(task => !recentTasks.some(recent => recent.id === task.id))],
+        location:
+          location?.latitude !== undefined && location.longitude !== undefined
+            ? { latitude: location.latitude, longitude: location.longitude, accuracy: location.accuracy }
+            : undefined,
+        calendarEvents: environment?.calendarEvents,
+        deviceContext: environment?.deviceContext,
+        preferences: {
           // These would typically come from a user preferences store
-          suggestionFrequency: 'medium' as const,
-          priorityPreference: 'balanced' as const
+          priorityPreference: 'balanced'
         }
       };
 
-      await suggestionEngine.generateSuggestions(context);
+      setSuggestions(await suggestionPipeline.generate(context));
     } catch (err) {
       setError(err instanceof Error ? err : new Error('Failed to refresh suggestions'));
       console.error('Error refreshing suggestions:', err);
     } finally {
       setLoading(false);
     }
-  }, [userId, recentTasks, completedTasks, location, environment]);
+  }, [userId, recentTasks, completedTasks, location, environment, setSuggestions]);
 
   // Handle context changes
   const handleContextChange = useCallback(async (
@@ -0,0 +1,246 @@
+import {
+  Migration,
+  MIGRATIONS,
+  LATEST_SCHEMA_VERSION,
+  MigrationUtils,
+  runMigrations,
+  rollbackMigrations,
+  getMigrationHistory,
+  getSchemaVersion,
+} from '../migrations';
+import * as SQLite from 'expo-sqlite';
+import Database from 'better-sqlite3';
+
+const v1Fixture: Fixture = require('./fixtures/juey-v1.json');
+
+type Row = Record<string, unknown>;
+
+interface Fixture {
+  user_version: number;
+  schema: string[]; // CREATE statements
+  rows: Record<string, Row[]>;
+}
+
+/**
+ * A real in-memory SQLite database behind the parts of the expo-sqlite async
+ * API the migrations use, loaded from a fixture's schema and rows
+ */
+function openDatabase(fixture: Fixture) {
+  const sqlite = new Database(':memory:');
+  sqlite.exec(fixture.schema.join(';\n'));
+  for (const [table, rows] of Object.entries(fixture.rows)) {
+    for (const row of rows) {
+      const columns = Object.keys(row);
+      sqlite
+        .prepare(`INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`)
+        .run(...Object.values(row));
+    }
+  }
+  sqlite.pragma(`user_version = ${fixture.user_version}`);
+
+  const fake = {
+    execAsync: jest.fn(async (sql: string) => {
+      sqlite.exec(sql);
+    }),
+    runAsync: jest.fn(async (sql: string, params: unknown[] = []) => {
+      const result = sqlite.prepare(sql).run(...params);
+      return { changes: result.changes, lastInsertRowId: Number(result.lastInsertRowid) };
+    }),
+    getAllAsync: jest.fn(async (sql: string, params: unknown[] = []) => sqlite.prepare(sql).all(...params)),
+    getFirstAsync: jest.fn(async (sql: string, params: unknown[] = []) => sqlite.prepare(sql).get(...params) ?? null),
+    withTransactionAsync: jest.fn(async (task: () => Promise<void>) => {
+      sqlite.exec('BEGIN');
+      try {
+        await task();
+        sqlite.exec('COMMIT');
+      } catch (error) {
+        sqlite.exec('ROLLBACK');
+        throw error;
+      }
+    }),
+  };
+
+  const columns = (table: string) => (sqlite.pragma(`table_info(${table})`) as Array<{ name: string }>).map(c => c.name);
+  const rows = (table: string) => sqlite.prepare(`SELECT * FROM ${table} ORDER BY rowid`).all() as Row[];
+  // Every table, index and trigger with its columns; the history table and
+  // the search index's internal tables aside
+  const schema = () =>
+    (
+      sqlite
+        .prepare(
+          `SELECT type, name FROM sqlite_master
+           WHERE name NOT LIKE 'sqlite_%' AND name != 'schema_migrations'
+             AND NOT (type = 'table' AND name LIKE 'tasks_fts_%')
+           ORDER BY name`
+        )
+        .all() as Array<{ type: string; name: string }>
+    ).map(entry => ({ ...entry, columns: entry.type === 'table' ? columns(entry.name) : [] }));
+
+  return { db: fake as unknown as SQLite.SQLiteDatabase, fake, sqlite, columns, rows, schema };
+}
+
+const testMigrations: Migration[] = [
+  MIGRATIONS[0],
+  {
+    version: 2,
+    name: 'add_task_notes',
+    up: async db => MigrationUtils.addColumn(db, 'tasks', 'notes', 'TEXT'),
+    down: async db => MigrationUtils.dropColumn(db, 'tasks', 'notes'),
+  },
+  {
+    version: 3,
+    name: 'add_task_archived',
+    up: async db => MigrationUtils.addColumn(db, 'tasks', 'archived', 'BOOLEAN NOT NULL DEFAULT 0'),
+    down: async db => MigrationUtils.dropColumn(db, 'tasks', 'archived'),
+  },
+];
+
+describe('migrations', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('registers migrations in ascending, unique version order', () => {
+    const versions = MIGRATIONS.map(m => m.version);
+    expect(versions[0]).toBe(1);
+    versions.forEach((version, index) => {
+      if (index > 0) expect(version).toBe(versions[index - 1] + 1);
+    });
+    expect(LATEST_SCHEMA_VERSION).toBe(versions[versions.length - 1]);
+  });
+
+  it('upgrades the v1 fixture database to the latest version', async () => {
+    const { db, sqlite, columns, rows } = openDatabase(v1Fixture);
+
+    const version = await runMigrations(db);
+
+    expect(version).toBe(LATEST_SCHEMA_VERSION);
+    expect(await getSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION);
+    const history = await getMigrationHistory(db);
+    expect(history.map(h => h.version)).toEqual(MIGRATIONS.map(m => m.version));
+
+    expect(columns('tasks')).toEqual(
+      expect.arrayContaining(['deleted_at', 'recurrence', 'series_id', 'require_subtasks', 'blocked_by', 'location_reminder', 'estimated_minutes'])
+    );
+    expect(columns('time_entries')).toContain('source');
+    for (const table of ['reminders', 'sync_state', 'subtasks', 'saved_views', 'pattern_overrides']) {
+      expect(columns(table).length).toBeGreaterThan(0);
+    }
+
+    // Rows stored by 1.0.0 keep their values, and new columns take their defaults
+    for (const [table, stored] of Object.entries(v1Fixture.rows)) {
+      expect(rows(table)).toEqual(stored.map(row => expect.objectContaining(row)));
+    }
+    expect(rows('tasks').map(row => [row.deleted_at, row.require_subtasks])).toEqual([[null, 0], [null, 0]]);
+    expect(rows('suggestions').map(row => row.updated_at)).toEqual(['2024-01-01T09:00:00.000Z']);
+    expect(rows('feedback').map(row => row.updated_at)).toEqual(['2024-01-01T09:05:00.000Z']);
+    expect(rows('user_preferences')[0]).toMatchObject({ theme: 'dark', digest_time: '08:00', digest_weekday: 1 });
+
+    // Existing tasks are indexed for search, and new writes keep the index current
+    const search = (query: string) =>
+      (
+        sqlite
+          .prepare('SELECT tasks.id FROM tasks_fts JOIN tasks ON tasks.rowid = tasks_fts.rowid WHERE tasks_fts MATCH ? ORDER BY tasks.id')
+          .all(query) as Row[]
+      ).map(row => row.id);
+    expect(search('stories')).toEqual(['task-2']);
+    expect(search('team')).toEqual(['task-2']);
+    expect(search('pla*')).toEqual(['task-1', 'task-2']);
+    sqlite.prepare("UPDATE tasks SET title = 'Water the garden' WHERE id = 'task-1'").run();
+    expect(search('garden')).toEqual(['task-1']);
+  });
+
+  it('is a no-op when run twice', async () => {
+    const { db, fake, schema } = openDatabase(v1Fixture);
+    await runMigrations(db);
+    const transactions = fake.withTransactionAsync.mock.calls.length;
+    const upgraded = schema();
+
+    await runMigrations(db);
+
+    expect(fake.withTransactionAsync.mock.calls.length).toBe(transactions);
+    expect(schema()).toEqual(upgraded);
+  });
+
+  it('rolls the real migrations back to the v1 schema, keeping the rows', async () => {
+    const { db, schema, rows } = openDatabase(v1Fixture);
+    const original = schema();
+    await runMigrations(db);
+
+    const version = await rollbackMigrations(db, 1);
+
+    expect(version).toBe(1);
+    expect(await getSchemaVersion(db)).toBe(1);
+    expect(schema()).toEqual(original);
+    expect((await getMigrationHistory(db)).map(h => h.version)).toEqual([1]);
+    expect(rows('tasks').map(row => row.id)).toEqual(['task-1', 'task-2']);
+    expect(rows('suggestions')[0]).toMatchObject(v1Fixture.rows.suggestions[0]);
+
+    // And upgrades again from there
+    expect(await runMigrations(db)).toBe(LATEST_SCHEMA_VERSION);
+  });
+
+  it('applies pending migrations in order and records history', async () => {
+    const { db, columns } = openDatabase(v1Fixture);
+
+    const version = await runMigrations(db, 3, testMigrations);
+
+    expect(version).toBe(3);
+    expect(columns('tasks')).toEqual(expect.arrayContaining(['notes', 'archived']));
+    const history = await getMigrationHistory(db);
+    expect(history.map(h => h.name)).toEqual(['baseline_schema', 'add_task_notes', 'add_task_archived']);
+  });
+
+  it('stops at the requested target version', async () => {
+    const { db, columns } = openDatabase(v1Fixture);
+
+    await runMigrations(db, 2, testMigrations);
+
+    expect(await getSchemaVersion(db)).toBe(2);
+    expect(columns('tasks')).toContain('notes');
+    expect(columns('tasks')).not.toContain('archived');
+  });
+
+  it('rolls back a failing migration and keeps earlier ones', async () => {
+    const { db, columns } = openDatabase(v1Fixture);
+    const failing: Migration[] = [
+      ...testMigrations.slice(0, 2),
+      {
+        version: 3,
+        name: 'broken',
+        up: async db => {
+          await MigrationUtils.addColumn(db, 'tasks', 'archived', 'BOOLEAN');
+          await db.execAsync('ALTER TABLE missing_table ADD COLUMN x TEXT;');
+        },
+        down: async () => {},
+      },
+    ];
+
+    await expect(runMigrations(db, 3, failing)).rejects.toThrow(
+      'Migration 3 (broken) failed; database left at version 2'
+    );
+
+    expect(await getSchemaVersion(db)).toBe(2);
+    expect(columns('tasks')).toContain('notes');
+    expect(columns('tasks')).not.toContain('archived');
+    const history = await getMigrationHistory(db);
+    expect(history.map(h => h.version)).toEqual([1, 2]);
+  });
+
+  it('reverts migrations with their down steps', async () => {
+    const { db, columns } = openDatabase(v1Fixture);
+    const original = columns('tasks');
+    await runMigrations(db, 3, testMigrations);
+
+    const version = await rollbackMigrations(db, 1, testMigrations);
+
+    expect(version).toBe(1);
+    expect(columns('tasks')).toEqual(original);
+    const history = await getMigrationHistory(db);
+    expect(history.map(h => h.version)).toEqual([1]);
+  });
+});
@@ -1,9 +1,10 @@
 import * as SQLite from 'expo-sqlite';
 import { Platform } from 'react-native';
+import { LATEST_SCHEMA_VERSION, runMigrations } from './migrations';
 
 // Database configuration
 export const DATABASE_NAME = 'juey.db';
-export const DATABASE_VERSION = 1;
+export const DATABASE_VERSION = LATEST_SCHEMA_VERSION;
 
 // Database instance
 let database: SQLite.SQLiteDatabase | null = null;
@@ -48,8 +49,8 @@ async function migrateDatabase(): Promise<void> {
   // Create tables if they don't exist
   await createTables(db);
   
-  // Run migrations based on version
-  await runMigrations(db);
+  // Apply registered migrations up to DATABASE_VERSION
+  await runMigrations(db, DATABASE_VERSION);
 }
 
 /**
@@ -290,24 +291,6 @@ async function initPatternRecognitionTables(db: SQLite.SQLiteDatabase): Promise<
   `);
 }
 
-/**
- * Run database migrations
- */
-async function runMigrations(db: SQLite.SQLiteDatabase): Promise<void> {
-  // Get current version
-  const versionResult = await db.getFirstAsync<{ version: number }>(
-    'PRAGMA user_version;'
-  );
-  const currentVersion = versionResult?.version || 0;
-
-  // Run migrations if needed
-  if (currentVersion < 1) {
-    // Migration 1: Add any new fields or modifications
-    // This is where future migrations will go
-    await db.execAsync('PRAGMA user_version = 1;');
-  }
-}
-
 /**
  * Close the database connection
  */
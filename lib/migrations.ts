@@ -0,0 +1,512 @@
+import * as SQLite from 'expo-sqlite';
+
+/**
+ * Versioned schema migrations.
+ *
+ * `createTables` in database.ts owns the baseline (version 1) schema and is
+ * idempotent. Every schema change after that baseline must be registered here
+ * as a new migration with the next version number; `DATABASE_VERSION` is
+ * derived from this list.
+ */
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: SQLite.SQLiteDatabase) => Promise<void>;
+  down: (db: SQLite.SQLiteDatabase) => Promise<void>;
+}
+
+export interface MigrationRecord {
+  version: number;
+  name: string;
+  applied_at: string;
+}
+
+/**
+ * Search index columns for a tasks row: tags are flattened to words and OCR text
+ * is collected from the attachments' metadata
+ */
+function taskSearchValues(row: string): string {
+  // Malformed JSON must not make the task write itself fail
+  const jsonArray = (column: string) => `json_each(CASE WHEN json_valid(${row}.${column}) THEN ${row}.${column} END)`;
+  return `${row}.rowid, ${row}.title, COALESCE(${row}.description, ''),
+    COALESCE((SELECT group_concat(value, ' ') FROM ${jsonArray('tags')}), ''),
+    COALESCE(${row}.category, ''),
+    COALESCE((SELECT group_concat(json_extract(value, '$.metadata.ocrText'), ' ') FROM ${jsonArray('attachments')}), '')`;
+}
+
+/**
+ * Registered migrations, in ascending version order
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'baseline_schema',
+    // The baseline tables are created by createTables() on every start
+    up: async () => {},
+    down: async () => {},
+  },
+  {
+    version: 2,
+    name: 'soft_delete_tombstones',
+    up: async (db) => {
+      for (const table of ['tasks', 'suggestions', 'feedback']) {
+        await MigrationUtils.addColumn(db, table, 'deleted_at', 'TEXT');
+        await db.execAsync(`CREATE INDEX IF NOT EXISTS idx_${table}_deleted_at ON ${table}(deleted_at);`);
+      }
+    },
+    down: async (db) => {
+      for (const table of ['tasks', 'suggestions', 'feedback']) {
+        await db.execAsync(`DROP INDEX IF EXISTS idx_${table}_deleted_at;`);
+        await MigrationUtils.dropColumn(db, table, 'deleted_at');
+      }
+    },
+  },
+  {
+    version: 3,
+    name: 'sync_metadata',
+    up: async (db) => {
+      // Pull cursors are based on updated_at, so every synced table needs one
+      for (const table of ['suggestions', 'feedback']) {
+        await MigrationUtils.addColumn(db, table, 'updated_at', 'TEXT');
+        await db.execAsync(`UPDATE ${table} SET updated_at = created_at WHERE updated_at IS NULL;`);
+      }
+      // Task fields that previously only lived in Supabase
+      await MigrationUtils.addColumn(db, 'tasks', 'attachments', 'TEXT');
+      await MigrationUtils.addColumn(db, 'tasks', 'location_context', 'TEXT');
+
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS reminders (
+          id TEXT PRIMARY KEY NOT NULL,
+          user_id TEXT NOT NULL,
+          task_id TEXT NOT NULL,
+          title TEXT NOT NULL,
+          scheduled_time TEXT NOT NULL,
+          notification_id TEXT,
+          status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'dismissed', 'snoozed')),
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+          deleted_at TEXT
+        );
+      `);
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS sync_state (
+          entity TEXT PRIMARY KEY NOT NULL,
+          cursor TEXT,
+          last_synced_at TEXT
+        );
+      `);
+      await db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_reminders_user_id ON reminders(user_id);
+        CREATE INDEX IF NOT EXISTS idx_reminders_task_id ON reminders(task_id);
+        CREATE INDEX IF NOT EXISTS idx_tasks_updated_at ON tasks(updated_at);
+        CREATE INDEX IF NOT EXISTS idx_suggestions_updated_at ON suggestions(updated_at);
+        CREATE INDEX IF NOT EXISTS idx_feedback_updated_at ON feedback(updated_at);
+        CREATE INDEX IF NOT EXISTS idx_reminders_updated_at ON reminders(updated_at);
+      `);
+    },
+    down: async (db) => {
+      await db.execAsync(`
+        DROP INDEX IF EXISTS idx_tasks_updated_at;
+        DROP INDEX IF EXISTS idx_suggestions_updated_at;
+        DROP INDEX IF EXISTS idx_feedback_updated_at;
+        DROP TABLE IF EXISTS sync_state;
+        DROP TABLE IF EXISTS reminders;
+      `);
+      await MigrationUtils.dropColumn(db, 'tasks', 'location_context');
+      await MigrationUtils.dropColumn(db, 'tasks', 'attachments');
+      for (const table of ['suggestions', 'feedback']) {
+        await MigrationUtils.dropColumn(db, table, 'updated_at');
+      }
+    },
+  },
+  {
+    version: 4,
+    name: 'recurring_tasks',
+    up: async (db) => {
+      await MigrationUtils.addColumn(db, 'tasks', 'recurrence', 'TEXT');
+      await MigrationUtils.addColumn(db, 'tasks', 'series_id', 'TEXT');
+      await MigrationUtils.addColumn(db, 'tasks', 'series_index', 'INTEGER');
+      await db.execAsync('CREATE INDEX IF NOT EXISTS idx_tasks_series_id ON tasks(series_id);');
+    },
+    down: async (db) => {
+      await db.execAsync('DROP INDEX IF EXISTS idx_tasks_series_id;');
+      for (const column of ['series_index', 'series_id', 'recurrence']) {
+        await MigrationUtils.dropColumn(db, 'tasks', column);
+      }
+    },
+  },
+  {
+    version: 5,
+    name: 'subtasks',
+    up: async (db) => {
+      await MigrationUtils.addColumn(db, 'tasks', 'require_subtasks', 'BOOLEAN NOT NULL DEFAULT 0');
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS subtasks (
+          id TEXT PRIMARY KEY NOT NULL,
+          user_id TEXT NOT NULL,
+          task_id TEXT NOT NULL,
+          title TEXT NOT NULL,
+          completed BOOLEAN NOT NULL DEFAULT 0,
+          completed_at TEXT,
+          position INTEGER NOT NULL DEFAULT 0,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+          deleted_at TEXT
+        );
+      `);
+      await db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_subtasks_task_id ON subtasks(task_id, position);
+        CREATE INDEX IF NOT EXISTS idx_subtasks_updated_at ON subtasks(updated_at);
+      `);
+    },
+    down: async (db) => {
+      await db.execAsync(`
+        DROP INDEX IF EXISTS idx_subtasks_updated_at;
+        DROP INDEX IF EXISTS idx_subtasks_task_id;
+        DROP TABLE IF EXISTS subtasks;
+      `);
+      await MigrationUtils.dropColumn(db, 'tasks', 'require_subtasks');
+    },
+  },
+  {
+    version: 6,
+    name: 'task_dependencies',
+    up: async (db) => {
+      await MigrationUtils.addColumn(db, 'tasks', 'blocked_by', 'TEXT');
+    },
+    down: async (db) => {
+      await MigrationUtils.dropColumn(db, 'tasks', 'blocked_by');
+    },
+  },
+  {
+    version: 7,
+    name: 'task_search_index',
+    up: async (db) => {
+      // Keyed by the tasks rowid; triggers keep it current for every write path, sync pulls included
+      await db.execAsync(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS tasks_fts USING fts5(
+          title, description, tags, category, ocr_text,
+          tokenize = 'unicode61 remove_diacritics 2',
+          prefix = '2 3'
+        );
+      `);
+      await db.execAsync(`
+        CREATE TRIGGER IF NOT EXISTS tasks_fts_insert AFTER INSERT ON tasks BEGIN
+          INSERT INTO tasks_fts (rowid, title, description, tags, category, ocr_text)
+          VALUES (${taskSearchValues('NEW')});
+        END;
+        CREATE TRIGGER IF NOT EXISTS tasks_fts_update AFTER UPDATE ON tasks BEGIN
+          DELETE FROM tasks_fts WHERE rowid = OLD.rowid;
+          INSERT INTO tasks_fts (rowid, title, description, tags, category, ocr_text)
+          VALUES (${taskSearchValues('NEW')});
+        END;
+        CREATE TRIGGER IF NOT EXISTS tasks_fts_delete AFTER DELETE ON tasks BEGIN
+          DELETE FROM tasks_fts WHERE rowid = OLD.rowid;
+        END;
+      `);
+      await db.execAsync(`
+        DELETE FROM tasks_fts;
+        INSERT INTO tasks_fts (rowid, title, description, tags, category, ocr_text)
+        SELECT ${taskSearchValues('tasks')} FROM tasks;
+      `);
+    },
+    down: async (db) => {
+      await db.execAsync(`
+        DROP TRIGGER IF EXISTS tasks_fts_delete;
+        DROP TRIGGER IF EXISTS tasks_fts_update;
+        DROP TRIGGER IF EXISTS tasks_fts_insert;
+        DROP TABLE IF EXISTS tasks_fts;
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: 'saved_views',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS saved_views (
+          id TEXT PRIMARY KEY NOT NULL,
+          user_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          combinator TEXT NOT NULL DEFAULT 'and' CHECK (combinator IN ('and', 'or')),
+          conditions TEXT NOT NULL DEFAULT '[]',
+          pinned BOOLEAN NOT NULL DEFAULT 0,
+          position INTEGER NOT NULL DEFAULT 0,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+          deleted_at TEXT
+        );
+      `);
+      await db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_saved_views_user_id ON saved_views(user_id, position);
+        CREATE INDEX IF NOT EXISTS idx_saved_views_updated_at ON saved_views(updated_at);
+      `);
+    },
+    down: async (db) => {
+      await db.execAsync(`
+        DROP INDEX IF EXISTS idx_saved_views_updated_at;
+        DROP INDEX IF EXISTS idx_saved_views_user_id;
+        DROP TABLE IF EXISTS saved_views;
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: 'location_reminders',
+    up: async (db) => {
+      await MigrationUtils.addColumn(db, 'tasks', 'location_reminder', 'TEXT');
+    },
+    down: async (db) => {
+      await MigrationUtils.dropColumn(db, 'tasks', 'location_reminder');
+    },
+  },
+  {
+    version: 10,
+    name: 'digest_schedule',
+    up: async (db) => {
+      await MigrationUtils.addColumn(db, 'user_preferences', 'digest_time', "TEXT NOT NULL DEFAULT '08:00'");
+      await MigrationUtils.addColumn(db, 'user_preferences', 'digest_weekday', 'INTEGER NOT NULL DEFAULT 1');
+    },
+    down: async (db) => {
+      await MigrationUtils.dropColumn(db, 'user_preferences', 'digest_weekday');
+      await MigrationUtils.dropColumn(db, 'user_preferences', 'digest_time');
+    },
+  },
+  {
+    version: 11,
+    name: 'task_estimates',
+    up: async (db) => {
+      await MigrationUtils.addColumn(db, 'tasks', 'estimated_minutes', 'INTEGER');
+    },
+    down: async (db) => {
+      await MigrationUtils.dropColumn(db, 'tasks', 'estimated_minutes');
+    },
+  },
+  {
+    version: 12,
+    name: 'time_entries',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS time_entries (
+          id TEXT PRIMARY KEY NOT NULL,
+          user_id TEXT NOT NULL,
+          task_id TEXT NOT NULL,
+          started_at TEXT NOT NULL,
+          ended_at TEXT,
+          ended_by TEXT CHECK (ended_by IN ('pause', 'stop')),
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+      `);
+      await db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_time_entries_task_id ON time_entries(task_id, started_at);
+        CREATE INDEX IF NOT EXISTS idx_time_entries_running ON time_entries(user_id) WHERE ended_at IS NULL;
+      `);
+    },
+    down: async (db) => {
+      await db.execAsync(`
+        DROP INDEX IF EXISTS idx_time_entries_running;
+        DROP INDEX IF EXISTS idx_time_entries_task_id;
+        DROP TABLE IF EXISTS time_entries;
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: 'focus_time_entries',
+    up: async (db) => {
+      await MigrationUtils.addColumn(db, 'time_entries', 'source', "TEXT NOT NULL DEFAULT 'timer'");
+    },
+    down: async (db) => {
+      await MigrationUtils.dropColumn(db, 'time_entries', 'source');
+    },
+  },
+  {
+    version: 14,
+    name: 'suggestion_explanations',
+    up: async (db) => {
+      await MigrationUtils.addColumn(db, 'suggestions', 'explanation', 'TEXT');
+    },
+    down: async (db) => {
+      await MigrationUtils.dropColumn(db, 'suggestions', 'explanation');
+    },
+  },
+  {
+    version: 15,
+    name: 'pattern_overrides',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS pattern_overrides (
+          id TEXT PRIMARY KEY NOT NULL, -- the pattern's id
+          user_id TEXT NOT NULL,
+          pinned BOOLEAN NOT NULL DEFAULT 0,
+          forgotten BOOLEAN NOT NULL DEFAULT 0,
+          corrections TEXT NOT NULL DEFAULT '{}', -- JSON object
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+      `);
+      await db.execAsync('CREATE INDEX IF NOT EXISTS idx_pattern_overrides_user_id ON pattern_overrides(user_id);');
+    },
+    down: async (db) => {
+      await db.execAsync(`
+        DROP INDEX IF EXISTS idx_pattern_overrides_user_id;
+        DROP TABLE IF EXISTS pattern_overrides;
+      `);
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Helpers shared by migration steps
+ */
+export const MigrationUtils = {
+  /**
+   * Get the column names of a table
+   */
+  getColumns: async (db: SQLite.SQLiteDatabase, table: string): Promise<string[]> => {
+    const rows = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${table});`);
+    return rows.map(row => row.name);
+  },
+
+  /**
+   * Add a column unless it already exists
+   */
+  addColumn: async (db: SQLite.SQLiteDatabase, table: string, column: string, definition: string): Promise<void> => {
+    const columns = await MigrationUtils.getColumns(db, table);
+    if (!columns.includes(column)) {
+      await db.execAsync(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition};`);
+    }
+  },
+
+  /**
+   * Drop a column if it exists
+   */
+  dropColumn: async (db: SQLite.SQLiteDatabase, table: string, column: string): Promise<void> => {
+    const columns = await MigrationUtils.getColumns(db, table);
+    if (columns.includes(column)) {
+      await db.execAsync(`ALTER TABLE ${table} DROP COLUMN ${column};`);
+    }
+  },
+};
+
+/**
+ * Read the schema version stored in PRAGMA user_version
+ */
+export async function getSchemaVersion(db: SQLite.SQLiteDatabase): Promise<number> {
+  const result = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version;');
+  return result?.user_version || 0;
+}
+
+async function setSchemaVersion(db: SQLite.SQLiteDatabase, version: number): Promise<void> {
+  await db.execAsync(`PRAGMA user_version = ${version};`);
+}
+
+async function ensureHistoryTable(db: SQLite.SQLiteDatabase): Promise<void> {
+  await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY NOT NULL,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+  `);
+}
+
+/**
+ * Get the applied migration history, oldest first
+ */
+export async function getMigrationHistory(db: SQLite.SQLiteDatabase): Promise<MigrationRecord[]> {
+  await ensureHistoryTable(db);
+  return await db.getAllAsync<MigrationRecord>(
+    'SELECT version, name, applied_at FROM schema_migrations ORDER BY version ASC'
+  );
+}
+
+/**
+ * Apply all pending migrations up to the target version.
+ * Each migration runs in its own transaction together with its history row
+ * and version bump, so a failing step leaves the database at the previous version.
+ */
+export async function runMigrations(
+  db: SQLite.SQLiteDatabase,
+  targetVersion: number = LATEST_SCHEMA_VERSION,
+  migrations: Migration[] = MIGRATIONS
+): Promise<number> {
+  await ensureHistoryTable(db);
+  let currentVersion = await getSchemaVersion(db);
+
+  // Databases created before the history table existed are at version 1
+  // without a record of it
+  if (currentVersion > 0) {
+    await db.runAsync(
+      'INSERT OR IGNORE INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)',
+      [1, migrations.find(m => m.version === 1)?.name || 'baseline_schema', new Date().toISOString()]
+    );
+  }
+
+  const pending = migrations
+    .filter(m => m.version > currentVersion && m.version <= targetVersion)
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    try {
+      await db.withTransactionAsync(async () => {
+        await migration.up(db);
+        await db.runAsync(
+          'INSERT OR REPLACE INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)',
+          [migration.version, migration.name, new Date().toISOString()]
+        );
+        await setSchemaVersion(db, migration.version);
+      });
+      currentVersion = migration.version;
+    } catch (error) {
+      console.error(`Migration ${migration.version} (${migration.name}) failed:`, error);
+      throw new Error(
+        `Migration ${migration.version} (${migration.name}) failed; database left at version ${currentVersion}`
+      );
+    }
+  }
+
+  return currentVersion;
+}
+
+/**
+ * Revert applied migrations down to the target version, newest first
+ */
+export async function rollbackMigrations(
+  db: SQLite.SQLiteDatabase,
+  targetVersion: number,
+  migrations: Migration[] = MIGRATIONS
+): Promise<number> {
+  await ensureHistoryTable(db);
+  let currentVersion = await getSchemaVersion(db);
+
+  const applied = migrations
+    .filter(m => m.version <= currentVersion && m.version > targetVersion)
+    .sort((a, b) => b.version - a.version);
+
+  for (const migration of applied) {
+    const previousVersion = migrations
+      .filter(m => m.version < migration.version)
+      .reduce((max, m) => Math.max(max, m.version), 0);
+
+    try {
+      await db.withTransactionAsync(async () => {
+        await migration.down(db);
+        await db.runAsync('DELETE FROM schema_migrations WHERE version = ?', [migration.version]);
+        await setSchemaVersion(db, previousVersion);
+      });
+      currentVersion = previousVersion;
+    } catch (error) {
+      console.error(`Rollback of migration ${migration.version} (${migration.name}) failed:`, error);
+      throw new Error(
+        `Rollback of migration ${migration.version} (${migration.name}) failed; database left at version ${currentVersion}`
+      );
+    }
+  }
+
+  return currentVersion;
+}
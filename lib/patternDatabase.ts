@@ -56,6 +56,81 @@ export interface TemporalPattern {
   updated_at: string;
 }
 
+export type PatternTable = 'user_patterns' | 'temporal_patterns' | 'task_patterns';
+
+// The user's word on when a temporal pattern happens
+export interface PatternCorrection {
+  day_of_week?: number;
+  time_of_day?: number;
+}
+
+/**
+ * What the user has told us about a pattern. Patterns are rebuilt from
+ * history, so this outlives them and is applied whenever one is written.
+ */
+export interface PatternOverride {
+  id: string; // the pattern's id
+  user_id: string;
+  pinned: boolean; // confidence never drops and the pattern is never cleaned up
+  forgotten: boolean; // the pattern is never written again
+  corrections: PatternCorrection;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * A temporal pattern moved to the corrected day and hour. A weekly pattern's
+ * next occurrence moves to the nearest corrected weekday.
+ */
+export function applyPatternCorrection<T extends Omit<TemporalPattern, 'created_at' | 'updated_at'>>(
+  pattern: T,
+  correction: PatternCorrection
+): T {
+  const dayOfWeek = correction.day_of_week ?? pattern.day_of_week;
+  const timeOfDay = correction.time_of_day ?? pattern.time_of_day;
+  if (dayOfWeek === pattern.day_of_week && timeOfDay === pattern.time_of_day) return pattern;
+
+  let nextPredicted = pattern.next_predicted;
+  if (nextPredicted) {
+    const next = new Date(nextPredicted);
+    if (pattern.period_type === 'weekly') {
+      const shift = (dayOfWeek - next.getDay() + 7) % 7;
+      next.setDate(next.getDate() + (shift > 3 ? shift - 7 : shift));
+    }
+    next.setHours(timeOfDay, 0, 0, 0);
+    nextPredicted = DatabaseUtils.formatDate(next);
+  }
+
+  return { ...pattern, day_of_week: dayOfWeek, time_of_day: timeOfDay, next_predicted: nextPredicted };
+}
+
+function mapOverrideRow(row: any): PatternOverride {
+  return {
+    ...row,
+    pinned: !!row.pinned,
+    forgotten: !!row.forgotten,
+    corrections: DatabaseUtils.deserializeJSON(row.corrections) || {},
+  };
+}
+
+// Pinned patterns are spared by the deletes behind rebuilds and cleanup
+const UNPINNED = 'id NOT IN (SELECT id FROM pattern_overrides WHERE pinned = 1)';
+
+/**
+ * The confidence to store for a pattern: a pinned one keeps what it had if
+ * the new value is lower
+ */
+async function keptConfidence(
+  db: SQLite.SQLiteDatabase,
+  table: PatternTable,
+  override: PatternOverride | null,
+  pattern: { id: string; confidence: number }
+): Promise<number> {
+  if (!override?.pinned) return pattern.confidence;
+  const existing = await db.getFirstAsync<{ confidence: number }>(`SELECT confidence FROM ${table} WHERE id = ?`, [pattern.id]);
+  return Math.max(pattern.confidence, existing?.confidence ?? 0);
+}
+
 /**
  * Initialize pattern recognition database tables
  */
@@ -144,11 +219,14 @@ export async function initPatternTables(): Promise<void> {
  */
 export const PatternDatabaseUtils = {
   /**
-   * Insert or update a user pattern
+   * Insert or update a user pattern, unless the user has forgotten it
    */
   async upsertUserPattern(pattern: Omit<UserPattern, 'created_at' | 'updated_at'>): Promise<void> {
     const db = await getDatabase();
     const now = DatabaseUtils.formatDate(new Date());
+    const override = await PatternDatabaseUtils.getPatternOverride(pattern.id);
+    if (override?.forgotten) return;
+    const confidence = await keptConfidence(db, 'user_patterns', override, pattern);
     
     await db.runAsync(`
       INSERT OR REPLACE INTO user_patterns (
@@ -160,7 +238,7 @@ export const PatternDatabaseUtils = {
     `, [
       pattern.id, pattern.user_id, pattern.pattern_type,
       DatabaseUtils.serializeJSON(pattern.pattern_data),
-      pattern.confidence, pattern.frequency, pattern.last_occurrence,
+      confidence, pattern.frequency, pattern.last_occurrence,
       pattern.next_predicted, pattern.id, now, now
     ]);
   },
@@ -204,11 +282,16 @@ export const PatternDatabaseUtils = {
   },
 
   /**
-   * Insert or update a temporal pattern
+   * Insert or update a temporal pattern, unless the user has forgotten it,
+   * with the user's corrections applied
    */
-  async upsertTemporalPattern(pattern: Omit<TemporalPattern, 'created_at' | 'updated_at'>): Promise<void> {
+  async upsertTemporalPattern(learned: Omit<TemporalPattern, 'created_at' | 'updated_at'>): Promise<void> {
     const db = await getDatabase();
     const now = DatabaseUtils.formatDate(new Date());
+    const override = await PatternDatabaseUtils.getPatternOverride(learned.id);
+    if (override?.forgotten) return;
+    const pattern = override ? applyPatternCorrection(learned, override.corrections) : learned;
+    const confidence = await keptConfidence(db, 'temporal_patterns', override, pattern);
     
     await db.runAsync(`
       INSERT OR REPLACE INTO temporal_patterns (
@@ -221,7 +304,7 @@ export const PatternDatabaseUtils = {
     `, [
       pattern.id, pattern.user_id, pattern.task_title, pattern.task_category,
       pattern.time_of_day, pattern.day_of_week, pattern.day_of_month,
-      pattern.month, pattern.frequency, pattern.period_type, pattern.confidence,
+      pattern.month, pattern.frequency, pattern.period_type, confidence,
       pattern.last_occurrence, pattern.next_predicted, pattern.id, now, now
     ]);
   },
@@ -248,6 +331,91 @@ export const PatternDatabaseUtils = {
     }));
   },
 
+  /**
+   * Get one user pattern by id
+   */
+  async getUserPattern(patternId: string): Promise<UserPattern | null> {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync<any>('SELECT * FROM user_patterns WHERE id = ?', [patternId]);
+    return row ? { ...row, pattern_data: DatabaseUtils.deserializeJSON(row.pattern_data) } : null;
+  },
+
+  /**
+   * Delete a user's unpinned patterns, in both tables, whose ids start with `prefix`
+   */
+  async deletePatternsWithPrefix(userId: string, prefix: string): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync(`DELETE FROM user_patterns WHERE user_id = ? AND instr(id, ?) = 1 AND ${UNPINNED}`, [userId, prefix]);
+    await db.runAsync(`DELETE FROM temporal_patterns WHERE user_id = ? AND instr(id, ?) = 1 AND ${UNPINNED}`, [userId, prefix]);
+  },
+
+  /**
+   * Delete a temporal pattern unless it is pinned
+   */
+  async deleteTemporalPattern(patternId: string): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync(`DELETE FROM temporal_patterns WHERE id = ? AND ${UNPINNED}`, [patternId]);
+  },
+
+  /**
+   * Delete a pattern from its table, pinned or not
+   */
+  async deletePattern(table: PatternTable, patternId: string): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync(`DELETE FROM ${table} WHERE id = ?`, [patternId]);
+  },
+
+  /**
+   * Get the override the user has set on a pattern, if any
+   */
+  async getPatternOverride(patternId: string): Promise<PatternOverride | null> {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync<any>('SELECT * FROM pattern_overrides WHERE id = ?', [patternId]);
+    return row ? mapOverrideRow(row) : null;
+  },
+
+  /**
+   * Get every override a user has set
+   */
+  async getPatternOverrides(userId: string): Promise<PatternOverride[]> {
+    const db = await getDatabase();
+    const rows = await db.getAllAsync<any>('SELECT * FROM pattern_overrides WHERE user_id = ?', [userId]);
+    return rows.map(mapOverrideRow);
+  },
+
+  /**
+   * Merge changes into a pattern's override, creating it if needed. Corrections
+   * merge field by field.
+   */
+  async savePatternOverride(
+    userId: string,
+    patternId: string,
+    changes: Partial<Pick<PatternOverride, 'pinned' | 'forgotten' | 'corrections'>>
+  ): Promise<PatternOverride> {
+    const db = await getDatabase();
+    const now = DatabaseUtils.formatDate(new Date());
+    const existing = await PatternDatabaseUtils.getPatternOverride(patternId);
+    const override: PatternOverride = {
+      id: patternId,
+      user_id: userId,
+      pinned: changes.pinned ?? existing?.pinned ?? false,
+      forgotten: changes.forgotten ?? existing?.forgotten ?? false,
+      corrections: { ...existing?.corrections, ...changes.corrections },
+      created_at: existing?.created_at || now,
+      updated_at: now,
+    };
+
+    await db.runAsync(`
+      INSERT OR REPLACE INTO pattern_overrides (
+        id, user_id, pinned, forgotten, corrections, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, [
+      override.id, override.user_id, override.pinned ? 1 : 0, override.forgotten ? 1 : 0,
+      DatabaseUtils.serializeJSON(override.corrections), override.created_at, override.updated_at
+    ]);
+    return override;
+  },
+
   /**
    * Get temporal patterns for a user
    */
@@ -266,6 +434,14 @@ export const PatternDatabaseUtils = {
     return await db.getAllAsync<TemporalPattern>(query, params);
   },
 
+  /**
+   * Get one temporal pattern by id
+   */
+  async getTemporalPattern(patternId: string): Promise<TemporalPattern | null> {
+    const db = await getDatabase();
+    return await db.getFirstAsync<TemporalPattern>('SELECT * FROM temporal_patterns WHERE id = ?', [patternId]);
+  },
+
   /**
    * Get pattern triggers for a pattern
    */
@@ -297,12 +473,20 @@ export const PatternDatabaseUtils = {
   },
 
   /**
-   * Delete old patterns with low confidence
+   * Delete old unpinned patterns with low confidence. With `staleBefore`,
+   * patterns seen since then are kept: they may still be building up.
    */
-  async cleanupLowConfidencePatterns(userId: string, minConfidence: number = 0.1): Promise<void> {
+  async cleanupLowConfidencePatterns(userId: string, minConfidence: number = 0.1, staleBefore?: Date): Promise<void> {
     const db = await getDatabase();
+    if (staleBefore) {
+      await db.runAsync(
+        `DELETE FROM user_patterns WHERE user_id = ? AND confidence < ? AND (last_occurrence IS NULL OR last_occurrence < ?) AND ${UNPINNED}`,
+        [userId, minConfidence, DatabaseUtils.formatDate(staleBefore)]
+      );
+      return;
+    }
     await db.runAsync(
-      'DELETE FROM user_patterns WHERE user_id = ? AND confidence < ?',
+      `DELETE FROM user_patterns WHERE user_id = ? AND confidence < ? AND ${UNPINNED}`,
       [userId, minConfidence]
     );
   }
@@ -0,0 +1,158 @@
+import { CalendarService, CalendarStore, createStaticEventProvider, parseIcs } from '../calendarService';
+import { isBusy, minutesUntilBusy } from '../busyTime';
+import { DatabaseService } from '../databaseService';
+import { BusyBlock, Task } from '../../types';
+
+jest.mock('expo-calendar', () => ({}));
+jest.mock('@react-native-async-storage/async-storage', () => ({}));
+jest.mock('../contextualPatternService', () => ({ contextualPatternService: {} }));
+jest.mock('../databaseService', () => ({ DatabaseService: {} }));
+
+// Monday 6 May 2024, local time
+const at = (day: number, hours: number, minutes = 0) => new Date(2024, 4, day, hours, minutes);
+
+const block = (id: string, start: Date, end: Date, overrides: Partial<BusyBlock> = {}): BusyBlock => ({
+  id,
+  title: id,
+  start: start.toISOString(),
+  end: end.toISOString(),
+  type: 'meeting',
+  source: 'device',
+  ...overrides,
+});
+
+const ics = (...events: string[][]) =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events.flatMap(lines => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']), 'END:VCALENDAR'].join(
+    '\r\n'
+  );
+
+describe('parseIcs', () => {
+  it('reads UTC, local and all-day events', () => {
+    const blocks = parseIcs(
+      ics(
+        ['UID:standup', 'SUMMARY:Team standup', 'DTSTART:20240506T080000Z', 'DTEND:20240506T081500Z'],
+        ['UID:dentist', 'SUMMARY:Dentist', 'DTSTART;TZID=Europe/Amsterdam:20240506T140000', 'DURATION:PT45M'],
+        ['UID:offsite', 'SUMMARY:Offsite', 'DTSTART;VALUE=DATE:20240507', 'DTEND;VALUE=DATE:20240508']
+      )
+    );
+
+    expect(blocks).toEqual([
+      {
+        id: `ics:standup:${Date.UTC(2024, 4, 6, 8)}`,
+        title: 'Team standup',
+        start: new Date(Date.UTC(2024, 4, 6, 8)).toISOString(),
+        end: new Date(Date.UTC(2024, 4, 6, 8, 15)).toISOString(),
+        type: 'meeting',
+        source: 'ics',
+      },
+      expect.objectContaining({ title: 'Dentist', start: at(6, 14).toISOString(), end: at(6, 14, 45).toISOString() }),
+      expect.objectContaining({ title: 'Offsite', start: at(7, 0).toISOString(), end: at(8, 0).toISOString(), allDay: true }),
+    ]);
+  });
+
+  it('unfolds long lines and leaves out free and cancelled events', () => {
+    const blocks = parseIcs(
+      ics(
+        ['UID:review', 'SUMMARY:Quarterly plan', ' ning review', 'DTSTART:20240506T090000', 'DTEND:20240506T100000'],
+        ['UID:focus', 'SUMMARY:Focus time', 'TRANSP:TRANSPARENT', 'DTSTART:20240506T110000', 'DTEND:20240506T120000'],
+        ['UID:lunch', 'SUMMARY:Lunch', 'STATUS:CANCELLED', 'DTSTART:20240506T120000', 'DTEND:20240506T130000']
+      )
+    );
+
+    expect(blocks.map(b => b.title)).toEqual(['Quarterly planning review']);
+  });
+});
+
+describe('busy time', () => {
+  const blocks = [block('standup', at(6, 9), at(6, 9, 30)), block('holiday', at(6, 0), at(7, 0), { allDay: true })];
+
+  it('counts timed events but not all-day ones', () => {
+    expect(isBusy(blocks, at(6, 9, 15))).toBe(true);
+    expect(isBusy(blocks, at(6, 8), at(6, 9, 1))).toBe(true);
+    expect(isBusy(blocks, at(6, 10))).toBe(false);
+  });
+
+  it('knows how long until the next event', () => {
+    const events = blocks.slice(0, 1).map(b => ({ startTime: b.start, endTime: b.end }));
+
+    expect(minutesUntilBusy(events, at(6, 8, 40))).toBe(20);
+    expect(minutesUntilBusy(events, at(6, 9, 10))).toBe(0);
+    expect(minutesUntilBusy(events, at(6, 10))).toBe(Infinity);
+    expect(minutesUntilBusy(undefined, at(6, 10))).toBe(Infinity);
+  });
+});
+
+describe('CalendarService', () => {
+  function setup(events: BusyBlock[], cached: BusyBlock[] = [], access = true) {
+    const stored = new Map([['user-1', cached]]);
+    const store: CalendarStore = {
+      get: async userId => stored.get(userId) || [],
+      set: async (userId, blocks) => {
+        stored.set(userId, blocks);
+      },
+    };
+    const completed: Partial<Task>[] = [{ id: 'report', completed: true, completed_at: at(6, 9, 45).toISOString() }];
+    Object.assign(DatabaseService, { getTasks: jest.fn(async () => completed) });
+    const patterns = { analyzeContextualPatterns: jest.fn(async () => {}) };
+    const service = new CalendarService({
+      provider: createStaticEventProvider(events, access),
+      store,
+      patterns,
+      now: () => at(6, 8),
+    });
+    return { service, patterns, blocks: () => stored.get('user-1') || [] };
+  }
+
+  it('replaces upcoming device events and keeps past and imported ones', async () => {
+    const { service, blocks } = setup(
+      [block('standup', at(6, 9), at(6, 9, 30))],
+      [
+        block('moved', at(6, 11), at(6, 12)),
+        block('yesterday', at(5, 15), at(5, 16)),
+        block('dentist', at(6, 14), at(6, 15), { source: 'ics' }),
+        // Older than the history kept
+        block('ancient', new Date(2024, 0, 8, 9), new Date(2024, 0, 8, 10)),
+      ]
+    );
+
+    expect(await service.sync('user-1')).toBe(1);
+    expect(blocks().map(b => b.id)).toEqual(['yesterday', 'dentist', 'standup']);
+    expect((await service.getBusyBlocks('user-1', at(6, 0), at(7, 0))).map(b => b.id)).toEqual(['standup', 'dentist']);
+  });
+
+  it('leaves the cache alone without calendar access', async () => {
+    const { service, blocks } = setup([block('standup', at(6, 9), at(6, 9, 30))], [], false);
+
+    expect(await service.sync('user-1')).toBeNull();
+    expect(await service.connect('user-1')).toBe(false);
+    expect(blocks()).toEqual([]);
+  });
+
+  it('relates completed tasks to the events around them', async () => {
+    const { service, patterns } = setup([block('standup', at(6, 9), at(6, 9, 30))]);
+
+    await service.sync('user-1');
+
+    const [, tasks, contexts] = patterns.analyzeContextualPatterns.mock.calls[0] as unknown as [
+      string,
+      Task[],
+      Map<string, { environment: { calendarEvents: unknown[] } }>,
+    ];
+    expect(tasks.map(t => t.id)).toEqual(['report']);
+    expect(contexts.get('report')?.environment.calendarEvents).toEqual([
+      { title: 'standup', startTime: at(6, 9).toISOString(), endTime: at(6, 9, 30).toISOString(), type: 'meeting' },
+    ]);
+  });
+
+  it('imports .ics files once per event', async () => {
+    const { service, blocks } = setup([]);
+    const file = ics(['UID:dentist', 'SUMMARY:Dentist', 'DTSTART:20240506T140000', 'DTEND:20240506T150000']);
+
+    expect(await service.importIcs('user-1', file)).toBe(1);
+    expect(await service.importIcs('user-1', file)).toBe(1);
+    expect(blocks()).toHaveLength(1);
+    expect(await service.eventsAround('user-1', at(6, 13, 30))).toEqual([
+      expect.objectContaining({ title: 'Dentist', type: 'appointment' }),
+    ]);
+  });
+});
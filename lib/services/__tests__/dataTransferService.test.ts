@@ -0,0 +1,274 @@
+import { DataTransferService, EXPORT_FORMAT, ExportPayload } from '../dataTransferService';
+import { Task, Suggestion, Feedback, Subtask, Reminder, TimeEntry, SavedView } from '../../types';
+
+jest.mock('../../database', () => {
+  let counter = 0;
+  return {
+    getDatabase: jest.fn(),
+    DatabaseUtils: {
+      formatDate: (date: Date) => date.toISOString(),
+      generateId: () => `new-${++counter}`,
+      serializeJSON: (data: any) => JSON.stringify(data),
+      deserializeJSON: (json: string) => {
+        try {
+          return JSON.parse(json);
+        } catch {
+          return null;
+        }
+      },
+    },
+  };
+});
+
+jest.mock('../databaseService', () => ({ DatabaseService: {} }));
+jest.mock('../syncService', () => ({ syncService: {} }));
+
+describe('DataTransferService', () => {
+  const userId = 'user-b';
+
+  const exportedTask = {
+    id: 'task-1',
+    user_id: 'user-a',
+    title: 'Morning run',
+    description: '5k loop',
+    completed: 1,
+    completed_at: '2024-03-01T07:30:00.000Z',
+    logged_after_completion: 0,
+    priority: 'high',
+    category: 'Health',
+    tags: ['fitness', 'outdoor'],
+    ai_suggested: 0,
+    reminder_enabled: 1,
+    reminder_time: '2024-03-01T07:00:00.000Z',
+    created_at: '2024-03-01T06:00:00.000Z',
+    updated_at: '2024-03-01T07:30:00.000Z',
+  } as unknown as Task;
+
+  const exportedSuggestion: Suggestion = {
+    id: 'sugg-1',
+    user_id: 'user-a',
+    title: 'Stretch after run',
+    category: 'Health',
+    confidence: 72,
+    priority: 'medium',
+    based_on: ['sequential_pattern'],
+    status: 'accepted',
+    created_at: '2024-03-01T08:00:00.000Z',
+  };
+
+  const exportedFeedback: Feedback = {
+    id: 'fb-1',
+    user_id: 'user-a',
+    suggestion_id: 'sugg-1',
+    feedback_type: 'positive',
+    created_at: '2024-03-01T08:05:00.000Z',
+  };
+
+  const exportedSubtask: Subtask = {
+    id: 'sub-1',
+    user_id: 'user-a',
+    task_id: 'task-1',
+    title: 'Stretch',
+    completed: true,
+    completed_at: '2024-03-01T06:10:00.000Z',
+    position: 0,
+    created_at: '2024-03-01T06:00:00.000Z',
+    updated_at: '2024-03-01T06:10:00.000Z',
+  };
+
+  const exportedReminder: Reminder = {
+    id: 'rem-1',
+    user_id: 'user-a',
+    task_id: 'task-1',
+    title: 'Morning run',
+    scheduled_time: '2024-03-01T07:00:00.000Z',
+    status: 'sent',
+    created_at: '2024-03-01T06:00:00.000Z',
+    updated_at: '2024-03-01T07:00:00.000Z',
+  };
+
+  const exportedTimeEntry: TimeEntry = {
+    id: 'entry-1',
+    user_id: 'user-a',
+    task_id: 'task-1',
+    started_at: '2024-03-01T07:00:00.000Z',
+    ended_at: '2024-03-01T07:28:00.000Z',
+    ended_by: 'stop',
+    source: 'timer',
+    created_at: '2024-03-01T07:00:00.000Z',
+    updated_at: '2024-03-01T07:28:00.000Z',
+  };
+
+  const exportedView: SavedView = {
+    id: 'view-1',
+    user_id: 'user-a',
+    name: 'Workouts',
+    combinator: 'and',
+    conditions: [{ field: 'category', value: 'Health' }],
+    pinned: true,
+    position: 2,
+    created_at: '2024-02-01T00:00:00.000Z',
+    updated_at: '2024-02-01T00:00:00.000Z',
+  };
+
+  const payload: ExportPayload = {
+    format: EXPORT_FORMAT,
+    version: 1,
+    tasks: [exportedTask],
+    subtasks: [exportedSubtask],
+    reminders: [exportedReminder],
+    time_entries: [exportedTimeEntry],
+    suggestions: [exportedSuggestion],
+    feedback: [exportedFeedback],
+    saved_views: [exportedView],
+    preferences: {
+      user_id: 'user-a',
+      theme: 'dark',
+      notifications_enabled: true,
+      ai_suggestions_enabled: false,
+      smart_reminders_enabled: true,
+      reminder_frequency: 'weekly',
+      created_at: '2024-01-01T00:00:00.000Z',
+      updated_at: '2024-01-01T00:00:00.000Z',
+    },
+  };
+
+  const noExisting = { tasks: [], subtasks: [], reminders: [], timeEntries: [], suggestions: [], feedback: [], savedViews: [] };
+
+  describe('parse', () => {
+    it('accepts a file produced by buildExport', () => {
+      const result = DataTransferService.parse(JSON.stringify(payload));
+
+      expect(result.valid).toBe(true);
+      expect(result.payload?.tasks).toHaveLength(1);
+    });
+
+    it('accepts older exports without a format marker', () => {
+      const result = DataTransferService.parse(JSON.stringify({ tasks: [exportedTask] }));
+
+      expect(result.valid).toBe(true);
+    });
+
+    it('rejects malformed files', () => {
+      expect(DataTransferService.parse('{not json').errors).toEqual(['File is not valid JSON']);
+      expect(DataTransferService.parse('[]').valid).toBe(false);
+      expect(DataTransferService.parse(JSON.stringify({ tasks: {} })).errors).toContain('"tasks" must be an array');
+      expect(DataTransferService.parse(JSON.stringify({ format: 'other', tasks: [] })).valid).toBe(false);
+      expect(DataTransferService.parse(JSON.stringify({ version: 99, tasks: [] })).valid).toBe(false);
+    });
+  });
+
+  describe('planImport', () => {
+    it('round-trips every exported field onto the importing user', () => {
+      const plan = DataTransferService.planImport(userId, payload, noExisting, 'merge');
+
+      expect(plan.tasks).toHaveLength(1);
+      const task = plan.tasks[0];
+      expect(task.id).not.toBe('task-1');
+      expect(task).toMatchObject({
+        user_id: userId,
+        title: 'Morning run',
+        description: '5k loop',
+        completed: true,
+        completed_at: '2024-03-01T07:30:00.000Z',
+        priority: 'high',
+        category: 'Health',
+        tags: ['fitness', 'outdoor'],
+        reminder_enabled: true,
+        created_at: '2024-03-01T06:00:00.000Z',
+        updated_at: '2024-03-01T07:30:00.000Z',
+      });
+      expect(plan.suggestions[0]).toMatchObject({ user_id: userId, status: 'accepted', based_on: ['sequential_pattern'] });
+      expect(plan.preferences).toMatchObject({ theme: 'dark', reminder_frequency: 'weekly', ai_suggestions_enabled: false });
+
+      // The task's own records follow it onto its new id
+      expect(plan.subtasks).toEqual([{ ...exportedSubtask, id: plan.idMap['sub-1'], user_id: userId, task_id: task.id, deleted_at: undefined }]);
+      expect(plan.reminders).toEqual([
+        { ...exportedReminder, id: plan.idMap['rem-1'], user_id: userId, task_id: task.id, notification_id: undefined, deleted_at: undefined },
+      ]);
+      expect(plan.timeEntries).toEqual([{ ...exportedTimeEntry, id: plan.idMap['entry-1'], user_id: userId, task_id: task.id }]);
+      expect(plan.savedViews).toEqual([{ ...exportedView, id: plan.idMap['view-1'], user_id: userId, deleted_at: undefined }]);
+      expect(new Set(Object.values(plan.idMap)).size).toBe(7);
+      expect(plan.summary).toMatchObject({
+        subtasks: { total: 1, imported: 1 },
+        reminders: { total: 1, imported: 1 },
+        timeEntries: { total: 1, imported: 1 },
+        savedViews: { total: 1, imported: 1 },
+      });
+    });
+
+    it('attaches task records to an existing duplicate task and skips the ones it already has', () => {
+      const existing = {
+        ...noExisting,
+        tasks: [{ ...exportedTask, id: 'local-task' } as Task],
+        subtasks: [{ ...exportedSubtask, id: 'local-sub', task_id: 'local-task' }],
+        savedViews: [{ ...exportedView, id: 'local-view' }],
+      };
+
+      const plan = DataTransferService.planImport(userId, payload, existing, 'merge');
+
+      expect(plan.summary.subtasks.duplicates).toBe(1);
+      expect(plan.summary.savedViews.duplicates).toBe(1);
+      expect(plan.reminders.map(r => r.task_id)).toEqual(['local-task']);
+      expect(plan.timeEntries.map(e => e.task_id)).toEqual(['local-task']);
+    });
+
+    it('rewrites feedback references through the id map', () => {
+      const plan = DataTransferService.planImport(userId, payload, noExisting, 'merge');
+
+      expect(plan.feedback[0].suggestion_id).toBe(plan.suggestions[0].id);
+      expect(plan.idMap['sugg-1']).toBe(plan.suggestions[0].id);
+    });
+
+    it('skips tasks that already exist by id or by title and creation time', () => {
+      const existingById = { ...exportedTask, completed: true } as Task;
+      const existingByContent = { ...exportedTask, id: 'local-9', title: '  morning RUN ' } as Task;
+
+      const byId = DataTransferService.planImport(userId, payload, { ...noExisting, tasks: [existingById] }, 'merge');
+      const byContent = DataTransferService.planImport(userId, payload, { ...noExisting, tasks: [existingByContent] }, 'merge');
+
+      expect(byId.tasks).toHaveLength(0);
+      expect(byId.summary.tasks).toMatchObject({ total: 1, imported: 0, duplicates: 1 });
+      expect(byContent.summary.tasks.duplicates).toBe(1);
+      expect(byContent.idMap['task-1']).toBe('local-9');
+    });
+
+    it('attaches feedback to an existing duplicate suggestion', () => {
+      const existing = { ...noExisting, suggestions: [{ ...exportedSuggestion, id: 'local-sugg' }] };
+
+      const plan = DataTransferService.planImport(userId, payload, existing, 'merge');
+
+      expect(plan.summary.suggestions.duplicates).toBe(1);
+      expect(plan.feedback[0].suggestion_id).toBe('local-sugg');
+    });
+
+    it('ignores existing data in replace mode', () => {
+      const plan = DataTransferService.planImport(userId, payload, { ...noExisting, tasks: [exportedTask] }, 'replace');
+
+      expect(plan.summary.tasks.imported).toBe(1);
+      expect(plan.summary.mode).toBe('replace');
+    });
+
+    it('reports invalid records without failing the import', () => {
+      // Shaped like a hand-edited file, so not an ExportPayload as far as types go
+      const withInvalid: unknown = {
+        tasks: [exportedTask, { ...exportedTask, id: 'task-2', title: '' }, { ...exportedTask, id: 'task-3', priority: 'urgent' }],
+        feedback: [{ ...exportedFeedback, suggestion_id: 'missing' }],
+        subtasks: [{ ...exportedSubtask, task_id: 'missing' }],
+        time_entries: [{ ...exportedTimeEntry, ended_at: undefined }],
+      };
+
+      const plan = DataTransferService.planImport(userId, withInvalid as ExportPayload, noExisting, 'merge');
+
+      expect(plan.summary.tasks).toMatchObject({ total: 3, imported: 1, invalid: 2 });
+      expect(plan.summary.feedback.invalid).toBe(1);
+      expect(plan.summary.errors).toEqual([
+        'tasks[1]: missing title',
+        'tasks[2]: invalid priority "urgent"',
+        'subtasks[0]: references a task that is not in the export',
+        'time_entries[0]: invalid ended_at',
+        'feedback[0]: references a suggestion that is not in the export',
+      ]);
+    });
+  });
+});
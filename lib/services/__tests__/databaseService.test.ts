@@ -0,0 +1,166 @@
+import { DatabaseService, TRASH_RETENTION_DAYS } from '../databaseService';
+import { getDatabase } from '../../database';
+
+jest.mock('../../database', () => ({
+  getDatabase: jest.fn(),
+  DatabaseUtils: {
+    formatDate: (date: Date) => date.toISOString(),
+    deserializeJSON: (json: string) => {
+      try {
+        return JSON.parse(json);
+      } catch {
+        return null;
+      }
+    },
+  },
+}));
+jest.mock('@/lib/permissionsStore', () => ({}));
+jest.mock('@/components/PermissionPrompt', () => ({}));
+
+type Row = Record<string, any>;
+
+const DAY = 24 * 60 * 60 * 1000;
+const daysAgo = (days: number) => new Date(Date.now() - days * DAY).toISOString();
+
+/**
+ * In-memory stand-in for the statement shapes the trash methods run: SELECT,
+ * UPDATE and DELETE on one table, filtered by ANDed comparisons, IS [NOT] NULL
+ * checks and, for search, an FTS match on titles
+ */
+function createFakeDatabase(tables: Record<string, Row[]>) {
+  // Takes the WHERE clause's parameters off the front of the queue
+  const filter = (rows: Row[], where: string, queue: any[]) => {
+    const whereParams = queue.splice(0, (where.match(/\?/g) || []).length);
+    return rows.filter(row => matches(row, where, [...whereParams]));
+  };
+
+  const matches = (row: Row, where: string, params: any[]) =>
+    where.split(/\s+AND\s+/).every(condition => {
+      let match = condition.match(/^(?:\w+\.)?(\w+) IS (NOT )?NULL$/);
+      if (match) return (row[match[1]] == null) !== !!match[2];
+      match = condition.match(/^(?:\w+\.)?(\w+) (=|<=) (\?|\d+)$/);
+      if (match) {
+        const value = match[3] === '?' ? params.shift() : Number(match[3]);
+        const actual = typeof value === 'number' ? Number(row[match[1]]) : row[match[1]];
+        return match[2] === '=' ? actual === value : actual != null && actual <= value;
+      }
+      if (/^tasks_fts MATCH \?$/.test(condition)) {
+        const words = String(row.title).toLowerCase().split(/\s+/);
+        const terms = [...String(params.shift()).matchAll(/"([^"]+)"\*/g)].map(term => term[1]);
+        return terms.every(term => words.some(word => word.startsWith(term)));
+      }
+      if (condition === 'task_id NOT IN #') return !tables.tasks.some(task => task.id === row.task_id);
+      throw new Error(`Unsupported condition: ${condition}`);
+    });
+
+  const run = (sql: string, params: any[] = []) => {
+    // Collapse subqueries and function calls to # so only the outer statement is left
+    let statement = sql.replace(/\s+/g, ' ').trim();
+    while (/\([^()]*\)/.test(statement)) statement = statement.replace(/\([^()]*\)/g, '#');
+    const queue = [...params];
+
+    let match = statement.match(/^SELECT .* FROM (\w+)(?: JOIN (\w+) ON \S+ = \S+)? WHERE (.*?)(?: ORDER BY .*?)?( LIMIT \?(?: OFFSET \?)?)?$/);
+    if (match) {
+      const rows = filter(tables[match[2] || match[1]] || [], match[3], queue);
+      const [limit = rows.length, offset = 0] = match[4] ? queue : [];
+      return { rows: rows.slice(offset, offset + limit).map(row => ({ ...row })), changes: 0 };
+    }
+    match = statement.match(/^UPDATE (\w+) SET (.*?) WHERE (.*)$/);
+    if (match) {
+      const assignments = match[2].split(', ').map(assignment => assignment.split(' = '));
+      const values = assignments.map(([, value]) => (value === '?' ? queue.shift() : null));
+      const rows = filter(tables[match[1]] || [], match[3], queue);
+      rows.forEach(row => assignments.forEach(([column], i) => (row[column] = values[i])));
+      return { rows, changes: rows.length };
+    }
+    match = statement.match(/^DELETE FROM (\w+) WHERE (.*)$/);
+    if (match) {
+      const table = tables[match[1]] || [];
+      const doomed = filter(table, match[2], queue);
+      tables[match[1]] = table.filter(row => !doomed.includes(row));
+      return { rows: doomed, changes: doomed.length };
+    }
+    throw new Error(`Unsupported statement: ${statement}`);
+  };
+
+  return {
+    getAllAsync: jest.fn(async (sql: string, params?: any[]) => run(sql, params).rows),
+    getFirstAsync: jest.fn(async (sql: string, params?: any[]) => run(sql, params).rows[0] ?? null),
+    runAsync: jest.fn(async (sql: string, params?: any[]) => ({ changes: run(sql, params).changes, lastInsertRowId: 0 })),
+    withTransactionAsync: jest.fn(async (task: () => Promise<void>) => task()),
+  };
+}
+
+const taskRow = (id: string, title: string, overrides: Row = {}): Row => ({
+  id,
+  user_id: 'user-1',
+  title,
+  completed: 0,
+  priority: 'medium',
+  category: 'Personal',
+  tags: '[]',
+  ai_suggested: 0,
+  reminder_enabled: 0,
+  created_at: daysAgo(60),
+  updated_at: daysAgo(60),
+  deleted_at: null,
+  ...overrides,
+});
+
+describe('DatabaseService trash', () => {
+  let tables: Record<string, Row[]>;
+
+  beforeEach(() => {
+    tables = {
+      tasks: [taskRow('rent', 'Pay rent'), taskRow('invoice', 'Pay invoice')],
+      subtasks: [{ id: 'sub-1', user_id: 'user-1', task_id: 'invoice', deleted_at: null }],
+      reminders: [],
+      time_entries: [],
+      suggestions: [],
+      feedback: [],
+      saved_views: [],
+    };
+    (getDatabase as jest.Mock).mockResolvedValue(createFakeDatabase(tables));
+  });
+
+  const ids = (rows: Array<{ id: string }> | Row[]) => rows.map(row => row.id).sort();
+
+  it('hides trashed tasks from listings and search until restored', async () => {
+    expect(await DatabaseService.deleteTask('invoice')).toBe(true);
+
+    expect(ids(await DatabaseService.getTasks('user-1'))).toEqual(['rent']);
+    expect(await DatabaseService.getTask('invoice')).toBeNull();
+    const results = await DatabaseService.searchTasks('user-1', { query: 'pay', filters: {} });
+    expect(ids(results.map(result => result.task))).toEqual(['rent']);
+    expect(ids((await DatabaseService.getTrash('user-1')).tasks)).toEqual(['invoice']);
+
+    expect(await DatabaseService.restoreFromTrash('task', 'invoice')).toBe(true);
+
+    expect(ids(await DatabaseService.getTasks('user-1'))).toEqual(['invoice', 'rent']);
+    const restored = await DatabaseService.searchTasks('user-1', { query: 'invoice', filters: {} });
+    expect(ids(restored.map(result => result.task))).toEqual(['invoice']);
+    expect((await DatabaseService.getTrash('user-1')).tasks).toEqual([]);
+  });
+
+  it('only restores or purges items that are in the trash', async () => {
+    expect(await DatabaseService.restoreFromTrash('task', 'rent')).toBe(false);
+    expect(await DatabaseService.purgeFromTrash('task', 'rent')).toBe(false);
+    expect(ids(tables.tasks)).toEqual(['invoice', 'rent']);
+  });
+
+  it('purges trashed items only once they are past the retention window', async () => {
+    tables.tasks.push(
+      taskRow('expired', 'Old errand', { deleted_at: daysAgo(TRASH_RETENTION_DAYS + 1) }),
+      taskRow('recent', 'New errand', { deleted_at: daysAgo(TRASH_RETENTION_DAYS - 1) }),
+      taskRow('other-user', 'Old errand', { user_id: 'user-2', deleted_at: daysAgo(TRASH_RETENTION_DAYS + 1) })
+    );
+    tables.subtasks.push({ id: 'sub-2', user_id: 'user-1', task_id: 'expired', deleted_at: null });
+
+    expect(await DatabaseService.purgeExpiredTrash('user-1')).toBe(1);
+
+    expect(ids(tables.tasks)).toEqual(['invoice', 'other-user', 'recent', 'rent']);
+    expect(ids((await DatabaseService.getTrash('user-1')).tasks)).toEqual(['recent']);
+    // The purged task's subtasks go with it
+    expect(ids(tables.subtasks)).toEqual(['sub-1']);
+  });
+});
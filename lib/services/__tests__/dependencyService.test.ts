@@ -0,0 +1,81 @@
+import { DependencyService, DependencyCycleError } from '../dependencyService';
+import { sequentialPatternService } from '../sequentialPatternService';
+import { Task } from '../../types';
+
+jest.mock('../sequentialPatternService', () => ({
+  sequentialPatternService: { detectTaskDependencies: jest.fn() },
+}));
+
+describe('DependencyService', () => {
+  const task = (id: string, overrides: Partial<Task> = {}): Task => ({
+    id,
+    user_id: 'user-1',
+    title: id,
+    completed: false,
+    logged_after_completion: false,
+    priority: 'medium',
+    category: 'Work',
+    tags: [],
+    ai_suggested: false,
+    reminder_enabled: false,
+    created_at: '2024-05-01T08:00:00.000Z',
+    updated_at: '2024-05-01T08:00:00.000Z',
+    ...overrides,
+  });
+
+  describe('blocked state', () => {
+    it('is blocked while any blocker is open', () => {
+      const tasks = [task('draft'), task('review', { blocked_by: ['draft', 'data'] }), task('data', { completed: true })];
+
+      expect(DependencyService.isBlocked(tasks[1], tasks)).toBe(true);
+      expect(DependencyService.getBlockers(tasks[1], tasks).map(t => t.id)).toEqual(['draft']);
+    });
+
+    it('unblocks once blockers are completed or gone', () => {
+      const tasks = [task('draft', { completed: true }), task('review', { blocked_by: ['draft', 'trashed'] })];
+
+      expect(DependencyService.isBlocked(tasks[1], tasks)).toBe(false);
+    });
+  });
+
+  describe('cycle detection', () => {
+    const chain = [task('a'), task('b', { blocked_by: ['a'] }), task('c', { blocked_by: ['b'] })];
+
+    it('detects direct, transitive and self links', () => {
+      expect(DependencyService.wouldCreateCycle(chain, 'a', 'b')).toBe(true);
+      expect(DependencyService.wouldCreateCycle(chain, 'a', 'c')).toBe(true);
+      expect(DependencyService.wouldCreateCycle(chain, 'a', 'a')).toBe(true);
+      expect(DependencyService.wouldCreateCycle(chain, 'c', 'a')).toBe(false);
+    });
+
+    it('refuses to add a link that closes a loop', () => {
+      expect(() => DependencyService.addBlocker(chain, 'a', 'c')).toThrow(DependencyCycleError);
+      expect(DependencyService.addBlocker(chain, 'c', 'a')).toEqual(['b', 'a']);
+      expect(DependencyService.removeBlocker(chain, 'c', 'b')).toEqual([]);
+    });
+  });
+
+  describe('getSuggestedDependencies', () => {
+    it('offers inferred links between open tasks by title', async () => {
+      (sequentialPatternService.detectTaskDependencies as jest.Mock).mockResolvedValue(
+        new Map([
+          ['Send invoice', ['Log hours']],
+          ['Deploy', ['Run tests']],
+        ])
+      );
+      const tasks = [
+        task('t1', { title: 'log hours' }),
+        task('t2', { title: 'Send invoice' }),
+        task('t3', { title: 'Run tests', blocked_by: ['t4'] }),
+        task('t4', { title: 'Deploy' }),
+      ];
+
+      const suggestions = await DependencyService.getSuggestedDependencies('user-1', tasks);
+
+      // Deploy -> Run tests would loop, since Run tests already waits on Deploy
+      expect(suggestions).toEqual([
+        { taskId: 't2', taskTitle: 'Send invoice', blockerId: 't1', blockerTitle: 'log hours' },
+      ]);
+    });
+  });
+});
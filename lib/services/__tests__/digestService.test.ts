@@ -0,0 +1,169 @@
+import { DigestScheduler, buildDigest, digestContent, nextDigestTimes } from '../digestService';
+import { DatabaseService } from '../databaseService';
+import { Suggestion, Task, UserPreferences } from '../../types';
+
+jest.mock('../notificationPolicy', () => ({ notificationPolicy: {} }));
+jest.mock('../../storage', () => ({ TypedStorage: {} }));
+jest.mock('../databaseService', () => ({ DatabaseService: {} }));
+jest.mock('../analyticsService', () => ({
+  AnalyticsService: {
+    // High before medium before low is all these tests need from the ranking
+    getRankedTasksByPriority: (tasks: Task[]) => {
+      const rank = { high: 0, medium: 1, low: 2 };
+      return [...tasks].sort((a, b) => rank[a.priority] - rank[b.priority]);
+    },
+  },
+}));
+
+// Thursday 2 May 2024, local time
+const at = (day: number, hours: number, minutes = 0) => new Date(2024, 4, day, hours, minutes);
+
+const task = (id: string, overrides: Partial<Task> = {}): Task => ({
+  id,
+  user_id: 'user-1',
+  title: id,
+  completed: false,
+  logged_after_completion: false,
+  priority: 'medium',
+  category: 'Work',
+  tags: [],
+  ai_suggested: false,
+  reminder_enabled: false,
+  created_at: '2024-05-01T08:00:00.000Z',
+  updated_at: '2024-05-01T08:00:00.000Z',
+  ...overrides,
+});
+
+const suggestion = (id: string, confidence: number, overrides: Partial<Suggestion> = {}): Suggestion => ({
+  id,
+  user_id: 'user-1',
+  title: id,
+  category: 'Work',
+  confidence,
+  priority: 'medium',
+  based_on: [],
+  status: 'pending',
+  created_at: '2024-05-01T08:00:00.000Z',
+  ...overrides,
+});
+
+const preferences = (overrides: Partial<UserPreferences> = {}): UserPreferences => ({
+  user_id: 'user-1',
+  theme: 'system',
+  notifications_enabled: true,
+  ai_suggestions_enabled: true,
+  smart_reminders_enabled: false,
+  reminder_frequency: 'daily',
+  digest_time: '08:00',
+  digest_weekday: 1,
+  created_at: '2024-05-01T08:00:00.000Z',
+  updated_at: '2024-05-01T08:00:00.000Z',
+  ...overrides,
+});
+
+describe('nextDigestTimes', () => {
+  it('follows the chosen frequency, time and weekday', () => {
+    expect(nextDigestTimes(preferences(), at(2, 7), 2)).toEqual([at(2, 8), at(3, 8)]);
+    expect(nextDigestTimes(preferences(), at(2, 8), 1)).toEqual([at(3, 8)]);
+    expect(nextDigestTimes(preferences({ reminder_frequency: 'hourly' }), at(2, 7, 15), 2)).toEqual([at(2, 8), at(2, 9)]);
+    // Next Monday, then the one after
+    expect(nextDigestTimes(preferences({ reminder_frequency: 'weekly', digest_time: '18:30' }), at(2, 12), 2)).toEqual([
+      at(6, 18, 30),
+      at(13, 18, 30),
+    ]);
+  });
+});
+
+describe('buildDigest', () => {
+  it('sorts open tasks into overdue, due before the next digest and top ranked', () => {
+    const digest = buildDigest(
+      [
+        task('late', { due_date: at(1, 17).toISOString() }),
+        task('today', { due_date: at(2, 17).toISOString() }),
+        task('next-week', { due_date: at(9, 17).toISOString(), priority: 'high' }),
+        task('someday', { priority: 'low' }),
+        task('done', { due_date: at(1, 17).toISOString(), completed: true }),
+      ],
+      [
+        suggestion('weak', 40),
+        suggestion('strong', 90),
+        suggestion('expired', 95, { expires_at: at(2, 0).toISOString() }),
+        suggestion('accepted', 99, { status: 'accepted' }),
+      ],
+      'daily',
+      at(2, 8),
+      at(3, 8)
+    );
+
+    expect(digest.overdue.map(t => t.id)).toEqual(['late']);
+    expect(digest.due.map(t => t.id)).toEqual(['today']);
+    expect(digest.top.map(t => t.id)).toEqual(['next-week', 'someday']);
+    expect(digest.suggestions.map(s => s.id)).toEqual(['strong', 'weak']);
+    expect(digestContent(digest)).toEqual({
+      title: 'Daily digest',
+      body: '1 overdue · 1 due · 2 suggestions\nUp next: late',
+      data: { kind: 'digest', url: '/digest', at: at(2, 8).toISOString() },
+    });
+  });
+
+  it('has nothing to send when there is nothing open', () => {
+    expect(digestContent(buildDigest([task('done', { completed: true })], [], 'daily', at(2, 8), at(3, 8)))).toBeNull();
+  });
+});
+
+describe('DigestScheduler', () => {
+  function setup(prefs: UserPreferences | null, now: Date, quietUntil?: (at: Date) => Date) {
+    let scheduledIds = ['old-1'];
+    let nextId = 0;
+    Object.assign(DatabaseService, {
+      getUserPreferences: jest.fn(async () => prefs),
+      getTasks: jest.fn(async () => [task('late', { due_date: at(1, 17).toISOString() })]),
+      getSuggestions: jest.fn(async () => []),
+    });
+    const policy = {
+      schedule: jest.fn(async () => `digest-${++nextId}`),
+      cancel: jest.fn(async () => {}),
+      deliveryTime: jest.fn(async (when: Date) => (quietUntil ? quietUntil(when) : when)),
+    };
+    const scheduler = new DigestScheduler({
+      policy,
+      now: () => now,
+      scheduled: {
+        get: async () => scheduledIds,
+        set: async ids => {
+          scheduledIds = ids;
+        },
+      },
+    });
+    return { scheduler, policy, ids: () => scheduledIds };
+  }
+
+  it('replaces the digests scheduled ahead', async () => {
+    const { scheduler, policy, ids } = setup(preferences(), at(2, 12));
+
+    expect(await scheduler.refresh('user-1')).toEqual([at(3, 8), at(4, 8), at(5, 8)]);
+    expect(policy.cancel).toHaveBeenCalledWith('old-1');
+    expect(policy.schedule.mock.calls[0]).toEqual([expect.objectContaining({ title: 'Daily digest' }), at(3, 8)]);
+    expect(ids()).toEqual(['digest-1', 'digest-2', 'digest-3']);
+  });
+
+  it('sends one hourly digest for all the hours quiet hours hold back', async () => {
+    // Quiet until 7:30
+    const quiet = (when: Date) => (when.getHours() < 7 || (when.getHours() === 7 && when.getMinutes() < 30) ? at(3, 7, 30) : when);
+    const { scheduler, policy } = setup(preferences({ reminder_frequency: 'hourly' }), at(3, 1), quiet);
+
+    const delivered = await scheduler.refresh('user-1');
+
+    // 2:00 to 7:00 all land at 7:30; 8:00 to 13:00 go out as usual
+    expect(delivered.slice(0, 3)).toEqual([at(3, 7, 30), at(3, 8), at(3, 9)]);
+    expect(policy.schedule).toHaveBeenCalledTimes(7);
+  });
+
+  it('schedules nothing while notifications are off', async () => {
+    const { scheduler, policy, ids } = setup(preferences({ notifications_enabled: false }), at(2, 12));
+
+    expect(await scheduler.refresh('user-1')).toEqual([]);
+    expect(policy.schedule).not.toHaveBeenCalled();
+    expect(ids()).toEqual([]);
+  });
+});
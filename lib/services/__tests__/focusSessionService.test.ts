@@ -0,0 +1,153 @@
+import { FocusSessionService, focusSchedule } from '../focusSessionService';
+import { ActiveFocusSession, FocusSettings } from '../../storage';
+import { TimerState } from '../timeTrackingService';
+import { TimeEntry } from '../../types';
+
+jest.mock('../../storage', () => ({ TypedStorage: {} }));
+jest.mock('../deviceManagementService', () => ({ __esModule: true, default: {} }));
+jest.mock('../notificationPolicy', () => ({ notificationPolicy: {} }));
+jest.mock('../reminderRegistry', () => ({ reminderRegistry: {} }));
+jest.mock('../digestService', () => ({ digestScheduler: {} }));
+jest.mock('../timeTrackingService', () => ({ timeTracker: {} }));
+
+// The service ignores what the tracker returns
+const timer: TimerState = { status: 'idle', elapsedMs: 0, sessions: 0 };
+
+// Monday 6 May 2024, local time
+const at = (hours: number, minutes = 0) => new Date(2024, 4, 6, hours, minutes);
+
+const settings = (overrides: Partial<FocusSettings> = {}): FocusSettings => ({
+  workMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  cycles: 3,
+  longBreakEvery: 2,
+  ...overrides,
+});
+
+describe('focusSchedule', () => {
+  it('alternates work and breaks, with a long break every few cycles and none at the end', () => {
+    const phases = focusSchedule(settings(), at(9));
+
+    expect(phases.map(p => [p.kind, p.cycle, p.start, p.end])).toEqual([
+      ['work', 1, at(9), at(9, 25)],
+      ['shortBreak', 1, at(9, 25), at(9, 30)],
+      ['work', 2, at(9, 30), at(9, 55)],
+      ['longBreak', 2, at(9, 55), at(10, 10)],
+      ['work', 3, at(10, 10), at(10, 35)],
+    ]);
+  });
+
+  it('leaves out breaks of no length', () => {
+    expect(focusSchedule(settings({ cycles: 2, shortBreakMinutes: 0 }), at(9)).map(p => p.kind)).toEqual(['work', 'work']);
+  });
+});
+
+describe('FocusSessionService', () => {
+  let now: Date;
+  let stored: ActiveFocusSession | null;
+  let log: string[];
+  let holds: Array<Date | null>;
+  let cues: Array<{ title: string; at: Date }>;
+
+  beforeEach(() => {
+    now = at(9);
+    stored = null;
+    log = [];
+    holds = [];
+    cues = [];
+  });
+
+  const service = () =>
+    new FocusSessionService({
+      now: () => now,
+      session: {
+        get: async () => stored,
+        set: async session => {
+          stored = session;
+        },
+        clear: async () => {
+          stored = null;
+        },
+      },
+      settings: { get: async () => null, set: async () => {} },
+      tracker: {
+        start: jest.fn(async (userId: string, taskId: string, options: { at?: Date; source?: TimeEntry['source'] } = {}) => {
+          log.push(`start ${taskId} ${options.at!.getHours()}:${options.at!.getMinutes()} ${options.source}`);
+          return timer;
+        }),
+        pause: jest.fn(async (taskId: string, when?: Date) => {
+          log.push(`pause ${taskId} ${when!.getHours()}:${when!.getMinutes()}`);
+          return timer;
+        }),
+        stop: jest.fn(async (taskId: string, when?: Date) => {
+          log.push(`stop ${taskId} ${when!.getHours()}:${when!.getMinutes()}`);
+          return timer;
+        }),
+      },
+      policy: {
+        schedule: jest.fn(async (content: { title: string }, when: Date) => {
+          cues.push({ title: content.title, at: when });
+          return `cue-${cues.length}`;
+        }),
+        cancel: jest.fn(async (id: string) => {
+          log.push(`cancel ${id}`);
+        }),
+      },
+      hold: jest.fn(async (userId: string, until: Date | null) => {
+        holds.push(until);
+      }),
+    });
+
+  const task = { id: 'task-1', title: 'Write report' };
+
+  it('holds notifications for the whole session and cues each phase change', async () => {
+    const state = await service().start('user-1', task, settings());
+
+    expect(holds).toEqual([at(10, 35)]);
+    expect(cues).toEqual([
+      { title: 'Time for a break', at: at(9, 25) },
+      { title: 'Back to focus', at: at(9, 30) },
+      { title: 'Time for a long break', at: at(9, 55) },
+      { title: 'Back to focus', at: at(10, 10) },
+      { title: 'Focus session complete', at: at(10, 35) },
+    ]);
+    expect(state).toMatchObject({ taskId: 'task-1', phase: { kind: 'work', cycle: 1 }, endsAt: at(10, 35) });
+    expect(log).toEqual(['start task-1 9:0 focus']);
+  });
+
+  it('logs work intervals that passed while the app was closed', async () => {
+    await service().start('user-1', task, settings());
+    now = at(10, 0);
+
+    expect((await service().current())?.phase).toMatchObject({ kind: 'longBreak', cycle: 2 });
+    expect(log).toEqual([
+      'start task-1 9:0 focus',
+      'pause task-1 9:25',
+      'start task-1 9:30 focus',
+      'pause task-1 9:55',
+    ]);
+
+    now = at(11);
+    expect(await service().current()).toBeNull();
+    expect(log.slice(4)).toEqual(['start task-1 10:10 focus', 'pause task-1 10:35', 'stop task-1 10:35']);
+    expect(stored).toBeNull();
+  });
+
+  it('ends early, logging the interval in progress and lifting the hold', async () => {
+    await service().start('user-1', task, settings());
+    now = at(9, 40);
+
+    await service().end();
+
+    expect(log).toEqual([
+      'start task-1 9:0 focus',
+      'pause task-1 9:25',
+      'start task-1 9:30 focus',
+      'stop task-1 9:40',
+      ...cues.map((cue, i) => `cancel cue-${i + 1}`),
+    ]);
+    expect(holds).toEqual([at(10, 35), null]);
+    expect(stored).toBeNull();
+  });
+});
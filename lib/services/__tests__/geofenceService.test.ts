@@ -0,0 +1,138 @@
+import { GeofenceManager, GeofenceClient, selectRegions } from '../geofenceService';
+import { DatabaseService } from '../databaseService';
+import { LocationReminder, Task } from '../../types';
+
+jest.mock('expo-location', () => ({}));
+jest.mock('../notificationPolicy', () => ({ notificationPolicy: {} }));
+jest.mock('react-native', () => ({ Platform: { OS: 'ios' } }));
+jest.mock('../../storage', () => ({ TypedStorage: {} }));
+jest.mock('../reminderRegistry', () => ({ REMINDER_CATEGORY: 'task-reminder' }));
+jest.mock('../databaseService', () => ({ DatabaseService: {} }));
+
+const HOME = { latitude: 52.3702, longitude: 4.8952 };
+
+const place = (latitude: number, overrides: Partial<LocationReminder> = {}): LocationReminder => ({
+  latitude,
+  longitude: HOME.longitude,
+  radius: 200,
+  placeName: 'Grocery store',
+  trigger: 'enter',
+  ...overrides,
+});
+
+const task = (id: string, overrides: Partial<Task> = {}): Task => ({
+  id,
+  user_id: 'user-1',
+  title: 'Buy milk',
+  completed: false,
+  logged_after_completion: false,
+  priority: 'medium',
+  category: 'Personal',
+  tags: [],
+  ai_suggested: false,
+  reminder_enabled: false,
+  location_reminder: place(HOME.latitude),
+  created_at: '2024-05-01T08:00:00.000Z',
+  updated_at: '2024-05-01T08:00:00.000Z',
+  ...overrides,
+});
+
+function setup(tasks: Task[], options: { limit?: number; canMonitor?: boolean } = {}) {
+  let transitions: Record<string, 'enter' | 'exit'> = {};
+  Object.assign(DatabaseService, {
+    getTask: jest.fn(async (id: string) => tasks.find(t => t.id === id) || null),
+    getTasks: jest.fn(async () => tasks.filter(t => !t.completed)),
+  });
+
+  const client: GeofenceClient = {
+    start: jest.fn(async () => {}),
+    stop: jest.fn(async () => {}),
+    canMonitor: jest.fn(async () => options.canMonitor ?? true),
+    lastKnownPosition: jest.fn(async () => HOME),
+  };
+  const notify = jest.fn(async () => {});
+  const manager = new GeofenceManager({
+    client,
+    notify,
+    limit: options.limit,
+    transitions: {
+      get: async () => ({ ...transitions }),
+      set: async next => {
+        transitions = next;
+      },
+    },
+  });
+  return { manager, client, notify };
+}
+
+describe('selectRegions', () => {
+  it('keeps the nearest places when over the region limit, then the soonest due', () => {
+    const tasks = [
+      task('far', { location_reminder: place(52.5) }),
+      task('near-later', { location_reminder: place(52.371), due_date: '2024-05-09T00:00:00.000Z' }),
+      task('near-sooner', { location_reminder: place(52.371), due_date: '2024-05-03T00:00:00.000Z' }),
+      task('mid', { location_reminder: place(52.4) }),
+      task('done', { completed: true }),
+      task('plain', { location_reminder: undefined }),
+    ];
+
+    const regions = selectRegions(tasks, HOME, 3);
+
+    expect(regions.map(region => region.identifier)).toEqual(['near-sooner', 'near-later', 'mid']);
+  });
+
+  it('maps the trigger onto enter or exit notifications', () => {
+    const [region] = selectRegions([task('task-1', { location_reminder: place(HOME.latitude, { trigger: 'exit' }) })], null, 20);
+
+    expect(region).toMatchObject({ radius: 200, notifyOnEnter: false, notifyOnExit: true });
+  });
+});
+
+describe('GeofenceManager', () => {
+  it('registers every location reminder as one set', async () => {
+    const { manager, client } = setup([task('task-1'), task('task-2', { location_reminder: place(52.4) })]);
+
+    await manager.refresh('user-1');
+
+    expect(client.start).toHaveBeenCalledTimes(1);
+    expect((client.start as jest.Mock).mock.calls[0][0].map((r: any) => r.identifier)).toEqual(['task-1', 'task-2']);
+  });
+
+  it('stops monitoring when nothing is left or background location is off', async () => {
+    const empty = setup([task('task-1', { location_reminder: undefined })]);
+    await empty.manager.refresh('user-1');
+    expect(empty.client.stop).toHaveBeenCalled();
+    expect(empty.client.start).not.toHaveBeenCalled();
+
+    const denied = setup([task('task-1')], { canMonitor: false });
+    expect(await denied.manager.refresh('user-1')).toEqual([]);
+    expect(denied.client.start).not.toHaveBeenCalled();
+  });
+
+  it('notifies once per visit on the matching transition', async () => {
+    const { manager, notify } = setup([task('task-1')]);
+
+    expect(await manager.handleEvent('enter', 'task-1')).toBe(true);
+    expect(await manager.handleEvent('enter', 'task-1')).toBe(false);
+    expect(await manager.handleEvent('exit', 'task-1')).toBe(false);
+    expect(await manager.handleEvent('enter', 'task-1')).toBe(true);
+
+    expect(notify).toHaveBeenCalledTimes(2);
+    expect(notify).toHaveBeenCalledWith(
+      {
+        title: 'Task Reminder: Buy milk',
+        body: "You're at Grocery store",
+        data: { taskId: 'task-1' },
+        categoryIdentifier: 'task-reminder',
+      },
+      { priority: 'medium' }
+    );
+  });
+
+  it('ignores events for completed tasks', async () => {
+    const { manager, notify } = setup([task('task-1', { completed: true })]);
+
+    expect(await manager.handleEvent('enter', 'task-1')).toBe(false);
+    expect(notify).not.toHaveBeenCalled();
+  });
+});
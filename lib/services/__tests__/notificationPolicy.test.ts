@@ -0,0 +1,130 @@
+import { NotificationPolicy, NotificationSettings, getQuietUntil } from '../notificationPolicy';
+import { HeldNotifications } from '../../storage';
+
+jest.mock('expo-notifications', () => ({}));
+jest.mock('../../storage', () => ({ TypedStorage: {} }));
+jest.mock('../deviceManagementService', () => ({ __esModule: true, default: {} }));
+
+// Thursday 2 May 2024, local time
+const at = (day: number, hours: number, minutes = 0) => new Date(2024, 4, day, hours, minutes);
+
+const settings = (overrides: Partial<NotificationSettings['quietHours']> = {}, focusUntil?: Date): NotificationSettings => ({
+  enabled: true,
+  sound: true,
+  vibration: true,
+  quietHours: { enabled: true, start: '22:00', end: '07:30', ...overrides },
+  focusUntil: focusUntil?.toISOString(),
+});
+
+function setup(current: NotificationSettings, now: Date) {
+  let held: HeldNotifications | null = null;
+  let nextId = 0;
+  const scheduled: Array<{ id: string; title: string; at: Date | null }> = [];
+  const client = {
+    schedule: jest.fn(async (content: { title: string }, when: Date | null) => {
+      const id = `notif-${++nextId}`;
+      scheduled.push({ id, title: content.title, at: when });
+      return id;
+    }),
+    cancel: jest.fn(async (id: string) => {
+      scheduled.splice(scheduled.findIndex(n => n.id === id), 1);
+    }),
+  };
+  const policy = new NotificationPolicy({
+    client,
+    settings: async () => current,
+    now: () => now,
+    held: {
+      get: async () => held,
+      set: async next => {
+        held = next;
+      },
+    },
+  });
+  return { policy, client, scheduled };
+}
+
+const content = (title: string) => ({ title, body: '', data: {} });
+
+describe('getQuietUntil', () => {
+  it('covers overnight windows on both sides of midnight', () => {
+    expect(getQuietUntil(settings(), at(2, 23))).toEqual(at(3, 7, 30));
+    expect(getQuietUntil(settings(), at(3, 6))).toEqual(at(3, 7, 30));
+    expect(getQuietUntil(settings(), at(3, 12))).toBeNull();
+  });
+
+  it('uses per-weekday windows by the day they start', () => {
+    // Friday night off, Saturday night later
+    const weekend = settings({ weekdays: { 5: null, 6: { start: '23:30', end: '10:00' } } });
+
+    expect(getQuietUntil(weekend, at(3, 23))).toBeNull();
+    expect(getQuietUntil(weekend, at(4, 23))).toBeNull();
+    expect(getQuietUntil(weekend, at(5, 8))).toEqual(at(5, 10));
+    // Thursday night still ends on Friday morning
+    expect(getQuietUntil(weekend, at(3, 7))).toEqual(at(3, 7, 30));
+  });
+
+  it('holds everything during focus, running on into quiet hours', () => {
+    expect(getQuietUntil(settings({ enabled: false }, at(2, 15)), at(2, 14))).toEqual(at(2, 15));
+    expect(getQuietUntil(settings({}, at(2, 23)), at(2, 21))).toEqual(at(3, 7, 30));
+  });
+});
+
+describe('NotificationPolicy', () => {
+  it('defers scheduled notifications to the end of quiet hours', async () => {
+    const { policy, scheduled } = setup(settings(), at(2, 12));
+
+    await policy.schedule(content('Call the bank'), at(2, 23));
+    await policy.schedule(content('Water plants'), at(2, 18));
+
+    expect(scheduled.map(n => [n.title, n.at])).toEqual([
+      ['Call the bank', at(3, 7, 30)],
+      ['Water plants', at(2, 18)],
+    ]);
+  });
+
+  it('lets high-priority tasks through when allowed', async () => {
+    const { policy } = setup(settings({ allowHighPriority: true }), at(2, 12));
+
+    expect(await policy.deliveryTime(at(2, 23), { priority: 'high' })).toEqual(at(2, 23));
+    expect(await policy.deliveryTime(at(2, 23), { priority: 'medium' })).toEqual(at(3, 7, 30));
+  });
+
+  it("lets a focus session's own cues through its hold, but not through quiet hours", async () => {
+    const { policy } = setup(settings({}, at(2, 14)), at(2, 12));
+
+    expect(await policy.deliveryTime(at(2, 12, 25), { bypassFocus: true })).toEqual(at(2, 12, 25));
+    expect(await policy.deliveryTime(at(2, 12, 25))).toEqual(at(2, 14));
+    expect(await policy.deliveryTime(at(2, 23), { bypassFocus: true })).toEqual(at(3, 7, 30));
+  });
+
+  it('schedules nothing while notifications are off', async () => {
+    const { policy, client } = setup({ ...settings(), enabled: false }, at(2, 12));
+
+    expect(await policy.schedule(content('Call the bank'), at(2, 18))).toBeNull();
+    expect(client.schedule).not.toHaveBeenCalled();
+  });
+
+  it('marks a lone held notification as held, keeping its data', async () => {
+    const { policy, client } = setup(settings(), at(2, 23));
+
+    await policy.present({ title: 'You arrived at the shop', body: '', data: { taskId: 'task-1' } });
+
+    expect(client.schedule).toHaveBeenCalledWith(
+      { title: 'You arrived at the shop', body: '', data: { taskId: 'task-1', held: true } },
+      at(3, 7, 30)
+    );
+  });
+
+  it('batches immediate notifications held by quiet hours into one summary', async () => {
+    const { policy, scheduled } = setup(settings(), at(2, 23));
+
+    await policy.present(content('Buy milk'));
+    expect(scheduled.map(n => n.title)).toEqual(['Buy milk']);
+
+    await policy.present(content('Post letter'));
+    expect(scheduled).toEqual([
+      { id: 'notif-2', title: '2 notifications during quiet hours', at: at(3, 7, 30) },
+    ]);
+  });
+});
@@ -0,0 +1,135 @@
+import { describePatterns } from '../patternManagementService';
+import { applyPatternCorrection, UserPattern, TemporalPattern, PatternOverride } from '../../patternDatabase';
+import { TaskPattern } from '../../types';
+
+jest.mock('../../database', () => ({
+  getDatabase: jest.fn(),
+  DatabaseUtils: { formatDate: (date: Date) => date.toISOString() },
+}));
+jest.mock('../databaseService', () => ({ DatabaseService: {} }));
+jest.mock('../syncService', () => ({ syncService: {} }));
+jest.mock('../feedbackLearningService', () => ({ __esModule: true, default: {} }));
+
+// Monday 15 January 2024, 10:00 local time
+const monday = new Date(2024, 0, 15, 10);
+
+const temporalPattern = (overrides: Partial<TemporalPattern> = {}): TemporalPattern => ({
+  id: 'temporal-1',
+  user_id: 'user-1',
+  task_title: 'Weekly review',
+  task_category: 'Work',
+  time_of_day: 10,
+  day_of_week: 1,
+  frequency: 6,
+  period_type: 'weekly',
+  confidence: 0.6,
+  last_occurrence: new Date(2024, 0, 8, 10).toISOString(),
+  next_predicted: monday.toISOString(),
+  created_at: '2023-12-01T00:00:00.000Z',
+  updated_at: '2024-01-08T00:00:00.000Z',
+  ...overrides,
+});
+
+const userPattern = (overrides: Partial<UserPattern>): UserPattern => ({
+  id: 'frequency-1',
+  user_id: 'user-1',
+  pattern_type: 'frequency',
+  pattern_data: { taskTitle: 'Water plants', category: 'Home', intervalDays: 3.04 },
+  confidence: 0.7,
+  frequency: 9,
+  last_occurrence: '2024-01-12T08:00:00.000Z',
+  created_at: '2023-12-01T00:00:00.000Z',
+  updated_at: '2024-01-12T00:00:00.000Z',
+  ...overrides,
+});
+
+const taskPattern: TaskPattern = {
+  id: 'task-pattern-1',
+  user_id: 'user-1',
+  pattern_type: 'category',
+  pattern_data: { category: 'Health' },
+  confidence: 40,
+  last_updated: '2024-01-10T00:00:00.000Z',
+  created_at: '2023-12-01T00:00:00.000Z',
+};
+
+const override = (id: string, changes: Partial<PatternOverride>): PatternOverride => ({
+  id,
+  user_id: 'user-1',
+  pinned: false,
+  forgotten: false,
+  corrections: {},
+  created_at: '2024-01-14T00:00:00.000Z',
+  updated_at: '2024-01-14T00:00:00.000Z',
+  ...changes,
+});
+
+describe('applyPatternCorrection', () => {
+  it('moves a weekly pattern and its next occurrence to the corrected weekday', () => {
+    const corrected = applyPatternCorrection(temporalPattern(), { day_of_week: 2 });
+
+    expect(corrected.day_of_week).toBe(2);
+    expect(corrected.time_of_day).toBe(10);
+    expect(new Date(corrected.next_predicted)).toEqual(new Date(2024, 0, 16, 10));
+  });
+
+  it('picks the nearest corrected weekday, earlier or later', () => {
+    const corrected = applyPatternCorrection(temporalPattern(), { day_of_week: 6, time_of_day: 8 });
+
+    expect(new Date(corrected.next_predicted)).toEqual(new Date(2024, 0, 13, 8));
+  });
+
+  it('only moves the hour of a daily pattern', () => {
+    const corrected = applyPatternCorrection(temporalPattern({ period_type: 'daily' }), { time_of_day: 7 });
+
+    expect(new Date(corrected.next_predicted)).toEqual(new Date(2024, 0, 15, 7));
+  });
+
+  it('returns the pattern itself when the correction changes nothing', () => {
+    const pattern = temporalPattern();
+
+    expect(applyPatternCorrection(pattern, { day_of_week: 1 })).toBe(pattern);
+    expect(applyPatternCorrection(pattern, {})).toBe(pattern);
+  });
+});
+
+describe('describePatterns', () => {
+  const sources = {
+    temporalPatterns: [temporalPattern()],
+    userPatterns: [
+      userPattern({}),
+      userPattern({
+        id: 'sequential-1',
+        pattern_type: 'sequential',
+        pattern_data: { sequence: ['Plan sprint', 'Send agenda'], category: 'Work' },
+        confidence: 0.5,
+      }),
+    ],
+    taskPatterns: [taskPattern],
+  };
+
+  it('lists every table in one shape, the most confident first', () => {
+    const patterns = describePatterns(sources, []);
+
+    expect(patterns.map(p => [p.id, p.table, p.title, p.detail])).toEqual([
+      ['frequency-1', 'user_patterns', 'Water plants', 'About every 3 days'],
+      ['temporal-1', 'temporal_patterns', 'Weekly review', 'Mondays around 10:00 AM'],
+      ['sequential-1', 'user_patterns', 'Plan sprint → Send agenda', 'Done one after the other (Work)'],
+      ['task-pattern-1', 'task_patterns', 'Category pattern', 'Health'],
+    ]);
+    expect(patterns[3].confidence).toBe(0.4);
+  });
+
+  it('puts pinned patterns first, flags corrections and leaves forgotten ones out', () => {
+    const patterns = describePatterns(sources, [
+      override('sequential-1', { pinned: true }),
+      override('temporal-1', { corrections: { day_of_week: 2 } }),
+      override('task-pattern-1', { forgotten: true }),
+    ]);
+
+    expect(patterns.map(p => p.id)).toEqual(['sequential-1', 'frequency-1', 'temporal-1']);
+    expect(patterns[0].pinned).toBe(true);
+    expect(patterns[2].corrected).toBe(true);
+    expect(patterns[1].corrected).toBe(false);
+  });
+});
@@ -0,0 +1,150 @@
+import {
+  TaskStats,
+  addCompletion,
+  summarizeTiming,
+  summarizeFrequency,
+  contextOf,
+  addContextCompletion,
+  summarizeContext,
+  followsWithinGap,
+  addTransition,
+  sequenceKey,
+  EMPTY_COMPLETION_STATS,
+  foldCompletions,
+  buildPatterns,
+} from '../patternStatistics';
+import { Task } from '../../types';
+
+// Monday 6 May 2024, local time
+const at = (day: number, hours: number, minutes = 0) => new Date(2024, 4, day, hours, minutes);
+
+const task = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-1',
+  user_id: 'user-1',
+  title: 'Weekly review',
+  category: 'Work',
+  priority: 'medium',
+  completed: true,
+  tags: [],
+  created_at: at(6, 8).toISOString(),
+  updated_at: at(6, 8).toISOString(),
+  ...overrides,
+} as Task);
+
+const fold = (dates: Date[], base: Partial<Task> = {}) =>
+  dates.reduce<TaskStats | undefined>((stats, date) => addCompletion(stats, task(base), date), undefined)!;
+
+describe('task statistics', () => {
+  it('keeps histograms and the rhythm between completions', () => {
+    const stats = fold([at(6, 9), at(13, 9), at(20, 10)]);
+
+    expect(stats.occurrences).toBe(3);
+    expect(stats.hours[9]).toBe(2);
+    expect(stats.weekdays[1]).toBe(3);
+    expect(stats.intervalDays.count).toBe(2);
+    expect(stats.lastOccurrence).toBe(at(20, 10).toISOString());
+  });
+
+  it('counts a completion logged out of order without bending the rhythm', () => {
+    const stats = fold([at(6, 9), at(20, 9), at(13, 9)]);
+
+    expect(stats.occurrences).toBe(3);
+    expect(stats.intervalDays).toEqual(fold([at(6, 9), at(20, 9)]).intervalDays);
+    expect(stats.lastOccurrence).toBe(at(20, 9).toISOString());
+  });
+
+  it('summarizes a weekly habit by its usual slot and next occurrence', () => {
+    const timing = summarizeTiming(fold([at(6, 9), at(13, 9), at(20, 9)]));
+
+    expect(timing).toMatchObject({ preferredHour: 9, preferredDay: 1, preferredMonth: 5, periodType: 'weekly' });
+    expect(timing.confidence).toBe(1);
+    expect(timing.nextPredicted).toEqual(at(27, 9));
+  });
+
+  it('scores regular intervals above erratic ones', () => {
+    const regular = summarizeFrequency(fold([at(1, 9), at(8, 9), at(15, 9), at(22, 9), at(29, 9)]));
+    const erratic = summarizeFrequency(fold([at(1, 9), at(2, 9), at(15, 9), at(16, 9), at(29, 9)]));
+
+    expect(regular).toMatchObject({ intervalDays: 7, regularityScore: 1, confidence: 1 });
+    expect(regular.nextPredicted).toEqual(new Date(at(29, 9).getTime() + 7 * 24 * 60 * 60 * 1000));
+    expect(erratic.regularityScore).toBeLessThan(0.5);
+    expect(summarizeFrequency(fold([at(1, 9)])).confidence).toBe(0);
+  });
+});
+
+describe('context statistics', () => {
+  it('places completions in time slots and day types', () => {
+    expect(contextOf(at(6, 9))).toEqual({ timeSlot: 'morning', dayType: 'weekday' });
+    expect(contextOf(at(11, 23))).toEqual({ timeSlot: 'evening', dayType: 'weekend' });
+    expect(contextOf(at(12, 2))).toEqual({ timeSlot: 'night', dayType: 'weekend' });
+  });
+
+  it('learns what gets done in a context, trusting it more as it repeats', () => {
+    const completions = [
+      task({ title: 'Inbox zero', category: 'Work' }),
+      task({ title: 'Inbox zero', category: 'Work' }),
+      task({ title: 'Stretch', category: 'Health' }),
+      task({ title: 'Inbox zero', category: 'Work' }),
+    ];
+    const stats = completions.reduce<ReturnType<typeof addContextCompletion> | undefined>(
+      (current, item) => addContextCompletion(current, item, at(6, 9)),
+      undefined
+    )!;
+    const summary = summarizeContext(stats);
+
+    expect(summary).toMatchObject({ taskTitle: 'Inbox zero', category: 'Work', categories: ['Work', 'Health'] });
+    expect(summary.averageCompletionTime).toBe(60);
+    expect(summary.confidence).toBeCloseTo(0.75 * 0.4);
+  });
+});
+
+describe('sequence statistics', () => {
+  const first = task({ title: 'Gather numbers', completed_at: at(6, 9).toISOString() });
+  const second = task({ title: 'Draft summary', completed_at: at(6, 9, 30).toISOString() });
+
+  it('only links completions of different tasks close together', () => {
+    expect(followsWithinGap(first, second)).toBe(true);
+    expect(followsWithinGap(first, { ...second, completed_at: at(6, 12).toISOString() })).toBe(false);
+    expect(followsWithinGap(first, { ...first, completed_at: at(6, 9, 10).toISOString() })).toBe(false);
+    expect(followsWithinGap(second, first)).toBe(false);
+  });
+
+  it('keys pairs by title and averages the gap between them', () => {
+    const once = addTransition(undefined, first, second, at(6, 9, 30));
+    const twice = addTransition(
+      once,
+      { ...first, completed_at: at(7, 9).toISOString() },
+      { ...second, title: 'draft summary ' },
+      at(7, 9, 10)
+    );
+
+    expect(sequenceKey(first, second)).toBe(sequenceKey(first, { title: ' DRAFT summary' }));
+    expect(twice).toMatchObject({ occurrences: 2, averageInterval: 20 * 60 * 1000 });
+  });
+});
+
+describe('folding completions into patterns', () => {
+  const completions = [6, 13, 20].flatMap(day => [
+    task({ id: `review-${day}`, completed_at: at(day, 9).toISOString() }),
+    task({ id: `plan-${day}`, title: 'Plan the week', completed_at: at(day, 9, 40).toISOString() }),
+  ]);
+
+  it('gives the same statistics folded at once or in two runs', () => {
+    const atOnce = foldCompletions(EMPTY_COMPLETION_STATS, completions);
+    const split = foldCompletions(foldCompletions(EMPTY_COMPLETION_STATS, completions.slice(0, 3)), completions.slice(3), completions[2]);
+
+    expect(split).toEqual(atOnce);
+    expect(Object.keys(atOnce.sequences)).toEqual([sequenceKey({ title: 'Weekly review' }, { title: 'Plan the week' })]);
+  });
+
+  it('builds every pattern the statistics support', () => {
+    const { patterns, temporalPatterns } = buildPatterns('user-1', foldCompletions(EMPTY_COMPLETION_STATS, completions), at(21, 8), 0.3);
+
+    expect(patterns.map(p => p.pattern_type).sort()).toEqual(['contextual', 'frequency', 'frequency', 'sequential']);
+    expect(temporalPatterns.map(p => [p.task_title, p.day_of_week, p.time_of_day])).toEqual([
+      ['Weekly review', 1, 9],
+      ['Plan the week', 1, 9],
+    ]);
+    expect(temporalPatterns[0].id).toBe('temporal_user-1_weekly review|Work');
+  });
+});
@@ -0,0 +1,129 @@
+import { RecurrenceService } from '../recurrenceService';
+import { Task } from '../../types';
+
+describe('RecurrenceService', () => {
+  // Wednesday 6 March 2024, 09:30 local time
+  const start = new Date(2024, 2, 6, 9, 30);
+
+  const task = (overrides: Partial<Task> = {}): Task => ({
+    id: 'task-1',
+    user_id: 'user-1',
+    title: 'Water plants',
+    completed: true,
+    logged_after_completion: false,
+    priority: 'medium',
+    category: 'Home',
+    tags: ['garden'],
+    ai_suggested: false,
+    reminder_enabled: true,
+    reminder_time: new Date(2024, 2, 6, 9, 0).toISOString(),
+    due_date: start.toISOString(),
+    created_at: new Date(2024, 2, 1).toISOString(),
+    updated_at: new Date(2024, 2, 6).toISOString(),
+    recurrence: { frequency: 'daily', interval: 1 },
+    series_id: 'task-1',
+    series_index: 1,
+    ...overrides,
+  });
+
+  describe('getNextOccurrence', () => {
+    it('repeats every N days at the same time', () => {
+      expect(RecurrenceService.getNextOccurrence({ frequency: 'daily', interval: 1 }, start)).toEqual(new Date(2024, 2, 7, 9, 30));
+      expect(RecurrenceService.getNextOccurrence({ frequency: 'daily', interval: 3 }, start)).toEqual(new Date(2024, 2, 9, 9, 30));
+    });
+
+    it('repeats weekly on the chosen weekdays', () => {
+      const rule = { frequency: 'weekly' as const, interval: 1, weekdays: [1, 3, 5] };
+
+      expect(RecurrenceService.getNextOccurrence(rule, start)).toEqual(new Date(2024, 2, 8, 9, 30));
+      expect(RecurrenceService.getNextOccurrence(rule, new Date(2024, 2, 8, 9, 30))).toEqual(new Date(2024, 2, 11, 9, 30));
+    });
+
+    it('skips weeks outside the interval', () => {
+      const rule = { frequency: 'weekly' as const, interval: 2, weekdays: [3] };
+
+      expect(RecurrenceService.getNextOccurrence(rule, start)).toEqual(new Date(2024, 2, 20, 9, 30));
+    });
+
+    it('defaults weekly rules to the weekday of the occurrence', () => {
+      expect(RecurrenceService.getNextOccurrence({ frequency: 'weekly', interval: 1 }, start)).toEqual(new Date(2024, 2, 13, 9, 30));
+    });
+
+    it('repeats monthly by day, clamped to short months', () => {
+      expect(RecurrenceService.getNextOccurrence({ frequency: 'monthly', interval: 1 }, start)).toEqual(new Date(2024, 3, 6, 9, 30));
+      expect(RecurrenceService.getNextOccurrence({ frequency: 'monthly', interval: 1, monthDay: 20 }, start)).toEqual(new Date(2024, 2, 20, 9, 30));
+
+      const endOfJanuary = new Date(2024, 0, 31, 8, 0);
+      expect(RecurrenceService.getNextOccurrence({ frequency: 'monthly', interval: 1, monthDay: 31 }, endOfJanuary)).toEqual(new Date(2024, 1, 29, 8, 0));
+    });
+
+    it('skips exception dates', () => {
+      const rule = { frequency: 'daily' as const, interval: 1, exceptions: ['2024-03-07', '2024-03-08'] };
+
+      expect(RecurrenceService.getNextOccurrence(rule, start)).toEqual(new Date(2024, 2, 9, 9, 30));
+    });
+
+    it('ends after the until date', () => {
+      const rule = { frequency: 'daily' as const, interval: 2, until: new Date(2024, 2, 8).toISOString() };
+
+      expect(RecurrenceService.getNextOccurrence(rule, start)).toEqual(new Date(2024, 2, 8, 9, 30));
+      expect(RecurrenceService.getNextOccurrence(rule, new Date(2024, 2, 8, 9, 30))).toBeNull();
+    });
+  });
+
+  describe('buildNextInstance', () => {
+    it('moves the due date and the reminder to the next occurrence', () => {
+      const next = RecurrenceService.buildNextInstance(task());
+
+      expect(next).toMatchObject({
+        title: 'Water plants',
+        tags: ['garden'],
+        due_date: new Date(2024, 2, 7, 9, 30).toISOString(),
+        reminder_time: new Date(2024, 2, 7, 9, 0).toISOString(),
+        series_id: 'task-1',
+        series_index: 2,
+      });
+    });
+
+    it('stops once the series has reached its count', () => {
+      const rule = { frequency: 'daily' as const, interval: 1, count: 3 };
+
+      expect(RecurrenceService.buildNextInstance(task({ recurrence: rule, series_index: 2 }))).not.toBeNull();
+      expect(RecurrenceService.buildNextInstance(task({ recurrence: rule, series_index: 3 }))).toBeNull();
+    });
+
+    it('keeps a monthly series on its original day after a short month', () => {
+      const january = task({
+        due_date: new Date(2024, 0, 31, 8, 0).toISOString(),
+        reminder_time: undefined,
+        recurrence: RecurrenceService.anchorRule({ frequency: 'monthly', interval: 1 }, new Date(2024, 0, 31, 8, 0)),
+      });
+
+      const february = RecurrenceService.buildNextInstance(january)!;
+      const march = RecurrenceService.buildNextInstance(task({ ...february, reminder_time: undefined }))!;
+
+      expect(january.recurrence?.monthDay).toBe(31);
+      expect(new Date(february.due_date!)).toEqual(new Date(2024, 1, 29, 8, 0));
+      expect(new Date(march.due_date!)).toEqual(new Date(2024, 2, 31, 8, 0));
+    });
+
+    it('anchors series created without a day of month on the current occurrence', () => {
+      const next = RecurrenceService.buildNextInstance(task({ recurrence: { frequency: 'monthly', interval: 1 } }))!;
+
+      expect(next.recurrence).toEqual({ frequency: 'monthly', interval: 1, monthDay: 6 });
+    });
+
+    it('returns null for tasks without a rule', () => {
+      expect(RecurrenceService.buildNextInstance(task({ recurrence: undefined }))).toBeNull();
+    });
+  });
+
+  describe('describe', () => {
+    it('summarizes rules for badges', () => {
+      expect(RecurrenceService.describe({ frequency: 'daily', interval: 1 })).toBe('Daily');
+      expect(RecurrenceService.describe({ frequency: 'daily', interval: 3 })).toBe('Every 3 days');
+      expect(RecurrenceService.describe({ frequency: 'weekly', interval: 2, weekdays: [4, 1] })).toBe('Every 2 weeks on Mon, Thu');
+      expect(RecurrenceService.describe({ frequency: 'monthly', interval: 1, monthDay: 15 })).toBe('Monthly on day 15');
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { ReminderActions, REMINDER_ACTIONS } from '../reminderActions';
+import { DatabaseService } from '../databaseService';
+import { syncService, SubtasksIncompleteError } from '../syncService';
+import { reminderEngine } from '../reminderService';
+import * as Notifications from 'expo-notifications';
+
+jest.mock('expo-notifications', () => ({
+  DEFAULT_ACTION_IDENTIFIER: 'expo.modules.notifications.actions.DEFAULT',
+  dismissNotificationAsync: jest.fn(async () => {}),
+  setNotificationCategoryAsync: jest.fn(async () => {}),
+}));
+jest.mock('../reminderRegistry', () => ({ REMINDER_CATEGORY: 'task-reminder' }));
+jest.mock('../databaseService', () => ({ DatabaseService: {} }));
+jest.mock('../reminderService', () => ({ reminderEngine: { adaptToUserFeedback: jest.fn() } }));
+jest.mock('../syncService', () => {
+  class MockSubtasksIncompleteError extends Error {}
+  return {
+    SubtasksIncompleteError: MockSubtasksIncompleteError,
+    syncService: {
+      toggleTaskCompletion: jest.fn(),
+      snoozeReminder: jest.fn(async () => ({ id: 'task-1' })),
+      updateTask: jest.fn(),
+    },
+  };
+});
+
+let responseCount = 0;
+// Only the fields the handler reads
+const response = (actionIdentifier: string, data: Record<string, any> = { taskId: 'task-1', reminderId: 'rem-1' }) =>
+  ({
+    actionIdentifier,
+    notification: { request: { identifier: `notif-${++responseCount}`, content: { data } } },
+  }) as unknown as Notifications.NotificationResponse;
+
+describe('ReminderActions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.assign(DatabaseService, {
+      getReminder: jest.fn(async () => ({ id: 'rem-1', user_id: 'user-1', task_id: 'task-1' })),
+      getTask: jest.fn(async () => ({ id: 'task-1', user_id: 'user-1', completed: false })),
+      getActiveReminders: jest.fn(async () => []),
+    });
+  });
+
+  it('completes the task from the Done action and feeds the learning loop', async () => {
+    const result = await ReminderActions.handleResponse(response(REMINDER_ACTIONS.done));
+
+    expect(syncService.toggleTaskCompletion).toHaveBeenCalledWith('task-1');
+    expect(reminderEngine.adaptToUserFeedback).toHaveBeenCalledWith(
+      'rem-1',
+      expect.objectContaining({ action: 'done', userId: 'user-1', reminderId: 'rem-1' })
+    );
+    expect(result).toEqual({ taskId: 'task-1', openReschedule: false });
+  });
+
+  it('snoozes the reminder by the picked duration', async () => {
+    const before = Date.now();
+
+    await ReminderActions.handleResponse(response(REMINDER_ACTIONS.snooze60));
+
+    const [reminderId, until] = (syncService.snoozeReminder as jest.Mock).mock.calls[0];
+    expect(reminderId).toBe('rem-1');
+    expect(until.getTime() - before).toBeGreaterThanOrEqual(60 * 60 * 1000);
+    expect(syncService.updateTask).not.toHaveBeenCalled();
+    expect(reminderEngine.adaptToUserFeedback).toHaveBeenCalledWith(
+      'rem-1',
+      expect.objectContaining({ action: 'snooze', additionalData: { taskId: 'task-1', minutes: 60 } })
+    );
+  });
+
+  it('asks the app to open the reschedule picker', async () => {
+    const result = await ReminderActions.handleResponse(response(REMINDER_ACTIONS.reschedule));
+
+    expect(result).toEqual({ taskId: 'task-1', openReschedule: true });
+    expect(syncService.toggleTaskCompletion).not.toHaveBeenCalled();
+  });
+
+  it('handles each response once and ignores other notifications', async () => {
+    const done = response(REMINDER_ACTIONS.done);
+
+    await ReminderActions.handleResponse(done);
+    expect(await ReminderActions.handleResponse(done)).toBeNull();
+    expect(await ReminderActions.handleResponse(response(REMINDER_ACTIONS.done, { kind: 'digest' }))).toBeNull();
+    expect(syncService.toggleTaskCompletion).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves gated tasks open without recording feedback', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    (syncService.toggleTaskCompletion as jest.Mock).mockRejectedValueOnce(new SubtasksIncompleteError(2));
+
+    await ReminderActions.handleResponse(response(REMINDER_ACTIONS.done));
+
+    expect(reminderEngine.adaptToUserFeedback).not.toHaveBeenCalled();
+  });
+});
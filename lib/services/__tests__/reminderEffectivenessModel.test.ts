@@ -0,0 +1,85 @@
+import { ReminderEffectivenessModel, ReminderOutcome, reminderWindow } from '../reminderEffectivenessModel';
+
+// Monday 6 May 2024, local time
+const at = (day: number, hours: number, minutes = 0) => new Date(2024, 4, day, hours, minutes);
+
+const outcome = (action: ReminderOutcome['action'], hour: number, overrides: Partial<ReminderOutcome> = {}): ReminderOutcome => ({
+  action,
+  hour,
+  weekday: 1,
+  category: 'Work',
+  priority: 'medium',
+  ...overrides,
+});
+
+const repeat = (count: number, make: () => ReminderOutcome) => Array.from({ length: count }, make);
+
+// Gets things done from morning reminders, snoozes the evening ones
+const morningPerson = [
+  ...repeat(8, () => outcome('done', 9)),
+  ...repeat(2, () => outcome('snooze', 9)),
+  ...repeat(8, () => outcome('snooze', 19)),
+  ...repeat(2, () => outcome('done', 19)),
+];
+
+describe('ReminderEffectivenessModel', () => {
+  it('predicts even odds without any history', () => {
+    const model = ReminderEffectivenessModel.train([]);
+
+    expect(model.predict({ hour: 9, weekday: 1 })).toEqual({ probability: 0.5, reason: 'No reminder history yet' });
+    // Ties go to the earliest slot
+    expect(model.bestSlot({}, at(6, 8, 20), at(6, 18))?.time).toEqual(at(6, 9));
+  });
+
+  it('learns which hours lead to completion', () => {
+    const model = ReminderEffectivenessModel.train(morningPerson);
+
+    const morning = model.predict({ hour: 9, weekday: 1 });
+    const evening = model.predict({ hour: 19, weekday: 1 });
+
+    expect(morning.probability).toBeGreaterThan(0.7);
+    expect(evening.probability).toBeLessThan(0.3);
+    expect(morning.reason).toBe('Often completed from reminders at this time of day');
+    // Neighbouring hours borrow some of the signal
+    expect(model.predict({ hour: 10, weekday: 1 }).probability).toBeGreaterThan(0.5);
+  });
+
+  it('combines category and priority with the time of day', () => {
+    const model = ReminderEffectivenessModel.train([
+      ...morningPerson,
+      ...repeat(6, () => outcome('dismiss', 14, { category: 'Errands', priority: 'low' })),
+      ...repeat(6, () => outcome('done', 14, { category: 'Work', priority: 'high' })),
+    ]);
+
+    const work = model.predict({ hour: 14, weekday: 1, category: 'Work', priority: 'high' });
+    const errand = model.predict({ hour: 14, weekday: 1, category: 'Errands', priority: 'low' });
+
+    expect(work.probability).toBeGreaterThan(errand.probability);
+    expect(errand.reason).toMatch(/^Rarely completed from reminders for (Errands tasks|low priority tasks)$/);
+  });
+
+  it('picks the best waking hour before the task is due', () => {
+    const model = ReminderEffectivenessModel.train(morningPerson);
+
+    // Due Tuesday noon: Monday evening loses to Tuesday morning
+    const best = model.bestSlot({ category: 'Work' }, at(6, 17, 30), at(7, 12));
+    expect(best?.time).toEqual(at(7, 9));
+
+    // Due before the next morning: the best of what is left, never overnight
+    const late = model.bestSlot({ category: 'Work' }, at(6, 19, 30), at(7, 8));
+    expect(late?.time.getHours()).toBeGreaterThanOrEqual(7);
+    expect(late?.time.getTime()).toBeLessThanOrEqual(at(7, 8).getTime());
+    expect(model.bestSlot({}, at(6, 23), at(7, 6))).toBeNull();
+  });
+});
+
+describe('reminderWindow', () => {
+  it('runs until the task is due, or a few days ahead without a due date', () => {
+    const now = at(6, 10);
+
+    expect(reminderWindow({ due_date: at(7, 12).toISOString() }, now)).toEqual({ from: now, until: at(7, 12) });
+    expect(reminderWindow({}, now).until).toEqual(at(9, 10));
+    // Overdue tasks are treated like undated ones
+    expect(reminderWindow({ due_date: at(5, 12).toISOString() }, now).until).toEqual(at(9, 10));
+  });
+});
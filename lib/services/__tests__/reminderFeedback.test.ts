@@ -0,0 +1,69 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { loadFeedback, saveFeedback, recordUnanswered, feedbackRevision } from '../reminderFeedback';
+import { Reminder, Task } from '../../types';
+
+jest.mock('@react-native-async-storage/async-storage', () => {
+  const store = new Map<string, string>();
+  return {
+    getItem: jest.fn(async (key: string) => store.get(key) ?? null),
+    setItem: jest.fn(async (key: string, value: string) => {
+      store.set(key, value);
+    }),
+    clear: jest.fn(async () => store.clear()),
+  };
+});
+
+const task = {
+  id: 'task-1',
+  user_id: 'user-1',
+  title: 'Call the bank',
+  category: 'Personal',
+  priority: 'medium',
+} as Task;
+
+const reminder = (overrides: Partial<Reminder> = {}): Reminder => ({
+  id: 'rem-1',
+  user_id: 'user-1',
+  task_id: 'task-1',
+  title: 'Call the bank',
+  // Thursday 2 May 2024, 9:00 local time
+  scheduled_time: new Date(2024, 4, 2, 9).toISOString(),
+  status: 'sent',
+  created_at: '2024-05-01T08:00:00.000Z',
+  ...overrides,
+});
+
+describe('reminder feedback', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('records an unanswered reminder as dismissed in the slot it went off', async () => {
+    const revision = feedbackRevision();
+
+    await recordUnanswered(reminder(), task);
+
+    const [feedback] = await loadFeedback('user-1');
+    expect(feedback).toMatchObject({
+      action: 'dismiss',
+      reminderId: 'rem-1',
+      slot: { hour: 9, weekday: 4, category: 'Personal', priority: 'medium' },
+      additionalData: { taskId: 'task-1', unanswered: true },
+    });
+    expect(feedbackRevision()).toBeGreaterThan(revision);
+  });
+
+  it('replaces the unanswered entry when the reminder is acted on later', async () => {
+    await recordUnanswered(reminder(), task);
+    await recordUnanswered(reminder({ id: 'rem-2' }), task);
+
+    await saveFeedback({ action: 'done', timestamp: new Date(), userId: 'user-1', reminderId: 'rem-1' });
+    await saveFeedback({ action: 'snooze', timestamp: new Date(), userId: 'user-1', reminderId: 'rem-1' });
+
+    expect((await loadFeedback('user-1')).map(f => [f.reminderId, f.action])).toEqual([
+      ['rem-2', 'dismiss'],
+      ['rem-1', 'done'],
+      ['rem-1', 'snooze'],
+    ]);
+  });
+});
@@ -0,0 +1,214 @@
+import {
+  ReminderRegistry,
+  NotificationScheduler,
+  ScheduledNotification,
+  ReminderNotificationContent,
+} from '../reminderRegistry';
+import { DatabaseService } from '../databaseService';
+import { Reminder, Task } from '../../types';
+
+jest.mock('expo-notifications', () => ({}));
+jest.mock('../notificationPolicy', () => ({ notificationPolicy: {} }));
+jest.mock('../databaseService', () => ({ DatabaseService: {} }));
+jest.mock('../reminderFeedback', () => ({ recordUnanswered: jest.fn() }));
+
+const NOW = Date.parse('2024-05-02T12:00:00.000Z');
+
+/**
+ * In-memory stand-ins for the tasks/reminders tables and the OS notification queue
+ */
+function setup(tasks: Task[], reminders: Reminder[] = [], scheduled: ScheduledNotification[] = []) {
+  let nextId = 0;
+  let nextNotification = 0;
+  const rows = reminders.map(r => ({ ...r }));
+  const notifications = [...scheduled];
+
+  Object.assign(DatabaseService, {
+    getReminder: jest.fn(async (id: string) => rows.find(r => r.id === id && !r.deleted_at) || null),
+    getTask: jest.fn(async (id: string) => tasks.find(t => t.id === id && !t.deleted_at) || null),
+    getTasks: jest.fn(async () => tasks.filter(t => !t.deleted_at)),
+    getActiveReminders: jest.fn(async (userId: string, taskId?: string) =>
+      rows
+        .filter(r => r.user_id === userId && (!taskId || r.task_id === taskId))
+        .filter(r => ['pending', 'snoozed'].includes(r.status) && !r.deleted_at)
+        .map(r => ({ ...r }))
+    ),
+    createReminder: jest.fn(async (userId: string, input: any) => {
+      const row = { ...input, id: `rem-new-${++nextId}`, user_id: userId, status: 'pending', created_at: '' };
+      rows.push(row);
+      return { ...row };
+    }),
+    updateReminder: jest.fn(async (id: string, updates: any) => {
+      const row = rows.find(r => r.id === id);
+      if (!row) return null;
+      Object.assign(row, updates);
+      return { ...row };
+    }),
+    setReminderNotificationId: jest.fn(async (id: string, notificationId: string) => {
+      rows.find(r => r.id === id)!.notification_id = notificationId;
+    }),
+    deleteReminder: jest.fn(async (id: string) => {
+      rows.find(r => r.id === id)!.deleted_at = 'now';
+      return true;
+    }),
+  });
+
+  const scheduler: NotificationScheduler = {
+    schedule: jest.fn(async (content: ReminderNotificationContent, at: Date) => {
+      const id = `notif-${++nextNotification}`;
+      notifications.push({ id, data: { ...content.data, at: at.toISOString() } });
+      return id;
+    }),
+    cancel: jest.fn(async (id: string) => {
+      notifications.splice(notifications.findIndex(n => n.id === id), 1);
+    }),
+    getScheduled: jest.fn(async () => [...notifications]),
+  };
+
+  const onUnanswered = jest.fn(async (reminder: Reminder, task: Task) => {});
+  const registry = new ReminderRegistry({ scheduler, now: () => new Date(NOW), onUnanswered });
+  return { registry, scheduler, rows, notifications, onUnanswered };
+}
+
+const task = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-1',
+  user_id: 'user-1',
+  title: 'Call the bank',
+  completed: false,
+  logged_after_completion: false,
+  priority: 'medium',
+  category: 'Personal',
+  tags: [],
+  ai_suggested: false,
+  reminder_enabled: true,
+  reminder_time: '2024-05-02T15:00:00.000Z',
+  created_at: '2024-05-01T08:00:00.000Z',
+  updated_at: '2024-05-01T08:00:00.000Z',
+  ...overrides,
+});
+
+const reminder = (overrides: Partial<Reminder> = {}): Reminder => ({
+  id: 'rem-1',
+  user_id: 'user-1',
+  task_id: 'task-1',
+  title: 'Call the bank',
+  scheduled_time: '2024-05-02T15:00:00.000Z',
+  notification_id: 'notif-old',
+  status: 'pending',
+  created_at: '2024-05-01T08:00:00.000Z',
+  ...overrides,
+});
+
+describe('ReminderRegistry', () => {
+  it('records the notification it schedules for a new reminder', async () => {
+    const { registry, rows, notifications } = setup([task()]);
+
+    const changes = await registry.syncTask('user-1', 'task-1');
+
+    expect(changes.map(c => c.action)).toEqual(['create']);
+    expect(notifications).toEqual([
+      { id: 'notif-1', data: { taskId: 'task-1', reminderId: 'rem-new-1', at: '2024-05-02T15:00:00.000Z' } },
+    ]);
+    expect(rows[0]).toMatchObject({ scheduled_time: '2024-05-02T15:00:00.000Z', notification_id: 'notif-1' });
+  });
+
+  it('reschedules the existing reminder when reminder_time changes', async () => {
+    const { registry, scheduler, rows } = setup(
+      [task({ reminder_time: '2024-05-02T18:00:00.000Z' })],
+      [reminder()],
+      [{ id: 'notif-old', data: { taskId: 'task-1' } }]
+    );
+
+    const changes = await registry.syncTask('user-1', 'task-1');
+
+    expect(scheduler.cancel).toHaveBeenCalledWith('notif-old');
+    expect(changes.map(c => [c.action, c.reminder.id])).toEqual([['update', 'rem-1']]);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ scheduled_time: '2024-05-02T18:00:00.000Z', status: 'pending', notification_id: 'notif-1' });
+  });
+
+  it('dismisses reminders of completed tasks and removes those of deleted tasks', async () => {
+    const completed = setup([task({ completed: true })], [reminder()], [{ id: 'notif-old', data: { taskId: 'task-1' } }]);
+    await completed.registry.syncTask('user-1', 'task-1');
+    expect(completed.scheduler.cancel).toHaveBeenCalledWith('notif-old');
+    expect(completed.rows[0].status).toBe('dismissed');
+
+    const deleted = setup([task({ deleted_at: 'yesterday' })], [reminder()]);
+    const changes = await deleted.registry.syncTask('user-1', 'task-1');
+    expect(changes.map(c => c.action)).toEqual(['delete']);
+    expect(deleted.rows[0].deleted_at).toBeDefined();
+  });
+
+  it('leaves an up-to-date reminder untouched', async () => {
+    const { registry, scheduler } = setup([task()], [reminder()]);
+
+    expect(await registry.syncTask('user-1', 'task-1')).toEqual([]);
+    expect(scheduler.schedule).not.toHaveBeenCalled();
+    expect(scheduler.cancel).not.toHaveBeenCalled();
+  });
+
+  it('snoozes a reminder in place', async () => {
+    const { registry, rows, notifications } = setup([task()], [reminder()], [{ id: 'notif-old', data: { taskId: 'task-1' } }]);
+
+    const changes = await registry.snooze('rem-1', new Date('2024-05-02T15:10:00.000Z'));
+
+    expect(changes.map(c => [c.action, c.reminder.status])).toEqual([['update', 'snoozed']]);
+    expect(rows[0]).toMatchObject({ scheduled_time: '2024-05-02T15:10:00.000Z', notification_id: 'notif-1' });
+    expect(notifications.map(n => n.id)).toEqual(['notif-1']);
+  });
+
+  describe('reconcile', () => {
+    it('cancels orphaned task notifications and keeps unrelated ones', async () => {
+      const { registry, notifications } = setup(
+        [task()],
+        [reminder()],
+        [
+          { id: 'notif-old', data: { taskId: 'task-1', reminderId: 'rem-1' } },
+          { id: 'notif-stale', data: { taskId: 'task-gone' } },
+          { id: 'digest', data: { kind: 'digest' } },
+          { id: 'held', data: { taskId: 'task-2', held: true } },
+          { id: 'focus', data: { kind: 'focus-session', taskId: 'task-2' } },
+        ]
+      );
+
+      await registry.reconcile('user-1');
+
+      expect(notifications.map(n => n.id)).toEqual(['notif-old', 'digest', 'held', 'focus']);
+    });
+
+    it('schedules reminders synced from other devices and marks past ones as sent', async () => {
+      const { registry, rows, scheduler } = setup(
+        [task(), task({ id: 'task-2', reminder_time: '2024-05-02T08:00:00.000Z' })],
+        [
+          reminder({ notification_id: undefined }),
+          reminder({ id: 'rem-2', task_id: 'task-2', scheduled_time: '2024-05-02T08:00:00.000Z', notification_id: undefined }),
+        ]
+      );
+
+      const changes = await registry.reconcile('user-1');
+
+      expect(scheduler.schedule).toHaveBeenCalledTimes(1);
+      expect(rows[0].notification_id).toBe('notif-1');
+      expect(rows[1].status).toBe('sent');
+      expect(changes.map(c => [c.action, c.reminder.id])).toEqual([['update', 'rem-2']]);
+    });
+
+    it('reports reminders that went off without an action as unanswered', async () => {
+      const past = { reminder_time: '2024-05-02T08:00:00.000Z' };
+      const shown = reminder({ scheduled_time: past.reminder_time, notification_id: 'notif-shown' });
+
+      const open = setup([task(past)], [shown]);
+      await open.registry.reconcile('user-1');
+      expect(open.onUnanswered).toHaveBeenCalledTimes(1);
+      expect(open.onUnanswered).toHaveBeenCalledWith(expect.objectContaining({ id: 'rem-1', status: 'sent' }), expect.objectContaining({ id: 'task-1' }));
+
+      // Completed from the notification, or never shown on this device
+      const completed = setup([task({ ...past, completed: true })], [shown]);
+      await completed.registry.syncTask('user-1', 'task-1');
+      const elsewhere = setup([task(past)], [reminder({ scheduled_time: past.reminder_time, notification_id: undefined })]);
+      await elsewhere.registry.reconcile('user-1');
+      expect(completed.onUnanswered).not.toHaveBeenCalled();
+      expect(elsewhere.onUnanswered).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { SearchService, HIGHLIGHT_START, HIGHLIGHT_END } from '../searchService';
+
+describe('SearchService', () => {
+  describe('buildMatchQuery', () => {
+    it('requires every word as a prefix', () => {
+      expect(SearchService.buildMatchQuery('Quarterly  rep')).toBe('"quarterly"* "rep"*');
+    });
+
+    it('strips FTS syntax from user input', () => {
+      expect(SearchService.buildMatchQuery('"tax" (receipts) title:*')).toBe('"tax"* "receipts"* "title"*');
+    });
+
+    it('returns null when nothing is searchable', () => {
+      expect(SearchService.buildMatchQuery('  "*"  ')).toBeNull();
+    });
+  });
+
+  describe('buildSearchQuery', () => {
+    it('ranks matches by relevance with snippets', () => {
+      const { sql, params } = SearchService.buildSearchQuery('user-1', { query: 'invoice', filters: {} });
+
+      expect(sql).toContain('FROM tasks_fts JOIN tasks ON tasks.rowid = tasks_fts.rowid');
+      expect(sql).toContain('snippet(tasks_fts');
+      expect(sql).toContain('ORDER BY search_rank ASC');
+      expect(params).toEqual(['user-1', '"invoice"*', 50, 0]);
+    });
+
+    it('applies filters, sorting and paging in parameter order', () => {
+      const { sql, params } = SearchService.buildSearchQuery('user-1', {
+        query: 'call',
+        filters: { status: 'pending', priority: 'high', tags: ['work', 'phone'], aiSuggested: false },
+        sortBy: 'due_date',
+        sortOrder: 'asc',
+        limit: 20,
+        offset: 40,
+      });
+
+      expect(sql).toContain('tasks.completed = 0');
+      expect(sql).toContain('ORDER BY tasks.due_date IS NULL, tasks.due_date ASC');
+      expect(params).toEqual(['user-1', '"call"*', 'high', 'work', 'phone', 0, 20, 40]);
+    });
+
+    it('lists without the index when there is no query', () => {
+      const { sql, params } = SearchService.buildSearchQuery('user-1', {
+        query: ' ',
+        filters: { category: 'Work' },
+        sortBy: 'priority',
+      });
+
+      expect(sql).not.toContain('tasks_fts');
+      expect(sql).toContain("ORDER BY CASE tasks.priority WHEN 'high' THEN 3");
+      expect(params).toEqual(['user-1', 'Work', 50, 0]);
+    });
+  });
+
+  describe('splitHighlights', () => {
+    it('splits snippets into plain and highlighted runs', () => {
+      const snippet = `…paid the ${HIGHLIGHT_START}invoice${HIGHLIGHT_END} for ${HIGHLIGHT_START}march${HIGHLIGHT_END}`;
+
+      expect(SearchService.splitHighlights(snippet)).toEqual([
+        { text: '…paid the ', highlighted: false },
+        { text: 'invoice', highlighted: true },
+        { text: ' for ', highlighted: false },
+        { text: 'march', highlighted: true },
+      ]);
+    });
+  });
+});
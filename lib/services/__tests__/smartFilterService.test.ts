@@ -0,0 +1,81 @@
+import { SmartFilterService } from '../smartFilterService';
+import { Task } from '../../types';
+
+describe('SmartFilterService', () => {
+  // Wednesday noon, local time
+  const now = new Date(2024, 4, 15, 12, 0, 0);
+
+  const task = (id: string, overrides: Partial<Task> = {}): Task => ({
+    id,
+    user_id: 'user-1',
+    title: id,
+    completed: false,
+    logged_after_completion: false,
+    priority: 'medium',
+    category: 'Work',
+    tags: [],
+    ai_suggested: false,
+    reminder_enabled: false,
+    created_at: new Date(2024, 4, 1, 9, 0).toISOString(),
+    updated_at: new Date(2024, 4, 1, 9, 0).toISOString(),
+    ...overrides,
+  });
+
+  const tasks = [
+    task('report', { priority: 'high', tags: ['Finance'], due_date: new Date(2024, 4, 14, 17, 0).toISOString() }),
+    task('standup', { reminder_enabled: true, due_date: new Date(2024, 4, 15, 23, 30).toISOString() }),
+    task('groceries', { category: 'Personal', ai_suggested: true, created_at: new Date(2024, 4, 13, 8, 0).toISOString() }),
+    task('taxes', { completed: true, priority: 'high', due_date: new Date(2024, 4, 10).toISOString() }),
+  ];
+  const ids = (list: Task[]) => list.map(t => t.id);
+
+  it('combines conditions with AND or OR', () => {
+    const conditions = [
+      { field: 'priority', value: 'high' },
+      { field: 'status', value: 'pending' },
+    ] as const;
+
+    expect(ids(SmartFilterService.apply(tasks, { combinator: 'and', conditions: [...conditions] }, now))).toEqual(['report']);
+    expect(ids(SmartFilterService.apply(tasks, { combinator: 'or', conditions: [...conditions] }, now))).toEqual([
+      'report',
+      'standup',
+      'groceries',
+      'taxes',
+    ]);
+  });
+
+  it('matches tags and categories case-insensitively', () => {
+    expect(ids(SmartFilterService.apply(tasks, { combinator: 'and', conditions: [{ field: 'tag', value: 'finance' }] }, now)))
+      .toEqual(['report']);
+    expect(SmartFilterService.count(tasks, { combinator: 'and', conditions: [{ field: 'category', value: 'personal' }] }, now))
+      .toBe(1);
+  });
+
+  it('treats only open tasks past their due time as overdue', () => {
+    const view = { combinator: 'and' as const, conditions: [{ field: 'overdue' as const, value: true }] };
+
+    expect(ids(SmartFilterService.apply(tasks, view, now))).toEqual(['report']);
+  });
+
+  it('resolves relative day ranges against today, inclusive of whole days', () => {
+    const dueToday = { combinator: 'and' as const, conditions: [{ field: 'due_date' as const, fromDays: 0, toDays: 0 }] };
+    const createdThisWeek = {
+      combinator: 'and' as const,
+      conditions: [{ field: 'created_at' as const, fromDays: -7, toDays: 0 }],
+    };
+
+    expect(ids(SmartFilterService.apply(tasks, dueToday, now))).toEqual(['standup']);
+    expect(ids(SmartFilterService.apply(tasks, createdThisWeek, now))).toEqual(['groceries']);
+  });
+
+  it('matches every task when a view has no conditions', () => {
+    expect(SmartFilterService.count(tasks, { combinator: 'and', conditions: [] }, now)).toBe(tasks.length);
+  });
+
+  it('describes conditions for display', () => {
+    expect(SmartFilterService.describe({ field: 'due_date', fromDays: 0, toDays: 7 })).toBe('Due in the next 7 days');
+    expect(SmartFilterService.describe({ field: 'created_at', fromDays: -30, toDays: 0 })).toBe('Created in the last 30 days');
+    expect(SmartFilterService.describe({ field: 'due_date', fromDays: -1, toDays: 1 })).toBe('Due yesterday to tomorrow');
+    expect(SmartFilterService.describe({ field: 'priority', value: 'high' })).toBe('High priority');
+  });
+});
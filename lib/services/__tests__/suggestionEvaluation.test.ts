@@ -0,0 +1,144 @@
+import {
+  replayHistory,
+  compareConfigurations,
+  formatComparison,
+  calibrate,
+  syntheticDataset,
+  datasetFromExport,
+  EvaluationDataset,
+} from '../suggestionEvaluation';
+import { CandidateGenerator, GeneratorInput } from '../candidatePipeline';
+import { PATTERN_GENERATORS } from '../suggestionGenerators';
+import { Task } from '../../types';
+
+// Monday 1 January 2024, local time
+const at = (day: number, hours: number) => new Date(2024, 0, day, hours);
+
+const task = (overrides: Partial<Task>): Task => ({
+  id: 'task-1',
+  user_id: 'user-1',
+  title: 'Task',
+  category: 'Work',
+  priority: 'medium',
+  completed: true,
+  logged_after_completion: false,
+  tags: [],
+  ai_suggested: false,
+  reminder_enabled: false,
+  created_at: at(1, 8).toISOString(),
+  updated_at: at(1, 8).toISOString(),
+  ...overrides,
+});
+
+// "Check email" at 10:00 every day for three weeks
+const dataset: EvaluationDataset = {
+  name: 'email',
+  userId: 'user-1',
+  tasks: Array.from({ length: 21 }, (_, i) =>
+    task({
+      id: `email-${i + 1}`,
+      title: 'Check email',
+      created_at: at(i + 1, 8).toISOString(),
+      completed_at: at(i + 1, 10).toISOString(),
+    })
+  ),
+};
+
+const suggesting = (title: string, confidence: number): CandidateGenerator => ({
+  name: 'fixed',
+  generate: () => [{ title, category: 'Work', priority: 'medium', confidence, reasoning: [], basedOn: [] }],
+});
+
+describe('replayHistory', () => {
+  it('only lets each step see what had happened by then', async () => {
+    const seen: GeneratorInput[] = [];
+    const recorder: CandidateGenerator = { name: 'recorder', generate: input => (seen.push(input), []) };
+
+    await replayHistory(dataset, { name: 'recorder', generators: [recorder] }, { warmupDays: 3 });
+
+    expect(seen).toHaveLength(18);
+    for (const input of seen) {
+      const now = input.context.currentTime.getTime();
+      expect(input.context.recentTasks.every(t => new Date(t.created_at).getTime() <= now)).toBe(true);
+      expect(input.context.recentTasks.filter(t => t.completed).every(t => new Date(t.completed_at!).getTime() <= now)).toBe(true);
+      expect(input.patterns.every(p => new Date(p.last_occurrence!).getTime() <= now)).toBe(true);
+    }
+    // Three days of history by the first step, so the daily habit is already a temporal pattern
+    expect(seen[0].temporalPatterns.map(p => [p.task_title, p.frequency])).toEqual([['Check email', 3]]);
+  });
+
+  it('scores suggestions against what was completed next', async () => {
+    const right = await replayHistory(dataset, { name: 'right', generators: [suggesting('Check email', 0.8)] });
+    const wrong = await replayHistory(dataset, { name: 'wrong', generators: [suggesting('Water plants', 0.8)] });
+
+    expect(right.metrics).toMatchObject({ steps: 7, suggestions: 7, recall: 1 });
+    expect(right.metrics.precisionAtK).toBeCloseTo(1 / 5);
+    expect(right.metrics.calibration.expectedError).toBeCloseTo(0.2);
+    expect(wrong.metrics).toMatchObject({ precisionAtK: 0, recall: 0 });
+    expect(wrong.metrics.calibration.brierScore).toBeCloseTo(0.64);
+  });
+});
+
+describe('calibrate', () => {
+  it('compares each bucket of confidence with how often it came true', () => {
+    const calibration = calibrate(
+      [
+        { confidence: 0.9, hit: true },
+        { confidence: 0.9, hit: false },
+        { confidence: 0.15, hit: false },
+      ],
+      10
+    );
+
+    expect(calibration.buckets.map(b => [b.lower, b.count, b.hitRate])).toEqual([
+      [0.1, 1, 0],
+      [0.9, 2, 0.5],
+    ]);
+    expect(calibration.expectedError).toBeCloseTo((1 / 3) * 0.15 + (2 / 3) * 0.4);
+    expect(calibration.brierScore).toBeCloseTo((0.01 + 0.81 + 0.0225) / 3);
+  });
+});
+
+describe('compareConfigurations', () => {
+  it('reports both configurations on the same synthetic history', async () => {
+    const synthetic = syntheticDataset({ days: 35, seed: 7 });
+    const comparison = await compareConfigurations(
+      synthetic,
+      { name: 'default', generators: PATTERN_GENERATORS },
+      { name: 'timing', generators: PATTERN_GENERATORS, weights: { timing: 0.6, relevance: 0.05 } },
+      { warmupDays: 21 }
+    );
+
+    expect(comparison.baseline.metrics.steps).toBe(comparison.candidate.metrics.steps);
+    expect(comparison.baseline.metrics.precisionAtK).toBeGreaterThan(0);
+    expect(comparison.baseline.steps.every(step => step.errors.length === 0)).toBe(true);
+
+    const report = formatComparison(comparison);
+    expect(report).toContain('Suggestion evaluation: synthetic');
+    expect(report).toMatch(/precision@5\s+\d\.\d{3}\s+\d\.\d{3}\s+[+-]\d\.\d{3}/);
+  });
+});
+
+describe('datasets', () => {
+  it('generates the same history from the same seed', () => {
+    expect(syntheticDataset({ days: 10, seed: 3 })).toEqual(syntheticDataset({ days: 10, seed: 3 }));
+    expect(syntheticDataset({ days: 10, seed: 3 })).not.toEqual(syntheticDataset({ days: 10, seed: 4 }));
+  });
+
+  it('replays the exporting user and leaves trashed tasks out', () => {
+    const exported = datasetFromExport({
+      format: 'juey-export',
+      version: 1,
+      tasks: [
+        task({ id: 'a' }),
+        task({ id: 'b', deleted_at: at(2, 8).toISOString() }),
+        task({ id: 'c' }),
+        task({ id: 'd', user_id: 'user-2' }),
+      ],
+    });
+
+    expect(exported.userId).toBe('user-1');
+    expect(exported.tasks.map(t => t.id)).toEqual(['a', 'c']);
+    expect(() => datasetFromExport({ tasks: [] })).toThrow('The export has no tasks to replay');
+  });
+});
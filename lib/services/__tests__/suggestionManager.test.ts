@@ -0,0 +1,118 @@
+import { SuggestionManager } from '../suggestionManager';
+import { SuggestionContext } from '../candidatePipeline';
+import { getDatabase } from '../../database';
+import Database from 'better-sqlite3';
+
+jest.mock('../../database', () => ({
+  getDatabase: jest.fn(),
+  DatabaseUtils: {
+    formatDate: (date: Date) => date.toISOString(),
+    deserializeJSON: (json: string) => JSON.parse(json),
+  },
+}));
+jest.mock('../suggestionPipeline', () => ({ suggestionPipeline: {} }));
+
+describe('SuggestionManager', () => {
+  const mockUserId = 'test-user-123';
+  const pipeline = { generate: jest.fn() };
+  let manager: SuggestionManager;
+  let mockContext: SuggestionContext;
+
+  beforeEach(() => {
+    manager = new SuggestionManager(mockUserId, 0.4, 10, pipeline);
+    mockContext = {
+      userId: mockUserId,
+      currentTime: new Date('2024-01-15T10:00:00Z'),
+      recentTasks: [],
+    };
+
+    pipeline.generate.mockResolvedValue([]);
+    (getDatabase as jest.Mock).mockResolvedValue({
+      getAllAsync: jest.fn().mockResolvedValue([]),
+      runAsync: jest.fn().mockResolvedValue(undefined)
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('refreshSuggestions', () => {
+    it('should generate through the pipeline on first call', async () => {
+      const suggestions = await manager.refreshSuggestions(mockContext);
+
+      expect(Array.isArray(suggestions)).toBe(true);
+      expect(pipeline.generate).toHaveBeenCalledWith(mockContext, 10);
+    });
+
+    it('should detect context changes', async () => {
+      manager = new SuggestionManager(mockUserId, 0.2, 10, pipeline);
+      await manager.refreshSuggestions(mockContext);
+
+      const result = await manager.checkContextualRefresh({
+        ...mockContext,
+        currentTime: new Date('2024-01-15T13:00:00Z'), // 3 hours later
+      });
+
+      expect(result.needsRefresh).toBe(true);
+      expect(result.reason).toContain('time change');
+    });
+  });
+
+  describe('trashed suggestions', () => {
+    const sqlite = new Database(':memory:');
+    sqlite.exec(`
+      CREATE TABLE suggestions (
+        id TEXT PRIMARY KEY, user_id TEXT, title TEXT, confidence REAL, based_on TEXT, explanation TEXT,
+        status TEXT, created_at TEXT, expires_at TEXT, deleted_at TEXT
+      )
+    `);
+    const insert = (id: string, createdAt: string, deletedAt: string | null) =>
+      sqlite
+        .prepare(`INSERT INTO suggestions VALUES (?, ?, ?, 80, '[]', NULL, 'pending', ?, NULL, ?)`)
+        .run(id, mockUserId, id, createdAt, deletedAt);
+    const status = (id: string) => (sqlite.prepare('SELECT status FROM suggestions WHERE id = ?').get(id) as { status: string }).status;
+
+    beforeEach(() => {
+      sqlite.exec('DELETE FROM suggestions');
+      (getDatabase as jest.Mock).mockResolvedValue({
+        getAllAsync: async (sql: string, params: unknown[]) => sqlite.prepare(sql).all(...params),
+        runAsync: async (sql: string, params: unknown[]) => sqlite.prepare(sql).run(...params),
+      });
+    });
+
+    it('leaves them out of the active suggestions', async () => {
+      const now = new Date().toISOString();
+      insert('kept', now, null);
+      insert('trashed', now, now);
+
+      const active = await manager.getActiveSuggestions();
+
+      expect(active.map(s => s.id)).toEqual(['kept']);
+    });
+
+    it('leaves their status alone when cleaning up old suggestions', async () => {
+      const old = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
+      insert('stale', old, null);
+      insert('trashed', old, new Date().toISOString());
+
+      await manager.cleanupExpiredSuggestions();
+
+      expect(status('stale')).toBe('dismissed');
+      expect(status('trashed')).toBe('pending');
+    });
+  });
+
+  describe('cleanupExpiredSuggestions', () => {
+    it('should clean up expired suggestions', async () => {
+      const mockDb = {
+        runAsync: jest.fn().mockResolvedValue(undefined)
+      };
+      (getDatabase as jest.Mock).mockResolvedValue(mockDb);
+
+      await manager.cleanupExpiredSuggestions();
+
+      expect(mockDb.runAsync).toHaveBeenCalledTimes(2); // Two cleanup queries
+    });
+  });
+});
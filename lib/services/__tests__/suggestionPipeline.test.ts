@@ -0,0 +1,258 @@
+import { SuggestionPipeline } from '../suggestionPipeline';
+import { SuggestionContext, PatternSnapshot, CandidateGenerator, SuggestionCandidate } from '../candidatePipeline';
+import { PATTERN_GENERATORS, frequencyGenerator, temporalGenerator, sequentialGenerator, hybridGenerator } from '../suggestionGenerators';
+import { UserPattern, TemporalPattern } from '../../patternDatabase';
+import { Task, ExplanationAdjustment } from '../../types';
+
+jest.mock('../../database', () => ({ getDatabase: jest.fn() }));
+jest.mock('../../patternDatabase', () => ({ PatternDatabaseUtils: {} }));
+jest.mock('../databaseService', () => ({ DatabaseService: {} }));
+jest.mock('../syncService', () => ({ syncService: {} }));
+jest.mock('../calendarService', () => ({ calendarService: {} }));
+
+// Monday 15 January 2024, 10:00 local time
+const now = new Date(2024, 0, 15, 10);
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+
+const context = (overrides: Partial<SuggestionContext> = {}): SuggestionContext => ({
+  userId: 'test-user-123',
+  currentTime: now,
+  recentTasks: [],
+  ...overrides,
+});
+
+const userPattern = (overrides: Partial<UserPattern>): UserPattern => ({
+  id: 'pattern-1',
+  user_id: 'test-user-123',
+  pattern_type: 'frequency',
+  pattern_data: {},
+  confidence: 0.8,
+  frequency: 5,
+  last_occurrence: daysAgo(7),
+  created_at: daysAgo(60),
+  updated_at: daysAgo(1),
+  ...overrides,
+});
+
+const temporalPattern = (overrides: Partial<TemporalPattern> = {}): TemporalPattern => ({
+  id: 'temporal-1',
+  user_id: 'test-user-123',
+  task_title: 'Weekly review',
+  task_category: 'Work',
+  time_of_day: 10,
+  day_of_week: 1,
+  frequency: 6,
+  period_type: 'weekly',
+  confidence: 0.8,
+  last_occurrence: daysAgo(7),
+  next_predicted: daysAgo(0),
+  created_at: daysAgo(60),
+  updated_at: daysAgo(1),
+  ...overrides,
+});
+
+const task = (overrides: Partial<Task>): Task => ({
+  id: 'task-1',
+  user_id: 'test-user-123',
+  title: 'Task',
+  category: 'Work',
+  priority: 'medium',
+  completed: false,
+  tags: [],
+  created_at: daysAgo(1),
+  updated_at: daysAgo(1),
+  ...overrides,
+} as Task);
+
+// A meeting from `from` to `until` minutes after now
+const meeting = (from: number, until: number) => ({
+  title: 'Team sync',
+  startTime: new Date(now.getTime() + from * 60 * 1000).toISOString(),
+  endTime: new Date(now.getTime() + until * 60 * 1000).toISOString(),
+  type: 'meeting' as const,
+});
+
+const candidate = (overrides: Partial<SuggestionCandidate>): SuggestionCandidate => ({
+  title: 'Candidate',
+  category: 'Work',
+  priority: 'medium',
+  confidence: 0.6,
+  reasoning: [],
+  basedOn: [],
+  ...overrides,
+});
+
+const fixed = (name: string, candidates: SuggestionCandidate[]): CandidateGenerator => ({ name, generate: () => candidates });
+
+function setup(
+  snapshot: Partial<PatternSnapshot> = {},
+  generators: CandidateGenerator[] = PATTERN_GENERATORS,
+  learning: ExplanationAdjustment[] = []
+) {
+  const save = jest.fn(async (userId: string, input: any) => ({ id: `s-${input.title}`, user_id: userId, status: 'pending', ...input }));
+  const pipeline = new SuggestionPipeline({
+    generators,
+    patterns: async () => ({ patterns: [], temporalPatterns: [], ...snapshot }),
+    feedbackScore: async () => 0.5,
+    learning: async (userId, candidates) => candidates.map(() => learning),
+    save,
+  });
+  return { pipeline, save };
+}
+
+describe('SuggestionPipeline', () => {
+  it('generates nothing from no patterns', async () => {
+    const { pipeline } = setup();
+
+    expect(await pipeline.generate(context())).toEqual([]);
+  });
+
+  it('filters out low-confidence candidates', async () => {
+    const { pipeline } = setup({
+      patterns: [userPattern({ pattern_data: { taskTitle: 'Low Confidence Task', intervalDays: 7, category: 'Work' }, confidence: 0.1 })],
+    });
+
+    expect(await pipeline.generate(context())).toEqual([]);
+  });
+
+  it('keeps going when a stage fails, recording the error in the trace', async () => {
+    const pipeline = new SuggestionPipeline({
+      generators: [fixed('steady', [candidate({ title: 'Water plants' })]), { name: 'broken', generate: () => { throw new Error('Database error'); } }],
+      patterns: async () => { throw new Error('Database error'); },
+      feedbackScore: async () => 0.5,
+      learning: async () => [],
+    });
+
+    const { candidates, trace } = await pipeline.run(context());
+
+    expect(candidates.map(c => c.title)).toEqual(['Water plants']);
+    expect(trace.map(stage => [stage.stage, stage.count, stage.error])).toEqual([
+      ['patterns', 0, 'Database error'],
+      ['generate:steady', 1, undefined],
+      ['generate:broken', 0, 'Database error'],
+      ['filter', 1, undefined],
+      ['learn', 1, undefined],
+      ['rank', 1, undefined],
+      ['diversity', 1, undefined],
+      ['explain', 1, undefined],
+    ]);
+  });
+
+  it('saves suggestions with their sources and a 0-100 confidence', async () => {
+    const { pipeline, save } = setup({}, [fixed('steady', [candidate({ title: 'Water plants', confidence: 0.64, reasoning: ['a', 'b'] })])]);
+
+    const [suggestion] = await pipeline.generate(context());
+
+    expect(save).toHaveBeenCalledWith('test-user-123', expect.objectContaining({ confidence: 64, reasoning: 'a; b', based_on: ['steady'] }));
+    expect(suggestion).toMatchObject({ id: 's-Water plants', title: 'Water plants' });
+  });
+
+  it('limits suggestions per category and drops near-duplicate titles', async () => {
+    const { pipeline } = setup({}, [
+      fixed('a', [candidate({ title: 'Review emails', confidence: 0.9 }), candidate({ title: 'review Emails', confidence: 0.85, basedOn: ['b'] })]),
+      fixed('c', [candidate({ title: 'Plan sprint', confidence: 0.8 })]),
+      fixed('d', [candidate({ title: 'Update roadmap', confidence: 0.7 })]),
+      fixed('e', [candidate({ title: 'Stretch', category: 'Health', confidence: 0.5 })]),
+    ]);
+
+    const { candidates } = await pipeline.run(context(), 5);
+
+    expect(candidates.map(c => c.title)).toEqual(['Review emails', 'Plan sprint', 'Stretch']);
+  });
+
+  it('sinks long candidates that will not fit before the next meeting', async () => {
+    const { pipeline } = setup({}, [
+      fixed('a', [candidate({ title: 'Write report', confidence: 0.7, timeEstimate: '2 hours' })]),
+      fixed('b', [candidate({ title: 'Call the bank', category: 'Personal', confidence: 0.6, timeEstimate: '10 mins' })]),
+    ]);
+
+    const { candidates } = await pipeline.run(context({ calendarEvents: [meeting(20, 60)] }));
+
+    expect(candidates.map(c => [c.title, c.ranking.adjustment])).toEqual([['Call the bank', 1], ['Write report', 0.6]]);
+  });
+
+  it('explains each suggestion by its source patterns, factors, context and adjustments', async () => {
+    const learned: ExplanationAdjustment = { source: 'feedback', label: 'Your feedback on Work suggestions', factor: 1.1 };
+    const { pipeline, save } = setup({ temporalPatterns: [temporalPattern()] }, [temporalGenerator], [learned]);
+
+    const [suggestion] = await pipeline.generate(context({ calendarEvents: [meeting(-10, 30)] }));
+    const explanation = save.mock.calls[0][1].explanation;
+
+    expect(suggestion.confidence).toBe(Math.round(0.8 * 0.9 * 1.1 * 100));
+    expect(explanation.sources).toEqual([
+      expect.objectContaining({ patternId: 'temporal-1', patternTable: 'temporal_patterns', patternType: 'temporal', label: 'Weekly review' }),
+    ]);
+    expect(explanation.sources[0].factors.map((f: any) => f.name)).toEqual([
+      'frequency', 'recency', 'consistency', 'userFeedback', 'dataQuality', 'contextRelevance',
+    ]);
+    expect(explanation.sources[0].factors.find((f: any) => f.name === 'frequency').weight).toBe(0.25);
+    expect(explanation.factors.find((f: any) => f.name === 'relevance')).toEqual({ name: 'relevance', value: 0.8 * 0.9 * 1.1, weight: 0.25 });
+    expect(explanation.contextMatches).toEqual(["It's your usual time: Monday around 10:00 AM"]);
+    expect(explanation.adjustments).toEqual([learned, { source: 'calendar', label: "You're in a meeting", factor: 0.5 }]);
+  });
+
+  it('replaces a registered generator of the same name', async () => {
+    const { pipeline } = setup({}, [fixed('steady', [candidate({ title: 'Old' })])]);
+    pipeline.register(fixed('steady', [candidate({ title: 'New' })]));
+
+    expect((await pipeline.run(context())).candidates.map(c => c.title)).toEqual(['New']);
+  });
+});
+
+describe('pattern generators', () => {
+  const input = (snapshot: Partial<PatternSnapshot>, overrides: Partial<SuggestionContext> = {}) => ({
+    patterns: [],
+    temporalPatterns: [],
+    ...snapshot,
+    context: context(overrides),
+  });
+
+  it('suggests a timed habit at its usual hour and weekday', () => {
+    expect(temporalGenerator.generate(input({ temporalPatterns: [temporalPattern()] }))).toEqual([
+      expect.objectContaining({ title: 'Weekly review', basedOn: ['temporal'], confidence: 0.8 * 0.9 }),
+    ]);
+    expect(temporalGenerator.generate(input({ temporalPatterns: [temporalPattern({ time_of_day: 15 })] }))).toEqual([]);
+    expect(temporalGenerator.generate(input({ temporalPatterns: [temporalPattern({ last_occurrence: daysAgo(2) })] }))).toEqual([]);
+  });
+
+  it('estimates time from every tracked task, not only the recent ones', () => {
+    const review = task({ title: 'Weekly review', completed: true, completed_at: daysAgo(90), tracked_minutes: 40 });
+    const patterns = { temporalPatterns: [temporalPattern()] };
+
+    expect(temporalGenerator.generate(input(patterns, { trackedTasks: [review] }))).toEqual([
+      expect.objectContaining({ title: 'Weekly review', timeEstimate: '40 mins' }),
+    ]);
+    expect(temporalGenerator.generate(input(patterns, { trackedTasks: [] }))).toEqual([
+      expect.not.objectContaining({ timeEstimate: '40 mins' }),
+    ]);
+  });
+
+  it('suggests a recurring task once its interval is nearly up', () => {
+    const pattern = (lastDays: number) =>
+      userPattern({ last_occurrence: daysAgo(lastDays), pattern_data: { taskTitle: 'Water plants', category: 'Home', intervalDays: 10 } });
+
+    expect(frequencyGenerator.generate(input({ patterns: [pattern(12)] }))).toEqual([
+      expect.objectContaining({ title: 'Water plants', priority: 'high', basedOn: ['frequency'] }),
+    ]);
+    expect(frequencyGenerator.generate(input({ patterns: [pattern(5)] }))).toEqual([]);
+  });
+
+  it('suggests the step that follows one just completed', () => {
+    const pattern = userPattern({ pattern_type: 'sequential', pattern_data: { sequence: ['Gather numbers', 'Draft summary'], category: 'Work' } });
+    const gathered = task({ title: 'Gather numbers', completed: true, completed_at: daysAgo(0.1) });
+
+    expect(sequentialGenerator.generate(input({ patterns: [pattern] }, { recentTasks: [gathered] }))).toEqual([
+      expect.objectContaining({ title: 'Draft summary', basedOn: ['sequential'] }),
+    ]);
+    expect(sequentialGenerator.generate(input({ patterns: [pattern] }))).toEqual([]);
+  });
+
+  it('combines a timed habit with its rhythm', () => {
+    const frequency = userPattern({ pattern_data: { taskTitle: 'weekly review', category: 'Work', intervalDays: 7 } });
+
+    const [hybrid] = hybridGenerator.generate(input({ patterns: [frequency], temporalPatterns: [temporalPattern()] })) as SuggestionCandidate[];
+
+    expect(hybrid).toMatchObject({ title: 'Weekly review', basedOn: ['temporal', 'frequency'], patternStrength: 0.8 });
+    expect(hybrid.confidence).toBeGreaterThan(0.8);
+  });
+});
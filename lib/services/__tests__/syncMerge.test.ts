@@ -0,0 +1,114 @@
+import { mergeRecords, mergeArrays } from '../syncMerge';
+
+describe('syncMerge', () => {
+  const base = {
+    id: 'task-1',
+    user_id: 'user-1',
+    title: 'Write report',
+    description: 'Quarterly numbers',
+    completed: false,
+    completed_at: null,
+    priority: 'medium',
+    category: 'Work',
+    tags: ['writing'],
+    created_at: '2024-05-01T08:00:00.000Z',
+    updated_at: '2024-05-01T08:00:00.000Z',
+  };
+
+  describe('mergeRecords', () => {
+    it('takes each side for fields only that side changed', () => {
+      const local = { ...base, priority: 'high', updated_at: '2024-05-01T10:00:00.000Z' };
+      const remote = { ...base, category: 'Personal', updated_at: '2024-05-01T11:00:00.000Z' };
+
+      const result = mergeRecords('task', base, local, remote);
+
+      expect(result.unresolved).toEqual([]);
+      expect(result.merged).toMatchObject({ priority: 'high', category: 'Personal', updated_at: '2024-05-01T11:00:00.000Z' });
+      expect(result.resolutions).toEqual({ priority: 'local', category: 'remote' });
+    });
+
+    it('applies field rules when both sides changed', () => {
+      const local = {
+        ...base,
+        title: 'Write the report',
+        completed: true,
+        completed_at: '2024-05-01T10:00:00.000Z',
+        tags: ['writing', 'urgent'],
+        updated_at: '2024-05-01T10:00:00.000Z',
+      };
+      const remote = {
+        ...base,
+        title: 'Write final report',
+        completed: true,
+        completed_at: '2024-05-01T09:30:00.000Z',
+        tags: ['review'],
+        updated_at: '2024-05-01T11:00:00.000Z',
+      };
+
+      const result = mergeRecords('task', base, local, remote);
+
+      expect(result.unresolved).toEqual([]);
+      expect(result.merged).toMatchObject({
+        title: 'Write final report',
+        completed: true,
+        completed_at: '2024-05-01T09:30:00.000Z',
+        tags: ['urgent', 'review'],
+      });
+      expect(result.resolutions).toMatchObject({ title: 'remote', completed_at: 'remote', tags: 'merged' });
+    });
+
+    it('keeps a completion made on either side', () => {
+      const local = { ...base, completed: true, completed_at: '2024-05-01T10:00:00.000Z' };
+      const remote = { ...base, completed: false, description: 'Edited elsewhere' };
+
+      const result = mergeRecords('task', null, local, remote);
+
+      expect(result.merged).toMatchObject({ completed: true, completed_at: '2024-05-01T10:00:00.000Z' });
+    });
+
+    it('leaves fields without a rule unresolved with the local value', () => {
+      const local = { ...base, priority: 'high' };
+      const remote = { ...base, priority: 'low', category: 'Personal' };
+
+      const result = mergeRecords('task', base, local, remote);
+
+      expect(result.unresolved).toEqual(['priority']);
+      expect(result.merged).toMatchObject({ priority: 'high', category: 'Personal' });
+    });
+
+    it('treats every difference as a two-sided change without a base', () => {
+      const local = { ...base, category: 'Home' };
+      const remote = { ...base, category: 'Personal' };
+
+      expect(mergeRecords('task', undefined, local, remote).unresolved).toEqual(['category']);
+    });
+
+    it('never merges identity or bookkeeping columns', () => {
+      const local = { ...base, updated_at: '2024-05-01T10:00:00.000Z' };
+      const remote = { ...base, created_at: '2024-05-01T08:00:01.000Z', updated_at: '2024-05-01T09:00:00.000Z' };
+
+      const result = mergeRecords('task', base, local, remote);
+
+      expect(result.resolutions).toEqual({});
+      expect(result.merged.created_at).toBe(base.created_at);
+      expect(result.merged.updated_at).toBe('2024-05-01T10:00:00.000Z');
+    });
+  });
+
+  describe('mergeArrays', () => {
+    it('drops items removed from the base on either side', () => {
+      expect(mergeArrays(['a', 'b', 'c'], ['a', 'c', 'd'], ['a', 'b', 'e'])).toEqual(['a', 'd', 'e']);
+    });
+
+    it('matches objects by id', () => {
+      const photo = { id: 'p1', uri: 'file://one.jpg' };
+      const renamed = { id: 'p1', uri: 'file://renamed.jpg' };
+
+      expect(mergeArrays([], [photo], [renamed, { id: 'p2' }])).toEqual([photo, { id: 'p2' }]);
+    });
+
+    it('handles missing arrays', () => {
+      expect(mergeArrays(null, null, ['a'])).toEqual(['a']);
+    });
+  });
+});
@@ -0,0 +1,713 @@
+import { SyncEngine, SyncLocalStore, SyncEntity, SYNC_TABLES, SubtasksIncompleteError } from '../syncService';
+import { DatabaseService } from '../databaseService';
+import { OfflineQueueItem } from '../../storage';
+import { ReminderChange } from '../reminderRegistry';
+import { Reminder } from '../../types';
+
+jest.mock('@react-native-community/netinfo', () => ({ addEventListener: jest.fn(() => jest.fn()) }));
+jest.mock('../../supabase', () => ({
+  supabase: {},
+  isAuthError: (error: any) => !!error?.message?.includes('JWT expired'),
+}));
+jest.mock('../../storage', () => ({
+  TypedStorage: { offlineQueue: {} },
+  getRetryDelay: (retryCount: number) => retryCount * 1000,
+}));
+jest.mock('../supabaseService', () => ({ encryptTaskFields: jest.fn(), decryptTaskFields: jest.fn() }));
+jest.mock('../databaseService', () => ({ DatabaseService: {} }));
+jest.mock('../reminderRegistry', () => ({ reminderRegistry: {} }));
+jest.mock('../geofenceService', () => ({ geofenceManager: {} }));
+jest.mock('../timeTrackingService', () => ({ timeTracker: { stop: jest.fn(async () => {}) } }));
+jest.mock('../patternEngine', () => ({
+  PatternEngine: jest.fn(() => ({ updatePatterns: mockUpdatePatterns, updateChecklistSequence: mockUpdateChecklistSequence })),
+}));
+jest.mock('../deviceManagementService', () => ({ __esModule: true, default: { getInstance: () => mockDeviceService } }));
+jest.mock('../../database', () => {
+  let counter = 0;
+  return {
+    getDatabase: jest.fn(),
+    DatabaseUtils: {
+      generateId: () => `q-${++counter}`,
+      serializeJSON: (data: any) => JSON.stringify(data),
+      deserializeJSON: (json: string) => {
+        try {
+          return JSON.parse(json);
+        } catch {
+          return null;
+        }
+      },
+      formatDate: (date: Date) => date.toISOString(),
+    },
+  };
+});
+
+/**
+ * In-memory stand-in for the Supabase query builder: supports the select/eq/gt/
+ * or/order/limit/maybeSingle reads and upsert/delete writes the engine issues.
+ */
+function createFakeSupabase(initial: Record<string, any[]> = {}) {
+  const tables: Record<string, any[]> = JSON.parse(JSON.stringify(initial));
+  const failures: Record<string, string[]> = {};
+  const writes: Array<{ table: string; op: string; row?: any; id?: string }> = [];
+
+  const takeFailure = (table: string) => {
+    const message = failures[table]?.shift();
+    return message ? { message } : null;
+  };
+
+  const from = (table: string) => {
+    const rows = () => (tables[table] = tables[table] || []);
+    const filters: Array<(row: any) => boolean> = [];
+    const orders: Array<{ column: string; ascending: boolean }> = [];
+    let limit = Infinity;
+
+    const run = () => {
+      const error = takeFailure(table);
+      if (error) return { data: null, error };
+      let result = rows().filter(row => filters.every(f => f(row)));
+      result = [...result].sort((a, b) => {
+        for (const { column, ascending } of orders) {
+          if (a[column] !== b[column]) return (a[column] < b[column] ? -1 : 1) * (ascending ? 1 : -1);
+        }
+        return 0;
+      });
+      return { data: JSON.parse(JSON.stringify(result.slice(0, limit))), error: null };
+    };
+
+    const query: any = {
+      select: () => query,
+      eq: (column: string, value: any) => {
+        filters.push(row => row[column] === value);
+        return query;
+      },
+      gt: (column: string, value: any) => {
+        filters.push(row => row[column] > value);
+        return query;
+      },
+      // Only the `a.gt.x,and(a.eq.x,b.gt.y)` shape of filter the pull cursor uses
+      or: (filter: string) => {
+        const match = filter.match(/^(\w+)\.gt\."([^"]*)",and\((\w+)\.eq\."([^"]*)",(\w+)\.gt\."([^"]*)"\)$/);
+        if (!match) throw new Error(`Unsupported filter: ${filter}`);
+        const [, first, after, same, at, second, afterSecond] = match;
+        filters.push(row => row[first] > after || (row[same] === at && row[second] > afterSecond));
+        return query;
+      },
+      order: (column: string, options: { ascending: boolean }) => {
+        orders.push({ column, ascending: options.ascending });
+        return query;
+      },
+      limit: (count: number) => {
+        limit = count;
+        return query;
+      },
+      maybeSingle: async () => {
+        const { data, error } = run();
+        return { data: data ? data[0] || null : null, error };
+      },
+      then: (resolve: any, reject: any) => Promise.resolve(run()).then(resolve, reject),
+      upsert: async (row: any) => {
+        const error = takeFailure(table);
+        if (error) return { error };
+        writes.push({ table, op: 'upsert', row });
+        const index = rows().findIndex(r => r.id === row.id);
+        if (index === -1) rows().push({ ...row });
+        else rows()[index] = { ...rows()[index], ...row };
+        return { error: null };
+      },
+      delete: () => ({
+        eq: async (_column: string, id: string) => {
+          writes.push({ table, op: 'delete', id });
+          tables[table] = rows().filter(r => r.id !== id);
+          return { error: null };
+        },
+      }),
+    };
+    return query;
+  };
+
+  return {
+    client: { from },
+    tables,
+    writes,
+    fail: (table: string, message: string) => {
+      (failures[table] = failures[table] || []).push(message);
+    },
+  };
+}
+
+function createMemoryStore(initial: Partial<Record<SyncEntity, any[]>> = {}) {
+  const records: Record<string, Map<string, any>> = {};
+  const cursors: Record<string, string> = {};
+  for (const entity of Object.keys(SYNC_TABLES)) {
+    records[entity] = new Map((initial[entity as SyncEntity] || []).map(r => [r.id, { ...r }]));
+  }
+
+  const store: SyncLocalStore & { records: typeof records; cursors: typeof cursors } = {
+    records,
+    cursors,
+    getRecord: async (entity, id) => (records[entity].has(id) ? { ...records[entity].get(id) } : null),
+    upsertRecord: async (entity, record) => {
+      records[entity].set(record.id, { ...(records[entity].get(record.id) || {}), ...record });
+    },
+    getRecordsUpdatedSince: async (entity, userId, since) =>
+      [...records[entity].values()].filter(r => r.user_id === userId && r.updated_at >= since),
+    getCursor: async entity => cursors[entity] || null,
+    setCursor: async (entity, cursor) => {
+      cursors[entity] = cursor;
+    },
+  };
+  return store;
+}
+
+function createMemoryQueue(initial: OfflineQueueItem[] = []) {
+  let items = JSON.parse(JSON.stringify(initial)) as OfflineQueueItem[];
+  return {
+    get: async () => JSON.parse(JSON.stringify(items)) as OfflineQueueItem[],
+    set: async (queue: OfflineQueueItem[]) => {
+      items = JSON.parse(JSON.stringify(queue));
+    },
+    items: () => items,
+  };
+}
+
+const mockDeviceService = {
+  detectDeviceConflicts: jest.fn(async () => ({ id: 'conflict-1' })),
+  resolveConflict: jest.fn(async () => {}),
+  getUnresolvedConflicts: jest.fn(async () => []),
+};
+
+const mockUpdatePatterns = jest.fn(async () => {});
+const mockUpdateChecklistSequence = jest.fn(async () => {});
+
+const identityCodec = {
+  encode: async (_entity: SyncEntity, record: any) => record,
+  decode: async (_entity: SyncEntity, record: any) => record,
+};
+
+const localTask = (overrides: Record<string, any> = {}) => ({
+  id: 'task-1',
+  user_id: 'user-1',
+  title: 'Write report',
+  description: null,
+  completed: 0,
+  priority: 'medium',
+  category: 'Work',
+  tags: '["writing"]',
+  ai_suggested: 0,
+  reminder_enabled: 0,
+  created_at: '2024-05-01T08:00:00.000Z',
+  updated_at: '2024-05-01T08:00:00.000Z',
+  deleted_at: null,
+  ...overrides,
+});
+
+const remoteTask = (overrides: Record<string, any> = {}) => ({
+  ...localTask(),
+  completed: false,
+  tags: ['writing'],
+  ...overrides,
+});
+
+function setup(
+  options: { remote?: Record<string, any[]>; local?: Partial<Record<SyncEntity, any[]>>; now?: number; pullPageSize?: number } = {}
+) {
+  const remote = createFakeSupabase(options.remote);
+  const store = createMemoryStore(options.local);
+  const queue = createMemoryQueue();
+  const reminders = {
+    syncTask: jest.fn(async (): Promise<ReminderChange[]> => []),
+    reconcile: jest.fn(async (): Promise<ReminderChange[]> => []), snooze: jest.fn(async () => []) };
+  const geofences = { refresh: jest.fn(async () => []) };
+  let now = options.now ?? Date.parse('2024-05-02T00:00:00.000Z');
+  const engine = new SyncEngine({
+    client: remote.client,
+    store,
+    queue,
+    codec: identityCodec,
+    pullPageSize: options.pullPageSize,
+    now: () => new Date(now),
+    reminders,
+    geofences,
+  });
+  return { engine, remote, store, queue, reminders, geofences, advance: (ms: number) => { now += ms; } };
+}
+
+describe('SyncEngine', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('push', () => {
+    it('uploads the local record in server shape and clears the queue', async () => {
+      const { engine, remote, store, queue } = setup({ local: { task: [localTask()] } });
+      await engine.enqueue('task', 'create', { id: 'task-1', user_id: 'user-1' });
+
+      const result = await engine.push();
+
+      expect(result.pushed).toBe(1);
+      expect(queue.items()).toHaveLength(0);
+      expect(remote.tables.tasks[0]).toMatchObject({ id: 'task-1', completed: false, tags: ['writing'] });
+      expect(store.records.task.get('task-1').title).toBe('Write report');
+    });
+
+    it('runs higher priority items first and waits for dependencies', async () => {
+      const { engine, remote } = setup({
+        local: {
+          task: [localTask()],
+          suggestion: [{ id: 'sugg-1', user_id: 'user-1', title: 'Stretch', based_on: '[]', updated_at: '2024-05-01T09:00:00.000Z' }],
+          feedback: [{ id: 'fb-1', user_id: 'user-1', suggestion_id: 'sugg-1', feedback_type: 'positive', updated_at: '2024-05-01T09:05:00.000Z' }],
+        },
+      });
+      await engine.enqueue('suggestion', 'create', { id: 'sugg-1' }, { priority: 0 });
+      const feedback = await engine.enqueue('feedback', 'create', { id: 'fb-1', suggestion_id: 'sugg-1' }, { priority: 10 });
+      await engine.enqueue('task', 'create', { id: 'task-1' }, { priority: 5 });
+
+      expect(feedback.dependencies).toHaveLength(1);
+      await engine.push();
+
+      expect(remote.writes.map(w => w.table)).toEqual(['tasks', 'suggestions', 'feedback']);
+    });
+
+    it('keeps later changes to a record behind earlier ones', async () => {
+      const { engine } = setup({ local: { task: [localTask()] } });
+      const create = await engine.enqueue('task', 'create', { id: 'task-1' });
+      const update = await engine.enqueue('task', 'update', { id: 'task-1', completed: true });
+
+      expect(update.dependencies).toEqual([create.id]);
+    });
+
+    it('backs off failed items and blocks their dependents', async () => {
+      const { engine, remote, queue, advance } = setup({ local: { task: [localTask()] } });
+      await engine.enqueue('task', 'create', { id: 'task-1' });
+      await engine.enqueue('task', 'update', { id: 'task-1', title: 'Write final report' });
+      remote.fail('tasks', 'network down');
+
+      const first = await engine.push();
+
+      expect(first).toMatchObject({ pushed: 0, failed: 1 });
+      expect(queue.items()[0]).toMatchObject({ status: 'pending', retry_count: 1, last_error: 'network down' });
+      expect(await engine.push()).toMatchObject({ pushed: 0, failed: 0 });
+
+      advance(1000);
+      expect(await engine.push()).toMatchObject({ pushed: 2 });
+      expect(queue.items()).toHaveLength(0);
+    });
+
+    it('marks an item failed once it runs out of retries', async () => {
+      const { engine, remote, queue, advance } = setup({ local: { task: [localTask()] } });
+      const item = await engine.enqueue('task', 'create', { id: 'task-1' });
+      await queue.set(queue.items().map(q => ({ ...q, max_retries: 2 })));
+
+      remote.fail('tasks', 'boom');
+      await engine.push();
+      advance(5000);
+      remote.fail('tasks', 'boom');
+      await engine.push();
+
+      expect(queue.items().find(q => q.id === item.id)).toMatchObject({ status: 'failed', retry_count: 2 });
+      expect((await engine.getStatus()).failed).toBe(1);
+
+      await engine.retryFailed();
+      advance(5000);
+      expect(await engine.push()).toMatchObject({ pushed: 1 });
+    });
+
+    it('merges fields changed on either side since the base without a conflict', async () => {
+      const { engine, remote, store } = setup({
+        local: { task: [localTask({ completed: 1, tags: '["writing","urgent"]', updated_at: '2024-05-01T10:00:00.000Z' })] },
+        remote: { tasks: [remoteTask({ title: 'Write final report', tags: ['writing', 'review'], updated_at: '2024-05-01T11:00:00.000Z' })] },
+      });
+      await engine.enqueue('task', 'update', { id: 'task-1', completed: true }, { base: localTask() });
+
+      const result = await engine.push();
+
+      expect(result).toMatchObject({ pushed: 1, conflicts: 0 });
+      expect(remote.tables.tasks[0]).toMatchObject({
+        title: 'Write final report',
+        completed: true,
+        tags: ['writing', 'urgent', 'review'],
+        updated_at: '2024-05-02T00:00:00.000Z',
+      });
+      expect(store.records.task.get('task-1')).toMatchObject({ title: 'Write final report', completed: 1 });
+    });
+
+    it('flags a conflict for fields changed on both sides without a merge rule', async () => {
+      const { engine, remote, queue } = setup({
+        local: { task: [localTask({ priority: 'high', updated_at: '2024-05-01T10:00:00.000Z' })] },
+        remote: { tasks: [remoteTask({ title: 'Remote title', priority: 'low', updated_at: '2024-05-01T11:00:00.000Z' })] },
+      });
+      await engine.enqueue('task', 'update', { id: 'task-1', priority: 'high' }, { base: localTask() });
+
+      const result = await engine.push();
+
+      expect(result.conflicts).toBe(1);
+      const [item] = queue.items();
+      expect(item.status).toBe('conflict');
+      expect(item.conflict).toMatchObject({
+        fields: ['priority'],
+        merged: { title: 'Remote title', priority: 'high' },
+        conflict_id: 'conflict-1',
+      });
+      expect(mockDeviceService.detectDeviceConflicts).toHaveBeenCalledWith(
+        'task',
+        'task-1',
+        expect.objectContaining({ priority: 'high' }),
+        expect.objectContaining({ priority: 'low' }),
+        expect.objectContaining({ conflictFields: ['priority'] })
+      );
+      expect(remote.tables.tasks[0].priority).toBe('low');
+
+      await engine.resolveConflict(item.id, { ...item.conflict!.merged, priority: 'low' });
+      expect(mockDeviceService.resolveConflict).toHaveBeenCalledWith('conflict-1', 'remote');
+      expect(await engine.push()).toMatchObject({ pushed: 1, conflicts: 0 });
+      expect(remote.tables.tasks[0]).toMatchObject({ title: 'Remote title', priority: 'low' });
+    });
+
+    it('compares later changes against the base of the oldest queued change', async () => {
+      const { engine } = setup({ local: { task: [localTask()] } });
+      await engine.enqueue('task', 'update', { id: 'task-1' }, { base: localTask() });
+      const later = await engine.enqueue('task', 'update', { id: 'task-1' }, { base: localTask({ title: 'Edited', updated_at: '2024-05-01T09:00:00.000Z' }) });
+
+      expect(later.base_updated_at).toBe('2024-05-01T08:00:00.000Z');
+      expect(later.base.title).toBe('Write report');
+    });
+
+    it('pushes soft deletes as tombstones and purges as remote deletes', async () => {
+      const { engine, remote } = setup({
+        local: { task: [localTask({ deleted_at: '2024-05-01T12:00:00.000Z', updated_at: '2024-05-01T12:00:00.000Z' })] },
+        remote: { tasks: [{ id: 'task-1', user_id: 'user-1', updated_at: '2024-05-01T08:00:00.000Z' }, { id: 'task-2', user_id: 'user-1' }] },
+      });
+      await engine.enqueue('task', 'delete', { id: 'task-1' }, { baseUpdatedAt: '2024-05-01T08:00:00.000Z' });
+      await engine.enqueue('task', 'delete', { id: 'task-2' });
+
+      await engine.push();
+
+      expect(remote.tables.tasks).toEqual([expect.objectContaining({ id: 'task-1', deleted_at: '2024-05-01T12:00:00.000Z' })]);
+    });
+  });
+
+  describe('pull', () => {
+    it('applies remote changes newer than the cursor and advances it', async () => {
+      const { engine, store } = setup({
+        remote: {
+          tasks: [
+            remoteTask({ id: 'task-1', updated_at: '2024-05-01T09:00:00+00:00', completed: true }),
+            remoteTask({ id: 'task-2', user_id: 'someone-else' }),
+          ],
+        },
+      });
+
+      const result = await engine.pull('user-1');
+
+      expect(result).toEqual({ pulled: 1, errors: [] });
+      expect(store.records.task.get('task-1')).toMatchObject({ completed: 1, tags: '["writing"]' });
+      expect(JSON.parse(store.cursors.task)).toEqual({ updated_at: '2024-05-01T09:00:00.000Z', id: 'task-1' });
+      expect((await engine.pull('user-1')).pulled).toBe(0);
+    });
+
+    it('pages through rows that share an updated_at without skipping any', async () => {
+      const updated_at = '2024-05-01T10:00:00.000Z';
+      const { engine, store } = setup({
+        remote: { tasks: ['task-a', 'task-b', 'task-c', 'task-d', 'task-e'].map(id => remoteTask({ id, updated_at })) },
+        pullPageSize: 2,
+      });
+
+      const result = await engine.pull('user-1');
+
+      expect(result.pulled).toBe(5);
+      expect([...store.records.task.keys()].sort()).toEqual(['task-a', 'task-b', 'task-c', 'task-d', 'task-e']);
+      expect(JSON.parse(store.cursors.task)).toEqual({ updated_at, id: 'task-e' });
+    });
+
+    it('resumes from a cursor saved as a bare timestamp', async () => {
+      const { engine, store } = setup({
+        remote: {
+          tasks: [
+            remoteTask({ id: 'task-1', updated_at: '2024-05-01T09:00:00.000Z' }),
+            remoteTask({ id: 'task-2', updated_at: '2024-05-01T10:00:00.000Z' }),
+          ],
+        },
+      });
+      store.cursors.task = '2024-05-01T09:00:00.000Z';
+
+      await engine.pull('user-1');
+
+      expect(store.records.task.has('task-1')).toBe(true);
+      expect(store.records.task.has('task-2')).toBe(true);
+    });
+
+    it('does not overwrite records with queued local changes or newer local versions', async () => {
+      const { engine, store } = setup({
+        local: {
+          task: [
+            localTask({ id: 'task-1', title: 'Pending local edit' }),
+            localTask({ id: 'task-2', title: 'Newer locally', updated_at: '2024-05-01T12:00:00.000Z' }),
+          ],
+        },
+        remote: {
+          tasks: [
+            remoteTask({ id: 'task-1', title: 'Remote', updated_at: '2024-05-01T10:00:00.000Z' }),
+            remoteTask({ id: 'task-2', title: 'Older remote', updated_at: '2024-05-01T10:00:00.000Z' }),
+          ],
+        },
+      });
+      await engine.enqueue('task', 'update', { id: 'task-1', title: 'Pending local edit' });
+
+      await engine.pull('user-1');
+
+      expect(store.records.task.get('task-1').title).toBe('Pending local edit');
+      expect(store.records.task.get('task-2').title).toBe('Newer locally');
+    });
+
+    it('skips remote tombstones for records that no longer exist locally', async () => {
+      const { engine, store } = setup({
+        remote: { tasks: [remoteTask({ id: 'task-9', deleted_at: '2024-05-01T10:00:00.000Z' })] },
+      });
+
+      await engine.pull('user-1');
+
+      expect(store.records.task.has('task-9')).toBe(false);
+    });
+
+    it('keeps pulling other entities when one table fails', async () => {
+      const { engine, remote, store } = setup({
+        remote: {
+          tasks: [remoteTask({ id: 'task-1' })],
+          feedback: [{ id: 'fb-1', user_id: 'user-1', suggestion_id: 's', feedback_type: 'negative', updated_at: '2024-05-01T10:00:00.000Z' }],
+        },
+      });
+      remote.fail('suggestions', 'relation "suggestions" does not exist');
+
+      const result = await engine.pull('user-1');
+
+      expect(result.errors).toEqual(['suggestions: relation "suggestions" does not exist']);
+      expect(store.records.task.has('task-1')).toBe(true);
+      expect(store.records.feedback.has('fb-1')).toBe(true);
+    });
+  });
+
+  describe('recurring tasks', () => {
+    const series: any[] = [];
+    const instance = {
+      ...localTask({ completed: true, tags: ['writing'] }),
+      reminder_enabled: true,
+      reminder_time: '2024-05-01T08:30:00.000Z',
+      due_date: '2024-05-01T09:00:00.000Z',
+      recurrence: { frequency: 'daily', interval: 1 },
+      series_id: 'task-1',
+      series_index: 1,
+    };
+
+    beforeEach(() => {
+      series.length = 0;
+      series.push(instance);
+      Object.assign(DatabaseService, {
+        toggleTaskCompletion: jest.fn(async () => instance),
+        getTaskSeries: jest.fn(async () => series),
+        createTask: jest.fn(async (userId: string, input: any) => {
+          const created = { ...input, id: `task-${series.length + 1}`, user_id: userId };
+          series.push(created);
+          return created;
+        }),
+      });
+    });
+
+    it('creates the next instance with its reminder when an instance is completed', async () => {
+      const { engine, queue, reminders } = setup({ local: { task: [localTask()] } });
+
+      await engine.toggleTaskCompletion('task-1');
+
+      expect(DatabaseService.createTask).toHaveBeenCalledWith('user-1', expect.objectContaining({
+        due_date: '2024-05-02T09:00:00.000Z',
+        reminder_time: '2024-05-02T08:30:00.000Z',
+        series_id: 'task-1',
+        series_index: 2,
+      }));
+      expect(reminders.syncTask).toHaveBeenCalledWith('user-1', 'task-1');
+      expect(reminders.syncTask).toHaveBeenCalledWith('user-1', 'task-2');
+      expect(queue.items().map(q => [q.action, q.data.id])).toEqual([['update', 'task-1'], ['create', 'task-2']]);
+    });
+
+    it('does not create the next instance twice', async () => {
+      const { engine } = setup({ local: { task: [localTask()] } });
+
+      await engine.toggleTaskCompletion('task-1');
+      await engine.toggleTaskCompletion('task-1');
+
+      expect(DatabaseService.createTask).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('reminders', () => {
+    const reminder: Reminder = {
+      id: 'rem-1',
+      user_id: 'user-1',
+      task_id: 'task-1',
+      title: 'Write report',
+      scheduled_time: '2024-05-03T09:00:00.000Z',
+      status: 'pending',
+      created_at: '2024-05-02T00:00:00.000Z',
+    };
+
+    it('queues the reminder rows the registry changed after a reminder edit', async () => {
+      const { engine, queue, reminders } = setup({ local: { task: [localTask()] } });
+      Object.assign(DatabaseService, { updateTask: jest.fn(async () => localTask()) });
+      reminders.syncTask.mockResolvedValueOnce([{ action: 'create', reminder, before: null }]);
+
+      await engine.updateTask('task-1', { reminder_time: reminder.scheduled_time });
+
+      expect(reminders.syncTask).toHaveBeenCalledWith('user-1', 'task-1');
+      const [update, created] = queue.items();
+      expect([created.entity, created.action, created.data.id]).toEqual(['reminder', 'create', 'rem-1']);
+      expect(created.dependencies).toEqual([]);
+      expect(update.data.reminder_time).toBe(reminder.scheduled_time);
+    });
+
+    it('leaves reminders alone for unrelated edits', async () => {
+      const { engine, reminders } = setup({ local: { task: [localTask()] } });
+      Object.assign(DatabaseService, { updateTask: jest.fn(async () => localTask()) });
+
+      await engine.updateTask('task-1', { title: 'Write summary' });
+
+      expect(reminders.syncTask).not.toHaveBeenCalled();
+    });
+
+    it('re-registers geofences when a location reminder changes', async () => {
+      const { engine, reminders, geofences } = setup({ local: { task: [localTask()] } });
+      const location_reminder = { latitude: 52.37, longitude: 4.89, radius: 200, trigger: 'enter' as const };
+      Object.assign(DatabaseService, { updateTask: jest.fn(async () => localTask({ location_reminder })) });
+
+      await engine.updateTask('task-1', { location_reminder });
+
+      expect(geofences.refresh).toHaveBeenCalledWith('user-1');
+      expect(reminders.syncTask).not.toHaveBeenCalled();
+    });
+
+    it('cancels the reminders and geofences of tasks trashed in bulk', async () => {
+      const location_reminder = { latitude: 52.37, longitude: 4.89, radius: 200, trigger: 'enter' as const };
+      const { engine, store, queue, reminders, geofences } = setup({
+        local: { task: [localTask(), localTask({ id: 'task-2', location_reminder })] },
+      });
+      Object.assign(DatabaseService, {
+        softDeleteUserData: jest.fn(async (userId: string) => {
+          const now = new Date().toISOString();
+          for (const task of store.records.task.values()) {
+            if (task.user_id === userId) Object.assign(task, { deleted_at: now, updated_at: now });
+          }
+        }),
+      });
+      reminders.reconcile.mockResolvedValueOnce([{ action: 'delete', reminder, before: reminder }]);
+
+      await engine.trashUserData('user-1');
+
+      expect(reminders.reconcile).toHaveBeenCalledWith('user-1');
+      expect(geofences.refresh).toHaveBeenCalledWith('user-1');
+      expect(queue.items().map(item => [item.entity, item.action, item.data.id])).toEqual([
+        ['task', 'delete', 'task-1'],
+        ['task', 'delete', 'task-2'],
+        ['reminder', 'delete', 'rem-1'],
+      ]);
+    });
+  });
+
+  describe('subtasks', () => {
+    const subtask = (overrides: Record<string, any> = {}) => ({
+      id: 'sub-1',
+      user_id: 'user-1',
+      task_id: 'task-1',
+      title: 'Gather numbers',
+      completed: false,
+      position: 0,
+      created_at: '2024-05-01T08:00:00.000Z',
+      updated_at: '2024-05-01T08:00:00.000Z',
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      mockUpdatePatterns.mockClear();
+      mockUpdateChecklistSequence.mockClear();
+      Object.assign(DatabaseService, {
+        getTask: jest.fn(async () => ({ ...localTask(), tags: ['writing'] })),
+        toggleTaskCompletion: jest.fn(async () => ({ ...localTask(), completed: true })),
+      });
+    });
+
+    it('queues new subtasks behind the task that created them', async () => {
+      const { engine, queue } = setup({ local: { task: [localTask()] } });
+      Object.assign(DatabaseService, { createSubtask: jest.fn(async () => subtask()) });
+
+      const create = await engine.enqueue('task', 'create', { id: 'task-1' });
+      await engine.createSubtask('user-1', 'task-1', 'Gather numbers');
+
+      expect(queue.items()[1]).toMatchObject({ entity: 'subtask', action: 'create', dependencies: [create.id] });
+    });
+
+    it('refuses to complete a gated task while subtasks are open', async () => {
+      const { engine, queue } = setup({ local: { task: [localTask({ require_subtasks: 1 })] } });
+      Object.assign(DatabaseService, {
+        getSubtasks: jest.fn(async () => [subtask({ completed: true }), subtask({ id: 'sub-2' })]),
+      });
+
+      await expect(engine.toggleTaskCompletion('task-1')).rejects.toBeInstanceOf(SubtasksIncompleteError);
+      expect(DatabaseService.toggleTaskCompletion).not.toHaveBeenCalled();
+      expect(queue.items()).toHaveLength(0);
+    });
+
+    it('completes a gated task once every subtask is done', async () => {
+      const { engine } = setup({ local: { task: [localTask({ require_subtasks: 1 })] } });
+      Object.assign(DatabaseService, { getSubtasks: jest.fn(async () => [subtask({ completed: true })]) });
+
+      await expect(engine.toggleTaskCompletion('task-1')).resolves.toMatchObject({ completed: true });
+      expect(mockUpdatePatterns).toHaveBeenCalledWith(expect.objectContaining({ id: 'task-1', completed: true }));
+    });
+
+    it('feeds the order subtasks were checked off to the pattern engine', async () => {
+      const { engine, queue } = setup({ local: { task: [localTask()], subtask: [subtask({ id: 'sub-2' })] } });
+      const first = subtask({ completed: true, completed_at: '2024-05-01T09:00:00.000Z' });
+      const second = subtask({ id: 'sub-2', title: 'Draft summary', completed: true, completed_at: '2024-05-01T09:30:00.000Z' });
+      Object.assign(DatabaseService, {
+        toggleSubtaskCompletion: jest.fn(async () => second),
+        getSubtasks: jest.fn(async () => [first, second, subtask({ id: 'sub-3', title: 'Send' })]),
+      });
+
+      await engine.toggleSubtaskCompletion('sub-2');
+
+      expect(queue.items()[0]).toMatchObject({ entity: 'subtask', action: 'update', data: { id: 'sub-2', completed: true } });
+      expect(mockUpdateChecklistSequence).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'sub-2', title: 'Draft summary', category: 'Work' }),
+        [expect.objectContaining({ id: 'sub-1', title: 'Gather numbers' })]
+      );
+    });
+  });
+
+  describe('sync', () => {
+    it('pushes before pulling and shares a single run between callers', async () => {
+      const { engine, remote, store } = setup({
+        local: { task: [localTask({ title: 'Offline edit', updated_at: '2024-05-01T10:00:00.000Z' })] },
+        remote: { tasks: [remoteTask({ id: 'task-2', title: 'From another device' })] },
+      });
+      await engine.enqueue('task', 'update', { id: 'task-1', title: 'Offline edit' });
+
+      const [first, second] = await Promise.all([engine.sync('user-1'), engine.sync('user-1')]);
+
+      expect(first).toBe(second);
+      expect(first).toMatchObject({ pushed: 1, pulled: 1 });
+      expect(remote.tables.tasks.find(t => t.id === 'task-1').title).toBe('Offline edit');
+      expect(store.records.task.get('task-2').title).toBe('From another device');
+      expect((await engine.getStatus()).lastSyncedAt).toBe('2024-05-02T00:00:00.000Z');
+    });
+
+    it('surfaces authentication errors', async () => {
+      const { engine, remote } = setup({ local: { task: [localTask()] } });
+      await engine.enqueue('task', 'create', { id: 'task-1' });
+      remote.fail('tasks', 'JWT expired');
+
+      await expect(engine.sync('user-1')).rejects.toMatchObject({ message: 'JWT expired' });
+      expect((await engine.getStatus()).lastError).toBe('JWT expired');
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { estimateMinutes, formatDuration, moveBlock, parseTimeEstimate, planOrder, planTimeBlocks } from '../timeBlockPlanner';
+import { BusyBlock, Task } from '../../types';
+
+// Monday 6 May 2024, local time
+const at = (day: number, hours: number, minutes = 0) => new Date(2024, 4, day, hours, minutes);
+
+const task = (id: string, overrides: Partial<Task> = {}): Task => ({
+  id,
+  user_id: 'user-1',
+  title: id,
+  completed: false,
+  logged_after_completion: false,
+  priority: 'medium',
+  category: 'Work',
+  tags: [],
+  ai_suggested: false,
+  reminder_enabled: false,
+  estimated_minutes: 60,
+  created_at: '2024-05-01T08:00:00.000Z',
+  updated_at: '2024-05-01T08:00:00.000Z',
+  ...overrides,
+});
+
+const meeting = (start: Date, end: Date, overrides: Partial<BusyBlock> = {}): BusyBlock => ({
+  id: `meeting-${start.getTime()}`,
+  title: 'Meeting',
+  start: start.toISOString(),
+  end: end.toISOString(),
+  type: 'meeting',
+  source: 'device',
+  ...overrides,
+});
+
+const times = (plan: ReturnType<typeof planTimeBlocks>) =>
+  Object.fromEntries(plan.blocks.map(b => [b.taskId, [b.start.getTime(), b.end.getTime()]]));
+
+describe('parseTimeEstimate', () => {
+  it('reads minutes and hours', () => {
+    expect(parseTimeEstimate('30 mins')).toBe(30);
+    expect(parseTimeEstimate('2 hours')).toBe(120);
+    expect(parseTimeEstimate('1h 30m')).toBe(90);
+    expect(parseTimeEstimate('soon')).toBeUndefined();
+    expect(parseTimeEstimate(undefined)).toBeUndefined();
+  });
+});
+
+describe('estimateMinutes', () => {
+  const tracked = (title: string, minutes?: number, overrides: Partial<Task> = {}) =>
+    task(`${title}-${minutes}`, { title, completed: true, tracked_minutes: minutes, ...overrides });
+  const history = [
+    tracked('Weekly report', 50),
+    tracked('weekly report ', 70),
+    tracked('Inbox zero', 10),
+    tracked('Standup notes', 20),
+    tracked('Untracked'),
+    tracked('Open', 500, { completed: false }),
+  ];
+
+  it('prefers time tracked on the same task', () => {
+    expect(estimateMinutes(history, { title: 'Weekly Report', category: 'Work' })).toBe(60);
+  });
+
+  it('falls back to the category once it has enough samples', () => {
+    expect(estimateMinutes(history, { title: 'Plan sprint', category: 'Work' })).toBe(35);
+    expect(estimateMinutes(history, { category: 'Health' })).toBeUndefined();
+  });
+});
+
+describe('formatDuration', () => {
+  it('reads like the suggestion estimates', () => {
+    expect(formatDuration(25)).toBe('25 mins');
+    expect(formatDuration(60)).toBe('1 hour');
+    expect(formatDuration(100)).toBe('1.5 hours');
+  });
+});
+
+describe('planOrder', () => {
+  it('puts due tasks first, then higher priority, then older tasks', () => {
+    const ordered = planOrder([
+      task('later', { priority: 'high' }),
+      task('old', { created_at: '2024-04-01T08:00:00.000Z' }),
+      task('due-friday', { due_date: at(10, 17).toISOString(), priority: 'low' }),
+      task('due-today', { due_date: at(6, 17).toISOString() }),
+    ]);
+
+    expect(ordered.map(t => t.id)).toEqual(['due-today', 'due-friday', 'later', 'old']);
+  });
+});
+
+describe('planTimeBlocks', () => {
+  it('plans around meetings with a break after each block', () => {
+    const plan = planTimeBlocks([task('a'), task('b', { estimated_minutes: 30 })], {
+      from: at(6, 8, 50),
+      days: 1,
+      busy: [meeting(at(6, 10), at(6, 11)), meeting(at(6, 0), at(7, 0), { allDay: true })],
+    });
+
+    expect(times(plan)).toEqual({
+      a: [at(6, 9).getTime(), at(6, 10).getTime()],
+      b: [at(6, 11).getTime(), at(6, 11, 30).getTime()],
+    });
+    expect(plan.unscheduled).toEqual([]);
+  });
+
+  it('saves peak hours for important work', () => {
+    const plan = planTimeBlocks([task('filing', { priority: 'low' }), task('report', { priority: 'high' })], {
+      from: at(6, 9),
+      days: 1,
+      peakHours: [9, 14],
+    });
+
+    expect(plan.blocks.find(b => b.taskId === 'report')).toMatchObject({ start: at(6, 9), peak: true });
+    expect(plan.blocks.find(b => b.taskId === 'filing')).toMatchObject({ start: at(6, 10, 15), peak: false });
+  });
+
+  it('waits for a peak hour only while the task still makes its due date', () => {
+    const plan = planTimeBlocks(
+      [task('slides', { due_date: at(6, 12).toISOString() }), task('essay', { due_date: at(7, 18).toISOString() })],
+      { from: at(6, 9), days: 2, peakHours: [15] }
+    );
+
+    expect(plan.blocks.find(b => b.taskId === 'slides')?.start).toEqual(at(6, 9));
+    expect(plan.blocks.find(b => b.taskId === 'essay')?.start).toEqual(at(6, 15));
+  });
+
+  it('marks tasks that cannot make their due date and leaves out what does not fit', () => {
+    const plan = planTimeBlocks(
+      [
+        task('overdue', { due_date: at(5, 17).toISOString() }),
+        task('marathon', { estimated_minutes: 12 * 60 }),
+        task('done', { completed: true }),
+        task('quick', { estimated_minutes: undefined }),
+      ],
+      { from: at(6, 16), days: 1 }
+    );
+
+    expect(plan.blocks.map(b => [b.taskId, b.late, b.estimated])).toEqual([
+      ['overdue', true, true],
+      ['quick', false, false],
+    ]);
+    expect(times(plan).quick).toEqual([at(6, 17, 15).getTime(), at(6, 17, 45).getTime()]);
+    expect(plan.unscheduled.map(t => t.id)).toEqual(['marathon']);
+  });
+
+  it('defers blocked tasks until their blockers are done', () => {
+    const plan = planTimeBlocks(
+      [
+        task('report', { due_date: at(6, 17).toISOString(), blocked_by: ['research'] }),
+        task('research'),
+        task('filed', { completed: true }),
+        task('send', { estimated_minutes: 30, blocked_by: ['filed'] }),
+        task('marathon', { estimated_minutes: 12 * 60 }),
+        task('recap', { blocked_by: ['marathon'] }),
+      ],
+      { from: at(6, 9), days: 1 }
+    );
+
+    expect(times(plan)).toEqual({
+      research: [at(6, 9).getTime(), at(6, 10).getTime()],
+      send: [at(6, 10, 15).getTime(), at(6, 10, 45).getTime()],
+      report: [at(6, 11).getTime(), at(6, 12).getTime()],
+    });
+    expect(plan.unscheduled.map(t => t.id)).toEqual(['marathon', 'recap']);
+  });
+});
+
+describe('moveBlock', () => {
+  const plan = planTimeBlocks([task('a'), task('b', { due_date: at(6, 14).toISOString() })], { from: at(6, 9), days: 1 });
+  const busy = [meeting(at(6, 15), at(6, 16))];
+
+  it('snaps to the quarter hour and flags lateness', () => {
+    const moved = moveBlock(plan, 'b', at(6, 13, 8), { busy });
+
+    expect(moved?.blocks.find(b => b.taskId === 'b')).toMatchObject({ start: at(6, 13, 15), end: at(6, 14, 15), late: true });
+  });
+
+  it('refuses overlaps with other blocks and meetings', () => {
+    const other = plan.blocks.find(block => block.taskId === 'a')!;
+
+    expect(moveBlock(plan, 'b', other.start, { busy })).toBeNull();
+    expect(moveBlock(plan, 'b', at(6, 14, 30), { busy })).toBeNull();
+  });
+});
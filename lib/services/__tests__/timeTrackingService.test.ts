@@ -0,0 +1,98 @@
+import { TimeTracker, timerState } from '../timeTrackingService';
+import { DatabaseService } from '../databaseService';
+import { TimeEntry } from '../../types';
+
+jest.mock('../databaseService', () => ({ DatabaseService: {} }));
+
+// Monday 6 May 2024, local time
+const at = (hours: number, minutes = 0) => new Date(2024, 4, 6, hours, minutes);
+
+const entry = (start: Date, end?: Date, endedBy?: TimeEntry['ended_by']): TimeEntry => ({
+  id: `entry-${start.getTime()}`,
+  user_id: 'user-1',
+  task_id: 'task-1',
+  started_at: start.toISOString(),
+  ended_at: end?.toISOString(),
+  ended_by: endedBy,
+  created_at: start.toISOString(),
+  updated_at: start.toISOString(),
+});
+
+describe('timerState', () => {
+  it('adds up every session, the running one included', () => {
+    const entries = [entry(at(9), at(9, 20), 'pause'), entry(at(10))];
+
+    expect(timerState(entries, at(10, 5))).toEqual({
+      status: 'running',
+      elapsedMs: 25 * 60 * 1000,
+      sessions: 2,
+      runningSince: at(10),
+    });
+  });
+
+  it('tells a paused timer from a stopped one', () => {
+    expect(timerState([entry(at(9), at(9, 20), 'pause')], at(12)).status).toBe('paused');
+    expect(timerState([entry(at(9), at(9, 20), 'stop')], at(12)).status).toBe('idle');
+    expect(timerState([], at(12))).toEqual({ status: 'idle', elapsedMs: 0, sessions: 0, runningSince: undefined });
+  });
+});
+
+describe('TimeTracker', () => {
+  let entries: TimeEntry[];
+  let now: Date;
+
+  beforeEach(() => {
+    entries = [];
+    now = at(9);
+    Object.assign(DatabaseService, {
+      getTimeEntries: jest.fn(async (taskId: string) => entries.filter(e => e.task_id === taskId)),
+      getRunningTimeEntry: jest.fn(async () => entries.find(e => !e.ended_at) || null),
+      createTimeEntry: jest.fn(async (userId: string, taskId: string, startedAt: Date) => {
+        const created = { ...entry(startedAt), task_id: taskId };
+        entries.push(created);
+        return created;
+      }),
+      endTimeEntry: jest.fn(async (taskId: string, endedAt: Date, endedBy: 'pause' | 'stop') => {
+        const open = entries.find(e => e.task_id === taskId && !e.ended_at);
+        if (!open) return false;
+        Object.assign(open, { ended_at: endedAt.toISOString(), ended_by: endedBy });
+        return true;
+      }),
+      stopPausedTimeEntry: jest.fn(async (taskId: string) => {
+        const last = entries.filter(e => e.task_id === taskId).pop();
+        if (last?.ended_by === 'pause') last.ended_by = 'stop';
+      }),
+    });
+  });
+
+  const tracker = () => new TimeTracker({ now: () => now });
+
+  it('tracks start, pause, resume and stop as separate sessions', async () => {
+    await tracker().start('user-1', 'task-1');
+    now = at(9, 30);
+    expect((await tracker().pause('task-1')).status).toBe('paused');
+    now = at(11);
+    await tracker().start('user-1', 'task-1');
+    now = at(11, 15);
+
+    expect(await tracker().stop('task-1')).toMatchObject({ status: 'idle', elapsedMs: 45 * 60 * 1000, sessions: 2 });
+  });
+
+  it('runs one timer at a time', async () => {
+    await tracker().start('user-1', 'task-1');
+    await tracker().start('user-1', 'task-1');
+    now = at(9, 10);
+    await tracker().start('user-1', 'task-2');
+
+    expect(entries).toHaveLength(2);
+    expect((await tracker().state('task-1')).status).toBe('paused');
+    expect((await tracker().state('task-2')).status).toBe('running');
+  });
+
+  it('stops a paused timer', async () => {
+    await tracker().start('user-1', 'task-1');
+    await tracker().pause('task-1');
+
+    expect((await tracker().stop('task-1')).status).toBe('idle');
+  });
+});
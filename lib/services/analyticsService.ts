@@ -1,5 +1,7 @@
-import { Task, TaskAnalytics, CategoryAnalytics, TimeAnalytics } from '../types';
+import { Task, TaskAnalytics, CategoryAnalytics, TimeAnalytics, FocusEntry } from '../types';
 import { usePermissionsStore } from '@/lib/permissionsStore';
+import { DependencyService } from './dependencyService';
+import { estimateMinutes } from './timeBlockPlanner';
 import PermissionPrompt from '@/components/PermissionPrompt';
 import React, { useState } from 'react';
 
@@ -61,13 +63,24 @@ export interface AnalyticsData {
 
 export interface AdvancedProductivityMetrics {
   taskVelocity: number; // tasks completed per day
-  focusScore: number; // 0-100, based on completion patterns
+  focusScore: number; // 0-100, daily focus-session minutes against a target
   efficiencyTrend: 'improving' | 'declining' | 'stable';
   burnoutRisk: 'low' | 'medium' | 'high';
   peakProductivityHours: string[];
   optimalTaskLoad: number; // recommended daily task count
 }
 
+export interface FocusReport {
+  totalMinutes: number;
+  byDay: Array<{ date: string; minutes: number }>; // local YYYY-MM-DD, oldest first, every day in the range
+  byCategory: Array<{ category: string; minutes: number }>; // most focused first
+}
+
+// Daily focus time that earns a full focus score: four 25-minute intervals
+const FOCUS_TARGET_MINUTES_PER_DAY = 100;
+// Days the focus score looks back over
+const FOCUS_SCORE_DAYS = 7;
+
 export interface PredictiveInsights {
   estimatedCompletionTime: number; // minutes
   completionProbability: number; // 0-100
@@ -209,9 +222,7 @@ export class AnalyticsService {
     const mostCommonCategory = Object.entries(categoryStats)
       .sort(([, a], [, b]) => b - a)[0]?.[0] || 'Personal';
 
-    // Calculate average completion time (simplified)
-    const completedTasksWithTime = tasks.filter(task => task.completed && task.completed_at);
-    const averageCompletionTime = completedTasksWithTime.length > 0 ? 45 : 0; // Default 45 minutes
+    const averageCompletionTime = this.averageTrackedMinutes(tasks);
 
     return {
       totalTasks,
@@ -421,17 +432,17 @@ export class AnalyticsService {
    * Generate time insights
    */
   private static generateTimeInsights(tasks: Task[]): TimeInsights {
-    // Average completion time (simplified)
     const completedTasks = tasks.filter(task => task.completed);
-    const averageCompletionTime = completedTasks.length > 0 ? 45 : 0; // Default 45 minutes
+    const averageCompletionTime = this.averageTrackedMinutes(tasks);
 
-    // Fastest and slowest categories
+    // Fastest and slowest categories, by time tracked
     const categoryTimes: Record<string, number[]> = {};
     completedTasks.forEach(task => {
+      if (!task.tracked_minutes) return;
       if (!categoryTimes[task.category]) {
         categoryTimes[task.category] = [];
       }
-      categoryTimes[task.category].push(45); // Default time
+      categoryTimes[task.category].push(task.tracked_minutes);
     });
 
     const fastestCategory = Object.entries(categoryTimes)
@@ -461,9 +472,9 @@ export class AnalyticsService {
   /**
    * Get advanced productivity analytics
    */
-  static getAdvancedProductivityMetrics(tasks: Task[]): AdvancedProductivityMetrics {
+  static getAdvancedProductivityMetrics(tasks: Task[], focusEntries: FocusEntry[] = []): AdvancedProductivityMetrics {
     const taskVelocity = this.calculateTaskVelocity(tasks);
-    const focusScore = this.calculateFocusScore(tasks);
+    const focusScore = this.calculateFocusScore(focusEntries);
     const efficiencyTrend = this.calculateEfficiencyTrend(tasks);
     const burnoutRisk = this.calculateBurnoutRisk(tasks);
     const peakProductivityHours = this.calculatePeakProductivityHours(tasks);
@@ -526,13 +537,29 @@ export class AnalyticsService {
     };
   }
 
+  /**
+   * Average time tracked on completed tasks, in minutes; 45 until any is tracked
+   */
+  private static averageTrackedMinutes(tasks: Task[]): number {
+    const completedTasks = tasks.filter(task => task.completed);
+    if (completedTasks.length === 0) return 0;
+    const tracked = completedTasks.filter(task => task.tracked_minutes).map(task => task.tracked_minutes!);
+    if (tracked.length === 0) return 45; // Default 45 minutes
+    return Math.round(tracked.reduce((a, b) => a + b, 0) / tracked.length);
+  }
+
   /**
    * Predict task completion time based on historical patterns
    */
   private static predictTaskCompletionTime(task: Task, allTasks: Task[]): number {
+    if (task.estimated_minutes) return task.estimated_minutes;
     const similarTasks = this.findSimilarTasks(task, allTasks);
     if (similarTasks.length === 0) return 45; // Default 45 minutes
 
+    // Time actually tracked beats the time between creating and completing
+    const tracked = estimateMinutes(similarTasks, task);
+    if (tracked !== undefined) return tracked;
+
     // Calculate average completion time for similar tasks
     const completionTimes: number[] = [];
     similarTasks.forEach(similarTask => {
@@ -691,39 +718,50 @@ export class AnalyticsService {
   }
 
   /**
-   * Calculate focus score based on completion patterns
+   * Minutes spent in focus sessions per day and per category over the last
+   * `days` days, today included
    */
-  private static calculateFocusScore(tasks: Task[]): number {
-    const completedTasks = tasks.filter(t => t.completed);
-    if (completedTasks.length === 0) return 0;
+  static getFocusReport(entries: FocusEntry[], days: number = FOCUS_SCORE_DAYS, now: Date = new Date()): FocusReport {
+    const dayKey = (date: Date) =>
+      `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+    const byDay = new Map<string, number>();
+    for (let offset = days - 1; offset >= 0; offset--) {
+      const day = new Date(now);
+      day.setDate(day.getDate() - offset);
+      byDay.set(dayKey(day), 0);
+    }
 
-    // Analyze completion patterns
-    const completionTimes: number[] = [];
-    completedTasks.forEach(task => {
-      if (task.completed_at) {
-        const created = new Date(task.created_at);
-        const completed = new Date(task.completed_at);
-        const hoursToComplete = (completed.getTime() - created.getTime()) / (1000 * 60 * 60);
-        completionTimes.push(hoursToComplete);
-      }
+    const byCategory = new Map<string, number>();
+    let totalMinutes = 0;
+    entries.forEach(entry => {
+      if (!entry.ended_at) return;
+      const started = new Date(entry.started_at);
+      const key = dayKey(started);
+      if (!byDay.has(key)) return;
+      const minutes = Math.max(0, (new Date(entry.ended_at).getTime() - started.getTime()) / (1000 * 60));
+      byDay.set(key, byDay.get(key)! + minutes);
+      byCategory.set(entry.category, (byCategory.get(entry.category) || 0) + minutes);
+      totalMinutes += minutes;
     });
 
-    if (completionTimes.length === 0) return 50; // Default score
-
-    // Calculate focus score based on:
-    // 1. Consistency in completion times (lower variance = higher focus)
-    // 2. Completion rate
-    // 3. Priority adherence (high priority tasks completed first)
-
-    const avgCompletionTime = completionTimes.reduce((a, b) => a + b, 0) / completionTimes.length;
-    const variance = completionTimes.reduce((acc, time) => acc + Math.pow(time - avgCompletionTime, 2), 0) / completionTimes.length;
-    const consistencyScore = Math.max(0, 100 - (variance * 2)); // Lower variance = higher score
-
-    const completionRate = (completedTasks.length / tasks.length) * 100;
-    const priorityAdherence = this.calculatePriorityAdherence(tasks);
+    return {
+      totalMinutes: Math.round(totalMinutes),
+      byDay: Array.from(byDay).map(([date, minutes]) => ({ date, minutes: Math.round(minutes) })),
+      byCategory: Array.from(byCategory)
+        .map(([category, minutes]) => ({ category, minutes: Math.round(minutes) }))
+        .sort((a, b) => b.minutes - a.minutes),
+    };
+  }
 
-    const focusScore = (consistencyScore * 0.4) + (completionRate * 0.4) + (priorityAdherence * 0.2);
-    return Math.round(Math.max(0, Math.min(100, focusScore)));
+  /**
+   * Calculate focus score: average daily focus-session time over the last
+   * week, against the daily target
+   */
+  private static calculateFocusScore(focusEntries: FocusEntry[]): number {
+    const report = this.getFocusReport(focusEntries, FOCUS_SCORE_DAYS);
+    const dailyMinutes = report.totalMinutes / FOCUS_SCORE_DAYS;
+    return Math.round(Math.min(100, (dailyMinutes / FOCUS_TARGET_MINUTES_PER_DAY) * 100));
   }
 
   /**
@@ -782,9 +820,9 @@ export class AnalyticsService {
   }
 
   /**
-   * Calculate peak productivity hours
+   * Peak productivity hours (0-23), busiest first
    */
-  private static calculatePeakProductivityHours(tasks: Task[]): string[] {
+  static getPeakHours(tasks: Task[]): number[] {
     const completedTasks = tasks.filter(t => t.completed);
     const hourStats: Record<number, number> = {};
 
@@ -793,17 +831,21 @@ export class AnalyticsService {
       hourStats[hour] = (hourStats[hour] || 0) + 1;
     });
 
-    const sortedHours = Object.entries(hourStats)
+    return Object.entries(hourStats)
       .sort(([, a], [, b]) => b - a)
       .slice(0, 3)
-      .map(([hour]) => {
-        const hourNum = parseInt(hour);
-        if (hourNum < 12) return `${hourNum} AM`;
-        if (hourNum === 12) return '12 PM';
-        return `${hourNum - 12} PM`;
-      });
+      .map(([hour]) => parseInt(hour));
+  }
 
-    return sortedHours;
+  /**
+   * Calculate peak productivity hours
+   */
+  private static calculatePeakProductivityHours(tasks: Task[]): string[] {
+    return this.getPeakHours(tasks).map(hourNum => {
+      if (hourNum < 12) return `${hourNum} AM`;
+      if (hourNum === 12) return '12 PM';
+      return `${hourNum - 12} PM`;
+    });
   }
 
   /**
@@ -828,25 +870,6 @@ export class AnalyticsService {
     return Math.max(3, Math.min(10, optimalLoad)); // Between 3-10 tasks
   }
 
-  /**
-   * Calculate priority adherence score
-   */
-  private static calculatePriorityAdherence(tasks: Task[]): number {
-    const completedTasks = tasks.filter(t => t.completed);
-    if (completedTasks.length === 0) return 0;
-
-    // Check if high priority tasks are completed before low priority ones
-    let adherenceScore = 0;
-    const highPriorityCompleted = completedTasks.filter(t => t.priority === 'high').length;
-    const totalHighPriority = tasks.filter(t => t.priority === 'high').length;
-
-    if (totalHighPriority > 0) {
-      adherenceScore = (highPriorityCompleted / totalHighPriority) * 100;
-    }
-
-    return Math.round(adherenceScore);
-  }
-
   /**
    * Convert priority to number
    */
@@ -907,11 +930,11 @@ export class AnalyticsService {
   /**
    * Get personalized productivity insights and recommendations
    */
-  static getPersonalizedInsights(tasks: Task[]): PersonalizedInsights {
-    const recommendations = this.generateProductivityRecommendations(tasks);
-    const topInsights = this.generateTopInsights(tasks);
-    const improvementAreas = this.identifyImprovementAreas(tasks);
-    const strengths = this.identifyStrengths(tasks);
+  static getPersonalizedInsights(tasks: Task[], focusEntries: FocusEntry[] = []): PersonalizedInsights {
+    const recommendations = this.generateProductivityRecommendations(tasks, focusEntries);
+    const topInsights = this.generateTopInsights(tasks, focusEntries);
+    const improvementAreas = this.identifyImprovementAreas(tasks, focusEntries);
+    const strengths = this.identifyStrengths(tasks, focusEntries);
 
     return {
       recommendations,
@@ -924,9 +947,9 @@ export class AnalyticsService {
   /**
    * Generate AI-driven productivity recommendations
    */
-  private static generateProductivityRecommendations(tasks: Task[]): ProductivityRecommendation[] {
+  private static generateProductivityRecommendations(tasks: Task[], focusEntries: FocusEntry[]): ProductivityRecommendation[] {
     const recommendations: ProductivityRecommendation[] = [];
-    const advancedMetrics = this.getAdvancedProductivityMetrics(tasks);
+    const advancedMetrics = this.getAdvancedProductivityMetrics(tasks, focusEntries);
     const predictiveInsights = this.getPredictiveInsights(tasks);
 
     // Workload optimization recommendations
@@ -948,11 +971,11 @@ export class AnalyticsService {
         id: 'focus-improve',
         type: 'focus',
         title: 'Improve Task Focus',
-        description: 'Your focus score is below average. Try completing similar tasks in batches and minimize interruptions during work sessions.',
+        description: 'You spent little time in focus sessions this week. Pick a task and run a few pomodoro cycles with notifications held.',
         priority: 'medium',
         impact: 70,
         actionable: true,
-        actionText: 'Enable focus mode',
+        actionText: 'Start a focus session',
       });
     }
 
@@ -1018,9 +1041,9 @@ export class AnalyticsService {
   /**
    * Generate top insights about user's productivity
    */
-  private static generateTopInsights(tasks: Task[]): string[] {
+  private static generateTopInsights(tasks: Task[], focusEntries: FocusEntry[]): string[] {
     const insights: string[] = [];
-    const advancedMetrics = this.getAdvancedProductivityMetrics(tasks);
+    const advancedMetrics = this.getAdvancedProductivityMetrics(tasks, focusEntries);
     const predictiveInsights = this.getPredictiveInsights(tasks);
 
     if (advancedMetrics.taskVelocity > 0) {
@@ -1051,9 +1074,9 @@ export class AnalyticsService {
   /**
    * Identify areas for improvement
    */
-  private static identifyImprovementAreas(tasks: Task[]): string[] {
+  private static identifyImprovementAreas(tasks: Task[], focusEntries: FocusEntry[]): string[] {
     const areas: string[] = [];
-    const advancedMetrics = this.getAdvancedProductivityMetrics(tasks);
+    const advancedMetrics = this.getAdvancedProductivityMetrics(tasks, focusEntries);
     const priorityInsights = this.generatePriorityInsights(tasks);
 
     if (advancedMetrics.focusScore < 60) {
@@ -1083,9 +1106,9 @@ export class AnalyticsService {
   /**
    * Identify user strengths
    */
-  private static identifyStrengths(tasks: Task[]): string[] {
+  private static identifyStrengths(tasks: Task[], focusEntries: FocusEntry[]): string[] {
     const strengths: string[] = [];
-    const advancedMetrics = this.getAdvancedProductivityMetrics(tasks);
+    const advancedMetrics = this.getAdvancedProductivityMetrics(tasks, focusEntries);
     const priorityInsights = this.generatePriorityInsights(tasks);
 
     if (advancedMetrics.focusScore > 80) {
@@ -1136,9 +1159,9 @@ export class AnalyticsService {
   /**
    * Get focus improvement tips
    */
-  static getFocusImprovementTips(tasks: Task[]): string[] {
+  static getFocusImprovementTips(tasks: Task[], focusEntries: FocusEntry[] = []): string[] {
     const tips: string[] = [];
-    const advancedMetrics = this.getAdvancedProductivityMetrics(tasks);
+    const advancedMetrics = this.getAdvancedProductivityMetrics(tasks, focusEntries);
 
     if (advancedMetrics.focusScore < 70) {
       tips.push('Complete similar tasks in batches to maintain focus');
@@ -1260,9 +1283,12 @@ export class AnalyticsService {
 
   /**
    * Get tasks ranked by intelligent priority score (highest first), context-aware.
+   * Blocked tasks rank below every actionable one.
    */
   static getRankedTasksByPriority(tasks: Task[], context: PriorityContext = {}): Task[] {
+    const blocked = new Set(tasks.filter(task => DependencyService.isBlocked(task, tasks)).map(task => task.id));
     return [...tasks].sort((a, b) =>
+      Number(blocked.has(a.id)) - Number(blocked.has(b.id)) ||
       this.getIntelligentPriorityScore(b, tasks, context) - this.getIntelligentPriorityScore(a, tasks, context)
     );
   }
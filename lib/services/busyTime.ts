@@ -0,0 +1,37 @@
+import { BusyBlock } from '../types';
+
+/**
+ * Reading free and busy time off calendar blocks. Kept apart from the calendar
+ * service so the suggestion ranking can use it without the device calendar.
+ */
+
+const MINUTE = 60 * 1000;
+
+export function overlaps(block: Pick<BusyBlock, 'start' | 'end'>, from: Date, until: Date): boolean {
+  return new Date(block.start) < until && new Date(block.end) > from;
+}
+
+// Blocks that keep the user from doing something else; all-day events rarely do
+const blocking = (blocks: BusyBlock[]) => blocks.filter(block => !block.allDay);
+
+/**
+ * Whether any timed block overlaps [from, until)
+ */
+export function isBusy(blocks: BusyBlock[], from: Date, until: Date = new Date(from.getTime() + MINUTE)): boolean {
+  return blocking(blocks).some(block => overlaps(block, from, until));
+}
+
+/**
+ * Free minutes from `at` until the next timed block starts: 0 while busy,
+ * Infinity when nothing else is planned
+ */
+export function minutesUntilBusy(events: Array<{ startTime: string; endTime: string }> | undefined, at: Date): number {
+  let free = Infinity;
+  for (const event of events || []) {
+    const start = new Date(event.startTime).getTime();
+    const end = new Date(event.endTime).getTime();
+    if (start <= at.getTime() && end > at.getTime()) return 0;
+    if (start > at.getTime()) free = Math.min(free, (start - at.getTime()) / MINUTE);
+  }
+  return free;
+}
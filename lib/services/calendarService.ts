@@ -0,0 +1,302 @@
+import * as Calendar from 'expo-calendar';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { BusyBlock, CalendarEventType, Task } from '../types';
+import { DatabaseService } from './databaseService';
+import { overlaps } from './busyTime';
+import {
+  contextualPatternService,
+  ContextualPatternService,
+  EnvironmentalContext,
+  LocationContext,
+} from './contextualPatternService';
+
+export type CalendarEvents = NonNullable<EnvironmentalContext['calendarEvents']>;
+
+// How far ahead the device calendar is read on each sync
+const SYNC_HORIZON_DAYS = 14;
+// Events this close to a moment count as its calendar context
+const CONTEXT_WINDOW_MINUTES = 60;
+// Past events are kept this long for the pattern services
+const HISTORY_DAYS = 90;
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Where busy blocks come from; tests and simulators use a static provider
+ */
+export interface CalendarEventProvider {
+  hasAccess(): Promise<boolean>;
+  requestAccess(): Promise<boolean>;
+  getEvents(from: Date, until: Date): Promise<BusyBlock[]>;
+}
+
+export const expoCalendarProvider: CalendarEventProvider = {
+  async hasAccess() {
+    return (await Calendar.getCalendarPermissionsAsync()).status === 'granted';
+  },
+
+  async requestAccess() {
+    return (await Calendar.requestCalendarPermissionsAsync()).status === 'granted';
+  },
+
+  async getEvents(from, until) {
+    const calendars = await Calendar.getCalendarsAsync(Calendar.EntityTypes.EVENT);
+    if (calendars.length === 0) return [];
+    const events = await Calendar.getEventsAsync(calendars.map(calendar => calendar.id), from, until);
+    return events
+      .filter(event => event.availability !== Calendar.Availability.FREE && event.status !== Calendar.EventStatus.CANCELED)
+      .map(event => ({
+        id: `device:${event.id}:${new Date(event.startDate).getTime()}`,
+        title: event.title || 'Busy',
+        start: new Date(event.startDate).toISOString(),
+        end: new Date(event.endDate).toISOString(),
+        type: classifyEvent(event.title || ''),
+        source: 'device' as const,
+        allDay: event.allDay || undefined,
+      }));
+  },
+};
+
+/**
+ * A provider serving a fixed list of events, for tests and devices without a calendar
+ */
+export function createStaticEventProvider(events: BusyBlock[], access = true): CalendarEventProvider {
+  return {
+    hasAccess: async () => access,
+    requestAccess: async () => access,
+    getEvents: async (from, until) => events.filter(event => overlaps(event, from, until)),
+  };
+}
+
+export function classifyEvent(title: string): CalendarEventType {
+  if (/\b(meeting|sync|stand-?up|1:1|one-on-one|call|interview|review|retro)\b/i.test(title)) return 'meeting';
+  if (/\b(doctor|dentist|appointment|appt|haircut|therapy|clinic)\b/i.test(title)) return 'appointment';
+  if (/\b(remind|reminder|deadline|due)\b/i.test(title)) return 'reminder';
+  return 'event';
+}
+
+export function toCalendarEvents(blocks: BusyBlock[]): CalendarEvents {
+  return blocks.map(block => ({ title: block.title, startTime: block.start, endTime: block.end, type: block.type }));
+}
+
+// --- ICS import ---
+
+function parseIcsDate(value: string, params: string): { date: Date; allDay: boolean } | null {
+  const allDay = /VALUE=DATE(?!-)/i.test(params) || /^\d{8}$/.test(value);
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, y, mo, d, h = '0', mi = '0', s = '0', utc] = match;
+  const parts = [Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s)] as const;
+  // Times with a TZID are read as local time; the device is usually in that zone
+  const date = utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+  return { date, allDay };
+}
+
+function parseIcsDuration(value: string): number | null {
+  const match = /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, weeks = '0', days = '0', hours = '0', minutes = '0', seconds = '0'] = match;
+  return ((Number(weeks) * 7 + Number(days)) * 24 * 60 + Number(hours) * 60 + Number(minutes)) * MINUTE + Number(seconds) * 1000;
+}
+
+/**
+ * Busy blocks from the VEVENTs of an iCalendar file. Free (TRANSP:TRANSPARENT)
+ * and cancelled events are left out; recurrence rules are not expanded, so a
+ * repeating event contributes its first occurrence only.
+ */
+export function parseIcs(text: string): BusyBlock[] {
+  // Long lines are folded onto continuation lines starting with a space or tab
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const blocks: BusyBlock[] = [];
+  let event: Record<string, { value: string; params: string }> | null = null;
+
+  for (const line of lines) {
+    if (/^BEGIN:VEVENT$/i.test(line.trim())) {
+      event = {};
+      continue;
+    }
+    if (/^END:VEVENT$/i.test(line.trim())) {
+      const block = event && toBlock(event);
+      if (block) blocks.push(block);
+      event = null;
+      continue;
+    }
+    if (!event) continue;
+    const colon = line.indexOf(':');
+    if (colon < 0) continue;
+    const [name, ...params] = line.slice(0, colon).split(';');
+    event[name.toUpperCase()] = { value: line.slice(colon + 1), params: params.join(';') };
+  }
+  return blocks;
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+}
+
+function toBlock(event: Record<string, { value: string; params: string }>): BusyBlock | null {
+  if (event.TRANSP?.value.trim().toUpperCase() === 'TRANSPARENT') return null;
+  if (event.STATUS?.value.trim().toUpperCase() === 'CANCELLED') return null;
+  const start = event.DTSTART && parseIcsDate(event.DTSTART.value, event.DTSTART.params);
+  if (!start) return null;
+
+  let end = event.DTEND && parseIcsDate(event.DTEND.value, event.DTEND.params)?.date;
+  if (!end) {
+    const duration = event.DURATION ? parseIcsDuration(event.DURATION.value) : null;
+    // Without an end, a dated event lasts the day and a timed one is a point in time
+    end = new Date(start.date.getTime() + (duration ?? (start.allDay ? 24 * 60 * MINUTE : 0)));
+  }
+  if (end < start.date) return null;
+
+  const title = event.SUMMARY ? unescapeText(event.SUMMARY.value) : 'Busy';
+  return {
+    id: `ics:${event.UID?.value.trim() || title}:${start.date.getTime()}`,
+    title,
+    start: start.date.toISOString(),
+    end: end.toISOString(),
+    type: classifyEvent(title),
+    source: 'ics',
+    allDay: start.allDay || undefined,
+  };
+}
+
+// --- Local cache ---
+
+export interface CalendarStore {
+  get(userId: string): Promise<BusyBlock[]>;
+  set(userId: string, blocks: BusyBlock[]): Promise<void>;
+}
+
+// Read by ReminderOptimizer.predictUserAvailability as well
+const cacheKey = (userId: string) => `calendar_events_${userId}`;
+
+export const asyncStorageCalendarStore: CalendarStore = {
+  async get(userId) {
+    const raw = await AsyncStorage.getItem(cacheKey(userId));
+    return raw ? JSON.parse(raw) : [];
+  },
+  async set(userId, blocks) {
+    await AsyncStorage.setItem(cacheKey(userId), JSON.stringify(blocks));
+  },
+};
+
+export interface CalendarServiceOptions {
+  provider?: CalendarEventProvider;
+  store?: CalendarStore;
+  patterns?: Pick<ContextualPatternService, 'analyzeContextualPatterns'>;
+  now?: () => Date;
+}
+
+/**
+ * Caches the user's busy blocks on the device, from the device calendar and
+ * from imported .ics files, so reminders and suggestions can steer clear of
+ * meetings and the pattern services can relate completions to calendar events.
+ */
+export class CalendarService {
+  private provider: CalendarEventProvider;
+  private store: CalendarStore;
+  private patterns: NonNullable<CalendarServiceOptions['patterns']>;
+  private now: () => Date;
+
+  constructor(options: CalendarServiceOptions = {}) {
+    this.provider = options.provider || expoCalendarProvider;
+    this.store = options.store || asyncStorageCalendarStore;
+    this.patterns = options.patterns || contextualPatternService;
+    this.now = options.now || (() => new Date());
+  }
+
+  /**
+   * Ask for calendar access and sync when granted
+   */
+  async connect(userId: string): Promise<boolean> {
+    if (!(await this.provider.requestAccess())) return false;
+    await this.sync(userId);
+    return true;
+  }
+
+  /**
+   * Replace the cached device events with the calendar's next few weeks. Past
+   * events are kept a while for the pattern services. Returns the number of
+   * device events cached, or null without calendar access.
+   */
+  async sync(userId: string): Promise<number | null> {
+    if (!(await this.provider.hasAccess())) return null;
+    const now = this.now();
+    const until = new Date(now.getTime() + SYNC_HORIZON_DAYS * 24 * 60 * MINUTE);
+    const events = await this.provider.getEvents(now, until);
+
+    const cached = await this.store.get(userId);
+    const kept = cached.filter(block => block.source !== 'device' || new Date(block.start) < now);
+    await this.store.set(userId, this.prune([...kept, ...events]));
+    await this.learnPatterns(userId);
+    return events.length;
+  }
+
+  /**
+   * Add the events of an .ics file, replacing earlier imports of the same events
+   */
+  async importIcs(userId: string, text: string): Promise<number> {
+    const imported = parseIcs(text);
+    const ids = new Set(imported.map(block => block.id));
+    const cached = await this.store.get(userId);
+    await this.store.set(userId, this.prune([...cached.filter(block => !ids.has(block.id)), ...imported]));
+    await this.learnPatterns(userId);
+    return imported.length;
+  }
+
+  async getBusyBlocks(userId: string, from: Date, until: Date): Promise<BusyBlock[]> {
+    const blocks = await this.store.get(userId);
+    return blocks
+      .filter(block => overlaps(block, from, until))
+      .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+  }
+
+  /**
+   * Calendar events around `at`, as the contextual pattern services expect them
+   */
+  async eventsAround(userId: string, at: Date): Promise<CalendarEvents> {
+    const window = CONTEXT_WINDOW_MINUTES * MINUTE;
+    const blocks = await this.getBusyBlocks(userId, new Date(at.getTime() - window), new Date(at.getTime() + window));
+    return toCalendarEvents(blocks);
+  }
+
+  /**
+   * Calendar context for each completed task, keyed by task id, for
+   * ContextualPatternService.analyzeContextualPatterns
+   */
+  async contextsFor(
+    userId: string,
+    tasks: Task[]
+  ): Promise<Map<string, { location?: LocationContext; environment?: EnvironmentalContext }>> {
+    const blocks = await this.store.get(userId);
+    const window = CONTEXT_WINDOW_MINUTES * MINUTE;
+    const contexts = new Map<string, { environment: EnvironmentalContext }>();
+    for (const task of tasks) {
+      if (!task.completed_at) continue;
+      const at = new Date(task.completed_at).getTime();
+      const nearby = blocks.filter(block => overlaps(block, new Date(at - window), new Date(at + window)));
+      if (nearby.length > 0) contexts.set(task.id, { environment: { calendarEvents: toCalendarEvents(nearby) } });
+    }
+    return contexts;
+  }
+
+  /**
+   * Relate completed tasks to the events around them, for calendar patterns
+   */
+  private async learnPatterns(userId: string): Promise<void> {
+    try {
+      const tasks = await DatabaseService.getTasks(userId, { completed: true });
+      const contexts = await this.contextsFor(userId, tasks);
+      if (contexts.size > 0) await this.patterns.analyzeContextualPatterns(userId, tasks, contexts);
+    } catch (error) {
+      console.error('Failed to analyze calendar patterns:', error);
+    }
+  }
+
+  private prune(blocks: BusyBlock[]): BusyBlock[] {
+    const cutoff = this.now().getTime() - HISTORY_DAYS * 24 * 60 * MINUTE;
+    return blocks.filter(block => new Date(block.end).getTime() >= cutoff);
+  }
+}
+
+export const calendarService = new CalendarService();
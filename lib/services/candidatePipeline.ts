@@ -0,0 +1,436 @@
+import { UserPattern, TemporalPattern } from '../patternDatabase';
+import {
+  Task,
+  CalendarEventType,
+  SuggestionExplanation,
+  ExplanationSource,
+  ExplanationFactor,
+  ExplanationAdjustment,
+} from '../types';
+import { minutesUntilBusy } from './busyTime';
+import { parseTimeEstimate } from './timeBlockPlanner';
+import { PatternConfidenceScoring, ConfidenceWeights } from './patternConfidenceScoring';
+
+/**
+ * The ranking half of the suggestion pipeline. Registered candidate generators
+ * each read the user's patterns and context and propose candidates; these are
+ * filtered, ranked and diversified the same way whichever screen asked, and
+ * explained by how each was scored. Every stage is traced. Patterns, feedback
+ * and learning are passed in, so nothing here touches storage; see
+ * SuggestionPipeline for the app's defaults and saving.
+ */
+
+export interface SuggestionContext {
+  userId: string;
+  currentTime: Date;
+  recentTasks: Task[]; // newest first, open and completed
+  trackedTasks?: Task[]; // every completed task with tracked time, for estimates; recentTasks when absent
+  location?: {
+    latitude: number;
+    longitude: number;
+    accuracy?: number;
+  };
+  calendarEvents?: { title: string; startTime: string; endTime: string; type: CalendarEventType }[]; // see calendarService.eventsAround
+  deviceContext?: {
+    batteryLevel?: number;
+    isCharging?: boolean;
+    networkType?: string;
+  };
+  preferences?: {
+    preferredCategories?: string[];
+    disabledCategories?: string[];
+    priorityPreference?: 'balanced' | 'important-first' | 'quick-wins';
+  };
+}
+
+export interface SuggestionCandidate {
+  title: string;
+  description?: string;
+  category: string;
+  priority: 'low' | 'medium' | 'high';
+  confidence: number; // 0-1
+  reasoning: string[];
+  basedOn: string[]; // names of the generators or pattern types behind it
+  sources?: ExplanationSource[]; // the patterns behind it
+  contextMatches?: string[];
+  adjustments?: ExplanationAdjustment[]; // feedback learning applied to confidence
+  timeEstimate?: string;
+  optimalTiming?: Date;
+  expiresAt?: Date;
+  patternStrength?: number;
+  contextRelevance?: number;
+}
+
+export interface PatternSnapshot {
+  patterns: UserPattern[];
+  temporalPatterns: TemporalPattern[];
+}
+
+export interface GeneratorInput extends PatternSnapshot {
+  context: SuggestionContext;
+}
+
+/**
+ * A source of candidates. `name` identifies it in traces and, unless the
+ * candidate says otherwise, in the suggestion's `based_on`.
+ */
+export interface CandidateGenerator {
+  name: string;
+  generate(input: GeneratorInput): SuggestionCandidate[] | Promise<SuggestionCandidate[]>;
+}
+
+export interface RankingWeights {
+  relevance: number;
+  timing: number;
+  userPreference: number;
+  context: number;
+  patternStrength: number;
+  diversity: number;
+}
+
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  relevance: 0.25,
+  timing: 0.2,
+  userPreference: 0.2,
+  context: 0.15,
+  patternStrength: 0.15,
+  diversity: 0.05,
+};
+
+export interface SuggestionRanking {
+  relevanceScore: number;
+  timingScore: number;
+  userPreferenceScore: number;
+  contextScore: number;
+  patternStrengthScore: number;
+  diversityScore: number;
+  adjustments: ExplanationAdjustment[]; // calendar and preference multipliers
+  adjustment: number; // their product
+  finalScore: number;
+}
+
+export type RankedCandidate = SuggestionCandidate & { ranking: SuggestionRanking; explanation?: SuggestionExplanation };
+
+export interface PipelineStage {
+  stage: string; // 'patterns', 'generate:<name>', 'filter', 'learn', 'rank', 'diversity', 'explain' or 'save'
+  count: number; // candidates (or patterns) coming out of the stage
+  ms: number;
+  error?: string;
+}
+
+export interface PipelineRun {
+  candidates: RankedCandidate[];
+  trace: PipelineStage[];
+}
+
+export interface CandidatePipelineOptions {
+  generators: CandidateGenerator[];
+  patterns: (userId: string) => Promise<PatternSnapshot>;
+  weights?: Partial<RankingWeights>;
+  minConfidence?: number;
+  maxSuggestions?: number;
+  confidenceWeights?: Partial<ConfidenceWeights>; // for scoring source patterns in explanations
+  feedbackScore?: (userId: string, category: string) => Promise<number>; // 0-1, 0.5 when unknown
+  learning?: (userId: string, candidates: SuggestionCandidate[], now: Date) => Promise<ExplanationAdjustment[][]>;
+}
+
+// Diversity: title overlap above this counts as a near-duplicate
+const TITLE_SIMILARITY_LIMIT = 0.8;
+const BUSY_PENALTY = 0.5; // During a meeting
+const NO_TIME_PENALTY = 0.6; // Too long to finish before the next meeting
+const QUICK_WIN_MINUTES = 15;
+
+export function titleSimilarity(a: string, b: string): number {
+  const words1 = a.toLowerCase().split(/\s+/);
+  const words2 = b.toLowerCase().split(/\s+/);
+  const common = words1.filter(word => words2.includes(word));
+  return common.length / new Set([...words1, ...words2]).size;
+}
+
+/**
+ * Confidence (0-1) after learning adjustments, kept within 0.1-0.95
+ */
+export function adjustConfidence(confidence: number, adjustments: ExplanationAdjustment[]): number {
+  const factor = adjustments.reduce((product, adjustment) => product * adjustment.factor, 1);
+  return Math.max(0.1, Math.min(0.95, confidence * factor));
+}
+
+/**
+ * Multipliers for the calendar and the user's stated preferences: candidates
+ * that won't fit before the next meeting sink, preferred ones rise
+ */
+function contextAdjustments(candidate: SuggestionCandidate, context: SuggestionContext, freeMinutes: number): ExplanationAdjustment[] {
+  const adjustments: ExplanationAdjustment[] = [];
+  const minutes = parseTimeEstimate(candidate.timeEstimate);
+  const preferences = context.preferences;
+
+  if (freeMinutes === 0) {
+    adjustments.push({ source: 'calendar', label: "You're in a meeting", factor: BUSY_PENALTY });
+  } else if (minutes && minutes > freeMinutes) {
+    adjustments.push({ source: 'calendar', label: "Won't fit before your next meeting", factor: NO_TIME_PENALTY });
+  }
+
+  if (preferences?.preferredCategories?.includes(candidate.category)) {
+    adjustments.push({ source: 'preference', label: `You prefer ${candidate.category} suggestions`, factor: 1.2 });
+  }
+  if (preferences?.priorityPreference === 'important-first' && candidate.priority === 'high') {
+    adjustments.push({ source: 'preference', label: 'High priority, and you put important tasks first', factor: 1.3 });
+  }
+  if (preferences?.priorityPreference === 'quick-wins' && minutes && minutes < QUICK_WIN_MINUTES) {
+    adjustments.push({ source: 'preference', label: 'A quick win, and you prefer those', factor: 1.2 });
+  }
+  return adjustments;
+}
+
+function rankingFactors(ranking: SuggestionRanking, weights: RankingWeights): ExplanationFactor[] {
+  return [
+    { name: 'relevance', value: ranking.relevanceScore, weight: weights.relevance },
+    { name: 'timing', value: ranking.timingScore, weight: weights.timing },
+    { name: 'userPreference', value: ranking.userPreferenceScore, weight: weights.userPreference },
+    { name: 'context', value: ranking.contextScore, weight: weights.context },
+    { name: 'patternStrength', value: ranking.patternStrengthScore, weight: weights.patternStrength },
+    { name: 'diversity', value: ranking.diversityScore, weight: weights.diversity },
+  ];
+}
+
+/**
+ * Completed tasks a pattern was learned from, matched by title
+ */
+function relatedTasks(pattern: UserPattern | TemporalPattern, context: SuggestionContext): Task[] {
+  const titles = 'task_title' in pattern
+    ? [pattern.task_title]
+    : [pattern.pattern_data?.taskTitle, ...(pattern.pattern_data?.sequence || [])].filter(Boolean);
+  const wanted = new Set(titles.map((title: string) => title.toLowerCase()));
+  return context.recentTasks.filter(task => task.completed && wanted.has(task.title.toLowerCase()));
+}
+
+export class CandidatePipeline {
+  private generators: CandidateGenerator[];
+  private weights: RankingWeights;
+  private minConfidence: number;
+  protected maxSuggestions: number;
+  private confidenceWeights?: Partial<ConfidenceWeights>;
+  private patterns: CandidatePipelineOptions['patterns'];
+  private feedbackScore: NonNullable<CandidatePipelineOptions['feedbackScore']>;
+  private learning: NonNullable<CandidatePipelineOptions['learning']>;
+
+  constructor(options: CandidatePipelineOptions) {
+    this.generators = [...options.generators];
+    this.weights = { ...DEFAULT_RANKING_WEIGHTS, ...options.weights };
+    this.minConfidence = options.minConfidence ?? 0.2;
+    this.maxSuggestions = options.maxSuggestions ?? 5;
+    this.confidenceWeights = options.confidenceWeights;
+    this.patterns = options.patterns;
+    this.feedbackScore = options.feedbackScore || (async () => 0.5);
+    this.learning = options.learning || (async (_userId, candidates) => candidates.map(() => []));
+  }
+
+  /**
+   * Add a generator, replacing any registered under the same name
+   */
+  register(generator: CandidateGenerator): void {
+    this.generators = [...this.generators.filter(g => g.name !== generator.name), generator];
+  }
+
+  /**
+   * Rank candidates for the context without saving anything. A generator that
+   * fails is skipped and its error recorded in the trace.
+   */
+  async run(context: SuggestionContext, limit: number = this.maxSuggestions): Promise<PipelineRun> {
+    const trace: PipelineStage[] = [];
+    const timed = async <T>(stage: string, work: () => Promise<T>, count: (result: T) => number, fallback: T): Promise<T> => {
+      const started = Date.now();
+      try {
+        const result = await work();
+        trace.push({ stage, count: count(result), ms: Date.now() - started });
+        return result;
+      } catch (error) {
+        trace.push({ stage, count: 0, ms: Date.now() - started, error: error instanceof Error ? error.message : String(error) });
+        return fallback;
+      }
+    };
+
+    const snapshot = await timed(
+      'patterns',
+      () => this.patterns(context.userId),
+      result => result.patterns.length + result.temporalPatterns.length,
+      { patterns: [], temporalPatterns: [] }
+    );
+
+    const candidates: SuggestionCandidate[] = [];
+    for (const generator of this.generators) {
+      const generated = await timed(
+        `generate:${generator.name}`,
+        async () => generator.generate({ ...snapshot, context }),
+        result => result.length,
+        [] as SuggestionCandidate[]
+      );
+      candidates.push(...generated.map(c => (c.basedOn.length > 0 ? c : { ...c, basedOn: [generator.name] })));
+    }
+
+    const disabled = context.preferences?.disabledCategories || [];
+    const filtered = await timed(
+      'filter',
+      async () => candidates.filter(c => c.confidence >= this.minConfidence && !disabled.includes(c.category)),
+      result => result.length,
+      [] as SuggestionCandidate[]
+    );
+    const learned = await timed('learn', () => this.learn(filtered, context), result => result.length, filtered);
+    const ranked = await timed('rank', () => this.rank(learned, context), result => result.length, [] as RankedCandidate[]);
+    const diverse = await timed('diversity', async () => this.diversify(ranked, limit), result => result.length, [] as RankedCandidate[]);
+    const explained = await timed('explain', () => this.explain(diverse, snapshot, context), result => result.length, diverse);
+
+    return { candidates: explained, trace };
+  }
+
+  /**
+   * Apply what feedback has taught about confidence, noting each adjustment
+   */
+  private async learn(candidates: SuggestionCandidate[], context: SuggestionContext): Promise<SuggestionCandidate[]> {
+    const adjustments = await this.learning(context.userId, candidates, context.currentTime);
+    return candidates.map((candidate, index) => {
+      const applied = adjustments[index] || [];
+      if (applied.length === 0) return candidate;
+      return { ...candidate, confidence: adjustConfidence(candidate.confidence, applied), adjustments: applied };
+    });
+  }
+
+  /**
+   * Score each candidate on the weighted factors, strongest first
+   */
+  private async rank(candidates: SuggestionCandidate[], context: SuggestionContext): Promise<RankedCandidate[]> {
+    const freeMinutes = minutesUntilBusy(context.calendarEvents, context.currentTime);
+    const preferenceByCategory: Record<string, number> = {};
+
+    const ranked: RankedCandidate[] = [];
+    for (const candidate of candidates) {
+      if (preferenceByCategory[candidate.category] === undefined) {
+        preferenceByCategory[candidate.category] = await this.feedbackScore(context.userId, candidate.category).catch(() => 0.5);
+      }
+
+      let timingScore = 0.5; // Neutral without an optimal time
+      if (candidate.optimalTiming) {
+        const hours = Math.abs(context.currentTime.getTime() - candidate.optimalTiming.getTime()) / (1000 * 60 * 60);
+        timingScore = Math.max(0, 1 - hours / 24); // Decay over 24 hours
+      }
+
+      const adjustments = contextAdjustments(candidate, context, freeMinutes);
+      ranked.push({
+        ...candidate,
+        ranking: this.score({
+          relevanceScore: candidate.confidence,
+          timingScore,
+          userPreferenceScore: preferenceByCategory[candidate.category],
+          contextScore: candidate.contextRelevance ?? 0.5,
+          patternStrengthScore: candidate.patternStrength ?? candidate.confidence,
+          diversityScore: 1,
+          adjustments,
+          adjustment: adjustments.reduce((product, adjustment) => product * adjustment.factor, 1),
+        }),
+      });
+    }
+
+    return ranked.sort((a, b) => b.ranking.finalScore - a.ranking.finalScore);
+  }
+
+  private score(ranking: Omit<SuggestionRanking, 'finalScore'>): SuggestionRanking {
+    const weighted =
+      ranking.relevanceScore * this.weights.relevance +
+      ranking.timingScore * this.weights.timing +
+      ranking.userPreferenceScore * this.weights.userPreference +
+      ranking.contextScore * this.weights.context +
+      ranking.patternStrengthScore * this.weights.patternStrength +
+      ranking.diversityScore * this.weights.diversity;
+    return { ...ranking, finalScore: weighted * ranking.adjustment };
+  }
+
+  /**
+   * Walk the ranking keeping a spread of categories and sources: a cap on
+   * each, no near-duplicate titles, and a diversity penalty for repeats
+   */
+  private diversify(ranked: RankedCandidate[], limit: number): RankedCandidate[] {
+    const kept: RankedCandidate[] = [];
+    const categoryCount: Record<string, number> = {};
+    const sourceCount: Record<string, number> = {};
+    const maxPerCategory = Math.max(2, Math.floor(limit / 3));
+    const maxPerSource = Math.max(1, Math.floor(limit / 4));
+
+    for (const candidate of ranked) {
+      if (kept.length >= limit) break;
+
+      const inCategory = categoryCount[candidate.category] || 0;
+      if (inCategory >= maxPerCategory) continue;
+      if (candidate.basedOn.some(source => (sourceCount[source] || 0) >= maxPerSource)) continue;
+      if (kept.some(other => titleSimilarity(candidate.title, other.title) > TITLE_SIMILARITY_LIMIT)) continue;
+
+      const penalty =
+        inCategory * 0.4 + Math.max(...candidate.basedOn.map(source => (sourceCount[source] || 0) * 0.3));
+      kept.push({ ...candidate, ranking: this.score({ ...candidate.ranking, diversityScore: Math.max(0, 1 - penalty) }) });
+
+      categoryCount[candidate.category] = inCategory + 1;
+      for (const source of candidate.basedOn) sourceCount[source] = (sourceCount[source] || 0) + 1;
+    }
+
+    return kept.sort((a, b) => b.ranking.finalScore - a.ranking.finalScore);
+  }
+
+  /**
+   * Attach the working behind each candidate: its source patterns scored for
+   * confidence, the ranking factors and their weights, what in the context
+   * matched, and every multiplier applied along the way
+   */
+  private async explain(
+    candidates: RankedCandidate[],
+    snapshot: PatternSnapshot,
+    context: SuggestionContext
+  ): Promise<RankedCandidate[]> {
+    const scoring = new PatternConfidenceScoring(context.userId, this.confidenceWeights, () => new Date(context.currentTime));
+    const weights = scoring.getWeights();
+    const scored: Record<string, ExplanationSource> = {};
+
+    const scoreSource = async (source: ExplanationSource): Promise<ExplanationSource> => {
+      const pattern = source.patternTable === 'temporal_patterns'
+        ? snapshot.temporalPatterns.find(p => p.id === source.patternId)
+        : snapshot.patterns.find(p => p.id === source.patternId);
+      if (!pattern) return source;
+
+      const score = 'task_title' in pattern
+        ? await scoring.calculateTemporalPatternConfidence(pattern, relatedTasks(pattern, context), {
+            time: context.currentTime,
+            dayOfWeek: context.currentTime.getDay(),
+          })
+        : await scoring.calculateUserPatternConfidence(pattern, relatedTasks(pattern, context));
+      return {
+        ...source,
+        factors: (Object.keys(score.factors) as (keyof ConfidenceWeights)[]).map(name => ({
+          name,
+          value: score.factors[name],
+          weight: weights[name],
+        })),
+        notes: score.explanation,
+        reliability: score.reliability,
+      };
+    };
+
+    const explained: RankedCandidate[] = [];
+    for (const candidate of candidates) {
+      const sources: ExplanationSource[] = [];
+      for (const source of candidate.sources || []) {
+        scored[source.patternId] = scored[source.patternId] || (await scoreSource(source));
+        sources.push(scored[source.patternId]);
+      }
+
+      explained.push({
+        ...candidate,
+        explanation: {
+          sources,
+          factors: rankingFactors(candidate.ranking, this.weights),
+          contextMatches: candidate.contextMatches || [],
+          adjustments: [...(candidate.adjustments || []), ...candidate.ranking.adjustments],
+          score: candidate.ranking.finalScore,
+        },
+      });
+    }
+    return explained;
+  }
+}
@@ -0,0 +1,696 @@
+import { getDatabase, DatabaseUtils } from '../database';
+import { DatabaseService } from './databaseService';
+import { syncService } from './syncService';
+import { Task, Suggestion, Feedback, UserPreferences, TaskAnalytics, Subtask, SavedView, Reminder, TimeEntry } from '../types';
+
+/**
+ * JSON export/import of a user's data.
+ * The import side accepts exactly what buildExport produces (and older exports
+ * written before the format marker was added), so export → import is lossless.
+ */
+
+export const EXPORT_FORMAT = 'juey-export';
+export const EXPORT_FORMAT_VERSION = 1;
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ExportOptions {
+  tasks: boolean; // with their subtasks, reminders and time entries
+  preferences: boolean; // with the saved views
+  suggestions: boolean;
+  feedback: boolean;
+  analytics: boolean;
+  anonymize: boolean;
+}
+
+export interface ExportPayload {
+  format?: string;
+  version?: number;
+  exported_at?: string;
+  tasks?: Task[];
+  subtasks?: Subtask[];
+  reminders?: Reminder[];
+  time_entries?: TimeEntry[];
+  preferences?: UserPreferences | null;
+  saved_views?: SavedView[];
+  suggestions?: Suggestion[];
+  feedback?: Feedback[];
+  analytics?: Partial<TaskAnalytics>;
+}
+
+export interface ImportValidationResult {
+  valid: boolean;
+  errors: string[];
+  payload: ExportPayload | null;
+}
+
+export interface ImportEntitySummary {
+  total: number;
+  imported: number;
+  duplicates: number;
+  invalid: number;
+}
+
+export interface ImportSummary {
+  mode: ImportMode;
+  tasks: ImportEntitySummary;
+  subtasks: ImportEntitySummary;
+  reminders: ImportEntitySummary;
+  timeEntries: ImportEntitySummary;
+  suggestions: ImportEntitySummary;
+  feedback: ImportEntitySummary;
+  savedViews: ImportEntitySummary;
+  preferences: 'imported' | 'absent';
+  errors: string[];
+}
+
+export interface ImportPlan {
+  tasks: Task[];
+  subtasks: Subtask[];
+  reminders: Reminder[];
+  timeEntries: TimeEntry[];
+  suggestions: Suggestion[];
+  feedback: Feedback[];
+  savedViews: SavedView[];
+  preferences: Partial<UserPreferences> | null;
+  idMap: Record<string, string>;
+  summary: ImportSummary;
+}
+
+export interface ExistingData {
+  tasks: Task[];
+  subtasks: Subtask[];
+  reminders: Reminder[];
+  timeEntries: TimeEntry[];
+  suggestions: Suggestion[];
+  feedback: Feedback[];
+  savedViews: SavedView[];
+}
+
+const PRIORITIES = ['low', 'medium', 'high'];
+const SUGGESTION_STATUSES = ['pending', 'accepted', 'rejected', 'dismissed'];
+const FEEDBACK_TYPES = ['positive', 'negative'];
+const REMINDER_STATUSES = ['pending', 'sent', 'dismissed', 'snoozed'];
+const COMBINATORS = ['and', 'or'];
+
+function emptySummary(total: number): ImportEntitySummary {
+  return { total, imported: 0, duplicates: 0, invalid: 0 };
+}
+
+function isValidDate(value: any): boolean {
+  return typeof value === 'string' && !isNaN(new Date(value).getTime());
+}
+
+function parseList(value: any): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === 'string') {
+    const parsed = DatabaseUtils.deserializeJSON(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  }
+  return [];
+}
+
+function fingerprint(title: string, createdAt: string): string {
+  return `${title.trim().toLowerCase()}|${new Date(createdAt).toISOString()}`;
+}
+
+// Subtasks, reminders and time entries are told apart within their task
+function taskRecordPrint(taskId: string, ...parts: string[]): string {
+  return [taskId, ...parts].join('|');
+}
+
+function validateTask(task: any): string | null {
+  if (!task || typeof task !== 'object') return 'not an object';
+  if (typeof task.id !== 'string' || !task.id) return 'missing id';
+  if (typeof task.title !== 'string' || !task.title.trim()) return 'missing title';
+  if (!isValidDate(task.created_at)) return 'invalid created_at';
+  if (task.priority !== undefined && !PRIORITIES.includes(task.priority)) return `invalid priority "${task.priority}"`;
+  if (task.completed_at && !isValidDate(task.completed_at)) return 'invalid completed_at';
+  if (task.due_date && !isValidDate(task.due_date)) return 'invalid due_date';
+  return null;
+}
+
+function validateSuggestion(suggestion: any): string | null {
+  if (!suggestion || typeof suggestion !== 'object') return 'not an object';
+  if (typeof suggestion.id !== 'string' || !suggestion.id) return 'missing id';
+  if (typeof suggestion.title !== 'string' || !suggestion.title.trim()) return 'missing title';
+  if (typeof suggestion.category !== 'string') return 'missing category';
+  if (!isValidDate(suggestion.created_at)) return 'invalid created_at';
+  if (suggestion.status !== undefined && !SUGGESTION_STATUSES.includes(suggestion.status)) return `invalid status "${suggestion.status}"`;
+  return null;
+}
+
+function validateFeedback(feedback: any): string | null {
+  if (!feedback || typeof feedback !== 'object') return 'not an object';
+  if (typeof feedback.id !== 'string' || !feedback.id) return 'missing id';
+  if (typeof feedback.suggestion_id !== 'string' || !feedback.suggestion_id) return 'missing suggestion_id';
+  if (!FEEDBACK_TYPES.includes(feedback.feedback_type)) return `invalid feedback_type "${feedback.feedback_type}"`;
+  if (!isValidDate(feedback.created_at)) return 'invalid created_at';
+  return null;
+}
+
+function validateSubtask(subtask: any): string | null {
+  if (!subtask || typeof subtask !== 'object') return 'not an object';
+  if (typeof subtask.id !== 'string' || !subtask.id) return 'missing id';
+  if (typeof subtask.task_id !== 'string' || !subtask.task_id) return 'missing task_id';
+  if (typeof subtask.title !== 'string' || !subtask.title.trim()) return 'missing title';
+  if (!isValidDate(subtask.created_at)) return 'invalid created_at';
+  if (subtask.completed_at && !isValidDate(subtask.completed_at)) return 'invalid completed_at';
+  return null;
+}
+
+function validateReminder(reminder: any): string | null {
+  if (!reminder || typeof reminder !== 'object') return 'not an object';
+  if (typeof reminder.id !== 'string' || !reminder.id) return 'missing id';
+  if (typeof reminder.task_id !== 'string' || !reminder.task_id) return 'missing task_id';
+  if (typeof reminder.title !== 'string') return 'missing title';
+  if (!isValidDate(reminder.scheduled_time)) return 'invalid scheduled_time';
+  if (!isValidDate(reminder.created_at)) return 'invalid created_at';
+  if (reminder.status !== undefined && !REMINDER_STATUSES.includes(reminder.status)) return `invalid status "${reminder.status}"`;
+  return null;
+}
+
+function validateTimeEntry(entry: any): string | null {
+  if (!entry || typeof entry !== 'object') return 'not an object';
+  if (typeof entry.id !== 'string' || !entry.id) return 'missing id';
+  if (typeof entry.task_id !== 'string' || !entry.task_id) return 'missing task_id';
+  if (!isValidDate(entry.started_at)) return 'invalid started_at';
+  // A timer still running on the exporting device has no end to import
+  if (!isValidDate(entry.ended_at)) return 'invalid ended_at';
+  if (!isValidDate(entry.created_at)) return 'invalid created_at';
+  return null;
+}
+
+function validateSavedView(view: any): string | null {
+  if (!view || typeof view !== 'object') return 'not an object';
+  if (typeof view.id !== 'string' || !view.id) return 'missing id';
+  if (typeof view.name !== 'string' || !view.name.trim()) return 'missing name';
+  if (!COMBINATORS.includes(view.combinator)) return `invalid combinator "${view.combinator}"`;
+  if (!Array.isArray(view.conditions)) return 'conditions must be an array';
+  if (!isValidDate(view.created_at)) return 'invalid created_at';
+  return null;
+}
+
+export class DataTransferService {
+  /**
+   * Build the export payload written by Settings → Export Data
+   */
+  static async buildExport(userId: string, options: ExportOptions): Promise<ExportPayload> {
+    const data: ExportPayload = {
+      format: EXPORT_FORMAT,
+      version: EXPORT_FORMAT_VERSION,
+      exported_at: DatabaseUtils.formatDate(new Date()),
+    };
+
+    if (options.tasks) {
+      data.tasks = await DatabaseService.getTasks(userId);
+      data.subtasks = [];
+      data.time_entries = [];
+      for (const task of data.tasks) {
+        data.subtasks.push(...await DatabaseService.getSubtasks(task.id));
+        data.time_entries.push(...await DatabaseService.getTimeEntries(task.id));
+      }
+      // The notification ids belong to this device's OS and mean nothing elsewhere
+      data.reminders = (await DatabaseService.getReminders(userId)).map(r => ({ ...r, notification_id: undefined }));
+    }
+    if (options.preferences) {
+      data.preferences = await DatabaseService.getUserPreferences(userId);
+      data.saved_views = await DatabaseService.getSavedViews(userId);
+    }
+    if (options.suggestions) {
+      data.suggestions = await DatabaseService.getSuggestions(userId);
+    }
+    if (options.feedback) {
+      // Gather all feedback for user's suggestions
+      const suggestions = data.suggestions || await DatabaseService.getSuggestions(userId);
+      data.feedback = [];
+      for (const s of suggestions) {
+        const fb = await DatabaseService.getFeedbackForSuggestion(s.id);
+        data.feedback.push(...fb);
+      }
+    }
+    if (options.analytics) {
+      data.analytics = await DatabaseService.getTaskAnalytics(userId);
+    }
+
+    if (options.anonymize) {
+      if (data.preferences) {
+        data.preferences = { ...data.preferences, user_id: 'ANONYMIZED' };
+      }
+      data.tasks = data.tasks?.map(t => ({ ...t, user_id: 'ANONYMIZED' }));
+      data.subtasks = data.subtasks?.map(s => ({ ...s, user_id: 'ANONYMIZED' }));
+      data.reminders = data.reminders?.map(r => ({ ...r, user_id: 'ANONYMIZED' }));
+      data.time_entries = data.time_entries?.map(e => ({ ...e, user_id: 'ANONYMIZED' }));
+      data.saved_views = data.saved_views?.map(v => ({ ...v, user_id: 'ANONYMIZED' }));
+      data.suggestions = data.suggestions?.map(s => ({ ...s, user_id: 'ANONYMIZED' }));
+      data.feedback = data.feedback?.map(f => ({ ...f, user_id: 'ANONYMIZED' }));
+    }
+
+    return data;
+  }
+
+  /**
+   * Parse and validate the contents of an export file
+   */
+  static parse(json: string): ImportValidationResult {
+    let raw: any;
+    try {
+      raw = JSON.parse(json);
+    } catch {
+      return { valid: false, errors: ['File is not valid JSON'], payload: null };
+    }
+    return this.validate(raw);
+  }
+
+  /**
+   * Check the top-level structure of an export. Individual malformed records
+   * are reported by planImport and skipped rather than failing the file.
+   */
+  static validate(raw: any): ImportValidationResult {
+    const errors: string[] = [];
+
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      return { valid: false, errors: ['Export must be a JSON object'], payload: null };
+    }
+    if (raw.format !== undefined && raw.format !== EXPORT_FORMAT) {
+      errors.push(`Unknown export format "${raw.format}"`);
+    }
+    if (raw.version !== undefined && (typeof raw.version !== 'number' || raw.version > EXPORT_FORMAT_VERSION)) {
+      errors.push(`Export version ${raw.version} is newer than this app supports`);
+    }
+    for (const key of ['tasks', 'subtasks', 'reminders', 'time_entries', 'suggestions', 'feedback', 'saved_views'] as const) {
+      if (raw[key] !== undefined && !Array.isArray(raw[key])) {
+        errors.push(`"${key}" must be an array`);
+      }
+    }
+    if (raw.preferences !== undefined && raw.preferences !== null && typeof raw.preferences !== 'object') {
+      errors.push('"preferences" must be an object');
+    }
+    if (!raw.tasks && !raw.suggestions && !raw.feedback && !raw.preferences) {
+      errors.push('Export contains no tasks, suggestions, feedback or preferences');
+    }
+
+    return { valid: errors.length === 0, errors, payload: errors.length === 0 ? raw : null };
+  }
+
+  /**
+   * Work out what to insert: assigns fresh ids, rewrites references through the
+   * id map and skips records that already exist locally.
+   */
+  static planImport(userId: string, payload: ExportPayload, existing: ExistingData, mode: ImportMode): ImportPlan {
+    const idMap: Record<string, string> = {};
+    const errors: string[] = [];
+    const summary: ImportSummary = {
+      mode,
+      tasks: emptySummary(payload.tasks?.length || 0),
+      subtasks: emptySummary(payload.subtasks?.length || 0),
+      reminders: emptySummary(payload.reminders?.length || 0),
+      timeEntries: emptySummary(payload.time_entries?.length || 0),
+      suggestions: emptySummary(payload.suggestions?.length || 0),
+      feedback: emptySummary(payload.feedback?.length || 0),
+      savedViews: emptySummary(payload.saved_views?.length || 0),
+      preferences: payload.preferences ? 'imported' : 'absent',
+      errors,
+    };
+
+    // In replace mode existing rows are moved to the trash first, so nothing counts as a
+    // duplicate; saved views stay where they are
+    const known: ExistingData = mode === 'merge'
+      ? existing
+      : { tasks: [], subtasks: [], reminders: [], timeEntries: [], suggestions: [], feedback: [], savedViews: existing.savedViews };
+
+    const taskIds = new Set(known.tasks.map(t => t.id));
+    const taskPrints = new Map(known.tasks.map(t => [fingerprint(t.title, t.created_at), t.id]));
+    const tasks: Task[] = [];
+    (payload.tasks || []).forEach((raw, index) => {
+      const problem = validateTask(raw);
+      if (problem) {
+        summary.tasks.invalid++;
+        errors.push(`tasks[${index}]: ${problem}`);
+        return;
+      }
+      const print = fingerprint(raw.title, raw.created_at);
+      const duplicateOf = taskIds.has(raw.id) ? raw.id : taskPrints.get(print);
+      if (duplicateOf) {
+        idMap[raw.id] = duplicateOf;
+        summary.tasks.duplicates++;
+        return;
+      }
+      const id = DatabaseUtils.generateId();
+      idMap[raw.id] = id;
+      taskIds.add(id);
+      taskPrints.set(print, id);
+      tasks.push({
+        ...raw,
+        id,
+        user_id: userId,
+        completed: !!raw.completed,
+        logged_after_completion: !!raw.logged_after_completion,
+        ai_suggested: !!raw.ai_suggested,
+        reminder_enabled: !!raw.reminder_enabled,
+        priority: raw.priority || 'medium',
+        category: raw.category || 'Personal',
+        tags: parseList(raw.tags),
+        updated_at: isValidDate(raw.updated_at) ? raw.updated_at : raw.created_at,
+        deleted_at: undefined,
+      });
+      summary.tasks.imported++;
+    });
+    // Series ids and blockers are task ids, so they follow the same remapping
+    for (const task of tasks) {
+      if (task.series_id) task.series_id = idMap[task.series_id] ?? task.series_id;
+      if (task.blocked_by) task.blocked_by = parseList(task.blocked_by).map(id => idMap[id] ?? id);
+    }
+
+    // Subtasks, reminders and time entries follow their task through the id map, and
+    // are duplicates when that task already has a matching one
+    const planTaskRecords = <T extends { id: string; task_id: string }>(
+      key: 'subtasks' | 'reminders' | 'timeEntries',
+      label: string,
+      records: any[] | undefined,
+      existingRecords: T[],
+      validate: (raw: any) => string | null,
+      print: (record: any, taskId: string) => string,
+      build: (raw: any, id: string, taskId: string) => T
+    ): T[] => {
+      const prints = new Set(existingRecords.map(record => print(record, record.task_id)));
+      const planned: T[] = [];
+      (records || []).forEach((raw, index) => {
+        const problem = validate(raw);
+        if (problem) {
+          summary[key].invalid++;
+          errors.push(`${label}[${index}]: ${problem}`);
+          return;
+        }
+        const taskId = idMap[raw.task_id];
+        if (!taskId) {
+          summary[key].invalid++;
+          errors.push(`${label}[${index}]: references a task that is not in the export`);
+          return;
+        }
+        const recordPrint = print(raw, taskId);
+        if (prints.has(recordPrint)) {
+          summary[key].duplicates++;
+          return;
+        }
+        prints.add(recordPrint);
+        const id = DatabaseUtils.generateId();
+        idMap[raw.id] = id;
+        planned.push(build(raw, id, taskId));
+        summary[key].imported++;
+      });
+      return planned;
+    };
+
+    const subtasks = planTaskRecords<Subtask>(
+      'subtasks',
+      'subtasks',
+      payload.subtasks,
+      known.subtasks,
+      validateSubtask,
+      (s, taskId) => taskRecordPrint(taskId, fingerprint(s.title, s.created_at)),
+      (raw, id, taskId) => ({
+        ...raw,
+        id,
+        user_id: userId,
+        task_id: taskId,
+        completed: !!raw.completed,
+        position: Number(raw.position) || 0,
+        updated_at: isValidDate(raw.updated_at) ? raw.updated_at : raw.created_at,
+        deleted_at: undefined,
+      })
+    );
+    const reminders = planTaskRecords<Reminder>(
+      'reminders',
+      'reminders',
+      payload.reminders,
+      known.reminders,
+      validateReminder,
+      (r, taskId) => taskRecordPrint(taskId, new Date(r.scheduled_time).toISOString()),
+      (raw, id, taskId) => ({
+        ...raw,
+        id,
+        user_id: userId,
+        task_id: taskId,
+        status: raw.status || 'pending',
+        // Scheduled on this device once imported
+        notification_id: undefined,
+        updated_at: isValidDate(raw.updated_at) ? raw.updated_at : raw.created_at,
+        deleted_at: undefined,
+      })
+    );
+    const timeEntries = planTaskRecords<TimeEntry>(
+      'timeEntries',
+      'time_entries',
+      payload.time_entries,
+      known.timeEntries,
+      validateTimeEntry,
+      (e, taskId) => taskRecordPrint(taskId, new Date(e.started_at).toISOString()),
+      (raw, id, taskId) => ({
+        ...raw,
+        id,
+        user_id: userId,
+        task_id: taskId,
+        source: raw.source || 'timer',
+        updated_at: isValidDate(raw.updated_at) ? raw.updated_at : raw.created_at,
+      })
+    );
+
+    const suggestionIds = new Set(known.suggestions.map(s => s.id));
+    const suggestionPrints = new Map(known.suggestions.map(s => [fingerprint(s.title, s.created_at), s.id]));
+    const suggestions: Suggestion[] = [];
+    (payload.suggestions || []).forEach((raw, index) => {
+      const problem = validateSuggestion(raw);
+      if (problem) {
+        summary.suggestions.invalid++;
+        errors.push(`suggestions[${index}]: ${problem}`);
+        return;
+      }
+      const print = fingerprint(raw.title, raw.created_at);
+      const duplicateOf = suggestionIds.has(raw.id) ? raw.id : suggestionPrints.get(print);
+      if (duplicateOf) {
+        idMap[raw.id] = duplicateOf;
+        summary.suggestions.duplicates++;
+        return;
+      }
+      const id = DatabaseUtils.generateId();
+      idMap[raw.id] = id;
+      suggestionIds.add(id);
+      suggestionPrints.set(print, id);
+      suggestions.push({
+        ...raw,
+        id,
+        user_id: userId,
+        confidence: Number(raw.confidence) || 0,
+        priority: raw.priority || 'medium',
+        status: raw.status || 'pending',
+        based_on: parseList(raw.based_on),
+        deleted_at: undefined,
+      });
+      summary.suggestions.imported++;
+    });
+
+    const feedbackPrints = new Set(
+      known.feedback.map(f => `${f.suggestion_id}|${f.feedback_type}|${new Date(f.created_at).toISOString()}`)
+    );
+    const feedback: Feedback[] = [];
+    (payload.feedback || []).forEach((raw, index) => {
+      const problem = validateFeedback(raw);
+      if (problem) {
+        summary.feedback.invalid++;
+        errors.push(`feedback[${index}]: ${problem}`);
+        return;
+      }
+      const suggestionId = idMap[raw.suggestion_id];
+      if (!suggestionId) {
+        summary.feedback.invalid++;
+        errors.push(`feedback[${index}]: references a suggestion that is not in the export`);
+        return;
+      }
+      const print = `${suggestionId}|${raw.feedback_type}|${new Date(raw.created_at).toISOString()}`;
+      if (feedbackPrints.has(print)) {
+        summary.feedback.duplicates++;
+        return;
+      }
+      feedbackPrints.add(print);
+      const id = DatabaseUtils.generateId();
+      idMap[raw.id] = id;
+      feedback.push({ ...raw, id, user_id: userId, suggestion_id: suggestionId, deleted_at: undefined });
+      summary.feedback.imported++;
+    });
+
+    const viewPrints = new Set(known.savedViews.map(v => fingerprint(v.name, v.created_at)));
+    const savedViews: SavedView[] = [];
+    (payload.saved_views || []).forEach((raw, index) => {
+      const problem = validateSavedView(raw);
+      if (problem) {
+        summary.savedViews.invalid++;
+        errors.push(`saved_views[${index}]: ${problem}`);
+        return;
+      }
+      const print = fingerprint(raw.name, raw.created_at);
+      if (viewPrints.has(print)) {
+        summary.savedViews.duplicates++;
+        return;
+      }
+      viewPrints.add(print);
+      const id = DatabaseUtils.generateId();
+      idMap[raw.id] = id;
+      savedViews.push({
+        ...raw,
+        id,
+        user_id: userId,
+        pinned: !!raw.pinned,
+        position: Number(raw.position) || 0,
+        updated_at: isValidDate(raw.updated_at) ? raw.updated_at : raw.created_at,
+        deleted_at: undefined,
+      });
+      summary.savedViews.imported++;
+    });
+
+    let preferences: Partial<UserPreferences> | null = null;
+    if (payload.preferences) {
+      const {
+        theme,
+        notifications_enabled,
+        ai_suggestions_enabled,
+        smart_reminders_enabled,
+        reminder_frequency,
+        digest_time,
+        digest_weekday,
+      } = payload.preferences;
+      preferences = {
+        theme,
+        notifications_enabled: notifications_enabled === undefined ? undefined : !!notifications_enabled,
+        ai_suggestions_enabled: ai_suggestions_enabled === undefined ? undefined : !!ai_suggestions_enabled,
+        smart_reminders_enabled: smart_reminders_enabled === undefined ? undefined : !!smart_reminders_enabled,
+        reminder_frequency,
+        digest_time,
+        digest_weekday,
+      };
+    }
+
+    return { tasks, subtasks, reminders, timeEntries, suggestions, feedback, savedViews, preferences, idMap, summary };
+  }
+
+  /**
+   * Import a validated export for the given user.
+   * 'replace' moves the user's current tasks, suggestions and feedback to the trash first.
+   */
+  static async importData(userId: string, payload: ExportPayload, mode: ImportMode): Promise<ImportSummary> {
+    const existing: ExistingData = {
+      tasks: [],
+      subtasks: [],
+      reminders: [],
+      timeEntries: [],
+      suggestions: [],
+      feedback: [],
+      savedViews: await DatabaseService.getSavedViews(userId),
+    };
+    if (mode === 'merge') {
+      existing.tasks = await DatabaseService.getTasks(userId);
+      for (const task of existing.tasks) {
+        existing.subtasks.push(...await DatabaseService.getSubtasks(task.id));
+        existing.timeEntries.push(...await DatabaseService.getTimeEntries(task.id));
+      }
+      existing.reminders = await DatabaseService.getReminders(userId);
+      existing.suggestions = await DatabaseService.getSuggestions(userId);
+      for (const s of existing.suggestions) {
+        existing.feedback.push(...await DatabaseService.getFeedbackForSuggestion(s.id));
+      }
+    }
+
+    const plan = this.planImport(userId, payload, existing, mode);
+    const db = await getDatabase();
+    const startedAt = DatabaseUtils.formatDate(new Date());
+
+    await db.withTransactionAsync(async () => {
+      if (mode === 'replace') {
+        await DatabaseService.softDeleteUserData(userId);
+      }
+      for (const task of plan.tasks) {
+        await DatabaseService.insertTaskRecord(task);
+      }
+      for (const subtask of plan.subtasks) {
+        await DatabaseService.insertSubtaskRecord(subtask);
+      }
+      for (const reminder of plan.reminders) {
+        await DatabaseService.insertReminderRecord(reminder);
+      }
+      for (const entry of plan.timeEntries) {
+        await DatabaseService.insertTimeEntryRecord(entry);
+      }
+      for (const suggestion of plan.suggestions) {
+        await DatabaseService.insertSuggestionRecord(suggestion);
+      }
+      for (const feedback of plan.feedback) {
+        await DatabaseService.insertFeedbackRecord(feedback);
+      }
+      for (const view of plan.savedViews) {
+        await DatabaseService.insertSavedViewRecord(view);
+      }
+    });
+
+    // Queue the imported records, and anything a replace moved to the trash, for upload
+    if (mode === 'replace') {
+      await syncService.trackChangesSince(userId, startedAt);
+    }
+    for (const task of plan.tasks) {
+      await syncService.enqueue('task', 'create', { id: task.id, user_id: userId });
+    }
+    // Time entries stay on the device
+    for (const subtask of plan.subtasks) {
+      await syncService.enqueue('subtask', 'create', { id: subtask.id, user_id: userId, task_id: subtask.task_id });
+    }
+    for (const reminder of plan.reminders) {
+      await syncService.enqueue('reminder', 'create', { id: reminder.id, user_id: userId, task_id: reminder.task_id });
+    }
+    for (const suggestion of plan.suggestions) {
+      await syncService.enqueue('suggestion', 'create', { id: suggestion.id, user_id: userId });
+    }
+    for (const feedback of plan.feedback) {
+      await syncService.enqueue('feedback', 'create', { id: feedback.id, user_id: userId, suggestion_id: feedback.suggestion_id });
+    }
+    for (const view of plan.savedViews) {
+      await syncService.enqueue('saved_view', 'create', { id: view.id, user_id: userId });
+    }
+
+    // Cancel the reminders of tasks a replace trashed and schedule the imported ones
+    await syncService.reconcileReminders(userId);
+
+    if (plan.preferences) {
+      const current = await DatabaseService.getUserPreferences(userId);
+      if (current) {
+        await DatabaseService.updateUserPreferences(userId, plan.preferences);
+      } else {
+        await DatabaseService.createUserPreferences(userId, plan.preferences);
+      }
+    }
+
+    return plan.summary;
+  }
+
+  /**
+   * Human-readable one-line-per-entity summary
+   */
+  static formatSummary(summary: ImportSummary): string {
+    const line = (label: string, s: ImportEntitySummary) =>
+      `${label}: ${s.imported} imported, ${s.duplicates} duplicate${s.duplicates === 1 ? '' : 's'} skipped` +
+      (s.invalid ? `, ${s.invalid} invalid` : '');
+
+    const lines = [
+      line('Tasks', summary.tasks),
+      line('Subtasks', summary.subtasks),
+      line('Reminders', summary.reminders),
+      line('Time entries', summary.timeEntries),
+      line('Suggestions', summary.suggestions),
+      line('Feedback', summary.feedback),
+      line('Saved views', summary.savedViews),
+      `Preferences: ${summary.preferences === 'imported' ? 'imported' : 'not in file'}`,
+    ];
+    if (summary.mode === 'replace') {
+      lines.push('Previous data was moved to the Trash.');
+    }
+    return lines.join('\n');
+  }
+}
@@ -8,12 +8,92 @@ import {
   TaskCreateInput,
   TaskUpdateInput,
   SuggestionCreateInput,
-  FeedbackCreateInput
+  FeedbackCreateInput,
+  TrashEntity,
+  TrashContents,
+  Subtask,
+  SearchOptions,
+  TaskSearchResult,
+  SavedView,
+  SavedViewInput,
+  Reminder,
+  ReminderCreateInput,
+  TimeEntry,
+  FocusEntry
 } from '../types';
+import { SearchService } from './searchService';
+import { RecurrenceService } from './recurrenceService';
 import { usePermissionsStore } from '@/lib/permissionsStore';
 import PermissionPrompt from '@/components/PermissionPrompt';
 import React, { useState } from 'react';
 
+// Days a soft-deleted item stays in the trash before it is purged
+export const TRASH_RETENTION_DAYS = 30;
+
+const TRASH_TABLES: Record<TrashEntity, string> = {
+  task: 'tasks',
+  suggestion: 'suggestions',
+  feedback: 'feedback',
+};
+
+/**
+ * Map a tasks row to a Task, deserializing its JSON columns
+ */
+function mapTaskRow(row: any): Task {
+  const { location_context, ...task } = row;
+  return {
+    ...task,
+    tags: DatabaseUtils.deserializeJSON(row.tags) || [],
+    attachments: row.attachments ? DatabaseUtils.deserializeJSON(row.attachments) || undefined : undefined,
+    locationContext: location_context ? DatabaseUtils.deserializeJSON(location_context) || undefined : undefined,
+    recurrence: row.recurrence ? DatabaseUtils.deserializeJSON(row.recurrence) || undefined : undefined,
+    location_reminder: row.location_reminder ? DatabaseUtils.deserializeJSON(row.location_reminder) || undefined : undefined,
+    series_id: row.series_id ?? undefined,
+    series_index: row.series_index ?? undefined,
+    estimated_minutes: row.estimated_minutes ?? undefined,
+    require_subtasks: !!row.require_subtasks,
+    blocked_by: row.blocked_by ? DatabaseUtils.deserializeJSON(row.blocked_by) || undefined : undefined,
+    subtask_count: row.subtask_count ?? undefined,
+    subtask_completed_count: row.subtask_completed_count ?? undefined,
+    tracked_minutes: row.tracked_minutes ?? undefined,
+  };
+}
+
+function mapSuggestionRow(row: any): Suggestion {
+  return {
+    ...row,
+    based_on: DatabaseUtils.deserializeJSON(row.based_on) || [],
+    explanation: row.explanation ? DatabaseUtils.deserializeJSON(row.explanation) || undefined : undefined,
+  };
+}
+
+function mapSubtaskRow(row: any): Subtask {
+  return {
+    ...row,
+    completed: !!row.completed,
+    completed_at: row.completed_at ?? undefined,
+    deleted_at: row.deleted_at ?? undefined,
+  };
+}
+
+function mapSavedViewRow(row: any): SavedView {
+  return {
+    ...row,
+    conditions: DatabaseUtils.deserializeJSON(row.conditions) || [],
+    pinned: !!row.pinned,
+    deleted_at: row.deleted_at ?? undefined,
+  };
+}
+
+// Tasks with their subtask rollup
+const TASK_WITH_PROGRESS_SELECT = `
+  SELECT tasks.*,
+    (SELECT COUNT(*) FROM subtasks WHERE subtasks.task_id = tasks.id AND subtasks.deleted_at IS NULL) AS subtask_count,
+    (SELECT COUNT(*) FROM subtasks WHERE subtasks.task_id = tasks.id AND subtasks.deleted_at IS NULL AND subtasks.completed = 1) AS subtask_completed_count,
+    (SELECT CAST(ROUND(SUM((julianday(ended_at) - julianday(started_at)) * 1440)) AS INTEGER)
+      FROM time_entries WHERE time_entries.task_id = tasks.id AND time_entries.ended_at IS NOT NULL) AS tracked_minutes
+  FROM tasks`;
+
 /**
  * Database service for handling all database operations
  */
@@ -22,7 +102,6 @@ export class DatabaseService {
    * Task Operations
    */
   static async createTask(userId: string, taskData: TaskCreateInput): Promise<Task> {
-    const db = await getDatabase();
     const id = DatabaseUtils.generateId();
     const now = DatabaseUtils.formatDate(new Date());
     
@@ -40,38 +119,64 @@ export class DatabaseService {
       ai_suggested: taskData.ai_suggested || false,
       reminder_enabled: taskData.reminder_enabled || false,
       reminder_time: taskData.reminder_time,
+      location_reminder: taskData.location_reminder,
       due_date: taskData.due_date,
+      estimated_minutes: taskData.estimated_minutes,
       created_at: now,
       updated_at: now,
+      locationContext: taskData.locationContext,
+      attachments: taskData.attachments,
+      recurrence: taskData.recurrence,
+      // A recurring task starts its own series
+      series_id: taskData.series_id ?? (taskData.recurrence ? id : undefined),
+      series_index: taskData.series_index ?? (taskData.recurrence ? 1 : undefined),
+      require_subtasks: taskData.require_subtasks || false,
+      blocked_by: taskData.blocked_by,
     };
+    if (task.recurrence) {
+      task.recurrence = RecurrenceService.anchorRule(task.recurrence, RecurrenceService.getOccurrenceDate(task));
+    }
+
+    await this.insertTaskRecord(task);
 
+    return task;
+  }
+
+  /**
+   * Insert a complete task record, keeping its timestamps
+   */
+  static async insertTaskRecord(task: Task): Promise<void> {
+    const db = await getDatabase();
     await db.runAsync(`
       INSERT INTO tasks (
-        id, user_id, title, description, completed, completed_at, 
+        id, user_id, title, description, completed, completed_at,
         logged_after_completion, priority, category, tags, ai_suggested,
-        reminder_enabled, reminder_time, due_date, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        reminder_enabled, reminder_time, due_date, attachments, location_context,
+        recurrence, series_id, series_index, require_subtasks, blocked_by, location_reminder, estimated_minutes,
+        created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `, [
-      task.id, task.user_id, task.title, task.description, task.completed,
-      task.completed_at, task.logged_after_completion, task.priority,
+      task.id, task.user_id, task.title, task.description ?? null, task.completed,
+      task.completed_at ?? null, task.logged_after_completion, task.priority,
       task.category, DatabaseUtils.serializeJSON(task.tags), task.ai_suggested,
-      task.reminder_enabled, task.reminder_time, task.due_date,
-      task.created_at, task.updated_at
+      task.reminder_enabled, task.reminder_time ?? null, task.due_date ?? null,
+      task.attachments ? DatabaseUtils.serializeJSON(task.attachments) : null,
+      task.locationContext ? DatabaseUtils.serializeJSON(task.locationContext) : null,
+      task.recurrence ? DatabaseUtils.serializeJSON(task.recurrence) : null,
+      task.series_id ?? null, task.series_index ?? null, task.require_subtasks ?? false,
+      task.blocked_by && task.blocked_by.length > 0 ? DatabaseUtils.serializeJSON(task.blocked_by) : null,
+      task.location_reminder ? DatabaseUtils.serializeJSON(task.location_reminder) : null,
+      task.estimated_minutes ?? null, task.created_at, task.updated_at
     ]);
-
-    return task;
   }
 
   static async getTask(taskId: string): Promise<Task | null> {
     const db = await getDatabase();
-    const result = await db.getFirstAsync<Task>('SELECT * FROM tasks WHERE id = ?', [taskId]);
+    const result = await db.getFirstAsync<any>(`${TASK_WITH_PROGRESS_SELECT} WHERE id = ? AND deleted_at IS NULL`, [taskId]);
     
     if (!result) return null;
     
-    return {
-      ...result,
-      tags: DatabaseUtils.deserializeJSON(result.tags) || [],
-    };
+    return mapTaskRow(result);
   }
 
   static async getTasks(userId: string, filters?: {
@@ -84,7 +189,7 @@ export class DatabaseService {
   }): Promise<Task[]> {
     const db = await getDatabase();
     
-    let query = 'SELECT * FROM tasks WHERE user_id = ?';
+    let query = `${TASK_WITH_PROGRESS_SELECT} WHERE user_id = ? AND deleted_at IS NULL`;
     const params: any[] = [userId];
     
     if (filters?.completed !== undefined) {
@@ -119,11 +224,39 @@ export class DatabaseService {
       params.push(filters.offset);
     }
     
-    const results = await db.getAllAsync<Task>(query, params);
+    const results = await db.getAllAsync<any>(query, params);
     
-    return results.map(task => ({
-      ...task,
-      tags: DatabaseUtils.deserializeJSON(task.tags) || [],
+    return results.map(mapTaskRow);
+  }
+
+  /**
+   * Completed tasks with time tracked on them, newest first; duration estimates
+   * learn from all of them rather than from a page of recent tasks
+   */
+  static async getTrackedTasks(userId: string): Promise<Task[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<any>(
+      `${TASK_WITH_PROGRESS_SELECT} WHERE user_id = ? AND deleted_at IS NULL AND completed = 1
+        AND EXISTS (SELECT 1 FROM time_entries WHERE time_entries.task_id = tasks.id AND time_entries.ended_at IS NOT NULL)
+        ORDER BY completed_at DESC`,
+      [userId]
+    );
+    return results.map(mapTaskRow);
+  }
+
+  /**
+   * Ranked full-text search over titles, descriptions, tags, categories and
+   * attachment OCR text, with filters, sorting and paging
+   */
+  static async searchTasks(userId: string, options: SearchOptions): Promise<TaskSearchResult[]> {
+    const db = await getDatabase();
+    const { sql, params } = SearchService.buildSearchQuery(userId, options);
+    const rows = await db.getAllAsync<any>(sql, params);
+
+    return rows.map(({ search_rank, search_snippet, ...row }) => ({
+      task: mapTaskRow(row),
+      rank: search_rank || 0,
+      snippet: search_snippet || undefined,
     }));
   }
 
@@ -189,18 +322,53 @@ export class DatabaseService {
       params.push(updates.reminder_time);
     }
     
+    if (updates.location_reminder !== undefined) {
+      setClauses.push('location_reminder = ?');
+      params.push(updates.location_reminder ? DatabaseUtils.serializeJSON(updates.location_reminder) : null);
+    }
+    
     if (updates.due_date !== undefined) {
       setClauses.push('due_date = ?');
       params.push(updates.due_date);
     }
     
+    if (updates.estimated_minutes !== undefined) {
+      setClauses.push('estimated_minutes = ?');
+      params.push(updates.estimated_minutes ?? null);
+    }
+    
+    if (updates.attachments !== undefined) {
+      setClauses.push('attachments = ?');
+      params.push(DatabaseUtils.serializeJSON(updates.attachments));
+    }
+    
+    if (updates.locationContext !== undefined) {
+      setClauses.push('location_context = ?');
+      params.push(DatabaseUtils.serializeJSON(updates.locationContext));
+    }
+    
+    if (updates.recurrence !== undefined) {
+      setClauses.push('recurrence = ?');
+      params.push(DatabaseUtils.serializeJSON(updates.recurrence));
+    }
+    
+    if (updates.require_subtasks !== undefined) {
+      setClauses.push('require_subtasks = ?');
+      params.push(updates.require_subtasks);
+    }
+    
+    if (updates.blocked_by !== undefined) {
+      setClauses.push('blocked_by = ?');
+      params.push(updates.blocked_by.length > 0 ? DatabaseUtils.serializeJSON(updates.blocked_by) : null);
+    }
+    
     setClauses.push('updated_at = ?');
     params.push(now);
     
     params.push(taskId);
     
     const result = await db.runAsync(
-      `UPDATE tasks SET ${setClauses.join(', ')} WHERE id = ?`,
+      `UPDATE tasks SET ${setClauses.join(', ')} WHERE id = ? AND deleted_at IS NULL`,
       params
     );
     
@@ -211,9 +379,28 @@ export class DatabaseService {
     return await this.getTask(taskId);
   }
 
+  /**
+   * Get the tasks of a recurring series in order, excluding trashed ones
+   */
+  static async getTaskSeries(seriesId: string): Promise<Task[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<any>(
+      'SELECT * FROM tasks WHERE series_id = ? AND deleted_at IS NULL ORDER BY series_index ASC',
+      [seriesId]
+    );
+    return results.map(mapTaskRow);
+  }
+
+  /**
+   * Move a task to the trash. Use purgeFromTrash to remove it permanently.
+   */
   static async deleteTask(taskId: string): Promise<boolean> {
     const db = await getDatabase();
-    const result = await db.runAsync('DELETE FROM tasks WHERE id = ?', [taskId]);
+    const now = DatabaseUtils.formatDate(new Date());
+    const result = await db.runAsync(
+      'UPDATE tasks SET deleted_at = ?, updated_at = ? WHERE id = ? AND deleted_at IS NULL',
+      [now, now, taskId]
+    );
     return result.changes > 0;
   }
 
@@ -230,11 +417,480 @@ export class DatabaseService {
     });
   }
 
+  /**
+   * Subtask Operations
+   */
+  static async getSubtasks(taskId: string): Promise<Subtask[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<any>(
+      'SELECT * FROM subtasks WHERE task_id = ? AND deleted_at IS NULL ORDER BY position ASC, created_at ASC',
+      [taskId]
+    );
+    return results.map(mapSubtaskRow);
+  }
+
+  static async getSubtask(subtaskId: string): Promise<Subtask | null> {
+    const db = await getDatabase();
+    const result = await db.getFirstAsync<any>('SELECT * FROM subtasks WHERE id = ? AND deleted_at IS NULL', [subtaskId]);
+    return result ? mapSubtaskRow(result) : null;
+  }
+
+  /**
+   * Append a subtask to the end of a task's checklist
+   */
+  static async createSubtask(userId: string, taskId: string, title: string): Promise<Subtask> {
+    const db = await getDatabase();
+    const now = DatabaseUtils.formatDate(new Date());
+    const last = await db.getFirstAsync<{ position: number | null }>(
+      'SELECT MAX(position) as position FROM subtasks WHERE task_id = ? AND deleted_at IS NULL',
+      [taskId]
+    );
+
+    const subtask: Subtask = {
+      id: DatabaseUtils.generateId(),
+      user_id: userId,
+      task_id: taskId,
+      title,
+      completed: false,
+      position: (last?.position ?? -1) + 1,
+      created_at: now,
+      updated_at: now,
+    };
+
+    await db.runAsync(
+      `INSERT INTO subtasks (id, user_id, task_id, title, completed, position, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [subtask.id, userId, taskId, title, false, subtask.position, now, now]
+    );
+
+    return subtask;
+  }
+
+  /**
+   * Insert a complete subtask record, keeping its timestamps
+   */
+  static async insertSubtaskRecord(subtask: Subtask): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync(
+      `INSERT INTO subtasks (id, user_id, task_id, title, completed, completed_at, position, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        subtask.id, subtask.user_id, subtask.task_id, subtask.title, subtask.completed,
+        subtask.completed_at ?? null, subtask.position, subtask.created_at, subtask.updated_at,
+      ]
+    );
+  }
+
+  static async updateSubtask(
+    subtaskId: string,
+    updates: Partial<Pick<Subtask, 'title' | 'completed' | 'completed_at' | 'position'>>
+  ): Promise<Subtask | null> {
+    const db = await getDatabase();
+    const setClauses: string[] = [];
+    const params: any[] = [];
+
+    for (const column of ['title', 'completed', 'completed_at', 'position'] as const) {
+      if (column in updates) {
+        setClauses.push(`${column} = ?`);
+        params.push(updates[column] ?? null);
+      }
+    }
+
+    setClauses.push('updated_at = ?');
+    params.push(DatabaseUtils.formatDate(new Date()), subtaskId);
+
+    const result = await db.runAsync(
+      `UPDATE subtasks SET ${setClauses.join(', ')} WHERE id = ? AND deleted_at IS NULL`,
+      params
+    );
+    if (result.changes === 0) return null;
+
+    return await this.getSubtask(subtaskId);
+  }
+
+  static async toggleSubtaskCompletion(subtaskId: string): Promise<Subtask | null> {
+    const subtask = await this.getSubtask(subtaskId);
+    if (!subtask) return null;
+
+    const completed = !subtask.completed;
+    return await this.updateSubtask(subtaskId, {
+      completed,
+      completed_at: completed ? DatabaseUtils.formatDate(new Date()) : undefined,
+    });
+  }
+
+  /**
+   * Soft delete a subtask so the deletion can sync
+   */
+  static async deleteSubtask(subtaskId: string): Promise<boolean> {
+    const db = await getDatabase();
+    const now = DatabaseUtils.formatDate(new Date());
+    const result = await db.runAsync(
+      'UPDATE subtasks SET deleted_at = ?, updated_at = ? WHERE id = ? AND deleted_at IS NULL',
+      [now, now, subtaskId]
+    );
+    return result.changes > 0;
+  }
+
+  /**
+   * Time Entry Operations
+   */
+  static async getTimeEntries(taskId: string): Promise<TimeEntry[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<any>(
+      'SELECT * FROM time_entries WHERE task_id = ? ORDER BY started_at ASC',
+      [taskId]
+    );
+    return results.map(row => ({ ...row, ended_at: row.ended_at ?? undefined, ended_by: row.ended_by ?? undefined }));
+  }
+
+  /**
+   * The user's open time entry, if a timer is running
+   */
+  static async getRunningTimeEntry(userId: string): Promise<TimeEntry | null> {
+    const db = await getDatabase();
+    const result = await db.getFirstAsync<any>(
+      'SELECT * FROM time_entries WHERE user_id = ? AND ended_at IS NULL ORDER BY started_at DESC',
+      [userId]
+    );
+    return result ? { ...result, ended_at: undefined, ended_by: undefined } : null;
+  }
+
+  static async createTimeEntry(
+    userId: string,
+    taskId: string,
+    startedAt: Date,
+    source: NonNullable<TimeEntry['source']> = 'timer'
+  ): Promise<TimeEntry> {
+    const db = await getDatabase();
+    const now = DatabaseUtils.formatDate(new Date());
+    const entry: TimeEntry = {
+      id: DatabaseUtils.generateId(),
+      user_id: userId,
+      task_id: taskId,
+      started_at: DatabaseUtils.formatDate(startedAt),
+      source,
+      created_at: now,
+      updated_at: now,
+    };
+    await db.runAsync(
+      'INSERT INTO time_entries (id, user_id, task_id, started_at, source, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      [entry.id, userId, taskId, entry.started_at, source, now, now]
+    );
+    return entry;
+  }
+
+  /**
+   * Insert a complete time entry, keeping its timestamps
+   */
+  static async insertTimeEntryRecord(entry: TimeEntry): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync(
+      `INSERT INTO time_entries (id, user_id, task_id, started_at, ended_at, ended_by, source, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        entry.id, entry.user_id, entry.task_id, entry.started_at, entry.ended_at ?? null,
+        entry.ended_by ?? null, entry.source ?? 'timer', entry.created_at, entry.updated_at,
+      ]
+    );
+  }
+
+  /**
+   * Finished focus-session intervals started since `since`, with their task's category
+   */
+  static async getFocusEntries(userId: string, since: Date): Promise<FocusEntry[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<any>(
+      `SELECT time_entries.*, tasks.category FROM time_entries
+       JOIN tasks ON tasks.id = time_entries.task_id
+       WHERE time_entries.user_id = ? AND time_entries.source = 'focus'
+         AND time_entries.ended_at IS NOT NULL AND time_entries.started_at >= ?
+       ORDER BY time_entries.started_at ASC`,
+      [userId, DatabaseUtils.formatDate(since)]
+    );
+    return results.map(row => ({ ...row, ended_by: row.ended_by ?? undefined }));
+  }
+
+  /**
+   * Close a task's open time entry. Returns false when no timer was running.
+   */
+  static async endTimeEntry(taskId: string, endedAt: Date, endedBy: 'pause' | 'stop'): Promise<boolean> {
+    const db = await getDatabase();
+    const now = DatabaseUtils.formatDate(new Date());
+    const result = await db.runAsync(
+      'UPDATE time_entries SET ended_at = ?, ended_by = ?, updated_at = ? WHERE task_id = ? AND ended_at IS NULL',
+      [DatabaseUtils.formatDate(endedAt), endedBy, now, taskId]
+    );
+    return result.changes > 0;
+  }
+
+  /**
+   * Turn a paused timer into a stopped one
+   */
+  static async stopPausedTimeEntry(taskId: string): Promise<void> {
+    const db = await getDatabase();
+    const now = DatabaseUtils.formatDate(new Date());
+    await db.runAsync(
+      `UPDATE time_entries SET ended_by = 'stop', updated_at = ?
+       WHERE id = (SELECT id FROM time_entries WHERE task_id = ? ORDER BY started_at DESC LIMIT 1) AND ended_by = 'pause'`,
+      [now, taskId]
+    );
+  }
+
+  /**
+   * Reminder Operations
+   */
+  static async getReminder(reminderId: string): Promise<Reminder | null> {
+    const db = await getDatabase();
+    return await db.getFirstAsync<Reminder>('SELECT * FROM reminders WHERE id = ? AND deleted_at IS NULL', [reminderId]);
+  }
+
+  /**
+   * Reminders still waiting to fire (pending or snoozed), soonest first
+   */
+  static async getActiveReminders(userId: string, taskId?: string): Promise<Reminder[]> {
+    const db = await getDatabase();
+    let query = "SELECT * FROM reminders WHERE user_id = ? AND status IN ('pending', 'snoozed') AND deleted_at IS NULL";
+    const params: any[] = [userId];
+    if (taskId) {
+      query += ' AND task_id = ?';
+      params.push(taskId);
+    }
+    return await db.getAllAsync<Reminder>(`${query} ORDER BY scheduled_time ASC`, params);
+  }
+
+  /**
+   * Every reminder of a user, including those that already went off
+   */
+  static async getReminders(userId: string): Promise<Reminder[]> {
+    const db = await getDatabase();
+    return await db.getAllAsync<Reminder>(
+      'SELECT * FROM reminders WHERE user_id = ? AND deleted_at IS NULL ORDER BY scheduled_time ASC',
+      [userId]
+    );
+  }
+
+  static async createReminder(
+    userId: string,
+    input: ReminderCreateInput & Pick<Reminder, 'notification_id'>
+  ): Promise<Reminder> {
+    const db = await getDatabase();
+    const now = DatabaseUtils.formatDate(new Date());
+
+    const reminder: Reminder = {
+      id: DatabaseUtils.generateId(),
+      user_id: userId,
+      task_id: input.task_id,
+      title: input.title,
+      scheduled_time: input.scheduled_time,
+      notification_id: input.notification_id,
+      status: 'pending',
+      created_at: now,
+      updated_at: now,
+    };
+
+    await db.runAsync(
+      `INSERT INTO reminders (id, user_id, task_id, title, scheduled_time, notification_id, status, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        reminder.id,
+        userId,
+        reminder.task_id,
+        reminder.title,
+        reminder.scheduled_time,
+        reminder.notification_id ?? null,
+        reminder.status,
+        now,
+        now,
+      ]
+    );
+
+    return reminder;
+  }
+
+  /**
+   * Insert a complete reminder record, keeping its status and timestamps
+   */
+  static async insertReminderRecord(reminder: Reminder): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync(
+      `INSERT INTO reminders (id, user_id, task_id, title, scheduled_time, notification_id, status, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        reminder.id, reminder.user_id, reminder.task_id, reminder.title, reminder.scheduled_time,
+        reminder.notification_id ?? null, reminder.status, reminder.created_at, reminder.updated_at ?? reminder.created_at,
+      ]
+    );
+  }
+
+  static async updateReminder(
+    reminderId: string,
+    updates: Partial<Pick<Reminder, 'title' | 'scheduled_time' | 'notification_id' | 'status'>>
+  ): Promise<Reminder | null> {
+    const db = await getDatabase();
+    const setClauses: string[] = [];
+    const params: any[] = [];
+
+    for (const column of ['title', 'scheduled_time', 'notification_id', 'status'] as const) {
+      if (column in updates) {
+        setClauses.push(`${column} = ?`);
+        params.push(updates[column] ?? null);
+      }
+    }
+
+    setClauses.push('updated_at = ?');
+    params.push(DatabaseUtils.formatDate(new Date()), reminderId);
+
+    const result = await db.runAsync(
+      `UPDATE reminders SET ${setClauses.join(', ')} WHERE id = ? AND deleted_at IS NULL`,
+      params
+    );
+    if (result.changes === 0) return null;
+
+    return await this.getReminder(reminderId);
+  }
+
+  /**
+   * Record the OS notification backing a reminder. The id is local to this
+   * device, so updated_at is left alone and nothing is queued for sync.
+   */
+  static async setReminderNotificationId(reminderId: string, notificationId: string | null): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync('UPDATE reminders SET notification_id = ? WHERE id = ?', [notificationId, reminderId]);
+  }
+
+  /**
+   * Soft delete a reminder so the deletion can sync
+   */
+  static async deleteReminder(reminderId: string): Promise<boolean> {
+    const db = await getDatabase();
+    const now = DatabaseUtils.formatDate(new Date());
+    const result = await db.runAsync(
+      'UPDATE reminders SET deleted_at = ?, updated_at = ? WHERE id = ? AND deleted_at IS NULL',
+      [now, now, reminderId]
+    );
+    return result.changes > 0;
+  }
+
+  /**
+   * Saved View Operations
+   */
+  static async getSavedViews(userId: string): Promise<SavedView[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<any>(
+      'SELECT * FROM saved_views WHERE user_id = ? AND deleted_at IS NULL ORDER BY position ASC, created_at ASC',
+      [userId]
+    );
+    return results.map(mapSavedViewRow);
+  }
+
+  static async getSavedView(viewId: string): Promise<SavedView | null> {
+    const db = await getDatabase();
+    const result = await db.getFirstAsync<any>('SELECT * FROM saved_views WHERE id = ? AND deleted_at IS NULL', [viewId]);
+    return result ? mapSavedViewRow(result) : null;
+  }
+
+  /**
+   * Add a view after the user's existing ones
+   */
+  static async createSavedView(userId: string, input: SavedViewInput): Promise<SavedView> {
+    const db = await getDatabase();
+    const now = DatabaseUtils.formatDate(new Date());
+    const last = await db.getFirstAsync<{ position: number | null }>(
+      'SELECT MAX(position) as position FROM saved_views WHERE user_id = ? AND deleted_at IS NULL',
+      [userId]
+    );
+
+    const view: SavedView = {
+      id: DatabaseUtils.generateId(),
+      user_id: userId,
+      name: input.name,
+      combinator: input.combinator,
+      conditions: input.conditions,
+      pinned: input.pinned ?? true,
+      position: (last?.position ?? -1) + 1,
+      created_at: now,
+      updated_at: now,
+    };
+
+    await db.runAsync(
+      `INSERT INTO saved_views (id, user_id, name, combinator, conditions, pinned, position, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        view.id,
+        userId,
+        view.name,
+        view.combinator,
+        DatabaseUtils.serializeJSON(view.conditions),
+        view.pinned,
+        view.position,
+        now,
+        now,
+      ]
+    );
+
+    return view;
+  }
+
+  /**
+   * Insert a complete saved view record, keeping its position and timestamps
+   */
+  static async insertSavedViewRecord(view: SavedView): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync(
+      `INSERT INTO saved_views (id, user_id, name, combinator, conditions, pinned, position, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        view.id, view.user_id, view.name, view.combinator, DatabaseUtils.serializeJSON(view.conditions),
+        view.pinned, view.position, view.created_at, view.updated_at,
+      ]
+    );
+  }
+
+  static async updateSavedView(
+    viewId: string,
+    updates: Partial<Pick<SavedView, 'name' | 'combinator' | 'conditions' | 'pinned' | 'position'>>
+  ): Promise<SavedView | null> {
+    const db = await getDatabase();
+    const setClauses: string[] = [];
+    const params: any[] = [];
+
+    for (const column of ['name', 'combinator', 'conditions', 'pinned', 'position'] as const) {
+      if (column in updates) {
+        setClauses.push(`${column} = ?`);
+        params.push(column === 'conditions' ? DatabaseUtils.serializeJSON(updates.conditions) : updates[column]);
+      }
+    }
+
+    setClauses.push('updated_at = ?');
+    params.push(DatabaseUtils.formatDate(new Date()), viewId);
+
+    const result = await db.runAsync(
+      `UPDATE saved_views SET ${setClauses.join(', ')} WHERE id = ? AND deleted_at IS NULL`,
+      params
+    );
+    if (result.changes === 0) return null;
+
+    return await this.getSavedView(viewId);
+  }
+
+  /**
+   * Soft delete a view so the deletion can sync
+   */
+  static async deleteSavedView(viewId: string): Promise<boolean> {
+    const db = await getDatabase();
+    const now = DatabaseUtils.formatDate(new Date());
+    const result = await db.runAsync(
+      'UPDATE saved_views SET deleted_at = ?, updated_at = ? WHERE id = ? AND deleted_at IS NULL',
+      [now, now, viewId]
+    );
+    return result.changes > 0;
+  }
+
   /**
    * Suggestion Operations
    */
   static async createSuggestion(userId: string, suggestionData: SuggestionCreateInput): Promise<Suggestion> {
-    const db = await getDatabase();
     const id = DatabaseUtils.generateId();
     const now = DatabaseUtils.formatDate(new Date());
     
@@ -249,30 +905,42 @@ export class DatabaseService {
       time_estimate: suggestionData.time_estimate,
       priority: suggestionData.priority || 'medium',
       based_on: suggestionData.based_on,
+      explanation: suggestionData.explanation,
       status: 'pending',
       created_at: now,
       expires_at: suggestionData.expires_at,
+      updated_at: now,
     };
 
+    await this.insertSuggestionRecord(suggestion);
+
+    return suggestion;
+  }
+
+  /**
+   * Insert a complete suggestion record, keeping its status and timestamps
+   */
+  static async insertSuggestionRecord(suggestion: Suggestion): Promise<void> {
+    const db = await getDatabase();
     await db.runAsync(`
       INSERT INTO suggestions (
         id, user_id, title, description, category, confidence, reasoning,
-        time_estimate, priority, based_on, status, created_at, expires_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        time_estimate, priority, based_on, explanation, status, created_at, expires_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `, [
-      suggestion.id, suggestion.user_id, suggestion.title, suggestion.description,
-      suggestion.category, suggestion.confidence, suggestion.reasoning,
-      suggestion.time_estimate, suggestion.priority, DatabaseUtils.serializeJSON(suggestion.based_on),
-      suggestion.status, suggestion.created_at, suggestion.expires_at
+      suggestion.id, suggestion.user_id, suggestion.title, suggestion.description ?? null,
+      suggestion.category, suggestion.confidence, suggestion.reasoning ?? null,
+      suggestion.time_estimate ?? null, suggestion.priority, DatabaseUtils.serializeJSON(suggestion.based_on),
+      suggestion.explanation ? DatabaseUtils.serializeJSON(suggestion.explanation) : null,
+      suggestion.status, suggestion.created_at, suggestion.expires_at ?? null,
+      suggestion.updated_at ?? suggestion.created_at
     ]);
-
-    return suggestion;
   }
 
   static async getSuggestions(userId: string, status?: string): Promise<Suggestion[]> {
     const db = await getDatabase();
     
-    let query = 'SELECT * FROM suggestions WHERE user_id = ?';
+    let query = 'SELECT * FROM suggestions WHERE user_id = ? AND deleted_at IS NULL';
     const params: any[] = [userId];
     
     if (status) {
@@ -282,43 +950,34 @@ export class DatabaseService {
     
     query += ' ORDER BY created_at DESC';
     
-    const results = await db.getAllAsync<Suggestion>(query, params);
+    const results = await db.getAllAsync<any>(query, params);
     
-    return results.map(suggestion => ({
-      ...suggestion,
-      based_on: DatabaseUtils.deserializeJSON(suggestion.based_on) || [],
-    }));
+    return results.map(mapSuggestionRow);
   }
 
   static async updateSuggestionStatus(suggestionId: string, status: string): Promise<Suggestion | null> {
     const db = await getDatabase();
     const result = await db.runAsync(
-      'UPDATE suggestions SET status = ? WHERE id = ?',
-      [status, suggestionId]
+      'UPDATE suggestions SET status = ?, updated_at = ? WHERE id = ? AND deleted_at IS NULL',
+      [status, DatabaseUtils.formatDate(new Date()), suggestionId]
     );
     
     if (result.changes === 0) {
       return null;
     }
     
-    const suggestion = await db.getFirstAsync<Suggestion>(
+    const suggestion = await db.getFirstAsync<any>(
       'SELECT * FROM suggestions WHERE id = ?',
       [suggestionId]
     );
     
-    if (!suggestion) return null;
-    
-    return {
-      ...suggestion,
-      based_on: DatabaseUtils.deserializeJSON(suggestion.based_on) || [],
-    };
+    return suggestion ? mapSuggestionRow(suggestion) : null;
   }
 
   /**
    * Feedback Operations
    */
   static async createFeedback(userId: string, feedbackData: FeedbackCreateInput): Promise<Feedback> {
-    const db = await getDatabase();
     const id = DatabaseUtils.generateId();
     const now = DatabaseUtils.formatDate(new Date());
     
@@ -329,23 +988,33 @@ export class DatabaseService {
       feedback_type: feedbackData.feedback_type,
       reason: feedbackData.reason,
       created_at: now,
+      updated_at: now,
     };
 
+    await this.insertFeedbackRecord(feedback);
+
+    return feedback;
+  }
+
+  /**
+   * Insert a complete feedback record, keeping its timestamp
+   */
+  static async insertFeedbackRecord(feedback: Feedback): Promise<void> {
+    const db = await getDatabase();
     await db.runAsync(`
-      INSERT INTO feedback (id, user_id, suggestion_id, feedback_type, reason, created_at)
-      VALUES (?, ?, ?, ?, ?, ?)
+      INSERT INTO feedback (id, user_id, suggestion_id, feedback_type, reason, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
     `, [
       feedback.id, feedback.user_id, feedback.suggestion_id,
-      feedback.feedback_type, feedback.reason, feedback.created_at
+      feedback.feedback_type, feedback.reason ?? null, feedback.created_at,
+      feedback.updated_at ?? feedback.created_at
     ]);
-
-    return feedback;
   }
 
   static async getFeedbackForSuggestion(suggestionId: string): Promise<Feedback[]> {
     const db = await getDatabase();
     return await db.getAllAsync<Feedback>(
-      'SELECT * FROM feedback WHERE suggestion_id = ? ORDER BY created_at DESC',
+      'SELECT * FROM feedback WHERE suggestion_id = ? AND deleted_at IS NULL ORDER BY created_at DESC',
       [suggestionId]
     );
   }
@@ -372,6 +1041,8 @@ export class DatabaseService {
       ai_suggestions_enabled: preferences.ai_suggestions_enabled ?? true,
       smart_reminders_enabled: preferences.smart_reminders_enabled ?? false,
       reminder_frequency: preferences.reminder_frequency || 'daily',
+      digest_time: preferences.digest_time || '08:00',
+      digest_weekday: preferences.digest_weekday ?? 1,
       created_at: now,
       updated_at: now,
     };
@@ -379,12 +1050,13 @@ export class DatabaseService {
     await db.runAsync(`
       INSERT INTO user_preferences (
         user_id, theme, notifications_enabled, ai_suggestions_enabled,
-        smart_reminders_enabled, reminder_frequency, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        smart_reminders_enabled, reminder_frequency, digest_time, digest_weekday, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `, [
       userPrefs.user_id, userPrefs.theme, userPrefs.notifications_enabled,
       userPrefs.ai_suggestions_enabled, userPrefs.smart_reminders_enabled,
-      userPrefs.reminder_frequency, userPrefs.created_at, userPrefs.updated_at
+      userPrefs.reminder_frequency, userPrefs.digest_time, userPrefs.digest_weekday,
+      userPrefs.created_at, userPrefs.updated_at
     ]);
 
     return userPrefs;
@@ -421,6 +1093,16 @@ export class DatabaseService {
       setClauses.push('reminder_frequency = ?');
       params.push(updates.reminder_frequency);
     }
+
+    if (updates.digest_time !== undefined) {
+      setClauses.push('digest_time = ?');
+      params.push(updates.digest_time);
+    }
+
+    if (updates.digest_weekday !== undefined) {
+      setClauses.push('digest_weekday = ?');
+      params.push(updates.digest_weekday);
+    }
     
     setClauses.push('updated_at = ?');
     params.push(now);
@@ -504,11 +1186,11 @@ export class DatabaseService {
   }> {
     const db = await getDatabase();
     
-    let dateFilter = '';
+    let dateFilter = ' AND deleted_at IS NULL';
     const params: any[] = [userId];
     
     if (startDate && endDate) {
-      dateFilter = ' AND created_at BETWEEN ? AND ?';
+      dateFilter += ' AND created_at BETWEEN ? AND ?';
       params.push(startDate, endDate);
     }
     
@@ -565,32 +1247,133 @@ export class DatabaseService {
   static async clearUserData(userId: string): Promise<void> {
     const db = await getDatabase();
     
+    await db.runAsync('DELETE FROM subtasks WHERE user_id = ?', [userId]);
+    await db.runAsync('DELETE FROM time_entries WHERE user_id = ?', [userId]);
+    await db.runAsync('DELETE FROM saved_views WHERE user_id = ?', [userId]);
+    await db.runAsync('DELETE FROM reminders WHERE user_id = ?', [userId]);
     await db.runAsync('DELETE FROM tasks WHERE user_id = ?', [userId]);
     await db.runAsync('DELETE FROM suggestions WHERE user_id = ?', [userId]);
     await db.runAsync('DELETE FROM feedback WHERE user_id = ?', [userId]);
     await db.runAsync('DELETE FROM user_preferences WHERE user_id = ?', [userId]);
     await db.runAsync('DELETE FROM task_patterns WHERE user_id = ?', [userId]);
+    await db.runAsync('DELETE FROM pattern_overrides WHERE user_id = ?', [userId]);
   }
 
   /**
-   * Soft delete all user data by marking as deleted (for recovery).
-   * Assumes a 'deleted' boolean column exists on relevant tables.
-   * If not, this is a stub and should be implemented after schema update.
+   * Soft delete all user tasks, suggestions and feedback by moving them to the trash.
+   * They can be restored until the retention window expires.
+   * Does not open its own transaction so callers can include it in theirs.
    */
   static async softDeleteUserData(userId: string): Promise<void> {
-    // Example for tasks table
-    try {
-      await getDatabase().then(db => db.runAsync('UPDATE tasks SET deleted = 1 WHERE user_id = ?', [userId]));
-      await getDatabase().then(db => db.runAsync('UPDATE user_preferences SET deleted = 1 WHERE user_id = ?', [userId]));
-      await getDatabase().then(db => db.runAsync('UPDATE suggestions SET deleted = 1 WHERE user_id = ?', [userId]));
-      await getDatabase().then(db => db.runAsync('UPDATE feedback SET deleted = 1 WHERE user_id = ?', [userId]));
-      // Add more tables as needed
-    } catch (e) {
-      // If schema does not support 'deleted', this is a stub
-      console.warn('Soft delete not fully implemented: missing deleted flag in schema.', e);
+    const db = await getDatabase();
+    const now = DatabaseUtils.formatDate(new Date());
+
+    for (const table of Object.values(TRASH_TABLES)) {
+      await db.runAsync(
+        `UPDATE ${table} SET deleted_at = ?, updated_at = ? WHERE user_id = ? AND deleted_at IS NULL`,
+        [now, now, userId]
+      );
     }
   }
 
+  /**
+   * Trash Operations
+   */
+  static async getTrash(userId: string): Promise<TrashContents> {
+    const db = await getDatabase();
+
+    const tasks = await db.getAllAsync<any>(
+      'SELECT * FROM tasks WHERE user_id = ? AND deleted_at IS NOT NULL ORDER BY deleted_at DESC',
+      [userId]
+    );
+    const suggestions = await db.getAllAsync<any>(
+      'SELECT * FROM suggestions WHERE user_id = ? AND deleted_at IS NOT NULL ORDER BY deleted_at DESC',
+      [userId]
+    );
+    const feedback = await db.getAllAsync<Feedback>(
+      'SELECT * FROM feedback WHERE user_id = ? AND deleted_at IS NOT NULL ORDER BY deleted_at DESC',
+      [userId]
+    );
+
+    return {
+      tasks: tasks.map(mapTaskRow),
+      suggestions: suggestions.map(mapSuggestionRow),
+      feedback,
+    };
+  }
+
+  static async restoreFromTrash(entity: TrashEntity, id: string): Promise<boolean> {
+    const db = await getDatabase();
+    const result = await db.runAsync(
+      `UPDATE ${TRASH_TABLES[entity]} SET deleted_at = NULL, updated_at = ? WHERE id = ? AND deleted_at IS NOT NULL`,
+      [DatabaseUtils.formatDate(new Date()), id]
+    );
+    return result.changes > 0;
+  }
+
+  static async restoreAllFromTrash(userId: string): Promise<void> {
+    const db = await getDatabase();
+    const now = DatabaseUtils.formatDate(new Date());
+
+    await db.withTransactionAsync(async () => {
+      for (const table of Object.values(TRASH_TABLES)) {
+        await db.runAsync(
+          `UPDATE ${table} SET deleted_at = NULL, updated_at = ? WHERE user_id = ? AND deleted_at IS NOT NULL`,
+          [now, userId]
+        );
+      }
+    });
+  }
+
+  /**
+   * Permanently delete a trashed item
+   */
+  static async purgeFromTrash(entity: TrashEntity, id: string): Promise<boolean> {
+    const db = await getDatabase();
+    const result = await db.runAsync(
+      `DELETE FROM ${TRASH_TABLES[entity]} WHERE id = ? AND deleted_at IS NOT NULL`,
+      [id]
+    );
+    if (entity === 'task' && result.changes > 0) {
+      await db.runAsync('DELETE FROM subtasks WHERE task_id = ?', [id]);
+      await db.runAsync('DELETE FROM reminders WHERE task_id = ?', [id]);
+      await db.runAsync('DELETE FROM time_entries WHERE task_id = ?', [id]);
+    }
+    return result.changes > 0;
+  }
+
+  static async emptyTrash(userId: string): Promise<void> {
+    await this.purgeExpiredTrash(userId, 0);
+  }
+
+  /**
+   * Permanently delete items that have been in the trash longer than the retention window
+   */
+  static async purgeExpiredTrash(userId: string, retentionDays: number = TRASH_RETENTION_DAYS): Promise<number> {
+    const db = await getDatabase();
+    const cutoff = DatabaseUtils.formatDate(new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000));
+    let purged = 0;
+
+    await db.withTransactionAsync(async () => {
+      // Children first so they are not left pointing at purged parents
+      for (const table of ['feedback', 'subtasks', 'reminders', 'suggestions', 'tasks', 'saved_views']) {
+        const result = await db.runAsync(
+          `DELETE FROM ${table} WHERE user_id = ? AND deleted_at IS NOT NULL AND deleted_at <= ?`,
+          [userId, cutoff]
+        );
+        purged += result.changes;
+      }
+      for (const table of ['subtasks', 'reminders', 'time_entries']) {
+        await db.runAsync(
+          `DELETE FROM ${table} WHERE user_id = ? AND task_id NOT IN (SELECT id FROM tasks)`,
+          [userId]
+        );
+      }
+    });
+
+    return purged;
+  }
+
   static async getDatabaseStats(): Promise<{
     totalTasks: number;
     totalSuggestions: number;
@@ -599,9 +1382,9 @@ export class DatabaseService {
   }> {
     const db = await getDatabase();
     
-    const tasksResult = await db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM tasks');
-    const suggestionsResult = await db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM suggestions');
-    const feedbackResult = await db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM feedback');
+    const tasksResult = await db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM tasks WHERE deleted_at IS NULL');
+    const suggestionsResult = await db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM suggestions WHERE deleted_at IS NULL');
+    const feedbackResult = await db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM feedback WHERE deleted_at IS NULL');
     const usersResult = await db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM user_preferences');
     
     return {
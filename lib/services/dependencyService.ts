@@ -0,0 +1,103 @@
+import { Task } from '../types';
+import { sequentialPatternService } from './sequentialPatternService';
+
+type DependencyTask = Pick<Task, 'id' | 'title' | 'completed' | 'blocked_by'>;
+
+export interface DependencySuggestion {
+  taskId: string;
+  taskTitle: string;
+  blockerId: string;
+  blockerTitle: string;
+}
+
+/**
+ * Thrown when a "blocked by" link would make a task wait on itself
+ */
+export class DependencyCycleError extends Error {
+  constructor(public taskId: string, public blockerId: string) {
+    super('A task cannot be blocked by a task that is waiting on it');
+    this.name = 'DependencyCycleError';
+  }
+}
+
+/**
+ * "Blocked by" links between tasks. A task is blocked while any of its blockers
+ * is still open; completing, trashing or purging a blocker unblocks it, so the
+ * blocked state is always derived from the current task list.
+ */
+export class DependencyService {
+  /**
+   * Open tasks the given task is waiting on
+   */
+  static getBlockers<T extends DependencyTask>(task: DependencyTask, tasks: T[]): T[] {
+    if (!task.blocked_by || task.blocked_by.length === 0) return [];
+    return tasks.filter(other => task.blocked_by!.includes(other.id) && !other.completed);
+  }
+
+  static isBlocked(task: DependencyTask, tasks: DependencyTask[]): boolean {
+    return !task.completed && this.getBlockers(task, tasks).length > 0;
+  }
+
+  /**
+   * Whether blocking `taskId` by `blockerId` would close a loop, i.e. the blocker
+   * already waits on the task, directly or through other tasks
+   */
+  static wouldCreateCycle(tasks: DependencyTask[], taskId: string, blockerId: string): boolean {
+    if (taskId === blockerId) return true;
+
+    const byId = new Map(tasks.map(task => [task.id, task]));
+    const visited = new Set<string>();
+    const pending = [blockerId];
+    while (pending.length > 0) {
+      const id = pending.pop()!;
+      if (id === taskId) return true;
+      if (visited.has(id)) continue;
+      visited.add(id);
+      pending.push(...(byId.get(id)?.blocked_by || []));
+    }
+    return false;
+  }
+
+  /**
+   * The task's blocker list with `blockerId` added. Throws DependencyCycleError
+   * when the link would create a cycle.
+   */
+  static addBlocker(tasks: DependencyTask[], taskId: string, blockerId: string): string[] {
+    const current = tasks.find(task => task.id === taskId)?.blocked_by || [];
+    if (current.includes(blockerId)) return current;
+    if (this.wouldCreateCycle(tasks, taskId, blockerId)) throw new DependencyCycleError(taskId, blockerId);
+    return [...current, blockerId];
+  }
+
+  static removeBlocker(tasks: DependencyTask[], taskId: string, blockerId: string): string[] {
+    const current = tasks.find(task => task.id === taskId)?.blocked_by || [];
+    return current.filter(id => id !== blockerId);
+  }
+
+  /**
+   * Links inferred from learned sequences ("A usually precedes B") between open
+   * tasks that are not linked yet and could be linked without a cycle
+   */
+  static async getSuggestedDependencies(userId: string, tasks: Task[]): Promise<DependencySuggestion[]> {
+    const inferred = await sequentialPatternService.detectTaskDependencies(userId, tasks);
+    const open = tasks.filter(task => !task.completed);
+    const byTitle = new Map<string, Task[]>();
+    for (const task of open) {
+      const key = task.title.trim().toLowerCase();
+      byTitle.set(key, [...(byTitle.get(key) || []), task]);
+    }
+
+    const suggestions: DependencySuggestion[] = [];
+    for (const [dependentTitle, prerequisiteTitles] of inferred) {
+      for (const task of byTitle.get(dependentTitle.trim().toLowerCase()) || []) {
+        for (const prerequisiteTitle of prerequisiteTitles) {
+          for (const blocker of byTitle.get(prerequisiteTitle.trim().toLowerCase()) || []) {
+            if (task.blocked_by?.includes(blocker.id) || this.wouldCreateCycle(tasks, task.id, blocker.id)) continue;
+            suggestions.push({ taskId: task.id, taskTitle: task.title, blockerId: blocker.id, blockerTitle: blocker.title });
+          }
+        }
+      }
+    }
+    return suggestions;
+  }
+}
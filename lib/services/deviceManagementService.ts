@@ -5,6 +5,7 @@ import { supabase } from '@/lib/supabase';
 import { v4 as uuidv4 } from 'uuid';
 import Constants from 'expo-constants';
 import * as Battery from 'expo-battery';
+import { getQuietUntil } from './notificationPolicy';
 
 export interface DeviceInfo {
   id: string;
@@ -24,6 +25,11 @@ export interface DeviceInfo {
   isCharging?: boolean;
 }
 
+export interface QuietWindow {
+  start: string; // HH:mm
+  end: string; // HH:mm, past midnight when earlier than start
+}
+
 export interface DevicePreferences {
   deviceId: string;
   userId: string;
@@ -38,7 +44,12 @@ export interface DevicePreferences {
       enabled: boolean;
       start: string; // HH:mm
       end: string; // HH:mm
+      // Per-weekday windows keyed 0 (Sunday) to 6, by the day the window starts;
+      // null turns quiet hours off that day. Other days use start/end.
+      weekdays?: Partial<Record<number, QuietWindow | null>>;
+      allowHighPriority?: boolean; // high-priority task reminders break through
     };
+    focusUntil?: string; // ISO date string, hold every notification until then
   };
   sync: {
     autoSync: boolean;
@@ -66,10 +77,11 @@ export interface DeviceConflict {
   id: string;
   deviceId: string;
   userId: string;
-  entityType: 'task' | 'preference' | 'reminder';
+  entityType: 'task' | 'subtask' | 'suggestion' | 'feedback' | 'preference' | 'reminder' | 'saved_view';
   entityId: string;
   localData: any;
   remoteData: any;
+  baseData?: any;
   conflictFields: string[];
   timestamp: number;
   resolved: boolean;
@@ -373,22 +385,28 @@ export class DeviceManagementService {
   }
 
   /**
-   * Detect and handle device conflicts
+   * Detect and handle device conflicts. Callers that already merged the record
+   * pass the fields still in conflict.
    */
-  async detectDeviceConflicts(entityType: string, entityId: string, localData: any, remoteData: any): Promise<DeviceConflict | null> {
-    if (!this.deviceInfo) return null;
-
-    const conflictFields = this.findConflictFields(localData, remoteData);
+  async detectDeviceConflicts(
+    entityType: string,
+    entityId: string,
+    localData: any,
+    remoteData: any,
+    options: { baseData?: any; conflictFields?: string[] } = {}
+  ): Promise<DeviceConflict | null> {
+    const conflictFields = options.conflictFields || this.findConflictFields(localData, remoteData);
     if (conflictFields.length === 0) return null;
 
     const conflict: DeviceConflict = {
       id: uuidv4(),
-      deviceId: this.deviceInfo.id,
+      deviceId: this.deviceInfo?.id || 'unknown',
       userId: this.devicePreferences?.userId || 'anonymous',
-      entityType: entityType as 'task' | 'preference' | 'reminder',
+      entityType: entityType as DeviceConflict['entityType'],
       entityId,
       localData,
       remoteData,
+      baseData: options.baseData,
       conflictFields,
       timestamp: Date.now(),
       resolved: false,
@@ -400,7 +418,7 @@ export class DeviceManagementService {
     await TypedStorage.set('device_conflicts', conflicts);
 
     // Save to cloud if online
-    if (this.deviceInfo.isOnline) {
+    if (this.deviceInfo?.isOnline) {
       try {
         await supabase.from('device_conflicts').insert(conflict);
       } catch (error) {
@@ -500,19 +518,7 @@ export class DeviceManagementService {
    */
   shouldSendNotification(): boolean {
     const settings = this.getNotificationSettings();
-    if (!settings.enabled) return false;
-
-    // Check quiet hours
-    if (settings.quietHours.enabled) {
-      const now = new Date();
-      const currentTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`;
-      
-      if (currentTime >= settings.quietHours.start || currentTime <= settings.quietHours.end) {
-        return false;
-      }
-    }
-
-    return true;
+    return settings.enabled && !getQuietUntil(settings, new Date());
   }
 
   /**
@@ -0,0 +1,200 @@
+import { DatabaseService } from './databaseService';
+import { AnalyticsService } from './analyticsService';
+import { notificationPolicy, NotificationPolicy, PolicyNotificationContent } from './notificationPolicy';
+import { TypedStorage } from '../storage';
+import { Suggestion, Task, UserPreferences } from '../types';
+
+export type DigestFrequency = UserPreferences['reminder_frequency'];
+export type DigestSchedule = Pick<UserPreferences, 'reminder_frequency' | 'digest_time' | 'digest_weekday'>;
+
+export const DIGEST_DEFAULT_TIME = '08:00';
+export const DIGEST_DEFAULT_WEEKDAY = 1; // Monday
+export const DIGEST_URL = '/digest';
+
+// Top-ranked tasks and suggestions listed in a digest
+const TOP_LIMIT = 3;
+const SUGGESTION_LIMIT = 3;
+// Digests scheduled ahead, so they keep arriving while the app stays closed
+const LOOKAHEAD: Record<DigestFrequency, number> = { hourly: 12, daily: 3, weekly: 2 };
+
+const LABELS: Record<DigestFrequency, string> = { hourly: 'Hourly', daily: 'Daily', weekly: 'Weekly' };
+
+export interface Digest {
+  frequency: DigestFrequency;
+  at: Date;
+  until: Date; // the next digest; tasks due before then count as due
+  overdue: Task[];
+  due: Task[];
+  top: Task[]; // highest ranked open tasks not already listed as overdue or due
+  suggestions: Suggestion[];
+}
+
+function parseTime(value: string | undefined): [number, number] {
+  const match = /^(\d{1,2}):(\d{2})$/.exec((value || '').trim());
+  const hours = match ? Number(match[1]) : NaN;
+  const minutes = match ? Number(match[2]) : NaN;
+  if (hours < 24 && minutes < 60) return [hours, minutes];
+  return parseTime(DIGEST_DEFAULT_TIME);
+}
+
+/**
+ * The next `count` times a digest goes out after `after`
+ */
+export function nextDigestTimes(schedule: DigestSchedule, after: Date, count: number): Date[] {
+  const times: Date[] = [];
+  const next = new Date(after);
+
+  if (schedule.reminder_frequency === 'hourly') {
+    next.setMinutes(0, 0, 0);
+    for (let i = 0; i < count; i++) {
+      next.setHours(next.getHours() + 1);
+      times.push(new Date(next));
+    }
+    return times;
+  }
+
+  const [hours, minutes] = parseTime(schedule.digest_time);
+  next.setHours(hours, minutes, 0, 0);
+  if (schedule.reminder_frequency === 'weekly') {
+    const weekday = schedule.digest_weekday ?? DIGEST_DEFAULT_WEEKDAY;
+    next.setDate(next.getDate() + ((weekday - next.getDay() + 7) % 7));
+  }
+  const step = schedule.reminder_frequency === 'weekly' ? 7 : 1;
+  if (next <= after) next.setDate(next.getDate() + step);
+  for (let i = 0; i < count; i++) {
+    times.push(new Date(next));
+    next.setDate(next.getDate() + step);
+  }
+  return times;
+}
+
+const dueTime = (task: Task) => new Date(task.due_date!).getTime();
+
+/**
+ * What a digest going out at `at` covers
+ */
+export function buildDigest(
+  tasks: Task[],
+  suggestions: Suggestion[],
+  frequency: DigestFrequency,
+  at: Date,
+  until: Date
+): Digest {
+  const open = tasks.filter(task => !task.completed && !task.deleted_at);
+  const dated = open.filter(task => task.due_date).sort((a, b) => dueTime(a) - dueTime(b));
+  const overdue = dated.filter(task => dueTime(task) < at.getTime());
+  const due = dated.filter(task => dueTime(task) >= at.getTime() && dueTime(task) < until.getTime());
+
+  const listed = new Set([...overdue, ...due].map(task => task.id));
+  const top = AnalyticsService.getRankedTasksByPriority(open, { now: at })
+    .filter(task => !listed.has(task.id))
+    .slice(0, TOP_LIMIT);
+
+  const pending = suggestions
+    .filter(s => s.status === 'pending' && !s.deleted_at && (!s.expires_at || new Date(s.expires_at) > at))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, SUGGESTION_LIMIT);
+
+  return { frequency, at, until, overdue, due, top, suggestions: pending };
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * The digest notification, or null when there is nothing to report
+ */
+export function digestContent(digest: Digest): PolicyNotificationContent | null {
+  const counts = [
+    digest.overdue.length ? `${digest.overdue.length} overdue` : null,
+    digest.due.length ? `${digest.due.length} due` : null,
+    digest.suggestions.length ? plural(digest.suggestions.length, 'suggestion') : null,
+  ].filter(Boolean);
+  const lead = digest.overdue[0] || digest.due[0] || digest.top[0];
+  if (!lead && counts.length === 0) return null;
+
+  return {
+    title: `${LABELS[digest.frequency]} digest`,
+    body: [counts.join(' · '), lead ? `Up next: ${lead.title}` : null].filter(Boolean).join('\n'),
+    // No taskId: the reminder registry only cleans up task notifications
+    data: { kind: 'digest', url: DIGEST_URL, at: digest.at.toISOString() },
+  };
+}
+
+export interface DigestSchedulerOptions {
+  policy?: Pick<NotificationPolicy, 'schedule' | 'cancel' | 'deliveryTime'>;
+  scheduled?: { get(): Promise<string[]>; set(ids: string[]): Promise<void> };
+  now?: () => Date;
+}
+
+/**
+ * Schedules the digest notifications set by `reminder_frequency`. A few digests
+ * are scheduled ahead with their contents worked out up front, and replaced
+ * whenever `refresh` runs; the digest screen always shows live data.
+ */
+export class DigestScheduler {
+  private policy: NonNullable<DigestSchedulerOptions['policy']>;
+  private scheduled: NonNullable<DigestSchedulerOptions['scheduled']>;
+  private now: () => Date;
+
+  constructor(options: DigestSchedulerOptions = {}) {
+    this.policy = options.policy || notificationPolicy;
+    this.scheduled = options.scheduled || TypedStorage.digestNotifications;
+    this.now = options.now || (() => new Date());
+  }
+
+  /**
+   * Replace the user's scheduled digests. Returns when each will be delivered.
+   */
+  async refresh(userId: string): Promise<Date[]> {
+    for (const id of await this.scheduled.get()) {
+      await this.policy.cancel(id).catch(() => {});
+    }
+    await this.scheduled.set([]);
+
+    const preferences = await DatabaseService.getUserPreferences(userId);
+    if (!preferences?.notifications_enabled) return [];
+
+    const [tasks, suggestions] = await Promise.all([
+      DatabaseService.getTasks(userId),
+      DatabaseService.getSuggestions(userId, 'pending'),
+    ]);
+    const frequency = preferences.reminder_frequency;
+    const times = nextDigestTimes(preferences, this.now(), LOOKAHEAD[frequency] + 1);
+
+    const ids: string[] = [];
+    const delivered: Date[] = [];
+    for (let i = 0; i < times.length - 1; i++) {
+      const deliverAt = await this.policy.deliveryTime(times[i]);
+      if (!deliverAt) break;
+      // Digests held back by quiet hours would all arrive at once; send one
+      if (delivered.some(at => at.getTime() === deliverAt.getTime())) continue;
+
+      const content = digestContent(buildDigest(tasks, suggestions, frequency, deliverAt, times[i + 1]));
+      if (!content) continue;
+      const id = await this.policy.schedule(content, times[i]);
+      if (!id) continue;
+      ids.push(id);
+      delivered.push(deliverAt);
+    }
+
+    await this.scheduled.set(ids);
+    return delivered;
+  }
+
+  /**
+   * The digest as of now, for the digest screen
+   */
+  async load(userId: string): Promise<Digest> {
+    const now = this.now();
+    const preferences = await DatabaseService.getUserPreferences(userId);
+    const schedule: DigestSchedule = preferences || { reminder_frequency: 'daily' };
+    const [tasks, suggestions] = await Promise.all([
+      DatabaseService.getTasks(userId),
+      DatabaseService.getSuggestions(userId, 'pending'),
+    ]);
+    const [until] = nextDigestTimes(schedule, now, 1);
+    return buildDigest(tasks, suggestions, schedule.reminder_frequency, now, until);
+  }
+}
+
+export const digestScheduler = new DigestScheduler();
@@ -1,6 +1,7 @@
 import { getDatabase, DatabaseUtils } from '../database';
-import { PatternDatabaseUtils } from '../patternDatabase';
-import { Feedback, Suggestion, UserPattern } from '../types';
+import { PatternDatabaseUtils, TemporalPattern } from '../patternDatabase';
+import { Feedback, Suggestion, UserPattern, ExplanationAdjustment } from '../types';
+import { adjustConfidence } from './candidatePipeline';
 
 /**
  * Feedback Learning Service
@@ -69,6 +70,12 @@ export interface LearningAdjustment {
   adjustment_magnitude: number;
 }
 
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// A user correcting a pattern counts as this many suggestion votes, enough to
+// move the timing adjustments on its own
+const CORRECTION_WEIGHT = 3;
+
 export class FeedbackLearningService {
   private static instance: FeedbackLearningService;
   
@@ -225,6 +232,65 @@ export class FeedbackLearningService {
     ]);
   }
 
+  /**
+   * Learn from the user correcting when a pattern happens: the slot it was
+   * moved away from counts as rejected and the slot it was moved to as
+   * accepted, each weighing CORRECTION_WEIGHT votes. Returns the confidence
+   * the corrected pattern should carry, which the user has just vouched for.
+   */
+  async collectPatternCorrection(
+    userId: string,
+    before: Pick<TemporalPattern, 'task_category' | 'time_of_day' | 'day_of_week' | 'confidence'>,
+    after: Pick<TemporalPattern, 'time_of_day' | 'day_of_week'>
+  ): Promise<number> {
+    const db = await getDatabase();
+    const now = DatabaseUtils.formatDate(new Date());
+
+    const slots: [Pick<TemporalPattern, 'time_of_day' | 'day_of_week'>, 'positive' | 'negative'][] = [
+      [before, 'negative'],
+      [after, 'positive'],
+    ];
+    for (const [slot, feedbackType] of slots) {
+      await db.runAsync(`
+        INSERT INTO timing_preferences (
+          id, user_id, preference_type, timing_data, confidence, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?)
+      `, [
+        DatabaseUtils.generateId(),
+        userId,
+        'suggestion_timing',
+        DatabaseUtils.serializeJSON({
+          time_of_day: slot.time_of_day,
+          day_of_week: slot.day_of_week,
+          category: before.task_category,
+          feedback_type: feedbackType,
+          weight: CORRECTION_WEIGHT,
+        }),
+        feedbackType === 'positive' ? 1 : 0,
+        now
+      ]);
+    }
+
+    const adjustment = CORRECTION_WEIGHT * this.calculateConfidenceAdjustment('positive', before.confidence, before.confidence);
+    await db.runAsync(`
+      INSERT INTO confidence_calibration (
+        id, user_id, pattern_types, category, original_confidence,
+        feedback_type, adjustment, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      DatabaseUtils.generateId(),
+      userId,
+      DatabaseUtils.serializeJSON(['temporal']),
+      'pattern_correction',
+      before.confidence,
+      'positive',
+      adjustment,
+      now
+    ]);
+
+    return Math.min(1, before.confidence + adjustment);
+  }
+
   /**
    * Calculate confidence adjustment based on feedback
    */
@@ -362,9 +428,15 @@ export class FeedbackLearningService {
   }
 
   /**
-   * Apply learned adjustments to new suggestions
+   * The multipliers feedback learning applies to each suggestion (confidence
+   * 0-1): calibration for its confidence range, how its category has been
+   * received, and how suggestions fare at this hour and on this weekday
    */
-  async applyLearningAdjustments(userId: string, suggestions: Suggestion[]): Promise<Suggestion[]> {
+  async learningAdjustments(
+    userId: string,
+    suggestions: Pick<Suggestion, 'confidence' | 'category'>[],
+    now: Date = new Date()
+  ): Promise<ExplanationAdjustment[][]> {
     const db = await getDatabase();
     
     // Get confidence adjustments for this user
@@ -420,15 +492,17 @@ export class FeedbackLearningService {
       try {
         const data = DatabaseUtils.deserializeJSON(pref.timing_data);
         const isPositive = data.feedback_type === 'positive';
+        // Pattern corrections carry more than one vote
+        const votes = data.weight || 1;
         
         // Track time of day preferences
         if (data.time_of_day !== undefined) {
           const hour = data.time_of_day;
           const current = timeOfDayPreferences.get(hour) || { positive: 0, negative: 0 };
           if (isPositive) {
-            current.positive += 1;
+            current.positive += votes;
           } else {
-            current.negative += 1;
+            current.negative += votes;
           }
           timeOfDayPreferences.set(hour, current);
         }
@@ -438,9 +512,9 @@ export class FeedbackLearningService {
           const day = data.day_of_week;
           const current = dayOfWeekPreferences.get(day) || { positive: 0, negative: 0 };
           if (isPositive) {
-            current.positive += 1;
+            current.positive += votes;
           } else {
-            current.negative += 1;
+            current.negative += votes;
           }
           dayOfWeekPreferences.set(day, current);
         }
@@ -450,55 +524,64 @@ export class FeedbackLearningService {
     });
 
     // Current time context
-    const now = new Date();
     const currentHour = now.getHours();
     const currentDay = now.getDay();
 
-    // Apply adjustments to suggestions
+    // Acceptance at this time, once there are enough votes to go on
+    const preferenceFactor = (preference?: { positive: number, negative: number }) => {
+      const total = preference ? preference.positive + preference.negative : 0;
+      return preference && total >= 3 ? (preference.positive / total) * 0.4 + 0.8 : undefined;
+    };
+    const hourFactor = preferenceFactor(timeOfDayPreferences.get(currentHour));
+    const dayFactor = preferenceFactor(dayOfWeekPreferences.get(currentDay));
+
     return suggestions.map(suggestion => {
+      const applied: ExplanationAdjustment[] = [];
+
       // Base confidence adjustment from calibration
       const confidenceRange = this.getConfidenceRange(suggestion.confidence);
-      let adjustmentFactor = adjustmentMap.get(confidenceRange) || 1.0;
+      const calibrationFactor = adjustmentMap.get(confidenceRange);
+      if (calibrationFactor && calibrationFactor !== 1) {
+        applied.push({ source: 'feedback', label: `Calibration for ${confidenceRange}% confidence`, factor: calibrationFactor });
+      }
       
       // Category-specific adjustment
-      if (categoryAdjustmentMap.has(suggestion.category)) {
-        const categoryFactor = categoryAdjustmentMap.get(suggestion.category)!;
-        adjustmentFactor *= categoryFactor;
+      const categoryFactor = categoryAdjustmentMap.get(suggestion.category);
+      if (categoryFactor !== undefined && categoryFactor !== 1) {
+        applied.push({ source: 'feedback', label: `Your feedback on ${suggestion.category} suggestions`, factor: categoryFactor });
       }
       
-      // Time-of-day adjustment
-      const hourPreference = timeOfDayPreferences.get(currentHour);
-      if (hourPreference) {
-        const total = hourPreference.positive + hourPreference.negative;
-        if (total >= 3) {
-          const timePreferenceFactor = (hourPreference.positive / total) * 0.4 + 0.8;
-          adjustmentFactor *= timePreferenceFactor;
-        }
+      if (hourFactor !== undefined && hourFactor !== 1) {
+        applied.push({ source: 'feedback', label: `Your feedback on suggestions around ${currentHour}:00`, factor: hourFactor });
       }
       
-      // Day-of-week adjustment
-      const dayPreference = dayOfWeekPreferences.get(currentDay);
-      if (dayPreference) {
-        const total = dayPreference.positive + dayPreference.negative;
-        if (total >= 3) {
-          const dayPreferenceFactor = (dayPreference.positive / total) * 0.4 + 0.8;
-          adjustmentFactor *= dayPreferenceFactor;
-        }
+      if (dayFactor !== undefined && dayFactor !== 1) {
+        applied.push({ source: 'feedback', label: `Your feedback on suggestions on ${DAY_NAMES[currentDay]}`, factor: dayFactor });
       }
-      
-      // Apply combined adjustment factor
-      const newConfidence = Math.max(0.1, Math.min(0.95, suggestion.confidence * adjustmentFactor));
-      
-      // Add explanation of adjustment for transparency
-      const basedOn = DatabaseUtils.deserializeJSON(suggestion.based_on) || [];
-      if (adjustmentFactor !== 1.0) {
-        basedOn.push('learning_adjusted');
-      }
-      
+
+      return applied;
+    });
+  }
+
+  /**
+   * Apply learned adjustments to new suggestions
+   */
+  async applyLearningAdjustments(userId: string, suggestions: Suggestion[]): Promise<Suggestion[]> {
+    const adjustments = await this.learningAdjustments(userId, suggestions);
+
+    return suggestions.map((suggestion, index) => {
+      const applied = adjustments[index];
+      if (applied.length === 0) return suggestion;
+
+      // Record what was applied for transparency
       return {
         ...suggestion,
-        confidence: newConfidence,
-        based_on: DatabaseUtils.serializeJSON(basedOn)
+        confidence: adjustConfidence(suggestion.confidence, applied),
+        based_on: [...suggestion.based_on, 'learning_adjusted'],
+        explanation: suggestion.explanation && {
+          ...suggestion.explanation,
+          adjustments: [...suggestion.explanation.adjustments, ...applied],
+        },
       };
     });
   }
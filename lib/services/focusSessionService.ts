@@ -0,0 +1,227 @@
+import { TypedStorage, FocusSettings, ActiveFocusSession } from '../storage';
+import DeviceManagementService from './deviceManagementService';
+import { notificationPolicy, NotificationPolicy, PolicyNotificationContent } from './notificationPolicy';
+import { reminderRegistry } from './reminderRegistry';
+import { digestScheduler } from './digestService';
+import { timeTracker, TimeTracker } from './timeTrackingService';
+import { Task } from '../types';
+
+export const DEFAULT_FOCUS_SETTINGS: FocusSettings = {
+  workMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  cycles: 4,
+  longBreakEvery: 4,
+};
+
+const MINUTE = 60 * 1000;
+
+export type FocusPhaseKind = 'work' | 'shortBreak' | 'longBreak';
+
+export interface FocusPhase {
+  kind: FocusPhaseKind;
+  cycle: number; // the work interval this phase is or follows, from 1
+  start: Date;
+  end: Date;
+}
+
+export interface FocusSessionState {
+  taskId: string;
+  taskTitle: string;
+  settings: FocusSettings;
+  phase: FocusPhase;
+  endsAt: Date;
+}
+
+/**
+ * A session's phases from `start`: work intervals with a break after each but
+ * the last, every `longBreakEvery`th one a long break
+ */
+export function focusSchedule(settings: FocusSettings, start: Date): FocusPhase[] {
+  const phases: FocusPhase[] = [];
+  let cursor = start.getTime();
+  const add = (kind: FocusPhaseKind, cycle: number, minutes: number) => {
+    if (minutes <= 0) return;
+    const end = cursor + minutes * MINUTE;
+    phases.push({ kind, cycle, start: new Date(cursor), end: new Date(end) });
+    cursor = end;
+  };
+
+  for (let cycle = 1; cycle <= settings.cycles; cycle++) {
+    add('work', cycle, settings.workMinutes);
+    if (cycle === settings.cycles) break;
+    const long = settings.longBreakEvery > 0 && cycle % settings.longBreakEvery === 0;
+    add(long ? 'longBreak' : 'shortBreak', cycle, long ? settings.longBreakMinutes : settings.shortBreakMinutes);
+  }
+  return phases;
+}
+
+/**
+ * The notification shown when `phase` ends
+ */
+function cueFor(phase: FocusPhase, next: FocusPhase | undefined, session: ActiveFocusSession): PolicyNotificationContent {
+  const data = { kind: 'focus-session', taskId: session.taskId };
+  if (!next) {
+    return {
+      title: 'Focus session complete',
+      body: `${session.settings.cycles} × ${session.settings.workMinutes} min on ${session.taskTitle}`,
+      data,
+    };
+  }
+  if (next.kind === 'work') return { title: 'Back to focus', body: session.taskTitle, data };
+  const minutes = Math.round((next.end.getTime() - next.start.getTime()) / MINUTE);
+  return {
+    title: next.kind === 'longBreak' ? 'Time for a long break' : 'Time for a break',
+    body: `${minutes} min break after ${phase.cycle} of ${session.settings.cycles}`,
+    data,
+  };
+}
+
+/**
+ * Hold notifications until `until`, or lift the hold with null, and move the
+ * ones already scheduled, as the Focus setting in device settings does
+ */
+async function holdNotifications(userId: string, until: Date | null): Promise<void> {
+  const service = DeviceManagementService.getInstance();
+  if (!service.getDevicePreferences()) await service.loadDevicePreferences();
+  await service.updateDevicePreferences({
+    notifications: { ...service.getNotificationSettings(), focusUntil: until?.toISOString() },
+  });
+  await reminderRegistry.reschedule(userId);
+  await digestScheduler.refresh(userId);
+}
+
+export interface FocusSessionOptions {
+  session?: { get(): Promise<ActiveFocusSession | null>; set(session: ActiveFocusSession): Promise<void>; clear(): Promise<void> };
+  settings?: { get(): Promise<FocusSettings | null>; set(settings: FocusSettings): Promise<void> };
+  tracker?: Pick<TimeTracker, 'start' | 'pause' | 'stop'>;
+  policy?: Pick<NotificationPolicy, 'schedule' | 'cancel'>;
+  hold?: (userId: string, until: Date | null) => Promise<void>;
+  now?: () => Date;
+}
+
+/**
+ * Pomodoro focus sessions on one task. Notifications other than the session's
+ * own break cues are held until it ends (high-priority ones still come through
+ * when quiet hours allow them), and every work interval is logged as a focus
+ * time entry on the task. The session lives in storage, so intervals that
+ * passed while the app was closed are logged on the next look.
+ */
+export class FocusSessionService {
+  private session: NonNullable<FocusSessionOptions['session']>;
+  private settings: NonNullable<FocusSessionOptions['settings']>;
+  private tracker: NonNullable<FocusSessionOptions['tracker']>;
+  private policy: NonNullable<FocusSessionOptions['policy']>;
+  private hold: NonNullable<FocusSessionOptions['hold']>;
+  private now: () => Date;
+
+  constructor(options: FocusSessionOptions = {}) {
+    this.session = options.session || TypedStorage.focusSession;
+    this.settings = options.settings || TypedStorage.focusSettings;
+    this.tracker = options.tracker || timeTracker;
+    this.policy = options.policy || notificationPolicy;
+    this.hold = options.hold || holdNotifications;
+    this.now = options.now || (() => new Date());
+  }
+
+  async getSettings(): Promise<FocusSettings> {
+    return { ...DEFAULT_FOCUS_SETTINGS, ...(await this.settings.get()) };
+  }
+
+  async saveSettings(settings: FocusSettings): Promise<void> {
+    await this.settings.set(settings);
+  }
+
+  /**
+   * The running session, or null when there is none or it has finished
+   */
+  async current(): Promise<FocusSessionState | null> {
+    const session = await this.session.get();
+    return session ? await this.advance(session) : null;
+  }
+
+  /**
+   * Start a session on the task, ending any session already running
+   */
+  async start(userId: string, task: Pick<Task, 'id' | 'title'>, settings?: FocusSettings): Promise<FocusSessionState | null> {
+    await this.end();
+
+    const session: ActiveFocusSession = {
+      userId,
+      taskId: task.id,
+      taskTitle: task.title,
+      startedAt: this.now().toISOString(),
+      settings: settings || (await this.getSettings()),
+      nextPhase: 0,
+      tracking: false,
+      notificationIds: [],
+    };
+    const phases = focusSchedule(session.settings, new Date(session.startedAt));
+    if (phases.length === 0) return null;
+
+    for (let i = 0; i < phases.length; i++) {
+      const id = await this.policy.schedule(cueFor(phases[i], phases[i + 1], session), phases[i].end, { bypassFocus: true });
+      if (id) session.notificationIds.push(id);
+    }
+    await this.hold(userId, phases[phases.length - 1].end);
+    await this.session.set(session);
+    return await this.advance(session);
+  }
+
+  /**
+   * End the running session early, logging the interval in progress
+   */
+  async end(): Promise<void> {
+    if (!(await this.current())) return;
+    const session = (await this.session.get())!;
+
+    await this.tracker.stop(session.taskId, this.now());
+    for (const id of session.notificationIds) await this.policy.cancel(id);
+    await this.session.clear();
+    await this.hold(session.userId, null);
+  }
+
+  /**
+   * Log the work intervals that have started since the session was last
+   * looked at, and clear the session once its last phase is over
+   */
+  private async advance(session: ActiveFocusSession): Promise<FocusSessionState | null> {
+    const now = this.now();
+    const phases = focusSchedule(session.settings, new Date(session.startedAt));
+    let { nextPhase, tracking } = session;
+
+    while (nextPhase < phases.length && phases[nextPhase].start <= now) {
+      const phase = phases[nextPhase];
+      if (phase.kind === 'work') {
+        if (!tracking) {
+          await this.tracker.start(session.userId, session.taskId, { at: phase.start, source: 'focus' });
+          tracking = true;
+        }
+        if (phase.end > now) break;
+        await this.tracker.pause(session.taskId, phase.end);
+        tracking = false;
+      }
+      nextPhase++;
+    }
+
+    if (nextPhase >= phases.length) {
+      // The hold and the cues ran out with the session
+      await this.tracker.stop(session.taskId, phases[phases.length - 1].end);
+      await this.session.clear();
+      return null;
+    }
+
+    if (nextPhase !== session.nextPhase || tracking !== session.tracking) {
+      await this.session.set({ ...session, nextPhase, tracking });
+    }
+    return {
+      taskId: session.taskId,
+      taskTitle: session.taskTitle,
+      settings: session.settings,
+      phase: phases.find(phase => phase.start <= now && now < phase.end) || phases[nextPhase],
+      endsAt: phases[phases.length - 1].end,
+    };
+  }
+}
+
+export const focusSessionService = new FocusSessionService();
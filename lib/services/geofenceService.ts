@@ -0,0 +1,186 @@
+import * as Location from 'expo-location';
+import { Platform } from 'react-native';
+import { TypedStorage } from '../storage';
+import { DatabaseService } from './databaseService';
+import { REMINDER_CATEGORY, ReminderNotificationContent } from './reminderRegistry';
+import { notificationPolicy, NotificationOptions } from './notificationPolicy';
+import { Task } from '../types';
+
+// Background task that receives every geofence event; see geofenceTask.ts
+export const GEOFENCE_TASK = 'task-location-reminders';
+
+// iOS monitors at most 20 regions per app, Android 100
+export const REGION_LIMIT = Platform.OS === 'ios' ? 20 : 100;
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface GeofenceRegion extends Coordinates {
+  identifier: string; // task id
+  radius: number;
+  notifyOnEnter: boolean;
+  notifyOnExit: boolean;
+}
+
+/**
+ * The part of the OS location API the manager uses; tests pass a fake
+ */
+export interface GeofenceClient {
+  start(regions: GeofenceRegion[]): Promise<void>;
+  stop(): Promise<void>;
+  canMonitor(): Promise<boolean>;
+  lastKnownPosition(): Promise<Coordinates | null>;
+}
+
+export const expoGeofenceClient: GeofenceClient = {
+  async start(regions) {
+    // Replaces the regions registered by the previous call
+    await Location.startGeofencingAsync(GEOFENCE_TASK, regions);
+  },
+
+  async stop() {
+    if (await Location.hasStartedGeofencingAsync(GEOFENCE_TASK)) {
+      await Location.stopGeofencingAsync(GEOFENCE_TASK);
+    }
+  },
+
+  async canMonitor() {
+    const { status } = await Location.getBackgroundPermissionsAsync();
+    return status === 'granted';
+  },
+
+  async lastKnownPosition() {
+    const position = await Location.getLastKnownPositionAsync();
+    return position ? { latitude: position.coords.latitude, longitude: position.coords.longitude } : null;
+  },
+};
+
+async function presentNotification(content: ReminderNotificationContent, options: NotificationOptions): Promise<void> {
+  await notificationPolicy.present(content, options);
+}
+
+type Transitions = Record<string, 'enter' | 'exit'>;
+
+export interface GeofenceManagerOptions {
+  client?: GeofenceClient;
+  transitions?: { get(): Promise<Transitions>; set(transitions: Transitions): Promise<void> };
+  notify?: (content: ReminderNotificationContent, options: NotificationOptions) => Promise<void>;
+  limit?: number;
+}
+
+/**
+ * Great-circle distance in meters
+ */
+export function distanceMeters(a: Coordinates, b: Coordinates): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * 6371000 * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Regions to monitor for a user's open location reminders. Past the OS limit the
+ * nearest places win, then the tasks due soonest.
+ */
+export function selectRegions(tasks: Task[], origin: Coordinates | null, limit: number): GeofenceRegion[] {
+  const dueTime = (task: Task) => (task.due_date ? new Date(task.due_date).getTime() : Infinity);
+  const distance = (task: Task) =>
+    origin ? Math.max(0, distanceMeters(origin, task.location_reminder!) - task.location_reminder!.radius) : 0;
+
+  return tasks
+    .filter(task => task.location_reminder && !task.completed && !task.deleted_at)
+    .sort((a, b) => distance(a) - distance(b) || dueTime(a) - dueTime(b))
+    .slice(0, limit)
+    .map(task => {
+      const { latitude, longitude, radius, trigger } = task.location_reminder!;
+      return {
+        identifier: task.id,
+        latitude,
+        longitude,
+        radius,
+        notifyOnEnter: trigger === 'enter',
+        notifyOnExit: trigger === 'exit',
+      };
+    });
+}
+
+/**
+ * Keeps one geofence set covering every open location reminder. The OS only
+ * holds one set per background task, so the whole set is rebuilt on each refresh
+ * rather than registering tasks one at a time.
+ */
+export class GeofenceManager {
+  private client: GeofenceClient;
+  private transitions: NonNullable<GeofenceManagerOptions['transitions']>;
+  private notify: (content: ReminderNotificationContent, options: NotificationOptions) => Promise<void>;
+  private limit: number;
+
+  constructor(options: GeofenceManagerOptions = {}) {
+    this.client = options.client || expoGeofenceClient;
+    this.transitions = options.transitions || TypedStorage.geofenceTransitions;
+    this.notify = options.notify || presentNotification;
+    this.limit = options.limit || REGION_LIMIT;
+  }
+
+  /**
+   * Re-register the regions for a user's location reminders. Returns the regions
+   * now monitored.
+   */
+  async refresh(userId: string): Promise<GeofenceRegion[]> {
+    const tasks = await DatabaseService.getTasks(userId, { completed: false });
+    if (!tasks.some(task => task.location_reminder) || !(await this.client.canMonitor())) {
+      await this.client.stop();
+      return [];
+    }
+
+    const regions = selectRegions(tasks, await this.client.lastKnownPosition(), this.limit);
+    await this.client.start(regions);
+
+    const transitions = await this.transitions.get();
+    const monitored = new Set(regions.map(region => region.identifier));
+    await this.transitions.set(
+      Object.fromEntries(Object.entries(transitions).filter(([taskId]) => monitored.has(taskId)))
+    );
+    return regions;
+  }
+
+  /**
+   * Fire the reminder for a region the device entered or left. Registering a
+   * region the device is already in reports it again, so repeats of the last
+   * event for a task are ignored. Returns whether a notification was shown.
+   */
+  async handleEvent(event: 'enter' | 'exit', taskId: string): Promise<boolean> {
+    const task = await DatabaseService.getTask(taskId);
+    const reminder = task?.location_reminder;
+    if (!task) return false;
+
+    const transitions = await this.transitions.get();
+    const repeated = transitions[taskId] === event;
+    await this.transitions.set({ ...transitions, [taskId]: event });
+
+    const fires = !repeated && !!reminder && !task.completed && reminder.trigger === event;
+    if (fires) {
+      const place = reminder!.placeName || 'the place you picked';
+      await this.notify(
+        {
+          title: `Task Reminder: ${task.title}`,
+          body: event === 'enter' ? `You're at ${place}` : `You left ${place}`,
+          data: { taskId: task.id },
+          categoryIdentifier: REMINDER_CATEGORY,
+        },
+        { priority: task.priority }
+      );
+    }
+
+    // The device has moved, so the nearest places may have changed
+    await this.refresh(task.user_id);
+    return fires;
+  }
+}
+
+export const geofenceManager = new GeofenceManager();
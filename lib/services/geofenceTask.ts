@@ -0,0 +1,27 @@
+import * as Location from 'expo-location';
+import * as TaskManager from 'expo-task-manager';
+import { GEOFENCE_TASK, geofenceManager } from './geofenceService';
+
+interface GeofenceEvent {
+  eventType: Location.GeofencingEventType;
+  region: Location.LocationRegion;
+}
+
+/**
+ * Background handler for location reminders. Task definitions must exist before
+ * the OS delivers an event, so this module is imported from the root layout.
+ */
+TaskManager.defineTask<GeofenceEvent>(GEOFENCE_TASK, async ({ data, error }) => {
+  if (error) {
+    console.error('Geofence task error:', error.message);
+    return;
+  }
+  if (!data?.region.identifier) return;
+
+  const event = data.eventType === Location.GeofencingEventType.Enter ? 'enter' : 'exit';
+  try {
+    await geofenceManager.handleEvent(event, data.region.identifier);
+  } catch (err) {
+    console.error('Error handling geofence event:', err);
+  }
+});
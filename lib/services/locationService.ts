@@ -47,6 +47,20 @@ export class LocationService {
       return null;
     }
   }
+
+  /**
+   * Requests "always" location access, which geofenced reminders need to fire
+   * while the app is closed. Returns whether it was granted.
+   */
+  static async requestBackgroundPermission(): Promise<boolean> {
+    try {
+      const { status } = await Location.requestBackgroundPermissionsAsync();
+      return status === 'granted';
+    } catch (e) {
+      console.error('LocationService error:', e);
+      return false;
+    }
+  }
 }
 
 // Usage in UI:
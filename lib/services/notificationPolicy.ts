@@ -0,0 +1,200 @@
+import * as Notifications from 'expo-notifications';
+import { TypedStorage, HeldNotifications } from '../storage';
+import DeviceManagementService, { DevicePreferences, QuietWindow } from './deviceManagementService';
+import { Task } from '../types';
+
+export type NotificationSettings = DevicePreferences['notifications'];
+
+export interface PolicyNotificationContent {
+  title: string;
+  body: string;
+  data: Record<string, any>;
+  categoryIdentifier?: string;
+}
+
+export interface NotificationOptions {
+  priority?: Task['priority'];
+  bypassFocus?: boolean; // a focus session's own break cues; quiet hours still apply
+}
+
+/**
+ * The part of the OS notification API the policy uses; tests pass a fake
+ */
+export interface NotificationClient {
+  schedule(content: PolicyNotificationContent, at: Date | null): Promise<string>; // null: show now
+  cancel(notificationId: string): Promise<void>;
+}
+
+export const expoNotificationClient: NotificationClient = {
+  async schedule(content, at) {
+    return await Notifications.scheduleNotificationAsync({
+      content,
+      trigger: at ? { type: Notifications.SchedulableTriggerInputTypes.DATE, date: at } : null,
+    });
+  },
+
+  async cancel(notificationId) {
+    await Notifications.cancelScheduledNotificationAsync(notificationId);
+  },
+};
+
+// Held notifications listed by name in the summary before "and N more"
+const SUMMARY_LIMIT = 4;
+
+function parseTime(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+}
+
+function windowFor(quietHours: NotificationSettings['quietHours'], weekday: number): QuietWindow | null {
+  if (quietHours.weekdays && weekday in quietHours.weekdays) return quietHours.weekdays[weekday] ?? null;
+  return { start: quietHours.start, end: quietHours.end };
+}
+
+/**
+ * End of the quiet-hours window covering `at`, or null outside quiet hours.
+ * A window belongs to the day it starts, so last night's window can still cover
+ * this morning.
+ */
+export function getQuietWindowEnd(quietHours: NotificationSettings['quietHours'], at: Date): Date | null {
+  if (!quietHours.enabled) return null;
+
+  for (const offset of [-1, 0]) {
+    const day = new Date(at);
+    day.setHours(0, 0, 0, 0);
+    day.setDate(day.getDate() + offset);
+
+    const window = windowFor(quietHours, day.getDay());
+    const start = window ? parseTime(window.start) : null;
+    const end = window ? parseTime(window.end) : null;
+    if (start === null || end === null || start === end) continue;
+
+    const startsAt = new Date(day);
+    startsAt.setMinutes(start);
+    const endsAt = new Date(day);
+    endsAt.setMinutes(end);
+    if (end < start) endsAt.setDate(endsAt.getDate() + 1);
+
+    if (at >= startsAt && at < endsAt) return endsAt;
+  }
+  return null;
+}
+
+/**
+ * When notifications due at `at` may go out: the end of a focus session or of
+ * quiet hours, whichever comes last. Null when nothing holds them back.
+ */
+export function getQuietUntil(settings: NotificationSettings, at: Date): Date | null {
+  let until: Date | null = null;
+  let cursor = at;
+  // A focus session can run into quiet hours and the other way round
+  for (let i = 0; i < 3; i++) {
+    const focusEnd = settings.focusUntil ? new Date(settings.focusUntil) : null;
+    const candidates = [
+      focusEnd && focusEnd > cursor ? focusEnd : null,
+      getQuietWindowEnd(settings.quietHours, cursor),
+    ].filter((date): date is Date => !!date);
+    if (candidates.length === 0) break;
+    cursor = new Date(Math.max(...candidates.map(date => date.getTime())));
+    until = cursor;
+  }
+  return until;
+}
+
+async function loadDeviceSettings(): Promise<NotificationSettings> {
+  const service = DeviceManagementService.getInstance();
+  // Background tasks run before the app has loaded the preferences
+  if (!service.getDevicePreferences()) await service.loadDevicePreferences();
+  return service.getNotificationSettings();
+}
+
+export interface NotificationPolicyOptions {
+  client?: NotificationClient;
+  settings?: () => Promise<NotificationSettings>;
+  held?: { get(): Promise<HeldNotifications | null>; set(held: HeldNotifications): Promise<void> };
+  now?: () => Date;
+}
+
+/**
+ * Every notification the app shows goes through here. Notifications falling in
+ * quiet hours or a focus session are deferred to its end: scheduled ones move
+ * individually, keeping their actions, while ones meant to show right away are
+ * held and batched into a single summary. High-priority tasks can be allowed
+ * through.
+ */
+export class NotificationPolicy {
+  private client: NotificationClient;
+  private settings: () => Promise<NotificationSettings>;
+  private held: NonNullable<NotificationPolicyOptions['held']>;
+  private now: () => Date;
+
+  constructor(options: NotificationPolicyOptions = {}) {
+    this.client = options.client || expoNotificationClient;
+    this.settings = options.settings || loadDeviceSettings;
+    this.held = options.held || TypedStorage.heldNotifications;
+    this.now = options.now || (() => new Date());
+  }
+
+  /**
+   * When a notification due at `at` should be delivered, or null when
+   * notifications are turned off
+   */
+  async deliveryTime(at: Date, options: NotificationOptions = {}): Promise<Date | null> {
+    const settings = await this.settings();
+    if (!settings.enabled) return null;
+    if (options.priority === 'high' && settings.quietHours.allowHighPriority) return at;
+    const holding = options.bypassFocus ? { ...settings, focusUntil: undefined } : settings;
+    return getQuietUntil(holding, at) || at;
+  }
+
+  /**
+   * Schedule a notification for `at`, deferred past quiet hours. Returns the
+   * notification id, or null when notifications are off.
+   */
+  async schedule(content: PolicyNotificationContent, at: Date, options: NotificationOptions = {}): Promise<string | null> {
+    const deliverAt = await this.deliveryTime(at, options);
+    if (!deliverAt) return null;
+    return await this.client.schedule(content, deliverAt);
+  }
+
+  async cancel(notificationId: string): Promise<void> {
+    await this.client.cancel(notificationId);
+  }
+
+  /**
+   * Show a notification now, or hold it for the summary sent when quiet hours end
+   */
+  async present(content: PolicyNotificationContent, options: NotificationOptions = {}): Promise<string | null> {
+    const now = this.now();
+    const deliverAt = await this.deliveryTime(now, options);
+    if (!deliverAt) return null;
+    if (deliverAt.getTime() <= now.getTime()) return await this.client.schedule(content, null);
+
+    // A batch whose summary has already gone out is not reused
+    const previous = await this.held.get();
+    const current = previous && new Date(previous.releaseAt) > now ? previous : null;
+    if (current?.summaryId) await this.client.cancel(current.summaryId);
+
+    const items = [...(current?.items || []), content];
+    // A lone held notification goes out as it is, marked so reminder cleanup leaves it alone
+    const summary: PolicyNotificationContent =
+      items.length === 1
+        ? { ...content, data: { ...content.data, held: true } }
+        : {
+            title: `${items.length} notifications during quiet hours`,
+            body: [
+              ...items.slice(0, SUMMARY_LIMIT).map(item => item.title),
+              ...(items.length > SUMMARY_LIMIT ? [`and ${items.length - SUMMARY_LIMIT} more`] : []),
+            ].join('\n'),
+            data: { kind: 'quiet-hours-summary' },
+          };
+    const summaryId = await this.client.schedule(summary, deliverAt);
+    await this.held.set({ releaseAt: deliverAt.toISOString(), summaryId, items });
+    return summaryId;
+  }
+}
+
+export const notificationPolicy = new NotificationPolicy();
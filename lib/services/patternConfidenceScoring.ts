@@ -1,4 +1,3 @@
-import { DatabaseUtils } from '../database';
 import { UserPattern, TemporalPattern } from '../patternDatabase';
 import { Task, Feedback } from '../types';
 
@@ -43,10 +42,20 @@ export class PatternConfidenceScoring {
 
   private userId: string;
   private weights: ConfidenceWeights;
+  private now: () => Date;
 
-  constructor(userId: string, customWeights?: Partial<ConfidenceWeights>) {
+  // `now` is the clock recency is measured against; replays pass the moment being replayed
+  constructor(userId: string, customWeights?: Partial<ConfidenceWeights>, now: () => Date = () => new Date()) {
     this.userId = userId;
     this.weights = { ...PatternConfidenceScoring.DEFAULT_WEIGHTS, ...customWeights };
+    this.now = now;
+  }
+
+  /**
+   * The weight each factor carries in the overall score
+   */
+  getWeights(): ConfidenceWeights {
+    return { ...this.weights };
   }
 
   /**
@@ -189,7 +198,7 @@ export class PatternConfidenceScoring {
    */
   private calculateRecencyFactor(lastOccurrence: string, periodType: string): number {
     const lastDate = new Date(lastOccurrence);
-    const now = new Date();
+    const now = this.now();
     const daysSince = (now.getTime() - lastDate.getTime()) / (1000 * 60 * 60 * 24);
 
     // Define decay periods for different pattern types
@@ -303,7 +312,7 @@ export class PatternConfidenceScoring {
     const recentTasks = tasks.filter(t => {
       if (!t.completed_at) return false;
       const taskDate = new Date(t.completed_at);
-      const cutoff = new Date();
+      const cutoff = this.now();
       cutoff.setDate(cutoff.getDate() - 60); // Last 60 days
       return taskDate > cutoff;
     }).length;
@@ -1,8 +1,28 @@
 import { getDatabase, DatabaseUtils } from '../database';
 import { PatternDatabaseUtils, UserPattern, TemporalPattern } from '../patternDatabase';
-import { SuggestionEngine, SuggestionManager, UserContext } from './suggestionEngine';
 import { FeedbackLearningSystem, initFeedbackLearningTables } from './feedbackLearningSystem';
-import { Task, Suggestion } from '../types';
+import { TypedStorage } from '../storage';
+import {
+  TaskStats,
+  ContextStats,
+  SequenceStats,
+  EMPTY_COMPLETION_STATS,
+  taskStatsKey,
+  addCompletion,
+  contextOf,
+  contextKey,
+  addContextCompletion,
+  sequenceKey,
+  followsWithinGap,
+  addTransition,
+  foldCompletions,
+  patternId,
+  frequencyPattern,
+  temporalPattern,
+  contextualPattern,
+  sequentialPattern,
+} from './patternStatistics';
+import { Task } from '../types';
 
 /**
  * Main Pattern Engine that coordinates all AI pattern recognition components
@@ -24,6 +44,12 @@ export interface OptimalTiming {
   alternativeTimes: Date[];
 }
 
+// Incremental updates drift (a deleted task stays counted, old completions never
+// leave the window), so the patterns are rebuilt from history this often
+const RECOMPUTE_INTERVAL_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 export interface PatternEngineConfig {
   minPatternConfidence: number;
   maxPatternsPerType: number;
@@ -34,8 +60,6 @@ export interface PatternEngineConfig {
 export class PatternEngine {
   private userId: string;
   private config: PatternEngineConfig;
-  private suggestionEngine: SuggestionEngine;
-  private suggestionManager: SuggestionManager;
   private feedbackLearningSystem: FeedbackLearningSystem;
 
   constructor(userId: string, config?: Partial<PatternEngineConfig>) {
@@ -48,8 +72,6 @@ export class PatternEngine {
       ...config
     };
     
-    this.suggestionEngine = new SuggestionEngine(userId);
-    this.suggestionManager = new SuggestionManager(userId);
     this.feedbackLearningSystem = new FeedbackLearningSystem(userId, this.config.learningRate);
   }
 
@@ -72,45 +94,66 @@ export class PatternEngine {
   }
 
   /**
-   * Analyze all task patterns for the user
+   * Rebuild the user's patterns from the tasks completed in the timeframe
+   * (default: the analysis window), replacing whatever incremental updates
+   * have accumulated. Folds the same running statistics as `updatePatterns`,
+   * oldest completion first.
    */
   async analyzeTaskPatterns(timeframe?: { start: Date; end: Date }): Promise<PatternAnalysisResult> {
     try {
-      const tasks = await this.getUserTasks(timeframe);
-      
-      if (tasks.length < 5) {
-        return {
-          temporalPatterns: [],
-          sequentialPatterns: [],
-          contextualPatterns: [],
-          frequencyPatterns: [],
-          totalPatterns: 0,
-          confidence: 0
-        };
+      const tasks = (await this.getUserTasks(timeframe)).reverse();
+      const stats = foldCompletions(EMPTY_COMPLETION_STATS, tasks);
+      // Checklist steps follow each other within their task, however far apart
+      for (const steps of await this.getChecklistSteps(timeframe)) {
+        steps.slice(1).forEach((step, i) => {
+          const key = sequenceKey(steps[i], step);
+          stats.sequences[key] = addTransition(stats.sequences[key], steps[i], step, new Date(step.completed_at!));
+        });
+      }
+
+      for (const type of ['temporal', 'frequency', 'contextual', 'sequential']) {
+        await PatternDatabaseUtils.deletePatternsWithPrefix(this.userId, this.patternId(type, ''));
       }
 
-      // Analyze different pattern types
-      const temporalPatterns = await this.analyzeTemporalPatterns(tasks);
-      const sequentialPatterns = await this.analyzeSequentialPatterns(tasks);
-      const contextualPatterns = await this.analyzeContextualPatterns(tasks);
-      const frequencyPatterns = await this.analyzeFrequencyPatterns(tasks);
+      const temporalPatterns: TemporalPattern[] = [];
+      const frequencyPatterns: UserPattern[] = [];
+      for (const taskStats of Object.values(stats.tasks)) {
+        frequencyPatterns.push(await this.saveTaskStats(taskStats));
+        const temporal = await this.saveTiming(taskStats);
+        if (temporal) temporalPatterns.push(temporal);
+      }
+      const contextualPatterns: UserPattern[] = [];
+      for (const contextStats of Object.values(stats.contexts)) contextualPatterns.push(await this.saveContextStats(contextStats));
+      const sequentialPatterns: UserPattern[] = [];
+      for (const sequenceStats of Object.values(stats.sequences)) sequentialPatterns.push(await this.saveSequenceStats(sequenceStats));
+
+      await TypedStorage.patternRecomputes.set(this.userId, new Date().toISOString());
+
+      // Report the patterns confident enough to act on, the strongest first
+      const strongest = <T extends { confidence: number }>(patterns: T[]) =>
+        patterns
+          .filter(p => p.confidence >= this.config.minPatternConfidence)
+          .sort((a, b) => b.confidence - a.confidence)
+          .slice(0, this.config.maxPatternsPerType);
+      const result = {
+        temporalPatterns: strongest(temporalPatterns),
+        sequentialPatterns: strongest(sequentialPatterns),
+        contextualPatterns: strongest(contextualPatterns),
+        frequencyPatterns: strongest(frequencyPatterns),
+      };
 
-      // Calculate overall confidence
       const allPatterns = [
-        ...temporalPatterns,
-        ...sequentialPatterns,
-        ...contextualPatterns,
-        ...frequencyPatterns
+        ...result.temporalPatterns,
+        ...result.sequentialPatterns,
+        ...result.contextualPatterns,
+        ...result.frequencyPatterns
       ];
       
       const averageConfidence = allPatterns.length > 0 ?
         allPatterns.reduce((sum, p) => sum + p.confidence, 0) / allPatterns.length : 0;
 
       return {
-        temporalPatterns,
-        sequentialPatterns,
-        contextualPatterns,
-        frequencyPatterns,
+        ...result,
         totalPatterns: allPatterns.length,
         confidence: averageConfidence
       };
@@ -120,13 +163,6 @@ export class PatternEngine {
     }
   }
 
-  /**
-   * Generate intelligent suggestions based on current context
-   */
-  async generateSuggestions(context: UserContext): Promise<Suggestion[]> {
-    return await this.suggestionEngine.generateSuggestions(context);
-  }
-
   /**
    * Predict optimal timing for a task type
    */
@@ -209,22 +245,26 @@ export class PatternEngine {
   }
 
   /**
-   * Update patterns based on new task completion
+   * Fold a task completion into the user's patterns: when and how often the
+   * task gets done, the task completed just before it, and what gets done in
+   * its context. Each update reads and writes a few rows however long the
+   * history is; every RECOMPUTE_INTERVAL_DAYS the patterns are rebuilt instead.
    */
   async updatePatterns(completedTask: Task): Promise<void> {
     try {
-      // Update temporal patterns
-      await this.updateTemporalPatterns(completedTask);
-      
-      // Update sequential patterns
-      await this.updateSequentialPatterns(completedTask);
-      
-      // Update contextual patterns
-      await this.updateContextualPatterns(completedTask);
-      
-      // Update frequency patterns
-      await this.updateFrequencyPatterns(completedTask);
-      
+      if (await this.recomputeIfDue()) return;
+
+      const completedAt = completedTask.completed_at ? new Date(completedTask.completed_at) : new Date();
+      const task = { ...completedTask, completed_at: completedAt.toISOString() };
+
+      const stats = await this.updateFrequencyPatterns(task, completedAt);
+      await this.updateTemporalPatterns(stats);
+
+      const previous = await this.findPreviousCompletion(task.id, completedAt);
+      if (previous && followsWithinGap(previous, task)) await this.updateSequentialPatterns(task, previous, completedAt);
+
+      await this.updateContextualPatterns(task, completedAt);
+
       // Clean up low confidence patterns
       await this.cleanupPatterns();
       
@@ -233,12 +273,27 @@ export class PatternEngine {
     }
   }
 
+  /**
+   * Learn the order of checklist steps. `precededBy` lists the steps of the
+   * same task completed before this one, oldest first.
+   */
+  async updateChecklistSequence(completedStep: Task, precededBy: Task[]): Promise<void> {
+    try {
+      const previous = precededBy[precededBy.length - 1];
+      if (!previous) return;
+      const completedAt = completedStep.completed_at ? new Date(completedStep.completed_at) : new Date();
+      await this.updateSequentialPatterns(completedStep, previous, completedAt);
+    } catch (error) {
+      console.error('Error updating checklist sequence:', error);
+    }
+  }
+
   /**
    * Get user tasks within timeframe
    */
   private async getUserTasks(timeframe?: { start: Date; end: Date }): Promise<Task[]> {
     const db = await getDatabase();
-    let query = 'SELECT * FROM tasks WHERE user_id = ? AND completed = 1';
+    let query = 'SELECT * FROM tasks WHERE user_id = ? AND completed = 1 AND deleted_at IS NULL';
     const params: any[] = [this.userId];
     
     if (timeframe) {
@@ -248,11 +303,8 @@ export class PatternEngine {
         DatabaseUtils.formatDate(timeframe.end)
       );
     } else {
-      // Default to last 90 days
-      const cutoffDate = new Date();
-      cutoffDate.setDate(cutoffDate.getDate() - this.config.analysisWindowDays);
       query += ' AND completed_at > ?';
-      params.push(DatabaseUtils.formatDate(cutoffDate));
+      params.push(DatabaseUtils.formatDate(this.windowStart()));
     }
     
     query += ' ORDER BY completed_at DESC';
@@ -265,353 +317,147 @@ export class PatternEngine {
   }
 
   /**
-   * Analyze temporal patterns in task completion
+   * Completed checklist steps within timeframe, grouped by task and in the
+   * order they were ticked off. Each step carries its task's fields under its
+   * own id, title and completion time.
    */
-  private async analyzeTemporalPatterns(tasks: Task[]): Promise<TemporalPattern[]> {
-    const patterns: TemporalPattern[] = [];
-    const taskGroups = this.groupTasksByTitleAndCategory(tasks);
-    
-    for (const [key, groupTasks] of Object.entries(taskGroups)) {
-      if (groupTasks.length < 3) continue; // Need at least 3 occurrences
-      
-      const [title, category] = key.split('|');
-      const timeAnalysis = this.analyzeTaskTiming(groupTasks);
-      
-      if (timeAnalysis.confidence >= this.config.minPatternConfidence) {
-        const pattern: TemporalPattern = {
-          id: DatabaseUtils.generateId(),
-          user_id: this.userId,
-          task_title: title,
-          task_category: category,
-          time_of_day: timeAnalysis.preferredHour,
-          day_of_week: timeAnalysis.preferredDay,
-          day_of_month: timeAnalysis.preferredDayOfMonth,
-          month: timeAnalysis.preferredMonth,
-          frequency: groupTasks.length,
-          period_type: this.determinePeriodType(groupTasks),
-          confidence: timeAnalysis.confidence,
-          last_occurrence: groupTasks[0].completed_at!,
-          next_predicted: this.predictNextOccurrence(groupTasks, timeAnalysis),
-          created_at: DatabaseUtils.formatDate(new Date()),
-          updated_at: DatabaseUtils.formatDate(new Date())
-        };
-        
-        patterns.push(pattern);
-        
-        // Save to database
-        await PatternDatabaseUtils.upsertTemporalPattern(pattern);
-      }
+  private async getChecklistSteps(timeframe?: { start: Date; end: Date }): Promise<Task[][]> {
+    const db = await getDatabase();
+    let query = `
+      SELECT t.*, s.id AS step_id, s.title AS step_title, s.completed_at AS step_completed_at
+      FROM subtasks s JOIN tasks t ON t.id = s.task_id
+      WHERE s.user_id = ? AND s.completed = 1 AND s.completed_at IS NOT NULL
+        AND s.deleted_at IS NULL AND t.deleted_at IS NULL`;
+    const params: any[] = [this.userId];
+
+    if (timeframe) {
+      query += ' AND s.completed_at BETWEEN ? AND ?';
+      params.push(DatabaseUtils.formatDate(timeframe.start), DatabaseUtils.formatDate(timeframe.end));
+    } else {
+      query += ' AND s.completed_at > ?';
+      params.push(DatabaseUtils.formatDate(this.windowStart()));
     }
-    
-    return patterns;
-  }
+    query += ' ORDER BY s.task_id, s.completed_at';
 
-  /**
-   * Analyze sequential patterns in task completion
-   */
-  private async analyzeSequentialPatterns(tasks: Task[]): Promise<UserPattern[]> {
-    const patterns: UserPattern[] = [];
-    const sequences = this.findTaskSequences(tasks);
-    
-    for (const sequence of sequences) {
-      if (sequence.occurrences < 3) continue;
-      
-      const pattern: UserPattern = {
-        id: DatabaseUtils.generateId(),
-        user_id: this.userId,
-        pattern_type: 'sequential',
-        pattern_data: {
-          sequence: sequence.tasks,
-          category: sequence.category,
-          averageInterval: sequence.averageInterval,
-          occurrences: sequence.occurrences
-        },
-        confidence: this.calculateSequenceConfidence(sequence),
-        frequency: sequence.occurrences,
-        last_occurrence: sequence.lastOccurrence,
-        next_predicted: sequence.nextPredicted,
-        created_at: DatabaseUtils.formatDate(new Date()),
-        updated_at: DatabaseUtils.formatDate(new Date())
-      };
-      
-      patterns.push(pattern);
-      
-      // Save to database
-      await PatternDatabaseUtils.upsertUserPattern(pattern);
+    const rows = await db.getAllAsync<any>(query, params);
+    const groups: Record<string, Task[]> = {};
+    for (const { step_id, step_title, step_completed_at, ...row } of rows) {
+      (groups[row.id] = groups[row.id] || []).push({
+        ...row,
+        id: step_id,
+        title: step_title,
+        completed: true,
+        completed_at: step_completed_at,
+        tags: DatabaseUtils.deserializeJSON(row.tags) || [],
+      });
     }
-    
-    return patterns;
+    return Object.values(groups);
   }
 
   /**
-   * Analyze contextual patterns in task completion
+   * The user's most recent top-level completion before this one
    */
-  private async analyzeContextualPatterns(tasks: Task[]): Promise<UserPattern[]> {
-    const patterns: UserPattern[] = [];
-    
-    // Group tasks by context (time of day, day of week, etc.)
-    const contextGroups = this.groupTasksByContext(tasks);
-    
-    for (const [contextKey, contextTasks] of Object.entries(contextGroups)) {
-      if (contextTasks.length < 5) continue;
-      
-      const contextData = this.parseContextKey(contextKey);
-      const confidence = this.calculateContextConfidence(contextTasks, tasks.length);
-      
-      if (confidence >= this.config.minPatternConfidence) {
-        const pattern: UserPattern = {
-          id: DatabaseUtils.generateId(),
-          user_id: this.userId,
-          pattern_type: 'contextual',
-          pattern_data: {
-            context: contextData,
-            taskCount: contextTasks.length,
-            categories: this.getUniqueCategories(contextTasks),
-            averageCompletionTime: this.calculateAverageCompletionTime(contextTasks)
-          },
-          confidence,
-          frequency: contextTasks.length,
-          last_occurrence: contextTasks[0].completed_at!,
-          created_at: DatabaseUtils.formatDate(new Date()),
-          updated_at: DatabaseUtils.formatDate(new Date())
-        };
-        
-        patterns.push(pattern);
-        
-        // Save to database
-        await PatternDatabaseUtils.upsertUserPattern(pattern);
-      }
-    }
-    
-    return patterns;
+  private async findPreviousCompletion(taskId: string, completedAt: Date): Promise<Task | null> {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync<any>(
+      `SELECT * FROM tasks
+       WHERE user_id = ? AND completed = 1 AND deleted_at IS NULL AND id != ? AND completed_at <= ?
+       ORDER BY completed_at DESC LIMIT 1`,
+      [this.userId, taskId, DatabaseUtils.formatDate(completedAt)]
+    );
+    return row ? { ...row, tags: DatabaseUtils.deserializeJSON(row.tags) || [] } : null;
   }
 
   /**
-   * Analyze frequency patterns in task completion
+   * Rebuild the patterns when the last rebuild is older than
+   * RECOMPUTE_INTERVAL_DAYS, or has never happened. True when it ran.
    */
-  private async analyzeFrequencyPatterns(tasks: Task[]): Promise<UserPattern[]> {
-    const patterns: UserPattern[] = [];
-    const taskGroups = this.groupTasksByTitleAndCategory(tasks);
-    
-    for (const [key, groupTasks] of Object.entries(taskGroups)) {
-      if (groupTasks.length < 3) continue;
-      
-      const [title, category] = key.split('|');
-      const frequencyAnalysis = this.analyzeTaskFrequency(groupTasks);
-      
-      if (frequencyAnalysis.confidence >= this.config.minPatternConfidence) {
-        const pattern: UserPattern = {
-          id: DatabaseUtils.generateId(),
-          user_id: this.userId,
-          pattern_type: 'frequency',
-          pattern_data: {
-            taskTitle: title,
-            category,
-            intervalDays: frequencyAnalysis.averageInterval,
-            regularityScore: frequencyAnalysis.regularityScore,
-            occurrences: groupTasks.length
-          },
-          confidence: frequencyAnalysis.confidence,
-          frequency: groupTasks.length,
-          last_occurrence: groupTasks[0].completed_at!,
-          next_predicted: frequencyAnalysis.nextPredicted,
-          created_at: DatabaseUtils.formatDate(new Date()),
-          updated_at: DatabaseUtils.formatDate(new Date())
-        };
-        
-        patterns.push(pattern);
-        
-        // Save to database
-        await PatternDatabaseUtils.upsertUserPattern(pattern);
-      }
-    }
-    
-    return patterns;
-  }
-
-  // Helper methods for pattern analysis
-  private groupTasksByTitleAndCategory(tasks: Task[]): Record<string, Task[]> {
-    const groups: Record<string, Task[]> = {};
-    
-    for (const task of tasks) {
-      const key = `${task.title}|${task.category}`;
-      if (!groups[key]) {
-        groups[key] = [];
-      }
-      groups[key].push(task);
-    }
-    
-    return groups;
+  private async recomputeIfDue(): Promise<boolean> {
+    const last = await TypedStorage.patternRecomputes.get(this.userId);
+    if (last && Date.now() - new Date(last).getTime() < RECOMPUTE_INTERVAL_DAYS * DAY_MS) return false;
+    await this.analyzeTaskPatterns();
+    return true;
   }
 
-  private analyzeTaskTiming(tasks: Task[]): {
-    preferredHour: number;
-    preferredDay: number;
-    preferredDayOfMonth?: number;
-    preferredMonth?: number;
-    confidence: number;
-  } {
-    const hours: number[] = [];
-    const days: number[] = [];
-    const daysOfMonth: number[] = [];
-    const months: number[] = [];
-    
-    for (const task of tasks) {
-      const completedAt = new Date(task.completed_at!);
-      hours.push(completedAt.getHours());
-      days.push(completedAt.getDay());
-      daysOfMonth.push(completedAt.getDate());
-      months.push(completedAt.getMonth() + 1);
-    }
-    
-    return {
-      preferredHour: this.findMostCommon(hours),
-      preferredDay: this.findMostCommon(days),
-      preferredDayOfMonth: this.findMostCommon(daysOfMonth),
-      preferredMonth: this.findMostCommon(months),
-      confidence: this.calculateTimingConfidence(hours, days)
-    };
+  private windowStart(): Date {
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - this.config.analysisWindowDays);
+    return cutoffDate;
   }
 
-  private findMostCommon(numbers: number[]): number {
-    const counts: Record<number, number> = {};
-    
-    for (const num of numbers) {
-      counts[num] = (counts[num] || 0) + 1;
-    }
-    
-    return Object.entries(counts)
-      .reduce((a, b) => counts[parseInt(a[0])] > counts[parseInt(b[0])] ? a : b)[0]
-      .toString()
-      .split('')
-      .map(Number)[0] || 0;
+  private patternId(type: string, key: string): string {
+    return patternId(type, this.userId, key);
   }
 
-  private calculateTimingConfidence(hours: number[], days: number[]): number {
-    const hourVariance = this.calculateVariance(hours);
-    const dayVariance = this.calculateVariance(days);
-    
-    // Lower variance = higher confidence
-    const hourConfidence = Math.max(0, 1 - (hourVariance / 144)); // 12^2 max variance for hours
-    const dayConfidence = Math.max(0, 1 - (dayVariance / 9)); // 3^2 max variance for days
-    
-    return (hourConfidence + dayConfidence) / 2;
+  private async updateFrequencyPatterns(task: Task, completedAt: Date): Promise<TaskStats> {
+    const existing = await PatternDatabaseUtils.getUserPattern(this.patternId('frequency', taskStatsKey(task)));
+    const stats = addCompletion(existing?.pattern_data.stats, task, completedAt);
+    await this.saveTaskStats(stats);
+    return stats;
   }
 
-  private calculateVariance(numbers: number[]): number {
-    if (numbers.length === 0) return 0;
-    
-    const mean = numbers.reduce((sum, num) => sum + num, 0) / numbers.length;
-    const squaredDiffs = numbers.map(num => Math.pow(num - mean, 2));
-    return squaredDiffs.reduce((sum, diff) => sum + diff, 0) / numbers.length;
+  private async updateTemporalPatterns(stats: TaskStats): Promise<void> {
+    await this.saveTiming(stats);
   }
 
-  private determinePeriodType(tasks: Task[]): 'daily' | 'weekly' | 'monthly' {
-    if (tasks.length < 2) return 'weekly';
-    
-    const intervals = [];
-    for (let i = 1; i < tasks.length; i++) {
-      const current = new Date(tasks[i].completed_at!);
-      const previous = new Date(tasks[i - 1].completed_at!);
-      const daysDiff = (previous.getTime() - current.getTime()) / (1000 * 60 * 60 * 24);
-      intervals.push(daysDiff);
-    }
-    
-    const averageInterval = intervals.reduce((sum, interval) => sum + interval, 0) / intervals.length;
-    
-    if (averageInterval <= 2) return 'daily';
-    if (averageInterval <= 10) return 'weekly';
-    return 'monthly';
-  }
-
-  private predictNextOccurrence(tasks: Task[], timeAnalysis: any): string {
-    const lastTask = tasks[0];
-    const lastDate = new Date(lastTask.completed_at!);
-    const periodType = this.determinePeriodType(tasks);
-    
-    const nextDate = new Date(lastDate);
-    
-    switch (periodType) {
-      case 'daily':
-        nextDate.setDate(nextDate.getDate() + 1);
-        break;
-      case 'weekly':
-        nextDate.setDate(nextDate.getDate() + 7);
-        break;
-      case 'monthly':
-        nextDate.setMonth(nextDate.getMonth() + 1);
-        break;
-    }
-    
-    nextDate.setHours(timeAnalysis.preferredHour, 0, 0, 0);
-    return DatabaseUtils.formatDate(nextDate);
-  }
-
-  // Additional helper methods would continue here...
-  private findTaskSequences(tasks: Task[]): any[] {
-    // Implementation for finding task sequences
-    return [];
-  }
-
-  private calculateSequenceConfidence(sequence: any): number {
-    // Implementation for calculating sequence confidence
-    return 0.5;
-  }
-
-  private groupTasksByContext(tasks: Task[]): Record<string, Task[]> {
-    // Implementation for grouping tasks by context
-    return {};
-  }
-
-  private parseContextKey(contextKey: string): any {
-    // Implementation for parsing context key
-    return {};
-  }
-
-  private calculateContextConfidence(contextTasks: Task[], totalTasks: number): number {
-    // Implementation for calculating context confidence
-    return contextTasks.length / totalTasks;
-  }
-
-  private getUniqueCategories(tasks: Task[]): string[] {
-    return [...new Set(tasks.map(t => t.category))];
-  }
-
-  private calculateAverageCompletionTime(tasks: Task[]): number {
-    // Implementation for calculating average completion time
-    return 0;
+  /**
+   * Count one more occurrence of "previous, then task". Pairs are keyed by title so
+   * repeated checklists accumulate into the same pattern.
+   */
+  private async updateSequentialPatterns(task: Task, previous: Task, completedAt: Date): Promise<void> {
+    const existing = await PatternDatabaseUtils.getUserPattern(this.patternId('sequential', sequenceKey(previous, task)));
+    await this.saveSequenceStats(addTransition(existing?.pattern_data as SequenceStats | undefined, previous, task, completedAt));
   }
 
-  private analyzeTaskFrequency(tasks: Task[]): any {
-    // Implementation for analyzing task frequency
-    return {
-      averageInterval: 7,
-      regularityScore: 0.8,
-      confidence: 0.7,
-      nextPredicted: DatabaseUtils.formatDate(new Date())
-    };
+  private async updateContextualPatterns(task: Task, completedAt: Date): Promise<void> {
+    const existing = await PatternDatabaseUtils.getUserPattern(this.patternId('contextual', contextKey(contextOf(completedAt))));
+    await this.saveContextStats(addContextCompletion(existing?.pattern_data.stats, task, completedAt));
   }
 
-  private async updateTemporalPatterns(task: Task): Promise<void> {
-    // Implementation for updating temporal patterns
+  /**
+   * Store a task's statistics as its frequency pattern
+   */
+  private async saveTaskStats(stats: TaskStats): Promise<UserPattern> {
+    const pattern = frequencyPattern(this.userId, stats, new Date());
+    await PatternDatabaseUtils.upsertUserPattern(pattern);
+    return pattern;
   }
 
-  private async updateSequentialPatterns(task: Task): Promise<void> {
-    // Implementation for updating sequential patterns
+  /**
+   * Publish a task's usual timing once it has enough occurrences and clusters
+   * tightly enough, and withdraw it when it no longer does
+   */
+  private async saveTiming(stats: TaskStats): Promise<TemporalPattern | null> {
+    const pattern = temporalPattern(this.userId, stats, new Date(), this.config.minPatternConfidence);
+    if (!pattern) {
+      await PatternDatabaseUtils.deleteTemporalPattern(this.patternId('temporal', taskStatsKey({ title: stats.taskTitle, category: stats.category })));
+      return null;
+    }
+    await PatternDatabaseUtils.upsertTemporalPattern(pattern);
+    return pattern;
   }
 
-  private async updateContextualPatterns(task: Task): Promise<void> {
-    // Implementation for updating contextual patterns
+  private async saveContextStats(stats: ContextStats): Promise<UserPattern> {
+    const pattern = contextualPattern(this.userId, stats, new Date());
+    await PatternDatabaseUtils.upsertUserPattern(pattern);
+    return pattern;
   }
 
-  private async updateFrequencyPatterns(task: Task): Promise<void> {
-    // Implementation for updating frequency patterns
+  private async saveSequenceStats(stats: SequenceStats): Promise<UserPattern> {
+    const pattern = sequentialPattern(this.userId, stats, new Date());
+    await PatternDatabaseUtils.upsertUserPattern(pattern);
+    return pattern;
   }
 
+  /**
+   * Drop weak patterns that have gone quiet; weak ones seen within the
+   * analysis window are still building up
+   */
   private async cleanupPatterns(): Promise<void> {
     await PatternDatabaseUtils.cleanupLowConfidencePatterns(
       this.userId, 
-      this.config.minPatternConfidence
+      this.config.minPatternConfidence,
+      this.windowStart()
     );
   }
 
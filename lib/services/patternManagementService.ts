@@ -0,0 +1,210 @@
+import { getDatabase } from '../database';
+import {
+  PatternDatabaseUtils,
+  UserPattern,
+  TemporalPattern,
+  PatternTable,
+  PatternOverride,
+  PatternCorrection,
+  applyPatternCorrection,
+} from '../patternDatabase';
+import { TaskPattern } from '../types';
+import { DatabaseService } from './databaseService';
+import { syncService } from './syncService';
+import FeedbackLearningService from './feedbackLearningService';
+
+/**
+ * Pattern Management Service
+ * Lets users review what has been learned about them and pin, correct or forget it
+ */
+
+/**
+ * One learned pattern, whichever table it lives in, as the user sees it
+ */
+export interface ManagedPattern {
+  id: string;
+  table: PatternTable;
+  type: string; // temporal, sequential, contextual, frequency, or a task_patterns type
+  title: string;
+  detail: string; // what was learned, e.g. "Mondays around 9:00 AM"
+  category?: string;
+  confidence: number; // 0-1
+  frequency: number;
+  lastOccurrence?: string;
+  nextPredicted?: string;
+  pinned: boolean;
+  corrected: boolean;
+}
+
+export interface PatternSources {
+  userPatterns: UserPattern[];
+  temporalPatterns: TemporalPattern[];
+  taskPatterns: TaskPattern[];
+}
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+function formatHour(hour: number): string {
+  const period = hour >= 12 ? 'PM' : 'AM';
+  const displayHour = hour === 0 ? 12 : hour > 12 ? hour - 12 : hour;
+  return `${displayHour}:00 ${period}`;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function temporalDetail(pattern: TemporalPattern): string {
+  if (pattern.period_type === 'daily') return `Daily around ${formatHour(pattern.time_of_day)}`;
+  if (pattern.period_type === 'monthly' && pattern.day_of_month) {
+    return `Monthly on day ${pattern.day_of_month} around ${formatHour(pattern.time_of_day)}`;
+  }
+  return `${DAY_NAMES[pattern.day_of_week]}s around ${formatHour(pattern.time_of_day)}`;
+}
+
+/**
+ * The name a user pattern goes by: its task, its steps in order, or its category
+ */
+export function userPatternTitle(pattern: UserPattern): string {
+  const data = pattern.pattern_data || {};
+  return data.taskTitle || data.sequence?.join(' → ') || `${data.category || 'General'} tasks`;
+}
+
+function userPatternDetail(pattern: UserPattern): string {
+  const data = pattern.pattern_data || {};
+  switch (pattern.pattern_type) {
+    case 'sequential':
+      return `Done one after the other${data.category ? ` (${data.category})` : ''}`;
+    case 'contextual':
+      return data.context
+        ? `${capitalize(data.context.dayType)} ${data.context.timeSlot}s: mostly ${data.category || 'General'}`
+        : `Usually ${data.category || 'General'}`;
+    case 'frequency':
+      return data.intervalDays ? `About every ${Math.round(data.intervalDays * 10) / 10} days` : 'Not regular yet';
+    default:
+      return data.category || 'General';
+  }
+}
+
+/**
+ * Every pattern in one list, pinned ones first, then the most confident.
+ * Forgotten patterns that are still stored (e.g. in task_patterns) are left out.
+ */
+export function describePatterns(sources: PatternSources, overrides: PatternOverride[]): ManagedPattern[] {
+  const overrideById = new Map(overrides.map(override => [override.id, override]));
+  const flags = (id: string) => {
+    const override = overrideById.get(id);
+    return {
+      pinned: !!override?.pinned,
+      corrected: Object.keys(override?.corrections || {}).length > 0,
+    };
+  };
+
+  const patterns: ManagedPattern[] = [
+    ...sources.temporalPatterns.map(pattern => ({
+      id: pattern.id,
+      table: 'temporal_patterns' as const,
+      type: 'temporal',
+      title: pattern.task_title,
+      detail: temporalDetail(pattern),
+      category: pattern.task_category,
+      confidence: pattern.confidence,
+      frequency: pattern.frequency,
+      lastOccurrence: pattern.last_occurrence,
+      nextPredicted: pattern.next_predicted || undefined,
+      ...flags(pattern.id),
+    })),
+    ...sources.userPatterns.map(pattern => ({
+      id: pattern.id,
+      table: 'user_patterns' as const,
+      type: pattern.pattern_type,
+      title: userPatternTitle(pattern),
+      detail: userPatternDetail(pattern),
+      category: pattern.pattern_data?.category,
+      confidence: pattern.confidence,
+      frequency: pattern.frequency,
+      lastOccurrence: pattern.last_occurrence || undefined,
+      nextPredicted: pattern.next_predicted || undefined,
+      ...flags(pattern.id),
+    })),
+    ...sources.taskPatterns.map(pattern => ({
+      id: pattern.id,
+      table: 'task_patterns' as const,
+      type: pattern.pattern_type,
+      title: pattern.pattern_data?.taskTitle || pattern.pattern_data?.title || `${capitalize(pattern.pattern_type)} pattern`,
+      detail: pattern.pattern_data?.category || 'General',
+      category: pattern.pattern_data?.category,
+      confidence: pattern.confidence / 100, // stored as 0-100
+      frequency: pattern.pattern_data?.frequency || 0,
+      lastOccurrence: pattern.last_updated,
+      nextPredicted: undefined,
+      ...flags(pattern.id),
+    })),
+  ];
+
+  return patterns
+    .filter(pattern => !overrideById.get(pattern.id)?.forgotten)
+    .sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.confidence - a.confidence);
+}
+
+export class PatternManagementService {
+  /**
+   * Every learned pattern for a user
+   */
+  async listPatterns(userId: string): Promise<ManagedPattern[]> {
+    const [userPatterns, temporalPatterns, taskPatterns, overrides] = await Promise.all([
+      PatternDatabaseUtils.getUserPatterns(userId),
+      PatternDatabaseUtils.getTemporalPatterns(userId),
+      DatabaseService.getTaskPatterns(userId),
+      PatternDatabaseUtils.getPatternOverrides(userId),
+    ]);
+    return describePatterns({ userPatterns, temporalPatterns, taskPatterns }, overrides);
+  }
+
+  /**
+   * Pin a pattern so its confidence never drops and rebuilds and cleanup
+   * leave it alone, or unpin it
+   */
+  async setPinned(userId: string, patternId: string, pinned: boolean): Promise<void> {
+    await PatternDatabaseUtils.savePatternOverride(userId, patternId, { pinned });
+  }
+
+  /**
+   * Move a temporal pattern to the day and hour the user says it happens.
+   * The correction sticks through rebuilds and counts as strong feedback.
+   */
+  async correctPattern(userId: string, patternId: string, correction: PatternCorrection): Promise<TemporalPattern | null> {
+    const pattern = await PatternDatabaseUtils.getTemporalPattern(patternId);
+    if (!pattern) return null;
+
+    const corrected = applyPatternCorrection(pattern, correction);
+    if (corrected === pattern) return pattern;
+
+    await PatternDatabaseUtils.savePatternOverride(userId, patternId, { corrections: correction });
+    const confidence = await FeedbackLearningService.getInstance().collectPatternCorrection(userId, pattern, corrected);
+    await PatternDatabaseUtils.upsertTemporalPattern({ ...corrected, confidence });
+    return await PatternDatabaseUtils.getTemporalPattern(patternId);
+  }
+
+  /**
+   * Delete a pattern for good: it is never learned again and the pending
+   * suggestions drawn from it are dismissed
+   */
+  async forgetPattern(userId: string, patternId: string, table: PatternTable): Promise<void> {
+    await PatternDatabaseUtils.savePatternOverride(userId, patternId, { forgotten: true, pinned: false });
+    await PatternDatabaseUtils.deletePattern(table, patternId);
+
+    const db = await getDatabase();
+    const drawnFrom = await db.getAllAsync<{ id: string }>(
+      `SELECT id FROM suggestions
+       WHERE user_id = ? AND status = 'pending' AND deleted_at IS NULL AND instr(explanation, ?) > 0`,
+      [userId, `"patternId":${JSON.stringify(patternId)}`]
+    );
+    for (const suggestion of drawnFrom) {
+      await syncService.updateSuggestionStatus(suggestion.id, 'dismissed');
+    }
+  }
+}
+
+// Export singleton instance
+export const patternManagementService = new PatternManagementService();
@@ -0,0 +1,471 @@
+import { Task } from '../types';
+import { UserPattern, TemporalPattern } from '../patternDatabase';
+
+/**
+ * The running statistics behind the pattern engine. Each completion folds into
+ * fixed-size state (counts, time histograms, running means), so updating a
+ * pattern costs the same after a year of history as after a week. A full
+ * recompute folds the same functions over the history, oldest first.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Completions further apart than this are not treated as one following the other
+export const SEQUENCE_GAP_MS = 2 * 60 * 60 * 1000;
+// Completions of the same task needed before its timing is published
+export const MIN_TEMPORAL_OCCURRENCES = 3;
+// Completions in a context needed before its category mix is trusted fully
+const CONTEXT_FULL_CONFIDENCE_TASKS = 10;
+// Intervals needed before a task's rhythm is trusted fully
+const FREQUENCY_FULL_CONFIDENCE_INTERVALS = 4;
+// Titles tallied per context; past this the rarest makes way for a new one
+const MAX_CONTEXT_TITLES = 20;
+
+/**
+ * Count, mean and sum of squared deviations (Welford), updated one sample at a time
+ */
+export interface RunningStats {
+  count: number;
+  mean: number;
+  m2: number;
+}
+
+export const EMPTY_RUNNING_STATS: RunningStats = { count: 0, mean: 0, m2: 0 };
+
+export function addSample(stats: RunningStats, value: number): RunningStats {
+  const count = stats.count + 1;
+  const delta = value - stats.mean;
+  const mean = stats.mean + delta / count;
+  return { count, mean, m2: stats.m2 + delta * (value - mean) };
+}
+
+export function standardDeviation(stats: RunningStats): number {
+  return stats.count > 1 ? Math.sqrt(stats.m2 / stats.count) : 0;
+}
+
+const histogram = (size: number) => new Array<number>(size).fill(0);
+
+const bump = (counts: number[], index: number) => counts.map((count, i) => (i === index ? count + 1 : count));
+
+// Index of the largest bucket, the earliest on ties
+const mode = (counts: number[]) => counts.reduce((best, count, i) => (count > counts[best] ? i : best), 0);
+
+function histogramVariance(counts: number[]): number {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total === 0) return 0;
+  const mean = counts.reduce((sum, count, i) => sum + count * i, 0) / total;
+  return counts.reduce((sum, count, i) => sum + count * (i - mean) ** 2, 0) / total;
+}
+
+const normalize = (title: string) => title.trim().toLowerCase();
+
+/**
+ * When and how often one task (by title and category) gets done
+ */
+export interface TaskStats {
+  taskTitle: string;
+  category: string;
+  occurrences: number;
+  hours: number[]; // completions per hour of day, 0-23
+  weekdays: number[]; // completions per day of week, Sunday first
+  daysOfMonth: number[]; // completions per day of month, 1st first
+  months: number[]; // completions per month, January first
+  intervalDays: RunningStats; // days between consecutive completions
+  lastOccurrence: string; // ISO date string
+}
+
+export function taskStatsKey(task: Pick<Task, 'title' | 'category'>): string {
+  return `${normalize(task.title)}|${task.category}`;
+}
+
+export function addCompletion(stats: TaskStats | undefined, task: Task, completedAt: Date): TaskStats {
+  const current: TaskStats = stats || {
+    taskTitle: task.title,
+    category: task.category,
+    occurrences: 0,
+    hours: histogram(24),
+    weekdays: histogram(7),
+    daysOfMonth: histogram(31),
+    months: histogram(12),
+    intervalDays: EMPTY_RUNNING_STATS,
+    lastOccurrence: completedAt.toISOString(),
+  };
+
+  const last = stats ? new Date(stats.lastOccurrence) : null;
+  // A completion logged out of order adds to the histograms but not to the rhythm
+  const later = !last || completedAt > last;
+  return {
+    ...current,
+    taskTitle: task.title,
+    occurrences: current.occurrences + 1,
+    hours: bump(current.hours, completedAt.getHours()),
+    weekdays: bump(current.weekdays, completedAt.getDay()),
+    daysOfMonth: bump(current.daysOfMonth, completedAt.getDate() - 1),
+    months: bump(current.months, completedAt.getMonth()),
+    intervalDays:
+      last && later ? addSample(current.intervalDays, (completedAt.getTime() - last.getTime()) / DAY_MS) : current.intervalDays,
+    lastOccurrence: later ? completedAt.toISOString() : current.lastOccurrence,
+  };
+}
+
+export interface TimingSummary {
+  preferredHour: number;
+  preferredDay: number;
+  preferredDayOfMonth: number;
+  preferredMonth: number; // 1-12
+  periodType: 'daily' | 'weekly' | 'monthly';
+  confidence: number;
+  nextPredicted: Date;
+}
+
+/**
+ * The usual time for a task: the busiest buckets, with confidence from how
+ * tightly completions cluster around them
+ */
+export function summarizeTiming(stats: TaskStats): TimingSummary {
+  const preferredHour = mode(stats.hours);
+  const hourConfidence = Math.max(0, 1 - histogramVariance(stats.hours) / 144); // 12^2 max variance for hours
+  const dayConfidence = Math.max(0, 1 - histogramVariance(stats.weekdays) / 9); // 3^2 max variance for days
+
+  const interval = stats.intervalDays.mean;
+  const periodType = stats.intervalDays.count === 0 ? 'weekly' : interval <= 2 ? 'daily' : interval <= 10 ? 'weekly' : 'monthly';
+
+  const nextPredicted = new Date(stats.lastOccurrence);
+  if (periodType === 'daily') nextPredicted.setDate(nextPredicted.getDate() + 1);
+  else if (periodType === 'weekly') nextPredicted.setDate(nextPredicted.getDate() + 7);
+  else nextPredicted.setMonth(nextPredicted.getMonth() + 1);
+  nextPredicted.setHours(preferredHour, 0, 0, 0);
+
+  return {
+    preferredHour,
+    preferredDay: mode(stats.weekdays),
+    preferredDayOfMonth: mode(stats.daysOfMonth) + 1,
+    preferredMonth: mode(stats.months) + 1,
+    periodType,
+    confidence: (hourConfidence + dayConfidence) / 2,
+    nextPredicted,
+  };
+}
+
+export interface FrequencySummary {
+  intervalDays: number;
+  regularityScore: number; // 1 when every interval is the same length
+  confidence: number;
+  nextPredicted?: Date;
+}
+
+/**
+ * How regularly a task comes back, from the spread of its intervals
+ */
+export function summarizeFrequency(stats: TaskStats): FrequencySummary {
+  const { intervalDays } = stats;
+  if (intervalDays.count === 0 || intervalDays.mean <= 0) {
+    return { intervalDays: 0, regularityScore: 0, confidence: 0 };
+  }
+
+  const regularityScore = Math.max(0, 1 - standardDeviation(intervalDays) / intervalDays.mean);
+  return {
+    intervalDays: Math.round(intervalDays.mean * 10) / 10,
+    regularityScore,
+    confidence: regularityScore * Math.min(1, intervalDays.count / FREQUENCY_FULL_CONFIDENCE_INTERVALS),
+    nextPredicted: new Date(new Date(stats.lastOccurrence).getTime() + intervalDays.mean * DAY_MS),
+  };
+}
+
+export type TimeSlot = 'night' | 'morning' | 'afternoon' | 'evening';
+
+// Hours each slot covers, inclusive; suggestions match the current hour against them
+export const TIME_SLOT_HOURS: Record<TimeSlot, { start: number; end: number }> = {
+  night: { start: 0, end: 4 },
+  morning: { start: 5, end: 11 },
+  afternoon: { start: 12, end: 16 },
+  evening: { start: 17, end: 23 },
+};
+
+export interface CompletionContext {
+  timeSlot: TimeSlot;
+  dayType: 'weekday' | 'weekend';
+}
+
+export function contextOf(date: Date): CompletionContext {
+  const hour = date.getHours();
+  const timeSlot = (Object.keys(TIME_SLOT_HOURS) as TimeSlot[]).find(
+    slot => hour >= TIME_SLOT_HOURS[slot].start && hour <= TIME_SLOT_HOURS[slot].end
+  )!;
+  const day = date.getDay();
+  return { timeSlot, dayType: day === 0 || day === 6 ? 'weekend' : 'weekday' };
+}
+
+export function contextKey(context: CompletionContext): string {
+  return `${context.timeSlot}|${context.dayType}`;
+}
+
+/**
+ * What gets done in one context, e.g. weekday mornings
+ */
+export interface ContextStats extends CompletionContext {
+  taskCount: number;
+  categories: Record<string, number>; // completions per category
+  titles: Record<string, number>; // completions per task title, the most frequent MAX_CONTEXT_TITLES
+  completionMinutes: RunningStats; // from creation to completion
+  lastOccurrence: string; // ISO date string
+}
+
+function tally(counts: Record<string, number>, key: string, limit: number): Record<string, number> {
+  const next = { ...counts, [key]: (counts[key] || 0) + 1 };
+  const keys = Object.keys(next);
+  if (keys.length > limit) {
+    const rarest = keys.filter(k => k !== key).reduce((a, b) => (next[b] < next[a] ? b : a));
+    delete next[rarest];
+  }
+  return next;
+}
+
+export function addContextCompletion(stats: ContextStats | undefined, task: Task, completedAt: Date): ContextStats {
+  const current: ContextStats = stats || {
+    ...contextOf(completedAt),
+    taskCount: 0,
+    categories: {},
+    titles: {},
+    completionMinutes: EMPTY_RUNNING_STATS,
+    lastOccurrence: completedAt.toISOString(),
+  };
+
+  const minutes = (completedAt.getTime() - new Date(task.created_at).getTime()) / MINUTE_MS;
+  return {
+    ...current,
+    taskCount: current.taskCount + 1,
+    categories: { ...current.categories, [task.category]: (current.categories[task.category] || 0) + 1 },
+    titles: tally(current.titles || {}, task.title, MAX_CONTEXT_TITLES),
+    completionMinutes: minutes > 0 ? addSample(current.completionMinutes, minutes) : current.completionMinutes,
+    lastOccurrence: completedAt > new Date(current.lastOccurrence) ? completedAt.toISOString() : current.lastOccurrence,
+  };
+}
+
+export interface ContextSummary {
+  taskTitle?: string; // the task done most in this context
+  category: string; // the one done most in this context
+  categories: string[]; // most done first
+  averageCompletionTime: number; // minutes
+  confidence: number;
+}
+
+/**
+ * How strongly a context points at one category: its share of the context's
+ * completions, discounted while there are few of them
+ */
+export function summarizeContext(stats: ContextStats): ContextSummary {
+  const categories = Object.keys(stats.categories).sort((a, b) => stats.categories[b] - stats.categories[a]);
+  const share = stats.taskCount > 0 ? (stats.categories[categories[0]] || 0) / stats.taskCount : 0;
+  const titles = Object.keys(stats.titles || {});
+  return {
+    taskTitle: titles.length > 0 ? titles.reduce((a, b) => (stats.titles[b] > stats.titles[a] ? b : a)) : undefined,
+    category: categories[0] || 'General',
+    categories,
+    averageCompletionTime: Math.round(stats.completionMinutes.mean),
+    confidence: share * Math.min(1, stats.taskCount / CONTEXT_FULL_CONFIDENCE_TASKS),
+  };
+}
+
+/**
+ * How often one task follows another
+ */
+export interface SequenceStats {
+  sequence: [string, string];
+  category: string;
+  averageInterval: number; // milliseconds between the two completions
+  occurrences: number;
+  lastOccurrence: string; // ISO date string
+}
+
+export function sequenceKey(previous: Pick<Task, 'title'>, next: Pick<Task, 'title'>): string {
+  return `${normalize(previous.title)}>${normalize(next.title)}`;
+}
+
+/**
+ * Whether `next` was completed soon enough after `previous` to count as following it
+ */
+export function followsWithinGap(previous: Task, next: Task): boolean {
+  if (!previous.completed_at || !next.completed_at || normalize(previous.title) === normalize(next.title)) return false;
+  const gap = new Date(next.completed_at).getTime() - new Date(previous.completed_at).getTime();
+  return gap >= 0 && gap <= SEQUENCE_GAP_MS;
+}
+
+export function addTransition(stats: SequenceStats | undefined, previous: Task, next: Task, completedAt: Date): SequenceStats {
+  const occurrences = (stats?.occurrences || 0) + 1;
+  const intervalMs = Math.max(0, completedAt.getTime() - new Date(previous.completed_at || completedAt).getTime());
+  const previousAverage = stats?.averageInterval ?? intervalMs;
+  return {
+    sequence: [previous.title, next.title],
+    category: next.category,
+    averageInterval: previousAverage + (intervalMs - previousAverage) / occurrences,
+    occurrences,
+    lastOccurrence: completedAt.toISOString(),
+  };
+}
+
+/**
+ * Grows with repetition and stays above the cleanup threshold from the first pair
+ */
+export function sequenceConfidence(occurrences: number): number {
+  return Math.min(0.95, occurrences / (occurrences + 2));
+}
+
+/**
+ * Everything folded from a run of completions, keyed as the patterns are
+ */
+export interface CompletionStats {
+  tasks: Record<string, TaskStats>;
+  contexts: Record<string, ContextStats>;
+  sequences: Record<string, SequenceStats>;
+}
+
+export const EMPTY_COMPLETION_STATS: CompletionStats = { tasks: {}, contexts: {}, sequences: {} };
+
+/**
+ * Fold completed tasks, oldest first, into the statistics. `previous` is the
+ * completion just before the first of them, if any, so a sequence can span
+ * two folds.
+ */
+export function foldCompletions(stats: CompletionStats, completed: Task[], previous?: Task): CompletionStats {
+  const tasks = { ...stats.tasks };
+  const contexts = { ...stats.contexts };
+  const sequences = { ...stats.sequences };
+
+  let before = previous;
+  for (const task of completed) {
+    const completedAt = new Date(task.completed_at!);
+    const taskKey = taskStatsKey(task);
+    tasks[taskKey] = addCompletion(tasks[taskKey], task, completedAt);
+    const context = contextKey(contextOf(completedAt));
+    contexts[context] = addContextCompletion(contexts[context], task, completedAt);
+    if (before && followsWithinGap(before, task)) {
+      const sequence = sequenceKey(before, task);
+      sequences[sequence] = addTransition(sequences[sequence], before, task, completedAt);
+    }
+    before = task;
+  }
+  return { tasks, contexts, sequences };
+}
+
+// --- Patterns as stored ---
+
+// Ids are derived from what a pattern describes, so updates land on the same row
+export function patternId(type: string, userId: string, key: string): string {
+  return `${type}_${userId}_${key}`;
+}
+
+/**
+ * A task's statistics as its frequency pattern
+ */
+export function frequencyPattern(userId: string, stats: TaskStats, now: Date): UserPattern {
+  const frequency = summarizeFrequency(stats);
+  return {
+    id: patternId('frequency', userId, taskStatsKey({ title: stats.taskTitle, category: stats.category })),
+    user_id: userId,
+    pattern_type: 'frequency',
+    pattern_data: {
+      taskTitle: stats.taskTitle,
+      category: stats.category,
+      intervalDays: frequency.intervalDays,
+      regularityScore: frequency.regularityScore,
+      occurrences: stats.occurrences,
+      stats,
+    },
+    confidence: frequency.confidence,
+    frequency: stats.occurrences,
+    last_occurrence: stats.lastOccurrence,
+    next_predicted: frequency.nextPredicted && frequency.nextPredicted.toISOString(),
+    created_at: now.toISOString(),
+    updated_at: now.toISOString(),
+  };
+}
+
+/**
+ * A task's usual timing, or null until it has enough occurrences and they
+ * cluster tightly enough
+ */
+export function temporalPattern(userId: string, stats: TaskStats, now: Date, minConfidence: number): TemporalPattern | null {
+  const timing = summarizeTiming(stats);
+  if (stats.occurrences < MIN_TEMPORAL_OCCURRENCES || timing.confidence < minConfidence) return null;
+
+  return {
+    id: patternId('temporal', userId, taskStatsKey({ title: stats.taskTitle, category: stats.category })),
+    user_id: userId,
+    task_title: stats.taskTitle,
+    task_category: stats.category,
+    time_of_day: timing.preferredHour,
+    day_of_week: timing.preferredDay,
+    day_of_month: timing.preferredDayOfMonth,
+    month: timing.preferredMonth,
+    frequency: stats.occurrences,
+    period_type: timing.periodType,
+    confidence: timing.confidence,
+    last_occurrence: stats.lastOccurrence,
+    next_predicted: timing.nextPredicted.toISOString(),
+    created_at: now.toISOString(),
+    updated_at: now.toISOString(),
+  };
+}
+
+export function contextualPattern(userId: string, stats: ContextStats, now: Date): UserPattern {
+  const summary = summarizeContext(stats);
+  return {
+    id: patternId('contextual', userId, contextKey(stats)),
+    user_id: userId,
+    pattern_type: 'contextual',
+    pattern_data: {
+      context: { timeSlot: stats.timeSlot, dayType: stats.dayType },
+      timeContext: TIME_SLOT_HOURS[stats.timeSlot],
+      taskTitle: summary.taskTitle,
+      category: summary.category,
+      categories: summary.categories,
+      taskCount: stats.taskCount,
+      averageCompletionTime: summary.averageCompletionTime,
+      stats,
+    },
+    confidence: summary.confidence,
+    frequency: stats.taskCount,
+    last_occurrence: stats.lastOccurrence,
+    created_at: now.toISOString(),
+    updated_at: now.toISOString(),
+  };
+}
+
+export function sequentialPattern(userId: string, stats: SequenceStats, now: Date): UserPattern {
+  return {
+    id: patternId('sequential', userId, sequenceKey({ title: stats.sequence[0] }, { title: stats.sequence[1] })),
+    user_id: userId,
+    pattern_type: 'sequential',
+    pattern_data: stats,
+    confidence: sequenceConfidence(stats.occurrences),
+    frequency: stats.occurrences,
+    last_occurrence: stats.lastOccurrence,
+    next_predicted: undefined,
+    created_at: now.toISOString(),
+    updated_at: now.toISOString(),
+  };
+}
+
+/**
+ * Every pattern the statistics support, as a full recompute would store them
+ */
+export function buildPatterns(
+  userId: string,
+  stats: CompletionStats,
+  now: Date,
+  minConfidence: number
+): { patterns: UserPattern[]; temporalPatterns: TemporalPattern[] } {
+  const taskStats = Object.values(stats.tasks);
+  return {
+    patterns: [
+      ...taskStats.map(task => frequencyPattern(userId, task, now)),
+      ...Object.values(stats.contexts).map(context => contextualPattern(userId, context, now)),
+      ...Object.values(stats.sequences).map(sequence => sequentialPattern(userId, sequence, now)),
+    ],
+    temporalPatterns: taskStats
+      .map(task => temporalPattern(userId, task, now, minConfidence))
+      .filter((pattern): pattern is TemporalPattern => pattern !== null),
+  };
+}
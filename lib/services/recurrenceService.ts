@@ -0,0 +1,149 @@
+import { RecurrenceRule, Task, TaskCreateInput } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Upper bound on candidate dates checked when looking for the next occurrence
+const MAX_CANDIDATES = 1000;
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+function startOfWeek(date: Date): number {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate() - date.getDay());
+  return start.getTime();
+}
+
+/**
+ * Recurrence rules for task series. Dates are computed in local time and keep
+ * the time of day of the occurrence they are computed from.
+ */
+export class RecurrenceService {
+  /**
+   * Local calendar day of a date as YYYY-MM-DD, the format used for exceptions
+   */
+  static getDateKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  /**
+   * The first occurrence strictly after `from` that matches the rule and is not an
+   * exception, or null once the series has ended by date
+   */
+  static getNextOccurrence(rule: RecurrenceRule, from: Date): Date | null {
+    const interval = Math.max(1, Math.floor(rule.interval || 1));
+    const exceptions = new Set(rule.exceptions || []);
+    const until = rule.until ? new Date(rule.until) : null;
+    if (until) until.setHours(23, 59, 59, 999);
+
+    for (let step = 1; step <= MAX_CANDIDATES; step++) {
+      const candidate = this.getCandidate(rule, interval, from, step);
+      if (!candidate) continue;
+      if (until && candidate > until) return null;
+      if (!exceptions.has(this.getDateKey(candidate))) return candidate;
+    }
+    return null;
+  }
+
+  /**
+   * The step-th candidate date after `from`, or null when that step does not match
+   */
+  private static getCandidate(rule: RecurrenceRule, interval: number, from: Date, step: number): Date | null {
+    const hours = from.getHours();
+    const minutes = from.getMinutes();
+
+    switch (rule.frequency) {
+      case 'daily':
+        return new Date(from.getFullYear(), from.getMonth(), from.getDate() + step * interval, hours, minutes);
+
+      case 'weekly': {
+        const weekdays = rule.weekdays && rule.weekdays.length > 0 ? rule.weekdays : [from.getDay()];
+        const candidate = new Date(from.getFullYear(), from.getMonth(), from.getDate() + step, hours, minutes);
+        const weeks = Math.round((startOfWeek(candidate) - startOfWeek(from)) / (7 * DAY_MS));
+        return weekdays.includes(candidate.getDay()) && weeks % interval === 0 ? candidate : null;
+      }
+
+      case 'monthly': {
+        // Step 1 is the month of `from` itself, for a day later in that month
+        const monthDay = rule.monthDay || from.getDate();
+        const first = new Date(from.getFullYear(), from.getMonth() + (step - 1) * interval, 1);
+        const day = Math.min(monthDay, daysInMonth(first.getFullYear(), first.getMonth()));
+        const candidate = new Date(first.getFullYear(), first.getMonth(), day, hours, minutes);
+        return candidate > from ? candidate : null;
+      }
+    }
+  }
+
+  /**
+   * Pin a monthly rule to the day of month of the series' first occurrence, so a
+   * month that clamps it (31 → Feb 29) does not carry the shorter day forward
+   */
+  static anchorRule(rule: RecurrenceRule, first: Date): RecurrenceRule {
+    if (rule.frequency !== 'monthly' || rule.monthDay) return rule;
+    return { ...rule, monthDay: first.getDate() };
+  }
+
+  /**
+   * The date an instance's occurrence is anchored on
+   */
+  static getOccurrenceDate(task: Task): Date {
+    return new Date(task.due_date || task.reminder_time || task.created_at);
+  }
+
+  /**
+   * Input for the instance that follows `task` in its series, or null when the
+   * series has ended. The reminder keeps its offset from the due date.
+   */
+  static buildNextInstance(task: Task): TaskCreateInput & { series_id: string; series_index: number } | null {
+    if (!task.recurrence) return null;
+
+    const seriesIndex = (task.series_index || 1) + 1;
+    if (task.recurrence.count && seriesIndex > task.recurrence.count) return null;
+
+    const current = this.getOccurrenceDate(task);
+    // Series created before rules were anchored take the day of this occurrence
+    const recurrence = this.anchorRule(task.recurrence, current);
+    const next = this.getNextOccurrence(recurrence, current);
+    if (!next) return null;
+
+    const shift = next.getTime() - current.getTime();
+    return {
+      title: task.title,
+      description: task.description,
+      priority: task.priority,
+      category: task.category,
+      tags: task.tags,
+      reminder_enabled: task.reminder_enabled,
+      reminder_time: task.reminder_time ? new Date(new Date(task.reminder_time).getTime() + shift).toISOString() : undefined,
+      due_date: next.toISOString(),
+      location_reminder: task.location_reminder,
+      locationContext: task.locationContext,
+      recurrence,
+      series_id: task.series_id || task.id,
+      series_index: seriesIndex,
+    };
+  }
+
+  /**
+   * Short label for series badges, e.g. "Every 2 weeks on Mon, Thu"
+   */
+  static describe(rule: RecurrenceRule): string {
+    const interval = Math.max(1, Math.floor(rule.interval || 1));
+    switch (rule.frequency) {
+      case 'daily':
+        return interval === 1 ? 'Daily' : `Every ${interval} days`;
+      case 'weekly': {
+        const days = [...(rule.weekdays || [])].sort().map(day => WEEKDAY_NAMES[day]).join(', ');
+        const base = interval === 1 ? 'Weekly' : `Every ${interval} weeks`;
+        return days ? `${base} on ${days}` : base;
+      }
+      case 'monthly': {
+        const base = interval === 1 ? 'Monthly' : `Every ${interval} months`;
+        return rule.monthDay ? `${base} on day ${rule.monthDay}` : base;
+      }
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import * as Notifications from 'expo-notifications';
+import * as TaskManager from 'expo-task-manager';
+import { ReminderActions, REMINDER_ACTIONS } from './reminderActions';
+
+export const REMINDER_ACTION_TASK = 'task-reminder-actions';
+
+// Actions that don't open the app; Reschedule does and is handled by the app's listener
+const BACKGROUND_ACTIONS: string[] = [REMINDER_ACTIONS.done, REMINDER_ACTIONS.snooze10, REMINDER_ACTIONS.snooze60];
+
+/**
+ * Background handler for Done / Snooze pressed on a reminder while the app is
+ * in the background or not running. Task definitions must exist before the OS
+ * delivers a response, so this module is imported from the root layout.
+ */
+TaskManager.defineTask<Notifications.NotificationTaskPayload>(REMINDER_ACTION_TASK, async ({ data, error }) => {
+  if (error) {
+    console.error('Reminder action task error:', error.message);
+    return;
+  }
+  // Other payloads are notifications received, not actions taken
+  if (!data || !('actionIdentifier' in data) || !BACKGROUND_ACTIONS.includes(data.actionIdentifier)) return;
+
+  try {
+    await ReminderActions.handleResponse(data);
+  } catch (err) {
+    console.error('Error handling reminder action:', err);
+  }
+});
+
+Notifications.registerTaskAsync(REMINDER_ACTION_TASK).catch(err => {
+  console.error('Error registering reminder action task:', err);
+});
@@ -0,0 +1,141 @@
+import * as Notifications from 'expo-notifications';
+import { DatabaseService } from './databaseService';
+import { syncService, SubtasksIncompleteError } from './syncService';
+import { reminderEngine } from './reminderService';
+import { ReminderFeedback } from './reminderFeedback';
+import { REMINDER_CATEGORY } from './reminderRegistry';
+import { ReminderSlot, slotOf } from './reminderEffectivenessModel';
+
+export const REMINDER_ACTIONS = {
+  done: 'done',
+  snooze10: 'snooze-10',
+  snooze60: 'snooze-60',
+  reschedule: 'reschedule',
+} as const;
+
+const SNOOZE_MINUTES: Record<string, number> = {
+  [REMINDER_ACTIONS.snooze10]: 10,
+  [REMINDER_ACTIONS.snooze60]: 60,
+};
+
+export interface ReminderResponseResult {
+  taskId: string;
+  openReschedule: boolean; // the app should offer to pick a new reminder time
+}
+
+// The launch response is also delivered to the listener; handle each once
+const handledResponses = new Set<string>();
+
+/**
+ * Done / Snooze / Skip for task reminders, from the notification itself or from
+ * the in-app reminder center. Every action feeds the reminder learning loop.
+ */
+export class ReminderActions {
+  /**
+   * Register the action buttons shown on reminder notifications
+   */
+  static async registerCategories(): Promise<void> {
+    await Notifications.setNotificationCategoryAsync(REMINDER_CATEGORY, [
+      { identifier: REMINDER_ACTIONS.done, buttonTitle: 'Done', options: { opensAppToForeground: false } },
+      { identifier: REMINDER_ACTIONS.snooze10, buttonTitle: 'Snooze 10m', options: { opensAppToForeground: false } },
+      { identifier: REMINDER_ACTIONS.snooze60, buttonTitle: 'Snooze 1h', options: { opensAppToForeground: false } },
+      { identifier: REMINDER_ACTIONS.reschedule, buttonTitle: 'Reschedule', options: { opensAppToForeground: true } },
+    ]);
+  }
+
+  /**
+   * Apply the action a user picked on a reminder notification. Returns null for
+   * notifications that are not task reminders or were already handled.
+   */
+  static async handleResponse(response: Notifications.NotificationResponse): Promise<ReminderResponseResult | null> {
+    const { request } = response.notification;
+    const data = request.content.data as { taskId?: string; reminderId?: string } | undefined;
+    const key = `${request.identifier}:${response.actionIdentifier}`;
+    if (!data?.taskId || handledResponses.has(key)) return null;
+    handledResponses.add(key);
+
+    const reminder = data.reminderId ? await DatabaseService.getReminder(data.reminderId) : null;
+    const userId = reminder?.user_id || (await DatabaseService.getTask(data.taskId))?.user_id;
+    if (!userId) return null;
+
+    const action = response.actionIdentifier;
+    if (action === REMINDER_ACTIONS.done) {
+      await this.complete(userId, data.taskId, data.reminderId);
+    } else if (action in SNOOZE_MINUTES) {
+      await this.snooze(userId, data.taskId, SNOOZE_MINUTES[action], data.reminderId);
+    }
+    if (action !== Notifications.DEFAULT_ACTION_IDENTIFIER) {
+      // Action buttons don't always clear the notification on Android
+      await Notifications.dismissNotificationAsync(request.identifier).catch(() => {});
+    }
+
+    return { taskId: data.taskId, openReschedule: action === REMINDER_ACTIONS.reschedule };
+  }
+
+  static async complete(userId: string, taskId: string, reminderId?: string): Promise<void> {
+    const task = await DatabaseService.getTask(taskId);
+    if (task && !task.completed) {
+      try {
+        await syncService.toggleTaskCompletion(taskId);
+      } catch (error) {
+        // Gated tasks need their checklist finished in the app first
+        if (!(error instanceof SubtasksIncompleteError)) throw error;
+        console.warn('Task has open subtasks; not completed from reminder');
+        return;
+      }
+    }
+    await this.recordFeedback(userId, taskId, 'done', reminderId);
+  }
+
+  static async snooze(userId: string, taskId: string, minutes: number, reminderId?: string): Promise<void> {
+    const until = new Date(Date.now() + minutes * 60 * 1000);
+    const id = reminderId || (await DatabaseService.getActiveReminders(userId, taskId))[0]?.id;
+    // Read before snoozing moves the reminder's time
+    const slot = await this.slotFor(taskId, id);
+    const snoozed = id ? await syncService.snoozeReminder(id, until) : null;
+    // No tracked reminder to push back (e.g. a location reminder): a timed one takes over
+    if (!snoozed) await syncService.updateTask(taskId, { reminder_enabled: true, reminder_time: until.toISOString() });
+    await this.recordFeedback(userId, taskId, 'snooze', id, { minutes }, slot);
+  }
+
+  /**
+   * Turn the task's reminder off
+   */
+  static async skip(userId: string, taskId: string, reminderId?: string): Promise<void> {
+    await syncService.updateTask(taskId, { reminder_enabled: false });
+    await this.recordFeedback(userId, taskId, 'skip', reminderId);
+  }
+
+  static async recordFeedback(
+    userId: string,
+    taskId: string,
+    action: ReminderFeedback['action'],
+    reminderId?: string,
+    additionalData: Record<string, any> = {},
+    slot?: ReminderSlot
+  ): Promise<void> {
+    try {
+      await reminderEngine.adaptToUserFeedback(reminderId || taskId, {
+        action,
+        timestamp: new Date(),
+        userId,
+        reminderId: reminderId || taskId,
+        slot: slot || (await this.slotFor(taskId, reminderId)),
+        additionalData: { taskId, ...additionalData },
+      });
+    } catch (error) {
+      console.error('Failed to record reminder feedback:', error);
+    }
+  }
+
+  /**
+   * When the reminder went off and for what kind of task, for the effectiveness model
+   */
+  private static async slotFor(taskId: string, reminderId?: string): Promise<ReminderSlot | undefined> {
+    const task = await DatabaseService.getTask(taskId);
+    if (!task) return undefined;
+    const reminder = reminderId ? await DatabaseService.getReminder(reminderId) : null;
+    const shownAt = reminder?.scheduled_time || task.reminder_time;
+    return slotOf(shownAt ? new Date(shownAt) : new Date(), task);
+  }
+}
@@ -0,0 +1,173 @@
+import { Task } from '../types';
+
+/**
+ * Where and when a reminder was shown, recorded with each piece of feedback
+ */
+export interface ReminderSlot {
+  hour: number; // 0-23, local time
+  weekday: number; // 0 (Sunday) to 6
+  category?: string;
+  priority?: Task['priority'];
+}
+
+export interface ReminderOutcome extends ReminderSlot {
+  action: 'snooze' | 'dismiss' | 'done' | 'skip';
+}
+
+export interface SlotPrediction {
+  probability: number; // chance a reminder in this slot leads to completion
+  reason: string;
+}
+
+export interface SlotChoice {
+  time: Date;
+  probability: number;
+}
+
+type Feature = 'hour' | 'weekday' | 'category' | 'priority';
+
+const FEATURES: Feature[] = ['hour', 'weekday', 'category', 'priority'];
+
+// Pseudo-observations pulling sparse feature values towards the overall rate
+const PRIOR_STRENGTH = 4;
+// Share of an hour's outcomes lent to the hours either side of it
+const NEIGHBOUR_WEIGHT = 0.5;
+// Reminders are only proposed in waking hours, [start, end)
+export const WAKING_HOURS: [number, number] = [7, 22];
+// Without a due date, slots are searched this far ahead
+const DEFAULT_HORIZON_DAYS = 3;
+
+interface Tally {
+  done: number;
+  total: number;
+}
+
+const logit = (p: number) => Math.log(p / (1 - p));
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+const clamp = (p: number) => Math.min(0.99, Math.max(0.01, p));
+
+export function slotOf(at: Date, task?: Partial<Pick<Task, 'category' | 'priority'>>): ReminderSlot {
+  return { hour: at.getHours(), weekday: at.getDay(), category: task?.category, priority: task?.priority };
+}
+
+/**
+ * Per-user estimate of how likely a reminder is to end in the task being done,
+ * learned from that user's done / snooze / dismiss / skip history.
+ *
+ * Each feature value keeps a completion rate smoothed towards the user's overall
+ * rate; the features are combined naive-Bayes style by adding their log-odds
+ * lift over the base rate. Hours also borrow from their neighbours, so a few
+ * completions at 9:00 make 8:00 and 10:00 look better too.
+ */
+export class ReminderEffectivenessModel {
+  private tallies: Record<Feature, Map<string, Tally>> = {
+    hour: new Map(),
+    weekday: new Map(),
+    category: new Map(),
+    priority: new Map(),
+  };
+  private done = 0;
+  private total = 0;
+
+  static train(outcomes: ReminderOutcome[]): ReminderEffectivenessModel {
+    const model = new ReminderEffectivenessModel();
+    outcomes.forEach(outcome => model.add(outcome));
+    return model;
+  }
+
+  get sampleSize(): number {
+    return this.total;
+  }
+
+  add(outcome: ReminderOutcome): void {
+    const done = outcome.action === 'done' ? 1 : 0;
+    this.done += done;
+    this.total += 1;
+
+    for (const feature of FEATURES) {
+      if (feature === 'hour') {
+        this.count('hour', String(outcome.hour), done, 1);
+        this.count('hour', String((outcome.hour + 23) % 24), done, NEIGHBOUR_WEIGHT);
+        this.count('hour', String((outcome.hour + 1) % 24), done, NEIGHBOUR_WEIGHT);
+      } else if (outcome[feature] !== undefined) {
+        this.count(feature, String(outcome[feature]), done, 1);
+      }
+    }
+  }
+
+  predict(slot: ReminderSlot): SlotPrediction {
+    if (this.total === 0) return { probability: 0.5, reason: 'No reminder history yet' };
+
+    // Laplace-smoothed, so a user who always completes still leaves room for doubt
+    const base = clamp((this.done + 1) / (this.total + 2));
+    let score = logit(base);
+    let strongest: { feature: Feature; lift: number } | null = null;
+
+    for (const feature of FEATURES) {
+      const value = slot[feature];
+      const tally = value === undefined ? undefined : this.tallies[feature].get(String(value));
+      if (!tally) continue;
+      const rate = clamp((tally.done + PRIOR_STRENGTH * base) / (tally.total + PRIOR_STRENGTH));
+      const lift = logit(rate) - logit(base);
+      score += lift;
+      if (!strongest || Math.abs(lift) > Math.abs(strongest.lift)) strongest = { feature, lift };
+    }
+
+    const probability = sigmoid(score);
+    if (!strongest || Math.abs(strongest.lift) < 0.1) {
+      return { probability, reason: `Based on ${this.total} past reminders` };
+    }
+    const context: Record<Feature, string> = {
+      hour: 'at this time of day',
+      weekday: 'on this day of the week',
+      category: `for ${slot.category} tasks`,
+      priority: `for ${slot.priority} priority tasks`,
+    };
+    return {
+      probability,
+      reason: `${strongest.lift > 0 ? 'Often' : 'Rarely'} completed from reminders ${context[strongest.feature]}`,
+    };
+  }
+
+  /**
+   * Most promising full hour in [from, until] during waking hours, skipping
+   * hours `isFree` rejects. Ties go to the earliest slot, so the reminder is not
+   * pushed back for nothing.
+   */
+  bestSlot(
+    task: Partial<Pick<Task, 'category' | 'priority'>>,
+    from: Date,
+    until: Date,
+    isFree: (at: Date) => boolean = () => true
+  ): SlotChoice | null {
+    let best: SlotChoice | null = null;
+    const cursor = new Date(from);
+    if (cursor.getMinutes() || cursor.getSeconds() || cursor.getMilliseconds()) {
+      cursor.setHours(cursor.getHours() + 1, 0, 0, 0);
+    }
+    for (; cursor <= until; cursor.setHours(cursor.getHours() + 1)) {
+      const hour = cursor.getHours();
+      if (hour < WAKING_HOURS[0] || hour >= WAKING_HOURS[1] || !isFree(cursor)) continue;
+      const { probability } = this.predict(slotOf(cursor, task));
+      if (!best || probability > best.probability + 1e-9) best = { time: new Date(cursor), probability };
+    }
+    return best;
+  }
+
+  private count(feature: Feature, key: string, done: number, weight: number): void {
+    const tally = this.tallies[feature].get(key) || { done: 0, total: 0 };
+    tally.done += done * weight;
+    tally.total += weight;
+    this.tallies[feature].set(key, tally);
+  }
+}
+
+/**
+ * The window a task's reminder may land in: from `now` until the task is due,
+ * or a few days ahead when it has no due date
+ */
+export function reminderWindow(task: Pick<Task, 'due_date'>, now: Date): { from: Date; until: Date } {
+  const due = task.due_date ? new Date(task.due_date) : null;
+  const until = due && due > now ? due : new Date(now.getTime() + DEFAULT_HORIZON_DAYS * 24 * 60 * 60 * 1000);
+  return { from: now, until };
+}
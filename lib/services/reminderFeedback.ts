@@ -0,0 +1,58 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Reminder, Task } from '../types';
+import { ReminderSlot, slotOf } from './reminderEffectivenessModel';
+
+export interface ReminderFeedback {
+  action: 'snooze' | 'dismiss' | 'done' | 'skip';
+  timestamp: Date;
+  userId: string;
+  reminderId: string;
+  slot?: ReminderSlot; // when the reminder was shown, and for what kind of task
+  additionalData?: any; // `unanswered: true` on a reminder that went off with no action taken
+}
+
+// Feedback entries kept per user; older ones stop informing the model
+const FEEDBACK_LIMIT = 500;
+
+const feedbackKey = (userId: string) => `reminder_feedback_${userId}`;
+
+// Bumped on every save so trained models know they are out of date
+let revision = 0;
+
+export function feedbackRevision(): number {
+  return revision;
+}
+
+export async function loadFeedback(userId: string): Promise<ReminderFeedback[]> {
+  const raw = await AsyncStorage.getItem(feedbackKey(userId));
+  return raw ? JSON.parse(raw) : [];
+}
+
+/**
+ * Store a piece of reminder feedback. An action taken on a reminder already
+ * counted as unanswered replaces that entry, so the reminder counts once.
+ */
+export async function saveFeedback(feedback: ReminderFeedback): Promise<void> {
+  const feedbacks = await loadFeedback(feedback.userId);
+  const last = feedbacks.map(f => f.reminderId).lastIndexOf(feedback.reminderId);
+  if (last >= 0 && feedbacks[last].additionalData?.unanswered) feedbacks.splice(last, 1);
+  feedbacks.push(feedback);
+  await AsyncStorage.setItem(feedbackKey(feedback.userId), JSON.stringify(feedbacks.slice(-FEEDBACK_LIMIT)));
+  revision++;
+}
+
+/**
+ * Count a reminder that went off without Done, Snooze or Skip being pressed as
+ * dismissed
+ */
+export async function recordUnanswered(reminder: Reminder, task: Task): Promise<void> {
+  const shownAt = new Date(reminder.scheduled_time);
+  await saveFeedback({
+    action: 'dismiss',
+    timestamp: shownAt,
+    userId: reminder.user_id,
+    reminderId: reminder.id,
+    slot: slotOf(shownAt, task),
+    additionalData: { taskId: task.id, unanswered: true },
+  });
+}
@@ -0,0 +1,245 @@
+import * as Notifications from 'expo-notifications';
+import { DatabaseService } from './databaseService';
+import { notificationPolicy, NotificationOptions } from './notificationPolicy';
+import { recordUnanswered } from './reminderFeedback';
+import { Reminder, Task } from '../types';
+
+// Notification category carrying the Done / Snooze / Reschedule actions
+export const REMINDER_CATEGORY = 'task-reminder';
+
+export interface ReminderChange {
+  action: 'create' | 'update' | 'delete';
+  reminder: Reminder;
+  before: Reminder | null;
+}
+
+export interface ScheduledNotification {
+  id: string;
+  data?: Record<string, any>;
+}
+
+export interface ReminderNotificationContent {
+  title: string;
+  body: string;
+  data: Record<string, any>;
+  categoryIdentifier?: string;
+}
+
+/**
+ * The part of the OS notification API the registry uses; tests pass a fake
+ */
+export interface NotificationScheduler {
+  schedule(content: ReminderNotificationContent, at: Date, options?: NotificationOptions): Promise<string | null>;
+  cancel(notificationId: string): Promise<void>;
+  getScheduled(): Promise<ScheduledNotification[]>;
+}
+
+export const expoNotificationScheduler: NotificationScheduler = {
+  async schedule(content, at, options) {
+    // Quiet hours and focus sessions may move the notification later
+    return await notificationPolicy.schedule(content, at, options);
+  },
+
+  async cancel(notificationId) {
+    await Notifications.cancelScheduledNotificationAsync(notificationId);
+  },
+
+  async getScheduled() {
+    const requests = await Notifications.getAllScheduledNotificationsAsync();
+    return requests.map(request => ({ id: request.identifier, data: request.content.data as Record<string, any> }));
+  },
+};
+
+export interface ReminderRegistryOptions {
+  scheduler?: NotificationScheduler;
+  now?: () => Date;
+  // Told about each reminder that went off without an action, for the effectiveness model
+  onUnanswered?: (reminder: Reminder, task: Task) => Promise<void>;
+}
+
+function sameInstant(a: string, b: string): boolean {
+  return new Date(a).getTime() === new Date(b).getTime();
+}
+
+/**
+ * Persistent registry of scheduled task reminders.
+ *
+ * Every OS notification scheduled for a task has a row in the reminders table
+ * holding its notification id. A task's reminders follow the task: changing
+ * `reminder_time` reschedules, completing it dismisses and deleting it removes
+ * them. Reminder rows sync; notification ids are local to the device, so
+ * reminders pulled from another device are scheduled here on reconcile.
+ *
+ * Methods return the reminder rows they changed so the sync engine can queue them.
+ */
+export class ReminderRegistry {
+  private scheduler: NotificationScheduler;
+  private now: () => Date;
+  private onUnanswered: NonNullable<ReminderRegistryOptions['onUnanswered']>;
+
+  constructor(options: ReminderRegistryOptions = {}) {
+    this.scheduler = options.scheduler || expoNotificationScheduler;
+    this.now = options.now || (() => new Date());
+    this.onUnanswered = options.onUnanswered || recordUnanswered;
+  }
+
+  /**
+   * Bring a task's reminders in line with the task. A missing task is treated as deleted.
+   */
+  async syncTask(userId: string, taskId: string): Promise<ReminderChange[]> {
+    return await this.settle(userId, taskId, null);
+  }
+
+  /**
+   * Push a reminder back to `until`. The reminder keeps its row and is marked
+   * snoozed; callers move the task's reminder_time along with it.
+   */
+  async snooze(reminderId: string, until: Date): Promise<ReminderChange[]> {
+    const reminder = await DatabaseService.getReminder(reminderId);
+    const task = reminder ? await DatabaseService.getTask(reminder.task_id) : null;
+    if (!reminder || !task) return [];
+
+    if (reminder.notification_id) await this.scheduler.cancel(reminder.notification_id);
+    const updated = await DatabaseService.updateReminder(reminderId, {
+      scheduled_time: until.toISOString(),
+      status: 'snoozed',
+      notification_id: undefined,
+    });
+    if (!updated) return [];
+
+    await this.scheduleNotification(task, updated);
+    return [{ action: 'update', reminder: updated, before: reminder }];
+  }
+
+  /**
+   * Settle every task with a reminder, then cancel OS notifications that no
+   * active reminder owns (left behind by crashes, reinstalls or older versions)
+   */
+  async reconcile(userId: string): Promise<ReminderChange[]> {
+    const scheduled = await this.scheduler.getScheduled();
+    const scheduledIds = new Set(scheduled.map(notification => notification.id));
+
+    const tasks = await DatabaseService.getTasks(userId);
+    const active = await DatabaseService.getActiveReminders(userId);
+    const taskIds = new Set([
+      ...tasks.filter(task => task.reminder_enabled && task.reminder_time && !task.completed).map(task => task.id),
+      ...active.map(reminder => reminder.task_id),
+    ]);
+
+    const changes: ReminderChange[] = [];
+    for (const taskId of taskIds) {
+      changes.push(...(await this.settle(userId, taskId, scheduledIds)));
+    }
+
+    const tracked = new Set(
+      (await DatabaseService.getActiveReminders(userId)).map(reminder => reminder.notification_id).filter(Boolean)
+    );
+    for (const notification of scheduled) {
+      // Only task reminders are ours to clean up; notifications held for quiet
+      // hours and focus session cues carry a taskId too
+      const data = notification.data || {};
+      if (data.taskId && !data.held && !data.kind && !tracked.has(notification.id)) {
+        await this.scheduler.cancel(notification.id);
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Schedule every active reminder's notification again, e.g. after the quiet
+   * hours changed
+   */
+  async reschedule(userId: string): Promise<void> {
+    for (const reminder of await DatabaseService.getActiveReminders(userId)) {
+      const task = await DatabaseService.getTask(reminder.task_id);
+      if (!task) continue;
+      if (reminder.notification_id) await this.scheduler.cancel(reminder.notification_id);
+      await this.scheduleNotification(task, reminder);
+    }
+  }
+
+  /**
+   * `scheduledIds` is the set of OS notifications known to exist; when given,
+   * reminders whose notification has gone missing are scheduled again
+   */
+  private async settle(userId: string, taskId: string, scheduledIds: Set<string> | null): Promise<ReminderChange[]> {
+    const now = this.now();
+    const task = await DatabaseService.getTask(taskId);
+    const active = await DatabaseService.getActiveReminders(userId, taskId);
+    const due = task && this.wantsReminder(task, now) ? task.reminder_time! : null;
+    const changes: ReminderChange[] = [];
+
+    let current = due ? active.find(reminder => sameInstant(reminder.scheduled_time, due)) : undefined;
+    for (const reminder of active) {
+      if (reminder === current) continue;
+      if (reminder.notification_id) await this.scheduler.cancel(reminder.notification_id);
+
+      if (!task) {
+        if (await DatabaseService.deleteReminder(reminder.id)) {
+          changes.push({ action: 'delete', reminder, before: reminder });
+        }
+        continue;
+      }
+
+      let updates: Partial<Reminder>;
+      if (new Date(reminder.scheduled_time) <= now) {
+        updates = { status: 'sent', notification_id: undefined };
+      } else if (due && !current) {
+        // Reuse the reminder for the task's new time
+        updates = { scheduled_time: due, title: task.title, status: 'pending', notification_id: undefined };
+      } else {
+        updates = { status: 'dismissed', notification_id: undefined };
+      }
+      const updated = await DatabaseService.updateReminder(reminder.id, updates);
+      if (!updated) continue;
+      changes.push({ action: 'update', reminder: updated, before: reminder });
+      if (updates.scheduled_time) current = updated;
+
+      // Went off here and is still active: nobody pressed Done, Snooze or Skip
+      if (updates.status === 'sent' && reminder.notification_id && !task.completed) {
+        await this.onUnanswered(updated, task).catch(error => console.error('Failed to record unanswered reminder:', error));
+      }
+    }
+
+    if (task && due && !current) {
+      current = await DatabaseService.createReminder(userId, { task_id: task.id, title: task.title, scheduled_time: due });
+      changes.push({ action: 'create', reminder: current, before: null });
+    }
+
+    const missing = current?.notification_id && scheduledIds && !scheduledIds.has(current.notification_id);
+    if (task && current && (!current.notification_id || missing)) {
+      await this.scheduleNotification(task, current);
+    }
+
+    return changes;
+  }
+
+  private async scheduleNotification(task: Task, reminder: Reminder): Promise<void> {
+    const notificationId = await this.scheduler.schedule(
+      {
+        title: `Task Reminder: ${task.title}`,
+        body: task.description || '',
+        data: { taskId: task.id, reminderId: reminder.id },
+        categoryIdentifier: REMINDER_CATEGORY,
+      },
+      new Date(reminder.scheduled_time),
+      { priority: task.priority }
+    );
+    // Nothing was scheduled while notifications are off; reconcile tries again
+    if (!notificationId) return;
+    await DatabaseService.setReminderNotificationId(reminder.id, notificationId);
+    reminder.notification_id = notificationId;
+  }
+
+  private wantsReminder(task: Task, now: Date): boolean {
+    return (
+      task.reminder_enabled &&
+      !task.completed &&
+      !!task.reminder_time &&
+      new Date(task.reminder_time).getTime() > now.getTime()
+    );
+  }
+}
+
+export const reminderRegistry = new ReminderRegistry();
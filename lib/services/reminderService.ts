@@ -1,11 +1,14 @@
 // Adaptive Reminder Service for Smart Task Logger
 // Implements context-aware, learning reminders per design.md, requirements.md, tasks.md
 
-import * as Notifications from 'expo-notifications';
-import * as Location from 'expo-location';
 import { Platform } from 'react-native';
 import { Task } from '../types';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { syncService } from './syncService';
+import { DatabaseService } from './databaseService';
+import { ReminderEffectivenessModel, reminderWindow, slotOf } from './reminderEffectivenessModel';
+import { ReminderFeedback, loadFeedback, saveFeedback, feedbackRevision } from './reminderFeedback';
+import { calendarService } from './calendarService';
+import { isBusy } from './busyTime';
 import { differenceInMinutes, isSameDay } from 'date-fns';
 // Import or define these types as needed in your codebase
 // import { UserContext, ReminderPreferences, ScheduledReminder, ReminderFeedback, ReminderType, ReminderContext, AdaptiveFactor, EffectivenessPrediction, ReminderPattern, UserBehavior, OptimalTiming, AvailabilityPrediction, TimeWindow } from '../types';
@@ -28,6 +31,7 @@ export interface ScheduledReminder {
   taskId: string;
   userId: string;
   scheduledTime: Date;
+  notificationId?: string; // OS notification, for time-based and adaptive reminders
   reminderType: ReminderType;
   context: ReminderContext;
   adaptiveFactors: AdaptiveFactor[];
@@ -41,19 +45,14 @@ export interface ReminderContext {
   };
   device?: string;
   activity?: string;
+  category?: string;
+  priority?: Task['priority'];
   [key: string]: any;
 }
 export interface AdaptiveFactor {
   type: string;
   value: any;
 }
-export interface ReminderFeedback {
-  action: 'snooze' | 'dismiss' | 'done' | 'skip';
-  timestamp: Date;
-  userId: string;
-  reminderId: string;
-  additionalData?: any;
-}
 export interface EffectivenessPrediction {
   probability: number;
   reason?: string;
@@ -92,8 +91,34 @@ export interface UserContext {
   calendarEvents?: any[];
 }
 
+// Time kept clear of meetings after a reminder goes off
+const REMINDER_CLEARANCE_MS = 15 * 60 * 1000;
+
+const nextMorning = (now: Date) => {
+  const next9am = new Date(now);
+  next9am.setDate(now.getDate() + 1);
+  next9am.setHours(9, 0, 0, 0);
+  return next9am;
+};
+
 // --- Reminder Engine ---
 class ReminderEngine {
+  private models = new Map<string, { model: ReminderEffectivenessModel; revision: number }>();
+
+  // The user's effectiveness model, trained on their stored feedback
+  async getModel(userId: string): Promise<ReminderEffectivenessModel> {
+    const cached = this.models.get(userId);
+    if (cached && cached.revision === feedbackRevision()) return cached.model;
+    const revision = feedbackRevision();
+    const feedbacks = await loadFeedback(userId);
+    // Feedback recorded before slots were stored only tells us when it was given
+    const model = ReminderEffectivenessModel.train(
+      feedbacks.map(f => ({ action: f.action, ...(f.slot || slotOf(new Date(f.timestamp))) }))
+    );
+    this.models.set(userId, { model, revision });
+    return model;
+  }
+
   // Schedule a reminder (time, location, or adaptive)
   async scheduleReminder(
     task: Task,
@@ -102,45 +127,23 @@ class ReminderEngine {
   ): Promise<ScheduledReminder> {
     let scheduledTime = preferences.time || new Date();
     let reminderType: ReminderType = preferences.type;
-    let context: ReminderContext = {};
+    // The task's kind travels with the reminder so its effectiveness can be predicted later
+    let context: ReminderContext = { category: task.category, priority: task.priority };
     let adaptiveFactors: AdaptiveFactor[] = [];
+    let notificationId: string | undefined;
 
     // Time-based reminder
     if (reminderType === 'time_based') {
-      const st = scheduledTime;
-      await Notifications.scheduleNotificationAsync({
-        content: {
-          title: `Task Reminder: ${task.title}`,
-          body: task.description || '',
-          data: { taskId: task.id },
-        },
-        trigger: {
-          year: st.getFullYear(),
-          month: st.getMonth() + 1,
-          day: st.getDate(),
-          hour: st.getHours(),
-          minute: st.getMinutes(),
-          second: st.getSeconds(),
-          repeats: false,
-        } as any,
-      });
       context = { ...context, scheduledTime };
     }
 
     // Location-based reminder
     if (reminderType === 'location_based' && preferences.location) {
-      // Use Expo Location geofencing
-      const region = {
-        identifier: `reminder-${task.id}`,
-        latitude: preferences.location.latitude,
-        longitude: preferences.location.longitude,
-        radius: preferences.location.radius,
-        notifyOnEnter: true,
-        notifyOnExit: false,
-      };
-      // Register geofence
-      await Location.startGeofencingAsync(`reminder-${task.id}`, [region]);
-      // Listen for geofence event elsewhere in the app and schedule notification when entering region
+      // Kept on the task; the geofence manager registers all location reminders as one set
+      const { latitude, longitude, radius, placeName } = preferences.location;
+      await syncService.updateTask(task.id, {
+        location_reminder: { latitude, longitude, radius, placeName, trigger: 'enter' },
+      });
       context = { ...context, location: preferences.location };
     }
 
@@ -154,27 +157,19 @@ class ReminderEngine {
       const optimalTime = await reminderOptimizer.calculateOptimalTiming(task, userContext);
       scheduledTime = optimalTime;
       adaptiveFactors.push({ type: 'optimized', value: optimalTime });
-      await Notifications.scheduleNotificationAsync({
-        content: {
-          title: `Task Reminder: ${task.title}`,
-          body: task.description || '',
-          data: { taskId: task.id },
-        },
-        trigger: {
-          year: optimalTime.getFullYear(),
-          month: optimalTime.getMonth() + 1,
-          day: optimalTime.getDate(),
-          hour: optimalTime.getHours(),
-          minute: optimalTime.getMinutes(),
-          second: optimalTime.getSeconds(),
-          repeats: false,
-        } as any,
-      });
       context = { ...context, scheduledTime: optimalTime };
     }
 
-    // Generate a unique reminder ID (replace with your own ID logic)
-    const reminderId = `${task.id}_${Date.now()}`;
+    // Timed reminders live on the task; the reminder registry schedules and tracks the notification
+    let reminderId = `${task.id}_${Date.now()}`;
+    if (reminderType === 'time_based' || reminderType === 'adaptive' || preferences.adaptive) {
+      await syncService.updateTask(task.id, { reminder_enabled: true, reminder_time: scheduledTime.toISOString() });
+      const [reminder] = await DatabaseService.getActiveReminders(userId, task.id);
+      if (reminder) {
+        reminderId = reminder.id;
+        notificationId = reminder.notification_id;
+      }
+    }
 
     // Return the scheduled reminder object
     return {
@@ -182,6 +177,7 @@ class ReminderEngine {
       taskId: task.id,
       userId,
       scheduledTime,
+      notificationId,
       reminderType,
       context,
       adaptiveFactors,
@@ -190,52 +186,24 @@ class ReminderEngine {
 
   // Optimize reminder timing based on user patterns
   async optimizeReminderTiming(userId: string, taskType: string): Promise<OptimalTiming> {
-    // Analyze user patterns, completion history, and context
-    // Use AsyncStorage to get completion times
-    const completionsRaw = await AsyncStorage.getItem(`reminder_completions_${userId}`);
-    const completions: number[] = completionsRaw ? JSON.parse(completionsRaw) : [];
-    if (completions.length === 0) {
-      // Default: next day at 9am
-      const now = new Date();
-      const next9am = new Date(now);
-      next9am.setDate(now.getDate() + 1);
-      next9am.setHours(9, 0, 0, 0);
-      return { time: next9am, confidence: 0.5 };
-    }
-    // Find most common hour
-    const hours = completions.map(ts => new Date(ts).getHours());
-    const hourCounts: Record<number, number> = {};
-    hours.forEach(h => { hourCounts[h] = (hourCounts[h] || 0) + 1; });
-    const bestHour = Object.entries(hourCounts).sort((a, b) => b[1] - a[1])[0][0];
+    const model = await this.getModel(userId);
     const now = new Date();
-    const next = new Date(now);
-    next.setDate(now.getDate() + 1);
-    next.setHours(Number(bestHour), 0, 0, 0);
-    return { time: next, confidence: 0.8 };
+    if (model.sampleSize === 0) return { time: nextMorning(now), confidence: 0.5 };
+    // Best slot over the next day for tasks in this category
+    const best = model.bestSlot({ category: taskType }, now, new Date(now.getTime() + 24 * 60 * 60 * 1000));
+    return best ? { time: best.time, confidence: best.probability } : { time: nextMorning(now), confidence: 0.5 };
   }
 
   // Adapt to user feedback (learning loop)
   async adaptToUserFeedback(reminderId: string, feedback: ReminderFeedback): Promise<void> {
-    // Store feedback in AsyncStorage
-    const key = `reminder_feedback_${feedback.userId}`;
-    const raw = await AsyncStorage.getItem(key);
-    const feedbacks = raw ? JSON.parse(raw) : [];
-    feedbacks.push(feedback);
-    await AsyncStorage.setItem(key, JSON.stringify(feedbacks));
-    // Optionally update in-memory model or trigger analytics
-    // (Extension point for ML)
+    // The model is retrained from storage on next use
+    await saveFeedback(feedback);
   }
 
   // Predict reminder effectiveness
   async predictReminderEffectiveness(reminder: ScheduledReminder): Promise<EffectivenessPrediction> {
-    // Use heuristic: if user often completes reminders at this hour, increase probability
-    const completionsRaw = await AsyncStorage.getItem(`reminder_completions_${reminder.userId}`);
-    const completions: number[] = completionsRaw ? JSON.parse(completionsRaw) : [];
-    if (completions.length === 0) return { probability: 0.5, reason: 'No data' };
-    const hour = reminder.scheduledTime.getHours();
-    const hourMatches = completions.filter(ts => new Date(ts).getHours() === hour).length;
-    const prob = Math.min(1, 0.5 + hourMatches / (2 * completions.length));
-    return { probability: prob, reason: `Based on ${hourMatches} completions at this hour` };
+    const model = await this.getModel(reminder.userId);
+    return model.predict(slotOf(new Date(reminder.scheduledTime), reminder.context));
   }
 }
 
@@ -243,81 +211,56 @@ class ReminderEngine {
 class ReminderOptimizer {
   // Analyze reminder patterns for a user
   async analyzeReminderPatterns(userId: string): Promise<ReminderPattern[]> {
-    // Aggregate feedback and completion data
-    const completionsRaw = await AsyncStorage.getItem(`reminder_completions_${userId}`);
-    const completions: number[] = completionsRaw ? JSON.parse(completionsRaw) : [];
-    const feedbackRaw = await AsyncStorage.getItem(`reminder_feedback_${userId}`);
-    const feedbacks: ReminderFeedback[] = feedbackRaw ? JSON.parse(feedbackRaw) : [];
-    // Find most common hour
-    const hours = completions.map(ts => new Date(ts).getHours());
-    const hourCounts: Record<number, number> = {};
-    hours.forEach(h => { hourCounts[h] = (hourCounts[h] || 0) + 1; });
-    const bestHour = Object.entries(hourCounts).sort((a, b) => b[1] - a[1])[0]?.[0] || 9;
+    const feedbacks = await loadFeedback(userId);
+    const model = await reminderEngine.getModel(userId);
+    // Hour of the day reminders work best, on any day
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const best = model.bestSlot({}, today, new Date(today.getTime() + 24 * 60 * 60 * 1000 - 1));
+    const typicalHour = best?.time.getHours() ?? 9;
     // Snooze rate
     const snoozeCount = feedbacks.filter(f => f.action === 'snooze').length;
     const total = feedbacks.length;
     const snoozeRate = total ? snoozeCount / total : 0;
     return [
-      { patternType: 'morning', confidence: 0.7, metadata: { typicalHour: bestHour, snoozeRate } },
+      {
+        patternType: typicalHour < 12 ? 'morning' : typicalHour < 17 ? 'afternoon' : 'evening',
+        confidence: best?.probability ?? 0.5,
+        metadata: { typicalHour, snoozeRate, sampleSize: model.sampleSize },
+      },
     ];
   }
 
   // Calculate optimal timing for a task and context
   async calculateOptimalTiming(task: Task, userContext: UserContext): Promise<Date> {
-    // Use userContext, task history, and completions to determine best time
-    const completionsRaw = await AsyncStorage.getItem(`reminder_completions_${task.user_id}`);
-    const completions: number[] = completionsRaw ? JSON.parse(completionsRaw) : [];
-    if (completions.length === 0) {
-      // Default: next day at 9am
-      const now = new Date();
-      const next9am = new Date(now);
-      next9am.setDate(now.getDate() + 1);
-      next9am.setHours(9, 0, 0, 0);
-      return next9am;
-    }
-    // Find most common hour
-    const hours = completions.map(ts => new Date(ts).getHours());
-    const hourCounts: Record<number, number> = {};
-    hours.forEach(h => { hourCounts[h] = (hourCounts[h] || 0) + 1; });
-    const bestHour = Object.entries(hourCounts).sort((a, b) => b[1] - a[1])[0][0];
-    const now = new Date();
-    const next = new Date(now);
-    next.setDate(now.getDate() + 1);
-    next.setHours(Number(bestHour), 0, 0, 0);
-    return next;
+    const model = await reminderEngine.getModel(task.user_id);
+    const { from, until } = reminderWindow(task, userContext.currentTime);
+    // Reminders that go off mid-meeting get dismissed
+    const busy = await calendarService.getBusyBlocks(task.user_id, from, until);
+    const best = model.bestSlot(task, from, until, at => !isBusy(busy, at, new Date(at.getTime() + REMINDER_CLEARANCE_MS)));
+    if (best) return best.time;
+    // No waking hour left before the task is due
+    return task.due_date && new Date(task.due_date) > from ? until : nextMorning(from);
   }
 
   // Adjust reminder for user behavior
   async adjustForUserBehavior(reminder: ScheduledReminder, behavior: UserBehavior): Promise<ScheduledReminder> {
-    // If snoozed > 3 times, move to afternoon
-    if (behavior.snoozeCount > 3) {
-      const newTime = new Date(reminder.scheduledTime);
-      newTime.setHours(15, 0, 0, 0); // 3pm
-      return { ...reminder, scheduledTime: newTime };
-    }
-    // If dismissed > 3 times, move to morning
-    if (behavior.dismissCount > 3) {
-      const newTime = new Date(reminder.scheduledTime);
-      newTime.setHours(9, 0, 0, 0); // 9am
-      return { ...reminder, scheduledTime: newTime };
-    }
-    return reminder;
+    // Repeatedly snoozed or dismissed: move to the slot that day most likely to end in completion
+    if (behavior.snoozeCount <= 3 && behavior.dismissCount <= 3) return reminder;
+    const model = await reminderEngine.getModel(reminder.userId);
+    const day = new Date(reminder.scheduledTime);
+    day.setHours(0, 0, 0, 0);
+    const best = model.bestSlot(reminder.context, day, new Date(day.getTime() + 24 * 60 * 60 * 1000 - 1));
+    return best ? { ...reminder, scheduledTime: best.time } : reminder;
   }
 
   // Predict user availability in a time window
   async predictUserAvailability(userId: string, timeWindow: TimeWindow): Promise<AvailabilityPrediction> {
-    // Check for busy times using stored calendar events (if available)
-    const eventsRaw = await AsyncStorage.getItem(`calendar_events_${userId}`);
-    const events: { start: string; end: string }[] = eventsRaw ? JSON.parse(eventsRaw) : [];
-    const busy = events.some(ev => {
-      const start = new Date(ev.start);
-      const end = new Date(ev.end);
-      return (
-        (timeWindow.start >= start && timeWindow.start < end) ||
-        (timeWindow.end > start && timeWindow.end <= end)
-      );
-    });
-    return { available: !busy, reason: busy ? 'Busy in calendar' : undefined };
+    // Busy blocks cached from the device calendar and imported .ics files
+    const [event] = (await calendarService.getBusyBlocks(userId, timeWindow.start, timeWindow.end)).filter(
+      block => !block.allDay
+    );
+    return { available: !event, reason: event ? `Busy: ${event.title}` : undefined };
   }
 }
 
@@ -329,25 +272,3 @@ export const reminderOptimizer = new ReminderOptimizer();
 // reminderEngine.scheduleReminder(task, preferences, userId);
 // reminderEngine.adaptToUserFeedback(reminderId, feedback);
 // reminderOptimizer.analyzeReminderPatterns(userId);
-
-// --- UI Compatibility: scheduleAdaptiveReminder ---
-/**
- * Schedules a time-based reminder for a task, as expected by the UI.
- * @param userId The user ID
- * @param task The task object (should have reminder_time and id/title/description)
- */
-export async function scheduleAdaptiveReminder(userId: string, task: any): Promise<void> {
-  try {
-    if (!task.reminder_time) throw new Error('No reminder_time specified');
-    await reminderEngine.scheduleReminder(
-      task,
-      {
-        type: 'time_based',
-        time: new Date(task.reminder_time),
-      },
-      userId
-    );
-  } catch (err) {
-    console.error('Failed to schedule adaptive reminder:', err);
-  }
-}
\ No newline at end of file
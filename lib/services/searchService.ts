@@ -0,0 +1,123 @@
+import { SearchOptions } from '../types';
+
+// Wrap matched terms in snippets; control characters cannot appear in task text
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_END = '\u0003';
+
+const SNIPPET_TOKENS = 12;
+const DEFAULT_LIMIT = 50;
+
+// bm25 weights in index column order: title, description, tags, category, ocr_text
+const COLUMN_WEIGHTS = [10, 4, 6, 3, 1];
+
+const PRIORITY_ORDER = "CASE tasks.priority WHEN 'high' THEN 3 WHEN 'medium' THEN 2 ELSE 1 END";
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Full-text search over the tasks_fts index (title, description, tags, category
+ * and attachment OCR text). Queries are built here; DatabaseService runs them.
+ */
+export class SearchService {
+  /**
+   * Turn user input into an FTS5 MATCH expression: every word must match, as a
+   * prefix, so results narrow while typing. Returns null when nothing is searchable.
+   */
+  static buildMatchQuery(text: string): string | null {
+    const terms = text
+      .toLowerCase()
+      .split(/\s+/)
+      .map(term => term.replace(/["*^:(){}\[\]]/g, '').trim())
+      .filter(Boolean);
+    if (terms.length === 0) return null;
+    return terms.map(term => `"${term}"*`).join(' ');
+  }
+
+  /**
+   * SQL and parameters for a search. Without a query this is a filtered listing.
+   */
+  static buildSearchQuery(userId: string, options: SearchOptions): { sql: string; params: any[] } {
+    const match = this.buildMatchQuery(options.query || '');
+    const filters = options.filters || {};
+    const where: string[] = ['tasks.user_id = ?', 'tasks.deleted_at IS NULL'];
+    const params: any[] = [];
+
+    if (match) {
+      where.push('tasks_fts MATCH ?');
+      params.push(match);
+    }
+    if (filters.status === 'completed') where.push('tasks.completed = 1');
+    if (filters.status === 'pending') where.push('tasks.completed = 0');
+    if (filters.priority && filters.priority !== 'all') {
+      where.push('tasks.priority = ?');
+      params.push(filters.priority);
+    }
+    if (filters.category) {
+      where.push('tasks.category = ?');
+      params.push(filters.category);
+    }
+    for (const tag of filters.tags || []) {
+      where.push('EXISTS (SELECT 1 FROM json_each(tasks.tags) WHERE json_each.value = ?)');
+      params.push(tag);
+    }
+    if (filters.dateRange) {
+      where.push('tasks.created_at >= ? AND tasks.created_at <= ?');
+      params.push(filters.dateRange.start, filters.dateRange.end);
+    }
+    if (filters.aiSuggested !== undefined) {
+      where.push('tasks.ai_suggested = ?');
+      params.push(filters.aiSuggested ? 1 : 0);
+    }
+
+    const columns = match
+      ? `tasks.*, bm25(tasks_fts, ${COLUMN_WEIGHTS.join(', ')}) AS search_rank,
+         snippet(tasks_fts, -1, '${HIGHLIGHT_START}', '${HIGHLIGHT_END}', '…', ${SNIPPET_TOKENS}) AS search_snippet`
+      : 'tasks.*, 0 AS search_rank, NULL AS search_snippet';
+    const from = match ? 'tasks_fts JOIN tasks ON tasks.rowid = tasks_fts.rowid' : 'tasks';
+
+    const sortBy = options.sortBy || (match ? 'relevance' : 'created_at');
+    const direction = options.sortOrder === 'asc' ? 'ASC' : 'DESC';
+    let orderBy: string;
+    switch (sortBy) {
+      case 'relevance':
+        // bm25 is lower for better matches
+        orderBy = match ? `search_rank ${direction === 'DESC' ? 'ASC' : 'DESC'}` : `tasks.created_at ${direction}`;
+        break;
+      case 'priority':
+        orderBy = `${PRIORITY_ORDER} ${direction}, tasks.created_at DESC`;
+        break;
+      case 'due_date':
+        orderBy = `tasks.due_date IS NULL, tasks.due_date ${direction}`;
+        break;
+      default:
+        orderBy = `tasks.${sortBy} ${direction}`;
+    }
+
+    params.unshift(userId);
+    params.push(options.limit ?? DEFAULT_LIMIT, options.offset ?? 0);
+
+    return {
+      sql: `SELECT ${columns} FROM ${from} WHERE ${where.join(' AND ')} ORDER BY ${orderBy} LIMIT ? OFFSET ?`,
+      params,
+    };
+  }
+
+  /**
+   * Split a snippet into plain and highlighted runs for rendering
+   */
+  static splitHighlights(snippet: string): HighlightSegment[] {
+    const segments: HighlightSegment[] = [];
+    const pattern = new RegExp(`${HIGHLIGHT_START}([^${HIGHLIGHT_END}]*)${HIGHLIGHT_END}`, 'g');
+    let last = 0;
+    for (const match of snippet.matchAll(pattern)) {
+      if (match.index! > last) segments.push({ text: snippet.slice(last, match.index), highlighted: false });
+      segments.push({ text: match[1], highlighted: true });
+      last = match.index! + match[0].length;
+    }
+    if (last < snippet.length) segments.push({ text: snippet.slice(last), highlighted: false });
+    return segments;
+  }
+}
@@ -0,0 +1,117 @@
+import { Task, SavedView, SmartFilterCondition } from '../types';
+
+type FilterableTask = Pick<
+  Task,
+  'completed' | 'priority' | 'category' | 'tags' | 'ai_suggested' | 'reminder_enabled' | 'due_date' | 'created_at'
+>;
+type FilterableView = Pick<SavedView, 'combinator' | 'conditions'>;
+
+function startOfDay(date: Date, offsetDays: number = 0): number {
+  const day = new Date(date.getFullYear(), date.getMonth(), date.getDate() + offsetDays);
+  return day.getTime();
+}
+
+function formatDays(days: number): string {
+  if (days === 0) return 'today';
+  if (days === 1) return 'tomorrow';
+  if (days === -1) return 'yesterday';
+  return days > 0 ? `in ${days} days` : `${-days} days ago`;
+}
+
+/**
+ * Evaluates saved views against tasks. Views are plain data so they can sync;
+ * everything relative ("overdue", "due this week") is resolved at evaluation time.
+ */
+export class SmartFilterService {
+  static matchesCondition(task: FilterableTask, condition: SmartFilterCondition, now: Date = new Date()): boolean {
+    switch (condition.field) {
+      case 'status':
+        return condition.value === 'completed' ? task.completed : !task.completed;
+      case 'priority':
+        return task.priority === condition.value;
+      case 'category':
+        return task.category.toLowerCase() === condition.value.toLowerCase();
+      case 'tag':
+        return task.tags.some(tag => tag.toLowerCase() === condition.value.toLowerCase());
+      case 'ai_suggested':
+        return task.ai_suggested === condition.value;
+      case 'has_reminder':
+        return task.reminder_enabled === condition.value;
+      case 'overdue': {
+        const overdue = !task.completed && !!task.due_date && new Date(task.due_date).getTime() < now.getTime();
+        return overdue === condition.value;
+      }
+      case 'due_date':
+      case 'created_at': {
+        const value = task[condition.field];
+        if (!value) return false;
+        // Day bounds are inclusive: toDays 0 covers the whole of today
+        const time = new Date(value).getTime();
+        if (condition.fromDays !== undefined && time < startOfDay(now, condition.fromDays)) return false;
+        if (condition.toDays !== undefined && time >= startOfDay(now, condition.toDays + 1)) return false;
+        return true;
+      }
+    }
+  }
+
+  /**
+   * Whether a task belongs in a view. A view without conditions matches everything.
+   */
+  static matches(task: FilterableTask, view: FilterableView, now: Date = new Date()): boolean {
+    if (view.conditions.length === 0) return true;
+    return view.combinator === 'or'
+      ? view.conditions.some(condition => this.matchesCondition(task, condition, now))
+      : view.conditions.every(condition => this.matchesCondition(task, condition, now));
+  }
+
+  static apply<T extends FilterableTask>(tasks: T[], view: FilterableView, now: Date = new Date()): T[] {
+    return tasks.filter(task => this.matches(task, view, now));
+  }
+
+  static count(tasks: FilterableTask[], view: FilterableView, now: Date = new Date()): number {
+    return tasks.reduce((total, task) => total + (this.matches(task, view, now) ? 1 : 0), 0);
+  }
+
+  /**
+   * Short label for a condition, as shown on the editor's chips
+   */
+  static describe(condition: SmartFilterCondition): string {
+    switch (condition.field) {
+      case 'status':
+        return condition.value === 'completed' ? 'Done' : 'Pending';
+      case 'priority':
+        return `${condition.value[0].toUpperCase()}${condition.value.slice(1)} priority`;
+      case 'category':
+        return condition.value;
+      case 'tag':
+        return `#${condition.value}`;
+      case 'ai_suggested':
+        return condition.value ? 'AI suggested' : 'Added by me';
+      case 'has_reminder':
+        return condition.value ? 'Has reminder' : 'No reminder';
+      case 'overdue':
+        return condition.value ? 'Overdue' : 'Not overdue';
+      case 'due_date':
+      case 'created_at': {
+        const label = condition.field === 'due_date' ? 'Due' : 'Created';
+        const { fromDays, toDays } = condition;
+        if (fromDays !== undefined && fromDays === toDays) return `${label} ${formatDays(fromDays)}`;
+        if (fromDays === 0 && toDays !== undefined && toDays > 0) return `${label} in the next ${toDays} days`;
+        if (toDays === 0 && fromDays !== undefined && fromDays < 0) return `${label} in the last ${-fromDays} days`;
+        if (fromDays !== undefined && toDays !== undefined) {
+          return `${label} ${formatDays(fromDays)} to ${formatDays(toDays)}`;
+        }
+        if (fromDays !== undefined) return `${label} from ${formatDays(fromDays)}`;
+        if (toDays !== undefined) return `${label} until ${formatDays(toDays)}`;
+        return `Has ${condition.field === 'due_date' ? 'due date' : 'created date'}`;
+      }
+    }
+  }
+
+  /**
+   * Whether two conditions filter on the same thing with the same value
+   */
+  static sameCondition(a: SmartFilterCondition, b: SmartFilterCondition): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+}
@@ -0,0 +1,499 @@
+import { Task } from '../types';
+import { ConfidenceWeights } from './patternConfidenceScoring';
+import { CompletionStats, EMPTY_COMPLETION_STATS, foldCompletions, buildPatterns } from './patternStatistics';
+import {
+  CandidatePipeline,
+  SuggestionContext,
+  CandidateGenerator,
+  RankingWeights,
+  RankedCandidate,
+  titleSimilarity,
+} from './candidatePipeline';
+import { DEFAULT_GENERATORS } from './suggestionGenerators';
+
+/**
+ * Offline evaluation of suggestions. Replays a user's task history day by day:
+ * at each step the patterns are folded from the completions before that moment
+ * only, the pipeline ranks suggestions as it would have then, and they are
+ * scored against what the user actually completed next. Patterns, feedback and
+ * learning are all passed to the candidate pipeline, so nothing is read from or
+ * written to storage, nothing here needs the app's runtime, and two
+ * configurations can be compared on a synthetic history or an exported one
+ * (see scripts/evaluateSuggestions.ts).
+ */
+
+export interface EvaluationDataset {
+  name: string;
+  userId: string;
+  tasks: Task[];
+}
+
+/**
+ * What is being tuned: the ranking weights, the pattern confidence weights,
+ * the confidence floor and, optionally, the generators
+ */
+export interface EvaluationConfig {
+  name: string;
+  weights?: Partial<RankingWeights>;
+  confidenceWeights?: Partial<ConfidenceWeights>;
+  minConfidence?: number;
+  generators?: CandidateGenerator[];
+}
+
+export interface EvaluationOptions {
+  k: number; // suggestions shown per step
+  hour: number; // hour of the day each step is replayed at
+  horizonHours: number; // completions this soon after a step count as what the user did next
+  warmupDays: number; // history folded before the first step
+  minPatternConfidence: number; // below this a task's timing isn't published, as in PatternEngineConfig
+  matchSimilarity: number; // title overlap for a suggestion to count as a completed task
+  calibrationBuckets: number;
+}
+
+export const DEFAULT_EVALUATION_OPTIONS: EvaluationOptions = {
+  k: 5,
+  hour: 9,
+  horizonHours: 24,
+  warmupDays: 14,
+  minPatternConfidence: 0.3,
+  matchSimilarity: 0.5,
+  calibrationBuckets: 10,
+};
+
+export interface CalibrationBucket {
+  lower: number;
+  upper: number;
+  count: number;
+  confidence: number; // mean predicted
+  hitRate: number; // share actually done
+}
+
+export interface Calibration {
+  samples: number;
+  expectedError: number; // gap between confidence and hit rate, weighted by bucket size
+  brierScore: number;
+  buckets: CalibrationBucket[]; // non-empty ones only
+}
+
+export interface EvaluationMetrics {
+  steps: number; // days scored: the user completed something within the horizon
+  suggestions: number; // shown on those days
+  precisionAtK: number;
+  recall: number; // share of the completions that were suggested
+  calibration: Calibration; // suggestion confidence
+  patternCalibration: Calibration; // source pattern scores from PatternConfidenceScoring
+  categoryDiversity: number; // distinct categories per suggestion shown
+  titleDiversity: number; // mean title dissimilarity between suggestions shown together
+}
+
+export interface ShownSuggestion {
+  title: string;
+  category: string;
+  confidence: number;
+  patternScore?: number; // mean overall score of its source patterns
+  hit: boolean;
+}
+
+export interface StepResult {
+  at: string; // ISO date string
+  shown: ShownSuggestion[];
+  completed: string[]; // titles completed within the horizon
+  matched: number;
+  errors: string[]; // pipeline stages that failed
+}
+
+export interface EvaluationResult {
+  dataset: string;
+  config: string;
+  metrics: EvaluationMetrics;
+  steps: StepResult[];
+}
+
+export interface EvaluationComparison {
+  dataset: string;
+  options: EvaluationOptions;
+  baseline: EvaluationResult;
+  candidate: EvaluationResult;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+// As many tasks as buildSuggestionContext reads
+const RECENT_TASKS = 50;
+
+const time = (iso: string) => new Date(iso).getTime();
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * The tasks as the app would have stored them at `now`: created by then,
+ * newest first, and not yet completed if their completion came later
+ */
+function tasksAt(tasks: Task[], now: Date): Task[] {
+  return tasks
+    .filter(task => time(task.created_at) <= now.getTime())
+    .map(task =>
+      task.completed_at && time(task.completed_at) > now.getTime() ? { ...task, completed: false, completed_at: undefined } : task
+    )
+    .sort((a, b) => time(b.created_at) - time(a.created_at));
+}
+
+/**
+ * Overall score of the patterns behind a suggestion, from the factors and
+ * weights its explanation carries
+ */
+function patternScore(candidate: RankedCandidate): number | undefined {
+  const scores = (candidate.explanation?.sources || [])
+    .filter(source => source.factors && source.factors.length > 0)
+    .map(source => source.factors!.reduce((sum, factor) => sum + factor.value * factor.weight, 0));
+  return scores.length > 0 ? mean(scores) : undefined;
+}
+
+function scoreStep(now: Date, candidates: RankedCandidate[], next: Task[], errors: string[], options: EvaluationOptions): StepResult {
+  const unmatched = [...next];
+  const shown = candidates.slice(0, options.k).map(candidate => {
+    // Each completion answers one suggestion at most
+    const index = unmatched.findIndex(task => titleSimilarity(candidate.title.trim(), task.title.trim()) >= options.matchSimilarity);
+    if (index >= 0) unmatched.splice(index, 1);
+    return {
+      title: candidate.title,
+      category: candidate.category,
+      confidence: candidate.confidence,
+      patternScore: patternScore(candidate),
+      hit: index >= 0,
+    };
+  });
+
+  return {
+    at: now.toISOString(),
+    shown,
+    completed: next.map(task => task.title),
+    matched: next.length - unmatched.length,
+    errors,
+  };
+}
+
+/**
+ * Bucket predictions by confidence and compare each bucket's mean confidence
+ * with how often those suggestions were acted on
+ */
+export function calibrate(samples: { confidence: number; hit: boolean }[], bucketCount: number): Calibration {
+  const buckets: CalibrationBucket[] = Array.from({ length: bucketCount }, (_, i) => ({
+    lower: i / bucketCount,
+    upper: (i + 1) / bucketCount,
+    count: 0,
+    confidence: 0,
+    hitRate: 0,
+  }));
+
+  for (const sample of samples) {
+    const confidence = Math.max(0, Math.min(1, sample.confidence));
+    const bucket = buckets[Math.min(bucketCount - 1, Math.floor(confidence * bucketCount))];
+    bucket.count++;
+    bucket.confidence += confidence;
+    bucket.hitRate += sample.hit ? 1 : 0;
+  }
+
+  const filled = buckets
+    .filter(bucket => bucket.count > 0)
+    .map(bucket => ({ ...bucket, confidence: bucket.confidence / bucket.count, hitRate: bucket.hitRate / bucket.count }));
+  return {
+    samples: samples.length,
+    expectedError: samples.length > 0
+      ? filled.reduce((sum, bucket) => sum + (bucket.count / samples.length) * Math.abs(bucket.confidence - bucket.hitRate), 0)
+      : 0,
+    brierScore: mean(samples.map(sample => (sample.confidence - (sample.hit ? 1 : 0)) ** 2)),
+    buckets: filled,
+  };
+}
+
+export function summarizeSteps(steps: StepResult[], options: EvaluationOptions): EvaluationMetrics {
+  const shown = steps.flatMap(step => step.shown);
+  const together = steps.filter(step => step.shown.length > 1);
+  const pairwise = (step: StepResult) =>
+    mean(step.shown.flatMap((a, i) => step.shown.slice(i + 1).map(b => 1 - titleSimilarity(a.title, b.title))));
+
+  return {
+    steps: steps.length,
+    suggestions: shown.length,
+    precisionAtK: mean(steps.map(step => step.shown.filter(s => s.hit).length / options.k)),
+    recall: mean(steps.map(step => step.matched / step.completed.length)),
+    calibration: calibrate(shown, options.calibrationBuckets),
+    patternCalibration: calibrate(
+      shown.filter(s => s.patternScore !== undefined).map(s => ({ confidence: s.patternScore!, hit: s.hit })),
+      options.calibrationBuckets
+    ),
+    categoryDiversity: mean(
+      steps.filter(step => step.shown.length > 0).map(step => new Set(step.shown.map(s => s.category)).size / step.shown.length)
+    ),
+    titleDiversity: mean(together.map(pairwise)),
+  };
+}
+
+/**
+ * Replay the dataset under one configuration. Steps run once a day at
+ * `options.hour` from the end of the warm-up to the last completion; days on
+ * which the user completed nothing within the horizon aren't scored. The
+ * patterns are folded incrementally, so unlike the weekly recompute they keep
+ * completions older than the analysis window.
+ */
+export async function replayHistory(
+  dataset: EvaluationDataset,
+  config: EvaluationConfig,
+  options: Partial<EvaluationOptions> = {}
+): Promise<EvaluationResult> {
+  const settings = { ...DEFAULT_EVALUATION_OPTIONS, ...options };
+  const tasks = dataset.tasks.filter(task => !task.deleted_at);
+  const completed = tasks
+    .filter(task => task.completed && task.completed_at)
+    .sort((a, b) => time(a.completed_at!) - time(b.completed_at!));
+
+  const steps: StepResult[] = [];
+  if (completed.length === 0) {
+    return { dataset: dataset.name, config: config.name, metrics: summarizeSteps(steps, settings), steps };
+  }
+
+  const firstDay = startOfDay(new Date(completed[0].completed_at!));
+  const lastDay = startOfDay(new Date(completed[completed.length - 1].completed_at!));
+  let stats: CompletionStats = EMPTY_COMPLETION_STATS;
+  let folded = 0;
+
+  for (
+    let day = new Date(firstDay.getFullYear(), firstDay.getMonth(), firstDay.getDate() + settings.warmupDays);
+    day <= lastDay;
+    day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)
+  ) {
+    const now = new Date(day.getFullYear(), day.getMonth(), day.getDate(), settings.hour);
+
+    // Only what had been completed by now goes into the patterns
+    let upTo = folded;
+    while (upTo < completed.length && time(completed[upTo].completed_at!) <= now.getTime()) upTo++;
+    stats = foldCompletions(stats, completed.slice(folded, upTo), completed[folded - 1]);
+    folded = upTo;
+
+    const until = now.getTime() + settings.horizonHours * HOUR_MS;
+    const next = completed.slice(folded).filter(task => time(task.completed_at!) <= until);
+    if (next.length === 0) continue;
+
+    const snapshot = buildPatterns(dataset.userId, stats, now, settings.minPatternConfidence);
+    const pipeline = new CandidatePipeline({
+      generators: config.generators || DEFAULT_GENERATORS,
+      weights: config.weights,
+      confidenceWeights: config.confidenceWeights,
+      minConfidence: config.minConfidence,
+      maxSuggestions: settings.k,
+      patterns: async () => snapshot,
+      feedbackScore: async () => 0.5, // no feedback is replayed
+      learning: async (_userId, candidates) => candidates.map(() => []),
+    });
+
+    const stored = tasksAt(tasks, now);
+    const context: SuggestionContext = {
+      userId: dataset.userId,
+      currentTime: now,
+      recentTasks: stored.slice(0, RECENT_TASKS),
+      trackedTasks: stored.filter(task => task.completed && task.tracked_minutes),
+    };
+    const { candidates, trace } = await pipeline.run(context, settings.k);
+    const errors = trace.filter(stage => stage.error).map(stage => `${stage.stage}: ${stage.error}`);
+    steps.push(scoreStep(now, candidates, next, errors, settings));
+  }
+
+  return { dataset: dataset.name, config: config.name, metrics: summarizeSteps(steps, settings), steps };
+}
+
+/**
+ * Replay the same dataset under two configurations
+ */
+export async function compareConfigurations(
+  dataset: EvaluationDataset,
+  baseline: EvaluationConfig,
+  candidate: EvaluationConfig,
+  options: Partial<EvaluationOptions> = {}
+): Promise<EvaluationComparison> {
+  const settings = { ...DEFAULT_EVALUATION_OPTIONS, ...options };
+  return {
+    dataset: dataset.name,
+    options: settings,
+    baseline: await replayHistory(dataset, baseline, settings),
+    candidate: await replayHistory(dataset, candidate, settings),
+  };
+}
+
+/**
+ * The comparison as a plain-text table, one metric per row with the change
+ * and whether it's an improvement
+ */
+export function formatComparison(comparison: EvaluationComparison): string {
+  const { baseline, candidate, options } = comparison;
+  const rows: { label: string; value: (metrics: EvaluationMetrics) => number; higherIsBetter: boolean }[] = [
+    { label: `precision@${options.k}`, value: m => m.precisionAtK, higherIsBetter: true },
+    { label: 'recall', value: m => m.recall, higherIsBetter: true },
+    { label: 'calibration error', value: m => m.calibration.expectedError, higherIsBetter: false },
+    { label: 'brier score', value: m => m.calibration.brierScore, higherIsBetter: false },
+    { label: 'pattern calibration error', value: m => m.patternCalibration.expectedError, higherIsBetter: false },
+    { label: 'pattern brier score', value: m => m.patternCalibration.brierScore, higherIsBetter: false },
+    { label: 'category diversity', value: m => m.categoryDiversity, higherIsBetter: true },
+    { label: 'title diversity', value: m => m.titleDiversity, higherIsBetter: true },
+  ];
+
+  const width = Math.max(...rows.map(row => row.label.length), 6) + 2;
+  const column = (text: string) => text.padStart(12);
+  const lines = [
+    `Suggestion evaluation: ${comparison.dataset}`,
+    `${baseline.metrics.steps} days scored, top ${options.k} at ${options.hour}:00, completions within ${options.horizonHours}h`,
+    '',
+    `${'metric'.padEnd(width)}${column(baseline.config)}${column(candidate.config)}${column('change')}`,
+  ];
+
+  for (const row of rows) {
+    const before = row.value(baseline.metrics);
+    const after = row.value(candidate.metrics);
+    const change = after - before;
+    const verdict = Math.abs(change) < 0.0005 ? '' : change > 0 === row.higherIsBetter ? '  better' : '  worse';
+    lines.push(
+      `${row.label.padEnd(width)}${column(before.toFixed(3))}${column(after.toFixed(3))}${column(
+        `${change >= 0 ? '+' : ''}${change.toFixed(3)}`
+      )}${verdict}`
+    );
+  }
+
+  lines.push('', `${'suggestions shown'.padEnd(width)}${column(String(baseline.metrics.suggestions))}${column(String(candidate.metrics.suggestions))}`);
+  const errors = baseline.steps.concat(candidate.steps).reduce((count, step) => count + step.errors.length, 0);
+  if (errors > 0) lines.push(`${errors} pipeline stage failures, see the step results`);
+  return lines.join('\n');
+}
+
+// --- Datasets ---
+
+// The part of a DataTransferService export that is replayed, without loading the service
+interface ExportedTasks {
+  format?: string;
+  version?: number;
+  tasks?: Task[];
+}
+
+/**
+ * The tasks of a data export (see DataTransferService), for the user who owns most of them
+ */
+export function datasetFromExport(payload: ExportedTasks, name: string = 'export'): EvaluationDataset {
+  const tasks = (payload.tasks || []).filter(task => !task.deleted_at);
+  if (tasks.length === 0) throw new Error('The export has no tasks to replay');
+
+  const counts: Record<string, number> = {};
+  for (const task of tasks) counts[task.user_id] = (counts[task.user_id] || 0) + 1;
+  const userId = Object.keys(counts).reduce((a, b) => (counts[b] > counts[a] ? b : a));
+  return { name, userId, tasks: tasks.filter(task => task.user_id === userId) };
+}
+
+interface SyntheticHabit {
+  title: string;
+  category: string;
+  hour: number;
+  days?: number[]; // days of the week, Sunday = 0; every day when missing
+  dayOfMonth?: number;
+  followsMinutes?: number; // minutes after the habit before it in the list, on the same days
+}
+
+const SYNTHETIC_HABITS: SyntheticHabit[] = [
+  { title: 'Morning run', category: 'Health', hour: 7, days: [1, 3, 5] },
+  { title: 'Check email', category: 'Work', hour: 9, days: [1, 2, 3, 4, 5] },
+  { title: 'Write standup notes', category: 'Work', hour: 9, days: [1, 2, 3, 4, 5], followsMinutes: 30 },
+  { title: 'Weekly review', category: 'Work', hour: 16, days: [5] },
+  { title: 'Water plants', category: 'Personal', hour: 18, days: [0, 3] },
+  { title: 'Grocery shopping', category: 'Personal', hour: 11, days: [6] },
+  { title: 'Read before bed', category: 'Learning', hour: 21 },
+  { title: 'Pay rent', category: 'Finance', hour: 10, dayOfMonth: 1 },
+];
+
+const ONE_OFF_CATEGORIES = ['Work', 'Personal', 'Health', 'Learning', 'Social'];
+
+export interface SyntheticOptions {
+  name: string;
+  userId: string;
+  start: Date;
+  days: number;
+  seed: number;
+  noise: number; // 0-1: chance a habit is skipped, how far its time wanders, and how many one-off tasks appear
+}
+
+// Small seeded generator (mulberry32), so a seed always yields the same history
+function random(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * A made-up user with a handful of weekly, daily and monthly habits, a
+ * two-step workday routine and some one-off tasks, for checking that a change
+ * moves the metrics the expected way on a history where the answer is known
+ */
+export function syntheticDataset(options: Partial<SyntheticOptions> = {}): EvaluationDataset {
+  const { name, userId, start, days, seed, noise }: SyntheticOptions = {
+    name: 'synthetic',
+    userId: 'synthetic-user',
+    start: new Date(2024, 0, 1),
+    days: 90,
+    seed: 1,
+    noise: 0.15,
+    ...options,
+  };
+  const next = random(seed);
+  const tasks: Task[] = [];
+
+  const add = (title: string, category: string, completedAt: Date) => {
+    const createdAt = new Date(completedAt.getTime() - (0.5 + next() * 2) * HOUR_MS);
+    tasks.push({
+      id: `${userId}-task-${tasks.length + 1}`,
+      user_id: userId,
+      title,
+      completed: true,
+      completed_at: completedAt.toISOString(),
+      logged_after_completion: false,
+      priority: 'medium',
+      category,
+      tags: [],
+      ai_suggested: false,
+      reminder_enabled: false,
+      created_at: createdAt.toISOString(),
+      updated_at: completedAt.toISOString(),
+    });
+  };
+
+  for (let offset = 0; offset < days; offset++) {
+    const day = new Date(start.getFullYear(), start.getMonth(), start.getDate() + offset);
+    let previous: Date | null = null;
+
+    for (const habit of SYNTHETIC_HABITS) {
+      const due = habit.dayOfMonth !== undefined ? day.getDate() === habit.dayOfMonth : !habit.days || habit.days.includes(day.getDay());
+      if (!due || next() < noise) {
+        previous = null;
+        continue;
+      }
+
+      const jitterMinutes = (next() - 0.5) * 2 * noise * 120;
+      const completedAt: Date = habit.followsMinutes && previous
+        ? new Date(previous.getTime() + habit.followsMinutes * 60 * 1000)
+        : new Date(day.getFullYear(), day.getMonth(), day.getDate(), habit.hour, Math.round(30 + jitterMinutes));
+      add(habit.title, habit.category, completedAt);
+      previous = completedAt;
+    }
+
+    const oneOffs = Math.floor(next() * noise * 6);
+    for (let i = 0; i < oneOffs; i++) {
+      const category = ONE_OFF_CATEGORIES[Math.floor(next() * ONE_OFF_CATEGORIES.length)];
+      add(`${category} errand ${tasks.length + 1}`, category, new Date(day.getFullYear(), day.getMonth(), day.getDate(), 8 + Math.floor(next() * 13)));
+    }
+  }
+
+  return { name, userId, tasks };
+}
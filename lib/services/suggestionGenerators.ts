@@ -0,0 +1,541 @@
+import { UserPattern, TemporalPattern } from '../patternDatabase';
+import { ExplanationSource } from '../types';
+import { estimateMinutes, formatDuration } from './timeBlockPlanner';
+import { CandidateGenerator, GeneratorInput, SuggestionCandidate, SuggestionContext } from './candidatePipeline';
+
+/**
+ * Candidate generators for the suggestion pipeline. The pattern generators
+ * read what the pattern engine has learned; the heuristic ones cover users
+ * with too little history for patterns.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Shown for `based_on` entries on the suggestions screen
+export const SOURCE_LABELS: Record<string, string> = {
+  temporal: 'Time of day habits',
+  sequential: 'Workflow order',
+  contextual: 'Current context',
+  frequency: 'Recurring rhythm',
+  routine: 'Daily routine',
+  balance: 'Category balance',
+  overdue: 'Overdue tasks',
+};
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+function formatHour(hour: number): string {
+  const period = hour >= 12 ? 'PM' : 'AM';
+  const displayHour = hour === 0 ? 12 : hour > 12 ? hour - 12 : hour;
+  return `${displayHour}:00 ${period}`;
+}
+
+function priorityFromFrequency(frequency: number): 'low' | 'medium' | 'high' {
+  if (frequency >= 5) return 'high';
+  if (frequency >= 2) return 'medium';
+  return 'low';
+}
+
+function hoursFrom(now: Date, hours: number): Date {
+  return new Date(now.getTime() + hours * HOUR_MS);
+}
+
+function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRadians = (degrees: number) => degrees * (Math.PI / 180);
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Time tracked on similar completed tasks, or a rough guess for the category
+ */
+function estimateTime(category: string, context: SuggestionContext, title?: string): string {
+  const tracked = estimateMinutes(context.trackedTasks || context.recentTasks, { title, category });
+  if (tracked !== undefined) return formatDuration(tracked);
+
+  const timeEstimates: Record<string, string> = {
+    'Work': '1-2 hours',
+    'Personal': '30 mins',
+    'Health': '45 mins',
+    'Shopping': '1 hour',
+    'Exercise': '1 hour',
+    'Learning': '1-2 hours',
+    'Social': '2-3 hours',
+    'Household': '30-60 mins'
+  };
+  return timeEstimates[category] || '30-60 mins';
+}
+
+/**
+ * When a timed pattern next comes round: today at its hour, or a period on if that has passed
+ */
+function nextOccurrence(pattern: TemporalPattern, now: Date): Date {
+  const optimalTime = new Date(now);
+  optimalTime.setHours(pattern.time_of_day, 0, 0, 0);
+  if (optimalTime.getTime() < now.getTime()) {
+    optimalTime.setDate(optimalTime.getDate() + (pattern.period_type === 'daily' ? 1 : pattern.period_type === 'weekly' ? 7 : 30));
+  }
+  return optimalTime;
+}
+
+function temporalRelevance(pattern: TemporalPattern, context: SuggestionContext): number {
+  const hourDiff = Math.abs(context.currentTime.getHours() - pattern.time_of_day);
+  const timeRelevance = Math.max(0, 1 - hourDiff / 12); // Decay over 12 hours
+  const dayRelevance = context.currentTime.getDay() === pattern.day_of_week ? 1 : 0.3;
+  return (timeRelevance + dayRelevance) / 2;
+}
+
+function patternRelevance(pattern: UserPattern, context: SuggestionContext): number {
+  const patternData = pattern.pattern_data;
+  let relevance = 0.5;
+
+  if (patternData.timeContext) {
+    const currentHour = context.currentTime.getHours();
+    if (currentHour >= patternData.timeContext.start && currentHour <= patternData.timeContext.end) relevance += 0.3;
+  }
+
+  if (context.location && patternData.location) {
+    const distance = distanceKm(
+      context.location.latitude, context.location.longitude,
+      patternData.location.latitude, patternData.location.longitude
+    );
+    if (distance < 0.5) relevance += 0.4;
+    else if (distance < 2) relevance += 0.2;
+  }
+
+  return Math.min(1, relevance);
+}
+
+/**
+ * Where and when the context matches a contextual pattern
+ */
+function contextMatches(pattern: UserPattern, context: SuggestionContext): string[] {
+  const patternData = pattern.pattern_data;
+  const matches: string[] = [];
+
+  if (context.location && patternData.location) {
+    const distance = distanceKm(
+      context.location.latitude, context.location.longitude,
+      patternData.location.latitude, patternData.location.longitude
+    );
+    if (distance < 0.5) matches.push(`You're near ${patternData.location.name || 'a familiar location'}`);
+  }
+
+  if (patternData.timeContext) {
+    const currentHour = context.currentTime.getHours();
+    const { start, end } = patternData.timeContext;
+    if (currentHour >= start && currentHour <= end) {
+      matches.push(`Time matches your usual pattern (${start}:00-${end}:00)`);
+    }
+  }
+
+  return matches;
+}
+
+function usualTime(pattern: TemporalPattern): string {
+  return `It's your usual time: ${DAY_NAMES[pattern.day_of_week]} around ${formatHour(pattern.time_of_day)}`;
+}
+
+function temporalSource(pattern: TemporalPattern): ExplanationSource {
+  return {
+    patternId: pattern.id,
+    patternTable: 'temporal_patterns',
+    patternType: 'temporal',
+    label: pattern.task_title,
+    confidence: pattern.confidence,
+  };
+}
+
+function userPatternSource(pattern: UserPattern, label: string): ExplanationSource {
+  return {
+    patternId: pattern.id,
+    patternTable: 'user_patterns',
+    patternType: pattern.pattern_type,
+    label,
+    confidence: pattern.confidence,
+  };
+}
+
+function minDaysBetween(periodType: string): number {
+  switch (periodType) {
+    case 'daily': return 1;
+    case 'monthly': return 30;
+    default: return 7;
+  }
+}
+
+/**
+ * Tasks usually done around this hour on this weekday, not done since
+ */
+export const temporalGenerator: CandidateGenerator = {
+  name: 'temporal',
+  generate({ temporalPatterns, context }: GeneratorInput): SuggestionCandidate[] {
+    const candidates: SuggestionCandidate[] = [];
+    for (const pattern of temporalPatterns) {
+      const hourDiff = Math.abs(context.currentTime.getHours() - pattern.time_of_day);
+      if (hourDiff > 1 || context.currentTime.getDay() !== pattern.day_of_week || pattern.confidence <= 0.3) continue;
+
+      const daysSince = (context.currentTime.getTime() - new Date(pattern.last_occurrence).getTime()) / DAY_MS;
+      if (daysSince < minDaysBetween(pattern.period_type)) continue;
+
+      candidates.push({
+        title: pattern.task_title,
+        description: `Based on your ${pattern.period_type} pattern`,
+        category: pattern.task_category,
+        priority: priorityFromFrequency(pattern.frequency),
+        confidence: pattern.confidence * 0.9,
+        reasoning: [
+          `You typically do this task on ${DAY_NAMES[pattern.day_of_week]} around ${formatHour(pattern.time_of_day)}`,
+          `Last completed ${Math.floor(daysSince)} days ago`
+        ],
+        basedOn: ['temporal'],
+        sources: [temporalSource(pattern)],
+        contextMatches: [usualTime(pattern)],
+        timeEstimate: estimateTime(pattern.task_category, context, pattern.task_title),
+        optimalTiming: nextOccurrence(pattern, context.currentTime),
+        expiresAt: hoursFrom(context.currentTime, 2),
+        contextRelevance: temporalRelevance(pattern, context)
+      });
+    }
+    return candidates;
+  },
+};
+
+/**
+ * The step that usually follows one just completed
+ */
+export const sequentialGenerator: CandidateGenerator = {
+  name: 'sequential',
+  generate({ patterns, context }: GeneratorInput): SuggestionCandidate[] {
+    const candidates: SuggestionCandidate[] = [];
+    const justCompleted = context.recentTasks
+      .filter(t => t.completed)
+      .slice(0, 5)
+      .map(t => t.title.toLowerCase());
+
+    for (const pattern of patterns.filter(p => p.pattern_type === 'sequential' && p.confidence >= 0.4)) {
+      const patternData = pattern.pattern_data;
+      const sequence: string[] = patternData.sequence || [];
+
+      for (let i = 0; i < sequence.length - 1; i++) {
+        const previousTask = sequence[i].toLowerCase();
+        const nextTask = sequence[i + 1];
+        if (!justCompleted.includes(previousTask)) continue;
+
+        const doneToday = context.recentTasks.some(t =>
+          t.completed && t.title.toLowerCase() === nextTask.toLowerCase() &&
+          new Date(t.completed_at!).getTime() > context.currentTime.getTime() - DAY_MS
+        );
+        if (doneToday) continue;
+
+        candidates.push({
+          title: nextTask,
+          description: 'Next step in your workflow',
+          category: patternData.category || 'General',
+          priority: 'medium',
+          confidence: pattern.confidence * 0.85,
+          reasoning: [`You typically do this after "${previousTask}"`, 'Part of your established workflow pattern'],
+          basedOn: ['sequential'],
+          sources: [userPatternSource(pattern, sequence.join(' → '))],
+          contextMatches: [`You just completed "${sequence[i]}"`],
+          timeEstimate: estimateTime(patternData.category || 'General', context, nextTask),
+          expiresAt: hoursFrom(context.currentTime, 4),
+          contextRelevance: patternRelevance(pattern, context)
+        });
+      }
+    }
+    return candidates;
+  },
+};
+
+/**
+ * What usually gets done at this time or place
+ */
+export const contextualGenerator: CandidateGenerator = {
+  name: 'contextual',
+  generate({ patterns, context }: GeneratorInput): SuggestionCandidate[] {
+    const candidates: SuggestionCandidate[] = [];
+    for (const pattern of patterns.filter(p => p.pattern_type === 'contextual' && p.confidence >= 0.3)) {
+      const patternData = pattern.pattern_data;
+      const matchReasons = contextMatches(pattern, context);
+      if (matchReasons.length === 0) continue;
+
+      const title = patternData.taskTitle || `${patternData.category || 'General'} task`;
+      candidates.push({
+        title,
+        description: patternData.description || 'Based on your current context',
+        category: patternData.category || 'General',
+        priority: patternData.priority || 'medium',
+        confidence: pattern.confidence * 0.8,
+        reasoning: matchReasons,
+        basedOn: ['contextual'],
+        sources: [userPatternSource(pattern, title)],
+        contextMatches: matchReasons,
+        timeEstimate: patternData.timeEstimate || estimateTime(patternData.category || 'General', context, patternData.taskTitle),
+        expiresAt: hoursFrom(context.currentTime, 3),
+        contextRelevance: patternRelevance(pattern, context)
+      });
+    }
+    return candidates;
+  },
+};
+
+/**
+ * Recurring tasks whose usual interval is nearly up
+ */
+export const frequencyGenerator: CandidateGenerator = {
+  name: 'frequency',
+  generate({ patterns, context }: GeneratorInput): SuggestionCandidate[] {
+    const candidates: SuggestionCandidate[] = [];
+    for (const pattern of patterns.filter(p => p.pattern_type === 'frequency' && p.confidence >= 0.4)) {
+      if (!pattern.last_occurrence) continue;
+      const patternData = pattern.pattern_data;
+
+      const daysSince = (context.currentTime.getTime() - new Date(pattern.last_occurrence).getTime()) / DAY_MS;
+      const expectedInterval = patternData.intervalDays || 7;
+      if (daysSince < expectedInterval * 0.8) continue;
+
+      candidates.push({
+        title: patternData.taskTitle || 'Recurring Task',
+        description: patternData.description || `You typically do this every ${expectedInterval} days`,
+        category: patternData.category || 'General',
+        priority: daysSince > expectedInterval ? 'high' : 'medium',
+        confidence: Math.min(1, pattern.confidence * (daysSince / expectedInterval)),
+        reasoning: [
+          `You typically do this every ${expectedInterval} days`,
+          `Last completed ${Math.floor(daysSince)} days ago`
+        ],
+        basedOn: ['frequency'],
+        sources: [userPatternSource(pattern, patternData.taskTitle || 'Recurring Task')],
+        timeEstimate: patternData.timeEstimate || estimateTime(patternData.category || 'General', context, patternData.taskTitle),
+        expiresAt: hoursFrom(context.currentTime, 24),
+        contextRelevance: 0.5 // Frequency says nothing about the current context
+      });
+    }
+    return candidates;
+  },
+};
+
+/**
+ * Tasks backed by two kinds of pattern at once: a timed habit that is also
+ * regular, or a workflow step that fits the current context
+ */
+export const hybridGenerator: CandidateGenerator = {
+  name: 'hybrid',
+  generate({ patterns, temporalPatterns, context }: GeneratorInput): SuggestionCandidate[] {
+    const candidates: SuggestionCandidate[] = [];
+
+    for (const temporal of temporalPatterns) {
+      const frequency = patterns.find(p =>
+        p.pattern_type === 'frequency' &&
+        p.pattern_data.taskTitle?.toLowerCase() === temporal.task_title.toLowerCase()
+      );
+      if (!frequency) continue;
+
+      const strength = (temporal.confidence + frequency.confidence) / 2;
+      if (strength <= 0.5) continue;
+      const relevance = temporalRelevance(temporal, context);
+
+      candidates.push({
+        title: temporal.task_title,
+        description: 'Suggested based on multiple patterns: timing and frequency patterns',
+        category: temporal.task_category,
+        priority: priorityFromFrequency(temporal.frequency),
+        confidence: Math.min(0.95, strength + 0.1 + relevance * 0.15),
+        reasoning: [
+          `Matches your ${temporal.period_type} schedule on ${DAY_NAMES[temporal.day_of_week]}`,
+          `Due based on your ${frequency.pattern_data.intervalDays}-day cycle`
+        ],
+        basedOn: ['temporal', 'frequency'],
+        sources: [temporalSource(temporal), userPatternSource(frequency, temporal.task_title)],
+        contextMatches: relevance > 0.5 ? [usualTime(temporal)] : [],
+        timeEstimate: estimateTime(temporal.task_category, context, temporal.task_title),
+        optimalTiming: nextOccurrence(temporal, context.currentTime),
+        expiresAt: hoursFrom(context.currentTime, 6),
+        patternStrength: strength,
+        contextRelevance: relevance
+      });
+    }
+
+    const contextual = patterns.filter(p => p.pattern_type === 'contextual');
+    for (const sequential of patterns.filter(p => p.pattern_type === 'sequential')) {
+      for (const contextPattern of contextual) {
+        const sameCategory = sequential.pattern_data.category && sequential.pattern_data.category === contextPattern.pattern_data.category;
+        const relevance = patternRelevance(contextPattern, context);
+        const strength = (sequential.confidence + contextPattern.confidence) / 2;
+        // Only while the context actually holds
+        if (!sameCategory || relevance <= 0.5 || strength <= 0.4) continue;
+
+        const sequence: string[] = sequential.pattern_data.sequence || [];
+        const title = sequence[sequence.length - 1];
+        if (!title) continue;
+
+        candidates.push({
+          title,
+          description: 'Suggested based on multiple patterns: workflow and context patterns',
+          category: sequential.pattern_data.category,
+          priority: 'medium',
+          confidence: Math.min(0.95, strength + 0.1 + relevance * 0.15),
+          reasoning: ['Next step in your established workflow', 'Matches your current context and environment'],
+          basedOn: ['sequential', 'contextual'],
+        sources: [userPatternSource(sequential, sequence.join(' → ')), userPatternSource(contextPattern, title)],
+        contextMatches: contextMatches(contextPattern, context),
+          timeEstimate: estimateTime(sequential.pattern_data.category, context, title),
+          expiresAt: hoursFrom(context.currentTime, 6),
+          patternStrength: strength,
+          contextRelevance: relevance
+        });
+      }
+    }
+
+    return candidates;
+  },
+};
+
+/**
+ * Planning the day in the morning and reviewing it in the evening, unless
+ * the user already has tasks for that
+ */
+export const routineGenerator: CandidateGenerator = {
+  name: 'routine',
+  generate({ context }: GeneratorInput): SuggestionCandidate[] {
+    const hour = context.currentTime.getHours();
+    const hasPersonalTask = (...words: string[]) =>
+      context.recentTasks.some(task =>
+        task.category === 'Personal' && words.some(word => task.title.toLowerCase().includes(word))
+      );
+
+    if (hour >= 6 && hour <= 9 && !hasPersonalTask('breakfast', 'exercise', 'plan')) {
+      return [{
+        title: 'Plan your day',
+        description: 'Take a few minutes to review your schedule and set priorities for the day.',
+        category: 'Personal',
+        priority: 'medium',
+        confidence: 0.85,
+        reasoning: ['Based on your morning routine patterns and current time'],
+        basedOn: ['routine'],
+        timeEstimate: '10 mins',
+        expiresAt: hoursFrom(context.currentTime, 24),
+      }];
+    }
+
+    if (hour >= 20 && hour <= 22 && !hasPersonalTask('review', 'prepare', 'plan')) {
+      return [{
+        title: 'Review today\'s progress',
+        description: 'Reflect on what you accomplished today and plan for tomorrow.',
+        category: 'Personal',
+        priority: 'low',
+        confidence: 0.8,
+        reasoning: ['Based on evening routine patterns and current time'],
+        basedOn: ['routine'],
+        timeEstimate: '15 mins',
+        expiresAt: hoursFrom(context.currentTime, 24),
+      }];
+    }
+
+    return [];
+  },
+};
+
+const BALANCE_SUGGESTIONS: Record<string, { title: string; description: string; timeEstimate: string }> = {
+  'Work': {
+    title: 'Review and organize workspace',
+    description: 'Take some time to organize your digital and physical workspace for better productivity.',
+    timeEstimate: '30 mins',
+  },
+  'Personal': {
+    title: 'Personal reflection time',
+    description: 'Set aside time for personal reflection and self-care activities.',
+    timeEstimate: '20 mins',
+  },
+  'Health': {
+    title: 'Health check-in',
+    description: 'Review your health goals and plan your next wellness activities.',
+    timeEstimate: '15 mins',
+  },
+  'Learning': {
+    title: 'Learning session',
+    description: 'Dedicate time to learn something new or practice a skill you\'re developing.',
+    timeEstimate: '45 mins',
+  },
+  'Finance': {
+    title: 'Financial review',
+    description: 'Review your recent expenses and update your budget or financial goals.',
+    timeEstimate: '25 mins',
+  },
+  'Social': {
+    title: 'Social connection',
+    description: 'Reach out to friends or family members you haven\'t connected with recently.',
+    timeEstimate: '20 mins',
+  },
+};
+
+/**
+ * Something from each area of life the recent tasks barely touch
+ */
+export const balanceGenerator: CandidateGenerator = {
+  name: 'balance',
+  generate({ context }: GeneratorInput): SuggestionCandidate[] {
+    const counts: Record<string, number> = {};
+    for (const task of context.recentTasks) counts[task.category] = (counts[task.category] || 0) + 1;
+
+    return Object.entries(BALANCE_SUGGESTIONS)
+      .filter(([category]) => (counts[category] || 0) < 2)
+      .map(([category, suggestion]) => ({
+        title: suggestion.title,
+        description: suggestion.description,
+        category,
+        priority: 'medium' as const,
+        confidence: 0.75,
+        reasoning: ['Based on your task category distribution and the need for balance in your routine'],
+        basedOn: ['balance'],
+        timeEstimate: suggestion.timeEstimate,
+        expiresAt: hoursFrom(context.currentTime, 7 * 24),
+      }));
+  },
+};
+
+/**
+ * A prompt to deal with high-priority tasks that are past due
+ */
+export const overdueGenerator: CandidateGenerator = {
+  name: 'overdue',
+  generate({ context }: GeneratorInput): SuggestionCandidate[] {
+    const overdue = context.recentTasks.filter(task =>
+      task.priority === 'high' && !task.completed && task.due_date && new Date(task.due_date) < context.currentTime
+    );
+    if (overdue.length === 0) return [];
+
+    return [{
+      title: 'Review overdue high-priority tasks',
+      description: `You have ${overdue.length} high-priority tasks that are overdue. Consider reprioritizing or rescheduling them.`,
+      category: 'Work',
+      priority: 'high',
+      confidence: 0.95,
+      reasoning: ['Based on overdue high-priority tasks in your list'],
+      basedOn: ['overdue'],
+      timeEstimate: '20 mins',
+      expiresAt: hoursFrom(context.currentTime, 24),
+    }];
+  },
+};
+
+export const PATTERN_GENERATORS: CandidateGenerator[] = [
+  temporalGenerator,
+  sequentialGenerator,
+  contextualGenerator,
+  frequencyGenerator,
+  hybridGenerator,
+];
+
+export const DEFAULT_GENERATORS: CandidateGenerator[] = [
+  ...PATTERN_GENERATORS,
+  routineGenerator,
+  balanceGenerator,
+  overdueGenerator,
+];
@@ -0,0 +1,227 @@
+import { getDatabase, DatabaseUtils } from '../database';
+import { Suggestion } from '../types';
+import { suggestionPipeline, SuggestionPipeline } from './suggestionPipeline';
+import { SuggestionContext } from './candidatePipeline';
+
+/**
+ * Suggestion refresh and expiration management with context-aware logic
+ */
+export class SuggestionManager {
+  private userId: string;
+  private contextChangeThreshold: number;
+  private lastContext?: SuggestionContext;
+  private maxSuggestions: number;
+  private pipeline: Pick<SuggestionPipeline, 'generate'>;
+
+  constructor(
+    userId: string,
+    contextChangeThreshold: number = 0.4,
+    maxSuggestions: number = 10,
+    pipeline: Pick<SuggestionPipeline, 'generate'> = suggestionPipeline
+  ) {
+    this.userId = userId;
+    this.contextChangeThreshold = contextChangeThreshold;
+    this.maxSuggestions = maxSuggestions;
+    this.pipeline = pipeline;
+  }
+
+  /**
+   * Refresh suggestions based on context changes with intelligent refresh logic
+   */
+  async refreshSuggestions(context: SuggestionContext): Promise<Suggestion[]> {
+    // Check if context has changed significantly
+    const shouldRefresh = await this.shouldRefreshSuggestions(context);
+    
+    if (!shouldRefresh) {
+      // Return existing active suggestions if context hasn't changed much
+      return await this.getActiveSuggestions();
+    }
+    
+    // Clean up expired suggestions
+    await this.cleanupExpiredSuggestions();
+    
+    const newSuggestions = await this.pipeline.generate({ ...context, userId: this.userId }, this.maxSuggestions);
+    
+    // Update last context
+    this.lastContext = context;
+    
+    return newSuggestions;
+  }
+
+  /**
+   * Determine if suggestions should be refreshed based on context changes
+   */
+  private async shouldRefreshSuggestions(context: SuggestionContext): Promise<boolean> {
+    // Always refresh if no previous context
+    if (!this.lastContext) {
+      return true;
+    }
+    
+    // Check time-based refresh (refresh every 2 hours minimum)
+    const timeDiff = context.currentTime.getTime() - this.lastContext.currentTime.getTime();
+    const hoursDiff = timeDiff / (1000 * 60 * 60);
+    
+    if (hoursDiff >= 2) {
+      return true;
+    }
+    
+    // Check location change
+    if (context.location && this.lastContext.location) {
+      const distance = this.calculateDistance(
+        context.location.latitude, context.location.longitude,
+        this.lastContext.location.latitude, this.lastContext.location.longitude
+      );
+      
+      if (distance > 1) { // More than 1km change
+        return true;
+      }
+    }
+    
+    // Check significant task completion
+    const recentTaskCount = context.recentTasks.filter(t => t.completed).length;
+    const lastTaskCount = this.lastContext.recentTasks.filter(t => t.completed).length;
+    
+    if (recentTaskCount > lastTaskCount + 2) { // 2+ new completed tasks
+      return true;
+    }
+    
+    // Check device context changes
+    if (context.deviceContext && this.lastContext.deviceContext) {
+      const batteryChange = Math.abs(
+        (context.deviceContext.batteryLevel || 0) - (this.lastContext.deviceContext.batteryLevel || 0)
+      );
+      
+      if (batteryChange > 20) { // 20% battery change
+        return true;
+      }
+    }
+    
+    return false;
+  }
+
+  /**
+   * Clean up expired suggestions
+   */
+  async cleanupExpiredSuggestions(): Promise<void> {
+    const db = await getDatabase();
+    const now = DatabaseUtils.formatDate(new Date());
+    
+    // Mark expired suggestions as dismissed
+    await db.runAsync(`
+      UPDATE suggestions 
+      SET status = 'dismissed' 
+      WHERE user_id = ? AND expires_at < ? AND status = 'pending' AND deleted_at IS NULL
+    `, [this.userId, now]);
+    
+    // Also clean up very old suggestions (older than 7 days)
+    const weekAgo = new Date();
+    weekAgo.setDate(weekAgo.getDate() - 7);
+    const weekAgoString = DatabaseUtils.formatDate(weekAgo);
+    
+    await db.runAsync(`
+      UPDATE suggestions 
+      SET status = 'dismissed' 
+      WHERE user_id = ? AND created_at < ? AND status = 'pending' AND deleted_at IS NULL
+    `, [this.userId, weekAgoString]);
+  }
+
+  /**
+   * Get active suggestions, strongest first
+   */
+  async getActiveSuggestions(): Promise<Suggestion[]> {
+    const db = await getDatabase();
+    const now = DatabaseUtils.formatDate(new Date());
+    
+    const rows = await db.getAllAsync<any>(`
+      SELECT * FROM suggestions 
+      WHERE user_id = ? AND status = 'pending' AND deleted_at IS NULL
+      AND (expires_at IS NULL OR expires_at > ?)
+      ORDER BY confidence DESC, created_at DESC
+      LIMIT ?
+    `, [this.userId, now, this.maxSuggestions]);
+    
+    return rows.map(row => ({
+      ...row,
+      based_on: DatabaseUtils.deserializeJSON(row.based_on),
+      explanation: row.explanation ? DatabaseUtils.deserializeJSON(row.explanation) || undefined : undefined
+    }));
+  }
+
+  /**
+   * Check if suggestions need refresh based on context changes
+   */
+  async checkContextualRefresh(context: SuggestionContext): Promise<{
+    needsRefresh: boolean;
+    reason: string;
+    contextChangeScore: number;
+  }> {
+    if (!this.lastContext) {
+      return {
+        needsRefresh: true,
+        reason: 'No previous context available',
+        contextChangeScore: 1.0
+      };
+    }
+
+    let contextChangeScore = 0;
+    const reasons: string[] = [];
+
+    // Time change score
+    const timeDiff = context.currentTime.getTime() - this.lastContext.currentTime.getTime();
+    const hoursDiff = timeDiff / (1000 * 60 * 60);
+    const timeChangeScore = Math.min(1, hoursDiff / 4); // Max score after 4 hours
+    contextChangeScore += timeChangeScore * 0.3;
+    
+    if (timeChangeScore > 0.5) {
+      reasons.push(`Significant time change (${Math.round(hoursDiff)} hours)`);
+    }
+
+    // Location change score
+    if (context.location && this.lastContext.location) {
+      const distance = this.calculateDistance(
+        context.location.latitude, context.location.longitude,
+        this.lastContext.location.latitude, this.lastContext.location.longitude
+      );
+      const locationChangeScore = Math.min(1, distance / 5); // Max score after 5km
+      contextChangeScore += locationChangeScore * 0.4;
+      
+      if (locationChangeScore > 0.2) {
+        reasons.push(`Location change (${distance.toFixed(1)}km)`);
+      }
+    }
+
+    // Task completion change score
+    const recentTaskCount = context.recentTasks.filter(t => t.completed).length;
+    const lastTaskCount = this.lastContext.recentTasks.filter(t => t.completed).length;
+    const taskChangeScore = Math.min(1, Math.abs(recentTaskCount - lastTaskCount) / 5);
+    contextChangeScore += taskChangeScore * 0.3;
+    
+    if (taskChangeScore > 0.2) {
+      reasons.push(`Task completion changes (${Math.abs(recentTaskCount - lastTaskCount)} tasks)`);
+    }
+
+    const needsRefresh = contextChangeScore >= this.contextChangeThreshold;
+    const reason = needsRefresh ? reasons.join(', ') : 'Context change below threshold';
+
+    return {
+      needsRefresh,
+      reason,
+      contextChangeScore
+    };
+  }
+
+  private calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+    const R = 6371; // Earth's radius in kilometers
+    const dLat = this.toRadians(lat2 - lat1);
+    const dLon = this.toRadians(lon2 - lon1);
+    const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+              Math.cos(this.toRadians(lat1)) * Math.cos(this.toRadians(lat2)) *
+              Math.sin(dLon / 2) * Math.sin(dLon / 2);
+    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+    return R * c;
+  }
+
+  private toRadians(degrees: number): number {
+    return degrees * (Math.PI / 180);
+  }
+}
@@ -0,0 +1,129 @@
+import { getDatabase } from '../database';
+import { PatternDatabaseUtils } from '../patternDatabase';
+import { Suggestion, SuggestionCreateInput, SuggestionExplanation, ExplanationAdjustment } from '../types';
+import { DatabaseService } from './databaseService';
+import { syncService } from './syncService';
+import { calendarService } from './calendarService';
+import { FeedbackLearningService } from './feedbackLearningService';
+import { DEFAULT_GENERATORS } from './suggestionGenerators';
+import {
+  CandidatePipeline,
+  CandidatePipelineOptions,
+  SuggestionCandidate,
+  SuggestionContext,
+  PatternSnapshot,
+} from './candidatePipeline';
+
+/**
+ * The one way suggestions are made: the candidate pipeline wired to what's
+ * stored. Patterns come from the pattern tables, feedback and learning from
+ * the user's votes, and the survivors are saved through the sync engine with
+ * an explanation of how each was scored.
+ */
+
+export interface SuggestionPipelineOptions extends Partial<CandidatePipelineOptions> {
+  save?: (userId: string, input: SuggestionCreateInput) => Promise<Suggestion>;
+}
+
+const DEFAULT_EXPIRATION_HOURS = 2;
+
+async function loadPatterns(userId: string): Promise<PatternSnapshot> {
+  return {
+    patterns: await PatternDatabaseUtils.getUserPatterns(userId),
+    temporalPatterns: await PatternDatabaseUtils.getTemporalPatterns(userId),
+  };
+}
+
+/**
+ * Share of the user's feedback on suggestions in the category that was positive
+ */
+async function feedbackScore(userId: string, category: string): Promise<number> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<{ feedback_type: string; count: number }>(
+    `SELECT f.feedback_type, COUNT(*) as count
+     FROM feedback f
+     JOIN suggestions s ON f.suggestion_id = s.id
+     WHERE s.user_id = ? AND s.category = ?
+     GROUP BY f.feedback_type`,
+    [userId, category]
+  );
+  const count = (type: string) => rows.find(row => row.feedback_type === type)?.count || 0;
+  const total = count('positive') + count('negative');
+  return total === 0 ? 0.5 : count('positive') / total;
+}
+
+async function learningAdjustments(userId: string, candidates: SuggestionCandidate[], now: Date): Promise<ExplanationAdjustment[][]> {
+  return await FeedbackLearningService.getInstance().learningAdjustments(userId, candidates, now);
+}
+
+export class SuggestionPipeline extends CandidatePipeline {
+  private save: NonNullable<SuggestionPipelineOptions['save']>;
+
+  constructor(options: SuggestionPipelineOptions = {}) {
+    super({
+      ...options,
+      generators: options.generators || DEFAULT_GENERATORS,
+      patterns: options.patterns || loadPatterns,
+      feedbackScore: options.feedbackScore || feedbackScore,
+      learning: options.learning || learningAdjustments,
+    });
+    this.save = options.save || ((userId, input) => syncService.createSuggestion(userId, input));
+  }
+
+  /**
+   * Make and save up to `limit` suggestions for the context
+   */
+  async generate(context: SuggestionContext, limit: number = this.maxSuggestions): Promise<Suggestion[]> {
+    const { candidates, trace } = await this.run(context, limit);
+
+    const started = Date.now();
+    const suggestions: Suggestion[] = [];
+    for (const candidate of candidates) {
+      suggestions.push(await this.save(context.userId, toSuggestionInput(candidate, context.currentTime)));
+    }
+    trace.push({ stage: 'save', count: suggestions.length, ms: Date.now() - started });
+
+    const failed = trace.filter(stage => stage.error);
+    if (failed.length > 0) console.warn('Suggestion stages failed:', failed);
+    return suggestions;
+  }
+
+  /**
+   * Build the context for a user from what's stored: recent tasks and the
+   * calendar around now
+   */
+  async generateForUser(userId: string, limit: number = this.maxSuggestions, now: Date = new Date()): Promise<Suggestion[]> {
+    return await this.generate(await buildSuggestionContext(userId, now), limit);
+  }
+}
+
+export function toSuggestionInput(
+  candidate: SuggestionCandidate & { explanation?: SuggestionExplanation },
+  now: Date
+): SuggestionCreateInput {
+  const expiresAt = candidate.expiresAt || new Date(now.getTime() + DEFAULT_EXPIRATION_HOURS * 60 * 60 * 1000);
+  return {
+    title: candidate.title,
+    description: candidate.description,
+    category: candidate.category,
+    confidence: Math.round(candidate.confidence * 100),
+    reasoning: candidate.reasoning.join('; '),
+    time_estimate: candidate.timeEstimate,
+    priority: candidate.priority,
+    based_on: candidate.basedOn,
+    explanation: candidate.explanation,
+    expires_at: expiresAt.toISOString(),
+  };
+}
+
+export async function buildSuggestionContext(userId: string, now: Date = new Date()): Promise<SuggestionContext> {
+  return {
+    userId,
+    currentTime: now,
+    recentTasks: await DatabaseService.getTasks(userId, { limit: 50 }),
+    trackedTasks: await DatabaseService.getTrackedTasks(userId),
+    calendarEvents: await calendarService.eventsAround(userId, now).catch(() => []),
+  };
+}
+
+export const suggestionPipeline = new SuggestionPipeline();
@@ -1,7 +1,6 @@
 import { Suggestion } from '../types';
-import { DatabaseUtils } from '../database';
 import { useSuggestionStore } from '../suggestionStore';
-import { suggestionEngine } from './suggestionEngine';
+import { suggestionPipeline } from './suggestionPipeline';
 
 /**
  * Suggestion Refresh Service
@@ -57,8 +56,11 @@ export class SuggestionRefreshService {
         return new Date(suggestion.expires_at) <= now;
       });
 
-      // If we have expired suggestions, generate new ones
+      // If we have expired suggestions, replace them with new ones
       if (expiredSuggestions.length > 0) {
+        useSuggestionStore.getState().setSuggestions(
+          currentSuggestions.filter(suggestion => !expiredSuggestions.includes(suggestion))
+        );
         await this.generateNewSuggestions(userId, expiredSuggestions.length);
       }
     } finally {
@@ -134,21 +136,13 @@ export class SuggestionRefreshService {
   }
 
   /**
-   * Generate new suggestions
+   * Generate new suggestions and add them to the ones still showing
    */
   private async generateNewSuggestions(userId: string, count: number): Promise<void> {
     try {
-      // Get current context (simplified - in a real app, this would come from a context service)
-      const context = {
-        userId,
-        recentTasks: [], // Would be populated from task store
-        completedTasks: [], // Would be populated from task store
-        currentTime: new Date(),
-        // Other context would be populated from appropriate services
-      };
-
-      // Generate new suggestions
-      await suggestionEngine.generateSuggestions(context, count);
+      const suggestions = await suggestionPipeline.generateForUser(userId, count);
+      const { suggestions: current, setSuggestions } = useSuggestionStore.getState();
+      setSuggestions([...suggestions, ...current]);
     } catch (error) {
       console.error('Failed to generate new suggestions:', error);
     }
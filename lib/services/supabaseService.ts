@@ -7,7 +7,7 @@ function isEncryptedField(value: any): boolean {
   return typeof value === 'string' && /^[A-Za-z0-9+/=]+$/.test(value) && value.length > 24;
 }
 
-async function encryptTaskFields(input: any): Promise<any> {
+export async function encryptTaskFields(input: any): Promise<any> {
   const encrypted: any = { ...input };
   if (input.title) encrypted.title = await EncryptionUtils.encrypt(input.title);
   if (input.description) encrypted.description = await EncryptionUtils.encrypt(input.description);
@@ -15,7 +15,7 @@ async function encryptTaskFields(input: any): Promise<any> {
   return encrypted;
 }
 
-async function decryptTaskFields(task: any): Promise<any> {
+export async function decryptTaskFields(task: any): Promise<any> {
   const decrypted: any = { ...task };
   if (task.title && isEncryptedField(task.title)) {
     try {
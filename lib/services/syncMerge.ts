@@ -0,0 +1,162 @@
+import { OfflineQueueItem } from '../storage';
+
+/**
+ * Field-level three-way merge for sync conflicts.
+ *
+ * Records are compared against the last-synced base: a field changed on one side
+ * only takes that side's value. Fields changed on both sides fall back to a
+ * per-field rule; fields without a rule are left for the user to pick.
+ */
+
+type MergeEntity = OfflineQueueItem['entity'];
+type MergeRecord = Record<string, any>;
+
+export type MergeRule =
+  | 'union' // arrays: union of both sides, minus items either side removed from the base
+  | 'true_wins' // flags: set on either side stays set
+  | 'earliest' // timestamps: earliest non-null value
+  | 'latest'; // value from the side with the later updated_at
+
+export type FieldResolution = 'local' | 'remote' | 'merged';
+
+export interface MergeResult {
+  merged: MergeRecord;
+  resolutions: Record<string, FieldResolution>; // how each differing field was settled
+  unresolved: string[]; // changed on both sides with no rule
+}
+
+// Keyed by server column names, as records are merged in their remote shape
+export const MERGE_RULES: Record<MergeEntity, Record<string, MergeRule>> = {
+  task: {
+    title: 'latest',
+    description: 'latest',
+    completed: 'true_wins',
+    completed_at: 'earliest',
+    logged_after_completion: 'true_wins',
+    tags: 'union',
+    attachments: 'union',
+    locationContext: 'latest',
+    location_reminder: 'latest',
+    blocked_by: 'union',
+  },
+  suggestion: {
+    title: 'latest',
+    description: 'latest',
+    reasoning: 'latest',
+    based_on: 'union',
+    explanation: 'latest',
+  },
+  feedback: {
+    reason: 'latest',
+  },
+  reminder: {
+    title: 'latest',
+  },
+  subtask: {
+    title: 'latest',
+    completed: 'true_wins',
+    completed_at: 'earliest',
+    position: 'latest',
+  },
+  saved_view: {
+    name: 'latest',
+    combinator: 'latest',
+    conditions: 'latest',
+    pinned: 'latest',
+    position: 'latest',
+  },
+};
+
+// Identity and bookkeeping columns are never merged field by field
+const SKIPPED_FIELDS = ['id', 'user_id', 'created_at', 'updated_at'];
+
+function sameValue(a: any, b: any): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function itemKey(item: any): string {
+  return item && typeof item === 'object' && 'id' in item ? `id:${item.id}` : JSON.stringify(item);
+}
+
+/**
+ * Union of two arrays (objects are matched by id), dropping items that were in
+ * the base but removed on either side
+ */
+export function mergeArrays(base: any[] | null | undefined, local: any[] | null | undefined, remote: any[] | null | undefined): any[] {
+  const localItems = Array.isArray(local) ? local : [];
+  const remoteItems = Array.isArray(remote) ? remote : [];
+  const localKeys = new Set(localItems.map(itemKey));
+  const remoteKeys = new Set(remoteItems.map(itemKey));
+  const removed = new Set(
+    (Array.isArray(base) ? base : [])
+      .map(itemKey)
+      .filter(key => !localKeys.has(key) || !remoteKeys.has(key))
+  );
+
+  const result: any[] = [];
+  const seen = new Set<string>();
+  for (const item of [...localItems, ...remoteItems]) {
+    const key = itemKey(item);
+    if (seen.has(key) || removed.has(key)) continue;
+    seen.add(key);
+    result.push(item);
+  }
+  return result;
+}
+
+function applyRule(rule: MergeRule, field: string, base: MergeRecord | null, local: MergeRecord, remote: MergeRecord): any {
+  switch (rule) {
+    case 'union':
+      return mergeArrays(base?.[field], local[field], remote[field]);
+    case 'true_wins':
+      return !!local[field] || !!remote[field];
+    case 'earliest': {
+      const values = [local[field], remote[field]].filter(value => value !== null && value !== undefined);
+      return values.length > 0 ? values.sort()[0] : null;
+    }
+    case 'latest':
+      return (local.updated_at || '') > (remote.updated_at || '') ? local[field] : remote[field];
+  }
+}
+
+/**
+ * Merge a local and a remote copy of a record against their common base.
+ * Without a base every differing field counts as changed on both sides.
+ * Unresolved fields keep the local value in `merged` until the user picks.
+ */
+export function mergeRecords(
+  entity: MergeEntity,
+  base: MergeRecord | null | undefined,
+  local: MergeRecord,
+  remote: MergeRecord
+): MergeResult {
+  const rules = MERGE_RULES[entity];
+  const merged: MergeRecord = { ...remote, ...local };
+  const resolutions: Record<string, FieldResolution> = {};
+  const unresolved: string[] = [];
+
+  const fields = Array.from(new Set([...Object.keys(local), ...Object.keys(remote)]))
+    .filter(field => !SKIPPED_FIELDS.includes(field));
+
+  for (const field of fields) {
+    if (sameValue(local[field], remote[field])) continue;
+
+    if (base && field in base && sameValue(base[field], local[field])) {
+      merged[field] = remote[field];
+      resolutions[field] = 'remote';
+    } else if (base && field in base && sameValue(base[field], remote[field])) {
+      merged[field] = local[field];
+      resolutions[field] = 'local';
+    } else if (rules[field]) {
+      const value = applyRule(rules[field], field, base || null, local, remote);
+      merged[field] = value;
+      resolutions[field] = sameValue(value, local[field]) ? 'local' : sameValue(value, remote[field]) ? 'remote' : 'merged';
+    } else {
+      merged[field] = local[field];
+      unresolved.push(field);
+    }
+  }
+
+  merged.updated_at = (local.updated_at || '') > (remote.updated_at || '') ? local.updated_at : remote.updated_at;
+  return { merged, resolutions, unresolved };
+}
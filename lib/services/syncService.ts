@@ -0,0 +1,1111 @@
+import NetInfo from '@react-native-community/netinfo';
+import { getDatabase, DatabaseUtils } from '../database';
+import { supabase, isAuthError } from '../supabase';
+import { TypedStorage, OfflineQueueItem, getRetryDelay } from '../storage';
+import { DatabaseService } from './databaseService';
+import { encryptTaskFields, decryptTaskFields } from './supabaseService';
+import DeviceManagementService from './deviceManagementService';
+import { mergeRecords, MergeResult } from './syncMerge';
+import { RecurrenceService } from './recurrenceService';
+import { reminderRegistry, ReminderRegistry, ReminderChange } from './reminderRegistry';
+import { geofenceManager, GeofenceManager } from './geofenceService';
+import { timeTracker } from './timeTrackingService';
+import { PatternEngine } from './patternEngine';
+import {
+  Task,
+  Subtask,
+  TaskCreateInput,
+  TaskUpdateInput,
+  Suggestion,
+  SuggestionCreateInput,
+  Feedback,
+  FeedbackCreateInput,
+  SavedView,
+  SavedViewInput,
+} from '../types';
+
+/**
+ * Local-first sync engine.
+ *
+ * SQLite is the source of truth: every local write goes to SQLite first and is
+ * recorded in the offline queue. `push` replays the queue against Supabase,
+ * respecting item dependencies and priority, and `pull` fetches remote changes
+ * after a per-entity `(updated_at, id)` cursor. When the server copy changed
+ * since the last sync, the two are merged field by field (see syncMerge.ts) and
+ * only fields no rule can settle are raised as conflicts.
+ */
+
+export type SyncEntity = OfflineQueueItem['entity'];
+export type SyncAction = OfflineQueueItem['action'];
+
+interface SyncTableConfig {
+  table: string;
+  columns: string[];
+  jsonColumns: string[];
+  booleanColumns: string[];
+  localOnlyColumns: string[]; // never sent to or overwritten by the server
+  remoteNames: Record<string, string>; // local column -> remote column
+}
+
+export const SYNC_TABLES: Record<SyncEntity, SyncTableConfig> = {
+  task: {
+    table: 'tasks',
+    columns: [
+      'id', 'user_id', 'title', 'description', 'completed', 'completed_at', 'logged_after_completion',
+      'priority', 'category', 'tags', 'ai_suggested', 'reminder_enabled', 'reminder_time', 'due_date',
+      'attachments', 'location_context', 'recurrence', 'series_id', 'series_index', 'require_subtasks',
+      'blocked_by', 'location_reminder', 'estimated_minutes', 'created_at', 'updated_at', 'deleted_at',
+    ],
+    jsonColumns: ['tags', 'attachments', 'location_context', 'recurrence', 'blocked_by', 'location_reminder'],
+    booleanColumns: ['completed', 'logged_after_completion', 'ai_suggested', 'reminder_enabled', 'require_subtasks'],
+    localOnlyColumns: [],
+    remoteNames: { location_context: 'locationContext' },
+  },
+  subtask: {
+    table: 'subtasks',
+    columns: [
+      'id', 'user_id', 'task_id', 'title', 'completed', 'completed_at', 'position',
+      'created_at', 'updated_at', 'deleted_at',
+    ],
+    jsonColumns: [],
+    booleanColumns: ['completed'],
+    localOnlyColumns: [],
+    remoteNames: {},
+  },
+  suggestion: {
+    table: 'suggestions',
+    columns: [
+      'id', 'user_id', 'title', 'description', 'category', 'confidence', 'reasoning', 'time_estimate',
+      'priority', 'based_on', 'explanation', 'status', 'created_at', 'expires_at', 'updated_at', 'deleted_at',
+    ],
+    jsonColumns: ['based_on', 'explanation'],
+    booleanColumns: [],
+    localOnlyColumns: [],
+    remoteNames: {},
+  },
+  feedback: {
+    table: 'feedback',
+    columns: ['id', 'user_id', 'suggestion_id', 'feedback_type', 'reason', 'created_at', 'updated_at', 'deleted_at'],
+    jsonColumns: [],
+    booleanColumns: [],
+    localOnlyColumns: [],
+    remoteNames: {},
+  },
+  reminder: {
+    table: 'reminders',
+    columns: [
+      'id', 'user_id', 'task_id', 'title', 'scheduled_time', 'notification_id', 'status',
+      'created_at', 'updated_at', 'deleted_at',
+    ],
+    jsonColumns: [],
+    booleanColumns: [],
+    localOnlyColumns: ['notification_id'],
+    remoteNames: {},
+  },
+  saved_view: {
+    table: 'saved_views',
+    columns: [
+      'id', 'user_id', 'name', 'combinator', 'conditions', 'pinned', 'position',
+      'created_at', 'updated_at', 'deleted_at',
+    ],
+    jsonColumns: ['conditions'],
+    booleanColumns: ['pinned'],
+    localOnlyColumns: [],
+    remoteNames: {},
+  },
+};
+
+// Parents before children, so pulled subtasks, feedback and reminders find their rows
+const SYNC_ORDER: SyncEntity[] = ['task', 'subtask', 'suggestion', 'feedback', 'reminder', 'saved_view'];
+
+const DEFAULT_PRIORITY: Record<SyncEntity, number> = {
+  task: 3,
+  subtask: 2,
+  reminder: 2,
+  suggestion: 1,
+  saved_view: 1,
+  feedback: 0,
+};
+
+// Task fields that decide whether and when its reminder fires
+const REMINDER_FIELDS = ['reminder_enabled', 'reminder_time', 'completed'];
+const LOCATION_REMINDER_FIELDS = ['location_reminder', 'completed'];
+
+const DEFAULT_MAX_RETRIES = 5;
+const PULL_PAGE_SIZE = 500;
+
+// Normalized to ISO strings so cursors compare correctly as text
+const TIMESTAMP_COLUMNS = ['created_at', 'updated_at', 'deleted_at'];
+
+type SyncRecord = Record<string, any>;
+
+/**
+ * Where a table's pull resumes: the last row seen, by updated_at and then id, so
+ * rows sharing an updated_at across a page boundary are not skipped
+ */
+interface PullCursor {
+  updated_at: string;
+  id: string;
+}
+
+function parseCursor(value: string | null): PullCursor | null {
+  if (!value) return null;
+  const parsed = DatabaseUtils.deserializeJSON(value);
+  if (parsed && typeof parsed === 'object') return parsed;
+  // Saved before cursors carried an id; re-pulls the rows at that instant
+  return { updated_at: value, id: '' };
+}
+
+// PostgREST filter for rows after the cursor in (updated_at, id) order
+function afterCursor(cursor: PullCursor): string {
+  const at = `"${cursor.updated_at}"`;
+  return `updated_at.gt.${at},and(updated_at.eq.${at},id.gt."${cursor.id}")`;
+}
+
+/**
+ * The part of the Supabase client the engine uses; tests pass a local fake
+ */
+export interface SyncRemoteClient {
+  from(table: string): any;
+}
+
+/**
+ * Local persistence for synced rows and pull cursors. Records are raw table rows.
+ */
+export interface SyncLocalStore {
+  getRecord(entity: SyncEntity, id: string): Promise<SyncRecord | null>;
+  upsertRecord(entity: SyncEntity, record: SyncRecord): Promise<void>;
+  getRecordsUpdatedSince(entity: SyncEntity, userId: string, since: string): Promise<SyncRecord[]>;
+  getCursor(entity: SyncEntity): Promise<string | null>;
+  setCursor(entity: SyncEntity, cursor: string): Promise<void>;
+}
+
+export interface SyncQueueStore {
+  get(): Promise<OfflineQueueItem[]>;
+  set(queue: OfflineQueueItem[]): Promise<void>;
+}
+
+/**
+ * Field-level transforms applied on the way to and from the server (encryption)
+ */
+export interface SyncCodec {
+  encode(entity: SyncEntity, record: SyncRecord): Promise<SyncRecord>;
+  decode(entity: SyncEntity, record: SyncRecord): Promise<SyncRecord>;
+}
+
+export interface SyncStatus {
+  pending: number;
+  syncing: number;
+  failed: number;
+  conflicts: OfflineQueueItem[];
+  unresolvedConflicts: number;
+  isSyncing: boolean;
+  lastError: string;
+  lastSyncedAt: string | null;
+}
+
+export interface SyncResult {
+  pushed: number;
+  pulled: number;
+  failed: number;
+  conflicts: number;
+  errors: string[];
+}
+
+export interface SyncEngineOptions {
+  client?: SyncRemoteClient;
+  store?: SyncLocalStore;
+  queue?: SyncQueueStore;
+  codec?: SyncCodec;
+  batchSize?: number;
+  pullPageSize?: number;
+  now?: () => Date;
+  reminders?: Pick<ReminderRegistry, 'syncTask' | 'reconcile' | 'snooze'>;
+  geofences?: Pick<GeofenceManager, 'refresh'>;
+}
+
+export interface EnqueueOptions {
+  priority?: number;
+  dependencies?: string[];
+  baseUpdatedAt?: string;
+  base?: SyncRecord | null; // local row before the change
+}
+
+class SyncConflictError extends Error {
+  constructor(public local: SyncRecord, public remote: SyncRecord, public merge: MergeResult) {
+    super('Remote record changed since the local edit');
+    this.name = 'SyncConflictError';
+  }
+}
+
+/**
+ * Thrown when completing a task that requires its open subtasks to be done first
+ */
+export class SubtasksIncompleteError extends Error {
+  constructor(public remaining: number) {
+    super(`Complete the remaining ${remaining} subtask${remaining === 1 ? '' : 's'} first`);
+    this.name = 'SubtasksIncompleteError';
+  }
+}
+
+/**
+ * Convert a local row into the shape stored on the server
+ */
+function toRemoteRow(entity: SyncEntity, row: SyncRecord): SyncRecord {
+  const config = SYNC_TABLES[entity];
+  const remote: SyncRecord = {};
+  for (const column of config.columns) {
+    if (!(column in row) || config.localOnlyColumns.includes(column)) continue;
+    let value = row[column];
+    if (config.jsonColumns.includes(column) && typeof value === 'string') {
+      value = DatabaseUtils.deserializeJSON(value);
+    } else if (config.booleanColumns.includes(column)) {
+      value = !!value;
+    }
+    remote[config.remoteNames[column] || column] = value ?? null;
+  }
+  return remote;
+}
+
+/**
+ * Convert a server row into a local row, ignoring columns the local table does not have
+ */
+function fromRemoteRow(entity: SyncEntity, remote: SyncRecord): SyncRecord {
+  const config = SYNC_TABLES[entity];
+  const row: SyncRecord = {};
+  for (const column of config.columns) {
+    const remoteName = config.remoteNames[column] || column;
+    if (!(remoteName in remote) || config.localOnlyColumns.includes(column)) continue;
+    let value = remote[remoteName];
+    if (config.jsonColumns.includes(column) && value !== null && value !== undefined && typeof value !== 'string') {
+      value = DatabaseUtils.serializeJSON(value);
+    } else if (config.booleanColumns.includes(column)) {
+      value = value ? 1 : 0;
+    } else if (TIMESTAMP_COLUMNS.includes(column) && value) {
+      value = new Date(value).toISOString();
+    }
+    row[column] = value ?? null;
+  }
+  return row;
+}
+
+/**
+ * SQLite-backed local store. Upserts only touch the columns present in the record,
+ * so local-only columns survive a pull.
+ */
+export const sqliteSyncStore: SyncLocalStore = {
+  async getRecord(entity, id) {
+    const db = await getDatabase();
+    return await db.getFirstAsync<SyncRecord>(`SELECT * FROM ${SYNC_TABLES[entity].table} WHERE id = ?`, [id]);
+  },
+
+  async upsertRecord(entity, record) {
+    const db = await getDatabase();
+    const columns = SYNC_TABLES[entity].columns.filter(column => column in record);
+    const updates = columns.filter(column => column !== 'id').map(column => `${column} = excluded.${column}`);
+    await db.runAsync(
+      `INSERT INTO ${SYNC_TABLES[entity].table} (${columns.join(', ')})
+       VALUES (${columns.map(() => '?').join(', ')})
+       ON CONFLICT(id) DO UPDATE SET ${updates.join(', ')}`,
+      columns.map(column => record[column] ?? null)
+    );
+  },
+
+  async getRecordsUpdatedSince(entity, userId, since) {
+    const db = await getDatabase();
+    return await db.getAllAsync<SyncRecord>(
+      `SELECT * FROM ${SYNC_TABLES[entity].table} WHERE user_id = ? AND updated_at >= ?`,
+      [userId, since]
+    );
+  },
+
+  async getCursor(entity) {
+    const db = await getDatabase();
+    const result = await db.getFirstAsync<{ cursor: string | null }>(
+      'SELECT cursor FROM sync_state WHERE entity = ?',
+      [entity]
+    );
+    return result?.cursor || null;
+  },
+
+  async setCursor(entity, cursor) {
+    const db = await getDatabase();
+    await db.runAsync(
+      `INSERT INTO sync_state (entity, cursor, last_synced_at) VALUES (?, ?, ?)
+       ON CONFLICT(entity) DO UPDATE SET cursor = excluded.cursor, last_synced_at = excluded.last_synced_at`,
+      [entity, cursor, DatabaseUtils.formatDate(new Date())]
+    );
+  },
+};
+
+/**
+ * Task titles and descriptions are encrypted with the device key before upload
+ */
+export const encryptedSyncCodec: SyncCodec = {
+  encode: async (entity, record) => (entity === 'task' ? await encryptTaskFields(record) : record),
+  decode: async (entity, record) => (entity === 'task' ? await decryptTaskFields(record) : record),
+};
+
+export class SyncEngine {
+  private client: SyncRemoteClient;
+  private store: SyncLocalStore;
+  private queue: SyncQueueStore;
+  private codec: SyncCodec;
+  private batchSize: number;
+  private pullPageSize: number;
+  private now: () => Date;
+  private reminders: Pick<ReminderRegistry, 'syncTask' | 'reconcile' | 'snooze'>;
+  private geofences: Pick<GeofenceManager, 'refresh'>;
+
+  private queueLock: Promise<void> = Promise.resolve();
+  private running: Promise<SyncResult> | null = null;
+  private listeners = new Set<(status: SyncStatus) => void>();
+  private lastError = '';
+  private lastSyncedAt: string | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private unsubscribeNetInfo: (() => void) | null = null;
+
+  constructor(options: SyncEngineOptions = {}) {
+    this.client = options.client || supabase;
+    this.store = options.store || sqliteSyncStore;
+    this.queue = options.queue || TypedStorage.offlineQueue;
+    this.codec = options.codec || encryptedSyncCodec;
+    this.batchSize = options.batchSize || 5;
+    this.pullPageSize = options.pullPageSize || PULL_PAGE_SIZE;
+    this.now = options.now || (() => new Date());
+    this.reminders = options.reminders || reminderRegistry;
+    this.geofences = options.geofences || geofenceManager;
+  }
+
+  /**
+   * Start syncing for a user: on launch, on reconnect and on the device sync interval
+   */
+  start(userId: string): void {
+    this.stop();
+
+    const deviceService = DeviceManagementService.getInstance();
+    deviceService.initialize().catch(error => console.error('Device initialization failed:', error));
+    const tick = () => {
+      // Skip while offline, on cellular with wifi-only sync, or on low battery
+      if (deviceService.shouldOptimizeSync()) return;
+      this.sync(userId).catch(error => console.error('Background sync failed:', error));
+    };
+
+    this.unsubscribeNetInfo = NetInfo.addEventListener(state => {
+      if (state.isConnected) tick();
+    });
+    this.timer = setInterval(tick, deviceService.getOptimizedSyncInterval() * 60 * 1000);
+
+    this.recoverQueue(userId)
+      .then(() => this.sync(userId))
+      .catch(error => console.error('Initial sync failed:', error));
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.unsubscribeNetInfo) {
+      this.unsubscribeNetInfo();
+      this.unsubscribeNetInfo = null;
+    }
+  }
+
+  /**
+   * Subscribe to queue and sync status changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: (status: SyncStatus) => void): () => void {
+    this.listeners.add(listener);
+    this.getStatus().then(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async getStatus(): Promise<SyncStatus> {
+    const queue = await this.queue.get();
+    const unresolved = await DeviceManagementService.getInstance().getUnresolvedConflicts();
+    return {
+      pending: queue.filter(q => q.status === 'pending').length,
+      syncing: queue.filter(q => q.status === 'syncing').length,
+      failed: queue.filter(q => q.status === 'failed').length,
+      conflicts: queue.filter(q => q.status === 'conflict'),
+      unresolvedConflicts: unresolved.length,
+      isSyncing: this.running !== null,
+      lastError: this.lastError || queue.find(q => q.status === 'failed')?.last_error || '',
+      lastSyncedAt: this.lastSyncedAt,
+    };
+  }
+
+  /**
+   * Push local changes, then pull remote ones. Concurrent calls share one run.
+   */
+  sync(userId: string): Promise<SyncResult> {
+    if (!this.running) {
+      this.running = this.runSync(userId).finally(() => {
+        this.running = null;
+        this.notify();
+      });
+      this.notify();
+    }
+    return this.running;
+  }
+
+  private async runSync(userId: string): Promise<SyncResult> {
+    const result: SyncResult = { pushed: 0, pulled: 0, failed: 0, conflicts: 0, errors: [] };
+    try {
+      Object.assign(result, await this.push());
+      const pulled = await this.pull(userId);
+      result.pulled = pulled.pulled;
+      result.errors.push(...pulled.errors);
+      // Pulled tasks may have moved, finished or dropped their reminders
+      if (pulled.pulled > 0) await this.reconcileReminders(userId);
+      this.lastSyncedAt = this.now().toISOString();
+      this.lastError = result.errors[0] || '';
+    } catch (error: any) {
+      this.lastError = error?.message || 'Sync error';
+      throw error;
+    }
+    return result;
+  }
+
+  /**
+   * Record a local change. The item depends on any queued change to the same record
+   * and, for subtasks, feedback and reminders, on the queued change that created their parent.
+   * The merge base is the record as it was before its oldest queued change.
+   */
+  async enqueue(entity: SyncEntity, action: SyncAction, data: SyncRecord, options: EnqueueOptions = {}): Promise<OfflineQueueItem> {
+    let item!: OfflineQueueItem;
+    await this.updateQueue(queue => {
+      const parent = entity === 'feedback'
+        ? { entity: 'suggestion', id: data.suggestion_id }
+        : entity === 'reminder' || entity === 'subtask' ? { entity: 'task', id: data.task_id } : null;
+      const implicit = queue
+        .filter(q =>
+          (q.entity === entity && q.data?.id === data.id) ||
+          (parent && q.entity === parent.entity && q.data?.id === parent.id && q.action === 'create')
+        )
+        .map(q => q.id);
+      const earlier = queue.find(q => q.entity === entity && q.data?.id === data.id && q.base_updated_at);
+      const base = earlier ? earlier.base : options.base ? toRemoteRow(entity, options.base) : undefined;
+
+      item = {
+        id: DatabaseUtils.generateId(),
+        action,
+        entity,
+        data,
+        timestamp: this.now().getTime(),
+        retry_count: 0,
+        max_retries: DEFAULT_MAX_RETRIES,
+        priority: options.priority ?? DEFAULT_PRIORITY[entity],
+        dependencies: Array.from(new Set([...implicit, ...(options.dependencies || [])])),
+        status: 'pending',
+        base_updated_at: earlier ? earlier.base_updated_at : options.baseUpdatedAt ?? options.base?.updated_at,
+        base,
+      };
+      queue.push(item);
+    });
+    return item;
+  }
+
+  /**
+   * Queue the current state of a local record, e.g. after a trash restore
+   */
+  async trackChange(entity: SyncEntity, action: SyncAction, id: string, baseUpdatedAt?: string): Promise<void> {
+    const record = await this.store.getRecord(entity, id);
+    await this.enqueue(entity, action, { id, user_id: record?.user_id }, { baseUpdatedAt });
+  }
+
+  /**
+   * Queue every record of a user changed since a timestamp, for bulk local operations
+   */
+  async trackChangesSince(userId: string, since: string): Promise<number> {
+    let count = 0;
+    for (const entity of SYNC_ORDER) {
+      const records = await this.store.getRecordsUpdatedSince(entity, userId, since);
+      for (const record of records) {
+        await this.enqueue(entity, record.deleted_at ? 'delete' : 'update', { id: record.id, user_id: userId });
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Replay queued changes. Items run by priority (then age) once their dependencies
+   * have synced; failures back off and stop blocking only after they succeed.
+   */
+  async push(): Promise<Pick<SyncResult, 'pushed' | 'failed' | 'conflicts'>> {
+    const result = { pushed: 0, failed: 0, conflicts: 0 };
+    const attempted = new Set<string>();
+
+    while (true) {
+      const batch = this.getReadyItems(await this.queue.get())
+        .filter(item => !attempted.has(item.id))
+        .slice(0, this.batchSize);
+      if (batch.length === 0) break;
+
+      for (const item of batch) {
+        attempted.add(item.id);
+        await this.updateItem(item.id, q => { q.status = 'syncing'; });
+        try {
+          await this.pushItem(item);
+          await this.updateQueue(queue => {
+            const index = queue.findIndex(q => q.id === item.id);
+            if (index !== -1) queue.splice(index, 1);
+          });
+          result.pushed++;
+        } catch (error: any) {
+          if (error instanceof SyncConflictError) {
+            const conflictId = await this.recordConflict(item, error);
+            await this.updateItem(item.id, q => {
+              q.status = 'conflict';
+              q.conflict = {
+                local: error.local,
+                remote: error.remote,
+                fields: error.merge.unresolved,
+                base: item.base,
+                merged: error.merge.merged,
+                conflict_id: conflictId,
+              };
+            });
+            result.conflicts++;
+            continue;
+          }
+
+          const retryCount = item.retry_count + 1;
+          await this.updateItem(item.id, q => {
+            q.retry_count = retryCount;
+            q.last_error = error?.message || 'Sync error';
+            q.status = retryCount >= q.max_retries ? 'failed' : 'pending';
+            q.next_retry_at = this.now().getTime() + getRetryDelay(retryCount);
+          });
+          result.failed++;
+          if (isAuthError(error)) throw error;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  private getReadyItems(queue: OfflineQueueItem[]): OfflineQueueItem[] {
+    const queued = new Set(queue.map(q => q.id));
+    const now = this.now().getTime();
+    return queue
+      .filter(q =>
+        (q.status ?? 'pending') === 'pending' &&
+        (!q.next_retry_at || q.next_retry_at <= now) &&
+        (q.dependencies || []).every(dependency => !queued.has(dependency))
+      )
+      .sort((a, b) => (b.priority || 0) - (a.priority || 0) || a.timestamp - b.timestamp);
+  }
+
+  private async pushItem(item: OfflineQueueItem): Promise<void> {
+    const config = SYNC_TABLES[item.entity];
+    const id = item.data?.id;
+    const local = await this.store.getRecord(item.entity, id);
+
+    if (!local) {
+      // Purged locally: remove it remotely too. Anything else has nothing left to send.
+      if (item.action === 'delete') {
+        const { error } = await this.client.from(config.table).delete().eq('id', id);
+        if (error) throw error;
+      }
+      return;
+    }
+
+    let localRemote = toRemoteRow(item.entity, local);
+    if (item.action !== 'create' && item.base_updated_at) {
+      const remote = await this.fetchRemote(item.entity, id);
+      if (remote && remote.updated_at > item.base_updated_at && remote.updated_at !== local.updated_at) {
+        const remoteRow = toRemoteRow(item.entity, remote);
+        const merge = mergeRecords(item.entity, item.base, localRemote, remoteRow);
+        if (merge.unresolved.length > 0) throw new SyncConflictError(localRemote, remoteRow, merge);
+
+        // Every difference was settled by a rule: keep the merge locally and send it
+        localRemote = { ...merge.merged, updated_at: this.now().toISOString() };
+        await this.store.upsertRecord(item.entity, fromRemoteRow(item.entity, localRemote));
+      }
+    }
+
+    const { error } = await this.client
+      .from(config.table)
+      .upsert(await this.codec.encode(item.entity, localRemote), { onConflict: 'id' });
+    if (error) throw error;
+  }
+
+  /**
+   * Record the conflict with the device service, which backs the conflict badge
+   */
+  private async recordConflict(item: OfflineQueueItem, error: SyncConflictError): Promise<string | undefined> {
+    try {
+      const conflict = await DeviceManagementService.getInstance().detectDeviceConflicts(
+        item.entity,
+        item.data?.id,
+        error.local,
+        error.remote,
+        { baseData: item.base, conflictFields: error.merge.unresolved }
+      );
+      return conflict?.id;
+    } catch (conflictError) {
+      console.error('Failed to record sync conflict:', conflictError);
+      return undefined;
+    }
+  }
+
+  private async fetchRemote(entity: SyncEntity, id: string): Promise<SyncRecord | null> {
+    const { data, error } = await this.client.from(SYNC_TABLES[entity].table).select('*').eq('id', id).maybeSingle();
+    if (error) throw error;
+    return data ? fromRemoteRow(entity, await this.codec.decode(entity, data)) : null;
+  }
+
+  /**
+   * Fetch remote changes newer than each entity's cursor. Records with queued local
+   * changes are left alone; the push detects whether they conflict.
+   */
+  async pull(userId: string): Promise<{ pulled: number; errors: string[] }> {
+    let pulled = 0;
+    const errors: string[] = [];
+    const queue = await this.queue.get();
+
+    for (const entity of SYNC_ORDER) {
+      const config = SYNC_TABLES[entity];
+      const pendingIds = new Set(queue.filter(q => q.entity === entity).map(q => q.data?.id));
+
+      try {
+        let cursor = parseCursor(await this.store.getCursor(entity));
+        while (true) {
+          let query = this.client.from(config.table).select('*').eq('user_id', userId);
+          if (cursor) query = query.or(afterCursor(cursor));
+          const { data, error } = await query
+            .order('updated_at', { ascending: true })
+            .order('id', { ascending: true })
+            .limit(this.pullPageSize);
+          if (error) throw error;
+
+          const rows: SyncRecord[] = data || [];
+          for (const remote of rows) {
+            const row = fromRemoteRow(entity, await this.codec.decode(entity, remote));
+            cursor = { updated_at: row.updated_at, id: row.id };
+            if (pendingIds.has(row.id)) continue;
+
+            const local = await this.store.getRecord(entity, row.id);
+            if (!local && row.deleted_at) continue; // already purged here
+            if (local && local.updated_at >= row.updated_at) continue;
+            await this.store.upsertRecord(entity, row);
+            pulled++;
+          }
+
+          if (cursor) await this.store.setCursor(entity, DatabaseUtils.serializeJSON(cursor));
+          if (rows.length < this.pullPageSize) break;
+        }
+      } catch (error: any) {
+        if (isAuthError(error)) throw error;
+        console.error(`Error pulling ${config.table}:`, error);
+        errors.push(`${config.table}: ${error?.message || 'pull failed'}`);
+      }
+    }
+
+    return { pulled, errors };
+  }
+
+  /**
+   * Resolve a conflicted item by writing the chosen values locally and re-queueing it
+   * against the remote version it was compared with, which becomes its new base
+   */
+  async resolveConflict(itemId: string, resolved: SyncRecord): Promise<void> {
+    const item = (await this.queue.get()).find(q => q.id === itemId);
+    if (!item?.conflict) return;
+    const { local, remote, fields = [], conflict_id } = item.conflict;
+
+    await this.store.upsertRecord(item.entity, {
+      ...fromRemoteRow(item.entity, resolved),
+      updated_at: this.now().toISOString(),
+    });
+    await this.updateItem(itemId, q => {
+      q.status = 'pending';
+      q.base = remote;
+      q.base_updated_at = remote.updated_at;
+      q.conflict = undefined;
+      q.retry_count = 0;
+      q.next_retry_at = undefined;
+    });
+
+    if (conflict_id) {
+      const keeps = (side: SyncRecord) => fields.every(field => JSON.stringify(resolved[field]) === JSON.stringify(side[field]));
+      const resolution = keeps(local) ? 'local' : keeps(remote) ? 'remote' : 'merge';
+      await DeviceManagementService.getInstance().resolveConflict(conflict_id, resolution);
+      this.notify();
+    }
+  }
+
+  async retryFailed(): Promise<void> {
+    await this.updateQueue(queue => {
+      for (const item of queue.filter(q => q.status === 'failed')) {
+        item.status = 'pending';
+        item.retry_count = 0;
+        item.next_retry_at = undefined;
+      }
+    });
+  }
+
+  /**
+   * Reset items left mid-sync by a crash and adopt queue entries written before
+   * SQLite was the source of truth (task creates without a local row)
+   */
+  private async recoverQueue(userId: string): Promise<void> {
+    const queue = await this.queue.get();
+    for (const item of queue) {
+      if (item.entity === 'task' && item.action === 'create' && !item.data?.id) {
+        const { userId: ownerId, ...input } = item.data || {};
+        const task = await DatabaseService.createTask(ownerId || userId, input);
+        item.data = { id: task.id, user_id: task.user_id };
+      }
+      if (!item.status || item.status === 'syncing') item.status = 'pending';
+      item.retry_count = item.retry_count || 0;
+      item.max_retries = item.max_retries || DEFAULT_MAX_RETRIES;
+    }
+    await this.updateQueue(current => {
+      for (const item of queue) {
+        const index = current.findIndex(q => q.id === item.id);
+        if (index !== -1) current[index] = item;
+      }
+    });
+  }
+
+  /**
+   * Local write API: update SQLite, then queue the change
+   */
+  async createTask(userId: string, input: TaskCreateInput): Promise<Task> {
+    const task = await DatabaseService.createTask(userId, input);
+    await this.enqueue('task', 'create', { id: task.id, user_id: userId });
+    if (task.reminder_enabled && task.reminder_time) await this.refreshReminders(userId, task.id);
+    if (task.location_reminder) await this.refreshGeofences(userId);
+    return task;
+  }
+
+  async updateTask(taskId: string, updates: TaskUpdateInput): Promise<Task | null> {
+    const before = await this.store.getRecord('task', taskId);
+    const task = await DatabaseService.updateTask(taskId, updates);
+    if (task) {
+      await this.enqueue('task', 'update', { id: taskId, user_id: task.user_id, ...updates }, { base: before });
+      if (REMINDER_FIELDS.some(field => field in updates)) await this.refreshReminders(task.user_id, taskId);
+      if (LOCATION_REMINDER_FIELDS.some(field => field in updates)) await this.refreshGeofences(task.user_id);
+    }
+    return task;
+  }
+
+  /**
+   * Completing an instance of a recurring task creates the next one. Tasks that
+   * require their subtasks cannot be completed while any is open.
+   */
+  async toggleTaskCompletion(taskId: string): Promise<Task | null> {
+    const before = await this.store.getRecord('task', taskId);
+    if (before && !before.completed && before.require_subtasks) {
+      const remaining = (await DatabaseService.getSubtasks(taskId)).filter(subtask => !subtask.completed).length;
+      if (remaining > 0) throw new SubtasksIncompleteError(remaining);
+    }
+    const task = await DatabaseService.toggleTaskCompletion(taskId);
+    if (task) {
+      await this.enqueue(
+        'task',
+        'update',
+        { id: taskId, user_id: task.user_id, completed: task.completed, completed_at: task.completed_at },
+        { base: before }
+      );
+      await this.refreshReminders(task.user_id, taskId);
+      if (task.location_reminder) await this.refreshGeofences(task.user_id);
+      if (task.completed) await timeTracker.stop(taskId);
+      if (task.completed) await new PatternEngine(task.user_id).updatePatterns(task);
+      if (task.completed && task.recurrence) await this.createNextOccurrence(task);
+    }
+    return task;
+  }
+
+  /**
+   * Skip one occurrence of a series: its date becomes an exception for the whole
+   * series, the instance moves to the trash and the next one is created
+   */
+  async skipOccurrence(taskId: string): Promise<Task | null> {
+    const task = await DatabaseService.getTask(taskId);
+    if (!task?.recurrence) return null;
+
+    const skipped = RecurrenceService.getDateKey(RecurrenceService.getOccurrenceDate(task));
+    const recurrence = {
+      ...task.recurrence,
+      exceptions: Array.from(new Set([...(task.recurrence.exceptions || []), skipped])),
+    };
+    for (const instance of await DatabaseService.getTaskSeries(task.series_id || task.id)) {
+      await this.updateTask(instance.id, { recurrence });
+    }
+
+    const next = await this.createNextOccurrence({ ...task, recurrence });
+    await this.deleteTask(taskId);
+    return next;
+  }
+
+  private async createNextOccurrence(task: Task): Promise<Task | null> {
+    const input = RecurrenceService.buildNextInstance(task);
+    if (!input) return null;
+
+    // Completing, reopening and completing again must not create a second instance
+    const series = await DatabaseService.getTaskSeries(input.series_id);
+    if (series.some(instance => instance.series_index === input.series_index)) return null;
+
+    return await this.createTask(task.user_id, input);
+  }
+
+  async deleteTask(taskId: string): Promise<boolean> {
+    const before = await this.store.getRecord('task', taskId);
+    const deleted = await DatabaseService.deleteTask(taskId);
+    if (deleted) {
+      await this.enqueue('task', 'delete', { id: taskId, user_id: before?.user_id }, { base: before });
+      if (before) await this.refreshReminders(before.user_id, taskId);
+      if (before?.location_reminder) await this.refreshGeofences(before.user_id);
+    }
+    return deleted;
+  }
+
+  /**
+   * Move all of a user's tasks, suggestions and feedback to the trash, queue the
+   * tombstones and cancel the reminders and geofences of the trashed tasks
+   */
+  async trashUserData(userId: string): Promise<void> {
+    const startedAt = DatabaseUtils.formatDate(new Date());
+    await DatabaseService.softDeleteUserData(userId);
+    await this.trackChangesSince(userId, startedAt);
+    await this.reconcileReminders(userId);
+  }
+
+  async createSubtask(userId: string, taskId: string, title: string): Promise<Subtask> {
+    const subtask = await DatabaseService.createSubtask(userId, taskId, title);
+    await this.enqueue('subtask', 'create', { id: subtask.id, user_id: userId, task_id: taskId });
+    return subtask;
+  }
+
+  async updateSubtask(
+    subtaskId: string,
+    updates: Partial<Pick<Subtask, 'title' | 'completed' | 'completed_at' | 'position'>>
+  ): Promise<Subtask | null> {
+    const before = await this.store.getRecord('subtask', subtaskId);
+    const subtask = await DatabaseService.updateSubtask(subtaskId, updates);
+    if (subtask) {
+      await this.enqueue(
+        'subtask',
+        'update',
+        { id: subtaskId, user_id: subtask.user_id, task_id: subtask.task_id, ...updates },
+        { base: before }
+      );
+    }
+    return subtask;
+  }
+
+  /**
+   * Checking off a subtask teaches the pattern engine the order the checklist
+   * was worked through
+   */
+  async toggleSubtaskCompletion(subtaskId: string): Promise<Subtask | null> {
+    const before = await this.store.getRecord('subtask', subtaskId);
+    const subtask = await DatabaseService.toggleSubtaskCompletion(subtaskId);
+    if (subtask) {
+      await this.enqueue(
+        'subtask',
+        'update',
+        { id: subtaskId, user_id: subtask.user_id, task_id: subtask.task_id, completed: subtask.completed, completed_at: subtask.completed_at },
+        { base: before }
+      );
+      if (subtask.completed) await this.learnSubtaskOrder(subtask);
+    }
+    return subtask;
+  }
+
+  /**
+   * Move subtasks into the given order, only queueing the ones whose position changed
+   */
+  async reorderSubtasks(taskId: string, orderedIds: string[]): Promise<void> {
+    const subtasks = await DatabaseService.getSubtasks(taskId);
+    for (const [position, id] of orderedIds.entries()) {
+      const subtask = subtasks.find(s => s.id === id);
+      if (subtask && subtask.position !== position) await this.updateSubtask(id, { position });
+    }
+  }
+
+  async deleteSubtask(subtaskId: string): Promise<boolean> {
+    const before = await this.store.getRecord('subtask', subtaskId);
+    const deleted = await DatabaseService.deleteSubtask(subtaskId);
+    if (deleted) {
+      await this.enqueue(
+        'subtask',
+        'delete',
+        { id: subtaskId, user_id: before?.user_id, task_id: before?.task_id },
+        { base: before }
+      );
+    }
+    return deleted;
+  }
+
+  private async learnSubtaskOrder(subtask: Subtask): Promise<void> {
+    try {
+      const parent = await DatabaseService.getTask(subtask.task_id);
+      if (!parent) return;
+
+      // Subtasks stand in for tasks in the parent's category
+      const asTask = (item: Subtask): Task => ({
+        ...parent,
+        id: item.id,
+        title: item.title,
+        completed: item.completed,
+        completed_at: item.completed_at,
+        created_at: item.created_at,
+        updated_at: item.updated_at,
+      });
+      const precededBy = (await DatabaseService.getSubtasks(subtask.task_id))
+        .filter(sibling => sibling.id !== subtask.id && sibling.completed && sibling.completed_at)
+        .sort((a, b) => a.completed_at!.localeCompare(b.completed_at!));
+
+      await new PatternEngine(subtask.user_id).updateChecklistSequence(asTask(subtask), precededBy.map(asTask));
+    } catch (error) {
+      console.error('Failed to learn from subtask completion:', error);
+    }
+  }
+
+  async createSuggestion(userId: string, input: SuggestionCreateInput): Promise<Suggestion> {
+    const suggestion = await DatabaseService.createSuggestion(userId, input);
+    await this.enqueue('suggestion', 'create', { id: suggestion.id, user_id: userId });
+    return suggestion;
+  }
+
+  async updateSuggestionStatus(suggestionId: string, status: string): Promise<Suggestion | null> {
+    const before = await this.store.getRecord('suggestion', suggestionId);
+    const suggestion = await DatabaseService.updateSuggestionStatus(suggestionId, status);
+    if (suggestion) {
+      await this.enqueue(
+        'suggestion',
+        'update',
+        { id: suggestionId, user_id: suggestion.user_id, status },
+        { base: before }
+      );
+    }
+    return suggestion;
+  }
+
+  async createFeedback(userId: string, input: FeedbackCreateInput): Promise<Feedback> {
+    const feedback = await DatabaseService.createFeedback(userId, input);
+    await this.enqueue('feedback', 'create', { id: feedback.id, user_id: userId, suggestion_id: feedback.suggestion_id });
+    return feedback;
+  }
+
+  async createSavedView(userId: string, input: SavedViewInput): Promise<SavedView> {
+    const view = await DatabaseService.createSavedView(userId, input);
+    await this.enqueue('saved_view', 'create', { id: view.id, user_id: userId });
+    return view;
+  }
+
+  async updateSavedView(
+    viewId: string,
+    updates: Partial<Pick<SavedView, 'name' | 'combinator' | 'conditions' | 'pinned' | 'position'>>
+  ): Promise<SavedView | null> {
+    const before = await this.store.getRecord('saved_view', viewId);
+    const view = await DatabaseService.updateSavedView(viewId, updates);
+    if (view) {
+      await this.enqueue('saved_view', 'update', { id: viewId, user_id: view.user_id, ...updates }, { base: before });
+    }
+    return view;
+  }
+
+  async deleteSavedView(viewId: string): Promise<boolean> {
+    const before = await this.store.getRecord('saved_view', viewId);
+    const deleted = await DatabaseService.deleteSavedView(viewId);
+    if (deleted) {
+      await this.enqueue('saved_view', 'delete', { id: viewId, user_id: before?.user_id }, { base: before });
+    }
+    return deleted;
+  }
+
+  /**
+   * Snooze a reminder and move its task's reminder_time to match
+   */
+  async snoozeReminder(reminderId: string, until: Date): Promise<Task | null> {
+    const changes = await this.reminders.snooze(reminderId, until);
+    await this.queueReminderChanges(changes);
+    const reminder = changes[0]?.reminder;
+    if (!reminder) return null;
+    return await this.updateTask(reminder.task_id, { reminder_time: until.toISOString() });
+  }
+
+  /**
+   * Settle every reminder with the OS: reschedule what a pull moved, schedule
+   * reminders created on other devices and cancel orphaned notifications
+   */
+  async reconcileReminders(userId: string): Promise<void> {
+    try {
+      await this.queueReminderChanges(await this.reminders.reconcile(userId));
+    } catch (error) {
+      console.error('Failed to reconcile reminders:', error);
+    }
+    await this.refreshGeofences(userId);
+  }
+
+  /**
+   * Reschedule, dismiss or remove a task's reminders after the task changed
+   */
+  private async refreshReminders(userId: string, taskId: string): Promise<void> {
+    try {
+      await this.queueReminderChanges(await this.reminders.syncTask(userId, taskId));
+    } catch (error) {
+      console.error('Failed to update task reminders:', error);
+    }
+  }
+
+  /**
+   * Re-register the user's location reminders with the OS
+   */
+  private async refreshGeofences(userId: string): Promise<void> {
+    try {
+      await this.geofences.refresh(userId);
+    } catch (error) {
+      console.error('Failed to update location reminders:', error);
+    }
+  }
+
+  private async queueReminderChanges(changes: ReminderChange[]): Promise<void> {
+    for (const { action, reminder, before } of changes) {
+      await this.enqueue(
+        'reminder',
+        action,
+        { id: reminder.id, user_id: reminder.user_id, task_id: reminder.task_id },
+        { base: before }
+      );
+    }
+  }
+
+  private async updateItem(id: string, update: (item: OfflineQueueItem) => void): Promise<void> {
+    await this.updateQueue(queue => {
+      const item = queue.find(q => q.id === id);
+      if (item) update(item);
+    });
+  }
+
+  /**
+   * Read-modify-write the queue, serialized so concurrent writers do not drop items
+   */
+  private updateQueue(update: (queue: OfflineQueueItem[]) => void): Promise<void> {
+    const next = this.queueLock.then(async () => {
+      const queue = await this.queue.get();
+      update(queue);
+      await this.queue.set(queue);
+    });
+    this.queueLock = next.catch(() => {});
+    return next.then(() => this.notify());
+  }
+
+  private notify(): void {
+    if (this.listeners.size === 0) return;
+    this.getStatus().then(status => this.listeners.forEach(listener => listener(status)));
+  }
+}
+
+// Export singleton instance
+export const syncService = new SyncEngine();
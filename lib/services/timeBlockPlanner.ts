@@ -0,0 +1,258 @@
+import { BusyBlock, Task } from '../types';
+
+// Tasks without an estimate are planned as this long
+export const DEFAULT_ESTIMATE_MINUTES = 30;
+// Blocks start on the quarter hour
+export const SLOT_MINUTES = 15;
+
+const MINUTE = 60 * 1000;
+// Sessions shorter than this are accidental taps and are not learned from
+const MIN_TRACKED_MINUTES = 1;
+// Samples needed before a category's durations replace the defaults
+const MIN_CATEGORY_SAMPLES = 3;
+const DAY_MINUTES = 24 * 60;
+
+// How many days of delay a peak-hour slot is worth; low priority work leaves peak hours to the rest
+const PEAK_BONUS: Record<Task['priority'], number> = { high: 1.5, medium: 1, low: -0.25 };
+const PRIORITY_RANK: Record<Task['priority'], number> = { high: 0, medium: 1, low: 2 };
+
+export interface TimeBlock {
+  taskId: string;
+  title: string;
+  priority: Task['priority'];
+  start: Date;
+  end: Date;
+  due?: Date;
+  estimated: boolean; // false when the default estimate was used
+  peak: boolean; // starts in one of the user's peak hours
+  late: boolean; // ends after the task is due
+}
+
+export interface Plan {
+  blocks: TimeBlock[]; // sorted by start
+  unscheduled: Task[]; // tasks that fit nowhere in the planned days, or wait on one that does not
+}
+
+export interface PlannerOptions {
+  from: Date; // nothing is planned before this
+  days: number; // 1 plans the rest of the day, 7 the week
+  peakHours?: number[]; // 0-23, see AnalyticsService.getPeakHours
+  busy?: BusyBlock[]; // calendar events to plan around
+  workStart?: number; // hour the working day starts
+  workEnd?: number; // hour it ends
+  breakMinutes?: number; // left free after each block
+}
+
+type Interval = { start: number; end: number };
+
+/**
+ * Minutes in free text estimates like "30 mins", "2 hours" or "1h 30m"
+ */
+export function parseTimeEstimate(text: string | undefined): number | undefined {
+  if (!text) return undefined;
+  let minutes = 0;
+  for (const [, amount, unit] of text.matchAll(/(\d+(?:\.\d+)?)\s*(h|hrs?|hours?|m|mins?|minutes?)\b/gi)) {
+    minutes += Number(amount) * (unit.toLowerCase().startsWith('h') ? 60 : 1);
+  }
+  return minutes > 0 ? Math.round(minutes) : undefined;
+}
+
+export function estimateOf(task: Pick<Task, 'estimated_minutes'>): number {
+  return task.estimated_minutes && task.estimated_minutes > 0 ? task.estimated_minutes : DEFAULT_ESTIMATE_MINUTES;
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const normalize = (title: string) => title.trim().toLowerCase();
+
+/**
+ * How long a task like this usually takes, in minutes, from the time tracked
+ * on completed tasks: the median for the same title, else for the category.
+ * Undefined until there is enough tracked history.
+ */
+export function estimateMinutes(history: Task[], target: { title?: string; category: string }): number | undefined {
+  const tracked = history.filter(task => task.completed && (task.tracked_minutes ?? 0) >= MIN_TRACKED_MINUTES);
+
+  if (target.title) {
+    const title = normalize(target.title);
+    const same = tracked.filter(task => normalize(task.title) === title);
+    if (same.length > 0) return Math.round(median(same.map(task => task.tracked_minutes!)));
+  }
+
+  const category = tracked.filter(task => task.category === target.category);
+  if (category.length >= MIN_CATEGORY_SAMPLES) return Math.round(median(category.map(task => task.tracked_minutes!)));
+  return undefined;
+}
+
+/**
+ * A duration as suggestions show it, e.g. "25 mins" or "1.5 hours"
+ */
+export function formatDuration(minutes: number): string {
+  if (minutes < 60) return `${Math.max(1, Math.round(minutes))} mins`;
+  const hours = Math.round((minutes / 60) * 2) / 2;
+  return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+}
+
+/**
+ * Round up to the next slot boundary
+ */
+export function snapToSlot(at: Date): Date {
+  const slot = SLOT_MINUTES * MINUTE;
+  return new Date(Math.ceil(at.getTime() / slot) * slot);
+}
+
+const dueOf = (task: Task) => (task.due_date ? new Date(task.due_date).getTime() : Infinity);
+
+/**
+ * The order tasks get to pick their slots: due soonest first, then by
+ * priority, then oldest first
+ */
+export function planOrder(tasks: Task[]): Task[] {
+  return [...tasks].sort(
+    (a, b) =>
+      dueOf(a) - dueOf(b) ||
+      PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+      a.created_at.localeCompare(b.created_at)
+  );
+}
+
+function workingWindows(options: PlannerOptions): Interval[] {
+  const { from, days, workStart = 9, workEnd = 18 } = options;
+  const earliest = snapToSlot(from).getTime();
+  const windows: Interval[] = [];
+  for (let day = 0; day < days; day++) {
+    const start = new Date(from);
+    start.setDate(start.getDate() + day);
+    start.setHours(workStart, 0, 0, 0);
+    const end = new Date(start);
+    end.setHours(workEnd, 0, 0, 0);
+    const window = { start: Math.max(start.getTime(), earliest), end: end.getTime() };
+    if (window.start < window.end) windows.push(window);
+  }
+  return windows;
+}
+
+// The pending tasks a task still waits on, as DependencyService.getBlockers has them
+const blockersOf = (task: Task, pending: Task[]) => pending.filter(other => task.blocked_by?.includes(other.id));
+
+const clashes = (taken: Interval[], start: number, end: number) => taken.some(t => t.start < end && t.end > start);
+
+function toBlock(task: Task, start: number, peakHours: Set<number>): TimeBlock {
+  const end = start + estimateOf(task) * MINUTE;
+  const due = task.due_date ? new Date(task.due_date) : undefined;
+  return {
+    taskId: task.id,
+    title: task.title,
+    priority: task.priority,
+    start: new Date(start),
+    end: new Date(end),
+    due,
+    estimated: !!task.estimated_minutes,
+    peak: peakHours.has(new Date(start).getHours()),
+    late: !!due && end > due.getTime(),
+  };
+}
+
+/**
+ * Lay pending tasks onto the working hours of the coming days, around the
+ * user's calendar. Each task, in `planOrder`, takes the free slot that best
+ * trades an early start against the user's peak hours while still ending
+ * before it is due; tasks that cannot make their due date take the earliest
+ * free slot and are marked late. Tasks blocked by open tasks are deferred until
+ * their blockers' blocks have ended, and left unscheduled when a blocker is.
+ */
+export function planTimeBlocks(tasks: Task[], options: PlannerOptions): Plan {
+  const { from, breakMinutes = 10 } = options;
+  const peakHours = new Set(options.peakHours || []);
+  const windows = workingWindows(options);
+  const taken: Interval[] = (options.busy || [])
+    .filter(block => !block.allDay)
+    .map(block => ({ start: new Date(block.start).getTime(), end: new Date(block.end).getTime() }));
+
+  const blocks: TimeBlock[] = [];
+  const unscheduled: Task[] = [];
+  const pending = tasks.filter(task => !task.completed && !task.deleted_at);
+  const ends = new Map<string, number>();
+
+  let queue = planOrder(pending);
+  while (queue.length > 0) {
+    const waiting: Task[] = [];
+    for (const task of queue) {
+      const blockers = blockersOf(task, pending);
+      if (blockers.some(blocker => !ends.has(blocker.id))) {
+        waiting.push(task);
+        continue;
+      }
+      const notBefore = Math.max(from.getTime(), ...blockers.map(blocker => ends.get(blocker.id)!));
+      const duration = estimateOf(task) * MINUTE;
+      const due = dueOf(task);
+      let best: { start: number; score: number } | null = null;
+      let earliest: number | null = null;
+
+      for (const window of windows) {
+        for (let start = window.start; start + duration <= window.end; start += SLOT_MINUTES * MINUTE) {
+          if (start < notBefore || clashes(taken, start, start + duration)) continue;
+          if (earliest === null) earliest = start;
+          if (start + duration > due) continue;
+          const delay = (start - from.getTime()) / MINUTE / DAY_MINUTES;
+          const score = (peakHours.has(new Date(start).getHours()) ? PEAK_BONUS[task.priority] : 0) - delay;
+          if (!best || score > best.score) best = { start, score };
+        }
+      }
+
+      const start = best?.start ?? earliest;
+      if (start === null) {
+        unscheduled.push(task);
+        continue;
+      }
+      blocks.push(toBlock(task, start, peakHours));
+      taken.push({ start, end: start + duration + breakMinutes * MINUTE });
+      ends.set(task.id, start + duration);
+    }
+    // What is still waiting has a blocker that could not be planned
+    if (waiting.length === queue.length) {
+      unscheduled.push(...waiting);
+      break;
+    }
+    queue = waiting;
+  }
+
+  blocks.sort((a, b) => a.start.getTime() - b.start.getTime());
+  return { blocks, unscheduled };
+}
+
+/**
+ * Move a planned block to start at `start`, snapped to the slot grid. Returns
+ * null when it would overlap a calendar event or another block.
+ */
+export function moveBlock(plan: Plan, taskId: string, start: Date, options: Pick<PlannerOptions, 'busy' | 'peakHours'> = {}): Plan | null {
+  const block = plan.blocks.find(b => b.taskId === taskId);
+  if (!block) return null;
+
+  const slot = SLOT_MINUTES * MINUTE;
+  const newStart = Math.round(start.getTime() / slot) * slot;
+  const newEnd = newStart + (block.end.getTime() - block.start.getTime());
+  const taken: Interval[] = [
+    ...(options.busy || [])
+      .filter(b => !b.allDay)
+      .map(b => ({ start: new Date(b.start).getTime(), end: new Date(b.end).getTime() })),
+    ...plan.blocks.filter(b => b.taskId !== taskId).map(b => ({ start: b.start.getTime(), end: b.end.getTime() })),
+  ];
+  if (clashes(taken, newStart, newEnd)) return null;
+
+  const moved: TimeBlock = {
+    ...block,
+    start: new Date(newStart),
+    end: new Date(newEnd),
+    peak: new Set(options.peakHours || []).has(new Date(newStart).getHours()),
+    late: !!block.due && newEnd > block.due.getTime(),
+  };
+  return {
+    ...plan,
+    blocks: plan.blocks.map(b => (b.taskId === taskId ? moved : b)).sort((a, b) => a.start.getTime() - b.start.getTime()),
+  };
+}
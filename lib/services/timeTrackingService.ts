@@ -0,0 +1,87 @@
+import { DatabaseService } from './databaseService';
+import { TimeEntry } from '../types';
+
+export type TimerStatus = 'idle' | 'running' | 'paused';
+
+export interface TimerState {
+  status: TimerStatus;
+  elapsedMs: number; // every session so far, the running one included
+  sessions: number;
+  runningSince?: Date;
+}
+
+/**
+ * Where a task's timer stands, from its entries in start order
+ */
+export function timerState(entries: TimeEntry[], now: Date): TimerState {
+  let elapsedMs = 0;
+  let runningSince: Date | undefined;
+  for (const entry of entries) {
+    const start = new Date(entry.started_at).getTime();
+    if (entry.ended_at) {
+      elapsedMs += Math.max(0, new Date(entry.ended_at).getTime() - start);
+    } else {
+      runningSince = new Date(start);
+      elapsedMs += Math.max(0, now.getTime() - start);
+    }
+  }
+  const last = entries[entries.length - 1];
+  const status: TimerStatus = runningSince ? 'running' : last?.ended_by === 'pause' ? 'paused' : 'idle';
+  return { status, elapsedMs, sessions: entries.length, runningSince };
+}
+
+export interface TimeTrackerOptions {
+  now?: () => Date;
+}
+
+/**
+ * Start/pause/resume/stop timers on tasks. Each run of the timer is its own
+ * time entry; one timer runs at a time, so starting another task pauses the
+ * one that was running.
+ */
+export class TimeTracker {
+  private now: () => Date;
+
+  constructor(options: TimeTrackerOptions = {}) {
+    this.now = options.now || (() => new Date());
+  }
+
+  async state(taskId: string): Promise<TimerState> {
+    return timerState(await DatabaseService.getTimeEntries(taskId), this.now());
+  }
+
+  /**
+   * Start or resume the task's timer. A focus session passes the time its work
+   * interval began, which can be in the past when the app was closed.
+   */
+  async start(
+    userId: string,
+    taskId: string,
+    options: { at?: Date; source?: TimeEntry['source'] } = {}
+  ): Promise<TimerState> {
+    const at = options.at || this.now();
+    const running = await DatabaseService.getRunningTimeEntry(userId);
+    if (running?.task_id !== taskId) {
+      if (running) await DatabaseService.endTimeEntry(running.task_id, at, 'pause');
+      await DatabaseService.createTimeEntry(userId, taskId, at, options.source);
+    }
+    return this.state(taskId);
+  }
+
+  async pause(taskId: string, at: Date = this.now()): Promise<TimerState> {
+    await DatabaseService.endTimeEntry(taskId, at, 'pause');
+    return this.state(taskId);
+  }
+
+  /**
+   * End the session; the next start begins a new one
+   */
+  async stop(taskId: string, at: Date = this.now()): Promise<TimerState> {
+    if (!(await DatabaseService.endTimeEntry(taskId, at, 'stop'))) {
+      await DatabaseService.stopPausedTimeEntry(taskId);
+    }
+    return this.state(taskId);
+  }
+}
+
+export const timeTracker = new TimeTracker();
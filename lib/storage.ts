@@ -1,6 +1,7 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as SecureStore from 'expo-secure-store';
 import CryptoJS from 'crypto-js';
+import { SavedPlace } from './types';
 
 /**
  * Encryption utilities for local data protection
@@ -143,6 +144,18 @@ export const STORAGE_KEYS = {
   NOTIFICATIONS_ENABLED: 'notifications_enabled',
   AI_SUGGESTIONS_ENABLED: 'ai_suggestions_enabled',
   SMART_REMINDERS_ENABLED: 'smart_reminders_enabled',
+  // Location reminders
+  SAVED_PLACES: 'saved_places',
+  GEOFENCE_TRANSITIONS: 'geofence_transitions',
+  // Notifications held back by quiet hours
+  HELD_NOTIFICATIONS: 'held_notifications',
+  // Digest notifications scheduled ahead
+  DIGEST_NOTIFICATIONS: 'digest_notifications',
+  // Pomodoro focus sessions
+  FOCUS_SETTINGS: 'focus_settings',
+  FOCUS_SESSION: 'focus_session',
+  // Last full pattern recompute per user
+  PATTERN_RECOMPUTES: 'pattern_recomputes',
   // Session data
   SESSION_ID: 'session_id',
   LAST_ACTIVITY: 'last_activity',
@@ -153,11 +166,18 @@ export const STORAGE_KEYS = {
   LOG_LEVEL: 'log_level',
 } as const;
 
-export type OfflineQueueStatus = 'pending' | 'syncing' | 'failed' | 'completed';
+/**
+ * Exponential backoff for queued sync retries: 2^retry_count * 5 seconds (max 10 min)
+ */
+export function getRetryDelay(retryCount: number): number {
+  return Math.min(Math.pow(2, retryCount) * 5000, 10 * 60 * 1000);
+}
+
+export type OfflineQueueStatus = 'pending' | 'syncing' | 'failed' | 'completed' | 'conflict';
 export interface OfflineQueueItem {
   id: string;
   action: 'create' | 'update' | 'delete';
-  entity: 'task' | 'suggestion' | 'feedback' | 'reminder';
+  entity: 'task' | 'subtask' | 'suggestion' | 'feedback' | 'reminder' | 'saved_view';
   data: any;
   timestamp: number;
   retry_count: number;
@@ -167,13 +187,43 @@ export interface OfflineQueueItem {
   status?: OfflineQueueStatus;
   last_error?: string;
   next_retry_at?: number;
+  base_updated_at?: string; // updated_at of the record the change was made against
+  base?: any; // last-synced copy of the record, for three-way merges
   conflict?: {
     local: any;
     remote: any;
     fields?: string[]; // fields in conflict
+    base?: any;
+    merged?: any; // automatic merge, with local values for the fields in conflict
+    conflict_id?: string; // DeviceConflict id
   };
 }
 
+export interface HeldNotifications {
+  releaseAt: string; // ISO date string, when the summary goes out
+  summaryId: string;
+  items: Array<{ title: string; body: string; data: Record<string, any>; categoryIdentifier?: string }>;
+}
+
+export interface FocusSettings {
+  workMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  cycles: number; // work intervals in a session
+  longBreakEvery: number; // work intervals between long breaks
+}
+
+export interface ActiveFocusSession {
+  userId: string;
+  taskId: string;
+  taskTitle: string;
+  startedAt: string; // ISO date string
+  settings: FocusSettings;
+  nextPhase: number; // first phase not yet logged as a time entry
+  tracking: boolean; // a work interval's time entry is open
+  notificationIds: string[]; // phase-change cues
+}
+
 /**
  * Type-safe storage operations for specific data types (Async)
  * Now supports encryption for sensitive data
@@ -233,9 +283,7 @@ export class TypedStorage {
       await TypedStorage.offlineQueue.set(Array.from(queue.filter(q => q.id !== id)));
     },
     setNextRetry: async (id: string, retry_count: number) => {
-      // Exponential backoff: 2^retry_count * 5 seconds (max 10 min)
-      const delay = Math.min(Math.pow(2, retry_count) * 5000, 10 * 60 * 1000);
-      const next_retry_at = Date.now() + delay;
+      const next_retry_at = Date.now() + getRetryDelay(retry_count);
       const queue = (await TypedStorage.offlineQueue.get()) || [];
       const idx = queue.findIndex(q => q.id === id);
       if (idx !== -1) {
@@ -288,6 +336,57 @@ export class TypedStorage {
     },
   };
 
+  static savedPlaces = {
+    get: async (): Promise<SavedPlace[]> => (await StorageUtils.get<SavedPlace[]>(STORAGE_KEYS.SAVED_PLACES, [], true)) || [],
+    set: async (places: SavedPlace[]) => await StorageUtils.set(STORAGE_KEYS.SAVED_PLACES, places, true),
+    add: async (place: SavedPlace) => {
+      const places = await TypedStorage.savedPlaces.get();
+      await TypedStorage.savedPlaces.set([...places.filter(p => p.id !== place.id), place]);
+    },
+    remove: async (id: string) => {
+      const places = await TypedStorage.savedPlaces.get();
+      await TypedStorage.savedPlaces.set(places.filter(p => p.id !== id));
+    },
+  };
+
+  // Last geofence event seen per task, so a region is only reported once per visit
+  static geofenceTransitions = {
+    get: async (): Promise<Record<string, 'enter' | 'exit'>> =>
+      (await StorageUtils.get<Record<string, 'enter' | 'exit'>>(STORAGE_KEYS.GEOFENCE_TRANSITIONS, {})) || {},
+    set: async (transitions: Record<string, 'enter' | 'exit'>) =>
+      await StorageUtils.set(STORAGE_KEYS.GEOFENCE_TRANSITIONS, transitions),
+  };
+
+  static heldNotifications = {
+    get: async () => await StorageUtils.get<HeldNotifications>(STORAGE_KEYS.HELD_NOTIFICATIONS, undefined, true),
+    set: async (held: HeldNotifications) => await StorageUtils.set(STORAGE_KEYS.HELD_NOTIFICATIONS, held, true),
+  };
+
+  static digestNotifications = {
+    get: async (): Promise<string[]> => (await StorageUtils.get<string[]>(STORAGE_KEYS.DIGEST_NOTIFICATIONS, [])) || [],
+    set: async (ids: string[]) => await StorageUtils.set(STORAGE_KEYS.DIGEST_NOTIFICATIONS, ids),
+  };
+
+  static focusSettings = {
+    get: async () => await StorageUtils.get<FocusSettings>(STORAGE_KEYS.FOCUS_SETTINGS),
+    set: async (settings: FocusSettings) => await StorageUtils.set(STORAGE_KEYS.FOCUS_SETTINGS, settings),
+  };
+
+  static focusSession = {
+    get: async () => await StorageUtils.get<ActiveFocusSession>(STORAGE_KEYS.FOCUS_SESSION),
+    set: async (session: ActiveFocusSession) => await StorageUtils.set(STORAGE_KEYS.FOCUS_SESSION, session),
+    clear: async () => await StorageUtils.delete(STORAGE_KEYS.FOCUS_SESSION),
+  };
+
+  static patternRecomputes = {
+    get: async (userId: string): Promise<string | undefined> =>
+      ((await StorageUtils.get<Record<string, string>>(STORAGE_KEYS.PATTERN_RECOMPUTES, {})) || {})[userId],
+    set: async (userId: string, at: string) => {
+      const recomputes = (await StorageUtils.get<Record<string, string>>(STORAGE_KEYS.PATTERN_RECOMPUTES, {})) || {};
+      await StorageUtils.set(STORAGE_KEYS.PATTERN_RECOMPUTES, { ...recomputes, [userId]: at });
+    },
+  };
+
   static session = {
     get: async () => await StorageUtils.get(STORAGE_KEYS.SESSION_ID),
     set: async (sessionId: string) => await StorageUtils.set(STORAGE_KEYS.SESSION_ID, sessionId),
@@ -10,6 +10,56 @@ export interface TaskAttachment {
   metadata?: Record<string, any>;
 }
 
+/**
+ * Repeat rule for a task series. Each instance carries a copy of the rule.
+ */
+export interface RecurrenceRule {
+  frequency: 'daily' | 'weekly' | 'monthly';
+  interval: number; // every N days, weeks or months
+  weekdays?: number[]; // weekly: 0 (Sunday) to 6 (Saturday)
+  monthDay?: number; // monthly: 1-31, clamped to the length of the month
+  until?: string; // ISO date string, no occurrences after this day
+  count?: number; // total number of occurrences in the series
+  exceptions?: string[]; // YYYY-MM-DD dates skipped in the series
+}
+
+/**
+ * Reminder that fires when the device arrives at or leaves a place
+ */
+export interface LocationReminder {
+  latitude: number;
+  longitude: number;
+  radius: number; // meters
+  placeName?: string;
+  trigger: 'enter' | 'exit';
+}
+
+/**
+ * A place the user picked before, offered again in the place picker
+ */
+export interface SavedPlace {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  radius: number; // meters
+}
+
+export type CalendarEventType = 'meeting' | 'appointment' | 'event' | 'reminder';
+
+/**
+ * A stretch of time the user's calendar shows them as busy
+ */
+export interface BusyBlock {
+  id: string;
+  title: string;
+  start: string; // ISO date string
+  end: string; // ISO date string
+  type: CalendarEventType;
+  source: 'device' | 'ics';
+  allDay?: boolean;
+}
+
 export interface Task {
   id: string;
   user_id: string;
@@ -24,9 +74,12 @@ export interface Task {
   ai_suggested: boolean;
   reminder_enabled: boolean;
   reminder_time?: string; // ISO date string
+  location_reminder?: LocationReminder;
   due_date?: string; // ISO date string
+  estimated_minutes?: number; // how long the task is expected to take
   created_at: string; // ISO date string
   updated_at: string; // ISO date string
+  deleted_at?: string; // ISO date string, set while the task is in the trash
   locationContext?: {
     latitude: number;
     longitude: number;
@@ -35,6 +88,97 @@ export interface Task {
     accuracy?: number;
   };
   attachments?: TaskAttachment[];
+  recurrence?: RecurrenceRule;
+  series_id?: string; // id of the first task in the series
+  series_index?: number; // 1-based position in the series
+  require_subtasks?: boolean; // the task can only be completed once every subtask is
+  blocked_by?: string[]; // ids of tasks that must be completed first
+  // Subtask rollup, computed when tasks are listed
+  subtask_count?: number;
+  subtask_completed_count?: number;
+  tracked_minutes?: number; // time tracked on finished timer sessions, computed when tasks are listed
+}
+
+/**
+ * Checklist item owned by a task, ordered by position
+ */
+export interface Subtask {
+  id: string;
+  user_id: string;
+  task_id: string;
+  title: string;
+  completed: boolean;
+  completed_at?: string; // ISO date string
+  position: number;
+  created_at: string; // ISO date string
+  updated_at: string; // ISO date string
+  deleted_at?: string; // ISO date string
+}
+
+/**
+ * One timer session on a task, from start or resume until pause or stop.
+ * Kept on the device only.
+ */
+export interface TimeEntry {
+  id: string;
+  user_id: string;
+  task_id: string;
+  started_at: string; // ISO date string
+  ended_at?: string; // ISO date string, unset while the timer runs
+  ended_by?: 'pause' | 'stop';
+  source?: 'timer' | 'focus'; // focus: a work interval of a focus session
+  created_at: string; // ISO date string
+  updated_at: string; // ISO date string
+}
+
+/**
+ * A finished focus-session interval with its task's category, for analytics
+ */
+export interface FocusEntry extends TimeEntry {
+  category: string;
+}
+
+/**
+ * A weighted input to a score: what it measured (0-1) and how much it counted
+ */
+export interface ExplanationFactor {
+  name: string;
+  value: number;
+  weight: number;
+}
+
+/**
+ * A learned pattern a suggestion came from, with how confident we are in it
+ */
+export interface ExplanationSource {
+  patternId: string;
+  patternTable: 'user_patterns' | 'temporal_patterns';
+  patternType: string; // temporal, sequential, contextual or frequency
+  label: string;
+  confidence: number; // 0-1, as stored with the pattern
+  factors?: ExplanationFactor[]; // confidence factors from pattern scoring
+  notes?: string[];
+  reliability?: 'high' | 'medium' | 'low';
+}
+
+/**
+ * A multiplier applied after scoring
+ */
+export interface ExplanationAdjustment {
+  source: 'calendar' | 'preference' | 'feedback';
+  label: string;
+  factor: number;
+}
+
+/**
+ * Why a suggestion was made, kept with it so the app can show its working
+ */
+export interface SuggestionExplanation {
+  sources: ExplanationSource[];
+  factors: ExplanationFactor[]; // ranking factors
+  contextMatches: string[];
+  adjustments: ExplanationAdjustment[];
+  score: number; // final ranking score
 }
 
 export interface Suggestion {
@@ -48,9 +192,12 @@ export interface Suggestion {
   time_estimate?: string; // e.g., "30 mins", "2 hours"
   priority: 'low' | 'medium' | 'high';
   based_on: string[]; // JSON array of factors
+  explanation?: SuggestionExplanation;
   status: 'pending' | 'accepted' | 'rejected' | 'dismissed';
   created_at: string; // ISO date string
   expires_at?: string; // ISO date string
+  updated_at?: string; // ISO date string
+  deleted_at?: string; // ISO date string
 }
 
 export interface Feedback {
@@ -60,6 +207,17 @@ export interface Feedback {
   feedback_type: 'positive' | 'negative';
   reason?: string;
   created_at: string; // ISO date string
+  updated_at?: string; // ISO date string
+  deleted_at?: string; // ISO date string
+}
+
+// Trash Models
+export type TrashEntity = 'task' | 'suggestion' | 'feedback';
+
+export interface TrashContents {
+  tasks: Task[];
+  suggestions: Suggestion[];
+  feedback: Feedback[];
 }
 
 export interface UserPreferences {
@@ -69,6 +227,8 @@ export interface UserPreferences {
   ai_suggestions_enabled: boolean;
   smart_reminders_enabled: boolean;
   reminder_frequency: 'hourly' | 'daily' | 'weekly';
+  digest_time?: string; // 'HH:mm', local time the daily and weekly digests go out
+  digest_weekday?: number; // 0 (Sunday) to 6, day of the weekly digest
   created_at: string; // ISO date string
   updated_at: string; // ISO date string
 }
@@ -96,7 +256,9 @@ export interface TaskCreateInput {
   ai_suggested?: boolean;
   reminder_enabled?: boolean;
   reminder_time?: string;
+  location_reminder?: LocationReminder;
   due_date?: string;
+  estimated_minutes?: number;
   locationContext?: {
     latitude: number;
     longitude: number;
@@ -105,6 +267,11 @@ export interface TaskCreateInput {
     accuracy?: number;
   };
   attachments?: TaskAttachment[];
+  recurrence?: RecurrenceRule;
+  series_id?: string;
+  series_index?: number;
+  require_subtasks?: boolean;
+  blocked_by?: string[];
 }
 
 export interface TaskUpdateInput {
@@ -119,7 +286,9 @@ export interface TaskUpdateInput {
   ai_suggested?: boolean;
   reminder_enabled?: boolean;
   reminder_time?: string;
+  location_reminder?: LocationReminder | null;
   due_date?: string;
+  estimated_minutes?: number | null;
   locationContext?: {
     latitude: number;
     longitude: number;
@@ -128,6 +297,9 @@ export interface TaskUpdateInput {
     accuracy?: number;
   };
   attachments?: TaskAttachment[];
+  recurrence?: RecurrenceRule;
+  require_subtasks?: boolean;
+  blocked_by?: string[];
 }
 
 export interface SuggestionCreateInput {
@@ -139,6 +311,7 @@ export interface SuggestionCreateInput {
   time_estimate?: string;
   priority?: 'low' | 'medium' | 'high';
   based_on: string[];
+  explanation?: SuggestionExplanation;
   expires_at?: string;
 }
 
@@ -163,6 +336,13 @@ export interface TaskListItem {
   reminder_enabled: boolean;
   reminder_time?: string;
   due_date?: string;
+  recurrence?: RecurrenceRule;
+  series_id?: string;
+  series_index?: number;
+  require_subtasks?: boolean;
+  blocked_by?: string[];
+  subtask_count?: number;
+  subtask_completed_count?: number;
   created_at: string;
   updated_at: string;
   // Computed fields for UI
@@ -250,6 +430,8 @@ export interface Reminder {
   notification_id?: string;
   status: 'pending' | 'sent' | 'dismissed' | 'snoozed';
   created_at: string;
+  updated_at?: string;
+  deleted_at?: string;
 }
 
 export interface ReminderCreateInput {
@@ -316,15 +498,56 @@ export interface TaskFilters {
   aiSuggested?: boolean;
 }
 
+/**
+ * One condition of a saved view. Date conditions are whole days relative to
+ * today (e.g. due from 0 to 7 is "due this week"), so views don't go stale.
+ */
+export type SmartFilterCondition =
+  | { field: 'status'; value: 'completed' | 'pending' }
+  | { field: 'priority'; value: 'low' | 'medium' | 'high' }
+  | { field: 'category'; value: string }
+  | { field: 'tag'; value: string }
+  | { field: 'due_date' | 'created_at'; fromDays?: number; toDays?: number }
+  | { field: 'ai_suggested' | 'has_reminder' | 'overdue'; value: boolean };
+
+/**
+ * A named filter definition; pinned views show as tabs on the home screen
+ */
+export interface SavedView {
+  id: string;
+  user_id: string;
+  name: string;
+  combinator: 'and' | 'or'; // how conditions are combined
+  conditions: SmartFilterCondition[];
+  pinned: boolean;
+  position: number;
+  created_at: string; // ISO date string
+  updated_at: string; // ISO date string
+  deleted_at?: string; // ISO date string
+}
+
+export interface SavedViewInput {
+  name: string;
+  combinator: 'and' | 'or';
+  conditions: SmartFilterCondition[];
+  pinned?: boolean;
+}
+
 export interface SearchOptions {
   query: string;
   filters: TaskFilters;
-  sortBy?: 'created_at' | 'updated_at' | 'priority' | 'due_date';
+  sortBy?: 'relevance' | 'created_at' | 'updated_at' | 'priority' | 'due_date'; // relevance by default when there is a query
   sortOrder?: 'asc' | 'desc';
   limit?: number;
   offset?: number;
 }
 
+export interface TaskSearchResult {
+  task: Task;
+  rank: number; // bm25 score, lower is a better match; 0 without a query
+  snippet?: string; // best matching passage with highlight markers
+}
+
 // Error Models
 export interface AppError {
   code: string;
@@ -0,0 +1,95 @@
+import * as fs from 'fs';
+import {
+  compareConfigurations,
+  formatComparison,
+  datasetFromExport,
+  syntheticDataset,
+  EvaluationConfig,
+  EvaluationDataset,
+} from '../lib/services/suggestionEvaluation';
+import { DEFAULT_GENERATORS } from '../lib/services/suggestionGenerators';
+
+/**
+ * Compare two suggestion configurations offline and print the comparison.
+ *
+ *   npm run evaluate:suggestions -- baseline.json candidate.json [--export data.json] [--days 90] [--seed 1] [--k 5]
+ *
+ * Each config file is an EvaluationConfig with its generators given by name,
+ * e.g. { "name": "timing", "weights": { "timing": 0.3 }, "generators": ["temporal", "frequency"] }.
+ * With --export the history is the tasks of a data export; otherwise it is the
+ * synthetic one, --days long from --seed.
+ */
+
+const USAGE =
+  'Usage: evaluateSuggestions <baseline.json> <candidate.json> [--export data.json] [--days 90] [--seed 1] [--k 5]';
+
+interface Arguments {
+  configs: string[];
+  flags: Record<string, string>;
+}
+
+function parseArguments(args: string[]): Arguments {
+  const configs: string[] = [];
+  const flags: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith('--')) {
+      configs.push(args[i]);
+      continue;
+    }
+    const value = args[i + 1];
+    if (value === undefined || value.startsWith('--')) throw new Error(`${args[i]} needs a value`);
+    flags[args[i].slice(2)] = value;
+    i++;
+  }
+  if (configs.length !== 2) throw new Error(USAGE);
+  return { configs, flags };
+}
+
+function readJson(file: string): any {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// Only the flags that were given, so the defaults fill in the rest
+function numberFlags<K extends string>(flags: Record<string, string>, names: K[]): Partial<Record<K, number>> {
+  const values: Partial<Record<K, number>> = {};
+  for (const name of names) {
+    if (flags[name] === undefined) continue;
+    const value = Number(flags[name]);
+    if (!Number.isFinite(value)) throw new Error(`--${name} must be a number`);
+    values[name] = value;
+  }
+  return values;
+}
+
+function loadConfig(file: string): EvaluationConfig {
+  const { generators, ...config } = readJson(file);
+  if (!generators) return { name: file, ...config };
+
+  const named = (generators as string[]).map(name => {
+    const generator = DEFAULT_GENERATORS.find(g => g.name === name);
+    if (!generator) throw new Error(`Unknown generator "${name}" in ${file}; one of ${DEFAULT_GENERATORS.map(g => g.name).join(', ')}`);
+    return generator;
+  });
+  return { name: file, ...config, generators: named };
+}
+
+function loadDataset(flags: Record<string, string>): EvaluationDataset {
+  if (flags.export) return datasetFromExport(readJson(flags.export), flags.export);
+  return syntheticDataset(numberFlags(flags, ['days', 'seed']));
+}
+
+async function main() {
+  const { configs, flags } = parseArguments(process.argv.slice(2));
+  const [baseline, candidate] = configs.map(loadConfig);
+  const comparison = await compareConfigurations(loadDataset(flags), baseline, candidate, numberFlags(flags, ['k']));
+  console.log(formatComparison(comparison));
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});